@@ -0,0 +1,28 @@
+-- Persisted compliance calendar events for the daily reminder job
+
+CREATE TABLE IF NOT EXISTS "ComplianceEvent" (
+  "id" TEXT PRIMARY KEY,
+  "facilityId" TEXT NOT NULL,
+  "title" TEXT NOT NULL,
+  "description" TEXT NOT NULL DEFAULT '',
+  "type" TEXT NOT NULL,
+  "category" TEXT NOT NULL,
+  "dueDate" TIMESTAMP(3) NOT NULL,
+  "reminderDays" INTEGER[] NOT NULL DEFAULT ARRAY[]::INTEGER[],
+  "remindersSent" INTEGER[] NOT NULL DEFAULT ARRAY[]::INTEGER[],
+  "frequency" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'Upcoming',
+  "priority" TEXT NOT NULL,
+  "responsiblePerson" TEXT NOT NULL,
+  "responsibleDepartment" TEXT NOT NULL DEFAULT '',
+  "regulatoryBody" TEXT NOT NULL,
+  "referenceNumber" TEXT,
+  "notes" TEXT NOT NULL DEFAULT '',
+  "completedDate" TIMESTAMP(3),
+  "completedBy" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "ComplianceEvent_facilityId_dueDate_idx" ON "ComplianceEvent"("facilityId", "dueDate");
+CREATE INDEX IF NOT EXISTS "ComplianceEvent_status_dueDate_idx" ON "ComplianceEvent"("status", "dueDate");
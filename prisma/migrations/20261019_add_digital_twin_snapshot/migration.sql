@@ -0,0 +1,15 @@
+-- Digital twin snapshots for replay and what-if forks
+
+CREATE TABLE IF NOT EXISTS "DigitalTwinSnapshot" (
+  "id" TEXT PRIMARY KEY,
+  "facilityId" TEXT NOT NULL,
+  "zoneId" TEXT,
+  "label" TEXT,
+  "version" INTEGER NOT NULL DEFAULT 1,
+  "takenAt" TIMESTAMP(3) NOT NULL,
+  "state" JSONB NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "DigitalTwinSnapshot_facilityId_takenAt_idx" ON "DigitalTwinSnapshot"("facilityId", "takenAt");
+CREATE INDEX IF NOT EXISTS "DigitalTwinSnapshot_zoneId_idx" ON "DigitalTwinSnapshot"("zoneId");
@@ -0,0 +1,28 @@
+-- Green Button Connect My Data: ESPI subscriptions and incremental sync state
+
+CREATE TABLE IF NOT EXISTS "GreenButtonSubscription" (
+  "id" TEXT PRIMARY KEY,
+  "facilityId" TEXT NOT NULL,
+  "dataCustodianUrl" TEXT NOT NULL,
+  "resourceUri" TEXT NOT NULL,
+  "authorizationUri" TEXT,
+  "scope" TEXT,
+  "accessToken" TEXT NOT NULL,
+  "refreshToken" TEXT,
+  "tokenExpiresAt" TIMESTAMP(3),
+  "status" TEXT NOT NULL DEFAULT 'active',
+  "lastIntervalEnd" TIMESTAMP(3),
+  "lastSyncAt" TIMESTAMP(3),
+  "gaps" JSONB,
+  "lastError" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+DO $$ BEGIN
+  ALTER TABLE "GreenButtonSubscription"
+    ADD CONSTRAINT "GreenButtonSubscription_facilityId_fkey" FOREIGN KEY ("facilityId") REFERENCES "Facility"("id") ON UPDATE CASCADE ON DELETE RESTRICT;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "GreenButtonSubscription_resourceUri_key" ON "GreenButtonSubscription"("resourceUri");
+CREATE INDEX IF NOT EXISTS "GreenButtonSubscription_facilityId_status_idx" ON "GreenButtonSubscription"("facilityId", "status");
@@ -0,0 +1,26 @@
+-- HMI automation rule scheduling fields and execution log
+
+ALTER TABLE "HMIAutomationRule" ADD COLUMN IF NOT EXISTS "description" TEXT;
+ALTER TABLE "HMIAutomationRule" ADD COLUMN IF NOT EXISTS "priority" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "HMIAutomationRule" ADD COLUMN IF NOT EXISTS "schedule" JSONB;
+ALTER TABLE "HMIAutomationRule" ADD COLUMN IF NOT EXISTS "cooldownMinutes" INTEGER;
+
+CREATE TABLE IF NOT EXISTS "HMIAutomationExecution" (
+  "id" TEXT PRIMARY KEY,
+  "ruleId" TEXT NOT NULL,
+  "facilityId" TEXT NOT NULL,
+  "executedAt" TIMESTAMP(3) NOT NULL,
+  "status" TEXT NOT NULL,
+  "conditions" JSONB NOT NULL,
+  "actions" JSONB NOT NULL,
+  "error" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW()
+);
+
+DO $$ BEGIN
+  ALTER TABLE "HMIAutomationExecution"
+    ADD CONSTRAINT "HMIAutomationExecution_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "HMIAutomationRule"("id") ON UPDATE CASCADE ON DELETE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+CREATE INDEX IF NOT EXISTS "HMIAutomationExecution_ruleId_executedAt_idx" ON "HMIAutomationExecution"("ruleId", "executedAt");
+CREATE INDEX IF NOT EXISTS "HMIAutomationExecution_facilityId_executedAt_idx" ON "HMIAutomationExecution"("facilityId", "executedAt");
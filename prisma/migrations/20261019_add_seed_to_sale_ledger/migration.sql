@@ -0,0 +1,57 @@
+-- Seed-to-sale ledger: current tag state plus an append-only event history
+
+-- SeedToSaleTag
+CREATE TABLE IF NOT EXISTS "SeedToSaleTag" (
+  "id" TEXT PRIMARY KEY,
+  "facilityId" TEXT NOT NULL,
+  "tag" TEXT NOT NULL,
+  "entityType" TEXT NOT NULL,
+  "status" TEXT NOT NULL,
+  "state" JSONB NOT NULL,
+  "version" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+DO $$ BEGIN
+  ALTER TABLE "SeedToSaleTag"
+    ADD CONSTRAINT "SeedToSaleTag_facilityId_fkey" FOREIGN KEY ("facilityId") REFERENCES "Facility"("id") ON UPDATE CASCADE ON DELETE RESTRICT;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "SeedToSaleTag_facilityId_tag_key" ON "SeedToSaleTag"("facilityId", "tag");
+CREATE INDEX IF NOT EXISTS "SeedToSaleTag_facilityId_entityType_status_idx" ON "SeedToSaleTag"("facilityId", "entityType", "status");
+
+-- SeedToSaleEvent
+CREATE TABLE IF NOT EXISTS "SeedToSaleEvent" (
+  "id" TEXT PRIMARY KEY,
+  "facilityId" TEXT NOT NULL,
+  "tagId" TEXT NOT NULL,
+  "sequence" INTEGER NOT NULL,
+  "type" TEXT NOT NULL,
+  "payload" JSONB NOT NULL,
+  "state" JSONB NOT NULL,
+  "actor" TEXT,
+  "occurredAt" TIMESTAMP(3) NOT NULL,
+  "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT NOW()
+);
+
+DO $$ BEGIN
+  ALTER TABLE "SeedToSaleEvent"
+    ADD CONSTRAINT "SeedToSaleEvent_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "SeedToSaleTag"("id") ON UPDATE CASCADE ON DELETE RESTRICT;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "SeedToSaleEvent_tagId_sequence_key" ON "SeedToSaleEvent"("tagId", "sequence");
+CREATE INDEX IF NOT EXISTS "SeedToSaleEvent_facilityId_type_occurredAt_idx" ON "SeedToSaleEvent"("facilityId", "type", "occurredAt");
+CREATE INDEX IF NOT EXISTS "SeedToSaleEvent_facilityId_occurredAt_idx" ON "SeedToSaleEvent"("facilityId", "occurredAt");
+
+-- Event history is append-only
+CREATE OR REPLACE FUNCTION "seed_to_sale_event_immutable"() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'SeedToSaleEvent rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "SeedToSaleEvent_immutable" ON "SeedToSaleEvent";
+CREATE TRIGGER "SeedToSaleEvent_immutable"
+  BEFORE UPDATE OR DELETE ON "SeedToSaleEvent"
+  FOR EACH ROW EXECUTE FUNCTION "seed_to_sale_event_immutable"();
@@ -0,0 +1,67 @@
+-- Outbound webhooks: persisted subscriptions, deliveries (dead-letter store) and attempt log
+
+CREATE TABLE IF NOT EXISTS "WebhookSubscription" (
+  "id" TEXT PRIMARY KEY,
+  "apiKeyId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "facilityId" TEXT,
+  "url" TEXT NOT NULL,
+  "secret" TEXT NOT NULL,
+  "events" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "filters" JSONB,
+  "active" BOOLEAN NOT NULL DEFAULT true,
+  "failureCount" INTEGER NOT NULL DEFAULT 0,
+  "lastDeliveryAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "WebhookDelivery" (
+  "id" TEXT PRIMARY KEY,
+  "subscriptionId" TEXT NOT NULL,
+  "eventId" TEXT NOT NULL,
+  "eventType" TEXT NOT NULL,
+  "payload" JSONB NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "lastStatusCode" INTEGER,
+  "lastError" TEXT,
+  "nextAttemptAt" TIMESTAMP(3),
+  "deliveredAt" TIMESTAMP(3),
+  "deadLetteredAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "WebhookDeliveryAttempt" (
+  "id" TEXT PRIMARY KEY,
+  "deliveryId" TEXT NOT NULL,
+  "attempt" INTEGER NOT NULL,
+  "statusCode" INTEGER,
+  "durationMs" INTEGER NOT NULL,
+  "error" TEXT,
+  "responseBody" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT NOW()
+);
+
+DO $$ BEGIN
+  ALTER TABLE "WebhookSubscription"
+    ADD CONSTRAINT "WebhookSubscription_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "ApiKey"("id") ON UPDATE CASCADE ON DELETE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "WebhookDelivery"
+    ADD CONSTRAINT "WebhookDelivery_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "WebhookSubscription"("id") ON UPDATE CASCADE ON DELETE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "WebhookDeliveryAttempt"
+    ADD CONSTRAINT "WebhookDeliveryAttempt_deliveryId_fkey" FOREIGN KEY ("deliveryId") REFERENCES "WebhookDelivery"("id") ON UPDATE CASCADE ON DELETE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+CREATE INDEX IF NOT EXISTS "WebhookSubscription_apiKeyId_idx" ON "WebhookSubscription"("apiKeyId");
+CREATE INDEX IF NOT EXISTS "WebhookSubscription_userId_active_idx" ON "WebhookSubscription"("userId", "active");
+CREATE UNIQUE INDEX IF NOT EXISTS "WebhookDelivery_subscriptionId_eventId_key" ON "WebhookDelivery"("subscriptionId", "eventId");
+CREATE INDEX IF NOT EXISTS "WebhookDelivery_subscriptionId_createdAt_idx" ON "WebhookDelivery"("subscriptionId", "createdAt");
+CREATE INDEX IF NOT EXISTS "WebhookDelivery_status_deadLetteredAt_idx" ON "WebhookDelivery"("status", "deadLetteredAt");
+CREATE INDEX IF NOT EXISTS "WebhookDeliveryAttempt_deliveryId_attempt_idx" ON "WebhookDeliveryAttempt"("deliveryId", "attempt");
@@ -0,0 +1,159 @@
+/**
+ * CFD Engine Tests
+ * Projection, buoyancy and canopy drag on small grids, plus VTK export
+ */
+
+import { CFDConfig, CFDEngine, CFDLimitError, CFDResult } from '@/lib/cfd/cfd-engine'
+import { cfdResultToVTK } from '@/lib/cfd/vtk-export'
+
+function config(overrides: Partial<CFDConfig>): CFDConfig {
+  return {
+    gridSizeX: 8,
+    gridSizeY: 8,
+    gridSizeZ: 8,
+    cellSize: 0.25,
+    airDensity: 1.2,
+    airViscosity: 1.8e-5,
+    thermalDiffusivity: 2.2e-5,
+    turbulentViscosity: 1e-3,
+    timeStep: 0.1,
+    iterations: 50,
+    convergenceTolerance: 1e-5,
+    ambientTemperature: 20,
+    ambientPressure: 101325,
+    ...overrides
+  }
+}
+
+function cell(result: CFDResult, i: number, j: number, k: number) {
+  const { nx, ny } = result.grid
+  const c = i + nx * (j + ny * k)
+  return {
+    u: result.velocityField[c * 3],
+    v: result.velocityField[c * 3 + 1],
+    w: result.velocityField[c * 3 + 2],
+    T: result.temperatureField[c]
+  }
+}
+
+// Duct along x with the inlet slab at i = 0 and the outlet slab at i = nx - 1
+function duct(canopy: boolean) {
+  const engine = new CFDEngine(config({ gridSizeX: 16, gridSizeY: 4, gridSizeZ: 4, gravity: 0, iterations: 400, convergenceTolerance: 1e-4 }))
+  engine.addBoundary({
+    type: 'inlet',
+    position: { x: 0, y: 0, z: 0 },
+    size: { width: 0.25, height: 1, depth: 1 },
+    properties: { velocity: { x: 1, y: 0, z: 0 }, temperature: 20 }
+  })
+  engine.addBoundary({
+    type: 'outlet',
+    position: { x: 3.75, y: 0, z: 0 },
+    size: { width: 0.25, height: 1, depth: 1 },
+    properties: {}
+  })
+  if (canopy) {
+    // Lower half of the duct cross-section is crop
+    engine.addCanopy({
+      position: { x: 1, y: 0, z: 0 },
+      size: { width: 2, height: 1, depth: 0.5 },
+      leafAreaDensity: 8,
+      dragCoefficient: 0.3
+    })
+  }
+  return engine.simulate()
+}
+
+describe('CFDEngine', () => {
+  it('should keep every fluid cell divergence-free after projection', () => {
+    const result = duct(false)
+
+    result.convergence.residuals.forEach(residual => expect(residual.continuity).toBeLessThan(1e-4))
+    expect(result.convergence.converged).toBe(true)
+    expect(result.convergence.stopReason).toBe('converged')
+    expect(result.convergenceHistory).toHaveLength(result.convergence.steps)
+
+    // Mass in through the inlet leaves through the outlet
+    for (let i = 2; i < 14; i++) {
+      let flow = 0
+      for (let j = 0; j < 4; j++) for (let k = 0; k < 4; k++) flow += cell(result, i, j, k).u
+      expect(flow / 16).toBeCloseTo(1, 2)
+    }
+  })
+
+  it('should divert flow around a porous canopy', () => {
+    const open = duct(false)
+    const planted = duct(true)
+
+    const inCanopy = cell(planted, 8, 2, 0).u
+    const aboveCanopy = cell(planted, 8, 2, 3).u
+    expect(inCanopy).toBeLessThan(0.6 * cell(open, 8, 2, 0).u)
+    expect(aboveCanopy).toBeGreaterThan(1.2)
+  })
+
+  it('should raise a buoyant plume over a heat source', () => {
+    const engine = new CFDEngine(config({ iterations: 60 }))
+    engine.addHeatSource({
+      position: { x: 0.75, y: 0.75, z: 0 },
+      size: { width: 0.5, height: 0.5, depth: 0.25 },
+      power: 200,
+      type: 'equipment'
+    })
+    const result = engine.simulate()
+
+    const above = cell(result, 3, 3, 3)
+    expect(above.w).toBeGreaterThan(0.05)
+    expect(above.T).toBeGreaterThan(20)
+    // Air sinks again along the walls of the closed box
+    expect(cell(result, 0, 0, 4).w).toBeLessThan(0)
+    expect(result.maxTemperature).toBeGreaterThan(result.minTemperature)
+    expect(result.convergence.stopReason).toBe('max_iterations')
+    result.convergence.residuals.forEach(residual => expect(residual.continuity).toBeLessThan(1e-4))
+  })
+
+  it('should treat obstacles as solid cells', () => {
+    const engine = new CFDEngine(config({ gridSizeX: 16, gridSizeY: 4, gridSizeZ: 4, gravity: 0, iterations: 100 }))
+    engine.addBoundary({ type: 'inlet', position: { x: 0, y: 0, z: 0 }, size: { width: 0.25, height: 1, depth: 1 }, properties: { velocity: { x: 1, y: 0, z: 0 } } })
+    engine.addBoundary({ type: 'outlet', position: { x: 3.75, y: 0, z: 0 }, size: { width: 0.25, height: 1, depth: 1 }, properties: {} })
+    engine.addBoundary({ type: 'obstacle', position: { x: 2, y: 0, z: 0 }, size: { width: 0.25, height: 1, depth: 0.5 }, properties: {} })
+    const result = engine.simulate()
+
+    expect(cell(result, 8, 1, 0)).toMatchObject({ u: 0, v: 0, w: 0 })
+    expect(result.solidMask.reduce((sum, value) => sum + value, 0)).toBe(8)
+    expect(cell(result, 8, 1, 3).u).toBeGreaterThan(1.5)
+  })
+
+  it('should stop at the wall-clock budget and refuse oversized grids', () => {
+    const engine = new CFDEngine(config({ iterations: 1000, maxWallTimeMs: 0 }))
+    engine.addHeatSource({ position: { x: 1, y: 1, z: 0 }, size: { width: 0.25, height: 0.25, depth: 0.25 }, power: 100, type: 'fixture' })
+    const result = engine.simulate()
+    expect(result.convergence.stopReason).toBe('time_limit')
+    expect(result.convergence.steps).toBe(1)
+
+    expect(() => new CFDEngine(config({ gridSizeX: 200, gridSizeY: 200, gridSizeZ: 100, maxCells: 1e6 }))).toThrow(CFDLimitError)
+  })
+})
+
+describe('cfdResultToVTK', () => {
+  it('should write legacy structured points with cell data ParaView can read', () => {
+    const engine = new CFDEngine(config({ gridSizeX: 3, gridSizeY: 2, gridSizeZ: 2, iterations: 2 }))
+    const vtk = cfdResultToVTK(engine.simulate(), { title: 'Room A\nsupply' })
+    const lines = vtk.trim().split('\n')
+
+    expect(lines.slice(0, 8)).toEqual([
+      '# vtk DataFile Version 3.0',
+      'Room A supply',
+      'ASCII',
+      'DATASET STRUCTURED_POINTS',
+      'DIMENSIONS 4 3 3',
+      'ORIGIN 0 0 0',
+      'SPACING 0.25 0.25 0.25',
+      'CELL_DATA 12'
+    ])
+    expect(lines).toContain('SCALARS temperature float 1')
+    expect(lines).toContain('SCALARS solid int 1')
+    const vectors = lines.indexOf('VECTORS velocity float')
+    expect(lines.length - vectors - 1).toBe(12)
+    // 8 header lines + 3 scalar blocks of (2 + 12) + vectors block of (1 + 12)
+    expect(lines).toHaveLength(8 + 3 * 14 + 13)
+  })
+})
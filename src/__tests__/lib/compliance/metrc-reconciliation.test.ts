@@ -0,0 +1,196 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * METRC Reconciliation Tests
+ * Runs the reconciliation engine against the in-process mock METRC server
+ */
+
+import { METRCClient } from '@/lib/compliance/metrc-client'
+import { METRCReconciliationEngine, reconciliationReportToCsv } from '@/lib/compliance/metrc-reconciliation'
+import { MockMETRCServer } from '@/lib/compliance/mock-metrc-server'
+import { InMemoryLedgerStore } from '@/lib/seed-to-sale/ledger-store'
+import { SeedToSaleManager } from '@/lib/seed-to-sale/tracking-manager'
+import {
+  BatchStatus,
+  BatchType,
+  DisposalMethod,
+  HarvestStatus,
+  HarvestType,
+  PlantStage,
+  SourceType,
+  UnitOfMeasure,
+  WasteReason,
+  WasteType
+} from '@/lib/seed-to-sale/tracking-types'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+jest.mock('@/lib/logging/production-logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}))
+// The shared setup stubs events, which axios's HTTP adapter needs to talk to the mock server
+jest.unmock('events')
+
+const FACILITY = 'facility-1'
+const LICENSE = 'CUL-0001'
+
+async function seedLocalLedger(manager: SeedToSaleManager) {
+  const plantedDate = new Date('2026-01-05T00:00:00Z')
+  await manager.createPlantBatch({
+    name: 'GG4 January',
+    strain: 'GG4',
+    type: BatchType.Clone,
+    count: 5,
+    sourceType: SourceType.Clone,
+    plantedDate,
+    room: 'Veg1',
+    nutrients: [],
+    ipm: { preventative: [], scouting: { frequency: 'weekly', nextDue: plantedDate }, thresholds: [] },
+    trackingTags: ['P1', 'P2', 'P3', 'P4', 'P5'],
+    status: BatchStatus.Active
+  })
+  await manager.updatePlantStage(['P1', 'P2', 'P3', 'P4', 'P5'], PlantStage.Vegetative)
+  await manager.movePlants(['P2'], 'Flower1', 'Flip', 'grower')
+  await manager.updatePlantStage(['P2'], PlantStage.Flowering)
+
+  await manager.recordWaste({
+    date: new Date('2026-02-01T00:00:00Z'),
+    type: WasteType.Plant,
+    reason: WasteReason.Disease,
+    weight: 150,
+    unitOfMeasure: UnitOfMeasure.Grams,
+    method: DisposalMethod.Compost,
+    plantIds: ['P3'],
+    packageIds: [],
+    witnessName: 'QA',
+    notes: '',
+    reportedToState: false
+  })
+
+  const harvest = await manager.createHarvest({
+    harvestBatchId: 'HB-1',
+    plantIds: ['P5'],
+    strain: 'GG4',
+    harvestDate: new Date('2026-03-01T00:00:00Z'),
+    room: 'Flower1',
+    wetWeight: 1000,
+    wasteWeight: 100,
+    harvestType: HarvestType.Full,
+    dryingLocation: 'Dry1',
+    dryingStartDate: new Date('2026-03-01T00:00:00Z'),
+    labSampleTaken: false,
+    status: HarvestStatus.Drying
+  })
+  await manager.createPackages(harvest.id, [
+    { tagId: 'PKG1', weight: 250, productType: 'Flower' },
+    { tagId: 'PKG2', weight: 100, productType: 'Flower' }
+  ])
+}
+
+function seedMetrc(server: MockMETRCServer) {
+  server.addPlant({ Label: 'P1', GrowthPhase: 'Vegetative', LocationName: 'Veg1' })
+  server.addPlant({ Label: 'P2', GrowthPhase: 'Vegetative', LocationName: 'Veg1' })
+  server.addPlant({ Label: 'P3', GrowthPhase: 'Vegetative', LocationName: 'Veg1' })
+  server.addPlant({ Label: 'P9', GrowthPhase: 'Flowering', LocationName: 'Flower2' })
+  // P5 was harvested in METRC as well
+  const harvested = server.addPlant({ Label: 'P5', HarvestedDate: '2026-03-01' })
+  server.plants = server.plants.filter(p => p !== harvested)
+  server.inactivePlants.push(harvested)
+  server.addHarvest({ Name: 'HB-1', TotalWetWeight: 1000, TotalWasteWeight: 40 })
+  server.addPackage({ Label: 'PKG1', Quantity: 240, UnitOfMeasureName: 'Grams' })
+  server.addPackage({ Label: 'PKG2', Quantity: 0.2205, UnitOfMeasureName: 'Pounds' })
+  server.addPackage({ Label: 'PKG9', Quantity: 28, UnitOfMeasureName: 'Grams' })
+}
+
+describe('METRCReconciliationEngine', () => {
+  let server: MockMETRCServer
+  let baseUrl: string
+  let engine: METRCReconciliationEngine
+  let manager: SeedToSaleManager
+
+  beforeEach(async () => {
+    server = new MockMETRCServer({ licenseNumber: LICENSE, apiKey: 'vendor', userKey: 'user' })
+    baseUrl = await server.start()
+    const client = new METRCClient({
+      apiKey: 'vendor',
+      userKey: 'user',
+      facilityLicense: LICENSE,
+      environment: 'sandbox',
+      state: 'CO',
+      baseUrl
+    })
+    const store = new InMemoryLedgerStore()
+    manager = new SeedToSaleManager(FACILITY, store)
+    engine = new METRCReconciliationEngine(client, store, { actualDate: new Date('2026-04-01T00:00:00Z') })
+
+    await seedLocalLedger(manager)
+    seedMetrc(server)
+  })
+
+  afterEach(async () => {
+    await server.stop()
+  })
+
+  it('should classify every discrepancy between METRC and the ledger', async () => {
+    const report = await engine.reconcile(FACILITY, LICENSE)
+    const byTag = (type: string) => report.discrepancies.filter(d => d.type === type).map(d => d.tag).sort()
+
+    expect(report.summary).toEqual({
+      missing_in_metrc: 1,
+      missing_locally: 2,
+      weight_mismatch: 1,
+      stage_drift: 1,
+      location_drift: 1,
+      unreported_waste: 2
+    })
+    expect(byTag('missing_in_metrc')).toEqual(['P4'])
+    expect(byTag('missing_locally')).toEqual(['P9', 'PKG9'])
+    expect(byTag('weight_mismatch')).toEqual(['PKG1'])
+    expect(byTag('stage_drift')).toEqual(['P2'])
+    expect(byTag('location_drift')).toEqual(['P2'])
+    expect(byTag('unreported_waste')).toEqual(['HB-1', 'P3'])
+    expect(report.counts.plants).toEqual({ local: 3, metrc: 4 })
+
+    const weight = report.discrepancies.find(d => d.type === 'weight_mismatch')!
+    expect(weight.suggestedCalls[0]).toMatchObject({
+      method: 'POST',
+      path: '/packages/v1/adjust',
+      params: { licenseNumber: LICENSE },
+      body: [expect.objectContaining({ Label: 'PKG1', Quantity: 10, UnitOfMeasure: 'Grams' })]
+    })
+
+    const csv = reconciliationReportToCsv(report)
+    expect(csv.split('\n')).toHaveLength(report.discrepancies.length + 1)
+    expect(csv).toContain('PUT /plants/v1/destroyplants')
+  })
+
+  it('should leave only local follow-ups after applying the suggested calls', async () => {
+    const first = await engine.reconcile(FACILITY, LICENSE)
+    const result = await engine.applyCorrections(first)
+    expect(result.failed).toBeUndefined()
+
+    const second = await engine.reconcile(FACILITY, LICENSE)
+    expect(second.discrepancies.map(d => d.type)).toEqual(['missing_locally', 'missing_locally'])
+    expect(server.plants.find(p => p.Label === 'P4')?.GrowthPhase).toBe('Vegetative')
+    expect(server.harvests[0].TotalWasteWeight).toBe(100)
+  })
+
+  it('should treat converted weights within tolerance as matching', async () => {
+    const report = await engine.reconcile(FACILITY, LICENSE)
+    expect(report.discrepancies.some(d => d.tag === 'PKG2')).toBe(false)
+  })
+
+  it('should surface METRC authorization failures', async () => {
+    const client = new METRCClient({
+      apiKey: 'vendor',
+      userKey: 'revoked',
+      facilityLicense: LICENSE,
+      environment: 'sandbox',
+      state: 'CO',
+      baseUrl
+    })
+    const denied = new METRCReconciliationEngine(client, new InMemoryLedgerStore())
+    await expect(denied.reconcile(FACILITY, LICENSE)).rejects.toThrow(/401/)
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Climate PID Tests
+ * Closed-loop runs of the climate loops against the lumped greenhouse model
+ */
+
+import { PIDController } from '@/lib/controls/pid-controller'
+import { ClimateController, humidityForVpd } from '@/lib/controls/climate-pid'
+import {
+  ClimateTracePoint,
+  GreenhouseClimateModel,
+  OutsideConditions,
+  simulateClimateLoop
+} from '@/lib/controls/greenhouse-climate-model'
+
+const HOUR = 3600
+const START = 1_800_000_000_000
+
+const COLD_NIGHT: OutsideConditions = { temperature: 5, humidity: 90, co2: 420, solarRadiation: 0 }
+
+function after(trace: ClimateTracePoint[], seconds: number) {
+  return trace.filter(point => point.time >= seconds)
+}
+
+function run(controller: ClimateController, initial: { temperature: number; humidity: number; co2: number },
+  outside: OutsideConditions | ((time: number) => OutsideConditions), duration: number) {
+  controller.setEnabled(true)
+  return simulateClimateLoop(controller, new GreenhouseClimateModel(initial), outside, {
+    duration,
+    startTime: START
+  })
+}
+
+describe('PIDController', () => {
+  it('should stop integrating while saturated and limit the output rate', () => {
+    const pid = new PIDController({
+      kp: 10, ki: 0.1, kd: 0, setpoint: 20, form: 'positional', outputMin: 0, outputMax: 100,
+      integralWindupGuard: 1e6, deadband: 0, sampleTime: 1000, outputRateLimit: 5
+    })
+    pid.setEnabled(true)
+    pid.hold(0, START)
+
+    const outputs: number[] = []
+    for (let s = 1; s <= 600; s++) outputs.push(pid.update(0, 0, START + s * 1000))
+
+    expect(outputs.slice(0, 3)).toEqual([5, 10, 15])
+    expect(outputs[outputs.length - 1]).toBe(100)
+    // Without conditional integration the integral would be 20 °C × 600 s
+    expect(pid.getStatus().integral).toBeLessThan(20 * 10)
+
+    // Back at setpoint the output falls straight away instead of unwinding
+    expect(pid.update(20, 0, START + 601 * 1000)).toBeLessThan(100)
+  })
+
+  it('should drive reverse-acting loops up when the measurement is above setpoint', () => {
+    const pid = new PIDController({ kp: 10, ki: 0, kd: 0, setpoint: 24, direction: 'reverse', form: 'positional', outputMin: 0, outputMax: 100, deadband: 0 })
+    pid.setEnabled(true)
+    pid.hold(0, START)
+    expect(pid.update(26, 0, START + 2000)).toBe(20)
+  })
+
+  it('should offset rather than ramp the output under a constant feed-forward', () => {
+    const settings = { kp: 10, ki: 0.1, kd: 0, setpoint: 20, outputMin: 0, outputMax: 100, deadband: 0, feedForwardGain: 0.5 }
+    for (const form of ['incremental', 'positional'] as const) {
+      const pid = new PIDController({ ...settings, form })
+      pid.setEnabled(true)
+      pid.hold(form === 'incremental' ? 40 : 0, START)
+
+      const outputs: number[] = []
+      for (let s = 1; s <= 10; s++) outputs.push(pid.update(20, 20, START + s * 1000))
+      expect(outputs).toEqual(Array(10).fill(form === 'incremental' ? 50 : 10))
+    }
+  })
+})
+
+describe('ClimateController closed loop', () => {
+  it('should settle air temperature at the heating setpoint on a cold night', () => {
+    const controller = new ClimateController({ heatingTemperature: 20, humidity: 85 })
+    const trace = run(controller, { temperature: 12, humidity: 70, co2: 420 }, COLD_NIGHT, 4 * HOUR)
+
+    const settled = after(trace, 1.5 * HOUR)
+    expect(Math.max(...trace.map(p => p.temperature))).toBeLessThan(20.5)
+    settled.forEach(point => expect(Math.abs(point.temperature - 20)).toBeLessThan(0.2))
+    expect(settled[settled.length - 1].outputs.venting).toBe(0)
+  })
+
+  it('should dose CO2 to setpoint with vents shut', () => {
+    const controller = new ClimateController({ humidity: 85, co2: 800 })
+    const trace = run(controller, { temperature: 20, humidity: 70, co2: 420 }, COLD_NIGHT, 5 * HOUR)
+
+    after(trace, 3 * HOUR).forEach(point => expect(Math.abs(point.co2 - 800)).toBeLessThan(15))
+  })
+
+  it('should open vents ahead of a solar step with feed-forward', () => {
+    const day = (time: number): OutsideConditions => ({
+      temperature: 18, humidity: 50, co2: 420, solarRadiation: time < HOUR ? 100 : 500
+    })
+    const peak = (controller: ClimateController) => {
+      const trace = run(controller, { temperature: 22, humidity: 60, co2: 420 }, day, 4 * HOUR)
+      const tail = after(trace, 3 * HOUR)
+      tail.forEach(point => expect(Math.abs(point.temperature - 24)).toBeLessThan(0.2))
+      return Math.max(...after(trace, HOUR).map(point => point.temperature))
+    }
+
+    const withFeedForward = peak(new ClimateController({ ventingTemperature: 24 }))
+    const withoutFeedForward = peak(new ClimateController({ ventingTemperature: 24 }, {}, {
+      venting: { feedForwardGain: 0 },
+      heating: { feedForwardGain: 0 }
+    }))
+
+    expect(withFeedForward).toBeLessThan(withoutFeedForward)
+  })
+
+  it('should lock out CO2 dosing whenever the vents are open', () => {
+    const controller = new ClimateController({ ventingTemperature: 24 }, { co2VentLockout: 15 })
+    const trace = run(controller, { temperature: 22, humidity: 60, co2: 420 },
+      { temperature: 18, humidity: 50, co2: 420, solarRadiation: 600 }, 3 * HOUR)
+
+    const venting = trace.filter(point => point.outputs.venting > 15)
+    expect(venting.length).toBeGreaterThan(0)
+    venting.forEach(point => {
+      expect(point.outputs.co2Dosing).toBe(0)
+      expect(point.outputs.interlocks).toContainEqual({ loop: 'co2Dosing', rule: 'co2_vent_lockout' })
+    })
+  })
+
+  it('should dehumidify before heating and keep temperature within the deferral band', () => {
+    const controller = new ClimateController({ heatingTemperature: 20, humidity: 75, humidityBand: 10 }, { heatDeferralBand: 1 })
+    const trace = run(controller, { temperature: 20, humidity: 88, co2: 800 }, COLD_NIGHT, 6 * HOUR)
+
+    const deferred = trace.filter(point =>
+      point.outputs.interlocks.some(interlock => interlock.rule === 'dehumidify_before_heat')
+    )
+    expect(deferred.length).toBeGreaterThan(0)
+    deferred.forEach(point => expect(point.outputs.heating).toBe(0))
+
+    after(trace, HOUR).forEach(point => {
+      expect(point.temperature).toBeGreaterThan(18.5)
+      expect(point.humidity).toBeLessThan(85)
+    })
+  })
+
+  it('should derive the humidity setpoint from a VPD target', () => {
+    const controller = new ClimateController({ vpd: 0.8 })
+    controller.setEnabled(true)
+    const outputs = controller.update({ temperature: 24, humidity: 70, co2: 800, solarRadiation: 0 }, START)
+    expect(outputs.humiditySetpoint).toBeCloseTo(humidityForVpd(24, 0.8), 6)
+    expect(outputs.humiditySetpoint).toBeCloseTo(73.2, 1)
+  })
+})
@@ -0,0 +1,284 @@
+/**
+ * DALI-2 Controller Tests
+ * Frame encoding, random address commissioning, groups and scenes, status
+ * polling, part 252/253 memory banks and the Modbus gateway register protocol
+ */
+
+import {
+  BROADCAST,
+  DALIBusSimulator,
+  DALIController,
+  DALIModbusStatus,
+  DALI_MODBUS_EXPECT_REPLY,
+  DALI_MODBUS_GATEWAY_MAPS,
+  ModbusDALIGateway,
+  addressByte,
+  arcPowerToPercent,
+  decodeStatus,
+  groupAddress,
+  percentToArcPower,
+  shortAddress
+} from '@/lib/protocols/dali'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+jest.mock('@/lib/logging/production-logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}))
+// DALIController is an EventEmitter, which the shared setup replaces
+jest.unmock('events')
+
+const upsert = jest.fn()
+const update = jest.fn()
+
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+function bytes(value: number, length: number): number[] {
+  const result: number[] = []
+  for (let i = length - 1; i >= 0; i--) result.push(Math.floor(value / Math.pow(256, i)) % 256)
+  return result
+}
+
+function bank(last: number, values: Record<number, number[]>): number[] {
+  const data = new Array(last + 1).fill(0xff)
+  data[0] = last
+  Object.entries(values).forEach(([offset, value]) => data.splice(Number(offset), value.length, ...value))
+  return data
+}
+
+function controller(bus: DALIBusSimulator): DALIController {
+  return new DALIController(bus, { gatewayId: 'gw-1', zoneId: 'zone-a', pollInterval: 0, randomiseDelay: 0 })
+}
+
+beforeEach(() => {
+  upsert.mockReset().mockResolvedValue({})
+  update.mockReset().mockResolvedValue({})
+  Object.assign(prisma, { lightingDevice: { upsert, update } })
+})
+
+describe('DALI frames', () => {
+  it('follows the logarithmic dimming curve', () => {
+    expect(percentToArcPower(100)).toBe(254)
+    expect(percentToArcPower(0.1)).toBe(1)
+    expect(percentToArcPower(0)).toBe(0)
+    expect(arcPowerToPercent(254)).toBeCloseTo(100, 6)
+    expect(arcPowerToPercent(170)).toBeCloseTo(10, 0)
+    expect(arcPowerToPercent(percentToArcPower(35))).toBeCloseTo(35, 0)
+  })
+
+  it('decodes status bytes and addresses', () => {
+    const status = decodeStatus(0x86)
+    expect(status.lampFailure).toBe(true)
+    expect(status.lampOn).toBe(true)
+    expect(status.powerCycleSeen).toBe(true)
+    expect(status.controlGearFailure).toBe(false)
+    expect(addressByte(groupAddress(3), true)).toBe(0x87)
+    expect(() => addressByte(shortAddress(64), true)).toThrow('outside 0-63')
+  })
+})
+
+describe('DALIController', () => {
+  it('commissions unaddressed gear around existing short addresses and registers it', async () => {
+    const bus = new DALIBusSimulator(seededRandom(7))
+    bus.addGear({ shortAddress: 0 })
+    for (let i = 0; i < 5; i++) bus.addGear()
+
+    const dali = controller(bus)
+    const commissioned = jest.fn()
+    dali.on('deviceCommissioned', commissioned)
+    const devices = await dali.commission('unaddressed')
+
+    expect(devices.map(device => device.shortAddress)).toEqual([1, 2, 3, 4, 5])
+    expect(commissioned).toHaveBeenCalledTimes(5)
+    const addresses = bus.getGear().map(gear => gear.shortAddress)
+    expect(addresses[0]).toBe(0)
+    expect(new Set(addresses).size).toBe(6)
+
+    const scanned = await dali.scan()
+    expect(scanned).toHaveLength(6)
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { deviceId: 'dali-gw-1-0-3' },
+      create: expect.objectContaining({ protocol: 'DALI', zoneId: 'zone-a', status: 'online' })
+    }))
+  })
+
+  it('re-addresses the whole line in random address order', async () => {
+    const bus = new DALIBusSimulator(seededRandom(42))
+    bus.addGear({ shortAddress: 12 })
+    bus.addGear({ shortAddress: 12 })
+    bus.addGear()
+
+    const devices = await controller(bus).commission('all')
+    expect(devices).toHaveLength(3)
+
+    const gear = bus.getGear().slice().sort((a, b) => a.randomAddress - b.randomAddress)
+    expect(gear.map(g => g.shortAddress)).toEqual([0, 1, 2])
+  })
+
+  it('programs groups and scenes and drives arc power', async () => {
+    const bus = new DALIBusSimulator()
+    const [a, b, c] = [bus.addGear({ shortAddress: 0 }), bus.addGear({ shortAddress: 1 }), bus.addGear({ shortAddress: 2 })]
+    const dali = controller(bus)
+    await dali.scan()
+
+    await dali.addToGroup(shortAddress(0), 3)
+    await dali.addToGroup(shortAddress(1), 3)
+    expect(await dali.queryGroups(1)).toEqual([3])
+    expect(dali.getDevice(0)!.groups).toEqual([3])
+
+    await dali.setSceneLevel(groupAddress(3), 2, 200)
+    expect(await dali.querySceneLevel(0, 2)).toBe(200)
+    expect(await dali.querySceneLevel(2, 2)).toBeNull()
+
+    await dali.setLevel(BROADCAST, 10)
+    expect([a, b, c].map(gear => gear.actualLevel)).toEqual([170, 170, 170])
+
+    await dali.goToScene(BROADCAST, 2)
+    expect([a, b, c].map(gear => gear.actualLevel)).toEqual([200, 200, 170])
+
+    await dali.switchOff(groupAddress(3))
+    expect([a, b, c].map(gear => gear.actualLevel)).toEqual([0, 0, 170])
+
+    await dali.setMinLevel(shortAddress(2), 100)
+    await dali.setArcPower(shortAddress(2), 50)
+    expect(c.actualLevel).toBe(100)
+  })
+
+  it('raises failure, offline and recovery events while polling', async () => {
+    const bus = new DALIBusSimulator()
+    const gear = bus.addGear({ shortAddress: 4 })
+    const dali = controller(bus)
+    await dali.scan()
+
+    const failure = jest.fn()
+    const offline = jest.fn()
+    const recovered = jest.fn()
+    dali.on('deviceFailure', failure)
+    dali.on('deviceOffline', offline)
+    dali.on('deviceRecovered', recovered)
+
+    gear.lampFailure = true
+    await dali.pollStatus()
+    await dali.pollStatus()
+    expect(failure).toHaveBeenCalledTimes(1)
+    expect(failure.mock.calls[0][0].failures).toEqual(['lampFailure'])
+    expect(update).toHaveBeenLastCalledWith(expect.objectContaining({
+      where: { deviceId: 'dali-gw-1-0-4' },
+      data: expect.objectContaining({ status: 'error' })
+    }))
+
+    gear.present = false
+    await dali.pollStatus()
+    expect(offline).toHaveBeenCalledTimes(1)
+    expect(dali.getDevice(4)!.status).toBe('offline')
+
+    gear.present = true
+    gear.lampFailure = false
+    await dali.pollStatus()
+    expect(recovered).toHaveBeenCalledTimes(1)
+    expect(dali.getDevice(4)!.status).toBe('online')
+  })
+
+  it('reads identity, part 252 energy and part 253 diagnostics memory banks', async () => {
+    const bus = new DALIBusSimulator()
+    bus.addGear({
+      shortAddress: 0,
+      deviceTypes: [6, 51, 52],
+      memoryBanks: {
+        0: bank(0x1a, { 0x03: bytes(4012345678901, 6), 0x09: [2, 5], 0x0b: bytes(0x1234, 8) }),
+        202: bank(0x0f, { 0x04: bytes(123456, 6), 0x0a: [0], 0x0b: bytes(2505, 4), 0x0f: [0xff] }),
+        205: bank(0x1c, { 0x04: bytes(3600000, 4), 0x0e: [95], 0x1b: [105] }),
+        206: bank(0x20, { 0x0e: bytes(7200000, 4), 0x14: bytes(1400, 2), 0x20: [110] })
+      }
+    })
+    bus.addGear({ shortAddress: 1 })
+
+    const dali = controller(bus)
+    await dali.scan()
+    const device = dali.getDevice(0)!
+    expect(device.id).toBe('dali-4012345678901-0000000000001234')
+    expect(device.firmwareVersion).toBe('2.5')
+    expect(device.energyReporting).toBe(true)
+    expect(device.diagnostics).toBe(true)
+
+    const energy = await dali.readEnergy(0)
+    expect(energy!.activeEnergy).toBeCloseTo(123.456, 6)
+    expect(energy!.activePower).toBeCloseTo(250.5, 6)
+    expect(energy!.apparentEnergy).toBeNull()
+
+    const diagnostics = await dali.readDiagnostics(0)
+    expect(diagnostics!.controlGear.operatingTime).toBe(3600000)
+    expect(diagnostics!.controlGear.powerFactor).toBeCloseTo(0.95, 6)
+    expect(diagnostics!.controlGear.temperature).toBe(45)
+    expect(diagnostics!.controlGear.supplyVoltage).toBeNull()
+    expect(diagnostics!.lightSource.onTime).toBe(7200000)
+    expect(diagnostics!.lightSource.current).toBeCloseTo(1.4, 6)
+    expect(diagnostics!.lightSource.temperature).toBe(50)
+
+    expect(await dali.readEnergy(1)).toBeNull()
+    expect(await dali.readDiagnostics(1)).toBeNull()
+  })
+})
+
+describe('ModbusDALIGateway', () => {
+  it('exchanges frames through the gateway registers of the selected line', async () => {
+    const bus = new DALIBusSimulator()
+    bus.addGear({ shortAddress: 9 }).lampFailure = true
+
+    const map = DALI_MODBUS_GATEWAY_MAPS.generic
+    const registers = new Map<number, number>()
+    const writes: number[] = []
+    const transport = {
+      isConnected: () => true,
+      connect: jest.fn().mockResolvedValue(true),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      readRegister: jest.fn(async (register: { address: number }) => registers.get(register.address) ?? 0),
+      writeRegister: jest.fn(async (register: { address: number }, value: number) => {
+        writes.push(register.address)
+        registers.set(register.address, value)
+        if (register.address !== map.control + map.lineStride) return
+
+        // Gateway firmware: transmit the stored forward frame on line 1
+        const frame = registers.get(map.forwardFrame + map.lineStride)!
+        const reply = await bus.send(
+          { address: frame >> 8, opcode: frame & 0xff },
+          { expectReply: (value & DALI_MODBUS_EXPECT_REPLY) !== 0, sendTwice: (value & 0x02) !== 0 }
+        )
+        const status = reply.kind === 'answer' ? DALIModbusStatus.REPLY
+          : reply.kind === 'collision' ? DALIModbusStatus.COLLISION
+            : (value & DALI_MODBUS_EXPECT_REPLY) ? DALIModbusStatus.NO_REPLY : DALIModbusStatus.IDLE
+        registers.set(map.status + map.lineStride, status)
+        if (reply.kind === 'answer') registers.set(map.backwardFrame + map.lineStride, reply.value)
+      })
+    }
+
+    const dali = new DALIController(new ModbusDALIGateway(transport, { line: 1 }), { gatewayId: 'modbus-gw', pollInterval: 0 })
+    const devices = await dali.start()
+    expect(devices.map(device => device.shortAddress)).toEqual([9])
+    expect(devices[0].status).toBe('error')
+    expect(writes.every(address => address >= map.lineStride && address < 2 * map.lineStride)).toBe(true)
+
+    await dali.setLevel(shortAddress(9), 100)
+    expect(bus.getGear()[0].actualLevel).toBe(254)
+    await dali.stop()
+    expect(transport.disconnect).toHaveBeenCalled()
+  })
+
+  it('fails frames when the line has no bus power', async () => {
+    const transport = {
+      isConnected: () => true,
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      readRegister: jest.fn().mockResolvedValue(DALIModbusStatus.BUS_POWER_FAILURE),
+      writeRegister: jest.fn().mockResolvedValue(undefined)
+    }
+    const gateway = new ModbusDALIGateway(transport)
+    await expect(gateway.send({ address: 0xff, opcode: 0x90 }, { expectReply: true })).rejects.toThrow('no bus power')
+  })
+})
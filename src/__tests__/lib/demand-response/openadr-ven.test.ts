@@ -0,0 +1,231 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * OpenADR 2.0b VEN Tests
+ * Registration, event dispatch onto the DemandResponseManager load-shed plans,
+ * opt-in/opt-out and telemetry against the in-process VTN stub
+ */
+
+import { DemandResponseManager } from '@/lib/energy/demand-response-manager'
+import { UtilityAPIClient } from '@/lib/energy/utility-api-client'
+import { OpenADRVen } from '@/lib/demand-response/openadr-ven'
+import { OpenADRVTNStub } from '@/lib/demand-response/openadr-vtn-stub'
+import {
+  OpenADREvent,
+  buildDistributeEvent,
+  parseDuration,
+  parseEvents,
+  parsePayload
+} from '@/lib/demand-response/openadr-payloads'
+
+jest.mock('@/lib/logging/production-logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}))
+
+const MINUTE = 60 * 1000
+const START = new Date('2026-07-15T20:00:00Z')
+
+function event(overrides: Partial<OpenADREvent> = {}): OpenADREvent {
+  const duration = overrides.duration ?? 3600
+  const startTime = overrides.startTime ?? START
+  return {
+    eventId: 'event-1',
+    modificationNumber: 0,
+    status: 'far',
+    priority: 1,
+    testEvent: false,
+    startTime,
+    duration,
+    endTime: new Date(startTime.getTime() + duration * 1000),
+    signals: [{
+      signalId: 'simple-1',
+      signalName: 'SIMPLE',
+      signalType: 'level',
+      currentValue: 0,
+      intervals: [{ uid: 0, duration, value: 2 }]
+    }],
+    targetVenIds: [],
+    responseRequired: 'always',
+    ...overrides
+  }
+}
+
+describe('OpenADR 2.0b VEN', () => {
+  let vtn: OpenADRVTNStub
+  let vtnUrl: string
+  let manager: DemandResponseManager
+  let now: Date
+  let ven: OpenADRVen
+
+  beforeEach(async () => {
+    vtn = new OpenADRVTNStub({ pollFrequency: 30 })
+    vtnUrl = await vtn.start()
+    manager = new DemandResponseManager({} as UtilityAPIClient)
+    now = new Date(START.getTime() - 30 * MINUTE)
+    ven = new OpenADRVen(manager, { vtnUrl, venName: 'greenhouse-1', incentiveRate: 0.5, now: () => now })
+  })
+
+  afterEach(async () => {
+    ven.stop()
+    await vtn.stop()
+  })
+
+  it('round-trips events and ISO 8601 durations through the payload codec', () => {
+    expect(parseDuration('PT1H30M')).toBe(5400)
+    expect(parseDuration('P1DT2S')).toBe(86402)
+
+    const [parsed] = parseEvents(parsePayload(buildDistributeEvent('req-1', 'vtn', [event({ targetVenIds: ['ven-9'] })])).body)
+    expect(parsed.eventId).toBe('event-1')
+    expect(parsed.startTime.toISOString()).toBe(START.toISOString())
+    expect(parsed.duration).toBe(3600)
+    expect(parsed.signals[0].intervals[0].value).toBe(2)
+    expect(parsed.targetVenIds).toEqual(['ven-9'])
+  })
+
+  it('registers with the VTN and adopts the requested poll frequency', async () => {
+    await ven.register()
+
+    expect(ven.registered).toBe(true)
+    expect(ven.getVenId()).toBe('ven-1')
+    expect(vtn.vens.get('ven-1')?.venName).toBe('greenhouse-1')
+    expect(vtn.registeredReports).toEqual(['ven-1'])
+    expect(vtn.requests.map(r => r.type)).toEqual(['oadrQueryRegistration', 'oadrCreatePartyRegistration', 'oadrRegisterReport'])
+  })
+
+  it('opts in to a polled event and runs the dimming and HVAC setback plan while it is active', async () => {
+    await ven.register()
+    vtn.publishEvent(event())
+
+    expect(await ven.poll()).toBe('oadrDistributeEvent')
+    expect(vtn.eventResponses).toEqual([
+      expect.objectContaining({ eventId: 'event-1', modificationNumber: 0, optType: 'optIn' })
+    ])
+
+    const [scheduled] = ven.getEvents()
+    expect(scheduled.state).toBe('scheduled')
+    expect(new Set(scheduled.plan.map(s => s.type))).toEqual(new Set(['dim', 'temperature-adjust']))
+
+    const baseline = manager.getCurrentDemand()
+    now = new Date(START.getTime() + MINUTE)
+    await ven.processSchedule()
+
+    expect(scheduled.state).toBe('active')
+    expect(scheduled.drEvent).toMatchObject({ status: 'active', source: 'openadr', signalLevel: 2 })
+    expect(manager.getCurrentDemand()).toBeLessThan(baseline)
+
+    now = new Date(START.getTime() + 61 * MINUTE)
+    await ven.processSchedule()
+
+    expect(scheduled.state).toBe('completed')
+    expect(scheduled.drEvent.status).toBe('completed')
+    expect(scheduled.drEvent.earnings).toBeGreaterThan(0)
+    expect(manager.getCurrentDemand()).toBeCloseTo(baseline)
+  })
+
+  it('sizes the plan from a LOAD_DISPATCH delta target', async () => {
+    await ven.register()
+    vtn.publishEvent(event({
+      signals: [{ signalId: 'dispatch-1', signalName: 'LOAD_DISPATCH', signalType: 'delta', intervals: [{ uid: 0, duration: 3600, value: 0.5 }] }]
+    }))
+    await ven.poll()
+
+    const [scheduled] = ven.getEvents()
+    const planned = scheduled.plan.reduce((sum, s) => sum + s.targetReduction, 0)
+    expect(scheduled.drEvent.targetReduction).toBe(0.5)
+    expect(planned).toBeGreaterThanOrEqual(0.5)
+    expect(planned - scheduled.plan[scheduled.plan.length - 1].targetReduction).toBeLessThan(0.5)
+  })
+
+  it('restores loads when the VTN cancels an active event', async () => {
+    await ven.register()
+    vtn.publishEvent(event())
+    await ven.poll()
+
+    const baseline = manager.getCurrentDemand()
+    now = new Date(START.getTime() + MINUTE)
+    await ven.processSchedule()
+    expect(manager.getCurrentDemand()).toBeLessThan(baseline)
+
+    vtn.cancelEvent('event-1')
+    await ven.poll()
+
+    const [cancelled] = ven.getEvents()
+    expect(cancelled.state).toBe('cancelled')
+    expect(cancelled.drEvent.status).toBe('cancelled')
+    expect(manager.getCurrentDemand()).toBeCloseTo(baseline)
+    expect(vtn.eventResponses[1]).toMatchObject({ eventId: 'event-1', modificationNumber: 1 })
+  })
+
+  it('sends oadrCreateOpt when opting out of an event', async () => {
+    await ven.register()
+    vtn.publishEvent(event())
+    await ven.poll()
+    await ven.optOut('event-1', 'overrideStatus')
+
+    expect(vtn.opts).toEqual([expect.objectContaining({
+      venId: 'ven-1', optType: 'optOut', optReason: 'overrideStatus', eventId: 'event-1', modificationNumber: 0
+    })])
+
+    now = new Date(START.getTime() + MINUTE)
+    await ven.processSchedule()
+    expect(ven.getEvents()[0].state).toBe('cancelled')
+  })
+
+  it('opts out through the policy and ignores events targeted at other VENs', async () => {
+    ven = new OpenADRVen(manager, {
+      vtnUrl, venName: 'greenhouse-1', now: () => now,
+      optPolicy: candidate => (candidate.testEvent ? 'optOut' : 'optIn')
+    })
+    await ven.register()
+    vtn.publishEvent(event({ eventId: 'test-event', testEvent: true }))
+    vtn.publishEvent(event({ eventId: 'other-ven', targetVenIds: ['ven-7'] }))
+    await ven.poll()
+    await ven.poll()
+
+    expect(ven.getEvents().map(e => e.event.eventId)).toEqual(['test-event'])
+    expect(vtn.eventResponses.every(r => r.optType === 'optOut')).toBe(true)
+  })
+
+  it('reports TELEMETRY_USAGE at the requested granularity', async () => {
+    await ven.register()
+    vtn.requestTelemetry('ven-1', {
+      reportRequestId: 'telemetry-1',
+      reportSpecifierId: 'TELEMETRY_USAGE_POWER',
+      granularity: 60,
+      reportBackDuration: 60,
+      rIds: ['facility-real-power']
+    })
+
+    await ven.cycle()
+    expect(vtn.reportValues).toHaveLength(1)
+    expect(vtn.reportValues[0]).toMatchObject({ venId: 'ven-1', reportRequestId: 'telemetry-1', rId: 'facility-real-power' })
+    expect(vtn.reportValues[0].value).toBeCloseTo(manager.getCurrentDemand())
+
+    await ven.cycle()
+    expect(vtn.reportValues).toHaveLength(1)
+
+    now = new Date(now.getTime() + MINUTE)
+    await ven.cycle()
+    expect(vtn.reportValues).toHaveLength(2)
+  })
+
+  it('accepts pushed oadrDistributeEvent and acknowledges with oadrResponse', async () => {
+    ven = new OpenADRVen(manager, {
+      vtnUrl, venName: 'greenhouse-1', httpPullModel: false, transportAddress: 'http://ven.local/OpenADR2/Simple/2.0b', now: () => now
+    })
+    await ven.register()
+    expect(vtn.vens.get('ven-1')?.httpPullModel).toBe(false)
+
+    vtn.events.set('event-1', event({ signals: [{ signalId: 's', signalName: 'SIMPLE', signalType: 'level', intervals: [{ uid: 0, duration: 3600, value: 3 }] }] }))
+    const reply = parsePayload(await ven.handlePush(vtn.distributeEventPayload()))
+
+    expect(reply.type).toBe('oadrResponse')
+    expect(vtn.eventResponses).toHaveLength(1)
+    expect(ven.getEvents()[0].plan.some(s => s.type === 'load-shed')).toBe(true)
+
+    const rejected = parsePayload(await ven.handlePush('<not-openadr/>'))
+    expect(rejected.body.eiResponse.responseCode).toBe('400')
+  })
+})
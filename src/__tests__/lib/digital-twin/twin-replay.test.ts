@@ -0,0 +1,206 @@
+/**
+ * Digital Twin Replay Tests
+ * Snapshots, accelerated replay of stored readings and what-if forks compared
+ * with what was measured
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  GreenhouseDigitalTwin,
+  SensorReading,
+  greenhouseDigitalTwin
+} from '@/lib/digital-twin/greenhouse-digital-twin'
+import { loadTwinHistory, loadTwinSnapshot, saveTwinSnapshot, TwinHistory } from '@/lib/digital-twin/twin-history'
+import { replayTwinHistory } from '@/lib/digital-twin/twin-replay'
+import { runWhatIf } from '@/lib/digital-twin/twin-what-if'
+import { MemoryRow, memoryTable } from '@/tests/memory-prisma'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+jest.mock('@/lib/logging/production-logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}))
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const FROM = new Date('2026-01-12T00:00:00Z')
+
+const snapshots = memoryTable<MemoryRow>('snap', () => ({ createdAt: new Date() }))
+const sensorReadings = memoryTable('sensor')
+const climateReadings = memoryTable('climate')
+const energyReadings = memoryTable('energy')
+
+Object.assign(prisma, {
+  sensorReading: sensorReadings,
+  climateReading: climateReadings,
+  energyReading: energyReadings,
+  digitalTwinSnapshot: snapshots
+})
+
+function reading(sensorType: SensorReading['sensorType'], value: number, timestamp: Date): SensorReading {
+  return {
+    sensorId: `${sensorType}-1`,
+    sensorType,
+    value,
+    unit: '',
+    timestamp,
+    location: { zone: 'house-1', x: 0, y: 0, z: 0 },
+    quality: 'good',
+    calibration: { lastCalibrated: FROM, nextCalibration: FROM, accuracy: 1 }
+  }
+}
+
+// A cold night held at 20 °C: climate every 15 min, flat outside weather, hourly kWh
+function coldNight(hours: number): TwinHistory {
+  const readings: SensorReading[] = []
+  for (let t = 0; t <= hours * HOUR; t += 15 * MINUTE) {
+    const time = new Date(FROM.getTime() + t)
+    readings.push(reading('temperature', 20, time), reading('humidity', 80, time), reading('co2', 700, time))
+  }
+  const energy = Array.from({ length: hours }, (_, hour) => ({ time: new Date(FROM.getTime() + hour * HOUR), kwh: 60 }))
+  return {
+    from: FROM,
+    to: new Date(FROM.getTime() + hours * HOUR),
+    readings,
+    outside: [{ time: FROM, temperature: 5, humidity: 90, solarRadiation: 0 }],
+    energy
+  }
+}
+
+describe('Digital twin replay and what-if', () => {
+  afterAll(() => {
+    greenhouseDigitalTwin.cleanup()
+  })
+
+  beforeEach(() => {
+    snapshots.clear()
+    sensorReadings.clear()
+    climateReadings.clear()
+    energyReadings.clear()
+  })
+
+  it('snapshots and restores through JSON without sharing state', async () => {
+    let now = new Date(FROM)
+    const twin = new GreenhouseDigitalTwin({ realTimeUpdates: false }, () => now)
+    await twin.addSensorReading(reading('temperature', 22.5, now))
+    now = new Date(FROM.getTime() + 10 * MINUTE)
+    await twin.addSensorReading(reading('humidity', 70, now))
+
+    const stored = JSON.parse(JSON.stringify(twin.snapshot()))
+    const copy = GreenhouseDigitalTwin.fromSnapshot(stored, {}, () => now)
+
+    expect(copy.getCurrentState().realTime).toMatchObject({ temperature: 22.5, humidity: 70 })
+    expect(copy.getCurrentState().timestamp).toEqual(FROM)
+    const history = copy.snapshot().sensorHistory
+    expect(history['temperature-1'][0].timestamp).toBeInstanceOf(Date)
+    expect(history['humidity-1'][0].timestamp).toEqual(now)
+
+    await copy.addSensorReading(reading('temperature', 30, now))
+    expect(twin.getCurrentState().realTime.temperature).toBe(22.5)
+    expect(() => copy.restore({ ...stored, version: 99 })).toThrow('Unsupported digital twin snapshot version 99')
+  })
+
+  it('persists snapshots and loads them back by id', async () => {
+    const twin = new GreenhouseDigitalTwin({ realTimeUpdates: false }, () => FROM)
+    await twin.addSensorReading(reading('co2', 950, FROM))
+
+    const { id } = await saveTwinSnapshot(twin, { facilityId: 'facility-1', zoneId: 'zone-1', label: 'before retrofit' })
+    expect(snapshots.rows.find(row => row.id === id)).toMatchObject({ facilityId: 'facility-1', zoneId: 'zone-1', takenAt: FROM, version: 1 })
+
+    const loaded = await loadTwinSnapshot(id)
+    expect(GreenhouseDigitalTwin.fromSnapshot(loaded!).getCurrentState().realTime.co2Level).toBe(950)
+    expect(await loadTwinSnapshot('missing')).toBeNull()
+  })
+
+  it('loads stored readings into twin format and replays them on simulated time', async () => {
+    for (let t = 0; t <= 2 * HOUR; t += 5 * MINUTE) {
+      const timestamp = new Date(FROM.getTime() + t)
+      sensorReadings.rows.push(
+        { facilityId: 'facility-1', sensorId: 't-1', sensorType: 'temperature', zone: 'house-1', value: 18 + t / HOUR, unit: '°C', quality: 'good', timestamp },
+        { facilityId: 'facility-1', sensorId: 'out-1', sensorType: 'outside_temperature', zone: null, value: 4, unit: '°C', quality: 'good', timestamp },
+        { facilityId: 'facility-1', sensorId: 'ph-1', sensorType: 'soil_ph', zone: 'house-1', value: 6, unit: 'pH', quality: 'good', timestamp }
+      )
+    }
+    climateReadings.rows.push({ zoneId: 'gz-1', readingAt: new Date(FROM.getTime() + 30 * MINUTE), temperature: null, humidity: 72, co2: 850, lightLevel: 300 })
+    energyReadings.rows.push(
+      { facilityId: 'facility-1', readingType: 'electricity', value: 42, unit: 'kWh', timestamp: FROM },
+      { facilityId: 'facility-1', readingType: 'water', value: 100, unit: 'gallons', timestamp: FROM },
+      { facilityId: 'facility-1', readingType: 'gas', value: 3, unit: 'therms', timestamp: FROM }
+    )
+
+    const history = await loadTwinHistory({
+      facilityId: 'facility-1',
+      zone: 'house-1',
+      climateZoneId: 'gz-1',
+      from: FROM,
+      to: new Date(FROM.getTime() + 2 * HOUR)
+    })
+    expect(history.readings).toHaveLength(25 + 3)
+    expect(history.readings.find(r => r.sensorId === 'climate:gz-1:co2')).toMatchObject({ sensorType: 'co2', value: 850 })
+    expect(history.outside).toHaveLength(25)
+    expect(history.energy).toEqual([{ time: FROM, kwh: 42 }])
+
+    const seen: Date[] = []
+    const result = await replayTwinHistory(history, {
+      stepInterval: 10 * MINUTE,
+      onFrame: frame => seen.push(frame.time)
+    })
+
+    expect(result.aborted).toBe(false)
+    expect(result.readingsReplayed).toBe(28)
+    expect(result.frames).toHaveLength(12)
+    expect(seen[0]).toEqual(new Date(FROM.getTime() + 10 * MINUTE))
+    expect(result.frames[5].realTime.temperature).toBeCloseTo(19, 5)
+    expect(result.frames[11].realTime).toMatchObject({ temperature: 20, humidity: 72, co2Level: 850 })
+    expect(result.twin.getCurrentState().timestamp).toEqual(history.to)
+  })
+
+  it('paces an accelerated replay against the wall clock and can be aborted', async () => {
+    const history = coldNight(1)
+    const started = Date.now()
+    await replayTwinHistory(history, { speed: 36000, stepInterval: 15 * MINUTE })
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90)
+
+    const controller = new AbortController()
+    const result = await replayTwinHistory(coldNight(24), {
+      stepInterval: 15 * MINUTE,
+      signal: controller.signal,
+      onFrame: frame => { if (frame.time.getTime() >= FROM.getTime() + HOUR) controller.abort() }
+    })
+    expect(result.aborted).toBe(true)
+    expect(result.frames).toHaveLength(4)
+  })
+
+  it('forks a what-if run and compares it with the baseline and the measurements', () => {
+    const history = coldNight(12)
+    const baseline = { name: 'as operated', setpoints: { heatingTemperature: 20, co2: 700 } }
+
+    const lower = runWhatIf(history, { name: 'heat to 18 °C', setpoints: { heatingTemperature: 18, co2: 700 } }, { baseline })
+
+    expect(lower.baseline.scenario).toBe('as operated')
+    expect(lower.modelError.temperature.samples).toBe(49)
+    expect(Math.abs(lower.modelError.temperature.bias)).toBeLessThan(1)
+    expect(lower.actual).toEqual({ mean: { temperature: 20, humidity: 80, co2: 700 }, energyKwh: 720 })
+
+    expect(lower.delta.temperature).toBeLessThan(-1)
+    expect(lower.delta.energyKwh).toBeLessThan(0)
+    expect(lower.projectedEnergyKwh).toBeCloseTo(720 + lower.delta.energyKwh, 6)
+
+    const heatPump = runWhatIf(history, { ...baseline, name: 'heat pump', equipment: { heatingEfficiency: 2.7 } }, { baseline })
+    expect(heatPump.delta.temperature).toBeCloseTo(0, 6)
+    expect(heatPump.scenario.energyKwh).toBeLessThan(heatPump.baseline.energyKwh / 2)
+  })
+
+  it('starts a what-if fork from a saved twin snapshot', () => {
+    const twin = new GreenhouseDigitalTwin({ realTimeUpdates: false }, () => FROM)
+    const snapshot = twin.snapshot()
+    snapshot.state.realTime = { ...snapshot.state.realTime, temperature: 14, humidity: 60, co2Level: 500 }
+
+    const history: TwinHistory = { ...coldNight(2), readings: [] }
+    const fork = runWhatIf(history, { name: 'warm-up' }, { snapshot })
+
+    expect(fork.scenario.trace[0]).toMatchObject({ temperature: 14, co2: 500 })
+    expect(fork.scenario.trace[0].humidity).toBeCloseTo(60, 6)
+    expect(fork.modelError.temperature.samples).toBe(0)
+    expect(() => runWhatIf(history, { name: 'no start' })).toThrow('needs a snapshot')
+  })
+})
@@ -0,0 +1,255 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * sACN / Art-Net Output Tests
+ * Packet codecs, recipe-to-channel mapping, source priority, fades and
+ * loss-of-signal behaviour against the software receiver
+ */
+
+import {
+  DMXChannelDefinition,
+  DMXOutputDriver,
+  DMXReceiver,
+  decodeArtDmx,
+  decodeSACNPacket,
+  encodeArtDmx,
+  encodeSACNPacket,
+  isSACNSequenceStale,
+  mapRecipeToChannels,
+  sacnMulticastAddress,
+  SACN_OPTION_STREAM_TERMINATED
+} from '@/lib/protocols/dmx'
+import { HLPChannelType } from '@/lib/protocols/hlp/types'
+import type { SpectralRecipe } from '@/lib/spectral/spectral-recipe-engine'
+
+jest.mock('@/lib/logging/production-logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}))
+
+// The driver and receiver are EventEmitters, which the shared setup replaces
+jest.unmock('events')
+
+const CID = '6f1c2a3b-4d5e-4f60-8a71-92b3c4d5e6f7'
+
+const TUNABLE_CHANNELS: DMXChannelDefinition[] = [
+  { name: 'dimmer', offset: 0, type: 'dimmer' },
+  { name: 'blue', offset: 1, type: 'emitter', channelType: HLPChannelType.BLUE, peakWavelength: 450, fwhm: 20, maxPPFD: 200 },
+  { name: 'green', offset: 2, type: 'emitter', channelType: HLPChannelType.GREEN, peakWavelength: 530, fwhm: 30, maxPPFD: 120 },
+  { name: 'red', offset: 3, type: 'emitter', channelType: HLPChannelType.RED, peakWavelength: 660, fwhm: 20, maxPPFD: 400, resolution: 16 },
+  { name: 'far_red', offset: 5, type: 'emitter', channelType: HLPChannelType.FAR_RED, peakWavelength: 735, fwhm: 25, maxPPFD: 80 }
+]
+
+// The engine's built-in lettuce recipe
+const LETTUCE_LOW_NITRATE: SpectralRecipe = {
+  id: 'lettuce-low-nitrate',
+  name: 'Lettuce - Low Nitrate',
+  cropType: 'lettuce',
+  growthStage: 'mature',
+  targetOutcome: 'quality',
+  bands: [
+    { centerWavelength: 445, startWavelength: 440, endWavelength: 450, targetIntensity: 40, tolerance: 10, biologicalEffect: 'Nitrate reduction', priority: 'critical' },
+    { centerWavelength: 475, startWavelength: 470, endWavelength: 480, targetIntensity: 30, tolerance: 15, biologicalEffect: 'Leaf expansion', priority: 'important' },
+    { centerWavelength: 545, startWavelength: 540, endWavelength: 550, targetIntensity: 20, tolerance: 25, biologicalEffect: 'Light distribution', priority: 'optional' },
+    { centerWavelength: 635, startWavelength: 630, endWavelength: 640, targetIntensity: 60, tolerance: 10, biologicalEffect: 'Photosynthesis', priority: 'critical' },
+    { centerWavelength: 665, startWavelength: 660, endWavelength: 670, targetIntensity: 80, tolerance: 5, biologicalEffect: 'Maximum photosynthesis', priority: 'critical' },
+    { centerWavelength: 735, startWavelength: 730, endWavelength: 740, targetIntensity: 10, tolerance: 50, biologicalEffect: 'Controlled elongation', priority: 'beneficial' }
+  ],
+  totalPPFD: 240,
+  photoperiod: 16,
+  dli: 13.8,
+  metadata: { source: 'Based on Bian 2015, Virsile 2019, Kelly 2020', confidence: 0.9, validatedTrials: 8, lastUpdated: new Date() }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+  const started = Date.now()
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for DMX frames')
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
+describe('DMX over IP output', () => {
+  it('encodes and decodes E1.31 and ArtDmx packets', () => {
+    const data = new Uint8Array(512)
+    data[0] = 255
+    data[511] = 7
+
+    const sacn = encodeSACNPacket({ cid: CID, sourceName: 'Research Room A', priority: 150, sequence: 42, universe: 258, options: 0, data })
+    expect(sacn.length).toBe(638)
+    expect(sacn.readUInt16BE(16)).toBe(0x7000 | 622)
+    expect(decodeSACNPacket(sacn)).toMatchObject({ cid: CID, sourceName: 'Research Room A', priority: 150, sequence: 42, universe: 258, startCode: 0 })
+    expect(decodeSACNPacket(sacn)!.data[511]).toBe(7)
+    expect(sacnMulticastAddress(258)).toBe('239.255.1.2')
+
+    // The source name field is 64 bytes; multi-byte names are cut at a character boundary
+    const named = decodeSACNPacket(encodeSACNPacket({ cid: CID, sourceName: 'Gewächshaus ☀'.repeat(8), priority: 150, sequence: 42, universe: 1, options: 0, data }))
+    expect(named).toMatchObject({ priority: 150, sequence: 42, universe: 1 })
+    expect(Buffer.byteLength(named!.sourceName)).toBeLessThanOrEqual(63)
+    expect('Gewächshaus ☀'.repeat(8).startsWith(named!.sourceName)).toBe(true)
+    expect(() => encodeSACNPacket({ cid: CID, sourceName: '', priority: 201, sequence: 0, universe: 1, options: 0, data })).toThrow('priority')
+
+    const artnet = encodeArtDmx({ sequence: 9, physical: 0, portAddress: 0x1234, data: data.subarray(0, 3) })
+    expect(artnet.subarray(0, 8).toString('ascii')).toBe('Art-Net\0')
+    expect(artnet.readUInt16BE(16)).toBe(4) // Padded to an even length
+    expect(decodeArtDmx(artnet)).toMatchObject({ sequence: 9, portAddress: 0x1234 })
+    expect(decodeSACNPacket(artnet)).toBeNull()
+    expect(decodeArtDmx(sacn)).toBeNull()
+
+    expect(isSACNSequenceStale(10, 10)).toBe(true)
+    expect(isSACNSequenceStale(10, 250)).toBe(true)
+    expect(isSACNSequenceStale(250, 3)).toBe(false)
+    expect(isSACNSequenceStale(100, 70)).toBe(false)
+  })
+
+  it('maps a spectral recipe onto the fixture emitters', () => {
+    const mapping = mapRecipeToChannels(LETTUCE_LOW_NITRATE, TUNABLE_CHANNELS)
+
+    expect(Object.keys(mapping.levels)).toEqual(['blue', 'green', 'red', 'far_red'])
+    Object.values(mapping.levels).forEach(level => {
+      expect(level).toBeGreaterThanOrEqual(0)
+      expect(level).toBeLessThanOrEqual(1)
+    })
+    const red = mapping.bands.find(band => band.centerWavelength === 665)!
+    expect(Math.abs(red.predicted - red.target) / red.target).toBeLessThan(0.15)
+    expect(mapping.matchScore).toBeGreaterThan(50) // No 475 or 635 nm emitters on this fixture
+
+    const dimmed = mapRecipeToChannels(LETTUCE_LOW_NITRATE, TUNABLE_CHANNELS, { scale: 0.5 })
+    expect(dimmed.levels.red).toBeCloseTo(mapping.levels.red / 2, 2)
+    expect(dimmed.ppfd).toBeCloseTo(mapping.ppfd / 2, 0)
+  })
+
+  it('rejects patches that leave the universe or overlap', () => {
+    const driver = new DMXOutputDriver({ cid: CID })
+    driver.addUniverse({ universe: 1, protocol: 'sacn' })
+    driver.patchFixture({ id: 'a', universe: 1, address: 1, channels: TUNABLE_CHANNELS })
+
+    expect(() => driver.patchFixture({ id: 'b', universe: 1, address: 6, channels: TUNABLE_CHANNELS })).toThrow('overlaps a')
+    expect(() => driver.patchFixture({ id: 'c', universe: 1, address: 508, channels: TUNABLE_CHANNELS })).toThrow('outside 1-512')
+    expect(() => driver.patchFixture({ id: 'd', universe: 2, address: 1, channels: TUNABLE_CHANNELS })).toThrow('not configured')
+    expect(() => driver.setLevels('a', { uv: 1 })).toThrow('no channel uv')
+    driver.patchFixture({ id: 'b', universe: 1, address: 7, channels: TUNABLE_CHANNELS })
+  })
+
+  it('lets the highest priority source win, fades between looks and falls back on timeout', async () => {
+    let now = 0
+    const driver = new DMXOutputDriver({ cid: CID }, () => now)
+    driver.addUniverse({ universe: 1, protocol: 'sacn' })
+    driver.patchFixture({
+      id: 'bench-1',
+      universe: 1,
+      address: 11,
+      channels: TUNABLE_CHANNELS,
+      fallback: { levels: { blue: 0.2, red: 0.2 }, fadeMs: 1000 }
+    })
+
+    driver.setLevels('bench-1', { red: 1, blue: 0.5 }, { source: 'schedule', fadeMs: 2000, timeoutMs: 10000 })
+    await driver.tick(now)
+    now = 1000
+    await driver.tick(now)
+    expect(driver.getFixtureOutput('bench-1')).toMatchObject({ dimmer: 0.5, red: 0.5, blue: 0.25 })
+    now = 2000
+    await driver.tick(now)
+    const data = driver.getUniverseData(1)
+    expect(Array.from(data.subarray(10, 16))).toEqual([255, 128, 0, 255, 255, 0])
+
+    driver.setSpectrum('bench-1', { spectrum: { [HLPChannelType.FAR_RED]: 100 } }, { source: 'operator', priority: 200 })
+    driver.setLevels('bench-1', { red: 0.8 }, { source: 'schedule', fadeMs: 5000, timeoutMs: 10000 })
+    await driver.tick(now)
+    expect(driver.getActiveSource('bench-1')).toBe('operator')
+    expect(driver.getFixtureOutput('bench-1')).toMatchObject({ far_red: 1, red: 0 })
+
+    driver.release('bench-1', 'operator', 500)
+    await driver.tick(now)
+    now = 2250
+    await driver.tick(now)
+    expect(driver.getActiveSource('bench-1')).toBe('schedule')
+    expect(driver.getFixtureOutput('bench-1').red).toBeCloseTo(0.4, 6)
+
+    const timeouts: string[] = []
+    driver.on('sourceTimeout', ({ source }) => timeouts.push(source))
+    now = 12000
+    await driver.tick(now)
+    expect(timeouts).toEqual(['schedule'])
+    expect(driver.getActiveSource('bench-1')).toBeNull()
+    now = 13000
+    await driver.tick(now)
+    expect(driver.getFixtureOutput('bench-1')).toMatchObject({ red: 0.2, blue: 0.2, far_red: 0 })
+  })
+
+  describe('against the software receiver', () => {
+    let receiver: DMXReceiver
+    let port: number
+
+    beforeEach(async () => {
+      receiver = new DMXReceiver({ sourceTimeout: 2500, lossBehavior: 'blackout' })
+      port = await receiver.start()
+    })
+
+    afterEach(async () => {
+      await receiver.stop()
+    })
+
+    it('delivers sACN and Art-Net universes and terminates the stream on stop', async () => {
+      const driver = new DMXOutputDriver({ cid: CID, sourceName: 'Research Room A' })
+      driver.addUniverse({ universe: 1, protocol: 'sacn', host: '127.0.0.1', port, priority: 150 })
+      driver.addUniverse({ universe: 0x0102, protocol: 'artnet', host: '127.0.0.1', port })
+      driver.patchFixture({ id: 'bench-1', universe: 1, address: 1, channels: TUNABLE_CHANNELS })
+      driver.patchFixture({ id: 'bench-2', universe: 0x0102, address: 100, channels: TUNABLE_CHANNELS })
+
+      const lost: unknown[] = []
+      receiver.on('sourceLost', event => lost.push(event))
+
+      await driver.start()
+      driver.setLevels('bench-1', { blue: 1, red: 0.5 })
+      driver.setLevels('bench-2', { far_red: 1 })
+      await driver.tick()
+
+      await waitFor(() => receiver.getUniverse('sacn', 1)?.[1] === 255 && receiver.getUniverse('artnet', 0x0102)?.[104] === 255)
+      expect(Array.from(receiver.getUniverse('sacn', 1)!.subarray(0, 6))).toEqual([255, 255, 0, 128, 0, 0])
+      expect(receiver.getSources('sacn', 1)).toEqual([expect.objectContaining({ id: CID, name: 'Research Room A', priority: 150 })])
+
+      await driver.stop()
+      await waitFor(() => lost.length > 0)
+      expect(lost[0]).toMatchObject({ protocol: 'sacn', universe: 1, source: CID, reason: 'terminated' })
+      expect(receiver.getUniverse('sacn', 1)!.every(value => value === 0)).toBe(true)
+    })
+
+    it('merges sources by priority then HTP and blacks out once every source is lost', () => {
+      let now = 0
+      const node = new DMXReceiver({ sourceTimeout: 2500, lossBehavior: 'blackout' }, () => now)
+      const signalLost: unknown[] = []
+      node.on('signalLost', event => signalLost.push(event))
+
+      const packet = (cid: string, priority: number, sequence: number, values: number[], options = 0) =>
+        encodeSACNPacket({ cid, sourceName: cid.slice(0, 4), priority, sequence, universe: 5, options, data: Uint8Array.from(values) })
+      const low = '11111111-1111-1111-1111-111111111111'
+      const high = '22222222-2222-2222-2222-222222222222'
+      const peer = '33333333-3333-3333-3333-333333333333'
+
+      node.receive(packet(low, 100, 1, [10, 200, 30]), 'a')
+      node.receive(packet(high, 150, 1, [50, 60, 70]), 'b')
+      expect(Array.from(node.getUniverse('sacn', 5)!.subarray(0, 3))).toEqual([50, 60, 70])
+
+      node.receive(packet(peer, 150, 1, [90, 0, 20]), 'c')
+      expect(Array.from(node.getUniverse('sacn', 5)!.subarray(0, 3))).toEqual([90, 60, 70])
+
+      // Late packet from the high source is discarded
+      node.receive(packet(high, 150, 0, [0, 0, 0]), 'b')
+      expect(node.getUniverse('sacn', 5)![0]).toBe(90)
+
+      node.receive(packet(high, 150, 2, [0, 0, 0], SACN_OPTION_STREAM_TERMINATED), 'b')
+      node.receive(packet(peer, 150, 2, [0, 0, 0], SACN_OPTION_STREAM_TERMINATED), 'c')
+      expect(Array.from(node.getUniverse('sacn', 5)!.subarray(0, 3))).toEqual([10, 200, 30])
+
+      now = 2000
+      node.checkTimeouts()
+      expect(signalLost).toHaveLength(0)
+      now = 2600
+      node.checkTimeouts()
+      expect(signalLost).toEqual([expect.objectContaining({ protocol: 'sacn', universe: 5 })])
+      expect(node.getUniverse('sacn', 5)!.every(value => value === 0)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,193 @@
+/**
+ * Duct Network Design Tests
+ * Equal friction and static regain sizing, ASHRAE fitting coefficients,
+ * critical path and damper balancing, fan selection and drawing export
+ */
+
+import {
+  DuctNetwork,
+  DuctNetworkCriteria,
+  DuctNetworkDesigner,
+  damperAngle,
+  designDuctNetwork,
+  ductFittingCoefficient,
+  ductFrictionRate,
+  junctionCoefficient,
+  velocityPressure
+} from '@/lib/duct-network'
+import { FAN_DATABASE, FanSpecification } from '@/lib/fan-selection'
+
+const galvanized = { type: 'galvanized' as const, roughness: 0.0003 }
+
+// Rectangular trunk along x with round takeoffs to four diffusers
+function supplyNetwork(): DuctNetwork {
+  return {
+    type: 'supply',
+    nodes: [
+      { id: 'AHU-1', type: 'ahu', position: { x: 0, y: 0, z: 10 } },
+      { id: 'J1', type: 'junction', position: { x: 30, y: 0, z: 10 } },
+      { id: 'J2', type: 'junction', position: { x: 60, y: 0, z: 10 } },
+      { id: 'J3', type: 'junction', position: { x: 90, y: 0, z: 10 } },
+      { id: 'D1', type: 'terminal', airflow: 500, position: { x: 30, y: 15, z: 10 } },
+      { id: 'D2', type: 'terminal', airflow: 400, position: { x: 60, y: 15, z: 10 } },
+      { id: 'D3', type: 'terminal', airflow: 300, position: { x: 90, y: 15, z: 10 } },
+      { id: 'D4', type: 'terminal', airflow: 400, pressure: 0.15, position: { x: 120, y: 0, z: 10 } }
+    ],
+    runs: [
+      { id: 'T1', from: 'AHU-1', to: 'J1', length: 40, shape: 'rectangular', material: galvanized, maxHeight: 12,
+        fittings: [{ type: 'mitered-elbow', vanes: true }, { type: 'component', pressureDrop: 0.1, description: 'Duct heater' }] },
+      { id: 'T2', from: 'J1', to: 'J2', length: 30, shape: 'rectangular', material: galvanized, maxHeight: 12 },
+      { id: 'T3', from: 'J2', to: 'J3', length: 30, shape: 'rectangular', material: galvanized, maxHeight: 12 },
+      { id: 'R4', from: 'J3', to: 'D4', length: 30, shape: 'round', material: galvanized },
+      { id: 'B1', from: 'J1', to: 'D1', length: 15, shape: 'round', material: galvanized, fittings: [{ type: 'elbow' }] },
+      { id: 'B2', from: 'J2', to: 'D2', length: 15, shape: 'round', material: galvanized, fittings: [{ type: 'elbow' }] },
+      { id: 'B3', from: 'J3', to: 'D3', length: 15, shape: 'round', material: galvanized, branchAngle: 45 }
+    ]
+  }
+}
+
+const criteria: DuctNetworkCriteria = {
+  method: 'equalFriction',
+  frictionRate: 0.08,
+  maxVelocity: { main: 1200, branch: 900, final: 700 }
+}
+
+function byId<T extends { id: string }>(items: T[]): Record<string, T> {
+  return Object.fromEntries(items.map(item => [item.id, item]))
+}
+
+describe('duct fitting and friction data', () => {
+  it('uses ASHRAE coefficients for elbows, dampers and junctions', () => {
+    expect(ductFittingCoefficient({ type: 'elbow' })).toBeCloseTo(0.15, 6)
+    expect(ductFittingCoefficient({ type: 'elbow', angle: 45, radiusRatio: 1 })).toBeCloseTo(0.132, 6)
+    expect(ductFittingCoefficient({ type: 'mitered-elbow' })).toBeCloseTo(1.2, 6)
+    expect(ductFittingCoefficient({ type: 'damper', angle: 30 })).toBeCloseTo(4.5, 6)
+    expect(damperAngle(4.5).angle).toBeCloseTo(30, 6)
+    expect(damperAngle(500).saturated).toBe(true)
+    expect(junctionCoefficient('branch', 1, 90)).toBeCloseTo(1.8, 6)
+    expect(junctionCoefficient('main', 0.5)).toBeCloseTo(0.1, 6)
+  })
+
+  it('matches the ASHRAE friction chart for galvanized round duct', () => {
+    // 1000 CFM in 12" duct reads about 0.19 in. w.g. per 100 ft
+    expect(ductFrictionRate(1000, { diameter: 12 }, 0.0003)).toBeGreaterThan(0.17)
+    expect(ductFrictionRate(1000, { diameter: 12 }, 0.0003)).toBeLessThan(0.21)
+    // A 24x12 rectangular duct carries about what a 18.3" round does
+    expect(ductFrictionRate(2000, { width: 24, height: 12 }, 0.0003))
+      .toBeCloseTo(ductFrictionRate(2000, { diameter: 18.3 }, 0.0003), 2)
+  })
+})
+
+describe('DuctNetworkDesigner', () => {
+  it('sizes by equal friction and balances every path to the critical one', () => {
+    const design = designDuctNetwork(supplyNetwork(), criteria)
+    const runs = byId(design.runs)
+
+    expect(design.totalAirflow).toBe(1600)
+    expect(runs.T1.airflow).toBe(1600)
+    expect(runs.T2.airflow).toBe(1100)
+    expect(runs.T1.dimensions.height).toBeLessThanOrEqual(12)
+    for (const run of design.runs) {
+      expect(run.frictionRate).toBeLessThanOrEqual(0.08)
+      expect(run.velocity).toBeLessThanOrEqual(run.to.startsWith('D') ? 700 : 1200)
+    }
+    // The next smaller round size would exceed the friction rate
+    expect(ductFrictionRate(500, { diameter: (runs.B1.dimensions.diameter as number) - 1 }, 0.0003)).toBeGreaterThan(0.08)
+
+    expect(runs.B1.junctionLoss).toBeGreaterThan(runs.T2.junctionLoss)
+    expect(runs.T1.junctionLoss).toBe(0)
+
+    const critical = design.terminals.find(terminal => terminal.id === design.criticalTerminal)!
+    expect(design.criticalPath).toEqual(critical.path)
+    expect(design.fanTotalPressure).toBeCloseTo(critical.pathPressure, 10)
+    expect(design.externalStaticPressure).toBeCloseTo(design.fanTotalPressure - runs.T1.velocityPressure, 10)
+
+    for (const terminal of design.terminals) {
+      const damperRun = runs[terminal.path[terminal.path.length - 1]]
+      expect(terminal.pathPressure + terminal.excessPressure).toBeCloseTo(design.fanTotalPressure, 10)
+      expect((damperRun.damper!.coefficient - 0.2) * damperRun.velocityPressure).toBeCloseTo(terminal.excessPressure, 10)
+    }
+    expect(runs[design.criticalPath[design.criticalPath.length - 1]].damper!.angle).toBe(0)
+    expect(design.warnings).toEqual([])
+  })
+
+  it('sizes the trunk by static regain', () => {
+    const design = designDuctNetwork(supplyNetwork(), { ...criteria, method: 'staticRegain' })
+    const runs = byId(design.runs)
+
+    expect(runs.T1.velocity).toBeLessThanOrEqual(1200)
+    expect(runs.T2.velocity).toBeLessThan(runs.T1.velocity)
+    expect(runs.T3.velocity).toBeLessThan(runs.T2.velocity)
+    // Static pressure after each trunk section is at least what it was upstream
+    expect(velocityPressure(runs.T1.velocity) - runs.T2.velocityPressure).toBeGreaterThanOrEqual(runs.T2.totalLoss)
+    expect(runs.T3.equivalentDiameter).toBeLessThanOrEqual(runs.T2.equivalentDiameter)
+  })
+
+  it('rejects networks that are not a tree from one air handler', () => {
+    const network = supplyNetwork()
+    expect(() => new DuctNetworkDesigner({ ...network, nodes: [...network.nodes, { id: 'AHU-2', type: 'ahu' }] }))
+      .toThrow('exactly one air handler')
+    expect(() => new DuctNetworkDesigner({ ...network, runs: [...network.runs, { ...network.runs[1], id: 'X', from: 'J3' }] }))
+      .toThrow('Duct node J2 is fed by more than one run')
+    expect(() => new DuctNetworkDesigner({ ...network, nodes: network.nodes.map(node => node.id === 'D2' ? { ...node, airflow: 0 } : node) }))
+      .toThrow('Terminal D2 needs a design airflow')
+  })
+})
+
+describe('fan selection and drawing export', () => {
+  it('selects a fan on the designed system curve', () => {
+    const design = designDuctNetwork(supplyNetwork(), criteria)
+    const base = FAN_DATABASE[0]
+    const fan: FanSpecification = {
+      ...base,
+      model: 'AFSQ-10',
+      curves: scaledCurves(base, 0.25, 0.18)
+    }
+
+    const { systemCurve, results } = DuctNetworkDesigner.selectFans(
+      design,
+      { altitude: 0, temperature: 70, application: 'supplyAir' },
+      [fan],
+      0.1
+    )
+    expect(systemCurve.flowPoints[10]).toBe(1600)
+    expect(systemCurve.pressurePoints[10]).toBeCloseTo(design.externalStaticPressure + 0.1, 10)
+
+    expect(results).toHaveLength(1)
+    const point = results[0].operatingPoint
+    expect(point.flow).toBeGreaterThan(1600)
+    expect(point.staticPressure).toBeCloseTo((design.externalStaticPressure + 0.1) * Math.pow(point.flow / 1600, 2), 1)
+  })
+
+  it('exports duct outlines, dampers and diffusers for drawings', () => {
+    const network = supplyNetwork()
+    const designer = new DuctNetworkDesigner(network)
+    const design = designer.design(criteria)
+    const drawing = designer.exportDrawing(design)
+
+    expect(drawing.layers.map(layer => layer.name)).toEqual(['hvac-supply'])
+    expect(drawing.elements.filter(element => element.id.endsWith('-duct'))).toHaveLength(7)
+    expect(drawing.elements.filter(element => element.id.endsWith('-damper'))).toHaveLength(4)
+    expect(drawing.elements.filter(element => element.type === 'circle')).toHaveLength(4)
+
+    const run = design.runs.find(item => item.id === 'R4')!
+    const [a, , , d] = drawing.elements.find(element => element.id === 'R4-duct')!.geometry.points!
+    expect(Math.hypot(a.x - d.x, a.y - d.y)).toBeCloseTo(run.dimensions.diameter! / 12, 10)
+    expect(drawing.annotations.find(annotation => annotation.id === 'R4-tag')!.text)
+      .toBe(`${run.dimensions.diameter}"Ø 400 CFM`)
+
+    const unplaced = new DuctNetworkDesigner({ ...network, nodes: network.nodes.map(node => ({ ...node, position: undefined })) })
+    expect(() => unplaced.exportDrawing(design)).toThrow('has no position')
+  })
+})
+
+// Scale a catalogue fan down to a smaller size of the same family
+function scaledCurves(fan: FanSpecification, flowScale: number, pressureScale: number): FanSpecification['curves'] {
+  return {
+    ...fan.curves,
+    flowPoints: fan.curves.flowPoints.map(flow => flow * flowScale),
+    staticPressure: fan.curves.staticPressure.map(pressure => pressure * pressureScale),
+    totalPressure: fan.curves.totalPressure.map(pressure => pressure * pressureScale),
+    power: fan.curves.power.map(power => power * flowScale * pressureScale)
+  }
+}
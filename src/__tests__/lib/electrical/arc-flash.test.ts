@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Arc Flash Study Tests
+ * IEEE 1584-2018 model, one-line fault currents, labels and report
+ */
+
+import { IEEE1584Calculator } from '@/lib/electrical/ieee1584'
+import { ArcFlashStudy } from '@/lib/electrical/arc-flash-study'
+import { ArcFlashLabelGenerator } from '@/lib/electrical/arc-flash-labels'
+import { ElectricalBus, ShortCircuitAnalyzer } from '@/lib/short-circuit-analysis'
+
+const oneLine = (): ElectricalBus[] => [
+  {
+    id: 'util', name: 'Utility 12.47 kV', voltage: 12470, phases: 3, frequency: 60, xrRatio: 10,
+    components: [
+      { id: 'utility', type: 'utility', name: 'Utility 500 MVA', impedance: { resistance: 0.0199, reactance: 0.199, isPerUnit: true } },
+      {
+        id: 'xfmr', type: 'transformer', name: 'T-1 1500 kVA', downstream: 'msb',
+        impedance: { resistance: 0.0052, reactance: 0.0573, isPerUnit: true, base: { mva: 1.5, kv: 12.47 } }
+      }
+    ]
+  },
+  {
+    id: 'msb', name: 'MSB', voltage: 480, phases: 3, frequency: 60, xrRatio: 8,
+    equipment: { class: 'lv-switchgear' },
+    components: [
+      { id: 'feeder-lp1', type: 'cable', name: '4/0 Cu 100 ft', downstream: 'lp1', impedance: { resistance: 0.00563, reactance: 0.00391, isPerUnit: false } }
+    ]
+  },
+  {
+    id: 'lp1', name: 'LP-1 Flower Room', voltage: 480, phases: 3, frequency: 60, xrRatio: 4,
+    equipment: { class: 'lv-panelboard' },
+    protectiveDevice: { name: 'MSB-3 225A', rating: 225, timeDial: 0.1, instantaneous: 2250 },
+    components: [
+      { id: 'fan', type: 'motor', name: 'Exhaust fan', impedance: { resistance: 0, reactance: 0.17, isPerUnit: true }, rating: { hp: 30, fla: 40, voltage: 480 } }
+    ]
+  }
+]
+
+describe('IEEE 1584-2018 model', () => {
+  it('should reproduce the medium-voltage example arcing currents and energy', () => {
+    expect(IEEE1584Calculator.intermediateArcingCurrent('VCB', 0, 15, 104)).toBeCloseTo(11.117, 3)
+    expect(IEEE1584Calculator.intermediateArcingCurrent('VCB', 1, 15, 104)).toBeCloseTo(12.816, 3)
+
+    const result = IEEE1584Calculator.calculate({
+      voltage: 4160,
+      boltedFaultCurrent: 15000,
+      electrodeConfiguration: 'VCB',
+      gap: 104,
+      workingDistance: 914.4,
+      enclosure: { height: 1143, width: 762, depth: 762 },
+      arcDuration: 0.197
+    })
+
+    expect(result.full.arcingCurrent / 1000).toBeCloseTo(12.979, 2)
+    expect(result.incidentEnergy * 4.184).toBeCloseTo(12.15, 1) // J/cm²
+    expect(result.arcFlashBoundary).toBeGreaterThan(1500)
+    expect(result.warnings).toEqual([])
+  })
+
+  it('should let the reduced arcing current govern when the device is slower', () => {
+    const result = IEEE1584Calculator.calculate({
+      voltage: 480,
+      boltedFaultCurrent: 35000,
+      electrodeConfiguration: 'VCB',
+      gap: 32,
+      workingDistance: 609.6,
+      enclosure: { height: 508, width: 508, depth: 508 },
+      arcDuration: (current: number) => current > 20000 ? 0.05 : 0.5
+    })
+
+    expect(result.reduced.arcingCurrent).toBeLessThan(result.full.arcingCurrent)
+    expect(result.governing).toBe('reduced')
+    expect(result.arcDuration).toBe(0.5)
+  })
+
+  it('should correct for shallow low-voltage enclosures and skip open air', () => {
+    expect(IEEE1584Calculator.enclosureCorrectionFactor('VCB', 0.48, { height: 355.6, width: 304.8, depth: 203.2 })).not.toBe(1)
+    expect(IEEE1584Calculator.enclosureCorrectionFactor('VOA', 0.48, { height: 355.6, width: 304.8, depth: 203.2 })).toBe(1)
+  })
+})
+
+describe('ShortCircuitAnalyzer one-line', () => {
+  it('should trace fault impedance from the source through the transformer and feeder', () => {
+    const results = ShortCircuitAnalyzer.analyzeAll(oneLine())
+    const [util, msb, lp1] = results
+
+    expect(results.map(r => r.bus)).toEqual(['util', 'msb', 'lp1'])
+    expect(util.symmetrical.threePhaseFault).toBeGreaterThan(20000)
+    expect(msb.symmetrical.threePhaseFault).toBeGreaterThan(25000)
+    expect(msb.symmetrical.threePhaseFault).toBeLessThan(1500000 / (480 * Math.sqrt(3) * 0.0575))
+    expect(lp1.symmetrical.threePhaseFault).toBeLessThan(msb.symmetrical.threePhaseFault)
+    expect(lp1.arcFlash.arcDuration).toBe(0.05)
+    expect(lp1.protectiveDevice.device).toBe('MSB-3 225A')
+  })
+
+  it('should reject buses without a source', () => {
+    const system = oneLine()
+    system[0].components = system[0].components.filter(c => c.type !== 'utility')
+    expect(() => ShortCircuitAnalyzer.analyze(system, 'lp1')).toThrow(/not connected/)
+  })
+})
+
+describe('arc flash study', () => {
+  it('should label every bus and flag unprotected high-energy buses', () => {
+    const study = ArcFlashStudy.run(oneLine(), { projectName: 'Greenhouse A', studyDate: new Date('2026-10-01') })
+    const msb = study.buses.find(b => b.busId === 'msb')!
+    const lp1 = study.buses.find(b => b.busId === 'lp1')!
+
+    expect(msb.label.signalWord).toBe('DANGER')
+    expect(msb.label.ppeCategory).toBeNull()
+    expect(study.dangerBuses).toContain('msb')
+    expect(study.warnings.some(w => w.startsWith('MSB: No protective device'))).toBe(true)
+
+    expect(lp1.path).toEqual(['Utility 12.47 kV', 'MSB', 'LP-1 Flower Room'])
+    expect(lp1.label.signalWord).toBe('WARNING')
+    expect(lp1.label.shockBoundaries.restricted).toBe('1 ft 0 in')
+    expect(lp1.label.workingDistance).toBeCloseTo(18, 6)
+    expect(lp1.label.studyDate).toBe('2026-10-01')
+  })
+
+  it('should produce one label page per bus and a study report', () => {
+    const study = ArcFlashStudy.run(oneLine())
+    expect(ArcFlashLabelGenerator.generateLabels(study, { method: 'ppe-category' }).getNumberOfPages()).toBe(3)
+    expect(ArcFlashLabelGenerator.generateReport(study).output('arraybuffer').byteLength).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * NEC Electrical Design Tests
+ * Table 310.16 ampacity with derating, Article 220 service loads and balanced panel schedules
+ */
+
+import { NECAmpacityCalculator } from '@/lib/electrical/nec-ampacity'
+import { NECLoad, NECLoadCalculator } from '@/lib/electrical/nec-load-calculation'
+import { PanelScheduleBuilder } from '@/lib/electrical/panel-schedule'
+import { NECComplianceChecker } from '@/lib/electrical/nec-compliance'
+import { CircuitPlanner } from '@/lib/circuit-planner'
+
+describe('Table 310.16 ampacity', () => {
+  it('should look up the 60/75/90 °C columns for copper and aluminum', () => {
+    expect(NECAmpacityCalculator.tableAmpacity('3/0', 'copper', 75)).toBe(200)
+    expect(NECAmpacityCalculator.tableAmpacity('12', 'copper', 60)).toBe(20)
+    expect(NECAmpacityCalculator.tableAmpacity('500', 'aluminum', 90)).toBe(350)
+    expect(NECAmpacityCalculator.tableAmpacity('14', 'aluminum', 75)).toBeNull()
+  })
+
+  it('should apply ambient correction, conductor adjustment and the small conductor rule', () => {
+    const ampacity = NECAmpacityCalculator.calculateAmpacity('12', { ambientTemperature: 40, currentCarryingConductors: 6 })!
+
+    expect(ampacity.temperatureCorrection).toBe(0.91)
+    expect(ampacity.adjustmentFactor).toBe(0.8)
+    expect(ampacity.adjustedAmpacity).toBeCloseTo(21.84, 2)
+    expect(ampacity.allowableAmpacity).toBeCloseTo(21.84, 2)
+    expect(ampacity.maxOvercurrentDevice).toBe(20) // 240.4(D)
+    expect(NECAmpacityCalculator.temperatureCorrectionFactor(58, 60)).toBe(0)
+  })
+
+  it('should size up for 125% continuous load and hot, crowded raceways', () => {
+    expect(NECAmpacityCalculator.selectConductor({ continuousAmps: 40, overcurrentDevice: 50 })!.size).toBe('8')
+    expect(NECAmpacityCalculator.selectConductor({
+      continuousAmps: 40, overcurrentDevice: 50, ambientTemperature: 45, currentCarryingConductors: 9
+    })!.size).toBe('6')
+  })
+})
+
+describe('Article 220 service load', () => {
+  const loads: NECLoad[] = [
+    { id: 'lights', description: 'Flower room fixtures', category: 'horticultural-lighting', va: 200000, continuous: true },
+    { id: 'office', description: 'Office lighting', category: 'general-lighting', va: 5000, continuous: true },
+    { id: 'rtu-1', description: 'RTU-1', category: 'cooling', va: 30000 },
+    { id: 'rtu-2', description: 'RTU-2', category: 'cooling', va: 30000 },
+    { id: 'heat', description: 'Unit heaters', category: 'heating', va: 20000 },
+    { id: 'fans', description: 'HAF fans', category: 'motor', va: 20000 },
+    { id: 'recept', description: 'Receptacles', category: 'receptacle', va: 15000 }
+  ]
+
+  it('should apply demand factors, noncoincident loads and the continuous and motor adders', () => {
+    const calc = NECLoadCalculator.calculateServiceLoad(loads, { voltage: 480, phases: 3, floorArea: 10000 })
+
+    const line = (description: string) => calc.lines.find(l => l.description.startsWith(description))!
+    expect(line('General lighting').demandVA).toBe(12000) // 1.2 VA/ft² minimum
+    expect(line('Receptacles').demandVA).toBe(12500)
+    expect(line('Space heating').demandVA).toBe(0)
+    expect(calc.demandVA).toBe(304500)
+    expect(calc.continuousAdderVA).toBe(53000)
+    expect(calc.largestMotorAdderVA).toBe(7500)
+    expect(calc.calculatedAmps).toBeCloseTo(439.0, 1)
+    expect(calc.overcurrentDevice).toBe(450)
+    expect(calc.parallelSets).toBe(2)
+    expect(calc.conductor!.size).toBe('4/0')
+  })
+
+  it('should apply the warehouse lighting demand factor above 12.5 kVA', () => {
+    expect(NECLoadCalculator.lightingDemand(32500, 'warehouse')).toBe(22500)
+    expect(NECLoadCalculator.lightingDemand(32500, 'office')).toBe(32500)
+  })
+})
+
+describe('panel schedules', () => {
+  it('should balance single-pole circuits across the phase buses', () => {
+    const schedule = PanelScheduleBuilder.build(
+      [5000, 4000, 3000, 3000, 2000, 1000].map((va, i) => ({ id: `c${i + 1}`, description: `Row ${i + 1}`, loadVA: va, poles: 1 as const })),
+      { panelName: 'LP-1', voltage: 480, phases: 3, busRating: 225, mainBreaker: 100 }
+    )
+
+    expect(schedule.imbalancePercent).toBeCloseTo(0, 6)
+    expect(schedule.phaseLoading.A!.connectedVA).toBe(6000)
+    expect(schedule.phaseLoading.A!.amps).toBeCloseTo(7500 / 277.13, 1)
+    expect(schedule.spareCapacityAmps).toBeCloseTo(100 - 7500 / 277.13, 1)
+    expect(schedule.spacesUsed).toBe(6)
+    expect(schedule.circuits[0]).toMatchObject({ circuitId: 'c1', positions: [1], phases: ['A'], breaker: 25, conductor: '10 AWG Cu' })
+  })
+
+  it('should place multi-pole breakers on consecutive positions across phases', () => {
+    const schedule = PanelScheduleBuilder.build([
+      { id: 'rtu', description: 'RTU-1', loadVA: 30000, poles: 3, continuous: false },
+      { id: 'dehu', description: 'Dehumidifier', loadVA: 6000, poles: 2 },
+      { id: 'lights', description: 'Lights', loadVA: 3000, poles: 1 }
+    ], { panelName: 'DP-1', voltage: 480, phases: 3, busRating: 225, spaces: 12 })
+
+    const rtu = schedule.circuits.find(c => c.circuitId === 'rtu')!
+    expect(rtu.positions).toEqual([1, 3, 5])
+    expect(rtu.phases).toEqual(['A', 'B', 'C'])
+    expect(rtu.breaker).toBe(40)
+
+    const dehu = schedule.circuits.find(c => c.circuitId === 'dehu')!
+    const lights = schedule.circuits.find(c => c.circuitId === 'lights')!
+    expect(dehu.phases).toHaveLength(2)
+    expect(dehu.phases).not.toContain(lights.phases[0])
+  })
+
+  it('should report circuits that do not fit the panel', () => {
+    const schedule = PanelScheduleBuilder.build(
+      [{ id: 'three-pole', description: 'Motor', loadVA: 5000, poles: 3 }],
+      { panelName: 'LP-2', voltage: 240, phases: 1, busRating: 100 }
+    )
+    expect(schedule.unassigned).toEqual(['three-pole'])
+  })
+})
+
+describe('NEC compliance and circuit planner integration', () => {
+  it('should flag a 12 AWG conductor on a 30A breaker', () => {
+    const check = NECComplianceChecker.checkConductorAmpacity(
+      { type: 'lighting', power: 4000, voltage: 277, current: 14.4, phases: 1, isContinuous: true },
+      '12',
+      30
+    )
+    expect(check.isCompliant).toBe(false)
+    expect(check.notes).toMatch(/240\.4/)
+  })
+
+  it('should produce a phase-balanced schedule for planned lighting circuits', () => {
+    const fixtures = Array.from({ length: 45 }, (_, i) => ({
+      id: `fx-${i}`, enabled: true, x: i % 6, y: Math.floor(i / 6), model: { wattage: 645 }
+    }))
+    const circuits = CircuitPlanner.autoAssignCircuits(fixtures, 277)
+    const panel = CircuitPlanner.generatePanel(circuits)
+
+    expect(CircuitPlanner.calculateLoad(fixtures).demand).toBe(45 * 645)
+    expect(panel.schedule!.unassigned).toEqual([])
+    expect(panel.schedule!.imbalancePercent).toBeLessThan(10)
+    expect(panel.schedule!.spareCapacityAmps).toBeGreaterThanOrEqual(0)
+    expect(CircuitPlanner.generateSchedule(panel)).toMatch(/Phase C: .*kVA connected/)
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Baseline Regression Tests
+ * Change-point and TOWT fits on synthetic facilities with known coefficients
+ */
+
+import {
+  BaselineObservation,
+  buildOptionCReport,
+  calculateFitStatistics,
+  fitBestChangePointModel,
+  fitChangePointModel,
+  fitTOWTModel,
+  fractionalSavingsUncertainty,
+  normalQuantile,
+  studentTQuantile
+} from '@/lib/energy/baseline-regression'
+
+const DAY = 24 * 3600 * 1000
+const START = Date.UTC(2025, 0, 6) // Monday
+
+function noise(seed: number) {
+  let state = seed
+  return (amplitude: number) => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return (state / 4294967296 - 0.5) * 2 * amplitude
+  }
+}
+
+function annualTemperature(day: number) {
+  return 57.5 - 35 * Math.cos((2 * Math.PI * day) / 365)
+}
+
+function dailyFacility(energy: (temperature: number) => number, days = 365, seed = 7): BaselineObservation[] {
+  const jitter = noise(seed)
+  return Array.from({ length: days }, (_, day) => {
+    const temperature = annualTemperature(day) + jitter(6)
+    return { timestamp: new Date(START + day * DAY), temperature, energy: energy(temperature) + jitter(15) }
+  })
+}
+
+const fiveParameter = (t: number) => 500 + 12 * Math.max(0, 55 - t) + 20 * Math.max(0, t - 72)
+
+describe('change-point models', () => {
+  it('should recover 5P balance points and slopes', () => {
+    const model = fitChangePointModel(dailyFacility(fiveParameter), '5P', 'daily')!
+
+    expect(model.coefficients.heatingBalancePoint).toBeCloseTo(55, -0.5)
+    expect(model.coefficients.coolingBalancePoint).toBeCloseTo(72, -0.5)
+    expect(model.coefficients.heatingSlope).toBeGreaterThan(11)
+    expect(model.coefficients.heatingSlope).toBeLessThan(13)
+    expect(model.coefficients.coolingSlope).toBeGreaterThan(18.5)
+    expect(model.coefficients.coolingSlope).toBeLessThan(21.5)
+  })
+
+  it('should pick the 5P model over simpler shapes for heating and cooling data', () => {
+    expect(fitBestChangePointModel(dailyFacility(fiveParameter), 'daily')!.type).toBe('5P')
+  })
+
+  it('should reject a heating model whose slope runs the wrong way', () => {
+    const coolingOnly = dailyFacility(t => 400 + 15 * Math.max(0, t - 65))
+    expect(fitChangePointModel(coolingOnly, '3PH', 'daily')).toBeNull()
+    expect(fitChangePointModel(coolingOnly, '3PC', 'daily')!.coefficients.coolingBalancePoint).toBeCloseTo(65, -0.5)
+  })
+})
+
+describe('TOWT model', () => {
+  const hourly = (weeks: number, scale: number, offsetWeeks = 0): BaselineObservation[] => {
+    const jitter = noise(11 + offsetWeeks)
+    return Array.from({ length: weeks * 168 }, (_, h) => {
+      const timestamp = new Date(START + (offsetWeeks * 168 + h) * 3600000)
+      const hour = timestamp.getUTCHours()
+      const weekday = timestamp.getUTCDay() >= 1 && timestamp.getUTCDay() <= 5
+      const temperature = 70 + 12 * Math.sin((2 * Math.PI * (hour - 9)) / 24) + jitter(4)
+      const lights = weekday && hour >= 6 && hour < 18 ? 800 : 200
+      return { timestamp, temperature, energy: scale * (lights + 6 * Math.max(0, temperature - 75)) + jitter(20) }
+    })
+  }
+
+  it('should fit the weekly schedule and pass the hourly G14 limits', () => {
+    const baseline = hourly(8, 1)
+    const model = fitTOWTModel(baseline, 'hourly')!
+    const stats = calculateFitStatistics(baseline.map(o => o.energy), baseline.map(o => model.predict(o)), model.parameterCount)
+
+    expect(stats.cvrmse).toBeLessThan(5)
+    expect(Math.abs(stats.nmbe)).toBeLessThan(0.5)
+    expect(model.predict({ timestamp: new Date(START + 10 * 3600000), temperature: 70 })).toBeCloseTo(800, -1.5)
+  })
+
+  it('should report weather-adjusted savings with uncertainty', () => {
+    const report = buildOptionCReport(hourly(8, 1), hourly(4, 0.85, 8), { granularity: 'hourly', model: 'TOWT' })
+
+    expect(report.model.type).toBe('TOWT')
+    expect(report.savings.fractionalSavings).toBeGreaterThan(0.13)
+    expect(report.savings.fractionalSavings).toBeLessThan(0.17)
+    expect(report.savings.uncertainty).toBeLessThan(0.1 * report.savings.energySavings)
+    expect(report.acceptance.passed).toBe(true)
+  })
+})
+
+describe('G14 acceptance and uncertainty', () => {
+  it('should compute Student t quantiles', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.95996, 4)
+    expect(studentTQuantile(0.975, 10)).toBeCloseTo(2.228, 2)
+    expect(studentTQuantile(0.95, 30)).toBeCloseTo(1.697, 2)
+  })
+
+  it('should widen the uncertainty for autocorrelated residuals', () => {
+    const base = {
+      cvrmse: 10, observations: 365, parameterCount: 5, reportingObservations: 365,
+      fractionalSavings: 0.1, confidenceLevel: 0.9
+    }
+    expect(fractionalSavingsUncertainty({ ...base, autocorrelation: 0.6 }))
+      .toBeGreaterThan(fractionalSavingsUncertainty({ ...base, autocorrelation: 0 }))
+  })
+
+  it('should fail monthly models that miss the CV(RMSE) limit', () => {
+    const jitter = noise(3)
+    const months = (offset: number, scale: number) => Array.from({ length: 12 }, (_, month) => {
+      const temperature = annualTemperature(month * 30.4 + 15)
+      return {
+        timestamp: new Date(Date.UTC(2024 + offset, month, 1)),
+        temperature,
+        energy: scale * 30 * fiveParameter(temperature) + jitter(9000)
+      }
+    })
+
+    const report = buildOptionCReport(months(0, 1), months(1, 0.9), { granularity: 'monthly' })
+    expect(report.statistics.cvrmse).toBeGreaterThan(15)
+    expect(report.acceptance.cvrmsePass).toBe(false)
+    expect(report.acceptance.passed).toBe(false)
+    expect(report.acceptance.reasons[0]).toMatch(/CV\(RMSE\)/)
+  })
+})
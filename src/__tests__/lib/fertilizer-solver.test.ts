@@ -0,0 +1,139 @@
+/**
+ * Fertilizer Salt Solver Tests
+ * Recipe targets to stock tank weighings: element residuals, calcium separation,
+ * acid dosing for alkalinity, predicted EC/pH and cost minimisation
+ */
+
+import {
+  ELEMENT_MASS,
+  acidEquivalents,
+  solutionAlkalinity,
+  solveFertilizerRecipe
+} from '@/lib/fertilizer-solver'
+import { getFertilizerById } from '@/lib/fertilizer-database'
+import { CustomNutrientRecipe, optimizeRecipe } from '@/lib/nutrient-recipe-models'
+
+// A lettuce recipe reachable from calcium nitrate, KNO3, MKP, Epsom salt, K2SO4 and chelates
+const recipe: CustomNutrientRecipe = {
+  id: 'lettuce-veg',
+  name: 'Lettuce Vegetative',
+  cropType: 'lettuce',
+  growthStage: 'Vegetative',
+  targetEC: 1.8,
+  targetPH: 5.8,
+  elements: { N: 143, P: 38, K: 199, Ca: 149, Mg: 40, S: 69, Fe: 2.2, Mn: 0.5, B: 0.4, Zn: 0.1, Cu: 0.05, Mo: 0.05 },
+  createdAt: new Date(0),
+  updatedAt: new Date(0)
+}
+
+const hardWater = { ions: { calcium: 2, magnesium: 0.8, bicarbonate: 3, sodium: 0.5, chloride: 0.5 }, ph: 7.8 }
+
+const productsFor = (solution: ReturnType<typeof solveFertilizerRecipe>, tank: string) =>
+  solution.weighings.filter(w => w.tank === tank).map(w => getFertilizerById(w.fertilizerId)!)
+
+describe('solveFertilizerRecipe', () => {
+  it('weighs A/B tanks that hit every element on RO water', () => {
+    const solution = solveFertilizerRecipe(recipe, { concentrationFactor: 100, tankVolume: 200 })
+
+    expect(solution.maxRelativeError).toBeLessThan(0.01)
+    for (const [element, residual] of Object.entries(solution.residuals)) {
+      if (residual.target > 0) expect(Math.abs(residual.error)).toBeLessThan(0.01 * residual.target + 1e-6)
+      else expect(residual.fertilizer).toBeLessThan(1e-6)
+      expect(element in ELEMENT_MASS).toBe(true)
+    }
+
+    // Calcium never shares a tank with sulfates or phosphates
+    expect(productsFor(solution, 'A').some(fert => fert.analysis.Ca)).toBe(true)
+    expect(productsFor(solution, 'A').every(fert => !fert.analysis.S && !fert.analysis.P)).toBe(true)
+    expect(productsFor(solution, 'B').every(fert => !fert.analysis.Ca)).toBe(true)
+    expect(solution.tanks.map(tank => tank.id)).toEqual(['A', 'B'])
+
+    for (const weighing of solution.weighings) {
+      expect(weighing.grams).toBeCloseTo(weighing.finalConcentration * 100 * 200 / 1000, 10)
+      expect(weighing.stockConcentration).toBeLessThanOrEqual(getFertilizerById(weighing.fertilizerId)!.solubility)
+    }
+    expect(solution.batchCost).toBeCloseTo(solution.costPerLiter * 100 * 200, 8)
+    expect(solution.formulation.fertilizers).toHaveLength(solution.weighings.length)
+    expect(solution.formulation.stockConcentration).toBe(100)
+
+    expect(solution.predictedEC).toBeGreaterThan(1.4)
+    expect(solution.predictedEC).toBeLessThan(2.4)
+    expect(Math.abs(solution.ionBalance)).toBeLessThan(10)
+  })
+
+  it('costs no more than a hand-built formulation of the same recipe', () => {
+    const manual: Record<string, number> = {
+      'can-4h2o': 878, kno3: 301, mkp: 167, 'mgso4-7h2o': 404, ksul: 109,
+      'fe-dtpa': 20, 'mnso4-h2o': 1.54, boric: 2.29, 'znso4-7h2o': 0.44, 'cuso4-5h2o': 0.2, namoly: 0.13
+    }
+    const manualCost = Object.entries(manual).reduce((sum, [id, mg]) => sum + mg * getFertilizerById(id)!.cost / 1e6, 0)
+    const solution = solveFertilizerRecipe(recipe, { fertilizers: [...Object.keys(manual), 'mgno3', 'nh4no3', 'mgso4-1h2o'] })
+
+    expect(solution.maxRelativeError).toBeLessThan(0.01)
+    expect(solution.costPerLiter).toBeLessThanOrEqual(manualCost * 1.0001)
+  })
+
+  it('doses acid against the source water alkalinity and credits water calcium', () => {
+    const solution = solveFertilizerRecipe(recipe, { sourceWater: hardWater, acidTank: true, concentrationFactor: 200 })
+
+    expect(solution.acidRequirement).toBeGreaterThan(2)
+    expect(solution.acidSupplied).toBeCloseTo(solution.acidRequirement, 3)
+    expect(solution.predictedPH).toBeCloseTo(5.8, 2)
+    expect(solution.residuals.Ca!.water).toBeCloseTo(40.08, 2)
+    expect(solution.residuals.Ca!.fertilizer).toBeCloseTo(149 - 40.08, 1)
+    expect(solution.residuals.Na!.fertilizer).toBeLessThan(1e-6)
+
+    const acidTank = solution.tanks.find(tank => tank.id === 'C')!
+    expect(acidTank.weighings.length).toBeGreaterThan(0)
+    expect(acidTank.weighings.every(w => getFertilizerById(w.fertilizerId)!.type === 'acid')).toBe(true)
+    for (const weighing of acidTank.weighings) {
+      expect(weighing.millilitres).toBeCloseTo(weighing.grams / getFertilizerById(weighing.fertilizerId)!.density!, 10)
+    }
+  })
+
+  it('accepts mmol/L targets', () => {
+    const mmol = Object.fromEntries(
+      Object.entries(recipe.elements).map(([element, ppm]) => [element, ppm / ELEMENT_MASS[element as keyof typeof ELEMENT_MASS]])
+    ) as CustomNutrientRecipe['elements']
+    const fromPpm = solveFertilizerRecipe(recipe)
+    const fromMmol = solveFertilizerRecipe({ ...recipe, elements: mmol }, { targetUnit: 'mmol/L' })
+
+    expect(fromMmol.residuals.K!.target).toBeCloseTo(199, 10)
+    expect(fromMmol.costPerLiter).toBeCloseTo(fromPpm.costPerLiter, 8)
+  })
+
+  it('reports residual errors when the salts cannot reach the recipe', () => {
+    const solution = solveFertilizerRecipe(recipe, { fertilizers: ['can-4h2o', 'kno3', 'mkp', 'gypsum', 'fe-dtpa'] })
+
+    expect(solution.residuals.Mg!.achieved).toBe(0)
+    expect(solution.residuals.Mg!.relativeError).toBe(-1)
+    expect(solution.maxRelativeError).toBe(1)
+    expect(solution.warnings).toContain('Calcium Sulfate (Gypsum) carries calcium with sulfate or phosphate and cannot go in either stock tank')
+    expect(solution.warnings.some(warning => warning.startsWith('Mg: 0.00 ppm'))).toBe(true)
+    expect(() => solveFertilizerRecipe(recipe, { fertilizers: ['unobtainium'] })).toThrow('Unknown fertilizer unobtainium')
+  })
+})
+
+describe('acid chemistry', () => {
+  it('counts acid and alkaline equivalents per gram of product', () => {
+    expect(acidEquivalents(getFertilizerById('nitric')!)).toBeCloseTo(10 * 13.3 / 14.007, 10)
+    expect(acidEquivalents(getFertilizerById('sulfuric')!)).toBeCloseTo(20 * 11.5 / 32.06, 10)
+    expect(acidEquivalents(getFertilizerById('koh')!)).toBeLessThan(0)
+    expect(acidEquivalents(getFertilizerById('dap')!)).toBeLessThan(0)
+    expect(acidEquivalents(getFertilizerById('mkp')!)).toBe(0)
+
+    // Bicarbonate is half protonated at pKa 6.35
+    expect(solutionAlkalinity(6.35, 2, 0)).toBeCloseTo(1, 2)
+  })
+})
+
+describe('optimizeRecipe', () => {
+  it('returns the recipe the available fertilizers can deliver', () => {
+    const optimized = optimizeRecipe(recipe, { availableFertilizers: ['can-4h2o', 'kno3', 'mkp', 'ksul', 'fe-dtpa'] })
+
+    expect(optimized.elements.Mg).toBe(0)
+    expect(optimized.elements.Ca).toBeCloseTo(149, 1)
+    expect(optimized.targetEC).toBeGreaterThan(0)
+    expect(optimized.id).toBe(recipe.id)
+  })
+})
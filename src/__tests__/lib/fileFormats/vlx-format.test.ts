@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * VLX Format Tests
+ * Archive round trip, checksums, passphrase encryption and legacy migration
+ */
+
+import JSZip from 'jszip'
+import { VLXFormat, VLXFormatError } from '@/lib/fileFormats/vlxFormat'
+import { VLX_SCHEMA_VERSION } from '@/lib/fileFormats/vlxMigrations'
+
+const IES = 'IESNA:LM-63-2002\nTILT=NONE\n1 1700 1 3 1 1 2 0.3 1.2 0.1\n1 1 645\n0 45 90\n0\n1 1 1\n'
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+const fixture = (id: string, x: number) => ({
+  id,
+  position: { x, y: 4, z: 8 },
+  rotation: { x: 0, y: 0, z: 90 },
+  model: {
+    manufacturer: 'Fluence',
+    name: 'SPYDR 2p',
+    specifications: {
+      power: 645, ppf: 1700, efficacy: 2.6, spectrum: 'PhysioSpec',
+      dimensions: { length: 4, width: 3.6, height: 0.3 }
+    }
+  },
+  enabled: true,
+  iesFile: 'spydr-2p.ies'
+})
+
+const projectData = {
+  id: 'project-42',
+  name: 'Flower Room 3',
+  client: 'Green Acres',
+  room: { dimensions: { length: 20, width: 12, height: 10 }, unit: 'feet', type: 'indoor' },
+  fixtures: [fixture('f1', 4), fixture('f2', 12)],
+  iesFiles: { 'spydr-2p.ies': IES },
+  thumbnails: { 'plan.png': PNG },
+  calculations: [{ id: 'ppfd-grid', name: 'Canopy PPFD', type: 'ppfd-grid', createdAt: '2026-10-01T00:00:00Z', data: [[812, 845]] }]
+}
+
+async function sha256(text: string) {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Buffer.from(hash).toString('hex')
+}
+
+describe('VLX archive', () => {
+  it('should round trip geometry, fixtures, IES files, thumbnails and calculations', async () => {
+    const data = await VLXFormat.createVLX(projectData)
+    const result = await VLXFormat.readVLX(data)
+
+    expect(result.encrypted).toBe(false)
+    expect(result.migrations).toEqual([])
+    expect(result.manifest!.schemaVersion).toBe(VLX_SCHEMA_VERSION)
+    expect(Object.keys(result.manifest!.entries)).toEqual(expect.arrayContaining([
+      'project.json', 'geometry.json', 'fixtures.json', 'ies/spydr-2p.ies', 'thumbnails/plan.png',
+      'calculations/analysis.json', 'calculations/ppfd-grid.json'
+    ]))
+
+    const { bundle } = result
+    expect(bundle.project.metadata.projectName).toBe('Flower Room 3')
+    expect(bundle.project.geometry.room.dimensions.length).toBe(20)
+    expect(bundle.project.fixtures).toHaveLength(2)
+    expect(bundle.iesFiles['spydr-2p.ies']).toBe(IES)
+    expect(Array.from(bundle.thumbnails['plan.png'])).toEqual(Array.from(PNG))
+    expect(bundle.calculations.find(c => c.id === 'ppfd-grid')!.data).toEqual([[812, 845]])
+    expect(bundle.calculations.find(c => c.id === 'analysis')!.data.powerMetrics.totalPower).toBe(1290)
+  })
+
+  it('should reject an archive whose entry does not match its checksum', async () => {
+    const zip = await JSZip.loadAsync(await VLXFormat.createVLX(projectData))
+    const fixtures = JSON.parse(await zip.file('fixtures.json')!.async('string'))
+    fixtures[0].position.x = 5
+    zip.file('fixtures.json', JSON.stringify(fixtures, null, 2))
+
+    await expect(VLXFormat.readVLX(await zip.generateAsync({ type: 'uint8array' })))
+      .rejects.toMatchObject({ code: 'CHECKSUM_MISMATCH' })
+  })
+
+  it('should refuse schemas newer than this build', async () => {
+    const zip = await JSZip.loadAsync(await VLXFormat.createVLX(projectData))
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'))
+    zip.file('manifest.json', JSON.stringify({ ...manifest, schemaVersion: '9.0.0' }))
+
+    await expect(VLXFormat.readVLX(await zip.generateAsync({ type: 'uint8array' })))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED_VERSION' })
+  })
+
+  it('should encrypt everything but the manifest with a passphrase', async () => {
+    const data = await VLXFormat.createVLX(projectData, { passphrase: 'correct horse', iterations: 1000 })
+
+    const zip = await JSZip.loadAsync(data)
+    expect(Object.keys(zip.files).sort()).toEqual(['manifest.json', 'payload.bin'])
+    expect(Buffer.from(data).includes('Flower Room 3')).toBe(false)
+    expect(await VLXFormat.isEncrypted(data)).toBe(true)
+
+    await expect(VLXFormat.readVLX(data)).rejects.toMatchObject({ code: 'PASSPHRASE_REQUIRED' })
+    await expect(VLXFormat.readVLX(data, { passphrase: 'wrong' })).rejects.toMatchObject({ code: 'INVALID_PASSPHRASE' })
+
+    const result = await VLXFormat.readVLX(data, { passphrase: 'correct horse' })
+    expect(result.encrypted).toBe(true)
+    expect(result.bundle.iesFiles['spydr-2p.ies']).toBe(IES)
+  })
+})
+
+describe('VLX migrations', () => {
+  it('should open a legacy 1.0.0 JSON document and verify its checksum', async () => {
+    const legacy: any = {
+      header: {
+        signature: 'VLX1', version: '1.0.0', created: '2024-03-01T00:00:00.000Z', modified: '2024-03-02T00:00:00.000Z',
+        checksum: '', compression: 'gzip', encryption: 'none'
+      },
+      metadata: {
+        projectId: 'legacy-1', projectName: 'Veg Room', designType: 'indoor', tags: [], author: 'Consultant',
+        thumbnail: `data:image/png;base64,${Buffer.from(PNG).toString('base64')}`
+      },
+      geometry: { room: projectData.room, fixtures: [fixture('f1', 4)], obstacles: [] },
+      analysis: { lightingMetrics: { averagePPFD: 640 } },
+      electrical: { circuits: [], panels: [], loadCalculations: {} }
+    }
+    legacy.header.checksum = await sha256(JSON.stringify(legacy))
+    const json = JSON.stringify(legacy)
+
+    const result = await VLXFormat.readVLX(new TextEncoder().encode(json))
+    expect(result.sourceSchemaVersion).toBe('1.0.0')
+    expect(result.migrations).toEqual(['1.0.0 -> 2.0.0'])
+    expect(result.bundle.project.fixtures[0].id).toBe('f1')
+    expect(Array.from(result.bundle.thumbnails['thumbnail.png'])).toEqual(Array.from(PNG))
+    expect(result.bundle.calculations[0]).toMatchObject({ id: 'analysis', data: { lightingMetrics: { averagePPFD: 640 } } })
+
+    // Re-saved files open as the current schema
+    const resaved = await VLXFormat.readVLX(await VLXFormat.writeVLX(result.bundle))
+    expect(resaved.migrations).toEqual([])
+
+    const tampered = new TextEncoder().encode(json.replace('Veg Room', 'Flower Room'))
+    await expect(VLXFormat.readVLX(tampered)).rejects.toBeInstanceOf(VLXFormatError)
+  })
+
+  it('should open designer JSON exports with their designer state intact', async () => {
+    const state = {
+      room: { width: 12, length: 20, height: 10, ceilingHeight: 10, workingHeight: 3, roomType: 'flower', windows: [] },
+      objects: [{
+        id: 'fx-1', type: 'fixture', x: 6, y: 10, z: 8, rotation: 0, width: 3.6, length: 4, height: 0.3, enabled: true,
+        model: { name: 'SPYDR 2p', wattage: 645, ppf: 1700, beamAngle: 120 }
+      }],
+      ui: { selectedTool: 'select' }
+    }
+    const exported = { id: 'project-1', name: 'Designer Room', state, createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-02T00:00:00.000Z' }
+
+    const result = await VLXFormat.readVLX(new TextEncoder().encode(JSON.stringify(exported)))
+    expect(result.migrations).toEqual(['0.0.0 -> 1.0.0', '1.0.0 -> 2.0.0'])
+    expect(result.bundle.project.fixtures[0].model.specifications.power).toBe(645)
+    expect(VLXFormat.toDesignerProject(result.bundle)).toEqual({ ...exported, state })
+  })
+
+  it('should rebuild designer objects for files saved without designer state', async () => {
+    const { bundle } = await VLXFormat.readVLX(await VLXFormat.createVLX({
+      ...projectData,
+      room: { dimensions: { length: 10, width: 5, height: 3 }, unit: 'meters', type: 'greenhouse' }
+    }))
+
+    const { state } = VLXFormat.toDesignerProject(bundle)
+    expect(state.room.length).toBeCloseTo(32.8, 1)
+    expect(state.room.spaceType).toBe('greenhouse')
+    expect(state.objects).toHaveLength(2)
+    expect(state.objects[0]).toMatchObject({ id: 'f1', type: 'fixture', rotation: 90, iesFile: 'spydr-2p.ies' })
+    expect(state.objects[0].model).toMatchObject({ name: 'SPYDR 2p', wattage: 645, ppf: 1700 })
+  })
+})
@@ -0,0 +1,220 @@
+import {
+  RULE_TEMPLATES,
+  Rule,
+  automationRuleSchema,
+  parseAutomationRule
+} from '@/lib/greenhouse-automation-rules'
+import {
+  EngineState,
+  ReadingSeries,
+  applyCycle,
+  detectRuleConflicts,
+  evaluateAutomationCycle,
+  evaluateCondition
+} from '@/lib/hmi/automation-engine'
+
+const at = (time: string) => new Date(`2026-10-19T${time}:00Z`)
+
+const rule = (overrides: Partial<Rule> & Pick<Rule, 'id' | 'conditions' | 'actions'>): Rule => ({
+  name: overrides.id,
+  description: '',
+  enabled: true,
+  priority: 0,
+  ...overrides
+})
+
+const freshState = (): EngineState => ({ lastTriggered: new Map(), levels: new Map() })
+
+describe('automationRuleSchema', () => {
+  it('accepts the built-in templates', () => {
+    const templates = [
+      RULE_TEMPLATES.temperature_control.cooling,
+      RULE_TEMPLATES.co2_enrichment,
+      RULE_TEMPLATES.blackout_control.photoperiod_enforcement,
+      RULE_TEMPLATES.multi_layer_coordination.winter_insulation
+    ]
+    for (const template of templates) {
+      expect(() => parseAutomationRule(template)).not.toThrow()
+    }
+  })
+
+  it('reports every problem in a malformed rule', () => {
+    const result = automationRuleSchema.safeParse({
+      name: 'Broken',
+      conditions: [
+        { type: 'sensor', parameter: 'temperature', operator: 'between', value: 20 },
+        { type: 'time', parameter: 'current', operator: '=', value: '8am' }
+      ],
+      actions: [{ actuatorId: 'vent', command: 'set' }]
+    })
+    expect(result.success).toBe(false)
+    const paths = result.success ? [] : result.error.issues.map(issue => issue.path.join('.'))
+    expect(paths).toEqual(['conditions.0.value', 'conditions.1.value', 'actions.0.value'])
+  })
+
+  it('requires an id when parsing into a Rule', () => {
+    const definition = { name: 'Heat', conditions: RULE_TEMPLATES.temperature_control.heating.conditions, actions: [{ actuatorId: 'heater', command: 'on' }] }
+    expect(() => parseAutomationRule(definition)).toThrow('Rule id is required')
+    expect(parseAutomationRule(definition, 'r1')).toMatchObject({ id: 'r1', enabled: true, priority: 0, description: '' })
+  })
+})
+
+describe('evaluateCondition', () => {
+  const readings = new ReadingSeries([
+    { sensorType: 'temperature', zone: 'A', value: 29, timestamp: at('11:50') },
+    { sensorType: 'temperature', zone: 'A', value: 30, timestamp: at('11:55') },
+    { sensorType: 'temperature', zone: 'A', value: 31, timestamp: at('12:00') },
+    { sensorType: 'temperature', zone: 'B', value: 22, timestamp: at('12:01') }
+  ])
+  const context = { readings, timeZone: 'UTC' }
+
+  it('uses the latest reading in the zone and ignores stale values', () => {
+    const condition = { type: 'sensor' as const, parameter: 'temperature', operator: '>' as const, value: 28, zone: 'A' }
+    expect(evaluateCondition(condition, at('12:05'), context)).toEqual({ met: true, value: 31 })
+    expect(evaluateCondition(condition, at('12:30'), context)).toEqual({ met: false, value: null })
+    // Without a zone the most recent reading of any zone applies
+    expect(evaluateCondition({ ...condition, zone: undefined }, at('12:05'), context)).toEqual({ met: false, value: 22 })
+  })
+
+  it('requires the condition to hold for its whole duration', () => {
+    const condition = { type: 'sensor' as const, parameter: 'temperature', operator: '>=' as const, value: 30, zone: 'A', duration: 5 }
+    expect(evaluateCondition(condition, at('12:00'), context).met).toBe(true)
+    expect(evaluateCondition({ ...condition, duration: 10 }, at('12:00'), context).met).toBe(false)
+    // No reading before the window start: not enough history
+    expect(evaluateCondition({ ...condition, duration: 60 }, at('12:00'), context).met).toBe(false)
+  })
+
+  it('handles time windows that wrap past midnight in the configured zone', () => {
+    const night = { type: 'time' as const, parameter: 'current', operator: 'between' as const, value: ['18:00', '06:00'] as [string, string] }
+    expect(evaluateCondition(night, at('23:30'), context).met).toBe(true)
+    expect(evaluateCondition(night, at('05:59'), context).met).toBe(true)
+    expect(evaluateCondition(night, at('12:00'), context).met).toBe(false)
+    // 20:00 UTC is 13:00 in Los Angeles
+    expect(evaluateCondition(night, at('20:00'), { ...context, timeZone: 'America/Los_Angeles' })).toEqual({ met: false, value: '13:00' })
+  })
+})
+
+describe('evaluateAutomationCycle', () => {
+  const readings = new ReadingSeries([
+    { sensorType: 'temperature', zone: null, value: 36, timestamp: at('12:00') },
+    { sensorType: 'humidity', zone: null, value: 85, timestamp: at('12:00') }
+  ])
+  const context = { readings, timeZone: 'UTC' }
+
+  const emergency = rule({
+    id: 'emergency',
+    priority: 20,
+    conditions: [{ type: 'sensor', parameter: 'temperature', operator: '>', value: 35 }],
+    actions: [{ actuatorId: 'vents', command: 'set', value: 100 }, { actuatorId: 'shade', command: 'on' }]
+  })
+  const dehumidify = rule({
+    id: 'dehumidify',
+    priority: 8,
+    conditions: [{ type: 'sensor', parameter: 'humidity', operator: '>', value: 80 }],
+    actions: [{ actuatorId: 'vents', command: 'set', value: 75 }, { actuatorId: 'heater', command: 'increment', value: 5 }],
+    cooldownMinutes: 30
+  })
+  const shadeToo = rule({
+    id: 'shade-too',
+    priority: 5,
+    conditions: [{ type: 'sensor', parameter: 'temperature', operator: '>', value: 30 }],
+    actions: [{ actuatorId: 'shade', command: 'set', value: 100 }]
+  })
+
+  it('gives each actuator to the highest-priority rule and suppresses the rest', () => {
+    const state = freshState()
+    state.levels.set('heater', 40)
+    const cycle = evaluateAutomationCycle([shadeToo, dehumidify, emergency], at('12:01'), context, state)
+
+    expect(cycle.firings.map(f => f.ruleId)).toEqual(['emergency', 'dehumidify', 'shade-too'])
+    expect(cycle.firings[0].commands.map(c => [c.actuatorId, c.level])).toEqual([['vents', 100], ['shade', 100]])
+    expect(cycle.firings[1].commands).toEqual([{ actuatorId: 'heater', command: 'increment', value: 5, level: 45 }])
+    expect(cycle.firings[1].suppressed).toEqual([
+      { command: { actuatorId: 'vents', command: 'set', value: 75, level: 75 }, byRuleId: 'emergency' }
+    ])
+    // Same level as the winner: nothing to dispatch, nothing suppressed
+    expect(cycle.firings[2].commands).toEqual([])
+    expect(cycle.firings[2].suppressed).toEqual([])
+  })
+
+  it('starts cooldowns and carries levels forward through applyCycle', () => {
+    const state = freshState()
+    applyCycle(evaluateAutomationCycle([dehumidify], at('12:01'), context, state), state)
+    expect(state.lastTriggered.get('dehumidify')).toEqual(at('12:01'))
+    expect(state.levels.get('heater')).toBe(5)
+
+    expect(evaluateAutomationCycle([dehumidify], at('12:10'), context, state).firings).toEqual([])
+    const later = new ReadingSeries([{ sensorType: 'humidity', zone: null, value: 85, timestamp: at('12:30') }])
+    const fired = evaluateAutomationCycle([dehumidify], at('12:31'), { readings: later }, state)
+    expect(fired.firings[0].commands.find(c => c.actuatorId === 'heater')!.level).toBe(10)
+  })
+
+  it('respects weekly schedules', () => {
+    // 2026-10-19 is a Monday
+    const weekend = { ...shadeToo, schedule: { type: 'weekly' as const, daysOfWeek: [0, 6] } }
+    expect(evaluateAutomationCycle([weekend], at('12:01'), context, freshState()).firings).toEqual([])
+    const weekdays = { ...weekend, schedule: { type: 'weekly' as const, daysOfWeek: [1, 2, 3, 4, 5], startTime: '08:00', endTime: '18:00' } }
+    expect(evaluateAutomationCycle([weekdays], at('12:01'), context, freshState()).firings).toHaveLength(1)
+  })
+})
+
+describe('detectRuleConflicts', () => {
+  const heat = rule({
+    id: 'heat',
+    priority: 10,
+    conditions: [{ type: 'sensor', parameter: 'temperature', operator: '<', value: 20 }],
+    actions: [{ actuatorId: 'heater', command: 'on' }]
+  })
+
+  it('flags opposing commands whose sensor ranges overlap', () => {
+    const saver = rule({
+      id: 'saver',
+      priority: 10,
+      conditions: [{ type: 'sensor', parameter: 'temperature', operator: '>', value: 18 }],
+      actions: [{ actuatorId: 'heater', command: 'off' }]
+    })
+    const [conflict] = detectRuleConflicts([heat, saver])
+    expect(conflict).toMatchObject({ actuatorId: 'heater', severity: 'error', winnerId: null })
+    expect(conflict.rules.map(r => r.id).sort()).toEqual(['heat', 'saver'])
+
+    const ranked = detectRuleConflicts([heat, { ...saver, priority: 3 }])
+    expect(ranked[0]).toMatchObject({ severity: 'warning', winnerId: 'heat' })
+  })
+
+  it('ignores rules that cannot hold at the same time', () => {
+    const hot = rule({
+      id: 'hot',
+      conditions: [{ type: 'sensor', parameter: 'temperature', operator: '>=', value: 20 }],
+      actions: [{ actuatorId: 'heater', command: 'off' }]
+    })
+    const sameDirection = rule({
+      id: 'boost',
+      conditions: [{ type: 'sensor', parameter: 'temperature', operator: '<', value: 15 }],
+      actions: [{ actuatorId: 'heater', command: 'set', value: 100 }]
+    })
+    expect(detectRuleConflicts([heat, hot, sameDirection])).toEqual([])
+  })
+
+  it('intersects time windows, wrapping past midnight', () => {
+    const blackout = rule({
+      id: 'blackout',
+      conditions: [{ type: 'time', parameter: 'current', operator: 'between', value: ['18:00', '06:00'] }],
+      actions: [{ actuatorId: 'screen', command: 'set', value: 100 }]
+    })
+    const morningOpen = rule({
+      id: 'morning',
+      conditions: [{ type: 'time', parameter: 'current', operator: 'between', value: ['07:00', '09:00'] }],
+      actions: [{ actuatorId: 'screen', command: 'off' }]
+    })
+    const dawnOpen = rule({
+      id: 'dawn',
+      conditions: [{ type: 'sensor', parameter: 'lightLevel', operator: '>', value: 50 }],
+      actions: [{ actuatorId: 'screen', command: 'off' }],
+      schedule: { type: 'daily', startTime: '05:00', endTime: '05:30' }
+    })
+    // A schedule narrows the rule's time window just like a time condition
+    const lateMorning = { ...morningOpen, id: 'late', schedule: dawnOpen.schedule }
+    const conflicts = detectRuleConflicts([blackout, morningOpen, dawnOpen, lateMorning])
+    expect(conflicts.map(c => c.rules.map(r => r.id).sort().join('+'))).toEqual(['blackout+dawn'])
+  })
+})
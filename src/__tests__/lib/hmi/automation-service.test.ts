@@ -0,0 +1,200 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * HMI Automation Service Tests
+ * Scheduled cycles against stored rules and readings, dispatch and execution
+ * logging, and dry-run replay of a day of readings
+ */
+
+import { prisma } from '@/lib/prisma'
+import { dryRunAutomation, findRuleConflicts, runAutomationCycle } from '@/lib/hmi/automation-service'
+import type { ControlCommand } from '@/lib/services/device-control'
+import { MemoryRow, memoryTable } from '@/tests/memory-prisma'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+jest.mock('@/lib/services/device-control', () => ({ deviceControlService: { executeCommand: jest.fn() } }))
+jest.mock('@/lib/logging/production-logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}))
+
+interface RuleRow extends MemoryRow {
+  id: string
+  lastTriggered: Date | null
+}
+
+interface ExecutionRow extends MemoryRow {
+  ruleId: string
+  status: string
+  error: string | null
+  conditions: unknown[]
+  actions: Array<Record<string, unknown>>
+}
+
+const rules = memoryTable<RuleRow>('rule')
+const executions = memoryTable<ExecutionRow>('exec')
+const readings = memoryTable('reading')
+
+Object.assign(prisma, {
+  hMIAutomationRule: rules,
+  hMIAutomationExecution: executions,
+  sensorReading: readings
+})
+
+const at = (time: string) => new Date(`2026-10-19T${time}:00Z`)
+
+const storedRule = (id: string, fields: MemoryRow): RuleRow => ({
+  id,
+  facilityId: 'fac-1',
+  name: id,
+  description: null,
+  enabled: true,
+  priority: 0,
+  schedule: null,
+  cooldownMinutes: null,
+  lastTriggered: null,
+  ...fields
+})
+
+const cooling = storedRule('cooling', {
+  priority: 10,
+  cooldownMinutes: 15,
+  conditions: [{ type: 'sensor', parameter: 'temperature', operator: '>', value: 28, zone: 'Bay 1', duration: 5 }],
+  actions: [{ actuatorId: 'fan-1', command: 'on' }, { actuatorId: 'vent-1', command: 'set', value: 80 }]
+})
+const nightClose = storedRule('night-close', {
+  priority: 4,
+  conditions: [{ type: 'time', parameter: 'current', operator: 'between', value: ['11:00', '13:00'] }],
+  actions: [{ actuatorId: 'vent-1', command: 'set', value: 10 }]
+})
+
+function temperatureDay() {
+  // 24 °C except 12:00-13:59 at 30 °C, one reading every 5 minutes
+  const points: MemoryRow[] = []
+  for (let minute = 0; minute < 24 * 60; minute += 5) {
+    const timestamp = new Date(at('00:00').getTime() + minute * 60_000)
+    const value = minute >= 720 && minute < 840 ? 30 : 24
+    points.push({ facilityId: 'fac-1', sensorType: 'temperature', zone: 'Bay 1', value, timestamp })
+  }
+  return points
+}
+
+beforeEach(() => {
+  rules.clear()
+  rules.rows.push({ ...cooling }, { ...nightClose })
+  readings.clear()
+  readings.rows.push(...temperatureDay())
+  executions.clear()
+})
+
+describe('runAutomationCycle', () => {
+  it('dispatches winning commands, logs the firing and starts the cooldown', async () => {
+    const dispatch = jest.fn(async (command: ControlCommand) => command.deviceId === 'fan-1'
+      ? { success: true, message: 'Device enabled', timestamp: new Date() }
+      : { success: false, error: 'No controller found', timestamp: new Date() })
+
+    const result = await runAutomationCycle({ now: at('12:10'), dispatch, timeZone: 'UTC' })
+
+    expect(dispatch.mock.calls.map(([command]) => command)).toEqual([
+      { deviceId: 'fan-1', command: 'ENABLE_DEVICE' },
+      { deviceId: 'vent-1', command: 'SET_SETPOINT', parameters: { point: 'output', value: 80 } }
+    ])
+    expect(result).toMatchObject({ facilities: 1, evaluated: 2, fired: 1, dispatched: 1, failed: 1, suppressed: 1 })
+
+    expect(executions.rows.map(e => [e.ruleId, e.status])).toEqual([['cooling', 'partial'], ['night-close', 'suppressed']])
+    expect(executions.rows[0].error).toBe('vent-1: No controller found')
+    expect(executions.rows[0].conditions).toEqual([{ met: true, value: 30 }])
+    expect(executions.rows[1].actions[0]).toMatchObject({ actuatorId: 'vent-1', level: 10, suppressedBy: 'cooling' })
+    expect(rules.rows.find(r => r.id === 'cooling')!.lastTriggered).toEqual(at('12:10'))
+    expect(rules.rows.find(r => r.id === 'night-close')!.lastTriggered).toBeNull()
+
+    dispatch.mockClear()
+    const again = await runAutomationCycle({ now: at('12:20'), dispatch, timeZone: 'UTC' })
+    // Cooling is cooling down, so the vent goes to the night rule this time
+    expect(dispatch.mock.calls.map(([command]) => command)).toEqual([
+      { deviceId: 'vent-1', command: 'SET_SETPOINT', parameters: { point: 'output', value: 10 } }
+    ])
+    // The dispatch failed, so the rule stays eligible for the next tick
+    expect(again).toMatchObject({ fired: 0, failed: 1 })
+    expect(executions.rows[2]).toMatchObject({ ruleId: 'night-close', status: 'failed' })
+    expect(rules.rows.find(r => r.id === 'night-close')!.lastTriggered).toBeNull()
+  })
+
+  it('skips invalid rules and does nothing while conditions are unmet', async () => {
+    rules.rows.push(storedRule('legacy', { conditions: {}, actions: {} }))
+    const dispatch = jest.fn()
+
+    const result = await runAutomationCycle({ now: at('08:00'), dispatch, timeZone: 'UTC' })
+
+    expect(dispatch).not.toHaveBeenCalled()
+    expect(executions.rows).toEqual([])
+    expect(result.invalidRules).toHaveLength(1)
+    expect(result.invalidRules[0]).toMatchObject({ ruleId: 'legacy' })
+    expect(result.invalidRules[0].errors[0]).toMatch(/^conditions:/)
+  })
+})
+
+describe('dryRunAutomation', () => {
+  it('replays a day of readings without dispatching or writing', async () => {
+    const result = await dryRunAutomation('fac-1', { from: at('00:00'), to: new Date(at('00:00').getTime() + 86_400_000), timeZone: 'UTC' })
+
+    expect(result.cycles).toBe(1440)
+    expect(executions.rows).toEqual([])
+    expect(rules.rows.every(rule => rule.lastTriggered === null)).toBe(true)
+
+    // Held above 28 °C for 5 minutes from 12:05; fires every 15 minute cooldown until 13:59
+    const coolingEpisodes = result.episodes.filter(e => e.ruleId === 'cooling')
+    expect(coolingEpisodes).toHaveLength(1)
+    expect(coolingEpisodes[0]).toMatchObject({ start: at('12:05'), end: at('13:50'), cycles: 8 })
+
+    expect(result.conflicts).toEqual([
+      // Only while the 11:00-13:00 window overlaps the cooling firings
+      expect.objectContaining({ actuatorId: 'vent-1', winnerId: 'cooling', loserId: 'night-close', cycles: 4, lastAt: at('12:50') })
+    ])
+    const vent = result.actuators.find(a => a.actuatorId === 'vent-1')!
+    expect(vent.changes.slice(0, 3)).toEqual([
+      { at: at('11:00'), level: 10, ruleId: 'night-close' },
+      { at: at('12:05'), level: 80, ruleId: 'cooling' },
+      { at: at('12:06'), level: 10, ruleId: 'night-close' }
+    ])
+    expect(result.staticConflicts).toEqual([
+      expect.objectContaining({ actuatorId: 'vent-1', severity: 'warning', winnerId: 'cooling' })
+    ])
+  })
+
+  it('replays draft rules in place of stored ones and reports invalid drafts', async () => {
+    const result = await dryRunAutomation('fac-1', {
+      from: at('00:00'),
+      to: at('23:59'),
+      stepMinutes: 5,
+      timeZone: 'UTC',
+      rules: [
+        {
+          id: 'cooling',
+          name: 'Cooling above 35',
+          priority: 10,
+          conditions: [{ type: 'sensor', parameter: 'temperature', operator: '>', value: 35, zone: 'Bay 1' }],
+          actions: cooling.actions
+        },
+        { name: 'Bad draft', conditions: [], actions: [] }
+      ]
+    })
+
+    expect(result.rules.find(r => r.id === 'cooling')!.firings).toBe(0)
+    expect(result.conflicts).toEqual([])
+    expect(result.invalidRules).toEqual([expect.objectContaining({ ruleId: 'draft-2', name: 'Bad draft' })])
+  })
+})
+
+describe('findRuleConflicts', () => {
+  it('reports opposing rules for the facility', async () => {
+    rules.rows.push(storedRule('fan-off', {
+      priority: 10,
+      conditions: [{ type: 'sensor', parameter: 'temperature', operator: '<', value: 30, zone: 'Bay 1' }],
+      actions: [{ actuatorId: 'fan-1', command: 'off' }]
+    }))
+    const { conflicts } = await findRuleConflicts('fac-1')
+    expect(conflicts.map(c => [c.actuatorId, c.severity])).toEqual([['vent-1', 'warning'], ['fan-1', 'error']])
+  })
+})
@@ -0,0 +1,243 @@
+import {
+  EnviInterleave,
+  bufferSource,
+  importEnviCube,
+  indexGrid,
+  otsuThreshold,
+  parseEnviHeader
+} from '@/lib/hyperspectral/envi-import'
+import { HyperspectralAnalyzer, SPECTRAL_INDICES } from '@/lib/hyperspectral/hyperspectral-analyzer'
+
+const WIDTH = 12
+const HEIGHT = 10
+const WAVELENGTHS = Array.from({ length: 61 }, (_, i) => 400 + i * 10)
+
+// Leaf: low visible, green bump, red edge to a high NIR plateau with a water dip
+function leaf(w: number) {
+  const edge = 1 / (1 + Math.exp(-(w - 715) / 12))
+  const green = 0.06 * Math.exp(-(((w - 550) / 30) ** 2))
+  const water = w > 940 ? 0.05 * Math.exp(-(((w - 970) / 20) ** 2)) : 0
+  return 0.04 + green + 0.46 * edge - water
+}
+
+// Soil: bright and slowly rising across the spectrum
+function soil(w: number) {
+  return 0.15 + 0.1 * (w - 400) / 600
+}
+
+const isPlant = (x: number, y: number) => (x - 6) ** 2 + (y - 5) ** 2 <= 9
+
+const whiteLevel = (x: number, b: number) => 3000 + 40 * x + 5 * b
+const darkLevel = (x: number, b: number) => 100 + 2 * x + b % 3
+
+const DATA_TYPES: Record<number, { bytes: number; write: (view: DataView, offset: number, value: number, little: boolean) => void }> = {
+  2: { bytes: 2, write: (v, o, x, le) => v.setInt16(o, Math.round(x), le) },
+  4: { bytes: 4, write: (v, o, x, le) => v.setFloat32(o, x, le) },
+  5: { bytes: 8, write: (v, o, x, le) => v.setFloat64(o, x, le) },
+  12: { bytes: 2, write: (v, o, x, le) => v.setUint16(o, Math.round(x), le) },
+  13: { bytes: 4, write: (v, o, x, le) => v.setUint32(o, Math.round(x), le) }
+}
+
+function encode(
+  value: (x: number, y: number, b: number) => number,
+  dims: { width: number; height: number; bands: number },
+  options: { interleave: EnviInterleave; dataType: number; byteOrder: 0 | 1; headerOffset?: number }
+) {
+  const { width, height, bands } = dims
+  const { bytes, write } = DATA_TYPES[options.dataType]
+  const headerOffset = options.headerOffset ?? 0
+  const buffer = new ArrayBuffer(headerOffset + width * height * bands * bytes)
+  const view = new DataView(buffer)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let b = 0; b < bands; b++) {
+        const index = options.interleave === 'bip'
+          ? (y * width + x) * bands + b
+          : options.interleave === 'bil'
+            ? (y * bands + b) * width + x
+            : (b * height + y) * width + x
+        write(view, headerOffset + index * bytes, value(x, y, b), options.byteOrder === 0)
+      }
+    }
+  }
+  const header = [
+    'ENVI',
+    'description = {Synthetic line-scan cube}',
+    `samples = ${width}`,
+    `lines = ${height}`,
+    `bands = ${bands}`,
+    `header offset = ${headerOffset}`,
+    `data type = ${options.dataType}`,
+    `interleave = ${options.interleave}`,
+    `byte order = ${options.byteOrder}`,
+    'wavelength units = Nanometers',
+    `wavelength = {${WAVELENGTHS.slice(0, bands).join(',\n ')}}`
+  ].join('\n')
+  return { header, source: bufferSource(buffer) }
+}
+
+const rawScene = (x: number, y: number, b: number) => {
+  const w = WAVELENGTHS[b]
+  const reflectance = isPlant(x, y) ? leaf(w) : soil(w)
+  return darkLevel(x, b) + reflectance * (whiteLevel(x, b) - darkLevel(x, b))
+}
+
+function references(options: { interleave: EnviInterleave; dataType: number; byteOrder: 0 | 1 }) {
+  const dims = { width: WIDTH, height: 4, bands: WAVELENGTHS.length }
+  return {
+    white: encode((x, _y, b) => whiteLevel(x, b), dims, options),
+    dark: encode((x, _y, b) => darkLevel(x, b), dims, options)
+  }
+}
+
+describe('parseEnviHeader', () => {
+  it('reads multi-line brace lists and converts micrometres to nm', () => {
+    const header = parseEnviHeader([
+      'ENVI',
+      'samples = 1024',
+      'lines   = 2000',
+      'bands = 3',
+      'header offset = 0',
+      'data type = 12',
+      'interleave = BIL',
+      'byte order = 1',
+      'wavelength units = Micrometers',
+      'wavelength = { 0.4000,',
+      '  0.6705 , 0.8001 }',
+      'fwhm = {0.005, 0.005, 0.005}',
+      'reflectance scale factor = 10000',
+      'band names = {Band 1, Band 2, Band 3}'
+    ].join('\r\n'))
+
+    expect(header).toMatchObject({ samples: 1024, lines: 2000, bands: 3, dataType: 12, interleave: 'bil', byteOrder: 1 })
+    expect(header.wavelengths[0]).toBeCloseTo(400)
+    expect(header.wavelengths[2]).toBeCloseTo(800.1)
+    expect(header.fwhm?.[1]).toBeCloseTo(5)
+    expect(header.reflectanceScaleFactor).toBe(10000)
+    expect(header.bandNames).toEqual(['Band 1', 'Band 2', 'Band 3'])
+  })
+
+  it('rejects non-ENVI headers and unsupported data types', () => {
+    expect(() => parseEnviHeader('samples = 1')).toThrow('Not an ENVI header')
+    expect(() => parseEnviHeader('ENVI\nsamples = 1\nlines = 1\nbands = 1\ndata type = 6')).toThrow('Unsupported ENVI data type 6')
+  })
+})
+
+describe('importEnviCube', () => {
+  const layouts: { interleave: EnviInterleave; dataType: number; byteOrder: 0 | 1 }[] = [
+    { interleave: 'bsq', dataType: 12, byteOrder: 1 },
+    { interleave: 'bil', dataType: 2, byteOrder: 0 },
+    { interleave: 'bip', dataType: 4, byteOrder: 1 },
+    { interleave: 'bil', dataType: 13, byteOrder: 1 },
+    { interleave: 'bsq', dataType: 5, byteOrder: 0 }
+  ]
+
+  it.each(layouts)('calibrates %o cubes to the same reflectance and index maps', async layout => {
+    const dims = { width: WIDTH, height: HEIGHT, bands: WAVELENGTHS.length }
+    const cube = encode(rawScene, dims, { ...layout, headerOffset: 16 })
+    const result = await importEnviCube(cube.header, cube.source, {
+      references: references(layout),
+      tileLines: 3
+    })
+
+    expect(result.tiles).toBe(4)
+    expect(result.warnings).toEqual([])
+
+    const leafNdvi = SPECTRAL_INDICES.NDVI.compute([leaf(800), leaf(670)])
+    const soilNdvi = SPECTRAL_INDICES.NDVI.compute([soil(800), soil(670)])
+    const ndvi = result.indices.NDVI!
+    // Integer types round the raw counts, so allow quantisation error
+    expect(ndvi[5 * WIDTH + 6]).toBeCloseTo(leafNdvi, 2)
+    expect(ndvi[0]).toBeCloseTo(soilNdvi, 2)
+
+    for (let y = 0; y < HEIGHT; y++) {
+      for (let x = 0; x < WIDTH; x++) {
+        expect(result.mask[y * WIDTH + x]).toBe(isPlant(x, y) ? 1 : 0)
+      }
+    }
+    expect(result.plantFraction).toBeCloseTo(29 / (WIDTH * HEIGHT))
+    expect(result.statistics.NDVI!.pixels).toBe(29)
+    expect(result.statistics.NDVI!.mean).toBeCloseTo(leafNdvi, 2)
+    expect(result.statistics.WBI!.mean).toBeGreaterThan(1)
+  })
+
+  it('segments with Otsu in a separate pass and reports progress', async () => {
+    const dims = { width: WIDTH, height: HEIGHT, bands: WAVELENGTHS.length }
+    const layout = { interleave: 'bip' as const, dataType: 12, byteOrder: 0 as const }
+    const cube = encode(rawScene, dims, layout)
+    const progress: number[] = []
+    const result = await importEnviCube(cube.header, cube.source, {
+      references: references(layout),
+      segmentation: 'otsu',
+      tileLines: 5,
+      onProgress: p => progress.push(p.pass * 100 + p.linesDone)
+    })
+
+    expect(progress).toEqual([105, 110, 205, 210])
+    expect(result.ndviThreshold).toBeGreaterThan(0.1)
+    expect(result.ndviThreshold).toBeLessThan(0.8)
+    expect(result.statistics.NDVI!.pixels).toBe(29)
+  })
+
+  it('bins plant spectra into cells the analyzer can map and assess', async () => {
+    const dims = { width: WIDTH, height: HEIGHT, bands: WAVELENGTHS.length }
+    const layout = { interleave: 'bsq' as const, dataType: 4, byteOrder: 0 as const }
+    const cube = encode(rawScene, dims, layout)
+    const result = await importEnviCube(cube.header, cube.source, {
+      references: references(layout),
+      binSize: 4,
+      temperature: 24,
+      humidity: 65
+    })
+
+    expect(result.gridWidth).toBe(3)
+    expect(result.gridHeight).toBe(3)
+    expect(result.cells.every(cell => cell.coordinates!.x < 3 && cell.coordinates!.y < 3)).toBe(true)
+    // Only plant pixels are averaged, so each cell carries a pure leaf spectrum
+    const red = result.cells[0].bands.find(band => band.wavelength === 670)!
+    expect(red.reflectance).toBeCloseTo(leaf(670), 4)
+
+    const analyzer = new HyperspectralAnalyzer()
+    const map = analyzer.generateHyperspectralMap(result.cells, result.gridWidth, result.gridHeight, 'NDVI')
+    expect(map[1][1]).toBeCloseTo(result.statistics.NDVI!.mean, 3)
+    expect(analyzer.detectStress(result.cells[0]).length).toBeGreaterThanOrEqual(0)
+
+    const grid = indexGrid(result, 'NDVI')
+    expect(grid[1][1]).toBeCloseTo(map[1][1], 3)
+    expect(grid[0][0]).toBe(0)
+  })
+
+  it('falls back to the reflectance scale factor and flags missing bands', async () => {
+    const bands = 31 // 400-700 nm only
+    const dims = { width: 4, height: 3, bands }
+    const layout = { interleave: 'bip' as const, dataType: 12, byteOrder: 0 as const }
+    const cube = encode((_x, _y, b) => soil(WAVELENGTHS[b]) * 10000, dims, layout)
+    const header = parseEnviHeader(cube.header + '\nreflectance scale factor = 10000')
+    const result = await importEnviCube(header, cube.source, { indices: ['NDVI', 'ARI'] })
+
+    expect(result.indices.NDVI!.every(v => Number.isNaN(v))).toBe(true)
+    expect(result.indices.ARI![0]).toBeCloseTo(1 / soil(550) - 1 / soil(700), 3)
+    expect(result.warnings.some(w => w.startsWith('NDVI needs'))).toBe(true)
+    expect(result.plantFraction).toBe(0)
+  })
+
+  it('rejects truncated data and mismatched references', async () => {
+    const dims = { width: WIDTH, height: HEIGHT, bands: WAVELENGTHS.length }
+    const layout = { interleave: 'bil' as const, dataType: 12, byteOrder: 0 as const }
+    const cube = encode(rawScene, dims, layout)
+    await expect(importEnviCube(cube.header, bufferSource(new Uint8Array(100)))).rejects.toThrow('header describes')
+
+    const narrow = encode(() => 3000, { width: 5, height: 2, bands: WAVELENGTHS.length }, layout)
+    await expect(importEnviCube(cube.header, cube.source, { references: { white: narrow } }))
+      .rejects.toThrow('White reference has 5 samples')
+  })
+})
+
+describe('otsuThreshold', () => {
+  it('splits a bimodal distribution between its modes', () => {
+    const values = [...Array(50).fill(0.1), ...Array(50).fill(0.8)]
+    const threshold = otsuThreshold(values)
+    expect(threshold).toBeGreaterThan(0.1)
+    expect(threshold).toBeLessThanOrEqual(0.8)
+  })
+})
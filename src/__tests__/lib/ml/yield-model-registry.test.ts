@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Yield Model Registry Tests
+ * Training runs over stored rows, champion promotion by CV RMSE and
+ * predictions served from the deployed artifact
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  loadChampionYieldModel,
+  predictYieldWithChampion,
+  registerYieldModel,
+  trainYieldModelRun
+} from '@/lib/ml/yield-model-registry'
+import { YieldModelTrainer } from '@/lib/ml/yield-model-training'
+import { MemoryRow, MemoryWhere, memoryTable } from '@/tests/memory-prisma'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+jest.mock('@/lib/logging/production-logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}))
+
+let stamp = 0
+
+interface ModelRow extends MemoryRow {
+  id: string
+  version: string
+  status: string
+  metrics: { rmse: number }
+  artifact: { kind: string; featureNames: string[] }
+}
+
+const models = memoryTable<ModelRow>('model', () => ({ createdAt: new Date(), updatedAt: new Date(++stamp) }))
+const runs = memoryTable<MemoryRow>('run', () => ({ startedAt: new Date() }))
+const trainingData = memoryTable<ReturnType<typeof storedRows>[number]>('row')
+
+const modelRow = (id: string) => models.rows.find(row => row.id === id)!
+const runRow = (id: string) => runs.rows.find(row => row.id === id)
+
+Object.assign(prisma, {
+  modelRegistry: {
+    ...models,
+    // Stamps @updatedAt, which the champion cache keys on
+    update: jest.fn(async ({ where, data }: { where: MemoryWhere; data: MemoryRow }) =>
+      models.update({ where, data: { ...data, updatedAt: new Date(++stamp) } }))
+  },
+  modelTrainingRun: runs,
+  yieldTrainingData: trainingData
+})
+
+const storedRows = (samples: number, seed: number) =>
+  YieldModelTrainer.generateSyntheticData(samples, seed).map((sample, i) => ({
+    id: `row-${i}`,
+    ...sample.inputs,
+    ec: 1.8,
+    ph: 6,
+    growthStage: i % 2 ? 'Flowering' : 'Vegetative',
+    actualYield: sample.output.yield,
+    qualityScore: 0.9,
+    createdAt: new Date(i)
+  }))
+
+async function pendingRun() {
+  const model = await prisma.modelRegistry.create({ data: { name: 'yield', version: 'v1', type: 'yield', status: 'ready' } })
+  return prisma.modelTrainingRun.create({ data: { modelId: model.id, status: 'running' } })
+}
+
+beforeEach(() => {
+  models.clear()
+  runs.clear()
+  trainingData.clear()
+  trainingData.rows.push(...storedRows(200, 4))
+})
+
+describe('yield model registry', () => {
+  it('trains a pending run, stores the artifact and deploys the first champion', async () => {
+    const run = await pendingRun()
+    const result = await trainYieldModelRun(run.id, { folds: 4, seed: 1 })
+
+    expect(result.champion).toBe(true)
+    const model = modelRow(run.modelId)
+    expect(model.status).toBe('deployed')
+    expect(model.metrics.rmse).toBe(result.metrics.rmse)
+    expect(model.artifact.featureNames).toContain('stage_vegetative')
+    expect(runRow(run.id)).toMatchObject({ status: 'completed', metrics: { kind: model.artifact.kind, samples: 200 } })
+
+    const [prediction] = await predictYieldWithChampion([{ ...trainingData.rows[0], growthStage: 'Vegetative' }])
+    expect(prediction.lower).toBeLessThan(prediction.yield)
+    expect(prediction.upper).toBeGreaterThan(prediction.yield)
+    expect(await loadChampionYieldModel()).toBe(await loadChampionYieldModel())
+  })
+
+  it('promotes a later training run only when its CV RMSE is lower', async () => {
+    const first = await trainYieldModelRun((await pendingRun()).id, { folds: 4, seed: 1 })
+
+    trainingData.clear()
+    trainingData.rows.push(...storedRows(40, 8).map(row => ({ ...row, actualYield: row.actualYield * 3 })))
+    const noisier = await trainYieldModelRun((await pendingRun()).id, { folds: 4, seed: 1 })
+    expect(noisier.metrics.rmse).toBeGreaterThan(first.metrics.rmse)
+    expect(noisier.champion).toBe(false)
+    expect(modelRow(first.modelId).status).toBe('deployed')
+    expect(modelRow(noisier.modelId).status).toBe('ready')
+
+    trainingData.clear()
+    trainingData.rows.push(...storedRows(200, 4).map(row => ({ ...row, actualYield: row.actualYield / 2 })))
+    const tighter = await trainYieldModelRun((await pendingRun()).id, { folds: 4, seed: 1 })
+    expect(tighter.metrics.rmse).toBeLessThan(first.metrics.rmse)
+    expect(tighter.champion).toBe(true)
+    expect(modelRow(first.modelId).status).toBe('ready')
+    expect((await loadChampionYieldModel())!.getArtifact()!.samples).toBe(200)
+  })
+
+  it('registers uploaded artifacts as candidates without promoting them', async () => {
+    const first = await trainYieldModelRun((await pendingRun()).id, { folds: 4, seed: 1 })
+
+    const uploaded = await new YieldModelTrainer().train(
+      YieldModelTrainer.generateSyntheticData(40, 8), { folds: 4, candidates: ['ridge'] })
+    const claimed = await registerYieldModel({ ...uploaded.artifact, metrics: { ...uploaded.artifact.metrics, rmse: 0 } })
+    expect(claimed.champion).toBe(false)
+    expect(modelRow(claimed.modelId)).toMatchObject({ version: 'v1', status: 'ready' })
+    expect(modelRow(first.modelId).status).toBe('deployed')
+
+    const second = await registerYieldModel(uploaded.artifact)
+    expect(modelRow(second.modelId).version).toBe('v2')
+  })
+
+  it('rejects malformed artifacts before storing them', async () => {
+    const { artifact } = await new YieldModelTrainer().train(
+      YieldModelTrainer.generateSyntheticData(40, 8), { folds: 4, candidates: ['ridge'] })
+    const register = (value: unknown) => registerYieldModel(value as typeof artifact)
+
+    await expect(register({ format: 'vibelux-yield-model', metrics: { rmse: 0 } })).rejects.toThrow('Unsupported yield model artifact')
+    await expect(register({ ...artifact, metrics: { rmse: 'NaN' } })).rejects.toThrow('Unsupported yield model artifact')
+    await expect(register({ ...artifact, model: { kind: 'linear' } })).rejects.toThrow('cannot produce predictions')
+    expect(models.rows).toHaveLength(0)
+    expect(runs.rows).toHaveLength(0)
+  })
+
+  it('marks the run failed when there is too little data', async () => {
+    trainingData.clear()
+    trainingData.rows.push(...storedRows(5, 4))
+    const run = await pendingRun()
+
+    await expect(trainYieldModelRun(run.id)).rejects.toThrow('At least 10 samples')
+    expect(modelRow(run.modelId).status).toBe('failed')
+    expect(runRow(run.id)).toMatchObject({ status: 'failed', metrics: { error: expect.stringContaining('At least 10') } })
+    await expect(predictYieldWithChampion([trainingData.rows[0]])).rejects.toThrow('No deployed yield model')
+  })
+})
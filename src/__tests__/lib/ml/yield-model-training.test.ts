@@ -0,0 +1,123 @@
+/**
+ * Yield Model Training Tests
+ * Seeded regressors, k-fold cross-validation, early stopping, champion selection,
+ * artifact round trips and prediction intervals
+ */
+
+import {
+  createRandom,
+  fitBoostedTrees,
+  fitLinearModel,
+  kFoldSplits,
+  predictRegression,
+  regressionMetrics
+} from '@/lib/ml/regression-models'
+import { YieldModelTrainer } from '@/lib/ml/yield-model-training'
+
+const nonlinear = (n: number, seed: number) => {
+  const random = createRandom(seed)
+  const X = Array.from({ length: n }, () => [random() * 4 - 2, random() * 4 - 2, random()])
+  const y = X.map(([a, b]) => Math.sin(2 * a) + (b > 0 ? 1 : -1) + 0.05 * (random() - 0.5))
+  return { X, y }
+}
+
+describe('regression models', () => {
+  it('recovers linear coefficients and shrinks them with the penalty', () => {
+    const random = createRandom(7)
+    const X = Array.from({ length: 200 }, () => [random(), random(), random()])
+    const y = X.map(([a, b]) => 3 + 2 * a - b)
+
+    const ols = fitLinearModel(X, y, { alpha: 0, l1Ratio: 0 })
+    expect(predictRegression(ols, [0.5, 0.5, 0.5])).toBeCloseTo(3.5, 4)
+    expect(Math.abs(ols.coefficients[2])).toBeLessThan(1e-6)
+
+    const lasso = fitLinearModel(X, y, { alpha: 0.1, l1Ratio: 1 })
+    const ridge = fitLinearModel(X, y, { alpha: 1, l1Ratio: 0 })
+    expect(lasso.coefficients[2]).toBe(0)
+    expect(Math.abs(ridge.coefficients[0])).toBeLessThan(Math.abs(ols.coefficients[0]))
+  })
+
+  it('fits nonlinear data with boosting and stops early on the holdout', () => {
+    const train = nonlinear(400, 1)
+    const test = nonlinear(200, 2)
+    const params = { nEstimators: 2000, learningRate: 0.2, maxDepth: 3, minSamplesLeaf: 3, subsample: 0.8, earlyStoppingRounds: 20, validationFraction: 0.2, seed: 5 }
+
+    const boosted = fitBoostedTrees(train.X, train.y, params)
+    expect(boosted.trainLoss.length).toBeLessThan(2000)
+    expect(boosted.trees).toHaveLength(boosted.bestIteration)
+    expect(boosted.validationLoss[boosted.bestIteration - 1]).toBe(Math.min(...boosted.validationLoss))
+
+    const linear = fitLinearModel(train.X, train.y, { alpha: 0.01, l1Ratio: 0.5 })
+    const boostedMetrics = regressionMetrics(test.y, test.X.map(row => predictRegression(boosted, row)))
+    const linearMetrics = regressionMetrics(test.y, test.X.map(row => predictRegression(linear, row)))
+    expect(boostedMetrics.r2).toBeGreaterThan(0.9)
+    expect(boostedMetrics.rmse).toBeLessThan(linearMetrics.rmse / 2)
+
+    // Same seed, same trees; artifacts survive JSON
+    expect(fitBoostedTrees(train.X, train.y, params)).toEqual(boosted)
+    const restored = JSON.parse(JSON.stringify(boosted))
+    expect(predictRegression(restored, test.X[0])).toBe(predictRegression(boosted, test.X[0]))
+  })
+
+  it('splits folds that partition the rows', () => {
+    const splits = kFoldSplits(23, 5, 3)
+    const tested = splits.flatMap(split => split.test).sort((a, b) => a - b)
+    expect(tested).toEqual(Array.from({ length: 23 }, (_, i) => i))
+    for (const split of splits) expect(split.train.length + split.test.length).toBe(23)
+    expect(kFoldSplits(23, 5, 3)).toEqual(splits)
+    expect(() => kFoldSplits(3, 5, 1)).toThrow('Cannot split 3 samples into 5 folds')
+  })
+})
+
+describe('YieldModelTrainer', () => {
+  const data = YieldModelTrainer.generateSyntheticData(400, 11)
+  const holdout = YieldModelTrainer.generateSyntheticData(200, 12)
+
+  it('cross-validates the candidates and keeps the boosted champion', async () => {
+    const steps: number[] = []
+    const trainer = new YieldModelTrainer()
+    const trained = await trainer.train(data, { folds: 4, seed: 3, callbacks: { onFoldEnd: step => steps.push(step) } })
+
+    expect(steps).toEqual(Array.from({ length: 12 }, (_, i) => i))
+    expect(trained.metadata.candidates.map(c => c.kind)).toEqual(['gradient-boosting', 'ridge', 'elastic-net'])
+    expect(trained.metadata.kind).toBe('gradient-boosting')
+    const ridge = trained.metadata.candidates.find(c => c.kind === 'ridge')!
+    expect(trained.metadata.metrics.rmse).toBeLessThan(ridge.cv.rmse)
+    expect(trained.metadata.metrics.r2Score).toBeGreaterThan(0.8)
+    expect(trained.artifact.foldModels).toHaveLength(4)
+    expect(trained.artifact.featureNames).toContain('Gelato_encoded')
+
+    const predicted = holdout.map(sample => trainer.predict(sample.inputs))
+    expect(regressionMetrics(holdout.map(sample => sample.output.yield), predicted).r2).toBeGreaterThan(0.8)
+  })
+
+  it('is reproducible and reloads from its serialized artifact', async () => {
+    const first = await new YieldModelTrainer().train(data, { folds: 3, seed: 9 })
+    const second = await new YieldModelTrainer().train(data, { folds: 3, seed: 9 })
+    expect({ ...second.artifact, trainedAt: '' }).toEqual({ ...first.artifact, trainedAt: '' })
+
+    const reloaded = new YieldModelTrainer(JSON.parse(JSON.stringify(first.artifact)))
+    const original = new YieldModelTrainer(first.artifact)
+    expect(reloaded.predictWithInterval(holdout[0].inputs)).toEqual(original.predictWithInterval(holdout[0].inputs))
+    expect(() => new YieldModelTrainer({ ...first.artifact, version: 2 } as never)).toThrow('Unsupported yield model artifact')
+  })
+
+  it('brackets held-out yields with its confidence intervals', async () => {
+    const trainer = new YieldModelTrainer()
+    await trainer.train(data, { folds: 4, seed: 3 })
+
+    const intervals = trainer.predictBatch(holdout.map(sample => sample.inputs), 0.9)
+    const covered = intervals.filter((p, i) => p.lower <= holdout[i].output.yield && holdout[i].output.yield <= p.upper).length
+    expect(covered / holdout.length).toBeGreaterThan(0.8)
+    expect(covered / holdout.length).toBeLessThan(0.99)
+
+    const narrow = trainer.predictWithInterval(holdout[0].inputs, 0.5)
+    expect(narrow.upper - narrow.lower).toBeLessThan(intervals[0].upper - intervals[0].lower)
+    expect(narrow.yield).toBe(intervals[0].yield)
+  })
+
+  it('refuses to predict untrained or to cross-validate too few rows', async () => {
+    expect(() => new YieldModelTrainer().predict(data[0].inputs)).toThrow('Yield model has not been trained or loaded')
+    await expect(new YieldModelTrainer().train(data.slice(0, 6), { folds: 5 })).rejects.toThrow('At least 10 samples')
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * EULUMDAT Reader / Writer Tests
+ */
+
+import { parseLDT, writeLDT, parseLDTFile, parsedIESToEulumdat } from '@/lib/photometric/eulumdat'
+import { exportParsedIES } from '@/lib/photometric/ies-exporter'
+import {
+  convertIESToLDT,
+  convertLDTToIES,
+  detectPhotometricFormat,
+  parsePhotometricFile
+} from '@/lib/photometric/photometric-file'
+import { parseIESFile } from '@/lib/ies-parser'
+
+const GAMMA = [0, 15, 30, 45, 60, 75, 90]
+
+// Quadrant-symmetric (Isym 4) bar fixture: C0, C30, C60, C90 stored
+function buildQuadrantLDT(): string {
+  const planes = [
+    [400, 380, 320, 230, 130, 40, 0],
+    [400, 370, 300, 210, 110, 30, 0],
+    [400, 360, 290, 190, 95, 25, 0],
+    [400, 350, 270, 170, 80, 20, 0]
+  ]
+  return [
+    'Acme Horticulture',
+    '3',
+    '4',
+    '12',
+    '30',
+    String(GAMMA.length),
+    '15',
+    'LAB-2024-117',
+    'Acme TopLight 680',
+    'ATL-680-EU',
+    'ATL680.ldt',
+    '2024-05-01 / QA',
+    '1200',
+    '1100',
+    '80',
+    '1150',
+    '1050',
+    '0', '0', '0', '0',
+    '100',
+    '100',
+    '1',
+    '0',
+    '2',
+    '1',
+    'LED module',
+    '1870,5',
+    '4000',
+    '80',
+    '680',
+    '2',
+    'LED module (dimmed)',
+    '1200',
+    '4000',
+    '80',
+    '450',
+    '0.51', '0.58', '0.63', '0.69', '0.73', '0.79', '0.83', '0.86', '0.9', '0.92',
+    ...Array.from({ length: 12 }, (_, i) => String(i * 30)),
+    ...GAMMA.map(String),
+    ...planes.flat().map(String)
+  ].join('\r\n')
+}
+
+describe('EULUMDAT', () => {
+  describe('parseLDT', () => {
+    it('should read header fields, lamp sets and direct ratios', () => {
+      const ldt = parseLDT(buildQuadrantLDT())
+
+      expect(ldt.companyIdentification).toBe('Acme Horticulture')
+      expect(ldt.symmetry).toBe(4)
+      expect(ldt.numberOfCPlanes).toBe(12)
+      expect(ldt.lampSets).toHaveLength(2)
+      expect(ldt.lampSets[0].totalFlux).toBe(1870.5)
+      expect(ldt.lampSets[1].lampType).toBe('LED module (dimmed)')
+      expect(ldt.directRatios).toHaveLength(10)
+      expect(ldt.directRatios[9]).toBe(0.92)
+      expect(ldt.intensities).toHaveLength(4)
+    })
+
+    it('should reject truncated intensity tables', () => {
+      const content = buildQuadrantLDT().split('\r\n').slice(0, -3).join('\r\n')
+      expect(() => parseLDT(content)).toThrow(/Expected 28 intensities/)
+    })
+  })
+
+  describe('parseLDTFile', () => {
+    it('should produce absolute Type C photometry in the IES structure', () => {
+      const parsed = parseLDTFile(buildQuadrantLDT())
+
+      expect(parsed.metadata.photometricType).toBe(1)
+      expect(parsed.photometry.horizontalAngles).toEqual([0, 30, 60, 90])
+      expect(parsed.photometry.verticalAngles).toEqual(GAMMA)
+      // 400 cd/klm at nadir scaled by 1870.5 lm of the primary lamp set
+      expect(parsed.photometry.candela[0][0]).toBeCloseTo(748.2, 6)
+      expect(parsed.metadata.inputWatts).toBe(680)
+    })
+
+    it('should unfold Isym 3 files stored from C270 through C90', () => {
+      const ldt = parseLDT(buildQuadrantLDT())
+      ldt.symmetry = 3
+      ldt.intensities = Array.from({ length: 7 }, (_, i) => GAMMA.map(() => 100 + i))
+      const parsed = parseLDTFile(writeLDT(ldt))
+
+      expect(parsed.photometry.horizontalAngles).toEqual([90, 120, 150, 180, 210, 240, 270])
+      // C90 is the last stored plane (index 6) and C180 mirrors C0 (index 3)
+      expect(parsed.photometry.candela[0][0]).toBeCloseTo(106 * 1.8705, 6)
+      expect(parsed.photometry.candela[3][0]).toBeCloseTo(103 * 1.8705, 6)
+    })
+  })
+
+  describe('conversion', () => {
+    it('should round-trip LDT -> IES -> LDT without losing data', () => {
+      const original = parseLDT(buildQuadrantLDT())
+      const roundTripped = parseLDT(convertIESToLDT(convertLDTToIES(buildQuadrantLDT())))
+
+      expect(roundTripped.symmetry).toBe(original.symmetry)
+      expect(roundTripped.cAngles).toEqual(original.cAngles)
+      expect(roundTripped.gammaAngles).toEqual(original.gammaAngles)
+      expect(roundTripped.lampSets).toEqual(original.lampSets)
+      expect(roundTripped.directRatios).toEqual(original.directRatios)
+      expect(roundTripped.luminousAreaLength).toBe(original.luminousAreaLength)
+      roundTripped.intensities.forEach((plane, c) => {
+        plane.forEach((value, g) => expect(value).toBeCloseTo(original.intensities[c][g], 2))
+      })
+    })
+
+    it('should round-trip IES -> LDT -> IES candela values', () => {
+      const ies = [
+        'IESNA:LM-63-2002',
+        '[TEST] T-1',
+        '[MANUFAC] Acme',
+        '[LUMINAIRE] Round Downlight',
+        'TILT=NONE',
+        '1 -1 1 5 1 1 2 -0.2 -0.2 0',
+        '1 1 120',
+        '0 22.5 45 67.5 90',
+        '0',
+        '900 820 600 250 0'
+      ].join('\n')
+      const parsed = parseIESFile(ies)
+      const back = parsePhotometricFile(convertLDTToIES(convertIESToLDT(ies)), 'back.ies')
+
+      expect(back.metadata.luminousWidth).toBeCloseTo(-0.2, 6)
+      expect(back.photometry.horizontalAngles).toEqual([0])
+      back.photometry.candela[0].forEach((value, v) => {
+        expect(value).toBeCloseTo(parsed.photometry.candela[0][v], 2)
+      })
+    })
+
+    it('should derive LORL and direct ratios for plain IES sources', () => {
+      const parsed = parseLDTFile(buildQuadrantLDT())
+      parsed.header.keywords = {}
+      const ldt = parsedIESToEulumdat(parsed)
+
+      expect(ldt.directRatios).toHaveLength(10)
+      for (let i = 1; i < ldt.directRatios.length; i++) {
+        expect(ldt.directRatios[i]).toBeGreaterThanOrEqual(ldt.directRatios[i - 1])
+      }
+      expect(ldt.downwardFluxFraction).toBeCloseTo(100, 0)
+      expect(exportParsedIES(parsed)).toContain('TILT=NONE')
+    })
+  })
+
+  describe('detectPhotometricFormat', () => {
+    it('should detect formats by extension and by content', () => {
+      expect(detectPhotometricFormat('', 'fixture.LDT')).toBe('ldt')
+      expect(detectPhotometricFormat(buildQuadrantLDT())).toBe('ldt')
+      expect(detectPhotometricFormat('IESNA:LM-63-2002\nTILT=NONE')).toBe('ies')
+    })
+  })
+})
@@ -0,0 +1,183 @@
+/**
+ * IES TILT and Photometric Type Tests
+ */
+
+import path from 'path'
+import { parseIESFile } from '@/lib/ies-parser'
+import { convertToTypeC, validateAngleTables } from '@/lib/photometric/photometric-geometry'
+import { calculatePPFD } from '@/lib/ppfd-calculations'
+import { calculateAdvancedPPFDGrid } from '@/lib/ppfd-calculations-advanced'
+
+// The shared setup mocks fs, so fixtures are read through the real module
+const fs = jest.requireActual<typeof import('fs')>('fs')
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8')
+
+// Picks the Type C sample at exact grid angles
+function candelaAt(parsed: ReturnType<typeof parseIESFile>, c: number, gamma: number): number {
+  const h = parsed.photometry.horizontalAngles.indexOf(c)
+  const v = parsed.photometry.verticalAngles.indexOf(gamma)
+  return parsed.photometry.candela[h][v]
+}
+
+describe('IES photometric types', () => {
+  describe('TILT=INCLUDE', () => {
+    it('should read the tilt block and leave the photometric header aligned', () => {
+      const parsed = parseIESFile(readFixture('type-c-tilt-include.ies'))
+
+      expect(parsed.metadata.tilt).toEqual({
+        lampToLuminaireGeometry: 1,
+        angles: [0, 15, 30, 45, 60, 75, 90],
+        multipliers: [1, 0.98, 0.95, 0.9, 0.85, 0.8, 0.75],
+        appliedMultiplier: 1
+      })
+      expect(parsed.metadata.numberOfVerticalAngles).toBe(7)
+      expect(parsed.metadata.inputWatts).toBe(150)
+      expect(parsed.photometry.candela[0][0]).toBe(1000)
+    })
+
+    it('should apply the multiplier for the installed tilt', () => {
+      const parsed = parseIESFile(readFixture('type-c-tilt-include.ies'), { installationTilt: 30 })
+
+      expect(parsed.metadata.tilt?.appliedMultiplier).toBeCloseTo(0.95, 6)
+      expect(parsed.photometry.candela[0][0]).toBeCloseTo(950, 6)
+    })
+
+    it('should interpolate between tilt angles', () => {
+      const parsed = parseIESFile(readFixture('type-c-tilt-include.ies'), { installationTilt: 37.5 })
+      expect(parsed.metadata.tilt?.appliedMultiplier).toBeCloseTo(0.925, 6)
+    })
+
+    it('should apply the installation tilt to geometry 2 lamps', () => {
+      const content = readFixture('type-c-tilt-include.ies').replace('TILT=INCLUDE\r\n1\r\n', 'TILT=INCLUDE\r\n2\r\n')
+      const parsed = parseIESFile(content, { installationTilt: 60 })
+      expect(parsed.metadata.tilt?.lampToLuminaireGeometry).toBe(2)
+      expect(parsed.metadata.tilt?.appliedMultiplier).toBeCloseTo(0.85, 6)
+      expect(parsed.photometry.candela[0][0]).toBeCloseTo(850, 6)
+    })
+
+    it('should reject truncated tilt blocks', () => {
+      const content = readFixture('type-c-tilt-include.ies').replace('1 0.98 0.95 0.9 0.85 0.8 0.75\r\n', '')
+      expect(() => parseIESFile(content)).toThrow(/TILT|Angle|angles/)
+    })
+
+    it('should warn when tilt data lives in an external file', () => {
+      const content = readFixture('type-c-tilt-include.ies')
+        .replace('TILT=INCLUDE\r\n1\r\n7\r\n0 15 30 45 60 75 90\r\n1 0.98 0.95 0.9 0.85 0.8 0.75\r\n', 'TILT=lamp.tlt\r\n')
+      const parsed = parseIESFile(content)
+      expect(parsed.warnings).toEqual([expect.stringContaining('lamp.tlt')])
+    })
+  })
+
+  describe('Type B conversion', () => {
+    it('should resample a Lambertian toplight into the Type C frame', () => {
+      const parsed = parseIESFile(readFixture('type-b-linear-toplight.ies'))
+
+      expect(parsed.metadata.sourcePhotometricType).toBe(2)
+      expect(parsed.metadata.photometricType).toBe(1)
+      expect(parsed.photometry.horizontalAngles[0]).toBe(0)
+      expect(parsed.photometry.horizontalAngles[parsed.photometry.horizontalAngles.length - 1]).toBe(360)
+      expect(candelaAt(parsed, 0, 0)).toBeCloseTo(1000, 6)
+      expect(candelaAt(parsed, 0, 60)).toBeCloseTo(500, 6)
+      expect(candelaAt(parsed, 90, 60)).toBeCloseTo(500, 6)
+      expect(candelaAt(parsed, 0, 120)).toBe(0)
+    })
+
+    it('should keep the source frame when conversion is disabled', () => {
+      const parsed = parseIESFile(readFixture('type-b-linear-toplight.ies'), { convertToTypeC: false })
+      expect(parsed.metadata.photometricType).toBe(2)
+      expect(parsed.photometry.horizontalAngles).toHaveLength(13)
+    })
+  })
+
+  describe('Type A conversion', () => {
+    it('should resample a Lambertian inter-light into the Type C frame', () => {
+      const parsed = parseIESFile(readFixture('type-a-inter-light.ies'))
+
+      expect(parsed.metadata.sourcePhotometricType).toBe(3)
+      expect(candelaAt(parsed, 0, 0)).toBeCloseTo(1000, 6)
+      expect(candelaAt(parsed, 180, 60)).toBeCloseTo(500, 6)
+      expect(candelaAt(parsed, 270, 60)).toBeCloseTo(500, 6)
+    })
+
+    it('should place off-axis peaks differently for Type A and Type B', () => {
+      const grid = [-90, -75, -60, -45, -30, -15, 0, 15, 30, 45, 60, 75, 90]
+      const hotSpot = grid.map(h => grid.map(v => (h === 45 && v === 45 ? 1000 : 0)))
+      const peakC = (type: number) => {
+        const result = convertToTypeC(type, grid, grid, hotSpot)
+        let best = { c: 0, value: 0 }
+        result.candela.forEach((plane, i) => plane.forEach(value => {
+          if (value > best.value) best = { c: result.horizontalAngles[i], value }
+        }))
+        return best.c
+      }
+
+      // (45°, 45°) lies at C ≈ 54.7° in Type B and C ≈ 35.3° in Type A
+      expect(peakC(2)).toBeGreaterThanOrEqual(50)
+      expect(peakC(2)).toBeLessThanOrEqual(60)
+      expect(peakC(3)).toBeGreaterThanOrEqual(30)
+      expect(peakC(3)).toBeLessThanOrEqual(40)
+    })
+  })
+
+  describe('angle table validation', () => {
+    it('should reject descending vertical angles', () => {
+      const content = readFixture('type-c-tilt-include.ies').replace('\r\n0 15 30 45 60 75 90\r\n0 90', '\r\n0 15 45 30 60 75 90\r\n0 90')
+      expect(() => parseIESFile(content)).toThrow(/strictly ascending/)
+    })
+
+    it('should reject Type C vertical angles beyond 180°', () => {
+      expect(validateAngleTables(1, [0], [0, 90, 200]).errors).toHaveLength(1)
+    })
+
+    it('should reject Type B angles outside ±90°', () => {
+      expect(validateAngleTables(2, [-120, 0, 120], [0, 45, 90]).errors).toHaveLength(1)
+    })
+
+    it('should warn on non-standard Type C horizontal ranges', () => {
+      const result = validateAngleTables(1, [0, 22.5, 45], [0, 45, 90])
+      expect(result.errors).toHaveLength(0)
+      expect(result.warnings).toEqual([expect.stringContaining('0-45')])
+    })
+
+    it('should reject unknown photometric types', () => {
+      expect(validateAngleTables(4, [0], [0, 90]).errors[0]).toMatch(/Unknown photometric type/)
+    })
+  })
+
+  describe('photometric PPFD', () => {
+    it('should distribute PPF by the candela distribution', () => {
+      const parsed = parseIESFile(readFixture('type-c-tilt-include.ies'))
+      const fixture = {
+        x: 0,
+        y: 0,
+        z: 1,
+        ppf: 1000,
+        beamAngle: 120,
+        enabled: true,
+        photometry: parsed.photometry
+      }
+
+      // A Lambertian emitter puts PPF / π μmol/s/sr at nadir
+      expect(calculatePPFD(fixture, 0, 0, 0)).toBeCloseTo(1000 / Math.PI, 0)
+      // At 45° both cos(γ) and the incidence cosine apply over d² = 2
+      expect(calculatePPFD(fixture, 1, 0, 0)).toBeCloseTo((1000 / Math.PI) * 0.5 / 2, 0)
+    })
+
+    it('should carry IES photometry and the tilt loss into the fixture grid', () => {
+      const fixture = (installationTilt: number) => ({
+        x: 0.5,
+        y: 0.5,
+        z: 1,
+        rotation: 0,
+        ppf: 1000,
+        beamAngle: 120,
+        enabled: true,
+        iesData: parseIESFile(readFixture('type-c-tilt-include.ies'), { installationTilt })
+      })
+      const nadir = (installationTilt: number) => calculateAdvancedPPFDGrid([fixture(installationTilt)], 1, 1, 0, 1)[0][0]
+
+      expect(nadir(0)).toBeCloseTo(1000 / Math.PI, 0)
+      expect(nadir(30)).toBeCloseTo(0.95 * 1000 / Math.PI, 0)
+    })
+  })
+})
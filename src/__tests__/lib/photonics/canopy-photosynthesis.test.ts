@@ -0,0 +1,180 @@
+/**
+ * Canopy Photosynthesis Tests
+ * Sunlit/shaded partitioning of traced layers, FvCB assimilation per leaf
+ * class, photoperiod integration and layout ranking
+ */
+
+import {
+  CanopyAssimilationOptions,
+  CanopyPhotosynthesisModel,
+  TracedCanopy,
+  calculateCanopyAssimilation,
+  rankCanopyLayouts
+} from '@/lib/photonics/canopy-photosynthesis'
+import type { CanopyLayer, TracingResult } from '@/lib/photonics/multi-layer-canopy-raytracer'
+import { CROP_MODELS, CropGrowthCalculator } from '@/lib/crop-growth-models'
+import { FarquharPhotosynthesisModel } from '@/lib/plant-science/farquhar-photosynthesis-model'
+
+function layer(id: string, height: number, lai: number): CanopyLayer {
+  const band = (par: number, other: number) => Array.from({ length: 401 }, (_, i) => (i >= 20 && i <= 320 ? par : other))
+  return {
+    id,
+    height,
+    thickness: 0.3,
+    lai,
+    leafAngleDistribution: { type: 'spherical' },
+    leafOpticalProperties: {
+      reflectance: band(0.05, 0.5),
+      transmittance: band(0.05, 0.4),
+      absorptance: band(0.9, 0.1),
+      chlorophyllContent: 30,
+      carotenoidContent: 8,
+      waterContent: 850,
+      dryMatter: 50
+    },
+    plantDensity: 25,
+    growthStage: 'vegetative',
+    species: 'Lettuce'
+  }
+}
+
+// Tracing output for a set of layers: mean PPFD and absorbed share of PAR
+function traced(layers: Array<{ layer: CanopyLayer; ppfd: number; absorbed: number }>): { canopy: TracedCanopy; result: TracingResult } {
+  const result: TracingResult = {
+    ppfdByLayer: new Map(),
+    spectralIrradianceByLayer: new Map(),
+    absorptionByLayer: new Map(),
+    penetrationProfile: [],
+    scatteringContribution: 0,
+    uniformityByLayer: new Map()
+  }
+  for (const { layer: item, ppfd, absorbed } of layers) {
+    // Summed over 4 grid points with a flat PAR spectrum
+    const spectrum = new Float32Array(401)
+    for (let i = 20; i <= 320; i++) spectrum[i] = 4
+    result.spectralIrradianceByLayer.set(item.id, spectrum)
+    result.absorptionByLayer.set(item.id, { par: 4 * 301 * absorbed, blue: 0, red: 0, farRed: 0 })
+    result.ppfdByLayer.set(item.id, 4 * ppfd)
+    result.uniformityByLayer.set(item.id, { min: ppfd, max: ppfd, avg: ppfd, cv: 0 })
+  }
+  return {
+    canopy: { getLayers: () => layers.map(entry => entry.layer), calculateLeafProjectionFunction: () => 0.5 },
+    result
+  }
+}
+
+const options: CanopyAssimilationOptions = {
+  environment: { airTemperature: 24, nightTemperature: 20, co2Concentration: 800, relativeHumidity: 70, vaporPressureDeficit: 0.9 },
+  photoperiod: 16
+}
+
+describe('FarquharPhotosynthesisModel', () => {
+  it('has a realistic CO2 compensation point so assimilation rises with light', () => {
+    const model = new FarquharPhotosynthesisModel(FarquharPhotosynthesisModel.getSpeciesParameters('lettuce'))
+    const base = {
+      spectrumQuality: { redPPFD: 0, bluePPFD: 0, greenPPFD: 0, farRedPPFD: 0, redFarRedRatio: 10, blueRedRatio: 0.3 },
+      leafTemperature: 25, airTemperature: 25, co2Concentration: 400, o2Concentration: 210,
+      relativeHumidity: 70, vaporPressureDeficit: 1, leafWaterPotential: -0.5, atmosphericPressure: 101.3, windSpeed: 0.5
+    }
+    const rate = (ppfd: number) => model.calculatePhotosynthesis({
+      ...base,
+      ppfd,
+      spectrumQuality: { ...base.spectrumQuality, redPPFD: 0.6 * ppfd, bluePPFD: 0.2 * ppfd, greenPPFD: 0.2 * ppfd }
+    })
+
+    expect(rate(400).co2CompensationPoint).toBeCloseTo(42.75, 1)
+    expect(rate(100).netPhotosynthesis).toBeGreaterThan(0)
+    expect(rate(400).netPhotosynthesis).toBeGreaterThan(rate(100).netPhotosynthesis)
+  })
+})
+
+describe('CanopyPhotosynthesisModel', () => {
+  it('splits each layer into sunlit and shaded leaves that share its absorbed PAR', () => {
+    const { canopy, result } = traced([
+      { layer: layer('top', 2, 2), ppfd: 400, absorbed: 0.7 },
+      { layer: layer('bottom', 1, 3), ppfd: 120, absorbed: 0.8 }
+    ])
+    const layers = new CanopyPhotosynthesisModel(canopy, result, options).calculateLayers()
+    const [top, bottom] = layers
+
+    const kb = 0.5
+    expect(top.sunlit.leafArea).toBeCloseTo((1 - Math.exp(-kb * 2)) / kb, 10)
+    expect(top.sunlit.leafArea + top.shaded.leafArea).toBeCloseTo(2, 10)
+    expect(top.absorbedPPFD).toBeCloseTo(280, 6)
+    expect(top.sunlit.leafArea * top.sunlit.absorbedPPFD + top.shaded.leafArea * top.shaded.absorbedPPFD)
+      .toBeCloseTo(top.absorbedPPFD, 6)
+    expect(top.sunlit.absorbedPPFD).toBeGreaterThan(top.shaded.absorbedPPFD)
+
+    expect(top.sunlit.netPhotosynthesis).toBeGreaterThan(top.shaded.netPhotosynthesis)
+    expect(top.assimilation).toBeCloseTo(
+      top.sunlit.leafArea * top.sunlit.netPhotosynthesis + top.shaded.leafArea * top.shaded.netPhotosynthesis, 10
+    )
+    expect(top.assimilation).toBeGreaterThan(bottom.assimilation)
+    expect(bottom.nightRespiration).toBeGreaterThan(0)
+  })
+
+  it('responds to layer CO2 and leaf temperature', () => {
+    const { canopy, result } = traced([{ layer: layer('tier-1', 1, 2.5), ppfd: 300, absorbed: 0.75 }])
+    const ambient = calculateCanopyAssimilation(canopy, result, options)
+    const enriched = calculateCanopyAssimilation(canopy, result, { ...options, layerEnvironment: { 'tier-1': { co2Concentration: 1200 } } })
+    const warm = calculateCanopyAssimilation(canopy, result, { ...options, layerEnvironment: { 'tier-1': { leafTemperature: 38 } } })
+
+    expect(enriched.assimilation).toBeGreaterThan(ambient.assimilation)
+    expect(warm.layers[0].sunlit.leafTemperature).toBe(38)
+    expect(warm.assimilation).not.toBeCloseTo(ambient.assimilation, 3)
+  })
+
+  it('integrates carbon gain over the photoperiod less night respiration', () => {
+    const { canopy, result } = traced([{ layer: layer('tier-1', 1, 2.5), ppfd: 300, absorbed: 0.75 }])
+    const canopyGain = calculateCanopyAssimilation(canopy, result, options)
+    const { daily } = canopyGain
+    const night = canopyGain.layers[0].nightRespiration
+
+    expect(daily.lightPeriodAssimilation).toBeCloseTo(canopyGain.assimilation * 16 * 3600 * 1e-6, 10)
+    expect(daily.nightRespiration).toBeCloseTo(night * 8 * 3600 * 1e-6, 10)
+    expect(daily.carbonGain).toBeCloseTo(daily.lightPeriodAssimilation - daily.nightRespiration, 10)
+    expect(daily.absorbedPhotons).toBeCloseTo(225 * 16 * 3600 * 1e-6, 10)
+    expect(daily.carbohydrate).toBeCloseTo(daily.carbonGain * 30.03, 10)
+    expect(daily.quantumEfficiency).toBeGreaterThan(0.01)
+    expect(daily.quantumEfficiency).toBeLessThan(0.1)
+
+    const dimmed = calculateCanopyAssimilation(canopy, result, { ...options, dimming: new Array(16).fill(0.5) })
+    expect(dimmed.daily.lightPeriodAssimilation).toBeLessThan(daily.lightPeriodAssimilation)
+    expect(dimmed.daily.lightPeriodAssimilation).toBeGreaterThan(0)
+    expect(dimmed.daily.absorbedPhotons).toBeCloseTo(daily.absorbedPhotons / 2, 10)
+  })
+
+  it('ranks rack layouts by predicted carbon gain', () => {
+    const sparse = traced([{ layer: layer('tier-1', 1, 2), ppfd: 150, absorbed: 0.7 }])
+    const dense = traced([{ layer: layer('tier-1', 1, 2), ppfd: 350, absorbed: 0.7 }])
+    const ranking = rankCanopyLayouts([
+      { id: 'sparse', tracer: sparse.canopy, result: sparse.result },
+      { id: 'dense', tracer: dense.canopy, result: dense.result }
+    ], options)
+
+    expect(ranking.map(layout => layout.id)).toEqual(['dense', 'sparse'])
+    expect(ranking[0].rank).toBe(1)
+    expect(ranking[0].relativeCarbonGain).toBe(100)
+    expect(ranking[1].relativeCarbonGain).toBeLessThan(100)
+  })
+})
+
+describe('CropGrowthCalculator assimilation', () => {
+  it('derives growing conditions from a stage and converts carbon gain to yield', () => {
+    const crop = CROP_MODELS.lettuce_butterhead
+    const stage = crop.stages.find(s => s.name === 'Vegetative')!
+    const conditions = CropGrowthCalculator.assimilationEnvironment(stage)
+
+    expect(conditions.photoperiod).toBe(18)
+    expect(conditions.environment).toEqual({
+      airTemperature: 23,
+      nightTemperature: 20,
+      co2Concentration: 800,
+      relativeHumidity: 65,
+      vaporPressureDeficit: 1.0
+    })
+
+    // 10 g CH2O/m²/day for 35 days at 70% conversion, 85% harvested, 5% dry matter
+    expect(CropGrowthCalculator.calculateAssimilationYield(crop, 10, 2)).toBeCloseTo(10 * 0.7 * 35 / 1000 * 0.85 / 0.05 * 2, 10)
+  })
+})
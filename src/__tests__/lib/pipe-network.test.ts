@@ -0,0 +1,231 @@
+/**
+ * Pipe Network Solver Tests
+ * Looped network continuity and energy balance, pump operating points,
+ * emitter uniformity, check valves and EPANET .inp round trips
+ */
+
+import { HydraulicCalculator } from '@/lib/hydraulic-calculations'
+import { PUMP_DATABASE } from '@/lib/pump-selection'
+import { PipeNetwork, emitterFlow, solvePipeNetwork } from '@/lib/pipe-network'
+import { parseEpanetInp, writeEpanetInp } from '@/lib/epanet-inp'
+
+// Two-loop main fed from a reservoir, laid out as a ladder
+function twoLoopNetwork(): PipeNetwork {
+  return {
+    title: 'Two loop main',
+    nodes: [
+      { id: 'R', type: 'reservoir', elevation: 0, head: 150 },
+      { id: 'A', elevation: 10 },
+      { id: 'B', elevation: 10, demand: 40 },
+      { id: 'C', elevation: 12, demand: 30 },
+      { id: 'D', elevation: 12, demand: 50 },
+      { id: 'E', elevation: 15, demand: 60 },
+      { id: 'F', elevation: 15, demand: 20 }
+    ],
+    pipes: [
+      { id: 'P0', from: 'R', to: 'A', diameter: 4, length: 300, material: 'PVC', fittings: [{ type: 'elbow90', size: 4 }] },
+      { id: 'P1', from: 'A', to: 'B', diameter: 3, length: 400, material: 'PVC' },
+      { id: 'P2', from: 'A', to: 'C', diameter: 3, length: 350, material: 'PVC' },
+      { id: 'P3', from: 'B', to: 'D', diameter: 2, length: 300, material: 'PVC' },
+      { id: 'P4', from: 'C', to: 'D', diameter: 2, length: 300, material: 'HDPE' },
+      { id: 'P5', from: 'C', to: 'E', diameter: 2.5, length: 400, material: 'PVC' },
+      { id: 'P6', from: 'D', to: 'F', diameter: 2, length: 400, material: 'PVC', minorLoss: 2 },
+      { id: 'P7', from: 'E', to: 'F', diameter: 2, length: 300, material: 'PVC' }
+    ]
+  }
+}
+
+function byId<T extends { id: string }>(items: T[]): Record<string, T> {
+  return Object.fromEntries(items.map(item => [item.id, item]))
+}
+
+describe('PipeNetworkSolver', () => {
+  it('matches the single-pipe Hazen-Williams loss', () => {
+    const solution = solvePipeNetwork({
+      nodes: [{ id: 'R', type: 'reservoir', elevation: 0, head: 100 }, { id: 'J', elevation: 20, demand: 50 }],
+      pipes: [{ id: 'P', from: 'R', to: 'J', diameter: 2, length: 500, material: 'PVC' }]
+    })
+    const expectedLoss = HydraulicCalculator.calculatePressureLoss(50, 2, 500, 'PVC')
+
+    expect(solution.converged).toBe(true)
+    expect(solution.links[0].flow).toBeCloseTo(50, 6)
+    expect(solution.links[0].headLoss).toBeCloseTo(expectedLoss, 4)
+    expect(solution.nodes[1].pressure).toBeCloseTo((100 - expectedLoss - 20) * 0.433, 4)
+  })
+
+  it('balances flow at every junction and head loss around every loop', () => {
+    const solution = solvePipeNetwork(twoLoopNetwork())
+    const links = byId(solution.links)
+    const nodes = byId(solution.nodes)
+
+    expect(solution.converged).toBe(true)
+    expect(links.P0.flow).toBeCloseTo(200, 4)
+    const inflow = (node: string, pipes: string[], out: string[]) =>
+      pipes.reduce((sum, id) => sum + links[id].flow, 0) - out.reduce((sum, id) => sum + links[id].flow, 0) - nodes[node].demand
+    expect(inflow('A', ['P0'], ['P1', 'P2'])).toBeCloseTo(0, 6)
+    expect(inflow('D', ['P3', 'P4'], ['P6'])).toBeCloseTo(0, 6)
+    expect(inflow('F', ['P6', 'P7'], [])).toBeCloseTo(0, 6)
+
+    // Loop A-B-D-C and C-D-F-E
+    expect(links.P1.headLoss + links.P3.headLoss - links.P4.headLoss - links.P2.headLoss).toBeCloseTo(0, 4)
+    expect(links.P4.headLoss + links.P6.headLoss - links.P7.headLoss - links.P5.headLoss).toBeCloseTo(0, 4)
+    // Each pipe's head loss agrees with its flow
+    expect(links.P3.headLoss).toBeCloseTo(HydraulicCalculator.calculatePressureLoss(links.P3.flow, 2, 300, 'PVC'), 4)
+  })
+
+  it('finds the operating point of a catalogue pump on the network', () => {
+    const pump = PUMP_DATABASE.find(candidate => candidate.model === 'e-SV 10SV06')!
+    const network: PipeNetwork = {
+      nodes: [
+        { id: 'Sump', type: 'tank', elevation: 0, level: 5 },
+        { id: 'Suction', elevation: 0 },
+        { id: 'Discharge', elevation: 0 },
+        { id: 'Header', elevation: 30 }
+      ],
+      pipes: [
+        { id: 'Inlet', from: 'Sump', to: 'Suction', diameter: 3, length: 10, material: 'PVC' },
+        { id: 'Main', from: 'Discharge', to: 'Header', diameter: 1.5, length: 800, material: 'PVC', status: 'cv' }
+      ],
+      pumps: [{ id: 'Pump', from: 'Suction', to: 'Discharge', pump }],
+      emitters: [{ id: 'Zone', node: 'Header', coefficient: 0.02, exponent: 0.5, count: 400 }]
+    }
+
+    const solution = solvePipeNetwork(network)
+    const point = solution.pumps[0]
+    const curve = HydraulicCalculator.interpolatePumpCurve(pump.curve, point.flow)
+
+    expect(solution.converged).toBe(true)
+    expect(point.flow).toBeGreaterThan(20)
+    expect(point.flow).toBeLessThan(120)
+    expect(point.head).toBeCloseTo(curve.head, 3)
+    expect(point.efficiency).toBeCloseTo(curve.efficiency, 6)
+    expect(solution.emitters[0].totalFlow).toBeCloseTo(point.flow, 4)
+    expect(solution.emitters[0].flow).toBeCloseTo(emitterFlow(network.emitters![0], solution.emitters[0].pressure), 6)
+
+    // Slowing the pump moves the operating point down the system curve
+    const slowed = solvePipeNetwork({ ...network, pumps: [{ id: 'Pump', from: 'Suction', to: 'Discharge', pump, speed: 0.8 }] })
+    expect(slowed.pumps[0].flow).toBeLessThan(point.flow)
+  })
+
+  it('reports emitter uniformity along a drip lateral', () => {
+    const lateral = (compensating: boolean): PipeNetwork => {
+      const nodes: PipeNetwork['nodes'] = [{ id: 'Inlet', type: 'reservoir', elevation: 0, head: 35 }]
+      const pipes: PipeNetwork['pipes'] = []
+      const emitters: PipeNetwork['emitters'] = []
+      for (let i = 1; i <= 10; i++) {
+        nodes.push({ id: `N${i}`, elevation: 0 })
+        pipes.push({ id: `L${i}`, from: i === 1 ? 'Inlet' : `N${i - 1}`, to: `N${i}`, diameter: 0.6, length: 30, material: 'HDPE' })
+        emitters.push(compensating
+          ? { id: `E${i}`, node: `N${i}`, compensation: { nominalFlow: 0.0088, regulatingPressure: 8 }, count: 25, manufacturerCv: 0.03 }
+          : { id: `E${i}`, node: `N${i}`, coefficient: 0.0026, exponent: 0.5, count: 25, manufacturerCv: 0.03 })
+      }
+      return { nodes, pipes, emitters }
+    }
+
+    const conventional = solvePipeNetwork(lateral(false))
+    const flows = conventional.emitters.map(emitter => emitter.flow)
+    expect(conventional.converged).toBe(true)
+    expect(flows[0]).toBeGreaterThan(flows[9])
+    expect(conventional.uniformity!.emitterCount).toBe(250)
+    expect(conventional.uniformity!.distributionUniformity).toBeLessThan(100)
+    expect(conventional.uniformity!.emissionUniformity).toBeLessThan(conventional.uniformity!.distributionUniformity)
+
+    const compensated = solvePipeNetwork(lateral(true))
+    expect(compensated.converged).toBe(true)
+    expect(compensated.emitters.every(emitter => emitter.pressure > 8)).toBe(true)
+    expect(compensated.uniformity!.distributionUniformity).toBeGreaterThan(99.5)
+    expect(compensated.uniformity!.distributionUniformity).toBeGreaterThan(conventional.uniformity!.distributionUniformity)
+  })
+
+  it('closes check valves against reverse flow and rejects unsupplied junctions', () => {
+    const solution = solvePipeNetwork({
+      nodes: [
+        { id: 'High', type: 'reservoir', elevation: 0, head: 120 },
+        { id: 'Low', type: 'reservoir', elevation: 0, head: 80 },
+        { id: 'J', elevation: 0, demand: 10 }
+      ],
+      pipes: [
+        { id: 'Supply', from: 'High', to: 'J', diameter: 2, length: 200, material: 'PVC' },
+        { id: 'Backflow', from: 'Low', to: 'J', diameter: 2, length: 200, material: 'PVC', status: 'cv' }
+      ]
+    })
+    const links = byId(solution.links)
+    expect(links.Backflow.status).toBe('closed')
+    expect(links.Backflow.flow).toBe(0)
+    expect(links.Supply.flow).toBeCloseTo(10, 4)
+
+    expect(() => solvePipeNetwork({
+      nodes: [{ id: 'R', type: 'reservoir', elevation: 0 }, { id: 'A', elevation: 0 }, { id: 'B', elevation: 0, demand: 5 }],
+      pipes: [{ id: 'P', from: 'R', to: 'A', diameter: 2, length: 10, material: 'PVC' }]
+    })).toThrow('Junction B is not connected')
+  })
+})
+
+describe('EPANET .inp', () => {
+  it('round-trips a network with pumps and emitters to the same solution', () => {
+    const network = twoLoopNetwork()
+    network.nodes[0] = { id: 'R', type: 'reservoir', elevation: 0, head: 20 }
+    network.nodes.splice(1, 0, { id: 'S', elevation: 0 })
+    network.pipes[0] = { ...network.pipes[0], from: 'S' }
+    network.pumps = [{ id: 'PU1', from: 'R', to: 'S', pump: PUMP_DATABASE[0] }]
+    network.emitters = [{ id: 'EF', node: 'F', coefficient: 0.5, exponent: 0.5, count: 4 }]
+
+    const inp = writeEpanetInp(network)
+    expect(inp).toContain('[PIPES]')
+    expect(inp).toContain('PU1\tR\tS\tHEAD\tPU1-head')
+    expect(inp).toContain('Pump\tPU1\tEfficiency\tPU1-efficiency')
+
+    const imported = parseEpanetInp(inp)
+    expect(imported.warnings).toEqual([])
+    expect(imported.network.pipes.find(pipe => pipe.id === 'P4')!.cFactor).toBe(140)
+
+    const original = solvePipeNetwork(network)
+    const roundTrip = solvePipeNetwork(imported.network, imported.options)
+    const originalLinks = byId(original.links)
+    roundTrip.links.forEach(link => expect(link.flow).toBeCloseTo(originalLinks[link.id].flow, 2))
+    expect(roundTrip.pumps[0].flow).toBeCloseTo(original.pumps[0].flow, 2)
+    expect(roundTrip.pumps[0].efficiency).toBeCloseTo(original.pumps[0].efficiency, 1)
+  })
+
+  it('converts SI files and reports what the steady-state solver ignores', () => {
+    const imported = parseEpanetInp([
+      '[TITLE]',
+      'Hydronic loop',
+      '[JUNCTIONS]',
+      ';ID  Elev  Demand',
+      ' J1  10    2',
+      ' J2  12    0 ; no demand',
+      '[RESERVOIRS]',
+      ' R1  40',
+      '[PIPES]',
+      ' P1  R1  J1  100  50  130  0  Open',
+      ' P2  J1  J2  50   40  130  0.5  CV',
+      '[VALVES]',
+      ' V1  J2  J1  40  PRV  20  0',
+      '[EMITTERS]',
+      ' J2  0.2',
+      '[PATTERNS]',
+      ' 1  1.0  1.2',
+      '[OPTIONS]',
+      ' Units  LPS',
+      ' Headloss  H-W',
+      ' Emitter Exponent  0.5',
+      '[END]'
+    ].join('\n'))
+
+    const { nodes, pipes, emitters, title } = imported.network
+    expect(title).toBe('Hydronic loop')
+    expect(nodes[0].elevation).toBeCloseTo(32.8084, 3)
+    expect(nodes[0].demand).toBeCloseTo(31.7006, 3)
+    expect(pipes[0].diameter).toBeCloseTo(50 / 25.4, 6)
+    expect(pipes[1].status).toBe('cv')
+    expect(pipes[2].id).toBe('V1')
+    // 0.2 L/s per m^0.5 of pressure head, in GPM per psi^0.5
+    expect(emitters![0].coefficient).toBeCloseTo(0.2 * 15.8503 / Math.sqrt(1.42197), 4)
+    expect(imported.warnings).toEqual([
+      'Valve V1 (PRV) is modelled as an open pipe; its setting is ignored',
+      '[PATTERNS] is ignored by the steady-state solver'
+    ])
+    expect(solvePipeNetwork(imported.network, imported.options).converged).toBe(true)
+  })
+})
@@ -0,0 +1,250 @@
+/**
+ * Linear Mixed Model Tests
+ * REML estimates, Type III tests and marginal means checked against textbook
+ * datasets (Yates' split-plot oats, Pinheiro & Bates' rails), repeated-measures
+ * covariance structures and the experiment designer's analysis models
+ */
+
+import { LinearMixedModel, fUpperTail, tQuantile, tTwoSidedPValue } from '@/lib/research/mixed-models'
+import { ExperimentDesigner } from '@/lib/research/experiment-designer'
+import { statisticalAnalysis } from '@/lib/research/statistical-analysis'
+
+// Yates (1935) oats split plot: 6 blocks, varieties on whole plots, nitrogen (cwt/acre) on sub-plots
+const OATS: Record<string, Record<string, number[]>> = {
+  I: { Victory: [111, 130, 157, 174], 'Golden rain': [117, 114, 161, 141], Marvellous: [105, 140, 118, 156] },
+  II: { Victory: [61, 91, 97, 100], 'Golden rain': [70, 108, 126, 149], Marvellous: [96, 124, 121, 144] },
+  III: { Victory: [68, 64, 112, 86], 'Golden rain': [60, 102, 89, 96], Marvellous: [89, 129, 132, 124] },
+  IV: { Victory: [74, 89, 81, 122], 'Golden rain': [64, 103, 132, 133], Marvellous: [70, 89, 104, 117] },
+  V: { Victory: [62, 90, 100, 116], 'Golden rain': [80, 82, 94, 126], Marvellous: [63, 70, 109, 99] },
+  VI: { Victory: [53, 74, 118, 113], 'Golden rain': [89, 82, 86, 104], Marvellous: [97, 99, 119, 121] }
+}
+const oats = Object.entries(OATS).flatMap(([block, varieties]) =>
+  Object.entries(varieties).flatMap(([variety, yields]) =>
+    yields.map((value, i) => ({ block, variety, nitro: ['0.0', '0.2', '0.4', '0.6'][i], value }))))
+
+// Pinheiro & Bates (2000) ultrasonic travel times on six rails
+const rails = [[55, 53, 54], [26, 37, 32], [78, 91, 85], [92, 100, 96], [49, 51, 50], [80, 85, 83]]
+  .flatMap((times, rail) => times.map(value => ({ rail: `R${rail + 1}`, value })))
+
+const splitPlot = { response: 'value', fixed: ['variety', 'nitro', 'variety:nitro'], random: ['block', 'block:variety'] }
+
+function random(seed: number) {
+  let state = seed
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = Math.imul(state ^ (state >>> 15), state | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function gaussian(uniform: () => number) {
+  return Math.sqrt(-2 * Math.log(Math.max(uniform(), 1e-12))) * Math.cos(2 * Math.PI * uniform())
+}
+
+describe('LinearMixedModel', () => {
+  it('reproduces the split-plot analysis of the oats trial', () => {
+    const model = LinearMixedModel.fit(oats, splitPlot)
+    const variance = Object.fromEntries(model.varianceComponents.map(c => [c.term, c.variance]))
+
+    // Balanced data: REML equals the ANOVA estimators (MS_B − MS_WP)/12, (MS_WP − MS_E)/4, MS_E
+    expect(model.converged).toBe(true)
+    expect(variance.block).toBeCloseTo((3175.056 - 601.331) / 12, 2)
+    expect(variance['block:variety']).toBeCloseTo((601.331 - 177.083) / 4, 2)
+    expect(variance.Residual).toBeCloseTo(7968.75 / 45, 2)
+
+    const anova = Object.fromEntries(model.anova.map(test => [test.term, test]))
+    expect(anova.variety).toMatchObject({ numDf: 2, significant: false })
+    expect(anova.variety.denDf).toBeCloseTo(10, 4)
+    expect(anova.variety.fValue).toBeCloseTo(1.4853, 3)
+    expect(anova.variety.pValue).toBeCloseTo(0.2723, 3)
+    expect(anova.nitro).toMatchObject({ numDf: 3, significant: true })
+    expect(anova.nitro.denDf).toBeCloseTo(45, 4)
+    expect(anova.nitro.fValue).toBeCloseTo(37.686, 2)
+    expect(anova['variety:nitro'].denDf).toBeCloseTo(45, 4)
+    expect(anova['variety:nitro'].fValue).toBeCloseTo(0.3028, 3)
+
+    expect(model.fixedEffects[0]).toMatchObject({ name: '(Intercept)' })
+    expect(model.fixedEffects[0].estimate).toBeCloseTo(103.9722, 4)
+    expect(Object.keys(model.randomEffects.block)).toEqual(['I', 'II', 'III', 'IV', 'V', 'VI'])
+  })
+
+  it('gives marginal means and contrasts with the right error strata', () => {
+    const model = statisticalAnalysis.mixedModel(oats, splitPlot)
+    const nitro = model.estimatedMarginalMeans('nitro')
+
+    expect(nitro.map(m => m.label)).toEqual(['0.0', '0.2', '0.4', '0.6'])
+    nitro.forEach(mean => {
+      const raw = oats.filter(row => row.nitro === mean.label).reduce((sum, row) => sum + row.value, 0) / 18
+      expect(mean.estimate).toBeCloseTo(raw, 8)
+      expect(mean.confidenceInterval[0]).toBeLessThan(mean.estimate)
+    })
+
+    // Sub-plot comparisons use the residual stratum, whole-plot comparisons the block × variety stratum
+    const nitroPairs = model.contrasts(nitro, 'pairwise', { adjust: 'holm' })
+    expect(nitroPairs).toHaveLength(6)
+    expect(nitroPairs[0].contrast).toBe('0.0 - 0.2')
+    expect(nitroPairs[0].standardError).toBeCloseTo(Math.sqrt(2 * 177.0833 / 18), 4)
+    expect(nitroPairs[0].df).toBeCloseTo(45, 4)
+    nitroPairs.forEach(pair => expect(pair.adjustedPValue).toBeGreaterThanOrEqual(pair.pValue))
+
+    const varieties = model.estimatedMarginalMeans('variety')
+    const [pair] = model.contrasts(varieties, [{ name: 'Marvellous vs Victory', coefficients: { Marvellous: 1, Victory: -1 } }])
+    expect(pair.estimate).toBeCloseTo(109.7917 - 97.625, 3)
+    expect(pair.standardError).toBeCloseTo(Math.sqrt(2 * 601.331 / 24), 3)
+    expect(pair.df).toBeCloseTo(10, 4)
+
+    // Linear nitrogen trend
+    const [trend] = model.contrasts(nitro, [{ name: 'linear', coefficients: { '0.0': -3, '0.2': -1, '0.4': 1, '0.6': 3 } }])
+    expect(trend.significant).toBe(true)
+
+    const cells = model.estimatedMarginalMeans(['variety', 'nitro'])
+    expect(cells).toHaveLength(12)
+    expect(cells[0].levels).toEqual({ variety: 'Golden rain', nitro: '0.0' })
+    expect(() => model.estimatedMarginalMeans('block')).toThrow('block is not a fixed factor in the model')
+  })
+
+  it('matches compound symmetry to a random whole-plot effect', () => {
+    const random = LinearMixedModel.fit(oats, splitPlot)
+    const compound = LinearMixedModel.fit(oats, {
+      ...splitPlot,
+      random: ['block'],
+      repeated: { subject: 'block:variety', time: 'nitro', structure: 'compound-symmetry' }
+    })
+
+    expect(compound.logLikelihood).toBeCloseTo(random.logLikelihood, 6)
+    expect(compound.covarianceParameters[1]).toMatchObject({ name: 'block:variety covariance' })
+    expect(compound.covarianceParameters[1].estimate).toBeCloseTo(106.062, 2)
+    expect(compound.anova[1].fValue).toBeCloseTo(random.anova[1].fValue, 6)
+  })
+
+  it('reproduces the one-way random effects fit of the rail data', () => {
+    const model = LinearMixedModel.fit(rails, { response: 'value', fixed: [], random: ['rail'] })
+
+    expect(model.varianceComponents.map(c => c.term)).toEqual(['rail', 'Residual'])
+    expect(model.varianceComponents[0].standardDeviation).toBeCloseTo(24.8055, 3)
+    expect(model.varianceComponents[1].standardDeviation).toBeCloseTo(4.0208, 3)
+    expect(model.fixedEffects[0].estimate).toBeCloseTo(66.5, 8)
+    expect(model.fixedEffects[0].standardError).toBeCloseTo(10.171, 3)
+    expect(model.fixedEffects[0].df).toBeCloseTo(5, 4)
+    expect(model.randomEffects.rail.R4).toBeGreaterThan(0)
+    expect(model.randomEffects.rail.R2).toBeLessThan(0)
+  })
+
+  it('prefers AR(1) for serially correlated weekly measurements', () => {
+    const uniform = random(21)
+    const lights = ['300', '450', '600', '750']
+    const rows: { room: string; light: string; plant: string; week: number; value: number }[] = []
+    for (const room of ['A', 'B', 'C']) {
+      const roomEffect = 2 * gaussian(uniform)
+      for (const [t, light] of lights.entries()) {
+        for (let rep = 0; rep < 2; rep++) {
+          const plant = `${room}-${light}-${rep}`
+          let error = Math.sqrt(2) * gaussian(uniform)
+          for (let week = 1; week <= 6; week++) {
+            if (week > 1) error = 0.7 * error + Math.sqrt(2 * (1 - 0.49)) * gaussian(uniform)
+            rows.push({ room, light, plant, week, value: 10 + 1.5 * t + week * (1 + 0.2 * t) + roomEffect + error })
+          }
+        }
+      }
+    }
+    const spec = (structure: 'independent' | 'compound-symmetry' | 'ar1') => ({
+      response: 'value',
+      fixed: ['light', 'week', 'light:week'],
+      random: ['room'],
+      repeated: { subject: 'plant', time: 'week', structure }
+    })
+
+    const ar1 = LinearMixedModel.fit(rows, spec('ar1'))
+    const compound = LinearMixedModel.fit(rows, spec('compound-symmetry'))
+    const independent = LinearMixedModel.fit(rows, spec('independent'))
+
+    const rho = ar1.covarianceParameters.find(p => p.name === 'AR1 rho')!
+    expect(ar1.converged).toBe(true)
+    expect(rho.estimate).toBeGreaterThan(0.45)
+    expect(rho.estimate).toBeLessThan(0.9)
+    expect(rho.standardError).toBeGreaterThan(0)
+    expect(ar1.aic).toBeLessThan(compound.aic)
+    expect(ar1.aic).toBeLessThan(independent.aic)
+
+    const lightByWeek = ar1.anova.find(test => test.term === 'light:week')!
+    expect(lightByWeek.numDf).toBe(15)
+    expect(lightByWeek.significant).toBe(true)
+    const final = ar1.estimatedMarginalMeans(['light', 'week']).filter(mean => mean.levels.week === '6')
+    expect(final[3].estimate - final[0].estimate).toBeGreaterThan(5)
+
+    expect(() => LinearMixedModel.fit([...rows, rows[0]], spec('ar1')))
+      .toThrow('Each plant must be measured at most once per week')
+  })
+
+  it('rejects unusable specifications', () => {
+    expect(() => LinearMixedModel.fit(oats, { response: 'height', fixed: ['nitro'] })).toThrow('No observations with a numeric height')
+    expect(() => LinearMixedModel.fit(oats.filter(row => row.nitro === '0.0'), { response: 'value', fixed: ['nitro'] }))
+      .toThrow('Factor nitro needs at least two levels')
+    expect(() => LinearMixedModel.fit(oats, { response: 'value', fixed: ['value:nitro'], covariates: ['value'] }))
+      .toThrow('Covariate interactions are not supported (value:nitro)')
+  })
+})
+
+describe('distribution functions', () => {
+  it('match tabulated t and F values', () => {
+    expect(tQuantile(0.95, 10)).toBeCloseTo(2.228139, 5)
+    expect(tQuantile(0.99, 45)).toBeCloseTo(2.689585, 5)
+    expect(tTwoSidedPValue(2.228139, 10)).toBeCloseTo(0.05, 6)
+    expect(fUpperTail(3.204317, 2, 45)).toBeCloseTo(0.05, 6)
+  })
+})
+
+describe('ExperimentDesigner analysis models', () => {
+  it('lays out a split plot and analyzes it with the whole-plot error term', () => {
+    const design = ExperimentDesigner.createSplitPlot(
+      { name: 'light', levels: ['low', 'mid', 'high'] },
+      { name: 'spectrum', levels: ['red', 'blue'] },
+      4,
+      7
+    )
+    expect(design.type).toBe('SplitPlot')
+    expect(design.totalUnits).toBe(24)
+    const wholePlots = new Map<number, Set<string>>()
+    design.layout.flat().forEach(unit => {
+      if (!wholePlots.has(unit.wholePlot!)) wholePlots.set(unit.wholePlot!, new Set())
+      wholePlots.get(unit.wholePlot!)!.add(unit.factors!.spectrum)
+    })
+    expect(wholePlots.size).toBe(12)
+    wholePlots.forEach(levels => expect(levels.size).toBe(2))
+
+    const spec = ExperimentDesigner.analysisModel(design)
+    expect(spec).toEqual({
+      response: 'value',
+      fixed: ['light', 'spectrum', 'light:spectrum'],
+      random: ['block', 'block:light']
+    })
+
+    const uniform = random(3)
+    const plotEffects = new Map<string, number>()
+    const rows = ExperimentDesigner.unitRecords(design).map(record => {
+      const plot = `${record.block}:${record.light}`
+      if (!plotEffects.has(plot)) plotEffects.set(plot, 2 * gaussian(uniform))
+      const light = { low: 0, mid: 3, high: 5 }[record.light as 'low' | 'mid' | 'high']
+      return { ...record, value: 20 + light + (record.spectrum === 'red' ? 1 : 0) + plotEffects.get(plot)! + 0.5 * gaussian(uniform) }
+    })
+    const model = LinearMixedModel.fit(rows, spec)
+    const anova = Object.fromEntries(model.anova.map(test => [test.term, test]))
+    expect(anova.light.denDf).toBeCloseTo(6, 3)
+    expect(anova.spectrum.denDf).toBeCloseTo(9, 3)
+  })
+
+  it('adds time terms and a per-unit covariance for repeated measurements', () => {
+    const design = ExperimentDesigner.createRCBD(['A', 'B', 'C'], 4, 11)
+    expect(ExperimentDesigner.analysisModel(design, { response: 'height', repeated: { time: 'week', structure: 'ar1' } })).toEqual({
+      response: 'height',
+      fixed: ['treatment', 'week', 'treatment:week'],
+      random: ['block'],
+      repeated: { subject: 'unit', time: 'week', structure: 'ar1' }
+    })
+    expect(ExperimentDesigner.analysisModel(ExperimentDesigner.createFactorial([
+      { name: 'A', levels: ['a1', 'a2'] },
+      { name: 'B', levels: ['b1', 'b2'] }
+    ], 2, 5)).fixed).toEqual(['A', 'B', 'A:B'])
+  })
+})
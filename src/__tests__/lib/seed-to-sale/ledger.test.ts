@@ -0,0 +1,247 @@
+/**
+ * Seed-to-Sale Ledger Tests
+ */
+
+import { SeedToSaleManager } from '@/lib/seed-to-sale/tracking-manager'
+import {
+  InMemoryLedgerStore,
+  LedgerConcurrencyError,
+  LedgerDatabase,
+  LedgerWrite,
+  PrismaLedgerStore
+} from '@/lib/seed-to-sale/ledger-store'
+import {
+  BatchStatus,
+  BatchType,
+  DisposalMethod,
+  HarvestStatus,
+  HarvestType,
+  PackageStatus,
+  PlantStage,
+  ReportType,
+  SourceType,
+  UnitOfMeasure,
+  WasteReason,
+  WasteType
+} from '@/lib/seed-to-sale/tracking-types'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+const FACILITY = 'facility-1'
+
+async function plantBatch(manager: SeedToSaleManager, tags: string[], plantedDate = new Date('2026-01-05T00:00:00Z')) {
+  return manager.createPlantBatch({
+    name: 'Blue Dream A',
+    strain: 'Blue Dream',
+    type: BatchType.Clone,
+    count: tags.length,
+    sourceType: SourceType.Clone,
+    plantedDate,
+    room: 'Veg1',
+    nutrients: [],
+    ipm: { preventative: [], scouting: { frequency: 'weekly', nextDue: plantedDate }, thresholds: [] },
+    trackingTags: tags,
+    status: BatchStatus.Active
+  })
+}
+
+describe('SeedToSaleManager ledger', () => {
+  let store: InMemoryLedgerStore
+  let manager: SeedToSaleManager
+
+  beforeEach(() => {
+    store = new InMemoryLedgerStore()
+    manager = new SeedToSaleManager(FACILITY, store)
+  })
+
+  it('should record an immutable history per tag through harvest and packaging', async () => {
+    await plantBatch(manager, ['P1', 'P2'])
+    await manager.movePlants(['P1'], 'Flower2-A', 'Flip', 'alice', { occurredAt: new Date('2026-02-01T00:00:00Z') })
+    await manager.updatePlantStage(['P1', 'P2'], PlantStage.Flowering, { occurredAt: new Date('2026-02-02T00:00:00Z') })
+
+    const harvest = await manager.createHarvest({
+      harvestBatchId: '',
+      plantIds: ['P1', 'P2'],
+      strain: 'Blue Dream',
+      harvestDate: new Date('2026-04-01T00:00:00Z'),
+      room: 'Flower2',
+      wetWeight: 2000,
+      wasteWeight: 100,
+      harvestType: HarvestType.Full,
+      dryingLocation: 'Dry1',
+      dryingStartDate: new Date('2026-04-01T00:00:00Z'),
+      labSampleTaken: false,
+      status: HarvestStatus.Drying
+    })
+    const dried = await manager.finishDrying(harvest.id, 500, { occurredAt: new Date('2026-04-12T00:00:00Z') })
+    expect(dried.dryingEndDate).toBeInstanceOf(Date)
+
+    const packages = await manager.createPackages(harvest.id, [
+      { tagId: 'PKG1', weight: 250, productType: 'Flower' },
+      { tagId: 'PKG2', weight: 200, productType: 'Flower' }
+    ], { occurredAt: new Date('2026-04-15T00:00:00Z') })
+    expect(packages.map(p => p.harvestBatchId)).toEqual([harvest.harvestBatchId, harvest.harvestBatchId])
+
+    const history = await manager.getHistory('P1')
+    expect(history.map(e => e.type)).toEqual(['created', 'moved', 'stage_changed', 'harvested'])
+    expect(history.map(e => e.sequence)).toEqual([1, 2, 3, 4])
+    expect(history[1].actor).toBe('alice')
+    expect(history[1].state.location).toBe('Flower2-A')
+    expect(history[3].state.harvestDate).toBeInstanceOf(Date)
+
+    const plant = await manager.getTag('P1')
+    expect(plant?.status).toBe(PlantStage.Harvested)
+    expect(plant?.version).toBe(4)
+  })
+
+  it('should reject writes against a stale tag version', async () => {
+    await plantBatch(manager, ['P1'])
+    const read = await manager.getTag('P1')
+
+    await manager.movePlants(['P1'], 'Veg2', 'Space', 'bob')
+    await expect(
+      manager.updatePlantStage(['P1'], PlantStage.Vegetative, { expectedVersions: { P1: read!.version } })
+    ).rejects.toBeInstanceOf(LedgerConcurrencyError)
+
+    // Failed writes leave no events behind
+    expect((await manager.getHistory('P1')).map(e => e.type)).toEqual(['created', 'moved'])
+  })
+
+  it('should refuse to create a tag twice', async () => {
+    await plantBatch(manager, ['P1'])
+    await expect(plantBatch(manager, ['P1'])).rejects.toBeInstanceOf(LedgerConcurrencyError)
+  })
+
+  it('should replay inventory from the newest write when a change is backdated', async () => {
+    await plantBatch(manager, ['P1'])
+    await manager.movePlants(['P1'], 'Flower2-A', 'Flip', 'alice', { occurredAt: new Date('2026-02-02T00:00:00Z') })
+    // Entered after the move but dated the day before it
+    await manager.updatePlantStage(['P1'], PlantStage.Flowering, { occurredAt: new Date('2026-02-01T00:00:00Z') })
+
+    const snapshot = await manager.getInventoryAsOf(new Date('2026-02-10T00:00:00Z'))
+    expect(snapshot.plants).toMatchObject({ flowering: 1, total: 1 })
+  })
+
+  it('should build compliance reports from the stored history', async () => {
+    await plantBatch(manager, ['P1', 'P2', 'P3'])
+    await manager.createHarvest({
+      harvestBatchId: 'HB-1',
+      plantIds: ['P1'],
+      strain: 'Blue Dream',
+      harvestDate: new Date('2026-03-01T00:00:00Z'),
+      room: 'Flower1',
+      wetWeight: 1000,
+      wasteWeight: 50,
+      harvestType: HarvestType.Full,
+      dryingLocation: 'Dry1',
+      dryingStartDate: new Date('2026-03-01T00:00:00Z'),
+      labSampleTaken: true,
+      status: HarvestStatus.Drying
+    })
+    const [harvest] = await store.listTags(FACILITY, { entityType: 'harvest' })
+    await manager.createPackages(harvest.tag, [{ tagId: 'PKG1', weight: 100, productType: 'Flower' }], {
+      occurredAt: new Date('2026-03-20T00:00:00Z')
+    })
+    await manager.sellPackage('PKG1', 'Dispensary 7', 900, { occurredAt: new Date('2026-04-10T00:00:00Z') })
+    await manager.recordWaste({
+      date: new Date('2026-04-12T00:00:00Z'),
+      type: WasteType.Plant,
+      reason: WasteReason.Pest,
+      weight: 300,
+      unitOfMeasure: UnitOfMeasure.Grams,
+      method: DisposalMethod.Rendered,
+      plantIds: ['P2'],
+      packageIds: [],
+      witnessName: 'Carol',
+      notes: '',
+      reportedToState: false
+    })
+
+    const april = { start: new Date('2026-04-01T00:00:00Z'), end: new Date('2026-04-30T00:00:00Z') }
+    const sales = await manager.generateComplianceReport(ReportType.Sales, april.start, april.end)
+    expect(sales.data.sales).toEqual([
+      expect.objectContaining({ packageId: 'PKG1', weight: 100, price: 900, soldTo: 'Dispensary 7' })
+    ])
+
+    const waste = await manager.generateComplianceReport(ReportType.Waste, april.start, april.end)
+    expect(waste.data.waste).toHaveLength(1)
+    expect(waste.data.waste[0].date).toBeInstanceOf(Date)
+
+    // Inventory is replayed as of the period end, not read from current state
+    const march = await manager.generateComplianceReport(
+      ReportType.Inventory,
+      new Date('2026-03-01T00:00:00Z'),
+      new Date('2026-03-31T00:00:00Z')
+    )
+    expect(march.data.snapshot.plants.total).toBe(2)
+    expect(march.data.snapshot.packages.flower).toEqual({ count: 1, weight: 100 })
+
+    const current = await manager.getCurrentInventory()
+    expect(current.plants.total).toBe(1)
+    expect(current.packages.total.count).toBe(0)
+    expect((await manager.getTag('PKG1'))?.status).toBe(PackageStatus.Sold)
+  })
+})
+
+describe('PrismaLedgerStore', () => {
+  const write: LedgerWrite = {
+    tag: 'P1',
+    entityType: 'plant',
+    status: PlantStage.Vegetative,
+    state: { stage: PlantStage.Vegetative },
+    expectedVersion: 2,
+    event: { type: 'stage_changed', occurredAt: new Date('2026-02-01T00:00:00Z') }
+  }
+
+  // Transaction client whose compare-and-swap matches the given number of rows
+  function database(updatedCount: number) {
+    const tx = {
+      seedToSaleTag: {
+        findUnique: jest.fn(async () => ({
+          id: 'tag-1',
+          facilityId: FACILITY,
+          tag: 'P1',
+          entityType: 'plant',
+          status: PlantStage.Vegetative,
+          state: write.state,
+          version: 3,
+          createdAt: new Date('2026-01-05T00:00:00Z'),
+          updatedAt: new Date('2026-02-01T00:00:00Z')
+        })),
+        findMany: jest.fn(async () => []),
+        create: jest.fn(),
+        updateMany: jest.fn(async () => ({ count: updatedCount }))
+      },
+      seedToSaleEvent: {
+        create: jest.fn(async () => ({})),
+        findMany: jest.fn(async () => [])
+      }
+    }
+    const db: LedgerDatabase = { ...tx, $transaction: fn => fn(tx) }
+    return { db, tx }
+  }
+
+  it('should update a tag only at the version the caller read', async () => {
+    const { db, tx } = database(1)
+    const [record] = await new PrismaLedgerStore(db).append(FACILITY, [write])
+
+    expect(tx.seedToSaleTag.updateMany).toHaveBeenCalledWith({
+      where: { facilityId: FACILITY, tag: 'P1', version: 2 },
+      data: { status: PlantStage.Vegetative, state: write.state, version: { increment: 1 } }
+    })
+    expect(record.version).toBe(3)
+    expect(tx.seedToSaleEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ tagId: 'tag-1', sequence: 3, type: 'stage_changed' })
+    })
+  })
+
+  it('should raise a concurrency error when the compare-and-swap matches no row', async () => {
+    const { db, tx } = database(0)
+
+    const append = new PrismaLedgerStore(db).append(FACILITY, [write])
+    await expect(append).rejects.toBeInstanceOf(LedgerConcurrencyError)
+    await expect(append).rejects.toMatchObject({ tag: 'P1', expectedVersion: 2 })
+    expect(tx.seedToSaleTag.findUnique).not.toHaveBeenCalled()
+    expect(tx.seedToSaleEvent.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,211 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * State Traceability Adapter Tests
+ * SeedToSaleManager reporting through the BioTrack and METRC adapters
+ */
+
+import { MockMETRCServer } from '@/lib/compliance/mock-metrc-server'
+import { BioTrackClient, BioTrackStateAdapter } from '@/lib/seed-to-sale/biotrack-adapter'
+import { InMemoryLedgerStore } from '@/lib/seed-to-sale/ledger-store'
+import { MetrcStateAdapter } from '@/lib/seed-to-sale/metrc-adapter'
+import { createStateAdapterForState, resolveStateSystem } from '@/lib/seed-to-sale/state-adapter'
+import { SeedToSaleManager } from '@/lib/seed-to-sale/tracking-manager'
+import {
+  BatchStatus,
+  BatchType,
+  DisposalMethod,
+  SourceType,
+  StateSystemConfig,
+  UnitOfMeasure,
+  WasteReason,
+  WasteType
+} from '@/lib/seed-to-sale/tracking-types'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+jest.mock('@/lib/logging/production-logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}))
+// The shared setup stubs events, which axios's HTTP adapter needs to talk to the mock server
+jest.unmock('events')
+
+const CONFIG: Omit<StateSystemConfig, 'system'> = {
+  facilityId: 'facility-1',
+  apiKey: 'vendor',
+  userKey: 'user',
+  licenseNumber: 'LIC-1',
+  endpoint: '',
+  syncEnabled: true,
+  syncInterval: 15
+}
+
+function batch(tags: string[]) {
+  const plantedDate = new Date('2026-05-01T00:00:00Z')
+  return {
+    name: 'Blue Dream May',
+    strain: 'Blue Dream',
+    type: BatchType.Clone,
+    count: tags.length,
+    sourceType: SourceType.Clone,
+    plantedDate,
+    room: 'Veg1',
+    nutrients: [],
+    ipm: { preventative: [], scouting: { frequency: 'weekly', nextDue: plantedDate }, thresholds: [] },
+    trackingTags: tags,
+    status: BatchStatus.Active
+  }
+}
+
+function fakeBioTrack(failures: Record<string, string> = {}) {
+  const calls: any[] = []
+  const fetchImpl = jest.fn(async (_url: string, init: { body: string }) => {
+    const body = JSON.parse(init.body)
+    calls.push(body)
+    if (failures[body.action]) {
+      return { ok: true, status: 200, json: async () => ({ success: 0, error: failures[body.action] }) }
+    }
+    const payload: any = { success: 1 }
+    if (body.action === 'login') payload.sessionid = `session-${calls.length}`
+    if (body.action === 'sync_inventory_qa_sample') {
+      payload.inventory_qa_sample = [
+        { parentid: 'PKG1', type: 'potency', result: '1', thc: '22.4', cbd: '0.1', sessiontime: '1767225600' },
+        { parentid: 'PKG2', type: 'potency', result: '0' }
+      ]
+    }
+    return { ok: true, status: 200, json: async () => payload }
+  })
+  const client = new BioTrackClient('https://biotrack.test/serverjson.asp', {
+    username: 'vendor',
+    password: 'user',
+    licenseNumber: 'LIC-1'
+  }, fetchImpl)
+  return { calls, client }
+}
+
+describe('state system resolution', () => {
+  it('should route Washington and New Mexico to BioTrack', () => {
+    expect(resolveStateSystem('wa')).toBe('BioTrack')
+    expect(resolveStateSystem('NM')).toBe('BioTrack')
+    expect(resolveStateSystem('CO')).toBe('METRC')
+    expect(() => resolveStateSystem('XX')).toThrow(/XX/)
+
+    expect(createStateAdapterForState('WA', CONFIG)).toBeInstanceOf(BioTrackStateAdapter)
+    expect(createStateAdapterForState('CO', CONFIG)).toBeInstanceOf(MetrcStateAdapter)
+  })
+})
+
+describe('BioTrackStateAdapter', () => {
+  it('should report plants and waste as BioTrack actions in one session', async () => {
+    const { calls, client } = fakeBioTrack()
+    const manager = new SeedToSaleManager('facility-wa', new InMemoryLedgerStore())
+    const connected = await manager.configureStateSystem(
+      { ...CONFIG, system: 'BioTrack', state: 'WA' },
+      new BioTrackStateAdapter({ ...CONFIG, system: 'BioTrack', state: 'WA' }, client)
+    )
+    expect(connected).toBe(true)
+
+    await manager.createPlantBatch(batch(['P1', 'P2']))
+    await manager.movePlants(['P1', 'P2'], 'Flower1', 'Flip', 'grower')
+    await manager.recordWaste({
+      date: new Date('2026-06-01T00:00:00Z'),
+      type: WasteType.Plant,
+      reason: WasteReason.Disease,
+      weight: 80,
+      unitOfMeasure: UnitOfMeasure.Grams,
+      method: DisposalMethod.Compost,
+      plantIds: ['P2'],
+      packageIds: [],
+      witnessName: 'QA',
+      notes: 'PM',
+      reportedToState: false
+    })
+
+    expect(calls.map(call => call.action)).toEqual(['login', 'plant_new', 'plant_move', 'plant_destroy_schedule'])
+    expect(calls[1]).toMatchObject({ API: '4.0', sessionid: 'session-1', quantity: 2, barcodeid: ['P1', 'P2'] })
+    expect(calls[2].data).toEqual([
+      { barcodeid: 'P1', location: 'Flower1' },
+      { barcodeid: 'P2', location: 'Flower1' }
+    ])
+    expect(calls[3]).toMatchObject({ barcodeid: ['P2'], reason: 'Disease: PM' })
+    expect(manager.getSyncErrors()).toEqual([])
+  })
+
+  it('should map QA samples to lab results', async () => {
+    const { client } = fakeBioTrack()
+    const adapter = new BioTrackStateAdapter({ ...CONFIG, system: 'BioTrack' }, client)
+
+    const results = await adapter.getLabResults('PKG1')
+    expect(results).toEqual([{
+      packageTag: 'PKG1',
+      testType: 'potency',
+      passed: true,
+      thcPercent: 22.4,
+      cbdPercent: 0.1,
+      moisturePercent: undefined,
+      testedAt: new Date('2026-01-01T00:00:00Z')
+    }])
+  })
+
+  it('should keep the ledger write and record the error when BioTrack rejects a call', async () => {
+    const { client } = fakeBioTrack({ plant_new: 'Invalid strain' })
+    const manager = new SeedToSaleManager('facility-nm', new InMemoryLedgerStore())
+    await manager.configureStateSystem(
+      { ...CONFIG, system: 'BioTrack', state: 'NM' },
+      new BioTrackStateAdapter({ ...CONFIG, system: 'BioTrack', state: 'NM' }, client)
+    )
+
+    await manager.createPlantBatch(batch(['P1']))
+
+    expect(await manager.getTag('P1')).not.toBeNull()
+    expect(manager.getSyncErrors()).toEqual([
+      expect.objectContaining({ operation: 'reportPlantBatch', system: 'BioTrack', message: 'BioTrack plant_new failed: Invalid strain' })
+    ])
+  })
+})
+
+describe('MetrcStateAdapter', () => {
+  let server: MockMETRCServer
+  let config: StateSystemConfig
+
+  beforeEach(async () => {
+    server = new MockMETRCServer({ licenseNumber: 'LIC-1', apiKey: 'vendor', userKey: 'user' })
+    const endpoint = await server.start()
+    config = { ...CONFIG, endpoint, system: 'METRC', state: 'CO' }
+  })
+
+  afterEach(async () => {
+    await server.stop()
+  })
+
+  it('should report plant movements and destruction to METRC', async () => {
+    const manager = new SeedToSaleManager('facility-co', new InMemoryLedgerStore())
+    expect(await manager.configureStateSystem(config)).toBe(true)
+    await manager.createPlantBatch(batch(['P1', 'P2']))
+    server.addPlant({ Label: 'P1', LocationName: 'Veg1' })
+    server.addPlant({ Label: 'P2', LocationName: 'Veg1' })
+
+    await manager.movePlants(['P1'], 'Flower1', 'Flip', 'grower')
+    await manager.recordWaste({
+      date: new Date('2026-06-01T00:00:00Z'),
+      type: WasteType.Plant,
+      reason: WasteReason.Disease,
+      weight: 80,
+      unitOfMeasure: UnitOfMeasure.Grams,
+      method: DisposalMethod.Compost,
+      plantIds: ['P2'],
+      packageIds: [],
+      witnessName: 'QA',
+      notes: '',
+      reportedToState: false
+    })
+
+    expect(server.plants.map(p => [p.Label, p.LocationName])).toEqual([['P1', 'Flower1']])
+    expect(server.inactivePlants[0]).toMatchObject({ Label: 'P2', DestroyedDate: '2026-06-01' })
+    expect(server.requests.find(r => r.path === '/plantbatches/v1/createplantings')?.body).toEqual([
+      expect.objectContaining({ Name: 'Blue Dream May', Count: 2, Location: 'Veg1' })
+    ])
+    expect(manager.getSyncErrors()).toEqual([])
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Green Button Connect My Data Tests
+ * Authorization, incremental sync, gap backfill and notifications against the
+ * in-process ESPI Data Custodian
+ */
+
+import { prisma } from '@/lib/prisma'
+import { GreenButtonCMDConnector } from '@/lib/utility-integration/connectors/green-button-cmd-connector'
+import { MockESPIServer } from '@/lib/utility-integration/connectors/mock-espi-server'
+import { GreenButtonSyncService, detectIntervalGaps } from '@/lib/utility-integration/green-button-sync'
+import { MemoryRow, memoryTable } from '@/tests/memory-prisma'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+jest.mock('@/lib/logging/production-logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}))
+// Tokens, OAuth state and token encryption need the real crypto the shared setup stubs
+jest.unmock('crypto')
+
+const HOUR = 3600 * 1000
+const CLIENT = { clientId: 'vibelux', clientSecret: 'espi-secret' }
+
+interface SubscriptionRow extends MemoryRow {
+  id: string
+  status: string
+  accessToken: string
+  tokenExpiresAt: Date
+  resourceUri: string
+}
+
+const subscriptions = memoryTable<SubscriptionRow>('sub', () => ({ gaps: null, lastIntervalEnd: null }))
+const energyReadings = memoryTable<MemoryRow & { timestamp: Date }>('energy')
+const powerReadings = memoryTable('power')
+
+Object.assign(prisma, {
+  greenButtonSubscription: subscriptions,
+  energyReading: energyReadings,
+  power_readings: powerReadings
+})
+
+describe('Green Button Connect My Data', () => {
+  const server = new MockESPIServer(CLIENT)
+  const dayStart = new Date(Math.floor(Date.now() / 86400000 - 6) * 86400000)
+  const hour = (h: number) => new Date(dayStart.getTime() + h * HOUR)
+  let service: GreenButtonSyncService
+  let connector: GreenButtonCMDConnector
+
+  beforeAll(async () => {
+    process.env.ENCRYPTION_KEY = 'a'.repeat(64)
+    const baseUrl = await server.start()
+    connector = new GreenButtonCMDConnector({
+      ...CLIENT,
+      redirectUri: 'https://app.vibelux.test/api/utility/green-button/callback',
+      dataCustodianUrl: baseUrl
+    })
+    service = new GreenButtonSyncService(connector, baseUrl, { stateSecret: 'state-secret' })
+
+    // Three days of 5 kWh hours with hours 30-35 not yet published
+    server.addHourlyUsage(hour(0), 30, () => 5000)
+    server.addHourlyUsage(hour(36), 36, () => 5000)
+  })
+
+  afterAll(() => server.stop())
+
+  it('should authorize, store the subscription and import history with its gaps', async () => {
+    const { authUrl } = service.beginAuthorization('facility-1', 'user-1')
+    const consent = await fetch(authUrl, { redirect: 'manual' })
+    const callback = new URL(consent.headers.get('location')!)
+
+    const result = await service.completeAuthorization(callback.searchParams.get('code')!, callback.searchParams.get('state')!, 'user-1')
+
+    const subscription = subscriptions.rows.find(row => row.id === result.subscriptionId)!
+    expect(subscription.resourceUri).toBe(server.subscriptionUri)
+    expect(subscription.accessToken).not.toMatch(/^[0-9a-f]{32}$/) // Stored encrypted
+
+    expect(result.imported).toBe(66)
+    expect(result.lastIntervalEnd).toEqual(hour(72))
+    expect(result.gaps).toEqual([{ start: hour(30), end: hour(36) }])
+
+    expect(energyReadings.rows).toHaveLength(66)
+    expect(energyReadings.rows[0]).toMatchObject({ facilityId: 'facility-1', readingType: 'electricity', value: 5, unit: 'kWh' })
+    expect(powerReadings.rows[0]).toMatchObject({ facility_id: 'facility-1', power_kw: 5, energy_kwh: 5, source: 'green_button' })
+  })
+
+  it('should pull only new intervals and backfill gaps when notified', async () => {
+    server.addHourlyUsage(hour(30), 6, () => 4000)
+    server.addHourlyUsage(hour(72), 24, () => 6000)
+    server.requests.length = 0
+
+    const [result] = await service.handleNotification(server.notificationXml())
+
+    expect(result.imported).toBe(24)
+    expect(result.backfilled).toBe(6)
+    expect(result.gaps).toEqual([])
+    expect(result.lastIntervalEnd).toEqual(hour(96))
+    expect(energyReadings.rows).toHaveLength(96)
+    expect(new Set(energyReadings.rows.map(r => r.timestamp.getTime())).size).toBe(96)
+
+    const feedRequests = server.requests.filter(r => r.path.includes('/Batch/Subscription/'))
+    expect(feedRequests[0].query['published-min']).toBe(hour(72).toISOString().replace('.000Z', 'Z'))
+  })
+
+  it('should refresh an expired access token before syncing', async () => {
+    const [subscription] = subscriptions.rows
+    const storedToken = subscription.accessToken
+    server.expireAccessTokens()
+    subscription.tokenExpiresAt = new Date(Date.now() - 1000)
+
+    const result = await service.syncSubscription(subscription.id)
+
+    expect(result.imported).toBe(0)
+    expect(subscription.accessToken).not.toBe(storedToken)
+    expect(subscription.tokenExpiresAt.getTime()).toBeGreaterThan(Date.now())
+  })
+
+  it('should mark the subscription revoked when the Data Custodian rejects it', async () => {
+    const [subscription] = subscriptions.rows
+    server.revoke()
+
+    await expect(service.syncSubscription(subscription.id)).rejects.toMatchObject({ code: 'ESPI_UNAUTHORIZED' })
+    expect(subscription.status).toBe('revoked')
+    expect(await service.handleNotification(server.notificationXml())).toEqual([])
+  })
+
+  it('should reject a tampered OAuth state', async () => {
+    const { state } = service.beginAuthorization('facility-1', 'user-1')
+    const forged = Buffer.from(JSON.stringify({ facilityId: 'facility-2', userId: 'user-1', issuedAt: Date.now() })).toString('base64url')
+
+    await expect(service.completeAuthorization('code', `${forged}.${state.split('.')[1]}`, 'user-1'))
+      .rejects.toMatchObject({ code: 'INVALID_STATE' })
+  })
+
+  it('should only let the user who started the authorization complete it', async () => {
+    const { authUrl } = service.beginAuthorization('facility-1', 'user-1')
+    const consent = await fetch(authUrl, { redirect: 'manual' })
+    const callback = new URL(consent.headers.get('location')!)
+
+    await expect(service.completeAuthorization(callback.searchParams.get('code')!, callback.searchParams.get('state')!, 'user-2'))
+      .rejects.toMatchObject({ code: 'INVALID_STATE', statusCode: 403 })
+  })
+})
+
+describe('detectIntervalGaps', () => {
+  const reading = (h: number, duration = 3600) => ({
+    timestamp: new Date(h * HOUR), usage: 1, unit: 'kWh' as const, quality: 'actual' as const, intervalDuration: duration
+  })
+
+  it('should report holes between intervals and against the window ends', () => {
+    expect(detectIntervalGaps([reading(0), reading(1), reading(4)])).toEqual([
+      { start: new Date(2 * HOUR), end: new Date(4 * HOUR) }
+    ])
+    expect(detectIntervalGaps([reading(2)], new Date(0), new Date(5 * HOUR))).toEqual([
+      { start: new Date(0), end: new Date(2 * HOUR) },
+      { start: new Date(3 * HOUR), end: new Date(5 * HOUR) }
+    ])
+    expect(detectIntervalGaps([reading(0, 900), reading(0.25, 900)])).toEqual([])
+  })
+})
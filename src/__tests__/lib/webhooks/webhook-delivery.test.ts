@@ -0,0 +1,255 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Outbound Webhook Delivery Tests
+ * Signing, fan-out to persisted subscriptions, exponential-backoff retries,
+ * dead-lettering and manual redelivery against a local receiver
+ */
+
+import http from 'http'
+import { AddressInfo } from 'net'
+import { prisma } from '@/lib/prisma'
+import { queueManager } from '@/lib/queue/queue-manager'
+import { WebhookService, webhookRetryDelay } from '@/lib/webhooks/webhook-service'
+import { signWebhookPayload, verifyWebhookSignature } from '@/lib/webhooks/webhook-signature'
+import { runComplianceReminders } from '@/lib/compliance/compliance-reminders'
+import { ComplianceCategory, EventStatus, EventType, Frequency, Priority } from '@/lib/compliance/compliance-types'
+import { MemoryRow, MemoryWhere, memoryTable } from '@/tests/memory-prisma'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+jest.mock('@/lib/queue/queue-manager', () => ({ queueManager: { addWebhookJob: jest.fn() } }))
+jest.mock('@/lib/logging/production-logger', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
+}))
+// Signatures and secret encryption need the real crypto the shared setup stubs
+jest.unmock('crypto')
+
+interface SubscriptionRow extends MemoryRow {
+  id: string
+  apiKeyId: string
+  active: boolean
+  failureCount: number
+}
+
+interface DeliveryRow extends MemoryRow {
+  id: string
+  subscriptionId: string
+  status: string
+  attempts: number
+  payload: { data: Record<string, unknown> }
+}
+
+const subscriptions = memoryTable<SubscriptionRow>('sub', () => ({ active: true, failureCount: 0, createdAt: new Date() }))
+const deliveries = memoryTable<DeliveryRow>('del', () => ({ attempts: 0, createdAt: new Date() }))
+const attempts = memoryTable<MemoryRow & { attempt: number }>('attempt')
+const facilities = memoryTable('facility')
+const complianceEvents = memoryTable<MemoryRow & { remindersSent: number[] }>('compliance', () => ({ createdAt: new Date(), updatedAt: new Date() }))
+
+const subscriptionRow = (id: string) => subscriptions.rows.find(row => row.id === id)!
+const deliveryRow = (id: string) => deliveries.rows.find(row => row.id === id)!
+
+Object.assign(prisma, {
+  webhookSubscription: subscriptions,
+  webhookDelivery: {
+    ...deliveries,
+    // The service always loads a delivery with its subscription
+    findUnique: jest.fn(async ({ where }: { where: MemoryWhere }) => {
+      const delivery = await deliveries.findUnique({ where })
+      return delivery && { ...delivery, subscription: await subscriptions.findUnique({ where: { id: delivery.subscriptionId } }) }
+    })
+  },
+  webhookDeliveryAttempt: attempts,
+  facility: facilities,
+  complianceEvent: complianceEvents
+})
+
+interface Received {
+  headers: http.IncomingHttpHeaders
+  body: string
+}
+
+describe('Outbound webhooks', () => {
+  let server: http.Server
+  let url: string
+  let received: Received[]
+  let responseStatus: number
+  let now: Date
+  let enqueued: Array<{ deliveryId: string; jobId: string }>
+  let service: WebhookService
+
+  beforeAll(async () => {
+    process.env.ENCRYPTION_KEY = 'a'.repeat(64)
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', chunk => { body += chunk })
+      req.on('end', () => {
+        received.push({ headers: req.headers, body })
+        res.writeHead(responseStatus, { 'Content-Type': 'text/plain' })
+        res.end(responseStatus < 300 ? 'ok' : 'nope')
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`
+  })
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()))
+  })
+
+  beforeEach(() => {
+    subscriptions.clear()
+    deliveries.clear()
+    attempts.clear()
+    facilities.clear()
+    complianceEvents.clear()
+    facilities.rows.push({ id: 'facility-1', ownerId: 'user-1', users: [{ userId: 'user-2' }] })
+    received = []
+    responseStatus = 200
+    now = new Date()
+    enqueued = []
+    service = new WebhookService({
+      enqueue: async (deliveryId, jobId) => { enqueued.push({ deliveryId, jobId }) },
+      now: () => now
+    })
+  })
+
+  it('signs the timestamp and body and rejects tampered or stale signatures', () => {
+    const body = JSON.stringify({ type: 'system.alert' })
+    const timestamp = 1_800_000_000
+    const header = signWebhookPayload('secret', body, timestamp)
+
+    expect(header).toMatch(/^t=1800000000,v1=[0-9a-f]{64}$/)
+    expect(verifyWebhookSignature(header, body, 'secret', 300, timestamp * 1000 + 60000)).toBe(true)
+    expect(verifyWebhookSignature(header, body.replace('alert', 'alarm'), 'secret', 300, timestamp * 1000)).toBe(false)
+    expect(verifyWebhookSignature(header, body, 'other-secret', 300, timestamp * 1000)).toBe(false)
+    expect(verifyWebhookSignature(header, body, 'secret', 300, timestamp * 1000 + 301000)).toBe(false)
+    expect(verifyWebhookSignature(`${header},v1=${'0'.repeat(64)}`, body, 'secret', 300, timestamp * 1000)).toBe(true)
+  })
+
+  it('stores the secret encrypted and delivers a signed payload', async () => {
+    const { subscription, secret } = await service.subscribe({
+      apiKeyId: 'key-1', userId: 'user-1', url, events: ['environmental.threshold_exceeded']
+    })
+    expect(subscription.secret).not.toBe(secret)
+
+    const [deliveryId] = await service.emit('environmental.threshold_exceeded', { metric: 'temperature', value: 31.5 }, { facilityId: 'facility-1' })
+    expect(enqueued).toEqual([{ deliveryId, jobId: deliveryId }])
+
+    const result = await service.deliver(deliveryId, { attempt: 1, maxAttempts: 8 })
+    expect(result).toMatchObject({ status: 'delivered', statusCode: 200 })
+
+    const [request] = received
+    const payload = JSON.parse(request.body)
+    expect(payload).toMatchObject({ type: 'environmental.threshold_exceeded', facilityId: 'facility-1', data: { value: 31.5 } })
+    expect(request.headers['x-webhook-event']).toBe('environmental.threshold_exceeded')
+    expect(verifyWebhookSignature(request.headers['x-webhook-signature'] as string, request.body, secret, 300, now.getTime())).toBe(true)
+
+    expect(deliveryRow(deliveryId)).toMatchObject({ status: 'delivered', attempts: 1, lastStatusCode: 200 })
+    expect(attempts.rows).toEqual([expect.objectContaining({ deliveryId, attempt: 1, statusCode: 200, error: null, responseBody: 'ok' })])
+  })
+
+  it('only fans out to subscriptions that reach the facility and pass their filters', async () => {
+    await service.subscribe({ apiKeyId: 'k1', userId: 'user-2', url, events: ['lighting.fixture_offline'] })
+    await service.subscribe({ apiKeyId: 'k2', userId: 'user-9', url, events: ['lighting.fixture_offline'] })
+    await service.subscribe({ apiKeyId: 'k3', userId: 'user-9', facilityId: 'facility-1', url, events: ['lighting.fixture_offline'] })
+    await service.subscribe({ apiKeyId: 'k4', userId: 'user-1', url, events: ['lighting.fixture_offline'], filters: { zones: ['veg-room'] } })
+    await service.subscribe({ apiKeyId: 'k5', userId: 'user-1', url, events: ['system.alert'] })
+
+    const ids = await service.emit('lighting.fixture_offline', { fixtureId: 'f-1', zone: 'flower-room' }, { facilityId: 'facility-1' })
+    const keys = ids.map(id => subscriptionRow(deliveryRow(id).subscriptionId).apiKeyId)
+    expect(keys.sort()).toEqual(['k1', 'k3'])
+  })
+
+  it('retries with exponential backoff, dead-letters and redelivers by hand', async () => {
+    responseStatus = 503
+    await service.subscribe({ apiKeyId: 'key-1', userId: 'user-1', url, events: ['system.alert'] })
+    const [deliveryId] = await service.emit('system.alert', { message: 'boiler fault' }, { userId: 'user-1' })
+
+    const first = await service.deliver(deliveryId, { attempt: 1, maxAttempts: 3 })
+    expect(first.status).toBe('retrying')
+    expect(first.nextAttemptAt!.getTime() - now.getTime()).toBe(30000)
+    expect(webhookRetryDelay(2)).toBe(60000)
+
+    await service.deliver(deliveryId, { attempt: 2, maxAttempts: 3 })
+    const last = await service.deliver(deliveryId, { attempt: 3, maxAttempts: 3 })
+
+    expect(last).toMatchObject({ status: 'dead', statusCode: 503 })
+    expect(deliveryRow(deliveryId)).toMatchObject({ status: 'dead', attempts: 3, lastError: 'HTTP 503' })
+    expect(subscriptionRow(deliveryRow(deliveryId).subscriptionId).failureCount).toBe(1)
+    expect(attempts.rows.map(a => a.attempt)).toEqual([1, 2, 3])
+
+    responseStatus = 200
+    await service.redeliver(deliveryId)
+    expect(deliveryRow(deliveryId).status).toBe('pending')
+    expect(enqueued[enqueued.length - 1]).toEqual({ deliveryId, jobId: `${deliveryId}:3` })
+
+    const redelivered = await service.deliver(deliveryId, { attempt: 1, maxAttempts: 3 })
+    expect(redelivered.status).toBe('delivered')
+    expect(deliveryRow(deliveryId).attempts).toBe(4)
+    expect(subscriptionRow(deliveryRow(deliveryId).subscriptionId).failureCount).toBe(0)
+    await expect(service.redeliver(deliveryId)).rejects.toThrow('Only dead-lettered deliveries')
+  })
+
+  it('switches the subscription off when the receiver answers 410 Gone', async () => {
+    responseStatus = 410
+    const { subscription } = await service.subscribe({ apiKeyId: 'key-1', userId: 'user-1', url, events: ['system.alert'] })
+    const [deliveryId] = await service.emit('system.alert', {}, { userId: 'user-1' })
+
+    expect((await service.deliver(deliveryId, { attempt: 1, maxAttempts: 8 })).status).toBe('dead')
+    expect(subscriptionRow(subscription.id).active).toBe(false)
+    expect(await service.emit('system.alert', {}, { userId: 'user-1' })).toEqual([])
+  })
+
+  it('emits compliance reminders from stored events once per reminder day', async () => {
+    await service.subscribe({
+      apiKeyId: 'key-1', userId: 'user-1', url, events: ['compliance.audit_reminder', 'compliance.certificate_expiring']
+    })
+    const stored = {
+      facilityId: 'facility-1',
+      description: '',
+      category: ComplianceCategory.StateRegulatory,
+      reminderDays: [30, 7],
+      remindersSent: [],
+      frequency: Frequency.Annual,
+      status: EventStatus.Upcoming,
+      priority: Priority.High,
+      responsiblePerson: 'Compliance Manager',
+      responsibleDepartment: 'Compliance',
+      regulatoryBody: 'State Cannabis Board',
+      referenceNumber: null,
+      notes: '',
+      completedDate: null,
+      completedBy: null
+    }
+    await complianceEvents.create({ data: { ...stored, title: 'State cultivation audit', type: EventType.Audit, dueDate: new Date('2026-11-20T00:00:00Z') } })
+    await complianceEvents.create({ data: { ...stored, title: 'Cultivation license', type: EventType.License, dueDate: new Date('2026-11-01T00:00:00Z') } })
+    await complianceEvents.create({
+      data: { ...stored, title: 'Closed audit', type: EventType.Audit, dueDate: new Date('2026-10-20T00:00:00Z'), status: EventStatus.Completed }
+    })
+
+    const run = async (at: string) => (await runComplianceReminders(new Date(at))).reminded.map(r => r.type)
+    expect(await run('2026-09-01T00:00:00Z')).toEqual([])
+    expect(await run('2026-10-25T00:00:00Z')).toEqual([EventType.Audit, EventType.License])
+    // Each run starts from the stored rows, so sent reminder days must persist
+    expect(await run('2026-10-26T00:00:00Z')).toEqual([])
+    expect(complianceEvents.rows.map(row => row.remindersSent)).toEqual([[30], [30, 7], []])
+    expect(await run('2026-11-15T00:00:00Z')).toEqual([EventType.Audit])
+
+    // emitWebhookEvent is fire-and-forget
+    for (let i = 0; i < 50 && (queueManager.addWebhookJob as jest.Mock).mock.calls.length < 3; i++) {
+      await new Promise(resolve => setImmediate(resolve))
+    }
+    const queued = deliveries.rows
+    expect(queued.map(delivery => delivery.eventType)).toEqual([
+      'compliance.audit_reminder', 'compliance.certificate_expiring', 'compliance.audit_reminder'
+    ])
+    expect(queued[0].payload.data).toMatchObject({ title: 'State cultivation audit', daysUntilDue: 26 })
+    expect(queued[1].payload.data).toMatchObject({ title: 'Cultivation license', daysUntilDue: 7 })
+    expect(queueManager.addWebhookJob).toHaveBeenCalledWith(
+      { deliveryId: queued[0].id },
+      expect.objectContaining({ attempts: 8, backoff: { type: 'exponential', delay: 30000 } })
+    )
+  })
+})
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { prisma } from '@/lib/prisma'
+export const dynamic = 'force-dynamic'
+
+async function isFacilityMember(userId: string, facilityId: string) {
+  return Boolean(await prisma.facilityUser.findFirst({ where: { userId, facilityId } }))
+}
+
+// GET /api/compliance/events?facilityId=...
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const facilityId = req.nextUrl.searchParams.get('facilityId')
+    if (!facilityId) return NextResponse.json({ error: 'facilityId required' }, { status: 400 })
+    if (!(await isFacilityMember(userId, facilityId))) return NextResponse.json({ error: 'No access to this facility' }, { status: 403 })
+    const events = await prisma.complianceEvent.findMany({ where: { facilityId }, orderBy: { dueDate: 'asc' } })
+    return NextResponse.json(events)
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message || 'Failed to load compliance events' }, { status: 500 })
+  }
+}
+
+// POST /api/compliance/events
+// Body: { facilityId, title, type, category, dueDate, reminderDays, frequency, priority, responsiblePerson, regulatoryBody, ... }
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = auth()
+    if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const body = await req.json()
+    const { facilityId, title, type, category, dueDate, frequency, priority, responsiblePerson, regulatoryBody } = body || {}
+    if (!facilityId || !title || !type || !category || !dueDate || !frequency || !priority || !responsiblePerson || !regulatoryBody) {
+      return NextResponse.json({ error: 'facilityId, title, type, category, dueDate, frequency, priority, responsiblePerson, regulatoryBody required' }, { status: 400 })
+    }
+    if (!(await isFacilityMember(userId, facilityId))) return NextResponse.json({ error: 'No access to this facility' }, { status: 403 })
+    const event = await prisma.complianceEvent.create({
+      data: {
+        facilityId,
+        title,
+        description: body.description ?? '',
+        type,
+        category,
+        dueDate: new Date(dueDate),
+        reminderDays: Array.isArray(body.reminderDays) ? body.reminderDays.map(Number) : [30, 7],
+        frequency,
+        status: body.status ?? 'Upcoming',
+        priority,
+        responsiblePerson,
+        responsibleDepartment: body.responsibleDepartment ?? '',
+        regulatoryBody,
+        referenceNumber: body.referenceNumber ?? null,
+        notes: body.notes ?? '',
+      }
+    })
+    return NextResponse.json(event, { status: 201 })
+  } catch (e: unknown) {
+    return NextResponse.json({ error: (e as Error)?.message || 'Failed to create compliance event' }, { status: 500 })
+  }
+}
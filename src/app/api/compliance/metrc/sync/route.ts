@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth, clerkClient } from '@clerk/nextjs/server';
 import { logger } from '@/lib/logging/production-logger';
 import { METRCIntegrationService } from '@/services/metrc-integration.service';
+import { reconciliationReportToCsv } from '@/lib/compliance/metrc-reconciliation';
 export const dynamic = 'force-dynamic'
 
 export async function POST(request: NextRequest) {
@@ -86,6 +87,27 @@ export async function POST(request: NextRequest) {
         });
       }
 
+      case 'reconcile': {
+        logger.info('Starting METRC reconciliation', { facilityId });
+
+        const report = await service.reconcile(facilityId, body.options);
+
+        if (body.format === 'csv') {
+          return new NextResponse(reconciliationReportToCsv(report), {
+            headers: {
+              'Content-Type': 'text/csv',
+              'Content-Disposition': `attachment; filename="metrc-reconciliation-${facilityId}.csv"`
+            }
+          });
+        }
+
+        return NextResponse.json({
+          success: true,
+          report,
+          message: `METRC reconciliation found ${report.discrepancies.length} discrepancies`
+        });
+      }
+
       case 'compliance_check': {
         const status = await service.getComplianceStatus(facilityId);
         
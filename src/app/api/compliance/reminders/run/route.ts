@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logging/production-logger'
+import { runComplianceReminders } from '@/lib/compliance/compliance-reminders'
+export const dynamic = 'force-dynamic'
+
+// Scheduler tick: emit compliance reminder webhooks for events that reached a reminder day
+export async function POST(req: NextRequest) {
+  const authHeader = req.headers.get('authorization')
+  const expectedToken = process.env.CRON_SECRET_TOKEN
+  if (!authHeader || !expectedToken || authHeader !== `Bearer ${expectedToken}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  try {
+    return NextResponse.json(await runComplianceReminders())
+  } catch (error) {
+    logger.error('Compliance reminder run failed', error)
+    return NextResponse.json({ error: 'Compliance reminder run failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { findRuleConflicts } from '@/lib/hmi/automation-service'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const { userId } = auth()
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const facilityId = req.nextUrl.searchParams.get('facilityId')
+  if (!facilityId) return NextResponse.json({ error: 'facilityId required' }, { status: 400 })
+  return NextResponse.json(await findRuleConflicts(facilityId))
+}
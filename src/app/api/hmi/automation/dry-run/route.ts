@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { dryRunAutomation } from '@/lib/hmi/automation-service'
+export const dynamic = 'force-dynamic'
+
+// Replay stored readings (default: the last 24 h) through saved and draft rules
+export async function POST(req: NextRequest) {
+  const { userId } = auth()
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const body = await req.json()
+  const { facilityId, from, to, stepMinutes, ruleIds, rules, timeZone, growthStage } = body || {}
+  if (!facilityId) return NextResponse.json({ error: 'facilityId required' }, { status: 400 })
+  const fromDate = from ? new Date(from) : undefined
+  const toDate = to ? new Date(to) : undefined
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return NextResponse.json({ error: 'from and to must be ISO timestamps' }, { status: 400 })
+  }
+  try {
+    const result = await dryRunAutomation(facilityId, {
+      from: fromDate,
+      to: toDate ?? (fromDate ? new Date(fromDate.getTime() + 24 * 60 * 60 * 1000) : undefined),
+      stepMinutes,
+      ruleIds,
+      rules,
+      timeZone,
+      growthStage,
+    })
+    return NextResponse.json(result)
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { prisma } from '@/lib/prisma'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const { userId } = auth()
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const facilityId = req.nextUrl.searchParams.get('facilityId')
+  if (!facilityId) return NextResponse.json({ error: 'facilityId required' }, { status: 400 })
+  const ruleId = req.nextUrl.searchParams.get('ruleId')
+  const limit = Math.min(500, Number(req.nextUrl.searchParams.get('limit')) || 100)
+  const executions = await prisma.hMIAutomationExecution.findMany({
+    where: { facilityId, ...(ruleId ? { ruleId } : {}) },
+    orderBy: { executedAt: 'desc' },
+    take: limit,
+  })
+  return NextResponse.json(executions)
+}
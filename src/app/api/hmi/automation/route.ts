@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
+import { ZodError } from 'zod'
 import { prisma } from '@/lib/prisma'
+import { automationRuleSchema } from '@/lib/greenhouse-automation-rules'
 export const dynamic = 'force-dynamic'
 
 export async function GET(req: NextRequest) {
@@ -16,13 +18,29 @@ export async function POST(req: NextRequest) {
   const { userId } = auth()
   if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   const body = await req.json()
-  const { id, facilityId, name, enabled = true, conditions = {}, actions = {} } = body || {}
-  if (!facilityId || !name) return NextResponse.json({ error: 'facilityId and name required' }, { status: 400 })
+  const { id, facilityId, ...definition } = body || {}
+  if (!facilityId) return NextResponse.json({ error: 'facilityId required' }, { status: 400 })
+  let parsed
+  try {
+    parsed = automationRuleSchema.parse(definition)
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid rule', details: (error as ZodError).issues }, { status: 400 })
+  }
+  const { name, description, enabled, priority, conditions, actions, schedule, cooldownMinutes } = parsed
+  const data = {
+    name,
+    description,
+    enabled,
+    priority,
+    conditions,
+    actions,
+    schedule: schedule ?? null,
+    cooldownMinutes: cooldownMinutes ?? null,
+  }
   const rule = await prisma.hMIAutomationRule.upsert({
     where: { id: id || '' },
-    create: { facilityId, name, enabled, conditions, actions },
-    update: { name, enabled, conditions, actions },
+    create: { facilityId, ...data },
+    update: data,
   })
   return NextResponse.json(rule)
 }
-
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logging/production-logger'
+import { runAutomationCycle } from '@/lib/hmi/automation-service'
+export const dynamic = 'force-dynamic'
+
+// Scheduler tick: evaluate enabled HMI automation rules and dispatch actuator commands
+export async function POST(req: NextRequest) {
+  const authHeader = req.headers.get('authorization')
+  const expectedToken = process.env.CRON_SECRET_TOKEN
+  if (!authHeader || !expectedToken || authHeader !== `Bearer ${expectedToken}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  const body = await req.json().catch(() => ({}))
+  try {
+    const result = await runAutomationCycle({
+      facilityId: body?.facilityId,
+      timeZone: body?.timeZone || process.env.HMI_AUTOMATION_TIMEZONE,
+    })
+    return NextResponse.json(result)
+  } catch (error) {
+    logger.error('HMI automation cycle failed', error)
+    return NextResponse.json({ error: 'Automation cycle failed' }, { status: 500 })
+  }
+}
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { prisma } from '@/lib/prisma'
+import { registerYieldModel } from '@/lib/ml/yield-model-registry'
 export const dynamic = 'force-dynamic'
 
+// Artifacts can be large; listings return everything else
+const summary = { id: true, name: true, version: true, type: true, status: true, metrics: true, createdAt: true, updatedAt: true }
+
 export async function GET() {
   const { userId } = auth();
   if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  const models = await prisma.modelRegistry.findMany({ orderBy: { updatedAt: 'desc' } });
+  const models = await prisma.modelRegistry.findMany({ orderBy: { updatedAt: 'desc' }, select: summary });
   return NextResponse.json({ models });
 }
 
@@ -14,6 +18,18 @@ export async function POST(req: NextRequest) {
   const { userId } = auth();
   if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   const body = await req.json();
+  if (body.artifact) {
+    if (body.type && body.type !== 'yield') return NextResponse.json({ error: 'Only yield artifacts are supported' }, { status: 400 });
+    try {
+      const registered = await registerYieldModel(body.artifact, body.name || undefined);
+      const model = await prisma.modelRegistry.findUnique({ where: { id: registered.modelId }, select: summary });
+      return NextResponse.json({ model, champion: registered.champion });
+    } catch (e) {
+      return NextResponse.json({ error: (e as Error).message }, { status: 400 });
+    }
+  }
+  // Yield models reach the registry only as validated artifacts or server training runs
+  if (body.type === 'yield') return NextResponse.json({ error: 'Yield models must be registered with an artifact' }, { status: 400 });
   const model = await prisma.modelRegistry.create({ data: { name: body.name, version: body.version || 'v1', type: body.type || 'generic', status: body.status || 'ready', metrics: body.metrics || {} } });
   return NextResponse.json({ model });
 }
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { predictYieldWithChampion } from '@/lib/ml/yield-model-registry'
+export const dynamic = 'force-dynamic'
+
+// Yield predictions with confidence intervals from the deployed champion model
+export async function POST(req: NextRequest) {
+  const { userId } = auth();
+  if (!userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const body = await req.json();
+  const inputs = Array.isArray(body.inputs) ? body.inputs : [body.inputs];
+  const confidence = typeof body.confidence === 'number' ? body.confidence : 0.95;
+  if (!inputs[0] || confidence <= 0 || confidence >= 1) return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+  try {
+    const predictions = await predictYieldWithChampion(inputs, confidence);
+    return NextResponse.json({ predictions, confidence });
+  } catch (e) {
+    const message = (e as Error).message;
+    return NextResponse.json({ error: message }, { status: message === 'No deployed yield model' ? 404 : 500 });
+  }
+}
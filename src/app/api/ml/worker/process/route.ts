@@ -1,19 +1,20 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { trainYieldModelRun } from '@/lib/ml/yield-model-registry'
 export const dynamic = 'force-dynamic'
 
-// Demo worker: marks one pending run as completed with example metrics
+// Trains the oldest pending yield run in process and promotes it if it beats the champion
 export async function GET() {
   try {
-    const run = await prisma.modelTrainingRun.findFirst({ where: { status: 'running' }, orderBy: { startedAt: 'asc' } })
+    const run = await prisma.modelTrainingRun.findFirst({
+      where: { status: 'running', model: { type: 'yield' } },
+      orderBy: { startedAt: 'asc' }
+    })
     if (!run) return NextResponse.json({ processed: 0 })
 
-    const accuracy = Math.round((0.75 + Math.random() * 0.2) * 1000) / 1000
-    await prisma.modelTrainingRun.update({ where: { id: run.id }, data: { status: 'completed', finishedAt: new Date(), metrics: { accuracy } } })
-    return NextResponse.json({ processed: 1, runId: run.id, metrics: { accuracy } })
+    const result = await trainYieldModelRun(run.id)
+    return NextResponse.json({ processed: 1, runId: run.id, ...result })
   } catch (e) {
     return NextResponse.json({ error: 'failed' }, { status: 500 })
   }
 }
-
-
@@ -0,0 +1,52 @@
+/**
+ * API Route: Green Button Connect My Data Authorization
+ * Sends the customer to their Data Custodian to grant an ESPI subscription
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+export const dynamic = 'force-dynamic'
+import { logger } from '@/lib/logging/production-logger';
+import { prisma } from '@/lib/prisma';
+import { createGreenButtonSyncService } from '@/lib/utility-integration/green-button-sync';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const facilityId = new URL(request.url).searchParams.get('facilityId');
+    if (!facilityId) {
+      return NextResponse.json(
+        { error: 'facilityId is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only members of the facility may attach utility data to it
+    const membership = await prisma.facilityUser.findFirst({
+      where: { userId, facilityId }
+    });
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'No access to this facility' },
+        { status: 403 }
+      );
+    }
+
+    const { authUrl } = createGreenButtonSyncService().beginAuthorization(facilityId, userId);
+    return NextResponse.redirect(authUrl);
+
+  } catch (error) {
+    logger.error('Green Button authorization error:', error as Error);
+    return NextResponse.json(
+      { error: 'Failed to start Green Button authorization' },
+      { status: 500 }
+    );
+  }
+}
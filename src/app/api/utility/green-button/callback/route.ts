@@ -0,0 +1,54 @@
+/**
+ * API Route: Green Button Connect My Data Callback
+ * Completes the ESPI authorization and runs the first interval sync
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+export const dynamic = 'force-dynamic'
+import { logger } from '@/lib/logging/production-logger';
+import { createGreenButtonSyncService } from '@/lib/utility-integration/green-button-sync';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const error = searchParams.get('error');
+
+  const errorRedirect = (reason: string, description?: string | null) => {
+    const errorUrl = new URL('/dashboard/facilities/utility-error', request.url);
+    errorUrl.searchParams.set('error', reason);
+    if (description) {
+      errorUrl.searchParams.set('description', description);
+    }
+    return NextResponse.redirect(errorUrl);
+  };
+
+  if (error) {
+    logger.error('Green Button authorization denied:', new Error(error));
+    return errorRedirect(error, searchParams.get('error_description'));
+  }
+
+  if (!code || !state) {
+    return errorRedirect('missing_parameters', 'Authorization code or state parameter missing');
+  }
+
+  // The state is bound to the user who started the authorization
+  const { userId } = await auth();
+  if (!userId) {
+    return errorRedirect('unauthorized', 'Sign in to finish connecting your utility account');
+  }
+
+  try {
+    const result = await createGreenButtonSyncService().completeAuthorization(code, state, userId);
+
+    const successUrl = new URL('/dashboard/facilities/utility-connected', request.url);
+    successUrl.searchParams.set('facilityId', result.facilityId);
+    successUrl.searchParams.set('status', 'success');
+    return NextResponse.redirect(successUrl);
+
+  } catch (callbackError) {
+    logger.error('Green Button callback error:', callbackError as Error);
+    return errorRedirect('callback_failed', (callbackError as Error).message);
+  }
+}
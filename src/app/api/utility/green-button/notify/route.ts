@@ -0,0 +1,36 @@
+/**
+ * API Route: Green Button Connect My Data Notification
+ * Data Custodians POST an ESPI BatchList here when new data is published.
+ * Only subscriptions we already hold are synced, using our own tokens, so an
+ * unsolicited notification can at most trigger an early sync.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+export const dynamic = 'force-dynamic'
+import { logger } from '@/lib/logging/production-logger';
+import { createGreenButtonSyncService } from '@/lib/utility-integration/green-button-sync';
+import { UtilityAPIError } from '@/lib/utility-integration/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const results = await createGreenButtonSyncService().handleNotification(await request.text());
+
+    logger.info('Green Button notification processed', {
+      subscriptions: results.length,
+      imported: results.reduce((sum, result) => sum + result.imported, 0)
+    });
+
+    return new NextResponse(null, { status: 200 });
+
+  } catch (error) {
+    if (error instanceof UtilityAPIError && error.code === 'ESPI_INVALID_NOTIFICATION') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    logger.error('Green Button notification error:', error as Error);
+    return NextResponse.json(
+      { error: 'Failed to process notification' },
+      { status: 500 }
+    );
+  }
+}
@@ -10,6 +10,7 @@ export interface AuthContext {
     id: string;
     userId: string;
     name: string;
+    facilityId: string | null;
     permissions: string[];
   };
   user: {
@@ -119,6 +120,7 @@ export async function validateApiKey(
         id: keyRecord.id,
         userId: keyRecord.userId,
         name: keyRecord.name,
+        facilityId: keyRecord.facilityId,
         permissions
       },
       user: {
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logging/production-logger'
+import { prisma } from '@/lib/prisma'
+import { validateApiKey } from '../../../../_middleware/auth'
+import { getWebhookService } from '@/lib/webhooks/webhook-service'
+export const dynamic = 'force-dynamic'
+
+// POST - Requeue a dead-lettered delivery
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await validateApiKey(req, 'webhooks:write')
+    if ('status' in authResult) return authResult
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: params.id },
+      include: { subscription: true }
+    })
+    if (!delivery || delivery.subscription.apiKeyId !== authResult.apiKey.id) {
+      return NextResponse.json(
+        { error: 'Delivery not found' },
+        { status: 404 }
+      )
+    }
+
+    if (delivery.status !== 'dead') {
+      return NextResponse.json(
+        { error: `Only dead-lettered deliveries can be redelivered (status is ${delivery.status})` },
+        { status: 409 }
+      )
+    }
+    if (!delivery.subscription.active) {
+      return NextResponse.json(
+        { error: 'Subscription is inactive' },
+        { status: 409 }
+      )
+    }
+
+    await getWebhookService().redeliver(delivery.id)
+
+    return NextResponse.json({
+      id: delivery.id,
+      status: 'pending',
+      version: '1.0',
+      message: 'Delivery queued for redelivery'
+    }, { status: 202 })
+
+  } catch (error) {
+    logger.error('Webhook redelivery error:', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
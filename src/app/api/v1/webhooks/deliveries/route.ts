@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logging/production-logger'
+import { prisma } from '@/lib/prisma'
+import { validateApiKey } from '../../_middleware/auth'
+export const dynamic = 'force-dynamic'
+
+const DELIVERY_STATUSES = ['pending', 'retrying', 'delivered', 'dead']
+
+// GET - Delivery log for this API key's subscriptions; ?status=dead lists the dead-letter store
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await validateApiKey(req, 'webhooks:read')
+    if ('status' in authResult) return authResult
+
+    const { searchParams } = new URL(req.url)
+    const subscriptionId = searchParams.get('subscriptionId')
+    const status = searchParams.get('status')
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200)
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Expected one of: ${DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        subscription: { apiKeyId: authResult.apiKey.id },
+        ...(subscriptionId ? { subscriptionId } : {}),
+        ...(status ? { status } : {})
+      },
+      include: { attemptLog: { orderBy: { attempt: 'asc' } } },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+
+    return NextResponse.json({
+      deliveries: deliveries.map(delivery => ({
+        id: delivery.id,
+        subscriptionId: delivery.subscriptionId,
+        eventId: delivery.eventId,
+        event: delivery.eventType,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        lastStatusCode: delivery.lastStatusCode,
+        lastError: delivery.lastError,
+        nextAttemptAt: delivery.nextAttemptAt,
+        deliveredAt: delivery.deliveredAt,
+        deadLetteredAt: delivery.deadLetteredAt,
+        createdAt: delivery.createdAt,
+        attemptLog: delivery.attemptLog.map(attempt => ({
+          attempt: attempt.attempt,
+          statusCode: attempt.statusCode,
+          durationMs: attempt.durationMs,
+          error: attempt.error,
+          responseBody: attempt.responseBody,
+          at: attempt.createdAt
+        }))
+      })),
+      total: deliveries.length,
+      version: '1.0'
+    })
+
+  } catch (error) {
+    logger.error('Get webhook deliveries error:', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,42 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { logger } from '@/lib/logging/production-logger'
-import crypto from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { validateApiKey } from '../../_middleware/auth'
+import { WEBHOOK_EVENTS, WebhookFilters, getWebhookService, isWebhookEventType } from '@/lib/webhooks/webhook-service'
 export const dynamic = 'force-dynamic'
 
 interface WebhookSubscription {
   events: string[]
   url: string
   secret?: string
-  filters?: {
-    zones?: string[]
-    severity?: string[]
-    metrics?: string[]
-  }
+  filters?: WebhookFilters
 }
 
-// Mock webhook storage (in production, use database)
-const webhookSubscriptions = new Map<string, {
-  id: string
-  apiKey: string
-  subscription: WebhookSubscription
-  createdAt: string
-  active: boolean
-}>()
-
 export async function POST(req: NextRequest) {
   try {
-    // TODO: Add proper API key validation
-    const apiKey = req.headers.get('x-api-key')
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'Missing API key' },
-        { status: 401 }
-      )
-    }
-    
+    const authResult = await validateApiKey(req, 'webhooks:write')
+    if ('status' in authResult) return authResult
+    const { apiKey, user } = authResult
+
     // Parse request body
     const body: WebhookSubscription = await req.json()
-    
+
     // Validate webhook subscription
     if (!body.events || !Array.isArray(body.events) || body.events.length === 0) {
       return NextResponse.json(
@@ -44,66 +28,45 @@ export async function POST(req: NextRequest) {
         { status: 400 }
       )
     }
-    
+
     if (!body.url || !isValidUrl(body.url)) {
       return NextResponse.json(
         { error: 'Valid webhook URL is required' },
         { status: 400 }
       )
     }
-    
+
     // Validate events
-    const validEvents = [
-      'lighting.status_change',
-      'lighting.fixture_offline',
-      'environmental.threshold_exceeded',
-      'environmental.sensor_error',
-      'biology.growth_stage_change',
-      'biology.stress_detected',
-      'biology.harvest_ready',
-      'compliance.audit_reminder',
-      'compliance.certificate_expiring',
-      'system.maintenance_required',
-      'system.alert'
-    ]
-    
-    const invalidEvents = body.events.filter(event => !validEvents.includes(event))
+    const invalidEvents = body.events.filter(event => !isWebhookEventType(event))
     if (invalidEvents.length > 0) {
       return NextResponse.json(
-        { error: `Invalid events: ${invalidEvents.join(', ')}` },
+        { error: `Invalid events: ${invalidEvents.join(', ')}`, validEvents: WEBHOOK_EVENTS },
         { status: 400 }
       )
     }
-    
-    // Generate webhook secret if not provided
-    const webhookSecret = body.secret || crypto.randomBytes(32).toString('hex')
-    
-    // Create subscription
-    const subscriptionId = `wh_${crypto.randomBytes(16).toString('hex')}`
-    const subscription = {
-      id: subscriptionId,
-      apiKey: apiKey,
-      subscription: {
-        ...body,
-        secret: webhookSecret
-      },
-      createdAt: new Date().toISOString(),
-      active: true
-    }
-    
-    // Store subscription
-    webhookSubscriptions.set(subscriptionId, subscription)
-    
+
+    // Create subscription; a secret is generated if not provided
+    const webhooks = getWebhookService()
+    const { subscription, secret } = await webhooks.subscribe({
+      apiKeyId: apiKey.id,
+      userId: user.id,
+      facilityId: apiKey.facilityId,
+      url: body.url,
+      events: body.events,
+      filters: body.filters,
+      secret: body.secret
+    })
+
     // Test webhook with ping event
-    const testResult = await testWebhook(body.url, webhookSecret)
-    
-    logger.info('api', `Webhook subscription created: ${subscriptionId}`)
-    
+    const testResult = await webhooks.ping(body.url, secret)
+
+    logger.info('api', `Webhook subscription created: ${subscription.id}`)
+
     return NextResponse.json({
-      id: subscriptionId,
-      events: body.events,
-      url: body.url,
-      secret: webhookSecret,
+      id: subscription.id,
+      events: subscription.events,
+      url: subscription.url,
+      secret,
       filters: body.filters,
       status: 'active',
       testResult: testResult,
@@ -111,12 +74,12 @@ export async function POST(req: NextRequest) {
       version: '1.0',
       message: 'Webhook subscription created successfully'
     })
-    
+
   } catch (error) {
     logger.error('api', 'Webhook subscription error:', error instanceof Error ? error : new Error(String(error)))
-    if (error instanceof Error) {
+    if (error instanceof SyntaxError) {
       return NextResponse.json(
-        { error: error.message },
+        { error: 'Invalid JSON body' },
         { status: 400 }
       )
     }
@@ -129,35 +92,34 @@ export async function POST(req: NextRequest) {
 
 export async function GET(req: NextRequest) {
   try {
-    // TODO: Add proper API key validation
-    const apiKey = req.headers.get('x-api-key')
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'Missing API key' },
-        { status: 401 }
-      )
-    }
-    
+    const authResult = await validateApiKey(req, 'webhooks:read')
+    if ('status' in authResult) return authResult
+
     // Get subscriptions for this API key
-    const subscriptions = Array.from(webhookSubscriptions.values())
-      .filter(sub => sub.apiKey === apiKey)
-      .map(sub => ({
-        id: sub.id,
-        events: sub.subscription.events,
-        url: sub.subscription.url,
-        filters: sub.subscription.filters,
-        status: sub.active ? 'active' : 'inactive',
-        createdAt: sub.createdAt
-      }))
-    
+    const records = await prisma.webhookSubscription.findMany({
+      where: { apiKeyId: authResult.apiKey.id },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    const subscriptions = records.map(sub => ({
+      id: sub.id,
+      events: sub.events,
+      url: sub.url,
+      filters: sub.filters,
+      status: sub.active ? 'active' : 'inactive',
+      failureCount: sub.failureCount,
+      lastDeliveryAt: sub.lastDeliveryAt,
+      createdAt: sub.createdAt
+    }))
+
     logger.info('api', `Retrieved ${subscriptions.length} webhook subscriptions`)
-    
+
     return NextResponse.json({
       subscriptions,
       total: subscriptions.length,
       version: '1.0'
     })
-    
+
   } catch (error) {
     logger.error('api', 'Get webhook subscriptions error:', error instanceof Error ? error : new Error(String(error)))
     return NextResponse.json(
@@ -169,47 +131,41 @@ export async function GET(req: NextRequest) {
 
 export async function DELETE(req: NextRequest) {
   try {
-    // TODO: Add proper API key validation
-    const apiKey = req.headers.get('x-api-key')
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'Missing API key' },
-        { status: 401 }
-      )
-    }
-    
+    const authResult = await validateApiKey(req, 'webhooks:write')
+    if ('status' in authResult) return authResult
+
     // Get subscription ID from URL
     const { searchParams } = new URL(req.url)
     const subscriptionId = searchParams.get('id')
-    
+
     if (!subscriptionId) {
       return NextResponse.json(
         { error: 'Subscription ID is required' },
         { status: 400 }
       )
     }
-    
+
     // Check if subscription exists and belongs to this API key
-    const subscription = webhookSubscriptions.get(subscriptionId)
-    if (!subscription || subscription.apiKey !== apiKey) {
+    const subscription = await prisma.webhookSubscription.findUnique({ where: { id: subscriptionId } })
+    if (!subscription || subscription.apiKeyId !== authResult.apiKey.id) {
       return NextResponse.json(
         { error: 'Subscription not found' },
         { status: 404 }
       )
     }
-    
-    // Delete subscription
-    webhookSubscriptions.delete(subscriptionId)
-    
+
+    // Delete subscription with its delivery log
+    await prisma.webhookSubscription.delete({ where: { id: subscriptionId } })
+
     logger.info('api', `Webhook subscription deleted: ${subscriptionId}`)
-    
+
     return NextResponse.json({
       id: subscriptionId,
       status: 'deleted',
       version: '1.0',
       message: 'Webhook subscription deleted successfully'
     })
-    
+
   } catch (error) {
     logger.error('api', 'Delete webhook subscription error:', error instanceof Error ? error : new Error(String(error)))
     return NextResponse.json(
@@ -227,40 +183,3 @@ function isValidUrl(url: string): boolean {
     return false
   }
 }
-
-async function testWebhook(url: string, secret: string): Promise<any> {
-  try {
-    const testPayload = {
-      event: 'webhook.test',
-      timestamp: new Date().toISOString(),
-      data: {
-        message: 'Webhook endpoint test'
-      }
-    }
-    
-    const signature = crypto
-      .createHmac('sha256', secret)
-      .update(JSON.stringify(testPayload))
-      .digest('hex')
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Webhook-Signature': signature
-      },
-      body: JSON.stringify(testPayload)
-    })
-    
-    return {
-      success: response.ok,
-      statusCode: response.status,
-      message: response.ok ? 'Webhook test successful' : 'Webhook test failed'
-    }
-  } catch (error) {
-    return {
-      success: false,
-      message: 'Failed to reach webhook endpoint'
-    }
-  }
-}
\ No newline at end of file
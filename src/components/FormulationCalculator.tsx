@@ -36,6 +36,7 @@ import {
   separateFertilizersIntoTanks,
   getFertilizersWithElement
 } from '@/lib/fertilizer-database'
+import { FertilizerSolution, solveFertilizerRecipe } from '@/lib/fertilizer-solver'
 
 interface FormulationCalculatorProps {
   recipe: CustomNutrientRecipe
@@ -94,6 +95,8 @@ export function FormulationCalculator({
   const [optimizationMode, setOptimizationMode] = useState<'cost' | 'accuracy' | 'balanced'>('balanced')
   const [maxIterations, setMaxIterations] = useState(100)
   const [showFertilizerDetails, setShowFertilizerDetails] = useState(false)
+  const [solution, setSolution] = useState<FertilizerSolution | null>(null)
+  const [solverError, setSolverError] = useState<string | null>(null)
 
   // Stock solution volume
   const stockVolume = waterVolume / concentrationFactor
@@ -320,6 +323,34 @@ export function FormulationCalculator({
     }
   }, [selectedFertilizers, customAmounts, recipe, waterVolume, concentrationFactor])
 
+  // Pick and weigh salts with the LP solver instead of the per-salt estimate above
+  const solveWeighings = () => {
+    try {
+      const result = solveFertilizerRecipe(recipe, {
+        fertilizers: selectedFertilizers.length > 0 ? selectedFertilizers : undefined,
+        concentrationFactor,
+        tankVolume: stockVolume,
+        errorPenalty: optimizationMode === 'cost' ? 10 : optimizationMode === 'accuracy' ? 1000 : 100,
+        sourceWater: {
+          ph: waterAnalysis.pH,
+          ions: {
+            calcium: waterAnalysis.Ca * 2 / 40.08,
+            magnesium: waterAnalysis.Mg * 2 / 24.31,
+            sulfate: waterAnalysis.S * 2 / 32.06,
+            sodium: waterAnalysis.Na / 22.99,
+            chloride: waterAnalysis.Cl / 35.45,
+            bicarbonate: waterAnalysis.alkalinity / 50 // ppm CaCO3
+          }
+        }
+      })
+      setSolution(result)
+      setSolverError(null)
+    } catch (error) {
+      setSolution(null)
+      setSolverError(error instanceof Error ? error.message : 'Solver failed')
+    }
+  }
+
   const saveFormulation = () => {
     if (!calculationResult || !onSave) return
 
@@ -525,13 +556,22 @@ export function FormulationCalculator({
 
         {/* Advanced Options */}
         <div className="mt-4 pt-4 border-t border-gray-700">
-          <button
-            onClick={() => setShowAdvancedOptions(!showAdvancedOptions)}
-            className="text-sm text-purple-400 hover:text-purple-300 flex items-center gap-1"
-          >
-            Advanced Options
-            {showAdvancedOptions ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-          </button>
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setShowAdvancedOptions(!showAdvancedOptions)}
+              className="text-sm text-purple-400 hover:text-purple-300 flex items-center gap-1"
+            >
+              Advanced Options
+              {showAdvancedOptions ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={solveWeighings}
+              className="flex items-center gap-2 px-3 py-1.5 bg-purple-600 hover:bg-purple-700 rounded text-sm transition-colors"
+            >
+              <Target className="w-4 h-4" />
+              Solve Weighings
+            </button>
+          </div>
           
           {showAdvancedOptions && (
             <div className="mt-4 space-y-3">
@@ -560,6 +600,81 @@ export function FormulationCalculator({
         </div>
       </div>
 
+      {solverError && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 text-sm text-red-200">
+          {solverError}
+        </div>
+      )}
+
+      {/* Solved Stock Tank Weighings */}
+      {solution && (
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h3 className="text-lg font-medium text-gray-100 mb-4 flex items-center gap-2">
+            <Target className="w-5 h-5 text-purple-400" />
+            Stock Tank Weighings
+          </h3>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+            <div>
+              <p className="text-gray-400">Predicted EC:</p>
+              <p className="text-gray-100 font-medium">{solution.predictedEC.toFixed(2)} mS/cm</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Predicted pH:</p>
+              <p className="text-gray-100 font-medium">{solution.predictedPH.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Max Element Error:</p>
+              <p className="text-gray-100 font-medium">{(solution.maxRelativeError * 100).toFixed(1)}%</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Cost:</p>
+              <p className="text-gray-100 font-medium">${(solution.costPerLiter * 1000).toFixed(2)}/m³</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            {solution.tanks.map(tank => (
+              <div key={tank.id} className="bg-gray-700 rounded-lg p-4">
+                <h4 className="font-medium text-gray-100 mb-2 flex items-center gap-2">
+                  <Beaker className="w-4 h-4 text-purple-400" />
+                  Stock Tank {tank.id} ({tank.volume.toFixed(1)} L)
+                </h4>
+                <div className="space-y-1 text-sm">
+                  {tank.weighings.map(weighing => (
+                    <div key={weighing.fertilizerId} className="flex justify-between">
+                      <span className="text-gray-300">{weighing.order}. {weighing.name}</span>
+                      <span className="text-gray-100">
+                        {weighing.millilitres !== undefined
+                          ? `${weighing.millilitres.toFixed(1)} mL`
+                          : `${weighing.grams.toFixed(1)} g`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2 text-xs">
+            {Object.entries(solution.residuals).map(([element, residual]) => (
+              <div key={element} className="bg-gray-700 rounded p-2">
+                <p className="text-gray-400">{element}</p>
+                <p className="text-gray-100">{residual.achieved.toFixed(2)} / {residual.target} ppm</p>
+              </div>
+            ))}
+          </div>
+
+          {solution.warnings.length > 0 && (
+            <div className="mt-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 text-sm text-yellow-200">
+              {solution.warnings.map((warning, idx) => (
+                <p key={idx} className="mb-1">{warning}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Calculation Results */}
       {calculationResult && (
         <>
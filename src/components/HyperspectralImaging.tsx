@@ -21,6 +21,7 @@ import {
   TrendingUp
 } from 'lucide-react'
 import { HyperspectralAnalyzer } from '@/lib/hyperspectral/hyperspectral-analyzer'
+import { blobSource, importEnviCube, parseEnviHeader } from '@/lib/hyperspectral/envi-import'
 import type { 
   HyperspectralData, 
   VegetationIndex, 
@@ -41,8 +42,10 @@ export function HyperspectralImaging({ onDataCapture }: HyperspectralImagingProp
   const [nutrientStatus, setNutrientStatus] = useState<NutrientStatus | null>(null)
   const [selectedPoint, setSelectedPoint] = useState<{ x: number; y: number } | null>(null)
   const [showSettings, setShowSettings] = useState(false)
+  const [importStatus, setImportStatus] = useState<string | null>(null)
   
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
   const analyzer = new HyperspectralAnalyzer()
   
   // Settings
@@ -96,6 +99,10 @@ export function HyperspectralImaging({ onDataCapture }: HyperspectralImagingProp
       }
     }
     
+    applyCapture(data)
+  }
+  
+  const applyCapture = (data: HyperspectralData[]) => {
     setCapturedData(data)
     
     // Analyze a sample point
@@ -117,6 +124,47 @@ export function HyperspectralImaging({ onDataCapture }: HyperspectralImagingProp
     onDataCapture?.(data)
   }
   
+  // Import an ENVI cube: select the .hdr/raw pair plus optional WHITEREF/DARKREF pairs
+  const importEnviFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    const list = Array.from(files)
+    const baseName = (name: string) => name.replace(/\.[^.]+$/, '')
+    const pairs = list
+      .filter(file => file.name.toLowerCase().endsWith('.hdr'))
+      .map(hdr => ({
+        hdr,
+        raw: list.find(file => file !== hdr && baseName(file.name) === baseName(hdr.name))
+      }))
+    const scene = pairs.find(pair => !/white|dark/i.test(pair.hdr.name))
+    if (!scene?.raw) {
+      setImportStatus('Select an ENVI .hdr file together with its raw data file')
+      return
+    }
+    const reference = async (pattern: RegExp) => {
+      const pair = pairs.find(p => pattern.test(p.hdr.name) && p.raw)
+      return pair?.raw ? { header: await pair.hdr.text(), source: blobSource(pair.raw) } : undefined
+    }
+    
+    setIsCapturing(false)
+    try {
+      const header = parseEnviHeader(await scene.hdr.text())
+      const result = await importEnviCube(header, blobSource(scene.raw), {
+        references: { white: await reference(/white/i), dark: await reference(/dark/i) },
+        // One cell per map pixel at the configured spatial resolution
+        binSize: Math.ceil(Math.max(header.samples, header.lines, 1) / settings.spatialResolution),
+        onProgress: ({ linesDone, lines, pass }) =>
+          setImportStatus(`Processing ${scene.hdr.name}: pass ${pass}, line ${linesDone}/${lines}`)
+      })
+      setImportStatus(
+        `${scene.hdr.name}: ${result.width}×${result.height}, ${(result.plantFraction * 100).toFixed(1)}% plant` +
+        (result.warnings.length > 0 ? ` (${result.warnings.join('; ')})` : '')
+      )
+      applyCapture(result.cells)
+    } catch (error) {
+      setImportStatus(`Import failed: ${(error as Error).message}`)
+    }
+  }
+  
   // Render hyperspectral visualization
   const renderHyperspectralMap = (data: HyperspectralData[]) => {
     const canvas = canvasRef.current
@@ -318,6 +366,23 @@ export function HyperspectralImaging({ onDataCapture }: HyperspectralImagingProp
           >
             <Settings className="w-5 h-5 text-gray-400" />
           </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={event => {
+              importEnviFiles(event.target.files)
+              event.target.value = ''
+            }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            Import ENVI
+          </button>
           <button
             onClick={exportData}
             disabled={capturedData.length === 0}
@@ -349,6 +414,10 @@ export function HyperspectralImaging({ onDataCapture }: HyperspectralImagingProp
         </div>
       </div>
       
+      {importStatus && (
+        <p className="mb-4 text-sm text-gray-400">{importStatus}</p>
+      )}
+      
       {/* Main Content */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Hyperspectral Visualization */}
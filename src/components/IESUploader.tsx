@@ -3,7 +3,8 @@
 import { useState, useRef } from 'react'
 import { Upload, File, Check, X, AlertCircle } from 'lucide-react'
 import { logger } from '@/lib/logging/production-logger';
-import { convertUploadedIES, extractPhotometricSummary, type ParsedIESFile } from '@/lib/ies-parser'
+import { extractPhotometricSummary, type ParsedIESFile } from '@/lib/ies-parser'
+import { convertUploadedPhotometricFile, isPhotometricFileName } from '@/lib/photometric/photometric-file'
 
 interface IESUploaderProps {
   onIESUploaded: (iesData: ParsedIESFile) => void
@@ -18,8 +19,8 @@ export function IESUploader({ onIESUploaded, className = '' }: IESUploaderProps)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleFileUpload = async (file: File) => {
-    if (!file.name.toLowerCase().endsWith('.ies')) {
-      setErrorMessage('Please upload a valid .ies file')
+    if (!isPhotometricFileName(file.name)) {
+      setErrorMessage('Please upload a valid .ies or .ldt file')
       setUploadStatus('error')
       return
     }
@@ -28,7 +29,7 @@ export function IESUploader({ onIESUploaded, className = '' }: IESUploaderProps)
     setErrorMessage('')
 
     try {
-      const parsedIES = await convertUploadedIES(file)
+      const parsedIES = await convertUploadedPhotometricFile(file)
       setUploadedFile(parsedIES)
       setUploadStatus('success')
       onIESUploaded(parsedIES)
@@ -97,14 +98,14 @@ export function IESUploader({ onIESUploaded, className = '' }: IESUploaderProps)
               Upload IES Photometric File
             </p>
             <p className="text-gray-400 text-xs">
-              Drag & drop or click to select .ies file
+              Drag & drop or click to select .ies or .ldt file
             </p>
           </div>
           
           <input
             ref={fileInputRef}
             type="file"
-            accept=".ies"
+            accept=".ies,.ldt"
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { YieldModelTrainer, TrainingData, tf } from '@/lib/ml/yield-model-training';
+import { YieldModelTrainer, TrainingData } from '@/lib/ml/yield-model-training';
 import {
   Brain,
   Upload,
@@ -109,18 +109,16 @@ export function MLModelTraining() {
 
     try {
       const trainedModel = await trainer.train(trainingData, {
-        epochs: 50,
-        batchSize: 32,
-        validationSplit: 0.2,
+        folds: 5,
+        seed: 42,
         callbacks: {
-          onEpochEnd: (epoch, logs) => {
-            setTrainingProgress((epoch + 1) / 50 * 100);
+          onFoldEnd: (step, logs) => {
+            setTrainingProgress((step + 1) / logs.total * 100);
             setTrainingHistory(prev => [...prev, {
-              epoch: epoch + 1,
-              loss: logs?.loss || 0,
-              val_loss: logs?.val_loss || 0,
-              mae: logs?.meanAbsoluteError || 0,
-              val_mae: logs?.val_meanAbsoluteError || 0
+              epoch: step + 1,
+              model: logs.model,
+              loss: logs.loss,
+              val_loss: logs.val_loss
             }]);
           }
         }
@@ -129,17 +127,19 @@ export function MLModelTraining() {
       setModelMetrics(trainedModel.metadata.metrics);
       
       // Generate predictions for visualization
-      const testPredictions = [];
+      const testPredictions: { actual: number; predicted: number; lower: number; upper: number; error: number }[] = [];
       const testIndices = Array.from({ length: 100 }, () => 
         Math.floor(crypto.getRandomValues(new Uint32Array(1))[0] / 0xFFFFFFFF * trainingData.length)
       );
       
       for (const idx of testIndices) {
         const sample = trainingData[idx];
-        const predicted = trainer.predict(sample.inputs);
+        const { yield: predicted, lower, upper } = trainer.predictWithInterval(sample.inputs);
         testPredictions.push({
           actual: sample.output.yield,
           predicted,
+          lower,
+          upper,
           error: Math.abs(predicted - sample.output.yield)
         });
       }
@@ -156,8 +156,15 @@ export function MLModelTraining() {
   // Save model
   const saveModel = async () => {
     try {
+      const response = await fetch('/api/ml/models', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'vibelux-yield-model', type: 'yield', artifact: trainer.getArtifact() })
+      });
+      if (!response.ok) throw new Error(`Registry returned ${response.status}`);
       await trainer.saveModel('vibelux-yield-model');
-      alert('Model saved successfully');
+      const { champion } = await response.json();
+      alert(champion ? 'Model saved and deployed as the yield champion' : 'Model saved successfully');
     } catch (error) {
       alert('Error saving model');
     }
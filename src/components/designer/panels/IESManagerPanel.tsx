@@ -2,7 +2,7 @@
 
 import React, { useState, useRef } from 'react';
 import { X, FileText, Upload, Download, Search, Eye, Trash2, Edit, FolderOpen, Info, CheckCircle, AlertCircle } from 'lucide-react';
-import { parseIESFile } from '@/lib/ies-parser';
+import { parsePhotometricFile, isPhotometricFileName } from '@/lib/photometric/photometric-file';
 import { useDesigner } from '@/components/designer/context/DesignerContext';
 import type { FixtureModel } from '@/components/FixtureLibrary';
 
@@ -85,10 +85,10 @@ export function IESManagerPanel({ onClose }: IESManagerPanelProps) {
         const file = files[i];
         
         // Check file extension
-        if (!file.name.endsWith('.ies')) {
+        if (!isPhotometricFileName(file.name)) {
           showNotification({
             type: 'error',
-            message: `${file.name} is not an IES file`,
+            message: `${file.name} is not an IES or EULUMDAT file`,
             duration: 3000
           });
           continue;
@@ -99,7 +99,7 @@ export function IESManagerPanel({ onClose }: IESManagerPanelProps) {
         
         try {
           // Parse IES file
-          const parsedIES = await parseIESFile(content);
+          const parsedIES = parsePhotometricFile(content, file.name);
           
           // Create new IES file entry
           const newIESFile: IESFile = {
@@ -244,7 +244,7 @@ export function IESManagerPanel({ onClose }: IESManagerPanelProps) {
               <input 
                 ref={fileInputRef}
                 type="file" 
-                accept=".ies" 
+                accept=".ies,.ldt" 
                 multiple
                 className="hidden" 
                 id="ies-upload" 
@@ -253,7 +253,7 @@ export function IESManagerPanel({ onClose }: IESManagerPanelProps) {
               <label htmlFor="ies-upload" className="text-sm text-blue-400 hover:text-blue-300 cursor-pointer">
                 Select Files
               </label>
-              <p className="text-xs text-gray-500 mt-2">Supports multiple IES files at once</p>
+              <p className="text-xs text-gray-500 mt-2">Supports multiple IES and EULUMDAT (.ldt) files at once</p>
             </>
           )}
         </div>
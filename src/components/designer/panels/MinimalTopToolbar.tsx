@@ -13,7 +13,8 @@ import {
 } from 'lucide-react';
 import { useDesigner } from '../context/DesignerContext';
 import { useNotifications } from '../context/NotificationContext';
-import { saveProject, importProject } from '../utils/projectHandlers';
+import { saveProject, exportProject, importProject } from '../utils/projectHandlers';
+import { VLXFormatError } from '@/lib/fileFormats/vlxFormat';
 import { logger } from '@/lib/client-logger';
 import { cropDatabase, cropCategories, getCropData } from '@/lib/crop-database';
 import { CropDetailsModal } from './CropDetailsModal';
@@ -168,7 +169,7 @@ export function MinimalTopToolbar({
 
 
 
-  const handleSave = () => {
+  const handleSave = async () => {
     try {
       if (!state) {
         logger.error('system', 'State is undefined');
@@ -183,18 +184,8 @@ export function MinimalTopToolbar({
         return;
       }
       
-      const project = saveProject(state);
-      
-      // Also export as a download for backup
-      const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `vibelux-project-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      // Saves locally and downloads a .vlx copy for backup
+      await exportProject(state);
       
       showNotification('success', 'Project saved successfully');
     } catch (error) {
@@ -206,16 +197,16 @@ export function MinimalTopToolbar({
   const handleLoad = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = '.vlx,.json';
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
         try {
-          const project = await importProject(file);
-          dispatch({ type: 'LOAD_PROJECT', payload: project.state as any });
+          const project = await importProject(file, () => window.prompt('This project is encrypted. Enter the passphrase:'));
+          dispatch({ type: 'LOAD_PROJECT', payload: { ...state, ...project.state } as any });
           showNotification('success', `Project "${project.name}" loaded successfully`);
         } catch (error) {
-          showNotification('error', 'Failed to load project');
+          showNotification('error', error instanceof VLXFormatError ? `Failed to load project: ${error.message}` : 'Failed to load project');
         }
       }
     };
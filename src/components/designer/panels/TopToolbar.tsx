@@ -14,6 +14,7 @@ import { useDesigner } from '../context/DesignerContext';
 import { useNotifications } from '../context/NotificationContext';
 import { exportToPDF, exportToExcel, exportToCAD } from '../utils/exportHandlers';
 import { saveProject, exportProject, importProject } from '../utils/projectHandlers';
+import { VLXFormatError } from '@/lib/fileFormats/vlxFormat';
 import { BIMImportDialog } from '../features/BIMImportDialog';
 import { BIMImporter } from '../utils/bimImporter';
 import { CADImportModal } from '../CADImportModal';
@@ -79,10 +80,17 @@ export function TopToolbar({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleExport = async (format: 'pdf' | 'excel' | 'cad' | 'ifc' | 'gbxml' | 'professional' | 'bom') => {
+  const handleExport = async (format: 'vlx' | 'pdf' | 'excel' | 'cad' | 'ifc' | 'gbxml' | 'professional' | 'bom') => {
     setShowExportMenu(false);
     try {
       switch (format) {
+        case 'vlx': {
+          const passphrase = window.prompt('Passphrase to encrypt the project (leave empty for none):');
+          if (passphrase === null) break;
+          await exportProject(state, passphrase || undefined);
+          showNotification('success', passphrase ? 'Encrypted project file exported' : 'Project file exported');
+          break;
+        }
         case 'pdf':
           await exportToPDF(state);
           showNotification('success', 'PDF report generated successfully');
@@ -146,16 +154,18 @@ export function TopToolbar({
   const handleLoad = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = '.vlx,.json';
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
         try {
-          const project = await importProject(file);
-          dispatch({ type: 'LOAD_PROJECT', payload: project.state as any });
+          const project = await importProject(file, () => window.prompt('This project is encrypted. Enter the passphrase:'));
+          dispatch({ type: 'LOAD_PROJECT', payload: { ...state, ...project.state } as any });
           showNotification('success', `Project "${project.name}" loaded successfully`);
         } catch (error) {
-          showNotification('error', 'Failed to load project. Please check the file format.');
+          showNotification('error', error instanceof VLXFormatError
+            ? `Failed to load project: ${error.message}`
+            : 'Failed to load project. Please check the file format.');
         }
       }
     };
@@ -220,6 +230,16 @@ export function TopToolbar({
             
             {showExportMenu && (
               <div className="absolute top-full left-0 mt-1 w-64 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 z-50">
+                <button
+                  onClick={() => handleExport('vlx')}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-3"
+                >
+                  <Save className="w-4 h-4" />
+                  <div>
+                    <div className="font-medium text-gray-900 dark:text-gray-100">Vibelux Project</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">Shareable .vlx file, optional passphrase</div>
+                  </div>
+                </button>
                 <button
                   onClick={() => handleExport('pdf')}
                   className="w-full px-4 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-3"
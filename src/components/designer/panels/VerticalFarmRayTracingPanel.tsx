@@ -4,6 +4,8 @@ import React, { useState, useRef, useEffect } from 'react';
 import { X, Play, Settings, Download, Eye, Lightbulb, Target, BarChart3 } from 'lucide-react';
 import { useDesigner } from '../context/DesignerContext';
 import { MultiLayerCanopyRayTracer, CanopyLayer, LeafOpticalProperties, SpectralPowerDistribution } from '@/lib/photonics/multi-layer-canopy-raytracer';
+import { calculateCanopyAssimilation, CanopyAssimilation } from '@/lib/photonics/canopy-photosynthesis';
+import { CROP_MODELS, CropGrowthCalculator } from '@/lib/crop-growth-models';
 import { vec3 } from 'gl-matrix';
 
 interface RayTracingResults {
@@ -13,6 +15,12 @@ interface RayTracingResults {
   totalPPFD: number;
   lightCapture: number;
   recommendation: string;
+  assimilation: CanopyAssimilation;
+}
+
+interface LayoutRanking {
+  label: string;
+  carbonGain: number; // g CO2/m²/day
 }
 
 interface VerticalFarmRayTracingPanelProps {
@@ -26,6 +34,7 @@ export function VerticalFarmRayTracingPanel({ onClose }: VerticalFarmRayTracingP
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [results, setResults] = useState<RayTracingResults | null>(null);
+  const [layoutRanking, setLayoutRanking] = useState<LayoutRanking[]>([]);
   const [settings, setSettings] = useState({
     cropType: 'lettuce',
     layerHeight: 0.8, // meters
@@ -38,6 +47,7 @@ export function VerticalFarmRayTracingPanel({ onClose }: VerticalFarmRayTracingP
   const cropProfiles = {
     lettuce: {
       name: 'Lettuce',
+      cropModel: 'lettuce_butterhead',
       lai: 2.5,
       leafAngle: 'spherical' as const,
       chlorophyll: 30,
@@ -45,6 +55,7 @@ export function VerticalFarmRayTracingPanel({ onClose }: VerticalFarmRayTracingP
     },
     basil: {
       name: 'Basil',
+      cropModel: 'basil_genovese',
       lai: 3.2,
       leafAngle: 'spherical' as const,
       chlorophyll: 35,
@@ -52,6 +63,7 @@ export function VerticalFarmRayTracingPanel({ onClose }: VerticalFarmRayTracingP
     },
     spinach: {
       name: 'Spinach',
+      cropModel: 'lettuce_butterhead',
       lai: 2.8,
       leafAngle: 'planophile' as const,
       chlorophyll: 40,
@@ -59,6 +71,7 @@ export function VerticalFarmRayTracingPanel({ onClose }: VerticalFarmRayTracingP
     },
     kale: {
       name: 'Kale',
+      cropModel: 'lettuce_butterhead',
       lai: 3.5,
       leafAngle: 'erectophile' as const,
       chlorophyll: 45,
@@ -133,6 +146,11 @@ export function VerticalFarmRayTracingPanel({ onClose }: VerticalFarmRayTracingP
       // Run ray tracing simulation
       const result = await rayTracer.trace(0.1); // 10cm grid resolution
 
+      // Predicted assimilation under the crop's vegetative growing conditions
+      const cropModel = CROP_MODELS[cropProfile.cropModel];
+      const stage = cropModel.stages.find(s => s.name === 'Vegetative') || cropModel.stages[cropModel.stages.length - 1];
+      const assimilation = calculateCanopyAssimilation(rayTracer, result, CropGrowthCalculator.assimilationEnvironment(stage));
+
       // Process results
       const processedResults: RayTracingResults = {
         ppfdByLayer: result.ppfdByLayer,
@@ -140,10 +158,18 @@ export function VerticalFarmRayTracingPanel({ onClose }: VerticalFarmRayTracingP
         penetrationProfile: calculatePenetrationProfile(result),
         totalPPFD: Array.from(result.ppfdByLayer.values()).reduce((sum, ppfd) => sum + ppfd, 0),
         lightCapture: calculateLightCapture(result, fixtures),
-        recommendation: generateRecommendation(result, cropProfile, fixtures.length)
+        recommendation: generateRecommendation(result, cropProfile, fixtures.length),
+        assimilation
       };
 
       setResults(processedResults);
+      setLayoutRanking(prev => [
+        ...prev,
+        {
+          label: `${settings.numberOfLayers} layers × ${settings.layerHeight}m, ${fixtures.length} fixtures`,
+          carbonGain: assimilation.daily.carbonGain * 44.01
+        }
+      ].sort((a, b) => b.carbonGain - a.carbonGain));
       visualizeResults(processedResults);
 
     } catch (error) {
@@ -293,8 +319,10 @@ export function VerticalFarmRayTracingPanel({ onClose }: VerticalFarmRayTracingP
         penetrationProfile: results.penetrationProfile,
         totalPPFD: results.totalPPFD,
         lightCapture: results.lightCapture,
-        recommendation: results.recommendation
-      }
+        recommendation: results.recommendation,
+        assimilation: results.assimilation
+      },
+      layoutRanking
     };
     
     const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
@@ -505,12 +533,23 @@ export function VerticalFarmRayTracingPanel({ onClose }: VerticalFarmRayTracingP
                       PPFD by Layer
                     </h4>
                     <div className="space-y-2">
-                      {Array.from(results.ppfdByLayer.entries()).map(([layerId, ppfd], index) => (
-                        <div key={layerId} className="flex justify-between">
-                          <span className="text-gray-300">Layer {index + 1}</span>
-                          <span className="text-green-400 font-medium">{ppfd.toFixed(0)} μmol/m²/s</span>
-                        </div>
-                      ))}
+                      {Array.from(results.ppfdByLayer.entries()).map(([layerId, ppfd], index) => {
+                        const layerAssimilation = results.assimilation.layers.find(layer => layer.layerId === layerId);
+                        return (
+                          <div key={layerId}>
+                            <div className="flex justify-between">
+                              <span className="text-gray-300">Layer {index + 1}</span>
+                              <span className="text-green-400 font-medium">{ppfd.toFixed(0)} μmol/m²/s</span>
+                            </div>
+                            {layerAssimilation && (
+                              <div className="flex justify-between text-xs">
+                                <span className="text-gray-500">Assimilation</span>
+                                <span className="text-emerald-300">{layerAssimilation.assimilation.toFixed(1)} μmol CO₂/m²/s</span>
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
                     </div>
                   </div>
 
@@ -542,6 +581,25 @@ export function VerticalFarmRayTracingPanel({ onClose }: VerticalFarmRayTracingP
                         <div className="text-gray-300 text-sm">Light Capture</div>
                         <div className="text-purple-400 font-medium">{results.lightCapture.toFixed(1)}%</div>
                       </div>
+                      <div>
+                        <div className="text-gray-300 text-sm">Daily Carbon Gain</div>
+                        <div className="text-emerald-400 font-medium">
+                          {(results.assimilation.daily.carbonGain * 44.01).toFixed(1)} g CO₂/m²/day
+                        </div>
+                      </div>
+                      {layoutRanking.length > 1 && (
+                        <div>
+                          <div className="text-gray-300 text-sm mb-1">Layout Ranking</div>
+                          <ol className="space-y-1">
+                            {layoutRanking.slice(0, 5).map((layout, index) => (
+                              <li key={index} className="flex justify-between text-xs">
+                                <span className="text-gray-400">{index + 1}. {layout.label}</span>
+                                <span className="text-emerald-300">{layout.carbonGain.toFixed(1)}</span>
+                              </li>
+                            ))}
+                          </ol>
+                        </div>
+                      )}
                       <div className="mt-4 p-3 bg-gray-700 rounded">
                         <div className="text-gray-300 text-sm mb-1">Recommendation</div>
                         <div className="text-gray-100 text-xs">{results.recommendation}</div>
@@ -1,4 +1,5 @@
 import type { DesignerState } from '../context/types';
+import { VLXFormat, VLXFormatError, VLX_FILE_EXTENSION, VLX_MIME_TYPE } from '@/lib/fileFormats/vlxFormat';
 
 const PROJECT_STORAGE_KEY = 'vibelux_designer_project';
 const RECENT_PROJECTS_KEY = 'vibelux_recent_projects';
@@ -58,40 +59,55 @@ export function deleteProject(projectId: string) {
   localStorage.setItem(RECENT_PROJECTS_KEY, JSON.stringify(updated));
 }
 
-export function exportProject(state: DesignerState) {
+export async function exportProject(state: DesignerState, passphrase?: string) {
   const project = saveProject(state);
-  
-  const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+  const data = await VLXFormat.writeVLX(VLXFormat.fromDesignerProject(project), { passphrase });
+
+  const blob = new Blob([data as BlobPart], { type: VLX_MIME_TYPE });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = `vibelux-project-${project.id}.json`;
+  a.download = `vibelux-project-${project.id}${VLX_FILE_EXTENSION}`;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 }
 
-export function importProject(file: File): Promise<Project> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const project = JSON.parse(e.target?.result as string) as Project;
-        // Update timestamps
-        project.updatedAt = new Date().toISOString();
-        
-        // Save to recent projects
-        const recentProjects = getRecentProjects();
-        const updated = [project, ...recentProjects.filter(p => p.id !== project.id)].slice(0, 10);
-        localStorage.setItem(RECENT_PROJECTS_KEY, JSON.stringify(updated));
-        
-        resolve(project);
-      } catch (error) {
-        reject(new Error('Invalid project file'));
+// Opens .vlx archives and older .json exports; asks for a passphrase only when the file is encrypted
+export async function importProject(
+  file: File,
+  requestPassphrase?: () => string | null | Promise<string | null>
+): Promise<Project> {
+  let data: Uint8Array;
+  try {
+    data = new Uint8Array(await file.arrayBuffer());
+  } catch {
+    throw new Error('Failed to read file');
+  }
+
+  try {
+    let passphrase: string | undefined;
+    if (await VLXFormat.isEncrypted(data)) {
+      passphrase = (await requestPassphrase?.()) || undefined;
+      if (!passphrase) {
+        throw new VLXFormatError('This project is encrypted and needs a passphrase', 'PASSPHRASE_REQUIRED');
       }
-    };
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.readAsText(file);
-  });
-}
\ No newline at end of file
+    }
+
+    const { bundle } = await VLXFormat.readVLX(data, { passphrase });
+    const project = VLXFormat.toDesignerProject(bundle) as Project;
+    // Update timestamps
+    project.updatedAt = new Date().toISOString();
+
+    // Save to recent projects
+    const recentProjects = getRecentProjects();
+    const updated = [project, ...recentProjects.filter(p => p.id !== project.id)].slice(0, 10);
+    localStorage.setItem(RECENT_PROJECTS_KEY, JSON.stringify(updated));
+
+    return project;
+  } catch (error) {
+    if (error instanceof VLXFormatError) throw error;
+    throw new Error('Invalid project file');
+  }
+}
@@ -1,6 +1,12 @@
 /**
  * Computational Fluid Dynamics (CFD) Engine for HVAC Airflow Modeling
- * Implements simplified Navier-Stokes equations for incompressible flow
+ * Incompressible Navier-Stokes on a staggered (MAC) grid: semi-Lagrangian
+ * advection, explicit diffusion, Boussinesq buoyancy and porous canopy drag,
+ * then a pressure Poisson projection (preconditioned conjugate gradient) that
+ * makes every fluid cell divergence-free.
+ *
+ * Grid axes follow the region sizes: position.x/width → i, position.y/height → j,
+ * position.z/depth → k. Gravity acts along -z unless gravityAxis says otherwise.
  */
 
 export interface CFDConfig {
@@ -9,20 +15,31 @@ export interface CFDConfig {
   gridSizeY: number
   gridSizeZ: number
   cellSize: number // meters
-  
+
   // Fluid properties
   airDensity: number // kg/m³
   airViscosity: number // Pa·s
   thermalDiffusivity: number // m²/s
-  
+  turbulentViscosity?: number // m²/s constant eddy viscosity added to the molecular value
+
   // Simulation parameters
   timeStep: number // seconds
-  iterations: number
-  convergenceTolerance: number
-  
+  iterations: number // maximum time steps
+  convergenceTolerance: number // steady state: max velocity (m/s) and temperature (K) change per step
+  pressureTolerance?: number // max residual divergence (1/s) accepted from the Poisson solve
+  maxPressureIterations?: number
+
   // Boundary conditions
   ambientTemperature: number // °C
   ambientPressure: number // Pa
+
+  // Body forces
+  gravity?: number // m/s²; 0 disables buoyancy
+  gravityAxis?: 'y' | 'z'
+
+  // Resource bounds
+  maxCells?: number // refuse grids larger than this
+  maxWallTimeMs?: number // stop stepping after this much wall-clock time
 }
 
 export interface BoundaryCondition {
@@ -44,11 +61,41 @@ export interface HeatSource {
   type: 'fixture' | 'equipment' | 'plant'
 }
 
+/**
+ * Plant canopy modeled as a porous zone: momentum sink -Cd·LAD·|U|·U
+ */
+export interface CanopyZone {
+  position: { x: number; y: number; z: number }
+  size: { width: number; height: number; depth: number }
+  leafAreaDensity: number // m²/m³
+  dragCoefficient?: number // dimensionless, ~0.2 for leaves
+}
+
+export interface CFDResidual {
+  step: number
+  continuity: number // max divergence after projection (1/s)
+  momentum: number // max velocity change this step (m/s)
+  energy: number // max temperature change this step (K)
+  pressureIterations: number
+}
+
+export interface CFDConvergenceReport {
+  converged: boolean
+  stopReason: 'converged' | 'max_iterations' | 'time_limit'
+  steps: number
+  simulatedTime: number // seconds
+  elapsedMs: number
+  residuals: CFDResidual[]
+}
+
 export interface CFDResult {
-  velocityField: Float32Array // 3D vector field (u, v, w)
+  grid: { nx: number; ny: number; nz: number; cellSize: number }
+  velocityField: Float32Array // Cell-centred (u, v, w) interleaved, x fastest
   temperatureField: Float32Array // 3D scalar field
-  pressureField: Float32Array // 3D scalar field
-  convergenceHistory: number[]
+  pressureField: Float32Array // 3D scalar field, gauge Pa
+  solidMask: Uint8Array // 1 where the cell is a wall or obstacle
+  convergenceHistory: number[] // momentum residual per step
+  convergence: CFDConvergenceReport
   maxVelocity: number
   minTemperature: number
   maxTemperature: number
@@ -56,432 +103,756 @@ export interface CFDResult {
   uniformityIndex: number // 0-1, how uniform the temperature distribution is
 }
 
+export class CFDLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CFDLimitError'
+  }
+}
+
+const FLUID = 0
+const SOLID = 1
+const INLET = 2
+const OUTLET = 3
+
+// Face handling, precomputed per staggered face
+const FACE_FREE = 0 // Solved for
+const FACE_FIXED = 1 // Wall (0) or inlet velocity
+const FACE_COPY_NEXT = 2 // Outflow through the low domain boundary
+const FACE_COPY_PREV = 3 // Outflow through the high domain boundary
+
+const SPECIFIC_HEAT = 1005 // J/(kg·K) for air
+const TURBULENT_PRANDTL = 0.9
+const DEFAULT_MAX_CELLS = 1_000_000
+
+interface FaceSet {
+  values: Float32Array
+  previous: Float32Array
+  kind: Uint8Array
+  fixed: Float32Array
+  drag: Float32Array // Cd·LAD on faces inside canopies
+  dims: [number, number, number]
+  offset: [number, number, number]
+  stride: number // index step along the face normal
+}
+
 export class CFDEngine {
   private config: CFDConfig
   private boundaries: BoundaryCondition[] = []
   private heatSources: HeatSource[] = []
-  
-  // Grid data - using flat arrays for performance
-  private u!: Float32Array // x-velocity
-  private v!: Float32Array // y-velocity  
-  private w!: Float32Array // z-velocity
-  private p!: Float32Array // pressure
-  private T!: Float32Array // temperature
-  private div!: Float32Array // divergence
-  
-  // Previous timestep values
-  private u0!: Float32Array
-  private v0!: Float32Array
-  private w0!: Float32Array
+  private canopies: CanopyZone[] = []
+
+  private nx: number
+  private ny: number
+  private nz: number
+  private cellType!: Uint8Array
+  private u!: FaceSet
+  private v!: FaceSet
+  private w!: FaceSet
+  private T!: Float32Array
   private T0!: Float32Array
-  
+  private inletTemperature!: Float32Array
+  private heatRate!: Float32Array // K/s per cell
+  private p!: Float64Array
+  private scratch!: Float32Array
+
+  // Pressure solve workspace over fluid cells
+  private fluidCells!: Int32Array
+  private neighborMask!: Uint8Array
+  private diagonal!: Uint8Array
+  private hasDirichlet = false
+  private prepared = false
+
   constructor(config: CFDConfig) {
-    this.config = config
+    this.config = {
+      gravity: 9.81,
+      gravityAxis: 'z',
+      turbulentViscosity: 0,
+      pressureTolerance: 1e-5,
+      maxPressureIterations: 500,
+      ...config
+    }
+    this.nx = config.gridSizeX
+    this.ny = config.gridSizeY
+    this.nz = config.gridSizeZ
+
+    const cells = this.nx * this.ny * this.nz
+    const maxCells = config.maxCells ?? DEFAULT_MAX_CELLS
+    if (cells > maxCells) {
+      throw new CFDLimitError(`Grid of ${cells} cells exceeds the ${maxCells} cell limit; coarsen cellSize`)
+    }
     this.initializeGrids()
   }
-  
+
   private initializeGrids() {
-    const size = this.config.gridSizeX * this.config.gridSizeY * this.config.gridSizeZ
-    
-    // Current values
-    this.u = new Float32Array(size)
-    this.v = new Float32Array(size)
-    this.w = new Float32Array(size)
-    this.p = new Float32Array(size)
+    const { nx, ny, nz } = this
+    const size = nx * ny * nz
+    const faces = (dims: [number, number, number], offset: [number, number, number], stride: number): FaceSet => {
+      const count = dims[0] * dims[1] * dims[2]
+      return {
+        values: new Float32Array(count),
+        previous: new Float32Array(count),
+        kind: new Uint8Array(count),
+        fixed: new Float32Array(count),
+        drag: new Float32Array(count),
+        dims,
+        offset,
+        stride
+      }
+    }
+
+    this.u = faces([nx + 1, ny, nz], [0, 0.5, 0.5], 1)
+    this.v = faces([nx, ny + 1, nz], [0.5, 0, 0.5], nx)
+    this.w = faces([nx, ny, nz + 1], [0.5, 0.5, 0], nx * ny)
+    this.cellType = new Uint8Array(size)
     this.T = new Float32Array(size).fill(this.config.ambientTemperature)
-    this.div = new Float32Array(size)
-    
-    // Previous values
-    this.u0 = new Float32Array(size)
-    this.v0 = new Float32Array(size)
-    this.w0 = new Float32Array(size)
     this.T0 = new Float32Array(size)
+    this.inletTemperature = new Float32Array(size)
+    this.heatRate = new Float32Array(size)
+    this.p = new Float64Array(size)
+    this.scratch = new Float32Array(Math.max(this.u.values.length, this.v.values.length, this.w.values.length))
   }
-  
+
   // Convert 3D coordinates to 1D array index
   private idx(i: number, j: number, k: number): number {
-    return i + j * this.config.gridSizeX + k * this.config.gridSizeX * this.config.gridSizeY
+    return i + j * this.nx + k * this.nx * this.ny
   }
-  
+
   // Add boundary conditions
   addBoundary(boundary: BoundaryCondition) {
     this.boundaries.push(boundary)
+    this.prepared = false
   }
-  
+
   // Add heat sources
   addHeatSource(source: HeatSource) {
     this.heatSources.push(source)
+    this.prepared = false
   }
-  
-  // Main simulation step
-  simulate(): CFDResult {
-    const convergenceHistory: number[] = []
-    
-    for (let iter = 0; iter < this.config.iterations; iter++) {
-      // Store previous values
-      this.u0.set(this.u)
-      this.v0.set(this.v)
-      this.w0.set(this.w)
+
+  // Add porous plant canopy
+  addCanopy(canopy: CanopyZone) {
+    this.canopies.push(canopy)
+    this.prepared = false
+  }
+
+  /**
+   * March to steady state (or the step/time limit) and return the fields
+   */
+  simulate(onProgress?: (progress: number, iteration: number) => void): CFDResult {
+    this.prepare()
+
+    const { timeStep: dt, iterations, convergenceTolerance } = this.config
+    const started = Date.now()
+    const residuals: CFDResidual[] = []
+    let stopReason: CFDConvergenceReport['stopReason'] = 'max_iterations'
+
+    for (let step = 1; step <= iterations; step++) {
+      this.u.previous.set(this.u.values)
+      this.v.previous.set(this.v.values)
+      this.w.previous.set(this.w.values)
       this.T0.set(this.T)
-      
-      // Apply boundary conditions
-      this.applyBoundaryConditions()
-      
-      // Solve velocity field (simplified Navier-Stokes)
+
+      // Momentum predictor
       this.advectVelocity()
+      this.applyBuoyancy()
+      this.applyCanopyDrag()
       this.diffuseVelocity()
-      this.projectVelocity()
-      
-      // Solve temperature field
+      this.enforceVelocityBoundaries()
+
+      // Projection
+      const pressureIterations = this.projectVelocity()
+
+      // Energy
       this.advectTemperature()
       this.diffuseTemperature()
       this.applyHeatSources()
-      
-      // Check convergence
-      const residual = this.calculateResidual()
-      convergenceHistory.push(residual)
-      
-      if (residual < this.config.convergenceTolerance) {
+
+      const residual: CFDResidual = {
+        step,
+        continuity: this.maxDivergence(),
+        momentum: this.maxChange(),
+        energy: maxDifference(this.T, this.T0, this.cellType),
+        pressureIterations
+      }
+      residuals.push(residual)
+      onProgress?.(step / iterations, step)
+
+      if (residual.momentum < convergenceTolerance && residual.energy < convergenceTolerance) {
+        stopReason = 'converged'
+        break
+      }
+      if (this.config.maxWallTimeMs !== undefined && Date.now() - started >= this.config.maxWallTimeMs) {
+        stopReason = 'time_limit'
         break
       }
     }
-    
-    return this.extractResults(convergenceHistory)
+
+    return this.extractResults({
+      converged: stopReason === 'converged',
+      stopReason,
+      steps: residuals.length,
+      simulatedTime: residuals.length * dt,
+      elapsedMs: Date.now() - started,
+      residuals
+    })
   }
-  
-  // Apply boundary conditions to the grid
-  private applyBoundaryConditions() {
+
+  // Rasterize boundaries, heat sources and canopies onto the grid
+  private prepare() {
+    if (this.prepared) return
+    const { nx, ny, nz } = this
+    this.cellType.fill(FLUID)
+    const inletVelocity = new Float32Array(nx * ny * nz * 3)
+
     for (const boundary of this.boundaries) {
-      const { position, size, type, properties } = boundary
-      
-      // Convert world coordinates to grid indices
-      const i0 = Math.floor(position.x / this.config.cellSize)
-      const j0 = Math.floor(position.y / this.config.cellSize)
-      const k0 = Math.floor(position.z / this.config.cellSize)
-      
-      const i1 = Math.ceil((position.x + size.width) / this.config.cellSize)
-      const j1 = Math.ceil((position.y + size.height) / this.config.cellSize)
-      const k1 = Math.ceil((position.z + size.depth) / this.config.cellSize)
-      
-      for (let i = i0; i < i1; i++) {
-        for (let j = j0; j < j1; j++) {
-          for (let k = k0; k < k1; k++) {
-            if (this.isValidCell(i, j, k)) {
-              const idx = this.idx(i, j, k)
-              
-              switch (type) {
-                case 'wall':
-                case 'obstacle':
-                  // No-slip condition
-                  this.u[idx] = 0
-                  this.v[idx] = 0
-                  this.w[idx] = 0
-                  break
-                  
-                case 'inlet':
-                  if (properties.velocity) {
-                    this.u[idx] = properties.velocity.x
-                    this.v[idx] = properties.velocity.y
-                    this.w[idx] = properties.velocity.z
-                  }
-                  if (properties.temperature !== undefined) {
-                    this.T[idx] = properties.temperature
-                  }
-                  break
-                  
-                case 'outlet':
-                  // Neumann boundary condition (zero gradient)
-                  // Handled in projection step
-                  break
-              }
-            }
+      const type = boundary.type === 'inlet' ? INLET : boundary.type === 'outlet' ? OUTLET : SOLID
+      this.forEachCell(boundary, (i, j, k) => {
+        const c = this.idx(i, j, k)
+        this.cellType[c] = type
+        if (type === INLET) {
+          const velocity = boundary.properties.velocity ?? { x: 0, y: 0, z: 0 }
+          inletVelocity[c * 3] = velocity.x
+          inletVelocity[c * 3 + 1] = velocity.y
+          inletVelocity[c * 3 + 2] = velocity.z
+          this.inletTemperature[c] = boundary.properties.temperature ?? this.config.ambientTemperature
+          this.T[c] = this.inletTemperature[c]
+        }
+      })
+    }
+
+    this.classifyFaces(this.u, 0, inletVelocity)
+    this.classifyFaces(this.v, 1, inletVelocity)
+    this.classifyFaces(this.w, 2, inletVelocity)
+
+    for (const canopy of this.canopies) {
+      const coefficient = (canopy.dragCoefficient ?? 0.2) * canopy.leafAreaDensity
+      for (const faces of [this.u, this.v, this.w]) {
+        this.forEachFace(faces, canopy, index => {
+          faces.drag[index] = coefficient
+        })
+      }
+    }
+
+    // Volumetric heating in K/s
+    this.heatRate.fill(0)
+    const cellVolume = Math.pow(this.config.cellSize, 3)
+    for (const source of this.heatSources) {
+      const cells: number[] = []
+      this.forEachCell(source, (i, j, k) => {
+        const c = this.idx(i, j, k)
+        if (this.cellType[c] === FLUID || this.cellType[c] === OUTLET) cells.push(c)
+      })
+      if (cells.length === 0) continue
+      const rate = source.power / (this.config.airDensity * SPECIFIC_HEAT * cellVolume * cells.length)
+      cells.forEach(c => (this.heatRate[c] += rate))
+    }
+
+    this.preparePressureSystem()
+    this.enforceVelocityBoundaries()
+    this.prepared = true
+  }
+
+  private classifyFaces(faces: FaceSet, axis: 0 | 1 | 2, inletVelocity: Float32Array) {
+    const [fx, fy, fz] = faces.dims
+    for (let k = 0; k < fz; k++) {
+      for (let j = 0; j < fy; j++) {
+        for (let i = 0; i < fx; i++) {
+          const index = i + fx * (j + fy * k)
+          const position = [i, j, k]
+          const low = position[axis] - 1
+          const high = position[axis]
+          const limit = axis === 0 ? this.nx : axis === 1 ? this.ny : this.nz
+          const cellAt = (n: number) => {
+            const at = [i, j, k]
+            at[axis] = n
+            return this.idx(at[0], at[1], at[2])
           }
+          const a = low >= 0 ? this.cellType[cellAt(low)] : -1
+          const b = high < limit ? this.cellType[cellAt(high)] : -1
+
+          faces.fixed[index] = 0
+          if (a === INLET || b === INLET) {
+            faces.kind[index] = FACE_FIXED
+            faces.fixed[index] = inletVelocity[cellAt(a === INLET ? low : high) * 3 + axis]
+          } else if (a === -1 && b === OUTLET) {
+            faces.kind[index] = FACE_COPY_NEXT
+          } else if (b === -1 && a === OUTLET) {
+            faces.kind[index] = FACE_COPY_PREV
+          } else if (a === -1 || b === -1 || a === SOLID || b === SOLID) {
+            faces.kind[index] = FACE_FIXED
+          } else {
+            faces.kind[index] = FACE_FREE
+          }
+        }
+      }
+    }
+  }
+
+  private preparePressureSystem() {
+    const { nx, ny, nz } = this
+    const fluid: number[] = []
+    this.neighborMask = new Uint8Array(nx * ny * nz)
+    this.diagonal = new Uint8Array(nx * ny * nz)
+    this.hasDirichlet = false
+
+    const neighbors: Array<[number, number, number]> = [[-1, 0, 0], [1, 0, 0], [0, -1, 0], [0, 1, 0], [0, 0, -1], [0, 0, 1]]
+    for (let k = 0; k < nz; k++) {
+      for (let j = 0; j < ny; j++) {
+        for (let i = 0; i < nx; i++) {
+          const c = this.idx(i, j, k)
+          if (this.cellType[c] !== FLUID) continue
+          fluid.push(c)
+          neighbors.forEach(([di, dj, dk], bit) => {
+            const ni = i + di
+            const nj = j + dj
+            const nk = k + dk
+            if (ni < 0 || nj < 0 || nk < 0 || ni >= nx || nj >= ny || nk >= nz) return
+            const type = this.cellType[this.idx(ni, nj, nk)]
+            if (type === FLUID) {
+              this.neighborMask[c] |= 1 << bit
+              this.diagonal[c]++
+            } else if (type === OUTLET) {
+              // Dirichlet p = 0 at outlets
+              this.diagonal[c]++
+              this.hasDirichlet = true
+            }
+          })
+        }
+      }
+    }
+    this.fluidCells = Int32Array.from(fluid)
+  }
+
+  // Apply wall, inlet and outflow faces
+  private enforceVelocityBoundaries() {
+    for (const faces of [this.u, this.v, this.w]) {
+      const { values, kind, fixed, stride } = faces
+      for (let index = 0; index < values.length; index++) {
+        switch (kind[index]) {
+          case FACE_FIXED:
+            values[index] = fixed[index]
+            break
+          case FACE_COPY_NEXT:
+            values[index] = values[index + stride]
+            break
+          case FACE_COPY_PREV:
+            values[index] = values[index - stride]
+            break
         }
       }
     }
   }
-  
-  // Advection step using semi-Lagrangian method
+
+  // Semi-Lagrangian advection of each staggered component
   private advectVelocity() {
+    for (const faces of [this.u, this.v, this.w]) {
+      const [fx, fy, fz] = faces.dims
+      const [ox, oy, oz] = faces.offset
+      for (let k = 0; k < fz; k++) {
+        for (let j = 0; j < fy; j++) {
+          for (let i = 0; i < fx; i++) {
+            const index = i + fx * (j + fy * k)
+            if (faces.kind[index] !== FACE_FREE) continue
+            const [x, y, z] = this.backtrace(i + ox, j + oy, k + oz)
+            faces.values[index] = sampleFaces(faces.previous, faces, x, y, z)
+          }
+        }
+      }
+    }
+  }
+
+  private backtrace(x: number, y: number, z: number): [number, number, number] {
+    const scale = this.config.timeStep / this.config.cellSize
+    const u = sampleFaces(this.u.previous, this.u, x, y, z)
+    const v = sampleFaces(this.v.previous, this.v, x, y, z)
+    const w = sampleFaces(this.w.previous, this.w, x, y, z)
+    return [x - scale * u, y - scale * v, z - scale * w]
+  }
+
+  // Boussinesq buoyancy: g·β·(T - T_ambient) on the vertical faces
+  private applyBuoyancy() {
+    const gravity = this.config.gravity ?? 0
+    if (gravity === 0) return
+    const faces = this.config.gravityAxis === 'y' ? this.v : this.w
+    const [fx, fy, fz] = faces.dims
+    const beta = 1 / (this.config.ambientTemperature + 273.15)
+    const factor = this.config.timeStep * gravity * beta
+
+    for (let k = 0; k < fz; k++) {
+      for (let j = 0; j < fy; j++) {
+        for (let i = 0; i < fx; i++) {
+          const index = i + fx * (j + fy * k)
+          if (faces.kind[index] !== FACE_FREE) continue
+          // Face stride along the gravity axis equals the cell stride
+          const upper = this.idx(i, j, k)
+          const lower = upper - faces.stride
+          const faceTemperature = 0.5 * (this.T[upper] + this.T[lower])
+          faces.values[index] += factor * (faceTemperature - this.config.ambientTemperature)
+        }
+      }
+    }
+  }
+
+  // Implicit porous drag so dense canopies cannot reverse the flow
+  private applyCanopyDrag() {
+    if (this.canopies.length === 0) return
     const dt = this.config.timeStep
-    const { gridSizeX, gridSizeY, gridSizeZ } = this.config
-    
-    for (let i = 1; i < gridSizeX - 1; i++) {
-      for (let j = 1; j < gridSizeY - 1; j++) {
-        for (let k = 1; k < gridSizeZ - 1; k++) {
-          const idx = this.idx(i, j, k)
-          
-          // Backtrace particle
-          const x = i - dt * this.u0[idx]
-          const y = j - dt * this.v0[idx]
-          const z = k - dt * this.w0[idx]
-          
-          // Trilinear interpolation
-          this.u[idx] = this.interpolate(x, y, z, this.u0)
-          this.v[idx] = this.interpolate(x, y, z, this.v0)
-          this.w[idx] = this.interpolate(x, y, z, this.w0)
+    for (const faces of [this.u, this.v, this.w]) {
+      const [fx, fy, fz] = faces.dims
+      const [ox, oy, oz] = faces.offset
+      for (let k = 0; k < fz; k++) {
+        for (let j = 0; j < fy; j++) {
+          for (let i = 0; i < fx; i++) {
+            const index = i + fx * (j + fy * k)
+            if (faces.drag[index] === 0 || faces.kind[index] !== FACE_FREE) continue
+            const x = i + ox
+            const y = j + oy
+            const z = k + oz
+            const speed = Math.hypot(
+              sampleFaces(this.u.values, this.u, x, y, z),
+              sampleFaces(this.v.values, this.v, x, y, z),
+              sampleFaces(this.w.values, this.w, x, y, z)
+            )
+            faces.values[index] /= 1 + dt * faces.drag[index] * speed
+          }
         }
       }
     }
   }
-  
-  // Diffusion step using implicit method
+
+  // Explicit diffusion, sub-stepped to stay within the stability limit
   private diffuseVelocity() {
-    const visc = this.config.airViscosity
-    const dt = this.config.timeStep
-    const a = dt * visc
-    
-    // Gauss-Seidel relaxation
-    for (let iter = 0; iter < 20; iter++) {
-      this.gaussSeidelVelocity(this.u, this.u0, a)
-      this.gaussSeidelVelocity(this.v, this.v0, a)
-      this.gaussSeidelVelocity(this.w, this.w0, a)
+    const nu = this.config.airViscosity / this.config.airDensity + (this.config.turbulentViscosity ?? 0)
+    for (const faces of [this.u, this.v, this.w]) {
+      this.diffuse(faces.values, faces.dims, nu, index => faces.kind[index] === FACE_FREE)
     }
   }
-  
-  // Pressure projection to ensure incompressibility
-  private projectVelocity() {
-    const { gridSizeX, gridSizeY, gridSizeZ } = this.config
-    
-    // Calculate divergence
-    for (let i = 1; i < gridSizeX - 1; i++) {
-      for (let j = 1; j < gridSizeY - 1; j++) {
-        for (let k = 1; k < gridSizeZ - 1; k++) {
-          const idx = this.idx(i, j, k)
-          
-          this.div[idx] = -0.5 * (
-            this.u[this.idx(i + 1, j, k)] - this.u[this.idx(i - 1, j, k)] +
-            this.v[this.idx(i, j + 1, k)] - this.v[this.idx(i, j - 1, k)] +
-            this.w[this.idx(i, j, k + 1)] - this.w[this.idx(i, j, k - 1)]
-          )
-          
-          this.p[idx] = 0
+
+  private diffuse(
+    field: Float32Array,
+    dims: [number, number, number],
+    diffusivity: number,
+    active: (index: number) => boolean
+  ) {
+    const h2 = this.config.cellSize * this.config.cellSize
+    const total = (diffusivity * this.config.timeStep) / h2
+    if (total <= 0) return
+    const substeps = Math.ceil(total / 0.15)
+    const a = total / substeps
+    const [fx, fy, fz] = dims
+    const scratch = this.scratch
+
+    for (let s = 0; s < substeps; s++) {
+      scratch.set(field.subarray(0, fx * fy * fz))
+      for (let k = 0; k < fz; k++) {
+        for (let j = 0; j < fy; j++) {
+          for (let i = 0; i < fx; i++) {
+            const index = i + fx * (j + fy * k)
+            if (!active(index)) continue
+            const centre = scratch[index]
+            const at = (di: number, dj: number, dk: number) => {
+              const ni = i + di
+              const nj = j + dj
+              const nk = k + dk
+              if (ni < 0 || nj < 0 || nk < 0 || ni >= fx || nj >= fy || nk >= fz) return centre
+              return scratch[ni + fx * (nj + fy * nk)]
+            }
+            field[index] = centre + a * (
+              at(-1, 0, 0) + at(1, 0, 0) + at(0, -1, 0) + at(0, 1, 0) + at(0, 0, -1) + at(0, 0, 1) - 6 * centre
+            )
+          }
         }
       }
     }
-    
-    // Solve Poisson equation for pressure
-    for (let iter = 0; iter < 20; iter++) {
-      this.gaussSeidelPressure()
+  }
+
+  /**
+   * Pressure projection: solve A·p = -(ρh²/dt)·div(u*) over fluid cells with
+   * Jacobi-preconditioned CG, then subtract dt/ρ·∇p from the free faces.
+   * Returns the CG iteration count.
+   */
+  private projectVelocity(): number {
+    const { airDensity: rho, cellSize: h, timeStep: dt } = this.config
+    const cells = this.fluidCells
+    const n = cells.length
+    if (n === 0) return 0
+
+    const scale = (rho * h * h) / dt
+    const rhs = new Float64Array(n)
+    let mean = 0
+    for (let m = 0; m < n; m++) {
+      rhs[m] = -scale * this.divergence(cells[m])
+      mean += rhs[m]
+    }
+    // Closed domains: the Neumann problem only has a solution for zero net source
+    if (!this.hasDirichlet) {
+      mean /= n
+      for (let m = 0; m < n; m++) rhs[m] -= mean
+    }
+
+    const iterations = this.solvePressure(rhs, scale * (this.config.pressureTolerance ?? 1e-5))
+
+    // Velocity correction on faces between fluid/outlet cells
+    const factor = dt / (rho * h)
+    for (const faces of [this.u, this.v, this.w]) {
+      const [fx, fy, fz] = faces.dims
+      const axis = faces === this.u ? 0 : faces === this.v ? 1 : 2
+      const cellStride = axis === 0 ? 1 : axis === 1 ? this.nx : this.nx * this.ny
+      for (let k = 0; k < fz; k++) {
+        for (let j = 0; j < fy; j++) {
+          for (let i = 0; i < fx; i++) {
+            const index = i + fx * (j + fy * k)
+            if (faces.kind[index] !== FACE_FREE) continue
+            const high = this.idx(i, j, k)
+            const low = high - cellStride
+            faces.values[index] -= factor * (this.p[high] - this.p[low])
+          }
+        }
+      }
     }
-    
-    // Subtract pressure gradient from velocity
-    for (let i = 1; i < gridSizeX - 1; i++) {
-      for (let j = 1; j < gridSizeY - 1; j++) {
-        for (let k = 1; k < gridSizeZ - 1; k++) {
-          const idx = this.idx(i, j, k)
-          
-          this.u[idx] -= 0.5 * (this.p[this.idx(i + 1, j, k)] - this.p[this.idx(i - 1, j, k)])
-          this.v[idx] -= 0.5 * (this.p[this.idx(i, j + 1, k)] - this.p[this.idx(i, j - 1, k)])
-          this.w[idx] -= 0.5 * (this.p[this.idx(i, j, k + 1)] - this.p[this.idx(i, j, k - 1)])
+    this.enforceVelocityBoundaries()
+    return iterations
+  }
+
+  private solvePressure(rhs: Float64Array, tolerance: number): number {
+    const cells = this.fluidCells
+    const n = cells.length
+    const maxIterations = this.config.maxPressureIterations ?? 500
+
+    // Warm start from the previous pressure
+    const x = new Float64Array(n)
+    for (let m = 0; m < n; m++) x[m] = this.p[cells[m]]
+
+    const r = new Float64Array(n)
+    const z = new Float64Array(n)
+    const d = new Float64Array(n)
+    const q = new Float64Array(n)
+    const position = new Int32Array(this.p.length).fill(-1)
+    for (let m = 0; m < n; m++) position[cells[m]] = m
+
+    const multiply = (input: Float64Array, output: Float64Array) => {
+      const strides = [-1, 1, -this.nx, this.nx, -this.nx * this.ny, this.nx * this.ny]
+      for (let m = 0; m < n; m++) {
+        const c = cells[m]
+        const mask = this.neighborMask[c]
+        let sum = this.diagonal[c] * input[m]
+        for (let bit = 0; bit < 6; bit++) {
+          if (mask & (1 << bit)) sum -= input[position[c + strides[bit]]]
         }
+        output[m] = sum
+      }
+    }
+    const precondition = () => {
+      for (let m = 0; m < n; m++) {
+        const diagonal = this.diagonal[cells[m]]
+        z[m] = diagonal > 0 ? r[m] / diagonal : 0
+      }
+    }
+
+    multiply(x, q)
+    for (let m = 0; m < n; m++) r[m] = rhs[m] - q[m]
+    precondition()
+    d.set(z)
+    let rz = dot(r, z)
+
+    let iteration = 0
+    while (iteration < maxIterations && maxAbs(r) > tolerance) {
+      multiply(d, q)
+      const dq = dot(d, q)
+      if (dq === 0) break
+      const alpha = rz / dq
+      for (let m = 0; m < n; m++) {
+        x[m] += alpha * d[m]
+        r[m] -= alpha * q[m]
       }
+      precondition()
+      const rzNext = dot(r, z)
+      const beta = rzNext / rz
+      rz = rzNext
+      for (let m = 0; m < n; m++) d[m] = z[m] + beta * d[m]
+      iteration++
     }
+
+    for (let m = 0; m < n; m++) this.p[cells[m]] = x[m]
+    return iteration
   }
-  
+
+  private divergence(c: number): number {
+    const { nx, ny } = this
+    const i = c % nx
+    const j = Math.floor(c / nx) % ny
+    const k = Math.floor(c / (nx * ny))
+    const u = this.u.values
+    const v = this.v.values
+    const w = this.w.values
+    const ui = i + (nx + 1) * (j + ny * k)
+    const vi = i + nx * (j + (ny + 1) * k)
+    const wi = i + nx * (j + ny * k)
+    return (u[ui + 1] - u[ui] + v[vi + nx] - v[vi] + w[wi + nx * ny] - w[wi]) / this.config.cellSize
+  }
+
   // Temperature advection
   private advectTemperature() {
-    const dt = this.config.timeStep
-    const { gridSizeX, gridSizeY, gridSizeZ } = this.config
-    
-    for (let i = 1; i < gridSizeX - 1; i++) {
-      for (let j = 1; j < gridSizeY - 1; j++) {
-        for (let k = 1; k < gridSizeZ - 1; k++) {
-          const idx = this.idx(i, j, k)
-          
-          // Backtrace particle
-          const x = i - dt * this.u[idx]
-          const y = j - dt * this.v[idx]
-          const z = k - dt * this.w[idx]
-          
-          // Interpolate temperature
-          this.T[idx] = this.interpolate(x, y, z, this.T0)
+    const { nx, ny, nz } = this
+    const dims: [number, number, number] = [nx, ny, nz]
+    const cellCentres = { dims, offset: [0.5, 0.5, 0.5] as [number, number, number] }
+    for (let k = 0; k < nz; k++) {
+      for (let j = 0; j < ny; j++) {
+        for (let i = 0; i < nx; i++) {
+          const c = this.idx(i, j, k)
+          const type = this.cellType[c]
+          if (type === SOLID) continue
+          if (type === INLET) {
+            this.T[c] = this.inletTemperature[c]
+            continue
+          }
+          const [x, y, z] = this.backtrace(i + 0.5, j + 0.5, k + 0.5)
+          this.T[c] = sampleFaces(this.T0, cellCentres, x, y, z)
         }
       }
     }
   }
-  
+
   // Temperature diffusion
   private diffuseTemperature() {
-    const diff = this.config.thermalDiffusivity
-    const dt = this.config.timeStep
-    const a = dt * diff
-    
-    // Gauss-Seidel relaxation
-    for (let iter = 0; iter < 20; iter++) {
-      this.gaussSeidelScalar(this.T, this.T0, a)
-    }
+    const alpha = this.config.thermalDiffusivity + (this.config.turbulentViscosity ?? 0) / TURBULENT_PRANDTL
+    const types = this.cellType
+    this.diffuse(this.T, [this.nx, this.ny, this.nz], alpha, c => types[c] === FLUID || types[c] === OUTLET)
   }
-  
+
   // Apply heat sources
   private applyHeatSources() {
     const dt = this.config.timeStep
-    const cellVolume = Math.pow(this.config.cellSize, 3)
-    const specificHeat = 1005 // J/(kg·K) for air
-    
-    for (const source of this.heatSources) {
-      const { position, size, power } = source
-      
-      // Convert to grid coordinates
-      const i0 = Math.floor(position.x / this.config.cellSize)
-      const j0 = Math.floor(position.y / this.config.cellSize)
-      const k0 = Math.floor(position.z / this.config.cellSize)
-      
-      const i1 = Math.ceil((position.x + size.width) / this.config.cellSize)
-      const j1 = Math.ceil((position.y + size.height) / this.config.cellSize)
-      const k1 = Math.ceil((position.z + size.depth) / this.config.cellSize)
-      
-      const numCells = (i1 - i0) * (j1 - j0) * (k1 - k0)
-      const powerPerCell = power / numCells
-      
-      for (let i = i0; i < i1; i++) {
-        for (let j = j0; j < j1; j++) {
-          for (let k = k0; k < k1; k++) {
-            if (this.isValidCell(i, j, k)) {
-              const idx = this.idx(i, j, k)
-              const mass = this.config.airDensity * cellVolume
-              const deltaT = (powerPerCell * dt) / (mass * specificHeat)
-              this.T[idx] += deltaT
-            }
-          }
-        }
-      }
+    for (let c = 0; c < this.T.length; c++) {
+      if (this.heatRate[c] !== 0) this.T[c] += this.heatRate[c] * dt
     }
   }
-  
+
   // Helper functions
-  private isValidCell(i: number, j: number, k: number): boolean {
-    return i >= 0 && i < this.config.gridSizeX &&
-           j >= 0 && j < this.config.gridSizeY &&
-           k >= 0 && k < this.config.gridSizeZ
-  }
-  
-  private interpolate(x: number, y: number, z: number, field: Float32Array): number {
-    // Trilinear interpolation
-    const i0 = Math.floor(x)
-    const j0 = Math.floor(y)
-    const k0 = Math.floor(z)
-    
-    const i1 = i0 + 1
-    const j1 = j0 + 1
-    const k1 = k0 + 1
-    
-    const sx = x - i0
-    const sy = y - j0
-    const sz = z - k0
-    
-    // Clamp to grid boundaries
-    const clamp = (val: number, min: number, max: number) => Math.max(min, Math.min(max, val))
-    
-    const i0c = clamp(i0, 0, this.config.gridSizeX - 1)
-    const i1c = clamp(i1, 0, this.config.gridSizeX - 1)
-    const j0c = clamp(j0, 0, this.config.gridSizeY - 1)
-    const j1c = clamp(j1, 0, this.config.gridSizeY - 1)
-    const k0c = clamp(k0, 0, this.config.gridSizeZ - 1)
-    const k1c = clamp(k1, 0, this.config.gridSizeZ - 1)
-    
-    return (1 - sx) * (1 - sy) * (1 - sz) * field[this.idx(i0c, j0c, k0c)] +
-           sx * (1 - sy) * (1 - sz) * field[this.idx(i1c, j0c, k0c)] +
-           (1 - sx) * sy * (1 - sz) * field[this.idx(i0c, j1c, k0c)] +
-           sx * sy * (1 - sz) * field[this.idx(i1c, j1c, k0c)] +
-           (1 - sx) * (1 - sy) * sz * field[this.idx(i0c, j0c, k1c)] +
-           sx * (1 - sy) * sz * field[this.idx(i1c, j0c, k1c)] +
-           (1 - sx) * sy * sz * field[this.idx(i0c, j1c, k1c)] +
-           sx * sy * sz * field[this.idx(i1c, j1c, k1c)]
-  }
-  
-  private gaussSeidelVelocity(x: Float32Array, x0: Float32Array, a: number) {
-    const { gridSizeX, gridSizeY, gridSizeZ } = this.config
-    
-    for (let i = 1; i < gridSizeX - 1; i++) {
-      for (let j = 1; j < gridSizeY - 1; j++) {
-        for (let k = 1; k < gridSizeZ - 1; k++) {
-          const idx = this.idx(i, j, k)
-          
-          x[idx] = (x0[idx] + a * (
-            x[this.idx(i - 1, j, k)] + x[this.idx(i + 1, j, k)] +
-            x[this.idx(i, j - 1, k)] + x[this.idx(i, j + 1, k)] +
-            x[this.idx(i, j, k - 1)] + x[this.idx(i, j, k + 1)]
-          )) / (1 + 6 * a)
+  private forEachCell(
+    region: { position: { x: number; y: number; z: number }; size: { width: number; height: number; depth: number } },
+    visit: (i: number, j: number, k: number) => void
+  ) {
+    const h = this.config.cellSize
+    const i0 = Math.max(0, Math.floor(region.position.x / h))
+    const j0 = Math.max(0, Math.floor(region.position.y / h))
+    const k0 = Math.max(0, Math.floor(region.position.z / h))
+    const i1 = Math.min(this.nx, Math.ceil((region.position.x + region.size.width) / h))
+    const j1 = Math.min(this.ny, Math.ceil((region.position.y + region.size.height) / h))
+    const k1 = Math.min(this.nz, Math.ceil((region.position.z + region.size.depth) / h))
+
+    for (let k = k0; k < k1; k++) {
+      for (let j = j0; j < j1; j++) {
+        for (let i = i0; i < i1; i++) {
+          visit(i, j, k)
         }
       }
     }
   }
-  
-  private gaussSeidelScalar(x: Float32Array, x0: Float32Array, a: number) {
-    this.gaussSeidelVelocity(x, x0, a) // Same implementation
-  }
-  
-  private gaussSeidelPressure() {
-    const { gridSizeX, gridSizeY, gridSizeZ } = this.config
-    
-    for (let i = 1; i < gridSizeX - 1; i++) {
-      for (let j = 1; j < gridSizeY - 1; j++) {
-        for (let k = 1; k < gridSizeZ - 1; k++) {
-          const idx = this.idx(i, j, k)
-          
-          this.p[idx] = (
-            this.div[idx] +
-            this.p[this.idx(i - 1, j, k)] + this.p[this.idx(i + 1, j, k)] +
-            this.p[this.idx(i, j - 1, k)] + this.p[this.idx(i, j + 1, k)] +
-            this.p[this.idx(i, j, k - 1)] + this.p[this.idx(i, j, k + 1)]
-          ) / 6
+
+  private forEachFace(
+    faces: FaceSet,
+    region: { position: { x: number; y: number; z: number }; size: { width: number; height: number; depth: number } },
+    visit: (index: number) => void
+  ) {
+    const h = this.config.cellSize
+    const [fx, fy, fz] = faces.dims
+    const [ox, oy, oz] = faces.offset
+    const inside = (n: number, offset: number, start: number, length: number) => {
+      const position = (n + offset) * h
+      return position >= start && position <= start + length
+    }
+    for (let k = 0; k < fz; k++) {
+      if (!inside(k, oz, region.position.z, region.size.depth)) continue
+      for (let j = 0; j < fy; j++) {
+        if (!inside(j, oy, region.position.y, region.size.height)) continue
+        for (let i = 0; i < fx; i++) {
+          if (inside(i, ox, region.position.x, region.size.width)) visit(i + fx * (j + fy * k))
         }
       }
     }
   }
-  
-  private calculateResidual(): number {
-    let maxDiff = 0
-    
-    for (let i = 0; i < this.u.length; i++) {
-      maxDiff = Math.max(maxDiff, Math.abs(this.u[i] - this.u0[i]))
-      maxDiff = Math.max(maxDiff, Math.abs(this.v[i] - this.v0[i]))
-      maxDiff = Math.max(maxDiff, Math.abs(this.w[i] - this.w0[i]))
+
+  private maxDivergence(): number {
+    let max = 0
+    for (let m = 0; m < this.fluidCells.length; m++) {
+      max = Math.max(max, Math.abs(this.divergence(this.fluidCells[m])))
     }
-    
-    return maxDiff
+    return max
   }
-  
-  private extractResults(convergenceHistory: number[]): CFDResult {
+
+  private maxChange(): number {
+    let max = 0
+    for (const faces of [this.u, this.v, this.w]) {
+      for (let index = 0; index < faces.values.length; index++) {
+        max = Math.max(max, Math.abs(faces.values[index] - faces.previous[index]))
+      }
+    }
+    return max
+  }
+
+  private extractResults(convergence: CFDConvergenceReport): CFDResult {
+    const { nx, ny, nz } = this
+    const size = nx * ny * nz
+    const velocityField = new Float32Array(size * 3)
+    const solidMask = new Uint8Array(size)
+
     // Calculate statistics
     let maxVelocity = 0
     let minTemp = Infinity
     let maxTemp = -Infinity
     let sumTemp = 0
     let count = 0
-    
-    for (let i = 0; i < this.u.length; i++) {
-      const vel = Math.sqrt(this.u[i]**2 + this.v[i]**2 + this.w[i]**2)
-      maxVelocity = Math.max(maxVelocity, vel)
-      
-      if (this.T[i] > 0) { // Exclude boundary cells
-        minTemp = Math.min(minTemp, this.T[i])
-        maxTemp = Math.max(maxTemp, this.T[i])
-        sumTemp += this.T[i]
-        count++
+
+    for (let k = 0; k < nz; k++) {
+      for (let j = 0; j < ny; j++) {
+        for (let i = 0; i < nx; i++) {
+          const c = this.idx(i, j, k)
+          if (this.cellType[c] === SOLID) {
+            solidMask[c] = 1
+            continue
+          }
+          const ui = i + (nx + 1) * (j + ny * k)
+          const vi = i + nx * (j + (ny + 1) * k)
+          const u = 0.5 * (this.u.values[ui] + this.u.values[ui + 1])
+          const v = 0.5 * (this.v.values[vi] + this.v.values[vi + nx])
+          const w = 0.5 * (this.w.values[c] + this.w.values[c + nx * ny])
+          velocityField[c * 3] = u
+          velocityField[c * 3 + 1] = v
+          velocityField[c * 3 + 2] = w
+          maxVelocity = Math.max(maxVelocity, Math.sqrt(u * u + v * v + w * w))
+
+          minTemp = Math.min(minTemp, this.T[c])
+          maxTemp = Math.max(maxTemp, this.T[c])
+          sumTemp += this.T[c]
+          count++
+        }
       }
     }
-    
-    const avgTemp = sumTemp / count
-    
+
+    const avgTemp = count > 0 ? sumTemp / count : this.config.ambientTemperature
+
     // Calculate temperature uniformity
     let variance = 0
-    for (let i = 0; i < this.T.length; i++) {
-      if (this.T[i] > 0) {
-        variance += Math.pow(this.T[i] - avgTemp, 2)
+    for (let c = 0; c < size; c++) {
+      if (!solidMask[c]) {
+        variance += Math.pow(this.T[c] - avgTemp, 2)
       }
     }
-    variance /= count
-    
+    variance /= Math.max(count, 1)
+
     const stdDev = Math.sqrt(variance)
     const uniformityIndex = 1 - (stdDev / avgTemp)
-    
+
     return {
-      velocityField: new Float32Array(this.u.length * 3), // Combine u, v, w
-      temperatureField: this.T,
-      pressureField: this.p,
-      convergenceHistory,
+      grid: { nx, ny, nz, cellSize: this.config.cellSize },
+      velocityField,
+      temperatureField: Float32Array.from(this.T),
+      pressureField: Float32Array.from(this.p),
+      solidMask,
+      convergenceHistory: convergence.residuals.map(r => r.momentum),
+      convergence,
       maxVelocity,
       minTemperature: minTemp,
       maxTemperature: maxTemp,
@@ -489,4 +860,62 @@ export class CFDEngine {
       uniformityIndex: Math.max(0, Math.min(1, uniformityIndex))
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Trilinear sample of a field stored on a lattice offset from the cell corners.
+ * Coordinates are in cell units and clamp at the lattice edges.
+ */
+function sampleFaces(
+  field: Float32Array,
+  lattice: { dims: [number, number, number]; offset: [number, number, number] },
+  x: number,
+  y: number,
+  z: number
+): number {
+  const [fx, fy, fz] = lattice.dims
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(max, value))
+  const gx = clamp(x - lattice.offset[0], fx - 1)
+  const gy = clamp(y - lattice.offset[1], fy - 1)
+  const gz = clamp(z - lattice.offset[2], fz - 1)
+
+  const i0 = Math.min(Math.floor(gx), fx - 1)
+  const j0 = Math.min(Math.floor(gy), fy - 1)
+  const k0 = Math.min(Math.floor(gz), fz - 1)
+  const i1 = Math.min(i0 + 1, fx - 1)
+  const j1 = Math.min(j0 + 1, fy - 1)
+  const k1 = Math.min(k0 + 1, fz - 1)
+  const sx = gx - i0
+  const sy = gy - j0
+  const sz = gz - k0
+  const at = (i: number, j: number, k: number) => field[i + fx * (j + fy * k)]
+
+  return (1 - sx) * (1 - sy) * (1 - sz) * at(i0, j0, k0) +
+         sx * (1 - sy) * (1 - sz) * at(i1, j0, k0) +
+         (1 - sx) * sy * (1 - sz) * at(i0, j1, k0) +
+         sx * sy * (1 - sz) * at(i1, j1, k0) +
+         (1 - sx) * (1 - sy) * sz * at(i0, j0, k1) +
+         sx * (1 - sy) * sz * at(i1, j0, k1) +
+         (1 - sx) * sy * sz * at(i0, j1, k1) +
+         sx * sy * sz * at(i1, j1, k1)
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0
+  for (let m = 0; m < a.length; m++) sum += a[m] * b[m]
+  return sum
+}
+
+function maxAbs(a: Float64Array): number {
+  let max = 0
+  for (let m = 0; m < a.length; m++) max = Math.max(max, Math.abs(a[m]))
+  return max
+}
+
+function maxDifference(a: Float32Array, b: Float32Array, cellType: Uint8Array): number {
+  let max = 0
+  for (let c = 0; c < a.length; c++) {
+    if (cellType[c] !== SOLID) max = Math.max(max, Math.abs(a[c] - b[c]))
+  }
+  return max
+}
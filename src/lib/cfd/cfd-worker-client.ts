@@ -0,0 +1,65 @@
+/**
+ * Run CFD simulations in a Web Worker with a hard time limit. The engine
+ * stops itself at config.maxWallTimeMs; the worker is terminated if it has
+ * not answered by timeoutMs, so a runaway case cannot hold the tab.
+ */
+
+import type { BoundaryCondition, CanopyZone, CFDConfig, CFDResult, HeatSource } from './cfd-engine'
+
+export interface CFDWorkerRequest {
+  config: CFDConfig
+  boundaries?: BoundaryCondition[]
+  heatSources?: HeatSource[]
+  canopies?: CanopyZone[]
+}
+
+export type CFDWorkerMessage =
+  | { type: 'progress'; progress: number; iteration: number }
+  | { type: 'result'; result: CFDResult }
+  | { type: 'error'; message: string }
+
+export interface CFDWorkerOptions {
+  timeoutMs?: number
+  onProgress?: (progress: number, iteration: number) => void
+  signal?: AbortSignal
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000
+
+export function runCFDInWorker(request: CFDWorkerRequest, options: CFDWorkerOptions = {}): Promise<CFDResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const worker = new Worker(new URL('./cfd.worker.ts', import.meta.url))
+
+  return new Promise<CFDResult>((resolve, reject) => {
+    const finish = (settle: () => void) => {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', abort)
+      worker.terminate()
+      settle()
+    }
+    const abort = () => finish(() => reject(new Error('CFD simulation cancelled')))
+    const timer = setTimeout(
+      () => finish(() => reject(new Error(`CFD simulation exceeded ${timeoutMs} ms`))),
+      timeoutMs
+    )
+    options.signal?.addEventListener('abort', abort)
+
+    worker.onmessage = (event: MessageEvent<CFDWorkerMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        options.onProgress?.(message.progress, message.iteration)
+      } else if (message.type === 'result') {
+        finish(() => resolve(message.result))
+      } else {
+        finish(() => reject(new Error(message.message)))
+      }
+    }
+    worker.onerror = (event) => finish(() => reject(new Error(event.message || 'CFD worker failed')))
+
+    // Leave the engine room to stop on its own and still post its partial result
+    worker.postMessage({
+      ...request,
+      config: { ...request.config, maxWallTimeMs: Math.min(request.config.maxWallTimeMs ?? Infinity, timeoutMs * 0.9) }
+    })
+  })
+}
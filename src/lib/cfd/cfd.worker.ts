@@ -0,0 +1,39 @@
+/**
+ * CFD Web Worker
+ * Runs CFDEngine off the main thread; see runCFDInWorker in cfd-worker-client.ts
+ */
+
+import { CFDEngine } from './cfd-engine'
+import type { CFDWorkerMessage, CFDWorkerRequest } from './cfd-worker-client'
+
+const ctx = self as unknown as {
+  postMessage(message: CFDWorkerMessage, transfer?: Transferable[]): void
+  onmessage: ((event: MessageEvent<CFDWorkerRequest>) => void) | null
+}
+
+ctx.onmessage = (event) => {
+  const { config, boundaries = [], heatSources = [], canopies = [] } = event.data
+  try {
+    const engine = new CFDEngine(config)
+    boundaries.forEach(boundary => engine.addBoundary(boundary))
+    heatSources.forEach(source => engine.addHeatSource(source))
+    canopies.forEach(canopy => engine.addCanopy(canopy))
+
+    let lastReport = 0
+    const result = engine.simulate((progress, iteration) => {
+      const now = Date.now()
+      if (now - lastReport < 250 && progress < 1) return
+      lastReport = now
+      ctx.postMessage({ type: 'progress', progress, iteration })
+    })
+
+    ctx.postMessage({ type: 'result', result }, [
+      result.velocityField.buffer,
+      result.temperatureField.buffer,
+      result.pressureField.buffer,
+      result.solidMask.buffer
+    ])
+  } catch (error) {
+    ctx.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * VTK Export for CFD Results
+ * Writes legacy-format STRUCTURED_POINTS files that ParaView opens directly.
+ * Fields are stored as CELL_DATA, one value per CFD cell, x varying fastest.
+ */
+
+import type { CFDResult } from './cfd-engine'
+
+export interface VTKExportOptions {
+  title?: string
+  origin?: { x: number; y: number; z: number } // meters
+  precision?: number // significant digits for floats
+}
+
+export function cfdResultToVTK(result: CFDResult, options: VTKExportOptions = {}): string {
+  const { nx, ny, nz, cellSize } = result.grid
+  const cells = nx * ny * nz
+  const origin = options.origin ?? { x: 0, y: 0, z: 0 }
+  const precision = options.precision ?? 6
+  const format = (value: number) => (Number.isFinite(value) ? Number(value.toPrecision(precision)).toString() : '0')
+  // VTK titles are a single line of at most 256 characters
+  const title = (options.title ?? 'Vibelux CFD result').replace(/[\r\n]+/g, ' ').slice(0, 255)
+
+  const lines: string[] = [
+    '# vtk DataFile Version 3.0',
+    title,
+    'ASCII',
+    'DATASET STRUCTURED_POINTS',
+    `DIMENSIONS ${nx + 1} ${ny + 1} ${nz + 1}`,
+    `ORIGIN ${format(origin.x)} ${format(origin.y)} ${format(origin.z)}`,
+    `SPACING ${format(cellSize)} ${format(cellSize)} ${format(cellSize)}`,
+    `CELL_DATA ${cells}`
+  ]
+
+  const scalars = (name: string, type: 'float' | 'int', values: ArrayLike<number>) => {
+    lines.push(`SCALARS ${name} ${type} 1`, 'LOOKUP_TABLE default')
+    for (let c = 0; c < cells; c++) {
+      lines.push(type === 'int' ? String(values[c]) : format(values[c]))
+    }
+  }
+
+  scalars('temperature', 'float', result.temperatureField)
+  scalars('pressure', 'float', result.pressureField)
+  scalars('solid', 'int', result.solidMask)
+
+  lines.push('VECTORS velocity float')
+  const velocity = result.velocityField
+  for (let c = 0; c < cells; c++) {
+    lines.push(`${format(velocity[c * 3])} ${format(velocity[c * 3 + 1])} ${format(velocity[c * 3 + 2])}`)
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Package the VTK text for a browser download
+ */
+export function cfdResultToVTKBlob(result: CFDResult, options: VTKExportOptions = {}): Blob {
+  return new Blob([cfdResultToVTK(result, options)], { type: 'application/octet-stream' })
+}
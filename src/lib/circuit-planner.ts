@@ -1,3 +1,7 @@
+import { CONDUCTOR_SIZES, ConductorConditions, NECAmpacityCalculator } from './electrical/nec-ampacity';
+import { NECLoadCalculator } from './electrical/nec-load-calculation';
+import { PanelSchedule, PanelScheduleBuilder } from './electrical/panel-schedule';
+
 export interface Circuit {
   id: string;
   name: string;
@@ -18,6 +22,7 @@ export interface Panel {
   mainBreaker: number; // Amps
   spaces: number; // Total spaces available
   circuits: Circuit[];
+  schedule?: PanelSchedule; // Balanced position and phase assignment
 }
 
 export interface WireSpec {
@@ -37,30 +42,6 @@ export interface ElectricalLoad {
 }
 
 export class CircuitPlanner {
-  // NEC wire ampacity table (simplified)
-  private static WIRE_AMPACITY: Record<string, number> = {
-    '14': 15,
-    '12': 20,
-    '10': 30,
-    '8': 40,
-    '6': 55,
-    '4': 70,
-    '3': 85,
-    '2': 95,
-    '1': 110,
-    '1/0': 125,
-    '2/0': 145,
-    '3/0': 165,
-    '4/0': 195,
-    '250': 215,
-    '300': 240,
-    '350': 260,
-    '400': 280,
-    '500': 320,
-    '600': 350,
-    '750': 400
-  };
-
   // Standard circuit breaker sizes
   private static BREAKER_SIZES = [15, 20, 25, 30, 35, 40, 45, 50, 60, 70, 80, 90, 100, 110, 125, 150, 175, 200, 225, 250, 300, 350, 400];
 
@@ -82,19 +63,9 @@ export class CircuitPlanner {
       }
     });
 
-    // Apply NEC demand factors for lighting
-    let demand = connected;
-    if (connected > 3000) {
-      // First 3000W at 100%
-      demand = 3000;
-      // Next 117,000W at 35%
-      const next = Math.min(connected - 3000, 117000);
-      demand += next * 0.35;
-      // Remainder at 25%
-      if (connected > 120000) {
-        demand += (connected - 120000) * 0.25;
-      }
-    }
+    // Grow lights are specific equipment at 100% (220.14(A)); the Table 220.42
+    // general lighting demand factors do not apply to them
+    const demand = connected;
 
     // Continuous loads at 125%
     const continuousAdjusted = continuous * 1.25;
@@ -139,7 +110,7 @@ export class CircuitPlanner {
           voltage,
           phase: voltage >= 208 ? 'three' : 'single',
           amperage: breakerSize,
-          poles: voltage === 120 ? 1 : voltage === 240 ? 2 : 1,
+          poles: voltage === 120 || voltage === 277 ? 1 : 2, // Line-to-neutral circuits use one pole
           fixtures: [],
           currentLoad: 0,
           maxLoad
@@ -167,21 +138,29 @@ export class CircuitPlanner {
     return this.BREAKER_SIZES[this.BREAKER_SIZES.length - 1];
   }
 
-  static selectWireSize(amps: number, voltage: number, distance: number): string {
-    // Include voltage drop calculation
+  // Smallest Table 310.16 conductor protected by the breaker that keeps voltage drop within 3%
+  static selectWireSize(
+    amps: number,
+    voltage: number,
+    distance: number,
+    conditions: ConductorConditions = { insulationRating: 75 }
+  ): string {
     const maxVoltageDrop = voltage * 0.03; // 3% voltage drop
-    
-    for (const [gauge, ampacity] of Object.entries(this.WIRE_AMPACITY)) {
-      if (ampacity >= amps) {
-        // Check voltage drop
-        const vd = this.calculateVoltageDrop(amps, distance, gauge, voltage);
-        if (vd <= maxVoltageDrop) {
-          return gauge;
-        }
+    const minimum = NECAmpacityCalculator.selectConductor({
+      ...conditions,
+      continuousAmps: 0,
+      noncontinuousAmps: amps,
+      overcurrentDevice: this.BREAKER_SIZES.find(size => size >= amps)
+    });
+    if (!minimum) return '2000';
+
+    for (const gauge of CONDUCTOR_SIZES.slice(CONDUCTOR_SIZES.indexOf(minimum.size))) {
+      if (this.calculateVoltageDrop(amps, distance, gauge, voltage) <= maxVoltageDrop) {
+        return gauge;
       }
     }
-    
-    return '750'; // Maximum size
+
+    return '2000'; // Maximum size
   }
 
   static calculateVoltageDrop(
@@ -198,7 +177,7 @@ export class CircuitPlanner {
   }
 
   private static getWireResistance(gauge: string): number {
-    // Copper wire resistance at 75°C (ohms per 1000 ft)
+    // Copper wire resistance at 75°C (ohms per 1000 ft, Chapter 9 Table 8)
     const resistances: Record<string, number> = {
       '14': 3.14,
       '12': 1.98,
@@ -212,23 +191,65 @@ export class CircuitPlanner {
       '1/0': 0.122,
       '2/0': 0.0967,
       '3/0': 0.0766,
-      '4/0': 0.0608
+      '4/0': 0.0608,
+      '250': 0.0515,
+      '300': 0.0429,
+      '350': 0.0367,
+      '400': 0.0321,
+      '500': 0.0258,
+      '600': 0.0214,
+      '700': 0.0184,
+      '750': 0.0171,
+      '800': 0.0161,
+      '900': 0.0143,
+      '1000': 0.0129,
+      '1250': 0.0103,
+      '1500': 0.00858,
+      '1750': 0.00735,
+      '2000': 0.00643
     };
     
     return resistances[gauge] || 0.05;
   }
 
+  // Line-to-line system voltage for panels serving the given circuit voltage
+  static panelLineVoltage(circuitVoltage: number, phase: 'single' | 'three'): number {
+    if (circuitVoltage === 277) return 480;
+    if (circuitVoltage === 120) return phase === 'three' ? 208 : 240;
+    return circuitVoltage;
+  }
+
   static generatePanel(
     circuits: Circuit[],
     panelName: string = 'LP-1'
   ): Panel {
-    const totalLoad = circuits.reduce((sum, c) => sum + c.currentLoad, 0);
     const maxVoltage = Math.max(...circuits.map(c => c.voltage));
     const isThreePhase = circuits.some(c => c.phase === 'three');
-    
-    // Size main breaker
-    const mainAmps = this.selectBreakerSize(totalLoad, maxVoltage);
+    const phases = isThreePhase ? 3 : 1;
+    const lineVoltage = this.panelLineVoltage(maxVoltage, isThreePhase ? 'three' : 'single');
+
+    // Size main breaker as a feeder per Article 220, lighting continuous at 125%
+    const feeder = NECLoadCalculator.calculateServiceLoad(
+      circuits.map(c => ({
+        id: c.id,
+        description: c.name,
+        category: 'horticultural-lighting' as const,
+        va: c.currentLoad,
+        continuous: true
+      })),
+      { voltage: lineVoltage, phases }
+    );
     const spaces = Math.max(42, circuits.length * 1.5); // Allow for growth
+    const roundedSpaces = Math.ceil(spaces / 6) * 6; // Round to nearest 6
+
+    // The feeder calculation assumes balanced phases; the heaviest phase bus governs otherwise
+    let mainAmps = feeder.overcurrentDevice;
+    let schedule = this.buildSchedule(circuits, panelName, lineVoltage, phases, mainAmps, roundedSpaces);
+    const heaviestPhase = Math.max(...Object.values(schedule.phaseLoading).map(loading => loading!.amps));
+    if (heaviestPhase > mainAmps) {
+      mainAmps = NECAmpacityCalculator.nextStandardOCPD(heaviestPhase);
+      schedule = this.buildSchedule(circuits, panelName, lineVoltage, phases, mainAmps, roundedSpaces);
+    }
 
     return {
       id: `panel-${Date.now()}`,
@@ -236,66 +257,107 @@ export class CircuitPlanner {
       voltage: maxVoltage,
       phase: isThreePhase ? 'three' : 'single',
       mainBreaker: mainAmps,
-      spaces: Math.ceil(spaces / 6) * 6, // Round to nearest 6
-      circuits
+      spaces: roundedSpaces,
+      circuits,
+      schedule
     };
   }
 
+  static buildSchedule(
+    circuits: Circuit[],
+    panelName: string,
+    lineVoltage: number,
+    phases: 1 | 3,
+    mainBreaker: number,
+    spaces: number
+  ): PanelSchedule {
+    return PanelScheduleBuilder.build(
+      circuits.map(c => ({
+        id: c.id,
+        description: `${c.name} - ${c.fixtures.length} fixtures`,
+        loadVA: c.currentLoad,
+        poles: Math.min(3, Math.max(1, c.poles)) as 1 | 2 | 3,
+        breaker: c.amperage,
+        continuous: true
+      })),
+      {
+        panelName,
+        voltage: lineVoltage,
+        phases,
+        busRating: NECAmpacityCalculator.nextStandardOCPD(mainBreaker),
+        mainBreaker,
+        spaces,
+        insulationRating: 75
+      }
+    );
+  }
+
   static balancePhases(panel: Panel): void {
     if (panel.phase !== 'three') return;
 
-    // Sort circuits by load (descending)
-    const sortedCircuits = [...panel.circuits].sort((a, b) => b.currentLoad - a.currentLoad);
-    
-    const phaseLoads = { A: 0, B: 0, C: 0 };
-    const phaseAssignments: Record<string, 'A' | 'B' | 'C'> = {};
-
-    // Assign circuits to phases to balance load
-    sortedCircuits.forEach(circuit => {
-      // Find phase with lowest load
-      const minPhase = Object.entries(phaseLoads)
-        .sort(([, a], [, b]) => a - b)[0][0] as 'A' | 'B' | 'C';
-      
-      phaseAssignments[circuit.id] = minPhase;
-      phaseLoads[minPhase] += circuit.currentLoad;
-    });
+    const schedule = panel.schedule || this.buildSchedule(
+      panel.circuits,
+      panel.name,
+      this.panelLineVoltage(panel.voltage, panel.phase),
+      3,
+      panel.mainBreaker,
+      panel.spaces
+    );
+    panel.schedule = schedule;
 
     // Update circuit names with phase
-    panel.circuits.forEach(circuit => {
-      const phase = phaseAssignments[circuit.id];
-      if (phase) {
-        circuit.name = `${circuit.name} (${phase})`;
+    schedule.circuits.forEach(scheduled => {
+      const circuit = panel.circuits.find(c => c.id === scheduled.circuitId);
+      if (circuit) {
+        circuit.name = `${circuit.name} (${scheduled.phases.join('-')})`;
       }
     });
   }
 
   static generateSchedule(panel: Panel): string {
-    let schedule = `PANEL SCHEDULE: ${panel.name}\n`;
-    schedule += `Voltage: ${panel.voltage}V ${panel.phase === 'three' ? '3Ø' : '1Ø'}\n`;
-    schedule += `Main Breaker: ${panel.mainBreaker}A\n`;
-    schedule += `Total Spaces: ${panel.spaces}\n\n`;
+    const lineVoltage = this.panelLineVoltage(panel.voltage, panel.phase);
+    const schedule = panel.schedule || this.buildSchedule(
+      panel.circuits,
+      panel.name,
+      lineVoltage,
+      panel.phase === 'three' ? 3 : 1,
+      panel.mainBreaker,
+      panel.spaces
+    );
+
+    let text = `PANEL SCHEDULE: ${panel.name}\n`;
+    text += panel.phase === 'three'
+      ? `Voltage: ${lineVoltage}Y/${Math.round(schedule.phaseVoltage)}V 3Ø 4W\n`
+      : `Voltage: ${lineVoltage}/${Math.round(schedule.phaseVoltage)}V 1Ø 3W\n`;
+    text += `Main Breaker: ${panel.mainBreaker}A\n`;
+    text += `Total Spaces: ${panel.spaces}\n\n`;
     
-    schedule += 'Circuit | Breaker | Load (W) | Wire Size | Description\n';
-    schedule += '--------|---------|----------|-----------|-------------\n';
+    text += 'Ckt     | Phase | Breaker | Load (VA) | Wire Size      | Description\n';
+    text += '--------|-------|---------|-----------|----------------|-------------\n';
     
-    panel.circuits.forEach(circuit => {
-      const wireSize = this.selectWireSize(circuit.amperage, circuit.voltage, 100);
-      const loadPercent = ((circuit.currentLoad / circuit.maxLoad) * 100).toFixed(0);
-      
-      schedule += `${circuit.name.padEnd(7)} | ${circuit.amperage}A`.padEnd(7) + ` | `;
-      schedule += `${circuit.currentLoad}W`.padEnd(8) + ` | `;
-      schedule += `#${wireSize}`.padEnd(9) + ` | `;
-      schedule += `${circuit.fixtures.length} fixtures (${loadPercent}% loaded)\n`;
+    schedule.circuits.forEach(circuit => {
+      const circuitNumbers = circuit.positions.join(',');
+      text += `${circuitNumbers.padEnd(7)} | ${circuit.phases.join('').padEnd(5)} | `;
+      text += `${circuit.poles}P-${circuit.breaker}A`.padEnd(7) + ' | ';
+      text += `${Math.round(circuit.loadVA)}`.padEnd(9) + ' | ';
+      text += `${circuit.conductor || 'N/A'}`.padEnd(14) + ' | ';
+      text += `${circuit.description}\n`;
     });
     
-    const totalConnected = panel.circuits.reduce((sum, c) => sum + c.currentLoad, 0);
-    const totalBreakers = panel.circuits.reduce((sum, c) => sum + c.poles, 0);
-    
-    schedule += '\n';
-    schedule += `Total Connected Load: ${totalConnected}W (${(totalConnected / 1000).toFixed(1)}kW)\n`;
-    schedule += `Total Breaker Spaces Used: ${totalBreakers}\n`;
-    schedule += `Spaces Remaining: ${panel.spaces - totalBreakers}\n`;
+    text += '\n';
+    text += `Total Connected Load: ${Math.round(schedule.connectedVA)}VA (${(schedule.connectedVA / 1000).toFixed(1)}kVA)\n`;
+    (Object.keys(schedule.phaseLoading) as Array<keyof typeof schedule.phaseLoading>).forEach(phase => {
+      const loading = schedule.phaseLoading[phase]!;
+      text += `Phase ${phase}: ${(loading.connectedVA / 1000).toFixed(1)}kVA connected, ${loading.amps.toFixed(1)}A calculated\n`;
+    });
+    text += `Phase Imbalance: ${schedule.imbalancePercent.toFixed(1)}%\n`;
+    text += `Spare Capacity: ${schedule.spareCapacityAmps.toFixed(1)}A (${schedule.spareCapacityPercent.toFixed(0)}%)\n`;
+    text += `Total Breaker Spaces Used: ${schedule.spacesUsed}\n`;
+    text += `Spaces Remaining: ${schedule.spacesRemaining}\n`;
+    if (schedule.unassigned.length > 0) {
+      text += `Circuits Without Space: ${schedule.unassigned.join(', ')}\n`;
+    }
     
-    return schedule;
+    return text;
   }
-}
\ No newline at end of file
+}
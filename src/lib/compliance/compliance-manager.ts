@@ -7,6 +7,7 @@ import {
   ComplianceReport,
   Training,
   EventStatus,
+  EventType,
   TaskStatus,
   Priority,
   LicenseStatus,
@@ -14,6 +15,7 @@ import {
   ReportStatus,
   Frequency
 } from './compliance-types';
+import { emitWebhookEvent } from '../webhooks/webhook-service';
 
 export class ComplianceManager {
   private events: Map<string, ComplianceEvent> = new Map();
@@ -23,6 +25,9 @@ export class ComplianceManager {
   private regulations: Map<string, Regulation> = new Map();
   private reports: Map<string, ComplianceReport> = new Map();
   private trainings: Map<string, Training> = new Map();
+  private sentReminders: Set<string> = new Set(); // `${eventId}:${reminderDays}`
+
+  constructor(private facilityId?: string) {}
 
   // Event Management
   createEvent(event: Omit<ComplianceEvent, 'id' | 'createdAt' | 'updatedAt'>): ComplianceEvent {
@@ -46,6 +51,15 @@ export class ComplianceManager {
     return newEvent;
   }
 
+  /**
+   * Load a stored event without creating its tasks again, along with the
+   * reminder days already sent for it
+   */
+  restoreEvent(event: ComplianceEvent, remindersSent: number[] = []): void {
+    this.events.set(event.id, event);
+    remindersSent.forEach(days => this.sentReminders.add(`${event.id}:${days}`));
+  }
+
   updateEventStatus(eventId: string, status: EventStatus, completedBy?: string): void {
     const event = this.events.get(eventId);
     if (!event) throw new Error('Event not found');
@@ -300,6 +314,53 @@ export class ComplianceManager {
     }
   }
 
+  // Reminders
+  /**
+   * Emit the webhook reminder for every open event that has reached one of its
+   * reminder days. Only the closest reminder day is sent, so an event created
+   * late does not fire its earlier reminders all at once. Returns the events
+   * reminded about.
+   */
+  sendDueReminders(now: Date = new Date()): ComplianceEvent[] {
+    const reminded: ComplianceEvent[] = [];
+
+    for (const event of this.events.values()) {
+      if (event.status === EventStatus.Completed || event.status === EventStatus.Cancelled) continue;
+
+      const daysUntilDue = (event.dueDate.getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
+      const reached = event.reminderDays.filter(days => daysUntilDue <= days);
+      if (reached.length === 0) continue;
+
+      const closest = Math.min(...reached);
+      if (this.sentReminders.has(`${event.id}:${closest}`)) continue;
+      reached.forEach(days => this.sentReminders.add(`${event.id}:${days}`));
+
+      const certificate = event.type === EventType.License || event.type === EventType.Training;
+      emitWebhookEvent(certificate ? 'compliance.certificate_expiring' : 'compliance.audit_reminder', {
+        eventId: event.id,
+        title: event.title,
+        type: event.type,
+        category: event.category,
+        dueDate: event.dueDate.toISOString(),
+        daysUntilDue: Math.max(0, Math.ceil(daysUntilDue)),
+        severity: event.priority,
+        regulatoryBody: event.regulatoryBody,
+        referenceNumber: event.referenceNumber || null,
+        responsiblePerson: event.responsiblePerson
+      }, { facilityId: this.facilityId });
+      reminded.push(event);
+    }
+
+    return reminded;
+  }
+
+  /** Reminder days already sent for an event, to persist after sendDueReminders */
+  getSentReminderDays(eventId: string): number[] {
+    const event = this.events.get(eventId);
+    if (!event) return [];
+    return event.reminderDays.filter(days => this.sentReminders.has(`${eventId}:${days}`));
+  }
+
   // Calendar View
   getUpcomingEvents(days: number = 30): ComplianceEvent[] {
     const cutoffDate = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
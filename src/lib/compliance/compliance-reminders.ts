@@ -0,0 +1,102 @@
+/**
+ * Compliance Reminder Job
+ * Loads open ComplianceEvent rows per facility into a ComplianceManager, sends
+ * the reminders that have come due as webhook events and stores which reminder
+ * days went out so the next run does not repeat them.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { ComplianceManager } from './compliance-manager';
+import {
+  ComplianceCategory,
+  ComplianceEvent,
+  EventStatus,
+  EventType,
+  Frequency,
+  Priority
+} from './compliance-types';
+
+export interface ComplianceReminderResult {
+  facilities: number;
+  events: number;
+  reminded: Array<{ facilityId: string; eventId: string; type: EventType }>;
+}
+
+export interface ComplianceEventRow {
+  id: string;
+  facilityId: string;
+  title: string;
+  description: string;
+  type: string;
+  category: string;
+  dueDate: Date;
+  reminderDays: number[];
+  remindersSent: number[];
+  frequency: string;
+  status: string;
+  priority: string;
+  responsiblePerson: string;
+  responsibleDepartment: string;
+  regulatoryBody: string;
+  referenceNumber: string | null;
+  notes: string;
+  completedDate: Date | null;
+  completedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function complianceEventFromRow(row: ComplianceEventRow): ComplianceEvent {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    type: row.type as EventType,
+    category: row.category as ComplianceCategory,
+    dueDate: new Date(row.dueDate),
+    reminderDays: row.reminderDays,
+    frequency: row.frequency as Frequency,
+    status: row.status as EventStatus,
+    priority: row.priority as Priority,
+    responsiblePerson: row.responsiblePerson,
+    responsibleDepartment: row.responsibleDepartment,
+    regulatoryBody: row.regulatoryBody,
+    referenceNumber: row.referenceNumber ?? undefined,
+    attachments: [],
+    completedDate: row.completedDate ?? undefined,
+    completedBy: row.completedBy ?? undefined,
+    notes: row.notes,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  };
+}
+
+/**
+ * Send every compliance reminder due at `now` across all facilities
+ */
+export async function runComplianceReminders(now: Date = new Date()): Promise<ComplianceReminderResult> {
+  const rows: ComplianceEventRow[] = await prisma.complianceEvent.findMany({
+    where: { status: { notIn: [EventStatus.Completed, EventStatus.Cancelled] } }
+  });
+
+  const byFacility = new Map<string, ComplianceEventRow[]>();
+  for (const row of rows) {
+    byFacility.set(row.facilityId, [...(byFacility.get(row.facilityId) ?? []), row]);
+  }
+
+  const result: ComplianceReminderResult = { facilities: byFacility.size, events: rows.length, reminded: [] };
+  for (const [facilityId, facilityRows] of byFacility) {
+    const manager = new ComplianceManager(facilityId);
+    facilityRows.forEach(row => manager.restoreEvent(complianceEventFromRow(row), row.remindersSent));
+
+    for (const event of manager.sendDueReminders(now)) {
+      await prisma.complianceEvent.update({
+        where: { id: event.id },
+        data: { remindersSent: manager.getSentReminderDays(event.id) }
+      });
+      result.reminded.push({ facilityId, eventId: event.id, type: event.type });
+    }
+  }
+
+  return result;
+}
@@ -12,6 +12,7 @@ export interface METRCConfig {
   facilityLicense: string;
   environment: 'sandbox' | 'production';
   state: string; // Two-letter state code (e.g., 'CA', 'CO', 'NV')
+  baseUrl?: string; // Overrides the state endpoint, e.g. a local mock server
 }
 
 export interface METRCPlant {
@@ -179,9 +180,9 @@ export class METRCClient {
   constructor(config: METRCConfig) {
     this.config = config;
 
-    const baseURL = config.environment === 'production' 
+    const baseURL = config.baseUrl || (config.environment === 'production' 
       ? `https://api-${config.state.toLowerCase()}.metrc.com`
-      : `https://sandbox-api-${config.state.toLowerCase()}.metrc.com`;
+      : `https://sandbox-api-${config.state.toLowerCase()}.metrc.com`);
 
     this.client = axios.create({
       baseURL,
@@ -249,6 +250,25 @@ export class METRCClient {
     }
   }
 
+  async getInactivePlants(params?: {
+    licenseNumber?: string;
+    lastModifiedStart?: string;
+    lastModifiedEnd?: string;
+  }): Promise<METRCPlant[]> {
+    try {
+      const response = await this.client.get('/plants/v1/inactive', {
+        params: {
+          licenseNumber: params?.licenseNumber || this.config.facilityLicense,
+          ...params
+        }
+      });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to get inactive plants', error as Error);
+      throw error;
+    }
+  }
+
   async getPlantById(id: number, licenseNumber?: string): Promise<METRCPlant> {
     try {
       const response = await this.client.get(`/plants/v1/${id}`, {
@@ -306,6 +326,25 @@ export class METRCClient {
     }
   }
 
+  async getInactivePackages(params?: {
+    licenseNumber?: string;
+    lastModifiedStart?: string;
+    lastModifiedEnd?: string;
+  }): Promise<METRCPackage[]> {
+    try {
+      const response = await this.client.get('/packages/v1/inactive', {
+        params: {
+          licenseNumber: params?.licenseNumber || this.config.facilityLicense,
+          ...params
+        }
+      });
+      return response.data;
+    } catch (error) {
+      logger.error('Failed to get inactive packages', error as Error);
+      throw error;
+    }
+  }
+
   async getPackageById(id: number, licenseNumber?: string): Promise<METRCPackage> {
     try {
       const response = await this.client.get(`/packages/v1/${id}`, {
@@ -514,6 +553,22 @@ export class METRCClient {
   }
 
   // Utility Methods
+  async send(method: 'POST' | 'PUT', path: string, body: any, licenseNumber?: string): Promise<void> {
+    try {
+      await this.client.request({
+        method,
+        url: path,
+        data: body,
+        params: {
+          licenseNumber: licenseNumber || this.config.facilityLicense
+        }
+      });
+    } catch (error) {
+      logger.error(`Failed to ${method} ${path}`, error as Error);
+      throw error;
+    }
+  }
+
   async getFacilities(): Promise<any[]> {
     try {
       const response = await this.client.get('/facilities/v1/');
@@ -0,0 +1,704 @@
+/**
+ * METRC Reconciliation
+ * Diffs METRC state for a license against the local seed-to-sale ledger and
+ * produces a discrepancy report with the METRC calls that would correct it
+ */
+
+import { logger } from '@/lib/logging/production-logger';
+import { METRCClient, METRCHarvest, METRCPackage, METRCPlant } from './metrc-client';
+import type { SeedToSaleLedgerStore } from '@/lib/seed-to-sale/ledger-store';
+import {
+  Harvest,
+  Package,
+  PackageStatus,
+  Plant,
+  PlantStage,
+  UnitOfMeasure,
+  WasteLog
+} from '@/lib/seed-to-sale/tracking-types';
+
+export type DiscrepancyType =
+  | 'missing_in_metrc'
+  | 'missing_locally'
+  | 'weight_mismatch'
+  | 'stage_drift'
+  | 'location_drift'
+  | 'unreported_waste';
+
+export type DiscrepancySeverity = 'critical' | 'error' | 'warning';
+
+export interface METRCCorrectiveCall {
+  method: 'POST' | 'PUT';
+  path: string;
+  params: { licenseNumber: string };
+  body: any[];
+  description: string;
+}
+
+export interface ReconciliationDiscrepancy {
+  type: DiscrepancyType;
+  entityType: 'plant' | 'package' | 'harvest' | 'waste';
+  tag: string;
+  severity: DiscrepancySeverity;
+  message: string;
+  local?: Record<string, any>;
+  metrc?: Record<string, any>;
+  // Calls that bring METRC in line with local records
+  suggestedCalls: METRCCorrectiveCall[];
+  // What to do when METRC is right and local records need fixing
+  localAction?: string;
+}
+
+export interface ReconciliationReport {
+  facilityId: string;
+  licenseNumber: string;
+  startedAt: Date;
+  completedAt: Date;
+  counts: {
+    plants: { local: number; metrc: number };
+    packages: { local: number; metrc: number };
+    harvests: { local: number; metrc: number };
+  };
+  summary: Record<DiscrepancyType, number>;
+  discrepancies: ReconciliationDiscrepancy[];
+}
+
+export interface ReconciliationOptions {
+  // Absolute weight difference tolerated before flagging, in grams
+  weightToleranceGrams?: number;
+  // Relative weight difference tolerated before flagging, in percent
+  weightTolerancePercent?: number;
+  // Date stamped on suggested calls; defaults to the run date
+  actualDate?: Date;
+}
+
+// Local plant stages as METRC growth phases
+const GROWTH_PHASES: Partial<Record<PlantStage, string>> = {
+  [PlantStage.Clone]: 'Immature',
+  [PlantStage.Vegetative]: 'Vegetative',
+  [PlantStage.Flowering]: 'Flowering'
+};
+
+const GRAMS_PER_UNIT: Record<string, number> = {
+  g: 1,
+  grams: 1,
+  milligrams: 0.001,
+  kilograms: 1000,
+  oz: 28.349523125,
+  ounces: 28.349523125,
+  lb: 453.59237,
+  pounds: 453.59237
+};
+
+const METRC_UNIT_NAMES: Record<string, string> = {
+  [UnitOfMeasure.Grams]: 'Grams',
+  [UnitOfMeasure.Ounces]: 'Ounces',
+  [UnitOfMeasure.Pounds]: 'Pounds',
+  [UnitOfMeasure.Each]: 'Each'
+};
+
+const ACTIVE_STAGES = [PlantStage.Clone, PlantStage.Vegetative, PlantStage.Flowering];
+const TRACKED_PACKAGE_STATUSES = [PackageStatus.Active, PackageStatus.InTransit, PackageStatus.Remediation];
+
+export class METRCReconciliationEngine {
+  constructor(
+    private client: METRCClient,
+    private store: SeedToSaleLedgerStore,
+    private options: ReconciliationOptions = {}
+  ) {}
+
+  /**
+   * Pull METRC state for the license and diff it against the facility's ledger
+   */
+  async reconcile(facilityId: string, licenseNumber: string): Promise<ReconciliationReport> {
+    const startedAt = new Date();
+    logger.info('Starting METRC reconciliation', { facilityId, licenseNumber });
+
+    const [
+      metrcPlants,
+      metrcInactivePlants,
+      metrcPackages,
+      metrcInactivePackages,
+      metrcHarvests,
+      plantTags,
+      packageTags,
+      harvestTags,
+      wasteTags
+    ] = await Promise.all([
+      this.client.getPlants({ licenseNumber }),
+      this.client.getInactivePlants({ licenseNumber }),
+      this.client.getPackages({ licenseNumber }),
+      this.client.getInactivePackages({ licenseNumber }),
+      this.client.getHarvests({ licenseNumber }),
+      this.store.listTags(facilityId, { entityType: 'plant' }),
+      this.store.listTags(facilityId, { entityType: 'package' }),
+      this.store.listTags(facilityId, { entityType: 'harvest' }),
+      this.store.listTags(facilityId, { entityType: 'waste' })
+    ]);
+
+    const context = new ReconciliationContext(licenseNumber, this.options);
+    const plants = plantTags.map(record => record.state as Plant);
+    const packages = packageTags.map(record => record.state as Package);
+    const harvests = harvestTags.map(record => record.state as Harvest);
+
+    this.reconcilePlants(context, plants, metrcPlants, metrcInactivePlants, harvests);
+    this.reconcilePackages(context, packages, metrcPackages, metrcInactivePackages, metrcHarvests);
+    this.reconcileHarvests(context, harvests, metrcHarvests, metrcPlants);
+    this.reconcileWaste(context, wasteTags.map(record => record.state as WasteLog));
+
+    const summary = {
+      missing_in_metrc: 0,
+      missing_locally: 0,
+      weight_mismatch: 0,
+      stage_drift: 0,
+      location_drift: 0,
+      unreported_waste: 0
+    };
+    context.discrepancies.forEach(d => summary[d.type]++);
+
+    const report: ReconciliationReport = {
+      facilityId,
+      licenseNumber,
+      startedAt,
+      completedAt: new Date(),
+      counts: {
+        plants: { local: plants.filter(p => ACTIVE_STAGES.includes(p.stage)).length, metrc: metrcPlants.length },
+        packages: { local: packages.filter(p => TRACKED_PACKAGE_STATUSES.includes(p.status)).length, metrc: metrcPackages.length },
+        harvests: { local: harvests.length, metrc: metrcHarvests.length }
+      },
+      summary,
+      discrepancies: context.discrepancies
+    };
+
+    logger.info('METRC reconciliation complete', { facilityId, licenseNumber, summary });
+    return report;
+  }
+
+  /**
+   * Send the suggested calls to METRC, in report order. Stops at the first failure.
+   */
+  async applyCorrections(
+    report: ReconciliationReport,
+    filter: (discrepancy: ReconciliationDiscrepancy) => boolean = () => true
+  ): Promise<{ applied: METRCCorrectiveCall[]; failed?: { call: METRCCorrectiveCall; error: string } }> {
+    const applied: METRCCorrectiveCall[] = [];
+    for (const discrepancy of report.discrepancies.filter(filter)) {
+      for (const call of discrepancy.suggestedCalls) {
+        try {
+          await this.client.send(call.method, call.path, call.body, call.params.licenseNumber);
+          applied.push(call);
+        } catch (error) {
+          return { applied, failed: { call, error: (error as Error).message } };
+        }
+      }
+    }
+    return { applied };
+  }
+
+  private reconcilePlants(
+    context: ReconciliationContext,
+    plants: Plant[],
+    metrcActive: METRCPlant[],
+    metrcInactive: METRCPlant[],
+    harvests: Harvest[]
+  ): void {
+    const activeByLabel = new Map(metrcActive.map(p => [p.Label, p]));
+    const inactiveByLabel = new Map(metrcInactive.map(p => [p.Label, p]));
+    const localByTag = new Map(plants.map(p => [p.tagId, p]));
+
+    plants.forEach(plant => {
+      const remote = activeByLabel.get(plant.tagId);
+      const local = { stage: plant.stage, location: plant.location, strain: plant.strain };
+
+      if (ACTIVE_STAGES.includes(plant.stage)) {
+        if (remote) {
+          this.comparePlant(context, plant, remote);
+          return;
+        }
+
+        const inactive = inactiveByLabel.get(plant.tagId);
+        if (inactive) {
+          context.add({
+            type: 'stage_drift',
+            entityType: 'plant',
+            tag: plant.tagId,
+            severity: 'error',
+            message: `Plant ${plant.tagId} is ${plant.stage} locally but ${inactive.DestroyedDate ? 'destroyed' : 'harvested'} in METRC`,
+            local,
+            metrc: { state: inactive.State, destroyedDate: inactive.DestroyedDate, harvestedDate: inactive.HarvestedDate },
+            suggestedCalls: [],
+            localAction: inactive.DestroyedDate
+              ? 'Record the destruction in local tracking'
+              : 'Record the harvest in local tracking'
+          });
+          return;
+        }
+
+        context.add({
+          type: 'missing_in_metrc',
+          entityType: 'plant',
+          tag: plant.tagId,
+          severity: 'critical',
+          message: `Plant ${plant.tagId} is tracked locally but not reported to METRC`,
+          local,
+          suggestedCalls: [
+            context.call('POST', '/plants/v1/create/plantings', [{
+              PlantLabel: plant.tagId,
+              PlantBatchName: plant.plantBatchId,
+              PlantBatchType: 'Clone',
+              PlantCount: 1,
+              LocationName: plant.location,
+              StrainName: plant.strain,
+              ActualDate: context.date(plant.plantedDate)
+            }], `Create planting for ${plant.tagId}`),
+            // Plantings start immature; bring the plant up to its local stage
+            ...(plant.stage === PlantStage.Clone ? [] : [context.call('POST', '/plants/v1/changegrowthphases', [{
+              Label: plant.tagId,
+              GrowthPhase: GROWTH_PHASES[plant.stage],
+              NewLocation: plant.location,
+              GrowthDate: context.date(plant.stage === PlantStage.Flowering ? plant.floweringDate : plant.vegetativeDate)
+            }], `Change ${plant.tagId} to ${GROWTH_PHASES[plant.stage]}`)])
+          ]
+        });
+        return;
+      }
+
+      // Harvested or destroyed locally but still active in METRC
+      if (!remote) return;
+      if (plant.stage === PlantStage.Destroyed) {
+        context.add({
+          type: 'unreported_waste',
+          entityType: 'plant',
+          tag: plant.tagId,
+          severity: 'critical',
+          message: `Plant ${plant.tagId} was destroyed locally but is still active in METRC`,
+          local,
+          metrc: { growthPhase: remote.GrowthPhase, location: remote.LocationName },
+          suggestedCalls: [context.call('PUT', '/plants/v1/destroyplants', [{
+            Id: remote.Id,
+            Label: remote.Label,
+            ReasonNote: plant.notes || 'Destroyed',
+            ActualDate: context.date(plant.destroyDate)
+          }], `Destroy ${plant.tagId}`)]
+        });
+      } else {
+        const harvest = harvests.find(h => h.plantIds.includes(plant.id) || h.plantIds.includes(plant.tagId));
+        context.add({
+          type: 'stage_drift',
+          entityType: 'plant',
+          tag: plant.tagId,
+          severity: 'error',
+          message: `Plant ${plant.tagId} was harvested locally but is still ${remote.GrowthPhase} in METRC`,
+          local,
+          metrc: { growthPhase: remote.GrowthPhase, location: remote.LocationName },
+          suggestedCalls: harvest
+            ? [context.call('POST', '/plants/v1/harvestplants', [{
+                Plant: remote.Label,
+                Weight: roundWeight(harvest.wetWeight / Math.max(harvest.plantIds.length, 1)),
+                UnitOfWeight: 'Grams',
+                DryingLocation: harvest.dryingLocation,
+                HarvestName: harvest.harvestBatchId,
+                ActualDate: context.date(harvest.harvestDate)
+              }], `Harvest ${plant.tagId} into ${harvest.harvestBatchId}`)]
+            : [],
+          localAction: harvest ? undefined : 'Link the plant to its local harvest record'
+        });
+      }
+    });
+
+    metrcActive.forEach(remote => {
+      if (localByTag.has(remote.Label)) return;
+      context.add({
+        type: 'missing_locally',
+        entityType: 'plant',
+        tag: remote.Label,
+        severity: 'error',
+        message: `Plant ${remote.Label} is active in METRC but not tracked locally`,
+        metrc: { growthPhase: remote.GrowthPhase, location: remote.LocationName, strain: remote.StrainName },
+        suggestedCalls: [],
+        localAction: 'Import the plant into local tracking or investigate the tag'
+      });
+    });
+  }
+
+  private comparePlant(context: ReconciliationContext, plant: Plant, remote: METRCPlant): void {
+    const expectedPhase = GROWTH_PHASES[plant.stage];
+    if (expectedPhase && remote.GrowthPhase !== expectedPhase) {
+      context.add({
+        type: 'stage_drift',
+        entityType: 'plant',
+        tag: plant.tagId,
+        severity: 'error',
+        message: `Plant ${plant.tagId} is ${plant.stage} locally but ${remote.GrowthPhase} in METRC`,
+        local: { stage: plant.stage },
+        metrc: { growthPhase: remote.GrowthPhase },
+        suggestedCalls: [context.call('POST', '/plants/v1/changegrowthphases', [{
+          Id: remote.Id,
+          Label: remote.Label,
+          GrowthPhase: expectedPhase,
+          NewLocation: plant.location,
+          GrowthDate: context.date(plant.stage === PlantStage.Flowering ? plant.floweringDate : plant.vegetativeDate)
+        }], `Change ${plant.tagId} to ${expectedPhase}`)]
+      });
+    }
+
+    if (!sameLocation(plant.location, remote.LocationName)) {
+      context.add({
+        type: 'location_drift',
+        entityType: 'plant',
+        tag: plant.tagId,
+        severity: 'warning',
+        message: `Plant ${plant.tagId} is in ${plant.location} locally but ${remote.LocationName} in METRC`,
+        local: { location: plant.location },
+        metrc: { location: remote.LocationName },
+        suggestedCalls: [context.call('PUT', '/plants/v1/moveplants', [{
+          Id: remote.Id,
+          Label: remote.Label,
+          Location: plant.location,
+          ActualDate: context.date(plant.movements?.[plant.movements.length - 1]?.date)
+        }], `Move ${plant.tagId} to ${plant.location}`)]
+      });
+    }
+  }
+
+  private reconcilePackages(
+    context: ReconciliationContext,
+    packages: Package[],
+    metrcActive: METRCPackage[],
+    metrcInactive: METRCPackage[],
+    metrcHarvests: METRCHarvest[]
+  ): void {
+    const activeByLabel = new Map(metrcActive.map(p => [p.Label, p]));
+    const inactiveLabels = new Set(metrcInactive.map(p => p.Label));
+    const localByTag = new Map(packages.map(p => [p.tagId, p]));
+
+    packages.forEach(pkg => {
+      const remote = activeByLabel.get(pkg.tagId);
+      const local = { status: pkg.status, weight: pkg.weight, unitOfMeasure: pkg.unitOfMeasure, location: pkg.location };
+
+      if (TRACKED_PACKAGE_STATUSES.includes(pkg.status)) {
+        if (remote) {
+          this.comparePackage(context, pkg, remote);
+          return;
+        }
+
+        if (inactiveLabels.has(pkg.tagId)) {
+          context.add({
+            type: 'stage_drift',
+            entityType: 'package',
+            tag: pkg.tagId,
+            severity: 'error',
+            message: `Package ${pkg.tagId} is ${pkg.status} locally but finished in METRC`,
+            local,
+            suggestedCalls: [],
+            localAction: 'Record the sale, transfer or destruction in local tracking'
+          });
+          return;
+        }
+
+        const harvest = metrcHarvests.find(h => h.Name === pkg.harvestBatchId);
+        context.add({
+          type: 'missing_in_metrc',
+          entityType: 'package',
+          tag: pkg.tagId,
+          severity: 'critical',
+          message: `Package ${pkg.tagId} is tracked locally but not reported to METRC`,
+          local,
+          suggestedCalls: harvest
+            ? [context.call('POST', '/harvests/v1/create/packages', [{
+                Tag: pkg.tagId,
+                Location: pkg.location,
+                Item: `${pkg.strain} ${pkg.productType}`,
+                UnitOfWeight: METRC_UNIT_NAMES[pkg.unitOfMeasure] ?? 'Grams',
+                IsProductionBatch: false,
+                ActualDate: context.date(pkg.packagedDate),
+                Ingredients: [{
+                  HarvestId: harvest.Id,
+                  HarvestName: harvest.Name,
+                  Weight: pkg.weight,
+                  UnitOfWeight: METRC_UNIT_NAMES[pkg.unitOfMeasure] ?? 'Grams'
+                }]
+              }], `Create package ${pkg.tagId} from harvest ${harvest.Name}`)]
+            : [],
+          localAction: harvest ? undefined : `Report harvest ${pkg.harvestBatchId} to METRC before packaging`
+        });
+        return;
+      }
+
+      if (!remote) return;
+      if (pkg.status === PackageStatus.Destroyed) {
+        context.add({
+          type: 'unreported_waste',
+          entityType: 'package',
+          tag: pkg.tagId,
+          severity: 'critical',
+          message: `Package ${pkg.tagId} was destroyed locally but is still active in METRC`,
+          local,
+          metrc: { quantity: remote.Quantity, unitOfMeasure: remote.UnitOfMeasureName },
+          suggestedCalls: [context.call('POST', '/packages/v1/adjust', [{
+            Label: remote.Label,
+            Quantity: -remote.Quantity,
+            UnitOfMeasure: remote.UnitOfMeasureName,
+            AdjustmentReason: 'Waste',
+            AdjustmentDate: context.date(pkg.updatedAt),
+            ReasonNote: 'Destroyed'
+          }], `Adjust ${pkg.tagId} to zero as waste`)]
+        });
+      } else if (pkg.status === PackageStatus.Sold) {
+        context.add({
+          type: 'stage_drift',
+          entityType: 'package',
+          tag: pkg.tagId,
+          severity: 'error',
+          message: `Package ${pkg.tagId} was sold locally but is still active in METRC`,
+          local,
+          metrc: { quantity: remote.Quantity, unitOfMeasure: remote.UnitOfMeasureName },
+          suggestedCalls: [context.call('POST', '/sales/v1/receipts', [{
+            SalesDateTime: context.date(pkg.soldDate),
+            SalesCustomerType: 'Consumer',
+            Transactions: [{
+              PackageLabel: remote.Label,
+              Quantity: remote.Quantity,
+              UnitOfMeasure: remote.UnitOfMeasureName,
+              TotalAmount: pkg.price ?? 0
+            }]
+          }], `Record sale of ${pkg.tagId}`)]
+        });
+      }
+    });
+
+    metrcActive.forEach(remote => {
+      if (localByTag.has(remote.Label)) return;
+      context.add({
+        type: 'missing_locally',
+        entityType: 'package',
+        tag: remote.Label,
+        severity: 'error',
+        message: `Package ${remote.Label} is active in METRC but not tracked locally`,
+        metrc: { item: remote.Item?.Name ?? remote.ProductName, quantity: remote.Quantity, unitOfMeasure: remote.UnitOfMeasureName },
+        suggestedCalls: [],
+        localAction: 'Import the package into local tracking or investigate the tag'
+      });
+    });
+  }
+
+  private comparePackage(context: ReconciliationContext, pkg: Package, remote: METRCPackage): void {
+    const localGrams = toGrams(pkg.weight, pkg.unitOfMeasure);
+    const remoteGrams = toGrams(remote.Quantity, remote.UnitOfMeasureName);
+
+    if (localGrams !== null && remoteGrams !== null) {
+      if (context.weightDiffers(localGrams, remoteGrams)) {
+        const deltaInRemoteUnits = (localGrams - remoteGrams) / (GRAMS_PER_UNIT[remote.UnitOfMeasureName.toLowerCase()] ?? 1);
+        context.add({
+          type: 'weight_mismatch',
+          entityType: 'package',
+          tag: pkg.tagId,
+          severity: 'error',
+          message: `Package ${pkg.tagId} weighs ${roundWeight(localGrams)} g locally but ${roundWeight(remoteGrams)} g in METRC`,
+          local: { weight: pkg.weight, unitOfMeasure: pkg.unitOfMeasure },
+          metrc: { quantity: remote.Quantity, unitOfMeasure: remote.UnitOfMeasureName },
+          suggestedCalls: [context.call('POST', '/packages/v1/adjust', [{
+            Label: remote.Label,
+            Quantity: roundWeight(deltaInRemoteUnits),
+            UnitOfMeasure: remote.UnitOfMeasureName,
+            AdjustmentReason: 'Scale Variance',
+            AdjustmentDate: context.date(),
+            ReasonNote: 'Reconciled against facility records'
+          }], `Adjust ${pkg.tagId} by ${roundWeight(deltaInRemoteUnits)} ${remote.UnitOfMeasureName}`)],
+          localAction: 'Re-weigh the package if the local record is wrong'
+        });
+      }
+    } else if (pkg.weight !== remote.Quantity) {
+      // Count-based packages compare directly
+      context.add({
+        type: 'weight_mismatch',
+        entityType: 'package',
+        tag: pkg.tagId,
+        severity: 'error',
+        message: `Package ${pkg.tagId} holds ${pkg.weight} ${pkg.unitOfMeasure} locally but ${remote.Quantity} ${remote.UnitOfMeasureName} in METRC`,
+        local: { weight: pkg.weight, unitOfMeasure: pkg.unitOfMeasure },
+        metrc: { quantity: remote.Quantity, unitOfMeasure: remote.UnitOfMeasureName },
+        suggestedCalls: [],
+        localAction: 'Confirm the unit count and correct whichever record is wrong'
+      });
+    }
+
+    if (pkg.status === PackageStatus.Active && !sameLocation(pkg.location, remote.LocationName)) {
+      context.add({
+        type: 'location_drift',
+        entityType: 'package',
+        tag: pkg.tagId,
+        severity: 'warning',
+        message: `Package ${pkg.tagId} is in ${pkg.location} locally but ${remote.LocationName} in METRC`,
+        local: { location: pkg.location },
+        metrc: { location: remote.LocationName },
+        suggestedCalls: [context.call('PUT', '/packages/v1/change/locations', [{
+          Label: remote.Label,
+          Location: pkg.location,
+          MoveDate: context.date(pkg.updatedAt)
+        }], `Move ${pkg.tagId} to ${pkg.location}`)]
+      });
+    }
+  }
+
+  private reconcileHarvests(
+    context: ReconciliationContext,
+    harvests: Harvest[],
+    metrcHarvests: METRCHarvest[],
+    metrcPlants: METRCPlant[]
+  ): void {
+    const remoteByName = new Map(metrcHarvests.map(h => [h.Name, h]));
+    const localNames = new Set(harvests.map(h => h.harvestBatchId));
+    const activeLabels = new Set(metrcPlants.map(p => p.Label));
+
+    harvests.forEach(harvest => {
+      const remote = remoteByName.get(harvest.harvestBatchId);
+      if (!remote) {
+        // Plants still active in METRC already surface as plant stage drift with a harvest call
+        if (!harvest.plantIds.some(tag => activeLabels.has(tag))) {
+          context.add({
+            type: 'missing_in_metrc',
+            entityType: 'harvest',
+            tag: harvest.harvestBatchId,
+            severity: 'warning',
+            message: `Harvest ${harvest.harvestBatchId} is not active in METRC`,
+            local: { wetWeight: harvest.wetWeight, status: harvest.status },
+            suggestedCalls: [],
+            localAction: 'Confirm whether the harvest was finished in METRC'
+          });
+        }
+        return;
+      }
+
+      const remoteWet = toGrams(remote.TotalWetWeight, remote.UnitOfWeightName);
+      if (remoteWet !== null && context.weightDiffers(harvest.wetWeight, remoteWet)) {
+        context.add({
+          type: 'weight_mismatch',
+          entityType: 'harvest',
+          tag: harvest.harvestBatchId,
+          severity: 'error',
+          message: `Harvest ${harvest.harvestBatchId} wet weight is ${roundWeight(harvest.wetWeight)} g locally but ${roundWeight(remoteWet)} g in METRC`,
+          local: { wetWeight: harvest.wetWeight },
+          metrc: { totalWetWeight: remote.TotalWetWeight, unitOfWeight: remote.UnitOfWeightName },
+          suggestedCalls: [],
+          // METRC does not allow wet weights to be edited after the fact
+          localAction: 'Correct the local wet weight or file a correction with the state'
+        });
+      }
+
+      const remoteWaste = toGrams(remote.TotalWasteWeight, remote.UnitOfWeightName);
+      if (remoteWaste !== null && harvest.wasteWeight > remoteWaste && context.weightDiffers(harvest.wasteWeight, remoteWaste)) {
+        const missing = harvest.wasteWeight - remoteWaste;
+        context.add({
+          type: 'unreported_waste',
+          entityType: 'harvest',
+          tag: harvest.harvestBatchId,
+          severity: 'error',
+          message: `Harvest ${harvest.harvestBatchId} has ${roundWeight(missing)} g of waste not reported to METRC`,
+          local: { wasteWeight: harvest.wasteWeight },
+          metrc: { totalWasteWeight: remote.TotalWasteWeight, unitOfWeight: remote.UnitOfWeightName },
+          suggestedCalls: [context.call('POST', '/harvests/v1/removewaste', [{
+            Id: remote.Id,
+            WasteType: 'Plant Material',
+            UnitOfWeight: 'Grams',
+            WasteWeight: roundWeight(missing),
+            ActualDate: context.date(harvest.updatedAt)
+          }], `Report ${roundWeight(missing)} g of waste for ${harvest.harvestBatchId}`)]
+        });
+      }
+    });
+
+    metrcHarvests.forEach(remote => {
+      if (localNames.has(remote.Name)) return;
+      context.add({
+        type: 'missing_locally',
+        entityType: 'harvest',
+        tag: remote.Name,
+        severity: 'warning',
+        message: `Harvest ${remote.Name} is active in METRC but not tracked locally`,
+        metrc: { totalWetWeight: remote.TotalWetWeight, unitOfWeight: remote.UnitOfWeightName },
+        suggestedCalls: [],
+        localAction: 'Import the harvest into local tracking'
+      });
+    });
+  }
+
+  private reconcileWaste(context: ReconciliationContext, wasteLogs: WasteLog[]): void {
+    // Tagged waste is checked against plant and package state; untagged waste only has the report flag
+    wasteLogs
+      .filter(waste => !waste.reportedToState && waste.plantIds.length === 0 && waste.packageIds.length === 0)
+      .forEach(waste => {
+        context.add({
+          type: 'unreported_waste',
+          entityType: 'waste',
+          tag: waste.id,
+          severity: 'warning',
+          message: `${waste.weight} ${waste.unitOfMeasure} of ${waste.type.toLowerCase()} waste (${waste.reason}) has not been reported to METRC`,
+          local: { date: waste.date, weight: waste.weight, method: waste.method },
+          suggestedCalls: [],
+          localAction: 'Report the waste against its source harvest in METRC'
+        });
+      });
+  }
+}
+
+/**
+ * Flatten a reconciliation report into CSV for audit binders
+ */
+export function reconciliationReportToCsv(report: ReconciliationReport): string {
+  const header = ['Type', 'Severity', 'Entity', 'Tag', 'Message', 'Suggested Calls', 'Local Action'];
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rows = report.discrepancies.map(d => [
+    d.type,
+    d.severity,
+    d.entityType,
+    d.tag,
+    d.message,
+    d.suggestedCalls.map(call => `${call.method} ${call.path}`).join('; '),
+    d.localAction ?? ''
+  ]);
+  return [header, ...rows].map(row => row.map(escape).join(',')).join('\n');
+}
+
+class ReconciliationContext {
+  discrepancies: ReconciliationDiscrepancy[] = [];
+  private actualDate: Date;
+
+  constructor(private licenseNumber: string, private options: ReconciliationOptions) {
+    this.actualDate = options.actualDate ?? new Date();
+  }
+
+  add(discrepancy: ReconciliationDiscrepancy): void {
+    this.discrepancies.push(discrepancy);
+  }
+
+  call(method: 'POST' | 'PUT', path: string, body: any[], description: string): METRCCorrectiveCall {
+    return { method, path, params: { licenseNumber: this.licenseNumber }, body, description };
+  }
+
+  // METRC expects ISO dates (yyyy-mm-dd)
+  date(value?: Date | string): string {
+    const date = value ? new Date(value) : this.actualDate;
+    return (Number.isNaN(date.getTime()) ? this.actualDate : date).toISOString().split('T')[0];
+  }
+
+  weightDiffers(localGrams: number, remoteGrams: number): boolean {
+    const difference = Math.abs(localGrams - remoteGrams);
+    const absolute = this.options.weightToleranceGrams ?? 0.5;
+    const relative = ((this.options.weightTolerancePercent ?? 0) / 100) * Math.max(localGrams, remoteGrams);
+    return difference > Math.max(absolute, relative);
+  }
+}
+
+function toGrams(quantity: number, unit: string): number | null {
+  const factor = GRAMS_PER_UNIT[unit?.toLowerCase()];
+  return factor === undefined ? null : quantity * factor;
+}
+
+function sameLocation(local: string, remote: string): boolean {
+  return (local ?? '').trim().toLowerCase() === (remote ?? '').trim().toLowerCase();
+}
+
+function roundWeight(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
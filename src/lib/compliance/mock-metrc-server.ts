@@ -0,0 +1,307 @@
+/**
+ * Mock METRC Server
+ * In-process HTTP server implementing the subset of the METRC v1 API used by
+ * METRCClient and the reconciliation engine. State is mutable so tests can
+ * apply corrective calls and reconcile again.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import type { METRCHarvest, METRCPackage, METRCPlant } from './metrc-client';
+
+export interface MockMETRCServerOptions {
+  licenseNumber: string;
+  apiKey?: string;
+  userKey?: string;
+}
+
+export interface MockMETRCRequest {
+  method: string;
+  path: string;
+  licenseNumber: string | null;
+  body: any;
+}
+
+export class MockMETRCServer {
+  plants: METRCPlant[] = [];
+  inactivePlants: METRCPlant[] = [];
+  packages: METRCPackage[] = [];
+  inactivePackages: METRCPackage[] = [];
+  harvests: METRCHarvest[] = [];
+  requests: MockMETRCRequest[] = [];
+
+  private server: http.Server | null = null;
+  private nextId = 1000;
+
+  constructor(private options: MockMETRCServerOptions) {}
+
+  /**
+   * Start listening on an ephemeral port and return the base URL
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) => this.server!.close(error => (error ? reject(error) : resolve())));
+    this.server = null;
+  }
+
+  addPlant(plant: Partial<METRCPlant> & { Label: string }): METRCPlant {
+    const record: METRCPlant = {
+      Id: this.nextId++,
+      State: 'Tracked',
+      GrowthPhase: 'Vegetative',
+      PlantBatchId: 1,
+      PlantBatchName: 'Batch',
+      PlantBatchTypeName: 'Clone',
+      StrainId: 1,
+      StrainName: 'Unknown',
+      LocationId: 1,
+      LocationName: 'Veg Room',
+      LocationTypeName: 'Default',
+      PlantedDate: '2024-01-01',
+      LastModified: new Date().toISOString(),
+      ...plant
+    };
+    this.plants.push(record);
+    return record;
+  }
+
+  addPackage(pkg: Partial<METRCPackage> & { Label: string }): METRCPackage {
+    const record: METRCPackage = {
+      Id: this.nextId++,
+      PackageType: 'Product',
+      ProductId: 1,
+      ProductName: 'Flower',
+      ProductCategoryName: 'Buds',
+      Quantity: 0,
+      UnitOfMeasureName: 'Grams',
+      PackagedDate: '2024-01-01',
+      InitialLabTestingState: 'NotSubmitted',
+      LabTestingState: 'NotSubmitted',
+      LabTestingStateDate: '2024-01-01',
+      IsProductionBatch: false,
+      LocationId: 1,
+      LocationName: 'Vault',
+      Item: {
+        Id: 1,
+        Name: 'Flower',
+        ProductCategoryName: 'Buds',
+        ProductCategoryType: 'Buds',
+        QuantityType: 'WeightBased',
+        DefaultLabTestingState: 'NotSubmitted',
+        ApprovalStatus: 'Approved',
+        ApprovalStatusDateTime: '2024-01-01',
+        IsUsed: true
+      },
+      LastModified: new Date().toISOString(),
+      ...pkg
+    };
+    this.packages.push(record);
+    return record;
+  }
+
+  addHarvest(harvest: Partial<METRCHarvest> & { Name: string }): METRCHarvest {
+    const record: METRCHarvest = {
+      Id: this.nextId++,
+      HarvestType: 'WholePlant',
+      SourceStrainId: 1,
+      SourceStrainName: 'Unknown',
+      DryingLocationId: 1,
+      DryingLocationName: 'Dry Room',
+      ActualDate: '2024-01-01',
+      TotalWasteWeight: 0,
+      TotalRestoredWeight: 0,
+      TotalWetWeight: 0,
+      TotalDryWeight: 0,
+      UnitOfWeightName: 'Grams',
+      LabTestingState: 'NotSubmitted',
+      LabTestingStateDate: '2024-01-01',
+      IsOnHold: false,
+      IsFinished: false,
+      LastModified: new Date().toISOString(),
+      ...harvest
+    };
+    this.harvests.push(record);
+    return record;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const licenseNumber = url.searchParams.get('licenseNumber');
+    const body = await readBody(req).catch(() => null);
+    this.requests.push({ method: req.method ?? 'GET', path: url.pathname, licenseNumber, body });
+
+    if (!this.authorized(req.headers.authorization)) {
+      return send(res, 401, { Message: 'Authorization denied' });
+    }
+    if (url.pathname !== '/facilities/v1/' && licenseNumber !== this.options.licenseNumber) {
+      return send(res, 401, { Message: `No access to license ${licenseNumber}` });
+    }
+
+    try {
+      const result = this.route(req.method ?? 'GET', url.pathname, body);
+      if (result === undefined) return send(res, 404, { Message: `No route for ${req.method} ${url.pathname}` });
+      send(res, 200, result);
+    } catch (error) {
+      send(res, 400, [{ row: 0, message: (error as Error).message }]);
+    }
+  }
+
+  private route(method: string, path: string, body: any): any {
+    const rows: any[] = Array.isArray(body) ? body : [];
+    const key = `${method} ${path}`;
+
+    switch (key) {
+      case 'GET /facilities/v1/':
+        return [{ Name: 'Mock Facility', License: { Number: this.options.licenseNumber } }];
+      case 'GET /plants/v1/active':
+        return this.plants;
+      case 'GET /plants/v1/inactive':
+        return this.inactivePlants;
+      case 'GET /packages/v1/active':
+        return this.packages;
+      case 'GET /packages/v1/inactive':
+        return this.inactivePackages;
+      case 'GET /harvests/v1/active':
+        return this.harvests;
+
+      case 'POST /plants/v1/create/plantings':
+        rows.forEach(row => this.addPlant({
+          Label: row.PlantLabel,
+          GrowthPhase: 'Immature',
+          PlantBatchName: row.PlantBatchName,
+          StrainName: row.StrainName,
+          LocationName: row.LocationName,
+          PlantedDate: row.ActualDate
+        }));
+        return null;
+      case 'POST /plantbatches/v1/createplantings':
+        // Untagged plant batches are not modeled; tags appear on growth phase change
+        return null;
+      case 'POST /plants/v1/changegrowthphases':
+        rows.forEach(row => {
+          const plant = this.plant(row.Label);
+          plant.GrowthPhase = row.GrowthPhase;
+          if (row.NewLocation) plant.LocationName = row.NewLocation;
+        });
+        return null;
+      case 'PUT /plants/v1/moveplants':
+        rows.forEach(row => {
+          this.plant(row.Label).LocationName = row.Location;
+        });
+        return null;
+      case 'PUT /plants/v1/destroyplants':
+        rows.forEach(row => {
+          const plant = this.retirePlant(row.Label);
+          plant.DestroyedDate = row.ActualDate;
+          plant.DestroyedNote = row.ReasonNote;
+        });
+        return null;
+      case 'POST /plants/v1/harvestplants':
+        rows.forEach(row => {
+          const plant = this.retirePlant(row.Plant);
+          const harvest = this.harvests.find(h => h.Name === row.HarvestName) ??
+            this.addHarvest({ Name: row.HarvestName, ActualDate: row.ActualDate, DryingLocationName: row.DryingLocation });
+          harvest.TotalWetWeight += row.Weight;
+          plant.HarvestId = harvest.Id;
+          plant.HarvestedDate = row.ActualDate;
+        });
+        return null;
+      case 'POST /harvests/v1/removewaste':
+        rows.forEach(row => {
+          const harvest = this.harvests.find(h => h.Id === row.Id);
+          if (!harvest) throw new Error(`Harvest ${row.Id} not found`);
+          harvest.TotalWasteWeight += row.WasteWeight;
+        });
+        return null;
+      case 'POST /harvests/v1/create/packages':
+        rows.forEach(row => {
+          const weight = (row.Ingredients ?? []).reduce((sum: number, i: any) => sum + i.Weight, 0);
+          this.addPackage({
+            Label: row.Tag,
+            Quantity: weight,
+            UnitOfMeasureName: row.UnitOfWeight,
+            LocationName: row.Location,
+            PackagedDate: row.ActualDate
+          });
+        });
+        return null;
+      case 'POST /packages/v1/adjust':
+        rows.forEach(row => {
+          const pkg = this.package(row.Label);
+          pkg.Quantity = Math.round((pkg.Quantity + row.Quantity) * 1000) / 1000;
+          if (pkg.Quantity <= 0) this.retirePackage(row.Label);
+        });
+        return null;
+      case 'PUT /packages/v1/change/locations':
+        rows.forEach(row => {
+          this.package(row.Label).LocationName = row.Location;
+        });
+        return null;
+      case 'POST /sales/v1/receipts':
+        rows.forEach(row => (row.Transactions ?? []).forEach((t: any) => this.retirePackage(t.PackageLabel)));
+        return null;
+    }
+
+    // Read endpoints the client exposes but the mock does not model
+    return method === 'GET' ? [] : undefined;
+  }
+
+  private authorized(header?: string): boolean {
+    if (!this.options.apiKey) return true;
+    const expected = Buffer.from(`${this.options.apiKey}:${this.options.userKey ?? ''}`).toString('base64');
+    return header === `Basic ${expected}`;
+  }
+
+  private plant(label: string): METRCPlant {
+    const plant = this.plants.find(p => p.Label === label);
+    if (!plant) throw new Error(`Plant ${label} not found`);
+    return plant;
+  }
+
+  private package(label: string): METRCPackage {
+    const pkg = this.packages.find(p => p.Label === label);
+    if (!pkg) throw new Error(`Package ${label} not found`);
+    return pkg;
+  }
+
+  private retirePlant(label: string): METRCPlant {
+    const plant = this.plant(label);
+    this.plants = this.plants.filter(p => p !== plant);
+    this.inactivePlants.push(plant);
+    return plant;
+  }
+
+  private retirePackage(label: string): METRCPackage {
+    const pkg = this.package(label);
+    this.packages = this.packages.filter(p => p !== pkg);
+    this.inactivePackages.push(pkg);
+    return pkg;
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, payload: any): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(payload === null ? '' : JSON.stringify(payload));
+}
@@ -0,0 +1,211 @@
+/**
+ * Multi-variable Climate Control
+ * Temperature, humidity/VPD and CO2 loops built on PIDController, with solar
+ * feed-forward and the priority rules a greenhouse climate computer applies
+ * between loops that share the same air.
+ */
+
+import { PIDConfig, PIDController } from './pid-controller'
+
+export type ClimateLoop = 'heating' | 'venting' | 'dehumidification' | 'humidification' | 'co2Dosing'
+
+export interface ClimateSetpoints {
+  heatingTemperature: number // °C
+  ventingTemperature: number // °C, kept above the heating setpoint so the loops don't fight
+  humidity: number // %RH, used when vpd is not set
+  vpd?: number // kPa; when set the humidity setpoint follows air temperature
+  humidityBand: number // %RH between the humidify and dehumidify setpoints
+  co2: number // ppm
+}
+
+export interface ClimatePriorityRules {
+  dehumidifyBeforeHeat: boolean // Let dehumidifier heat warm the house before the heating loop runs
+  heatDeferralBand: number // °C below the heating setpoint within which heating waits for the dehumidifier
+  co2VentLockout: number // Vent position (%) above which CO2 dosing stops
+}
+
+export interface ClimateReadings {
+  temperature: number // °C
+  humidity: number // %RH
+  co2: number // ppm
+  solarRadiation: number // W/m² outside global radiation
+  ventPosition?: number // % measured; defaults to the commanded position
+}
+
+export interface ClimateInterlock {
+  loop: ClimateLoop
+  rule: 'dehumidify_before_heat' | 'co2_vent_lockout' | 'humidify_dehumidify_exclusive'
+}
+
+export interface ClimateOutputs extends Record<ClimateLoop, number> {
+  humiditySetpoint: number // %RH the humidity loops targeted this cycle
+  interlocks: ClimateInterlock[]
+}
+
+// Gains are per °C, %RH and ppm of error; outputs are % of actuator capacity
+export const CLIMATE_LOOP_DEFAULTS: Record<ClimateLoop, Partial<PIDConfig>> = {
+  heating: {
+    kp: 25, ki: 0.02, kd: 0, direction: 'direct', form: 'positional',
+    outputMin: 0, outputMax: 100, integralWindupGuard: 5000, deadband: 0,
+    sampleTime: 60000, outputRateLimit: 1, feedForwardGain: -0.2
+  },
+  venting: {
+    kp: 15, ki: 0.01, kd: 0, direction: 'reverse', form: 'positional',
+    outputMin: 0, outputMax: 100, integralWindupGuard: 10000, deadband: 0,
+    sampleTime: 60000, outputRateLimit: 0.5, feedForwardGain: 0.05
+  },
+  dehumidification: {
+    kp: 8, ki: 0.005, kd: 0, direction: 'reverse', form: 'positional',
+    outputMin: 0, outputMax: 100, integralWindupGuard: 20000, deadband: 0,
+    sampleTime: 60000, outputRateLimit: 1
+  },
+  humidification: {
+    kp: 8, ki: 0.005, kd: 0, direction: 'direct', form: 'positional',
+    outputMin: 0, outputMax: 100, integralWindupGuard: 20000, deadband: 0,
+    sampleTime: 60000, outputRateLimit: 1
+  },
+  co2Dosing: {
+    kp: 0.15, ki: 0.0002, kd: 0, direction: 'direct', form: 'positional',
+    outputMin: 0, outputMax: 100, integralWindupGuard: 500000, deadband: 0,
+    sampleTime: 60000, outputRateLimit: 2
+  }
+}
+
+const DEFAULT_SETPOINTS: ClimateSetpoints = {
+  heatingTemperature: 20,
+  ventingTemperature: 24,
+  humidity: 75,
+  humidityBand: 10,
+  co2: 800
+}
+
+const DEFAULT_PRIORITIES: ClimatePriorityRules = {
+  dehumidifyBeforeHeat: true,
+  heatDeferralBand: 1,
+  co2VentLockout: 15
+}
+
+/**
+ * Saturation vapour pressure (kPa) over water, Tetens
+ */
+export function saturationVaporPressure(temperature: number): number {
+  return 0.6108 * Math.exp((17.27 * temperature) / (temperature + 237.3))
+}
+
+/**
+ * Relative humidity (%) that gives the target VPD at an air temperature in °C
+ */
+export function humidityForVpd(temperature: number, vpd: number): number {
+  const rh = 100 * (1 - vpd / saturationVaporPressure(temperature))
+  return Math.max(0, Math.min(100, rh))
+}
+
+export class ClimateController {
+  private loops: Record<ClimateLoop, PIDController>
+  private setpoints: ClimateSetpoints
+  private priorities: ClimatePriorityRules
+  private lastOutputs: ClimateOutputs | null = null
+
+  constructor(
+    setpoints: Partial<ClimateSetpoints> = {},
+    priorities: Partial<ClimatePriorityRules> = {},
+    tuning: Partial<Record<ClimateLoop, Partial<PIDConfig>>> = {}
+  ) {
+    this.setpoints = { ...DEFAULT_SETPOINTS, ...setpoints }
+    this.priorities = { ...DEFAULT_PRIORITIES, ...priorities }
+
+    const build = (loop: ClimateLoop, setpoint: number) =>
+      new PIDController({ ...CLIMATE_LOOP_DEFAULTS[loop], setpoint, ...tuning[loop] })
+    this.loops = {
+      heating: build('heating', this.setpoints.heatingTemperature),
+      venting: build('venting', this.setpoints.ventingTemperature),
+      dehumidification: build('dehumidification', this.setpoints.humidity + this.setpoints.humidityBand / 2),
+      humidification: build('humidification', this.setpoints.humidity - this.setpoints.humidityBand / 2),
+      co2Dosing: build('co2Dosing', this.setpoints.co2)
+    }
+    Object.values(this.loops).forEach(loop => loop.hold(0))
+  }
+
+  /**
+   * Run one control cycle and return actuator commands (% of capacity)
+   */
+  update(readings: ClimateReadings, now: number = Date.now()): ClimateOutputs {
+    const interlocks: ClimateInterlock[] = []
+    const { loops, priorities } = this
+
+    // Cascade: the VPD target becomes a humidity setpoint at the current air temperature
+    const humiditySetpoint = this.setpoints.vpd !== undefined
+      ? humidityForVpd(readings.temperature, this.setpoints.vpd)
+      : this.setpoints.humidity
+    loops.dehumidification.setSetpoint(humiditySetpoint + this.setpoints.humidityBand / 2, false)
+    loops.humidification.setSetpoint(humiditySetpoint - this.setpoints.humidityBand / 2, false)
+
+    const dehumidification = loops.dehumidification.update(readings.humidity, 0, now)
+
+    let humidification: number
+    if (dehumidification > 0) {
+      humidification = loops.humidification.hold(0, now)
+      interlocks.push({ loop: 'humidification', rule: 'humidify_dehumidify_exclusive' })
+    } else {
+      humidification = loops.humidification.update(readings.humidity, 0, now)
+    }
+
+    const venting = loops.venting.update(readings.temperature, readings.solarRadiation, now)
+
+    // Dehumidifiers dump their latent heat into the house; give them the
+    // first chance to lift temperature unless it is getting too cold
+    let heating: number
+    if (
+      priorities.dehumidifyBeforeHeat &&
+      dehumidification > 0 &&
+      readings.temperature > this.setpoints.heatingTemperature - priorities.heatDeferralBand
+    ) {
+      heating = loops.heating.hold(0, now)
+      interlocks.push({ loop: 'heating', rule: 'dehumidify_before_heat' })
+    } else {
+      heating = loops.heating.update(readings.temperature, readings.solarRadiation, now)
+    }
+
+    // CO2 dosed through open vents goes straight outside
+    let co2Dosing: number
+    const ventPosition = readings.ventPosition ?? venting
+    if (ventPosition > priorities.co2VentLockout) {
+      co2Dosing = loops.co2Dosing.hold(0, now)
+      interlocks.push({ loop: 'co2Dosing', rule: 'co2_vent_lockout' })
+    } else {
+      co2Dosing = loops.co2Dosing.update(readings.co2, 0, now)
+    }
+
+    this.lastOutputs = { heating, venting, dehumidification, humidification, co2Dosing, humiditySetpoint, interlocks }
+    return this.lastOutputs
+  }
+
+  setSetpoints(setpoints: Partial<ClimateSetpoints>): void {
+    this.setpoints = { ...this.setpoints, ...setpoints }
+    this.loops.heating.setSetpoint(this.setpoints.heatingTemperature)
+    this.loops.venting.setSetpoint(this.setpoints.ventingTemperature)
+    this.loops.co2Dosing.setSetpoint(this.setpoints.co2)
+  }
+
+  setEnabled(enabled: boolean): void {
+    Object.values(this.loops).forEach(loop => loop.setEnabled(enabled))
+    if (!enabled) {
+      Object.values(this.loops).forEach(loop => loop.hold(0))
+    }
+  }
+
+  getLoop(loop: ClimateLoop): PIDController {
+    return this.loops[loop]
+  }
+
+  getStatus() {
+    return {
+      setpoints: { ...this.setpoints },
+      priorities: { ...this.priorities },
+      lastOutputs: this.lastOutputs,
+      loops: Object.fromEntries(
+        Object.entries(this.loops).map(([name, loop]) => [name, loop.getStatus()])
+      ) as Record<ClimateLoop, ReturnType<PIDController['getStatus']>>
+    }
+  }
+}
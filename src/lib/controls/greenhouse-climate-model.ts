@@ -0,0 +1,174 @@
+/**
+ * Lumped Greenhouse Climate Model
+ * Single-zone heat, vapour and CO2 balance per m² of floor, used to run the
+ * climate loops closed-loop without hardware
+ */
+
+import type { ClimateController, ClimateLoop, ClimateOutputs } from './climate-pid'
+import { saturationVaporPressure } from './climate-pid'
+
+export interface GreenhouseModelParams {
+  height: number // m, mean air column height
+  heatCapacity: number // J/m²K, air plus structure, crop and floor
+  coverRatio: number // m² cover per m² floor
+  coverUValue: number // W/m²K
+  leakageRate: number // air changes per hour with vents shut
+  maxVentilationRate: number // air changes per hour with vents fully open
+  heatingCapacity: number // W/m² at 100 % output
+  solarHeatFraction: number // Share of outside radiation that ends up as sensible heat
+  transpirationCoefficient: number // g/m²/s per W/m² of radiation
+  baseTranspiration: number // g/m²/s in the dark
+  dehumidifierCapacity: number // g/m²/s of water removed at 100 %
+  dehumidifierPower: number // W/m² fan/compressor power at 100 %, released as heat
+  humidifierCapacity: number // g/m²/s of water evaporated at 100 %
+  co2DosingCapacity: number // g/m²/s at 100 %
+  co2UptakeCoefficient: number // g/m²/s per W/m² of radiation
+}
+
+export interface GreenhouseState {
+  temperature: number // °C
+  humidity: number // %RH
+  co2: number // ppm
+}
+
+export interface OutsideConditions {
+  temperature: number // °C
+  humidity: number // %RH
+  co2: number // ppm
+  solarRadiation: number // W/m²
+}
+
+export type GreenhouseActuators = Record<ClimateLoop, number>
+
+export interface ClimateTracePoint extends GreenhouseState {
+  time: number // s since start
+  outputs: ClimateOutputs
+}
+
+const AIR_DENSITY = 1.2 // kg/m³
+const AIR_SPECIFIC_HEAT = 1006 // J/kgK
+const LATENT_HEAT = 2450 // J/g
+const WATER_GAS_CONSTANT = 461.5 // J/kgK
+const CO2_DENSITY_PER_PPM = 1.8e-3 // g/m³ per ppm at ~20 °C
+
+const DEFAULT_PARAMS: GreenhouseModelParams = {
+  height: 4,
+  heatCapacity: 25000,
+  coverRatio: 1.3,
+  coverUValue: 6,
+  leakageRate: 0.5,
+  maxVentilationRate: 40,
+  heatingCapacity: 200,
+  solarHeatFraction: 0.5,
+  transpirationCoefficient: 1.2e-4,
+  baseTranspiration: 0.005,
+  dehumidifierCapacity: 0.04,
+  dehumidifierPower: 25,
+  humidifierCapacity: 0.04,
+  co2DosingCapacity: 0.002,
+  co2UptakeCoefficient: 2.4e-6
+}
+
+/**
+ * Water vapour density (g/m³) at a temperature (°C) and relative humidity (%)
+ */
+export function vaporDensity(temperature: number, humidity: number): number {
+  const vaporPressure = saturationVaporPressure(temperature) * 1000 * humidity / 100 // Pa
+  return (vaporPressure / (WATER_GAS_CONSTANT * (temperature + 273.15))) * 1000
+}
+
+export class GreenhouseClimateModel {
+  private params: GreenhouseModelParams
+  private temperature: number
+  private vapor: number // g/m³
+  private co2: number
+
+  constructor(initial: GreenhouseState, params: Partial<GreenhouseModelParams> = {}) {
+    this.params = { ...DEFAULT_PARAMS, ...params }
+    this.temperature = initial.temperature
+    this.vapor = vaporDensity(initial.temperature, initial.humidity)
+    this.co2 = initial.co2
+  }
+
+  /**
+   * Advance the model by dt seconds with actuator outputs in % of capacity
+   */
+  step(actuators: GreenhouseActuators, outside: OutsideConditions, dt: number): GreenhouseState {
+    const p = this.params
+    const fraction = (value: number) => Math.max(0, Math.min(100, value)) / 100
+
+    const airChanges = p.leakageRate + fraction(actuators.venting) * p.maxVentilationRate
+    const exchange = (p.height * airChanges) / 3600 // m³ of outside air per m² floor per second
+
+    const dehumidified = fraction(actuators.dehumidification) * p.dehumidifierCapacity
+    const humidified = fraction(actuators.humidification) * p.humidifierCapacity
+    const transpiration = p.baseTranspiration + p.transpirationCoefficient * outside.solarRadiation
+
+    // Sensible heat balance, W/m²
+    const heatGain =
+      p.solarHeatFraction * outside.solarRadiation +
+      fraction(actuators.heating) * p.heatingCapacity +
+      dehumidified * LATENT_HEAT +
+      fraction(actuators.dehumidification) * p.dehumidifierPower -
+      humidified * LATENT_HEAT
+    const heatLoss =
+      (p.coverRatio * p.coverUValue + AIR_DENSITY * AIR_SPECIFIC_HEAT * exchange) *
+      (this.temperature - outside.temperature)
+    this.temperature += ((heatGain - heatLoss) / p.heatCapacity) * dt
+
+    // Vapour balance, g/m² of floor
+    const outsideVapor = vaporDensity(outside.temperature, outside.humidity)
+    const vaporFlux = transpiration + humidified - dehumidified - exchange * (this.vapor - outsideVapor)
+    this.vapor = Math.max(0, this.vapor + (vaporFlux / p.height) * dt)
+    // Anything above saturation condenses on the cover
+    this.vapor = Math.min(this.vapor, vaporDensity(this.temperature, 100))
+
+    // CO2 balance
+    const uptake = p.co2UptakeCoefficient * outside.solarRadiation
+    const dosed = fraction(actuators.co2Dosing) * p.co2DosingCapacity
+    const co2Flux = (dosed - uptake) / CO2_DENSITY_PER_PPM - exchange * (this.co2 - outside.co2)
+    this.co2 = Math.max(0, this.co2 + (co2Flux / p.height) * dt)
+
+    return this.getState()
+  }
+
+  getState(): GreenhouseState {
+    return {
+      temperature: this.temperature,
+      humidity: (this.vapor / vaporDensity(this.temperature, 100)) * 100,
+      co2: this.co2
+    }
+  }
+
+  getParams(): GreenhouseModelParams {
+    return { ...this.params }
+  }
+}
+
+/**
+ * Run a controller against the model. The controller sees the model state as
+ * its sensor readings every stepSeconds; outside conditions may vary with time.
+ */
+export function simulateClimateLoop(
+  controller: ClimateController,
+  model: GreenhouseClimateModel,
+  outside: OutsideConditions | ((time: number) => OutsideConditions),
+  options: { duration: number; stepSeconds?: number; startTime?: number }
+): ClimateTracePoint[] {
+  const stepSeconds = options.stepSeconds ?? 10
+  const startTime = options.startTime ?? Date.now()
+  const trace: ClimateTracePoint[] = []
+
+  for (let time = 0; time <= options.duration; time += stepSeconds) {
+    const conditions = typeof outside === 'function' ? outside(time) : outside
+    const state = model.getState()
+    const outputs = controller.update(
+      { ...state, solarRadiation: conditions.solarRadiation },
+      startTime + time * 1000
+    )
+    trace.push({ time, ...state, outputs })
+    model.step(outputs, conditions, stepSeconds)
+  }
+
+  return trace
+}
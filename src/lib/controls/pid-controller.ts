@@ -1,6 +1,8 @@
 /**
  * PID Controller for Light Intensity Stabilization
- * Maintains consistent PPFD levels through dynamic dimming control
+ * Maintains consistent PPFD levels through dynamic dimming control.
+ * The same controller drives the climate loops in climate-pid.ts, so nothing
+ * below assumes the measured variable is PPFD.
  */
 
 export interface PIDConfig {
@@ -13,6 +15,13 @@ export interface PIDConfig {
   integralWindupGuard: number // Prevent integral windup
   deadband: number // Acceptable error range
   sampleTime: number // Control loop interval (ms)
+  // 'direct': output rises when the measurement is below setpoint (heating, dimming up, CO2 dosing)
+  // 'reverse': output rises when the measurement is above setpoint (venting, dehumidifying)
+  direction?: 'direct' | 'reverse'
+  // 'incremental' adds each PID term to the previous output; 'positional' computes it outright
+  form?: 'incremental' | 'positional'
+  outputRateLimit?: number // Maximum output change per second; unlimited when omitted
+  feedForwardGain?: number // Output units per unit of the feed-forward signal
 }
 
 export interface PIDState {
@@ -20,6 +29,7 @@ export interface PIDState {
   integral: number
   lastTime: number
   lastOutput: number
+  lastFeedForward: number // Feed-forward term already folded into an incremental output
 }
 
 export class PIDController {
@@ -38,6 +48,8 @@ export class PIDController {
       integralWindupGuard: 50,
       deadband: 5, // ±5 µmol/m²/s acceptable
       sampleTime: 1000, // 1 second
+      direction: 'direct',
+      form: 'incremental',
       ...config
     }
     
@@ -45,20 +57,23 @@ export class PIDController {
       lastError: 0,
       integral: 0,
       lastTime: Date.now(),
-      lastOutput: 50
+      lastOutput: 50,
+      lastFeedForward: 0
     }
   }
 
   /**
    * Update PID controller with new sensor reading
-   * Returns new dimming level percentage
+   * Returns new output (dimming level percentage for PPFD loops). The
+   * feed-forward signal (e.g. solar radiation) is scaled by feedForwardGain
+   * and offsets the output so the loop acts before the error shows up;
+   * incremental loops add only its change since the last cycle.
    */
-  update(currentPPFD: number): number {
+  update(measurement: number, feedForward: number = 0, now: number = Date.now()): number {
     if (!this.isEnabled) {
       return this.state.lastOutput
     }
 
-    const now = Date.now()
     const dt = (now - this.state.lastTime) / 1000 // Convert to seconds
     
     // Skip if not enough time has passed
@@ -67,7 +82,9 @@ export class PIDController {
     }
 
     // Calculate error
-    const error = this.config.setpoint - currentPPFD
+    const error = this.config.direction === 'reverse'
+      ? measurement - this.config.setpoint
+      : this.config.setpoint - measurement
     
     // Check deadband
     if (Math.abs(error) < this.config.deadband) {
@@ -79,6 +96,7 @@ export class PIDController {
     const P = this.config.kp * error
 
     // Integral term with anti-windup
+    const previousIntegral = this.state.integral
     this.state.integral += error * dt
     this.state.integral = Math.max(
       -this.config.integralWindupGuard,
@@ -90,23 +108,55 @@ export class PIDController {
     const dError = (error - this.state.lastError) / dt
     const D = this.config.kd * dError
 
+    const FF = (this.config.feedForwardGain ?? 0) * feedForward
+
     // Calculate output
-    let output = this.state.lastOutput + P + I + D
-    
+    let output = this.config.form === 'positional'
+      ? P + I + D + FF
+      : this.state.lastOutput + P + I + D + (FF - this.state.lastFeedForward)
+
+    // Conditional integration: stop accumulating while the output is pinned
+    // against a limit in the direction the error is pushing it
+    if (
+      this.config.form === 'positional' &&
+      ((output > this.config.outputMax && error > 0) || (output < this.config.outputMin && error < 0))
+    ) {
+      this.state.integral = previousIntegral
+      output -= I - this.config.ki * previousIntegral
+    }
+
     // Constrain output
     output = Math.max(
       this.config.outputMin,
       Math.min(this.config.outputMax, output)
     )
 
+    // Limit how fast the actuator is driven
+    if (this.config.outputRateLimit !== undefined) {
+      const maxStep = this.config.outputRateLimit * dt
+      output = Math.max(this.state.lastOutput - maxStep, Math.min(this.state.lastOutput + maxStep, output))
+    }
+
     // Update state
     this.state.lastError = error
     this.state.lastTime = now
     this.state.lastOutput = output
+    this.state.lastFeedForward = FF
 
     return output
   }
 
+  /**
+   * Force the output (e.g. when an interlock overrides the loop) without
+   * integrating. An incremental loop resumes from the forced value; the
+   * integral is kept, so a positional loop returns to its own output.
+   */
+  hold(output: number, now: number = Date.now()): number {
+    this.state.lastOutput = output
+    this.state.lastTime = now
+    return output
+  }
+
   /**
    * Reset controller state
    */
@@ -115,7 +165,8 @@ export class PIDController {
       lastError: 0,
       integral: 0,
       lastTime: Date.now(),
-      lastOutput: 50
+      lastOutput: 50,
+      lastFeedForward: 0
     }
   }
 
@@ -130,12 +181,15 @@ export class PIDController {
   }
 
   /**
-   * Update setpoint
+   * Update setpoint. Cascaded loops whose setpoint moves every cycle pass
+   * resetIntegral = false to keep their integral action.
    */
-  setSetpoint(setpoint: number): void {
+  setSetpoint(setpoint: number, resetIntegral: boolean = true): void {
     this.config.setpoint = setpoint
     // Reset integral to prevent bump
-    this.state.integral = 0
+    if (resetIntegral) {
+      this.state.integral = 0
+    }
   }
 
   /**
@@ -192,16 +246,16 @@ export class PIDAutoTuner {
   /**
    * Update auto-tuner with new measurement
    */
-  update(currentPPFD: number): boolean {
+  update(measurement: number): boolean {
     if (!this.isRunning) return false
 
-    const output = this.controller.update(currentPPFD)
+    this.controller.update(measurement)
     
     // Detect oscillations
     if (this.peaks.length > 0) {
       const lastPeak = this.peaks[this.peaks.length - 1]
-      if (Math.abs(currentPPFD - lastPeak.value) > 10) {
-        this.peaks.push({ time: Date.now(), value: currentPPFD })
+      if (Math.abs(measurement - lastPeak.value) > 10) {
+        this.peaks.push({ time: Date.now(), value: measurement })
         
         if (this.peaks.length > 2) {
           const period = this.peaks[this.peaks.length - 1].time - 
@@ -210,7 +264,7 @@ export class PIDAutoTuner {
         }
       }
     } else {
-      this.peaks.push({ time: Date.now(), value: currentPPFD })
+      this.peaks.push({ time: Date.now(), value: measurement })
     }
 
     // Check if we have enough data
@@ -362,11 +416,11 @@ export class AdaptivePIDController extends PIDController {
   /**
    * Update with adaptation
    */
-  update(currentPPFD: number): number {
-    const output = super.update(currentPPFD)
+  update(measurement: number, feedForward: number = 0, now: number = Date.now()): number {
+    const output = super.update(measurement, feedForward, now)
     
     if (this.adaptationEnabled) {
-      this.evaluatePerformance(currentPPFD)
+      this.evaluatePerformance(measurement)
       this.adaptParameters()
     }
     
@@ -376,8 +430,8 @@ export class AdaptivePIDController extends PIDController {
   /**
    * Evaluate control performance
    */
-  private evaluatePerformance(currentPPFD: number): void {
-    const error = Math.abs(this.config.setpoint - currentPPFD)
+  private evaluatePerformance(measurement: number): void {
+    const error = Math.abs(this.config.setpoint - measurement)
     const time = Date.now()
     
     // Track performance metrics
@@ -385,7 +439,9 @@ export class AdaptivePIDController extends PIDController {
       time,
       error,
       settlingTime: 0, // Calculate based on error threshold
-      overshoot: Math.max(0, currentPPFD - this.config.setpoint)
+      overshoot: Math.max(0, this.config.direction === 'reverse'
+        ? this.config.setpoint - measurement
+        : measurement - this.config.setpoint)
     })
     
     // Keep only recent history (last 100 samples)
@@ -0,0 +1,595 @@
+/**
+ * OpenADR 2.0b Payloads
+ * Builders and parsers for the oadrPayload messages exchanged between a Virtual
+ * End Node (VEN) and a Virtual Top Node (VTN) over simple HTTP: registration,
+ * polling, event distribution and opt responses, and report registration and
+ * telemetry updates
+ */
+
+import { XMLParser } from 'fast-xml-parser'
+
+export const OADR_NAMESPACES = {
+  oadr: 'http://openadr.org/oadr-2.0b/2012/07',
+  pyld: 'http://docs.oasis-open.org/ns/energyinterop/201110/payloads',
+  ei: 'http://docs.oasis-open.org/ns/energyinterop/201110',
+  emix: 'http://docs.oasis-open.org/ns/emix/2011/06',
+  xcal: 'urn:ietf:params:xml:ns:icalendar-2.0',
+  strm: 'urn:ietf:params:xml:ns:icalendar-2.0:stream',
+  power: 'http://docs.oasis-open.org/ns/emix/2011/06/power',
+  scale: 'http://docs.oasis-open.org/ns/emix/2011/06/siscale'
+}
+
+// Simple HTTP service endpoints, relative to the VTN base URL
+export const OADR_SERVICES = {
+  EiRegisterParty: '/OpenADR2/Simple/2.0b/EiRegisterParty',
+  EiEvent: '/OpenADR2/Simple/2.0b/EiEvent',
+  EiOpt: '/OpenADR2/Simple/2.0b/EiOpt',
+  EiReport: '/OpenADR2/Simple/2.0b/EiReport',
+  OadrPoll: '/OpenADR2/Simple/2.0b/OadrPoll'
+} as const
+
+export type OpenADRService = keyof typeof OADR_SERVICES
+
+export type OpenADREventStatus = 'none' | 'far' | 'near' | 'active' | 'completed' | 'cancelled'
+export type OpenADROptType = 'optIn' | 'optOut'
+
+export interface OpenADRInterval {
+  uid: number
+  duration: number // seconds
+  value: number
+}
+
+export interface OpenADRSignal {
+  signalId: string
+  signalName: string // SIMPLE, ELECTRICITY_PRICE, LOAD_DISPATCH, ...
+  signalType: string // level, price, delta, setpoint, ...
+  currentValue?: number
+  intervals: OpenADRInterval[]
+}
+
+export interface OpenADREvent {
+  eventId: string
+  modificationNumber: number
+  status: OpenADREventStatus
+  priority: number
+  marketContext?: string
+  testEvent: boolean
+  createdDateTime?: Date
+  startTime: Date
+  duration: number // seconds
+  endTime: Date
+  signals: OpenADRSignal[]
+  targetVenIds: string[] // Empty targets every VEN
+  responseRequired: 'always' | 'never'
+}
+
+export interface OpenADREventResponse {
+  eventId: string
+  modificationNumber: number
+  optType: OpenADROptType
+  requestId: string
+  responseCode?: number
+}
+
+export interface OpenADRReportRequest {
+  reportRequestId: string
+  reportSpecifierId: string
+  granularity: number // seconds
+  reportBackDuration: number // seconds
+  rIds: string[]
+}
+
+export interface OpenADRReportValue {
+  rId: string
+  start: Date
+  duration: number // seconds
+  value: number
+}
+
+export interface OpenADRMessage {
+  type: string // Element name inside oadrSignedObject, e.g. oadrDistributeEvent
+  body: any
+}
+
+const ARRAY_ELEMENTS = new Set([
+  'oadrEvent', 'eiEventSignal', 'interval', 'eventResponse', 'venID', 'oadrReportRequest',
+  'oadrReport', 'oadrReportDescription', 'specifierPayload', 'reportRequestID', 'oadrReportPayload'
+])
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  isArray: (name: string) => ARRAY_ELEMENTS.has(name)
+})
+
+export function escapeXml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * ISO 8601 duration (PnDTnHnMnS) to seconds
+ */
+export function parseDuration(value: string | undefined): number {
+  if (!value) return 0
+  const match = /^(-|\+)?P(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+    .exec(value.trim())
+  if (!match) {
+    throw new Error(`Invalid ISO 8601 duration: ${value}`)
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const total = Number(weeks || 0) * 604800 + Number(days || 0) * 86400 +
+    Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0)
+  return sign === '-' ? -total : total
+}
+
+export function formatDuration(seconds: number): string {
+  const sign = seconds < 0 ? '-' : ''
+  let remaining = Math.abs(Math.round(seconds))
+  const hours = Math.floor(remaining / 3600)
+  remaining -= hours * 3600
+  const minutes = Math.floor(remaining / 60)
+  const secs = remaining - minutes * 60
+  return `${sign}PT${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${secs || (!hours && !minutes) ? `${secs}S` : ''}`
+}
+
+/**
+ * Wrap a message element in oadrPayload/oadrSignedObject with the 2.0b namespaces
+ */
+export function buildPayload(type: string, inner: string): string {
+  const xmlns = Object.entries(OADR_NAMESPACES).map(([prefix, uri]) => `xmlns:${prefix}="${uri}"`).join(' ')
+  return `<?xml version="1.0" encoding="UTF-8"?>` +
+    `<oadr:oadrPayload ${xmlns}><oadr:oadrSignedObject>` +
+    `<oadr:${type} ei:schemaVersion="2.0b">${inner}</oadr:${type}>` +
+    `</oadr:oadrSignedObject></oadr:oadrPayload>`
+}
+
+export function parsePayload(xml: string): OpenADRMessage {
+  const document = parser.parse(xml)
+  const signed = document?.oadrPayload?.oadrSignedObject
+  if (!signed || typeof signed !== 'object') {
+    throw new Error('Not an OpenADR oadrPayload')
+  }
+  const type = Object.keys(signed).find(key => !key.startsWith('@_'))
+  if (!type) {
+    throw new Error('Empty oadrSignedObject')
+  }
+  return { type, body: signed[type] || {} }
+}
+
+/**
+ * Response code of the eiResponse in a VTN reply; 200 when absent
+ */
+export function responseCode(body: any): number {
+  const response = body?.eiResponse
+  return response?.responseCode ? Number(response.responseCode) : 200
+}
+
+function eiResponse(requestId: string, code = 200, description = 'OK'): string {
+  return `<ei:eiResponse><ei:responseCode>${code}</ei:responseCode>` +
+    `<ei:responseDescription>${escapeXml(description)}</ei:responseDescription>` +
+    `<pyld:requestID>${escapeXml(requestId)}</pyld:requestID></ei:eiResponse>`
+}
+
+function dateTime(value: Date): string {
+  return `<xcal:date-time>${value.toISOString()}</xcal:date-time>`
+}
+
+/**
+ * Text content of a parsed element, taking the first of repeated elements
+ */
+export function textOf(node: any): string | undefined {
+  if (node === undefined || node === null) return undefined
+  if (Array.isArray(node)) return textOf(node[0])
+  if (typeof node === 'object') return node['#text'] !== undefined ? String(node['#text']) : undefined
+  return String(node)
+}
+
+// ---------------------------------------------------------------------------
+// VEN -> VTN
+// ---------------------------------------------------------------------------
+
+export function buildQueryRegistration(requestId: string): string {
+  return buildPayload('oadrQueryRegistration', `<pyld:requestID>${escapeXml(requestId)}</pyld:requestID>`)
+}
+
+export function buildCreatePartyRegistration(options: {
+  requestId: string
+  venName: string
+  venId?: string
+  registrationId?: string
+  httpPullModel: boolean
+  reportOnly?: boolean
+  transportAddress?: string
+}): string {
+  return buildPayload('oadrCreatePartyRegistration',
+    `<pyld:requestID>${escapeXml(options.requestId)}</pyld:requestID>` +
+    (options.registrationId ? `<ei:registrationID>${escapeXml(options.registrationId)}</ei:registrationID>` : '') +
+    (options.venId ? `<ei:venID>${escapeXml(options.venId)}</ei:venID>` : '') +
+    '<oadr:oadrProfileName>2.0b</oadr:oadrProfileName>' +
+    '<oadr:oadrTransportName>simpleHttp</oadr:oadrTransportName>' +
+    (options.transportAddress ? `<oadr:oadrTransportAddress>${escapeXml(options.transportAddress)}</oadr:oadrTransportAddress>` : '') +
+    `<oadr:oadrReportOnly>${options.reportOnly ? 'true' : 'false'}</oadr:oadrReportOnly>` +
+    '<oadr:oadrXmlSignature>false</oadr:oadrXmlSignature>' +
+    `<oadr:oadrVenName>${escapeXml(options.venName)}</oadr:oadrVenName>` +
+    `<oadr:oadrHttpPullModel>${options.httpPullModel ? 'true' : 'false'}</oadr:oadrHttpPullModel>`
+  )
+}
+
+export function buildPoll(venId: string): string {
+  return buildPayload('oadrPoll', `<ei:venID>${escapeXml(venId)}</ei:venID>`)
+}
+
+export function buildCreatedEvent(venId: string, requestId: string, responses: OpenADREventResponse[]): string {
+  return buildPayload('oadrCreatedEvent',
+    '<pyld:eiCreatedEvent>' +
+    eiResponse(requestId) +
+    '<ei:eventResponses>' +
+    responses.map(response =>
+      '<ei:eventResponse>' +
+      `<ei:responseCode>${response.responseCode || 200}</ei:responseCode>` +
+      `<pyld:requestID>${escapeXml(response.requestId)}</pyld:requestID>` +
+      '<ei:qualifiedEventID>' +
+      `<ei:eventID>${escapeXml(response.eventId)}</ei:eventID>` +
+      `<ei:modificationNumber>${response.modificationNumber}</ei:modificationNumber>` +
+      '</ei:qualifiedEventID>' +
+      `<ei:optType>${response.optType}</ei:optType>` +
+      '</ei:eventResponse>'
+    ).join('') +
+    '</ei:eventResponses>' +
+    `<ei:venID>${escapeXml(venId)}</ei:venID>` +
+    '</pyld:eiCreatedEvent>'
+  )
+}
+
+export function buildCreateOpt(options: {
+  requestId: string
+  optId: string
+  venId: string
+  optType: OpenADROptType
+  optReason: string // economic, emergency, mustRun, notParticipating, outageRunStatus, overrideStatus, participating, x-schedule
+  eventId: string
+  modificationNumber: number
+  createdDateTime: Date
+}): string {
+  return buildPayload('oadrCreateOpt',
+    `<ei:optID>${escapeXml(options.optId)}</ei:optID>` +
+    `<ei:optType>${options.optType}</ei:optType>` +
+    `<ei:optReason>${escapeXml(options.optReason)}</ei:optReason>` +
+    `<ei:venID>${escapeXml(options.venId)}</ei:venID>` +
+    `<ei:createdDateTime>${options.createdDateTime.toISOString()}</ei:createdDateTime>` +
+    `<pyld:requestID>${escapeXml(options.requestId)}</pyld:requestID>` +
+    '<ei:qualifiedEventID>' +
+    `<ei:eventID>${escapeXml(options.eventId)}</ei:eventID>` +
+    `<ei:modificationNumber>${options.modificationNumber}</ei:modificationNumber>` +
+    '</ei:qualifiedEventID>'
+  )
+}
+
+/**
+ * Advertise a TELEMETRY_USAGE report with real power (kW) data points
+ */
+export function buildRegisterReport(options: {
+  requestId: string
+  venId: string
+  reportSpecifierId: string
+  rIds: string[]
+  minSamplingPeriod: number // seconds
+  createdDateTime: Date
+}): string {
+  return buildPayload('oadrRegisterReport',
+    `<pyld:requestID>${escapeXml(options.requestId)}</pyld:requestID>` +
+    '<oadr:oadrReport>' +
+    `<ei:eiReportID>${escapeXml(options.reportSpecifierId)}</ei:eiReportID>` +
+    options.rIds.map(rId =>
+      '<oadr:oadrReportDescription>' +
+      `<ei:rID>${escapeXml(rId)}</ei:rID>` +
+      '<ei:reportDataSource><ei:venID>' + escapeXml(options.venId) + '</ei:venID></ei:reportDataSource>' +
+      '<ei:reportType>usage</ei:reportType>' +
+      '<power:realPower><power:itemDescription>RealPower</power:itemDescription>' +
+      '<power:itemUnits>W</power:itemUnits><scale:siScaleCode>k</scale:siScaleCode>' +
+      '<power:powerAttributes><power:hertz>60</power:hertz><power:voltage>480</power:voltage><power:ac>true</power:ac></power:powerAttributes>' +
+      '</power:realPower>' +
+      '<ei:readingType>Direct Read</ei:readingType>' +
+      '<oadr:oadrSamplingRate>' +
+      `<oadr:oadrMinPeriod>${formatDuration(options.minSamplingPeriod)}</oadr:oadrMinPeriod>` +
+      `<oadr:oadrMaxPeriod>${formatDuration(3600)}</oadr:oadrMaxPeriod>` +
+      '<oadr:oadrOnChange>false</oadr:oadrOnChange>' +
+      '</oadr:oadrSamplingRate>' +
+      '</oadr:oadrReportDescription>'
+    ).join('') +
+    `<ei:reportRequestID>0</ei:reportRequestID>` +
+    `<ei:reportSpecifierID>${escapeXml(options.reportSpecifierId)}</ei:reportSpecifierID>` +
+    '<ei:reportName>METADATA_TELEMETRY_USAGE</ei:reportName>' +
+    `<ei:createdDateTime>${options.createdDateTime.toISOString()}</ei:createdDateTime>` +
+    '</oadr:oadrReport>' +
+    `<ei:venID>${escapeXml(options.venId)}</ei:venID>`
+  )
+}
+
+export function buildCreatedReport(venId: string, requestId: string, pendingReportRequestIds: string[]): string {
+  return buildPayload('oadrCreatedReport',
+    eiResponse(requestId) +
+    '<oadr:oadrPendingReports>' +
+    pendingReportRequestIds.map(id => `<ei:reportRequestID>${escapeXml(id)}</ei:reportRequestID>`).join('') +
+    '</oadr:oadrPendingReports>' +
+    `<ei:venID>${escapeXml(venId)}</ei:venID>`
+  )
+}
+
+export function buildUpdateReport(options: {
+  requestId: string
+  venId: string
+  request: OpenADRReportRequest
+  values: OpenADRReportValue[]
+  createdDateTime: Date
+}): string {
+  const start = options.values.length > 0 ? options.values[0].start : options.createdDateTime
+  const duration = options.values.reduce((total, value) => total + value.duration, 0)
+
+  return buildPayload('oadrUpdateReport',
+    `<pyld:requestID>${escapeXml(options.requestId)}</pyld:requestID>` +
+    '<oadr:oadrReport>' +
+    `<xcal:dtstart>${dateTime(start)}</xcal:dtstart>` +
+    `<xcal:duration><xcal:duration>${formatDuration(duration)}</xcal:duration></xcal:duration>` +
+    '<strm:intervals>' +
+    options.values.map(value =>
+      '<ei:interval>' +
+      `<xcal:dtstart>${dateTime(value.start)}</xcal:dtstart>` +
+      `<xcal:duration><xcal:duration>${formatDuration(value.duration)}</xcal:duration></xcal:duration>` +
+      '<oadr:oadrReportPayload>' +
+      `<ei:rID>${escapeXml(value.rId)}</ei:rID>` +
+      `<ei:payloadFloat><ei:value>${value.value}</ei:value></ei:payloadFloat>` +
+      '<oadr:oadrDataQuality>Quality Good - Non Specific</oadr:oadrDataQuality>' +
+      '</oadr:oadrReportPayload>' +
+      '</ei:interval>'
+    ).join('') +
+    '</strm:intervals>' +
+    `<ei:eiReportID>${escapeXml(options.request.reportSpecifierId)}</ei:eiReportID>` +
+    `<ei:reportRequestID>${escapeXml(options.request.reportRequestId)}</ei:reportRequestID>` +
+    `<ei:reportSpecifierID>${escapeXml(options.request.reportSpecifierId)}</ei:reportSpecifierID>` +
+    '<ei:reportName>TELEMETRY_USAGE</ei:reportName>' +
+    `<ei:createdDateTime>${options.createdDateTime.toISOString()}</ei:createdDateTime>` +
+    '</oadr:oadrReport>' +
+    `<ei:venID>${escapeXml(options.venId)}</ei:venID>`
+  )
+}
+
+export function buildRegisteredReport(venId: string, requestId: string): string {
+  return buildPayload('oadrRegisteredReport', eiResponse(requestId) + `<ei:venID>${escapeXml(venId)}</ei:venID>`)
+}
+
+export function buildCanceledReport(venId: string, requestId: string): string {
+  return buildPayload('oadrCanceledReport',
+    eiResponse(requestId) + '<oadr:oadrPendingReports></oadr:oadrPendingReports>' + `<ei:venID>${escapeXml(venId)}</ei:venID>`)
+}
+
+export function buildCanceledPartyRegistration(venId: string, requestId: string, registrationId: string): string {
+  return buildPayload('oadrCanceledPartyRegistration',
+    eiResponse(requestId) +
+    `<ei:registrationID>${escapeXml(registrationId)}</ei:registrationID>` +
+    `<ei:venID>${escapeXml(venId)}</ei:venID>`)
+}
+
+export function buildResponse(requestId: string, venId?: string, code = 200, description = 'OK'): string {
+  return buildPayload('oadrResponse',
+    eiResponse(requestId, code, description) + (venId ? `<ei:venID>${escapeXml(venId)}</ei:venID>` : ''))
+}
+
+// ---------------------------------------------------------------------------
+// VTN -> VEN
+// ---------------------------------------------------------------------------
+
+export function buildCreatedPartyRegistration(options: {
+  requestId: string
+  vtnId: string
+  venId?: string
+  registrationId?: string
+  pollFrequency: number // seconds
+}): string {
+  return buildPayload('oadrCreatedPartyRegistration',
+    eiResponse(options.requestId) +
+    (options.registrationId ? `<ei:registrationID>${escapeXml(options.registrationId)}</ei:registrationID>` : '') +
+    (options.venId ? `<ei:venID>${escapeXml(options.venId)}</ei:venID>` : '') +
+    `<ei:vtnID>${escapeXml(options.vtnId)}</ei:vtnID>` +
+    '<oadr:oadrProfiles><oadr:oadrProfile><oadr:oadrProfileName>2.0b</oadr:oadrProfileName>' +
+    '<oadr:oadrTransports><oadr:oadrTransport><oadr:oadrTransportName>simpleHttp</oadr:oadrTransportName></oadr:oadrTransport></oadr:oadrTransports>' +
+    '</oadr:oadrProfile></oadr:oadrProfiles>' +
+    `<oadr:oadrRequestedOadrPollFreq><xcal:duration>${formatDuration(options.pollFrequency)}</xcal:duration></oadr:oadrRequestedOadrPollFreq>`
+  )
+}
+
+export function buildCreatedOpt(requestId: string, optId: string): string {
+  return buildPayload('oadrCreatedOpt', eiResponse(requestId) + `<ei:optID>${escapeXml(optId)}</ei:optID>`)
+}
+
+export function buildUpdatedReport(venId: string, requestId: string): string {
+  return buildPayload('oadrUpdatedReport', eiResponse(requestId) + `<ei:venID>${escapeXml(venId)}</ei:venID>`)
+}
+
+export function buildDistributeEvent(requestId: string, vtnId: string, events: OpenADREvent[]): string {
+  return buildPayload('oadrDistributeEvent',
+    eiResponse(requestId) +
+    `<pyld:requestID>${escapeXml(requestId)}</pyld:requestID>` +
+    `<ei:vtnID>${escapeXml(vtnId)}</ei:vtnID>` +
+    events.map(event =>
+      '<oadr:oadrEvent><ei:eiEvent>' +
+      '<ei:eventDescriptor>' +
+      `<ei:eventID>${escapeXml(event.eventId)}</ei:eventID>` +
+      `<ei:modificationNumber>${event.modificationNumber}</ei:modificationNumber>` +
+      `<ei:priority>${event.priority}</ei:priority>` +
+      `<ei:eiMarketContext><emix:marketContext>${escapeXml(event.marketContext || 'http://MarketContext1')}</emix:marketContext></ei:eiMarketContext>` +
+      `<ei:createdDateTime>${(event.createdDateTime || new Date()).toISOString()}</ei:createdDateTime>` +
+      `<ei:eventStatus>${event.status}</ei:eventStatus>` +
+      `<ei:testEvent>${event.testEvent ? 'true' : 'false'}</ei:testEvent>` +
+      '</ei:eventDescriptor>' +
+      '<ei:eiActivePeriod><xcal:properties>' +
+      `<xcal:dtstart>${dateTime(event.startTime)}</xcal:dtstart>` +
+      `<xcal:duration><xcal:duration>${formatDuration(event.duration)}</xcal:duration></xcal:duration>` +
+      '</xcal:properties><xcal:components/></ei:eiActivePeriod>' +
+      '<ei:eiEventSignals>' +
+      event.signals.map(signal =>
+        '<ei:eiEventSignal>' +
+        '<strm:intervals>' +
+        signal.intervals.map(interval =>
+          '<ei:interval>' +
+          `<xcal:duration><xcal:duration>${formatDuration(interval.duration)}</xcal:duration></xcal:duration>` +
+          `<xcal:uid><xcal:text>${interval.uid}</xcal:text></xcal:uid>` +
+          `<ei:signalPayload><ei:payloadFloat><ei:value>${interval.value}</ei:value></ei:payloadFloat></ei:signalPayload>` +
+          '</ei:interval>'
+        ).join('') +
+        '</strm:intervals>' +
+        `<ei:signalName>${escapeXml(signal.signalName)}</ei:signalName>` +
+        `<ei:signalType>${escapeXml(signal.signalType)}</ei:signalType>` +
+        `<ei:signalID>${escapeXml(signal.signalId)}</ei:signalID>` +
+        (signal.currentValue !== undefined
+          ? `<ei:currentValue><ei:payloadFloat><ei:value>${signal.currentValue}</ei:value></ei:payloadFloat></ei:currentValue>`
+          : '') +
+        '</ei:eiEventSignal>'
+      ).join('') +
+      '</ei:eiEventSignals>' +
+      '<ei:eiTarget>' + event.targetVenIds.map(id => `<ei:venID>${escapeXml(id)}</ei:venID>`).join('') + '</ei:eiTarget>' +
+      '</ei:eiEvent>' +
+      `<oadr:oadrResponseRequired>${event.responseRequired}</oadr:oadrResponseRequired>` +
+      '</oadr:oadrEvent>'
+    ).join('')
+  )
+}
+
+export function buildCreateReport(requestId: string, venId: string, requests: OpenADRReportRequest[]): string {
+  return buildPayload('oadrCreateReport',
+    `<pyld:requestID>${escapeXml(requestId)}</pyld:requestID>` +
+    requests.map(request =>
+      '<oadr:oadrReportRequest>' +
+      `<ei:reportRequestID>${escapeXml(request.reportRequestId)}</ei:reportRequestID>` +
+      '<ei:reportSpecifier>' +
+      `<ei:reportSpecifierID>${escapeXml(request.reportSpecifierId)}</ei:reportSpecifierID>` +
+      `<xcal:granularity><xcal:duration>${formatDuration(request.granularity)}</xcal:duration></xcal:granularity>` +
+      `<ei:reportBackDuration><xcal:duration>${formatDuration(request.reportBackDuration)}</xcal:duration></ei:reportBackDuration>` +
+      request.rIds.map(rId =>
+        `<ei:specifierPayload><ei:rID>${escapeXml(rId)}</ei:rID><ei:readingType>Direct Read</ei:readingType></ei:specifierPayload>`
+      ).join('') +
+      '</ei:reportSpecifier>' +
+      '</oadr:oadrReportRequest>'
+    ).join('') +
+    `<ei:venID>${escapeXml(venId)}</ei:venID>`
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Parsers
+// ---------------------------------------------------------------------------
+
+function durationOf(node: any): number {
+  return parseDuration(textOf(node?.duration?.duration ?? node?.duration))
+}
+
+function dateOf(node: any): Date | undefined {
+  const value = textOf(node?.['date-time'] ?? node)
+  return value ? new Date(value) : undefined
+}
+
+export function parseEvents(body: any): OpenADREvent[] {
+  return (body?.oadrEvent || []).map((oadrEvent: any) => {
+    const eiEvent = oadrEvent.eiEvent || {}
+    const descriptor = eiEvent.eventDescriptor || {}
+    const properties = eiEvent.eiActivePeriod?.properties || {}
+    const startTime = dateOf(properties.dtstart) || new Date()
+    const duration = durationOf(properties)
+
+    const signals: OpenADRSignal[] = (eiEvent.eiEventSignals?.eiEventSignal || []).map((signal: any) => ({
+      signalId: textOf(signal.signalID) || '',
+      signalName: textOf(signal.signalName) || 'SIMPLE',
+      signalType: textOf(signal.signalType) || 'level',
+      currentValue: signal.currentValue?.payloadFloat?.value !== undefined
+        ? Number(textOf(signal.currentValue.payloadFloat.value))
+        : undefined,
+      intervals: (signal.intervals?.interval || []).map((interval: any, index: number) => ({
+        uid: Number(textOf(interval.uid?.text) ?? index),
+        duration: durationOf(interval),
+        value: Number(textOf(interval.signalPayload?.payloadFloat?.value) ?? 0)
+      }))
+    }))
+
+    const target = eiEvent.eiTarget
+    const targetVenIds: string[] = target && typeof target === 'object'
+      ? (target.venID || []).map((id: any) => textOf(id) || '')
+      : []
+
+    return {
+      eventId: textOf(descriptor.eventID) || '',
+      modificationNumber: Number(textOf(descriptor.modificationNumber) || 0),
+      status: (textOf(descriptor.eventStatus) || 'none') as OpenADREventStatus,
+      priority: Number(textOf(descriptor.priority) || 0),
+      marketContext: textOf(descriptor.eiMarketContext?.marketContext),
+      testEvent: textOf(descriptor.testEvent) === 'true',
+      createdDateTime: descriptor.createdDateTime ? new Date(textOf(descriptor.createdDateTime)!) : undefined,
+      startTime,
+      duration,
+      endTime: new Date(startTime.getTime() + duration * 1000),
+      signals,
+      targetVenIds,
+      responseRequired: textOf(oadrEvent.oadrResponseRequired) === 'never' ? 'never' : 'always'
+    }
+  })
+}
+
+export function parseReportRequests(body: any): OpenADRReportRequest[] {
+  return (body?.oadrReportRequest || []).map((request: any) => {
+    const specifier = request.reportSpecifier || {}
+    return {
+      reportRequestId: textOf(request.reportRequestID) || '',
+      reportSpecifierId: textOf(specifier.reportSpecifierID) || '',
+      granularity: parseDuration(textOf(specifier.granularity?.duration)),
+      reportBackDuration: parseDuration(textOf(specifier.reportBackDuration?.duration)),
+      rIds: (specifier.specifierPayload || []).map((payload: any) => textOf(payload.rID) || '')
+    }
+  })
+}
+
+export function parseEventResponses(body: any): OpenADREventResponse[] {
+  const created = body?.eiCreatedEvent || {}
+  return (created.eventResponses?.eventResponse || []).map((response: any) => ({
+    eventId: textOf(response.qualifiedEventID?.eventID) || '',
+    modificationNumber: Number(textOf(response.qualifiedEventID?.modificationNumber) || 0),
+    optType: textOf(response.optType) as OpenADROptType,
+    requestId: textOf(response.requestID) || '',
+    responseCode: Number(textOf(response.responseCode) || 200)
+  }))
+}
+
+export function parseReportValues(body: any): OpenADRReportValue[] {
+  const values: OpenADRReportValue[] = []
+  for (const report of body?.oadrReport || []) {
+    for (const interval of report.intervals?.interval || []) {
+      for (const payload of interval.oadrReportPayload || []) {
+        values.push({
+          rId: textOf(payload.rID) || '',
+          start: dateOf(interval.dtstart) || new Date(0),
+          duration: durationOf(interval),
+          value: Number(textOf(payload.payloadFloat?.value) ?? 0)
+        })
+      }
+    }
+  }
+  return values
+}
+
+/**
+ * Value of a signal at `at`, walking its sequential intervals from the event start
+ */
+export function signalValueAt(event: OpenADREvent, signal: OpenADRSignal, at: Date): number | undefined {
+  let offset = (at.getTime() - event.startTime.getTime()) / 1000
+  if (offset < 0) return undefined
+  for (const interval of signal.intervals) {
+    // A zero duration interval runs to the end of the event
+    if (interval.duration === 0 || offset < interval.duration) return interval.value
+    offset -= interval.duration
+  }
+  return undefined
+}
@@ -0,0 +1,508 @@
+/**
+ * OpenADR 2.0b Virtual End Node
+ * Registers the facility with the utility's VTN, receives oadrDistributeEvent by
+ * polling (pull) or on the VEN endpoint (push), answers with opt-in/opt-out,
+ * and reports TELEMETRY_USAGE. Events are handed to DemandResponseManager so a
+ * dispatch runs the same lighting dimming, HVAC setback and load-shed plans as
+ * utility API events.
+ */
+
+import { logger } from '@/lib/logging/production-logger'
+import { DemandResponseEvent, DemandResponseManager, OptimizationStrategy } from '@/lib/energy/demand-response-manager'
+import {
+  OADR_SERVICES,
+  OpenADREvent,
+  OpenADREventResponse,
+  OpenADRMessage,
+  OpenADROptType,
+  OpenADRReportRequest,
+  OpenADRService,
+  buildCanceledPartyRegistration,
+  buildCanceledReport,
+  buildCreateOpt,
+  buildCreatePartyRegistration,
+  buildCreatedEvent,
+  buildCreatedReport,
+  buildPoll,
+  buildQueryRegistration,
+  buildRegisterReport,
+  buildRegisteredReport,
+  buildResponse,
+  buildUpdateReport,
+  parseDuration,
+  parseEvents,
+  parsePayload,
+  parseReportRequests,
+  responseCode,
+  signalValueAt,
+  textOf
+} from './openadr-payloads'
+
+export interface OpenADRVenOptions {
+  vtnUrl: string
+  venName: string
+  venId?: string // Known after a previous registration
+  registrationId?: string
+  httpPullModel?: boolean // Default true; push VENs receive messages through handlePush
+  transportAddress?: string // Push endpoint advertised to the VTN
+  pollInterval?: number // seconds; the VTN's requested poll frequency wins
+  telemetrySamplingPeriod?: number // seconds, minimum advertised sampling period
+  incentiveRate?: number // $/kWh credited for curtailment
+  // Decide participation; default opts in when the plan curtails anything
+  optPolicy?: (event: OpenADREvent, plan: OptimizationStrategy[]) => OpenADROptType
+  telemetry?: () => number | Promise<number> // kW; defaults to the manager's demand
+  fetch?: typeof fetch
+  now?: () => Date
+}
+
+export interface OpenADRVenEvent {
+  event: OpenADREvent
+  optType: OpenADROptType
+  plan: OptimizationStrategy[]
+  drEvent: DemandResponseEvent
+  state: 'scheduled' | 'active' | 'completed' | 'cancelled'
+}
+
+export class OpenADRVENError extends Error {
+  constructor(message: string, public code: number) {
+    super(message)
+    this.name = 'OpenADRVENError'
+  }
+}
+
+const TELEMETRY_REPORT_SPECIFIER = 'TELEMETRY_USAGE_POWER'
+const TELEMETRY_RID = 'facility-real-power'
+
+export class OpenADRVen {
+  private options: OpenADRVenOptions
+  private manager: DemandResponseManager
+  private venId?: string
+  private registrationId?: string
+  private vtnId?: string
+  private pollInterval: number
+  private events = new Map<string, OpenADRVenEvent>()
+  private reportRequests = new Map<string, OpenADRReportRequest & { lastSent?: number }>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private requestCounter = 0
+
+  constructor(manager: DemandResponseManager, options: OpenADRVenOptions) {
+    this.manager = manager
+    this.options = { httpPullModel: true, telemetrySamplingPeriod: 60, incentiveRate: 0, ...options }
+    this.venId = options.venId
+    this.registrationId = options.registrationId
+    this.pollInterval = options.pollInterval || 10
+  }
+
+  get registered(): boolean {
+    return !!this.registrationId && !!this.venId
+  }
+
+  getVenId(): string | undefined {
+    return this.venId
+  }
+
+  getEvents(): OpenADRVenEvent[] {
+    return Array.from(this.events.values())
+  }
+
+  /**
+   * oadrQueryRegistration then oadrCreatePartyRegistration, followed by
+   * registering the telemetry report
+   */
+  async register(): Promise<void> {
+    const query = await this.send('EiRegisterParty', buildQueryRegistration(this.nextRequestId()))
+    this.expect(query, 'oadrCreatedPartyRegistration')
+    this.vtnId = textOf(query.body.vtnID)
+
+    const created = await this.send('EiRegisterParty', buildCreatePartyRegistration({
+      requestId: this.nextRequestId(),
+      venName: this.options.venName,
+      venId: this.venId,
+      registrationId: this.registrationId,
+      httpPullModel: this.options.httpPullModel!,
+      transportAddress: this.options.transportAddress
+    }))
+    this.expect(created, 'oadrCreatedPartyRegistration')
+
+    this.venId = textOf(created.body.venID)
+    this.registrationId = textOf(created.body.registrationID)
+    const pollFrequency = parseDuration(textOf(created.body.oadrRequestedOadrPollFreq?.duration))
+    if (pollFrequency > 0) this.pollInterval = pollFrequency
+
+    if (!this.registered) {
+      throw new OpenADRVENError('VTN did not assign a venID and registrationID', 452)
+    }
+
+    logger.info('OpenADR VEN registered', { venId: this.venId, vtnId: this.vtnId, pollInterval: this.pollInterval })
+    await this.registerReports()
+  }
+
+  /**
+   * Advertise TELEMETRY_USAGE; the VTN may request it in the same reply
+   */
+  async registerReports(): Promise<void> {
+    const reply = await this.send('EiReport', buildRegisterReport({
+      requestId: this.nextRequestId(),
+      venId: this.venId!,
+      reportSpecifierId: TELEMETRY_REPORT_SPECIFIER,
+      rIds: [TELEMETRY_RID],
+      minSamplingPeriod: this.options.telemetrySamplingPeriod!,
+      createdDateTime: this.now()
+    }))
+    this.expect(reply, 'oadrRegisteredReport')
+
+    if (reply.body.oadrReportRequest) {
+      await this.handleMessage({ type: 'oadrCreateReport', body: reply.body })
+    }
+  }
+
+  /**
+   * Register if needed and run the poll/schedule/telemetry cycle
+   */
+  async start(): Promise<void> {
+    if (!this.registered) {
+      await this.register()
+    }
+    this.scheduleCycle(0)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * One cycle: poll the VTN (pull model), start and end events whose time has
+   * come, and send due telemetry
+   */
+  async cycle(): Promise<void> {
+    if (this.options.httpPullModel) {
+      await this.poll()
+    }
+    await this.processSchedule()
+    await this.sendDueReports()
+  }
+
+  /**
+   * oadrPoll; handles whatever the VTN had queued and returns its message type
+   */
+  async poll(): Promise<string> {
+    const message = await this.send('OadrPoll', buildPoll(this.requireVenId()))
+    await this.handleMessage(message)
+    return message.type
+  }
+
+  /**
+   * Entry point for messages the VTN pushes to the VEN's transport address.
+   * Returns the XML body of the HTTP response.
+   */
+  async handlePush(xml: string): Promise<string> {
+    let message: OpenADRMessage
+    try {
+      message = parsePayload(xml)
+    } catch (error) {
+      return buildResponse('', this.venId, 400, (error as Error).message)
+    }
+
+    const reply = await this.handleMessage(message)
+    return reply || buildResponse(textOf(message.body.requestID) || '', this.venId)
+  }
+
+  /**
+   * Dispatch a VTN message; replies are sent to the VTN service the spec
+   * assigns, and the direct response (if any) is returned for push transports
+   */
+  private async handleMessage(message: OpenADRMessage): Promise<string | undefined> {
+    const requestId = textOf(message.body.requestID) || ''
+
+    switch (message.type) {
+      case 'oadrDistributeEvent':
+        await this.handleDistributeEvent(message.body)
+        return undefined
+
+      case 'oadrCreateReport': {
+        const requests = parseReportRequests(message.body)
+        requests.forEach(request => this.reportRequests.set(request.reportRequestId, request))
+        await this.send('EiReport', buildCreatedReport(this.requireVenId(), requestId, Array.from(this.reportRequests.keys())))
+        return undefined
+      }
+
+      case 'oadrCancelReport': {
+        const id = textOf(message.body.reportRequestID)
+        if (id) this.reportRequests.delete(id)
+        return buildCanceledReport(this.requireVenId(), requestId)
+      }
+
+      case 'oadrRegisterReport':
+        // VTN reports are not consumed, acknowledge them
+        await this.send('EiReport', buildRegisteredReport(this.requireVenId(), requestId))
+        return undefined
+
+      case 'oadrRequestReregistration':
+        this.registrationId = undefined
+        await this.register()
+        return undefined
+
+      case 'oadrCancelPartyRegistration': {
+        const registrationId = this.registrationId || ''
+        this.registrationId = undefined
+        this.stop()
+        return buildCanceledPartyRegistration(this.requireVenId(), requestId, registrationId)
+      }
+
+      case 'oadrResponse':
+        return undefined
+
+      default:
+        logger.warn('api', `Unsupported OpenADR message ${message.type}`)
+        return buildResponse(requestId, this.venId, 460, `Unsupported message ${message.type}`)
+    }
+  }
+
+  /**
+   * Reconcile the distributed events with the known ones, plan and opt, and
+   * send oadrCreatedEvent for anything new or modified that requires a response
+   */
+  private async handleDistributeEvent(body: any): Promise<void> {
+    const requestId = textOf(body.requestID) || ''
+    const distributed = parseEvents(body)
+      .filter(event => event.targetVenIds.length === 0 || event.targetVenIds.includes(this.requireVenId()))
+    const responses: OpenADREventResponse[] = []
+
+    for (const event of distributed) {
+      const known = this.events.get(event.eventId)
+      if (known && known.event.modificationNumber === event.modificationNumber) continue
+
+      if (event.status === 'cancelled') {
+        await this.cancel(event.eventId, 'cancelled')
+        if (known) known.event = event
+        if (event.responseRequired === 'always') {
+          responses.push({ eventId: event.eventId, modificationNumber: event.modificationNumber, optType: known?.optType || 'optIn', requestId })
+        }
+        continue
+      }
+
+      // A modification replaces the plan for an event that is already running
+      if (known && known.state === 'active') {
+        await this.manager.endEvent(known.drEvent.id, 'cancelled')
+      }
+
+      const entry = this.planEvent(event)
+      this.events.set(event.eventId, entry)
+
+      if (event.responseRequired === 'always') {
+        responses.push({ eventId: event.eventId, modificationNumber: event.modificationNumber, optType: entry.optType, requestId })
+      }
+    }
+
+    // Events the VTN no longer distributes are implicitly cancelled
+    const ids = new Set(distributed.map(event => event.eventId))
+    for (const [eventId, entry] of this.events) {
+      if (!ids.has(eventId) && entry.state !== 'completed' && entry.state !== 'cancelled') {
+        await this.cancel(eventId, 'cancelled')
+      }
+    }
+
+    if (responses.length > 0) {
+      const reply = await this.send('EiEvent', buildCreatedEvent(this.requireVenId(), requestId, responses))
+      this.expect(reply, 'oadrResponse')
+    }
+
+    await this.processSchedule()
+  }
+
+  private planEvent(event: OpenADREvent): OpenADRVenEvent {
+    const { level, targetReduction } = this.dispatchTarget(event, event.startTime)
+    const plan = this.manager.planEventResponse(level, targetReduction)
+    const optType = this.options.optPolicy
+      ? this.options.optPolicy(event, plan)
+      : plan.length > 0 ? 'optIn' : 'optOut'
+
+    return {
+      event,
+      optType,
+      plan,
+      drEvent: {
+        id: `openadr-${event.eventId}`,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        targetReduction: targetReduction || 0,
+        incentiveRate: this.options.incentiveRate!,
+        status: 'pending',
+        source: 'openadr',
+        signalLevel: level,
+        strategies: plan
+      },
+      state: 'scheduled'
+    }
+  }
+
+  /**
+   * SIMPLE level and LOAD_DISPATCH kW reduction in effect at the given time
+   */
+  private dispatchTarget(event: OpenADREvent, at: Date): { level: number; targetReduction?: number } {
+    let level = 0
+    let targetReduction: number | undefined
+
+    for (const signal of event.signals) {
+      const value = signalValueAt(event, signal, at) ?? signal.intervals[0]?.value ?? signal.currentValue ?? 0
+      if (signal.signalName === 'SIMPLE') {
+        level = Math.max(level, value)
+      } else if (signal.signalName === 'LOAD_DISPATCH' && signal.signalType === 'delta') {
+        targetReduction = Math.abs(value)
+      } else if (signal.signalName === 'ELECTRICITY_PRICE' || signal.signalName === 'LOAD_CONTROL') {
+        level = Math.max(level, 1)
+      }
+    }
+
+    return { level, targetReduction }
+  }
+
+  /**
+   * Start opted-in events that have begun and end those that are over
+   */
+  async processSchedule(): Promise<void> {
+    const now = this.now().getTime()
+
+    for (const entry of this.events.values()) {
+      if (entry.optType !== 'optIn') continue
+      const start = entry.event.startTime.getTime()
+      const end = entry.event.endTime.getTime()
+
+      if (entry.state === 'scheduled' && now >= start && (entry.event.duration === 0 || now < end)) {
+        entry.state = 'active'
+        await this.manager.startEvent(entry.drEvent)
+        logger.info(`OpenADR event ${entry.event.eventId} active`, { strategies: entry.plan.length })
+      } else if (entry.state === 'active' && entry.event.duration > 0 && now >= end) {
+        entry.state = 'completed'
+        await this.manager.endEvent(entry.drEvent.id, 'completed')
+      } else if (entry.state === 'scheduled' && entry.event.duration > 0 && now >= end) {
+        entry.state = 'completed'
+      }
+    }
+  }
+
+  /**
+   * Opt out of an event the VEN previously opted in to (oadrCreateOpt)
+   */
+  async optOut(eventId: string, reason = 'notParticipating'): Promise<void> {
+    const entry = this.events.get(eventId)
+    if (!entry) {
+      throw new OpenADRVENError(`Unknown event ${eventId}`, 404)
+    }
+
+    const reply = await this.send('EiOpt', buildCreateOpt({
+      requestId: this.nextRequestId(),
+      optId: `opt-${eventId}-${entry.event.modificationNumber}`,
+      venId: this.requireVenId(),
+      optType: 'optOut',
+      optReason: reason,
+      eventId,
+      modificationNumber: entry.event.modificationNumber,
+      createdDateTime: this.now()
+    }))
+    this.expect(reply, 'oadrCreatedOpt')
+
+    if (entry.state === 'active') {
+      await this.manager.endEvent(entry.drEvent.id, 'cancelled')
+    }
+    entry.optType = 'optOut'
+    entry.state = 'cancelled'
+  }
+
+  private async cancel(eventId: string, state: 'cancelled'): Promise<void> {
+    const entry = this.events.get(eventId)
+    if (!entry) return
+    if (entry.state === 'active') {
+      await this.manager.endEvent(entry.drEvent.id, 'cancelled')
+    }
+    entry.state = state
+  }
+
+  /**
+   * oadrUpdateReport for every report request whose granularity has elapsed
+   */
+  async sendDueReports(): Promise<void> {
+    if (this.reportRequests.size === 0) return
+
+    const now = this.now()
+    for (const request of this.reportRequests.values()) {
+      const period = Math.max(request.reportBackDuration, request.granularity, 1) * 1000
+      if (request.lastSent !== undefined && now.getTime() - request.lastSent < period) continue
+
+      const demand = this.options.telemetry ? await this.options.telemetry() : this.manager.getCurrentDemand()
+      const reply = await this.send('EiReport', buildUpdateReport({
+        requestId: this.nextRequestId(),
+        venId: this.requireVenId(),
+        request,
+        values: [{
+          rId: request.rIds[0] || TELEMETRY_RID,
+          start: new Date(now.getTime() - request.granularity * 1000),
+          duration: request.granularity,
+          value: demand
+        }],
+        createdDateTime: now
+      }))
+      this.expect(reply, 'oadrUpdatedReport')
+      request.lastSent = now.getTime()
+    }
+  }
+
+  private scheduleCycle(delay: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.cycle()
+      } catch (error) {
+        logger.error('OpenADR VEN cycle failed:', error as Error)
+      }
+      if (this.timer) this.scheduleCycle(this.pollInterval * 1000)
+    }, delay)
+  }
+
+  private async send(service: OpenADRService, xml: string): Promise<OpenADRMessage> {
+    const fetchImpl = this.options.fetch || fetch
+    const response = await fetchImpl(`${this.options.vtnUrl.replace(/\/$/, '')}${OADR_SERVICES[service]}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/xml' },
+      body: xml
+    })
+
+    if (!response.ok) {
+      throw new OpenADRVENError(`VTN ${service} returned HTTP ${response.status}`, response.status)
+    }
+
+    const text = await response.text()
+    return text.trim() ? parsePayload(text) : { type: 'oadrResponse', body: {} }
+  }
+
+  private expect(message: OpenADRMessage, type: string): void {
+    if (message.type !== type) {
+      throw new OpenADRVENError(`Expected ${type} from VTN, received ${message.type}`, 400)
+    }
+    const code = responseCode(message.body)
+    if (code < 200 || code >= 300) {
+      throw new OpenADRVENError(
+        `VTN rejected request: ${textOf(message.body.eiResponse?.responseDescription) || code}`,
+        code
+      )
+    }
+  }
+
+  private requireVenId(): string {
+    if (!this.venId) {
+      throw new OpenADRVENError('VEN is not registered', 452)
+    }
+    return this.venId
+  }
+
+  private nextRequestId(): string {
+    this.requestCounter += 1
+    return `${this.options.venName}-${Date.now()}-${this.requestCounter}`
+  }
+
+  private now(): Date {
+    return this.options.now ? this.options.now() : new Date()
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * OpenADR 2.0b VTN stub
+ * In-process HTTP server implementing the simpleHttp services a VEN talks to:
+ * EiRegisterParty, EiEvent, EiOpt, EiReport and OadrPoll. Events and report
+ * requests are queued per VEN for the next poll, and everything the VEN sends
+ * (event responses, opts, telemetry) is recorded for inspection.
+ */
+
+import http from 'http'
+import { AddressInfo } from 'net'
+import {
+  OADR_SERVICES,
+  OpenADREvent,
+  OpenADREventResponse,
+  OpenADRReportRequest,
+  OpenADRReportValue,
+  buildCreateReport,
+  buildCreatedOpt,
+  buildCreatedPartyRegistration,
+  buildDistributeEvent,
+  buildRegisteredReport,
+  buildResponse,
+  buildUpdatedReport,
+  parseEventResponses,
+  parsePayload,
+  parseReportValues,
+  textOf
+} from './openadr-payloads'
+
+export interface OpenADRVTNStubOptions {
+  vtnId?: string
+  pollFrequency?: number // seconds
+}
+
+export interface OpenADRVTNOpt {
+  venId: string
+  optId: string
+  optType: string
+  optReason: string
+  eventId: string
+  modificationNumber: number
+}
+
+export interface OpenADRVTNRequest {
+  service: string
+  type: string
+  venId?: string
+}
+
+export class OpenADRVTNStub {
+  vens = new Map<string, { venName: string; registrationId: string; httpPullModel: boolean }>()
+  events = new Map<string, OpenADREvent>()
+  eventResponses: OpenADREventResponse[] = []
+  opts: OpenADRVTNOpt[] = []
+  reportValues: Array<OpenADRReportValue & { venId: string; reportRequestId: string }> = []
+  registeredReports: string[] = [] // venIDs that sent oadrRegisterReport
+  requests: OpenADRVTNRequest[] = []
+
+  private server: http.Server | null = null
+  private baseUrl = ''
+  private queues = new Map<string, string[]>()
+  private counter = 0
+  private vtnId: string
+  private pollFrequency: number
+
+  constructor(options: OpenADRVTNStubOptions = {}) {
+    this.vtnId = options.vtnId || 'vibelux-vtn'
+    this.pollFrequency = options.pollFrequency || 10
+  }
+
+  /**
+   * Start listening on an ephemeral port and return the base URL
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => this.reply(res, 500, buildResponse('', undefined, 500, String(error))))
+    })
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve))
+    const { port } = this.server.address() as AddressInfo
+    this.baseUrl = `http://127.0.0.1:${port}`
+    return this.baseUrl
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return
+    await new Promise<void>((resolve, reject) => this.server!.close(error => (error ? reject(error) : resolve())))
+    this.server = null
+  }
+
+  /**
+   * Add or modify an event and queue oadrDistributeEvent for every registered VEN.
+   * Re-publishing an existing event increments its modificationNumber.
+   */
+  publishEvent(event: OpenADREvent): OpenADREvent {
+    const existing = this.events.get(event.eventId)
+    const published = existing
+      ? { ...event, modificationNumber: Math.max(event.modificationNumber, existing.modificationNumber + 1) }
+      : event
+    this.events.set(event.eventId, published)
+    this.distribute()
+    return published
+  }
+
+  cancelEvent(eventId: string): void {
+    const event = this.events.get(eventId)
+    if (!event) return
+    this.events.set(eventId, { ...event, status: 'cancelled', modificationNumber: event.modificationNumber + 1 })
+    this.distribute()
+  }
+
+  /**
+   * Queue oadrCreateReport asking the VEN for TELEMETRY_USAGE
+   */
+  requestTelemetry(venId: string, request: OpenADRReportRequest): void {
+    this.enqueue(venId, buildCreateReport(this.nextId(), venId, [request]))
+  }
+
+  /**
+   * Queue an arbitrary VTN message for the VEN's next poll
+   */
+  enqueue(venId: string, xml: string): void {
+    const queue = this.queues.get(venId) || []
+    queue.push(xml)
+    this.queues.set(venId, queue)
+  }
+
+  /**
+   * oadrDistributeEvent carrying every event that is not completed, as a VTN
+   * does on each distribution
+   */
+  distributeEventPayload(): string {
+    const events = Array.from(this.events.values()).filter(event => event.status !== 'completed')
+    return buildDistributeEvent(this.nextId(), this.vtnId, events)
+  }
+
+  private distribute(): void {
+    for (const [venId, ven] of this.vens) {
+      if (ven.httpPullModel) this.enqueue(venId, this.distributeEventPayload())
+    }
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const service = Object.entries(OADR_SERVICES).find(([, path]) => path === req.url)?.[0]
+    if (req.method !== 'POST' || !service) {
+      this.reply(res, 404, buildResponse('', undefined, 404, 'Not found'))
+      return
+    }
+
+    const message = parsePayload(await this.readBody(req))
+    const body = message.body
+    const requestId = textOf(body.requestID) || textOf(body.eiCreatedEvent?.eiResponse?.requestID) || ''
+    const venId = textOf(body.venID) || textOf(body.eiCreatedEvent?.venID)
+    this.requests.push({ service, type: message.type, venId })
+
+    switch (message.type) {
+      case 'oadrQueryRegistration':
+        this.reply(res, 200, buildCreatedPartyRegistration({ requestId, vtnId: this.vtnId, pollFrequency: this.pollFrequency }))
+        return
+
+      case 'oadrCreatePartyRegistration': {
+        const assigned = venId && this.vens.has(venId) ? venId : `ven-${this.vens.size + 1}`
+        const registrationId = textOf(body.registrationID) || `reg-${assigned}`
+        this.vens.set(assigned, {
+          venName: textOf(body.oadrVenName) || assigned,
+          registrationId,
+          httpPullModel: textOf(body.oadrHttpPullModel) !== 'false'
+        })
+        this.reply(res, 200, buildCreatedPartyRegistration({
+          requestId, vtnId: this.vtnId, venId: assigned, registrationId, pollFrequency: this.pollFrequency
+        }))
+        return
+      }
+
+      case 'oadrPoll': {
+        if (!venId || !this.vens.has(venId)) {
+          this.reply(res, 200, buildResponse(requestId, venId, 452, 'Unknown venID'))
+          return
+        }
+        const next = this.queues.get(venId)?.shift()
+        this.reply(res, 200, next || buildResponse(requestId, venId))
+        return
+      }
+
+      case 'oadrCreatedEvent':
+        this.eventResponses.push(...parseEventResponses(body))
+        this.reply(res, 200, buildResponse(requestId, venId))
+        return
+
+      case 'oadrCreateOpt': {
+        const optId = textOf(body.optID) || ''
+        this.opts.push({
+          venId: venId || '',
+          optId,
+          optType: textOf(body.optType) || '',
+          optReason: textOf(body.optReason) || '',
+          eventId: textOf(body.qualifiedEventID?.eventID) || '',
+          modificationNumber: Number(textOf(body.qualifiedEventID?.modificationNumber) || 0)
+        })
+        this.reply(res, 200, buildCreatedOpt(requestId, optId))
+        return
+      }
+
+      case 'oadrRegisterReport':
+        this.registeredReports.push(venId || '')
+        this.reply(res, 200, buildRegisteredReport(venId || '', requestId))
+        return
+
+      case 'oadrCreatedReport':
+      case 'oadrRegisteredReport':
+      case 'oadrCanceledReport':
+      case 'oadrResponse':
+        this.reply(res, 200, buildResponse(requestId, venId))
+        return
+
+      case 'oadrUpdateReport': {
+        const reportRequestId = textOf(body.oadrReport?.[0]?.reportRequestID) || ''
+        parseReportValues(body).forEach(value => this.reportValues.push({ ...value, venId: venId || '', reportRequestId }))
+        this.reply(res, 200, buildUpdatedReport(venId || '', requestId))
+        return
+      }
+
+      default:
+        this.reply(res, 200, buildResponse(requestId, venId, 460, `Unsupported message ${message.type}`))
+    }
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = ''
+      req.on('data', chunk => { body += chunk })
+      req.on('end', () => resolve(body))
+      req.on('error', reject)
+    })
+  }
+
+  private reply(res: http.ServerResponse, status: number, xml: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/xml' })
+    res.end(xml)
+  }
+
+  private nextId(): string {
+    this.counter += 1
+    return `${this.vtnId}-${this.counter}`
+  }
+}
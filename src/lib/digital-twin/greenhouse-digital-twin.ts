@@ -5,6 +5,7 @@
 
 import { EnvironmentState, Action, ReinforcementLearningEngine } from '../reinforcement-learning/rl-engine';
 import { PlantAnalysis } from '../plant-vision-ai';
+import { logger } from '@/lib/logging/production-logger';
 
 export interface SensorReading {
   sensorId: string;
@@ -71,6 +72,19 @@ export interface DigitalTwinConfig {
   virtualSimulationEnabled: boolean;
   rlEngineEnabled: boolean;
   dataRetentionDays: number;
+  realTimeUpdates: boolean; // false for replays and what-if forks, which drive the twin with step()
+}
+
+export const DIGITAL_TWIN_SNAPSHOT_VERSION = 1;
+
+// Everything needed to rebuild a twin; Date fields come back as ISO strings once stored as JSON
+export interface DigitalTwinSnapshot {
+  version: number;
+  takenAt: Date;
+  config: DigitalTwinConfig;
+  state: DigitalTwinState;
+  sensorHistory: Record<string, SensorReading[]>;
+  actuatorHistory: ActuatorCommand[];
 }
 
 export class GreenhouseDigitalTwin {
@@ -81,13 +95,14 @@ export class GreenhouseDigitalTwin {
   private actuatorHistory: ActuatorCommand[];
   private updateTimer: NodeJS.Timeout | null = null;
   private predictionCache: Map<string, EnvironmentState[]>;
+  private clock: () => Date;
   private callbacks: {
     onStateUpdate: ((state: DigitalTwinState) => void)[];
     onAnomaly: ((anomaly: { type: string; severity: string; data: any }) => void)[];
     onRecommendation: ((recommendation: { action: Action; confidence: number; reasoning: string }) => void)[];
   };
 
-  constructor(config: Partial<DigitalTwinConfig> = {}) {
+  constructor(config: Partial<DigitalTwinConfig> = {}, clock: () => Date = () => new Date()) {
     this.config = {
       updateInterval: 30000, // 30 seconds
       predictionHorizon: 24, // 24 hours
@@ -95,9 +110,11 @@ export class GreenhouseDigitalTwin {
       virtualSimulationEnabled: true,
       rlEngineEnabled: true,
       dataRetentionDays: 30,
+      realTimeUpdates: true,
       ...config
     };
     
+    this.clock = clock;
     this.rlEngine = new ReinforcementLearningEngine();
     this.sensorData = new Map();
     this.actuatorHistory = [];
@@ -109,7 +126,24 @@ export class GreenhouseDigitalTwin {
     };
     
     this.currentState = this.initializeState();
-    this.startRealTimeUpdates();
+    if (this.config.realTimeUpdates) {
+      this.startRealTimeUpdates();
+    }
+  }
+
+  /**
+   * Rebuild a twin from a snapshot. The copy does not run in real time unless
+   * the config override asks for it, so it can be stepped through a replay or
+   * forked into a what-if run without touching the original.
+   */
+  public static fromSnapshot(
+    snapshot: DigitalTwinSnapshot,
+    config: Partial<DigitalTwinConfig> = {},
+    clock?: () => Date
+  ): GreenhouseDigitalTwin {
+    const twin = new GreenhouseDigitalTwin({ ...snapshot.config, realTimeUpdates: false, ...config }, clock);
+    twin.restore(snapshot);
+    return twin;
   }
 
   // Public API
@@ -117,6 +151,52 @@ export class GreenhouseDigitalTwin {
     return { ...this.currentState };
   }
 
+  public getConfig(): DigitalTwinConfig {
+    return { ...this.config };
+  }
+
+  public getActuatorHistory(): ActuatorCommand[] {
+    return [...this.actuatorHistory];
+  }
+
+  public snapshot(): DigitalTwinSnapshot {
+    const snapshot: DigitalTwinSnapshot = {
+      version: DIGITAL_TWIN_SNAPSHOT_VERSION,
+      takenAt: this.clock(),
+      config: this.config,
+      state: this.currentState,
+      sensorHistory: Object.fromEntries(this.sensorData),
+      actuatorHistory: this.actuatorHistory
+    };
+    // Deep copy so the snapshot doesn't follow the live twin
+    return JSON.parse(JSON.stringify(snapshot), reviveDates);
+  }
+
+  /**
+   * Replace state, sensor history and actuator log with a snapshot's. Accepts
+   * snapshots read back from JSON. Config is kept as constructed.
+   */
+  public restore(snapshot: DigitalTwinSnapshot): void {
+    if (snapshot.version > DIGITAL_TWIN_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported digital twin snapshot version ${snapshot.version}`);
+    }
+
+    const revived: DigitalTwinSnapshot = JSON.parse(JSON.stringify(snapshot), reviveDates);
+    this.currentState = revived.state;
+    this.sensorData = new Map(Object.entries(revived.sensorHistory));
+    this.actuatorHistory = revived.actuatorHistory;
+    this.predictionCache.clear();
+  }
+
+  /**
+   * Run one update cycle. The real-time timer calls this; replays call it at
+   * each update interval of simulated time.
+   */
+  public async step(): Promise<DigitalTwinState> {
+    await this.updateState();
+    return this.getCurrentState();
+  }
+
   public async addSensorReading(reading: SensorReading): Promise<void> {
     // Store sensor reading
     if (!this.sensorData.has(reading.sensorId)) {
@@ -127,7 +207,7 @@ export class GreenhouseDigitalTwin {
     sensorHistory.push(reading);
     
     // Keep only recent data
-    const cutoffTime = new Date(Date.now() - this.config.dataRetentionDays * 24 * 60 * 60 * 1000);
+    const cutoffTime = new Date(this.clock().getTime() - this.config.dataRetentionDays * 24 * 60 * 60 * 1000);
     this.sensorData.set(
       reading.sensorId,
       sensorHistory.filter(r => r.timestamp > cutoffTime)
@@ -340,7 +420,7 @@ export class GreenhouseDigitalTwin {
         co2Usage: 0,
         efficiency: 0.85
       },
-      timestamp: new Date()
+      timestamp: this.clock()
     };
   }
 
@@ -369,7 +449,7 @@ export class GreenhouseDigitalTwin {
     this.updateSystemPerformance();
 
     // Update timestamp
-    this.currentState.timestamp = new Date();
+    this.currentState.timestamp = this.clock();
 
     // Notify callbacks
     this.callbacks.onStateUpdate.forEach(callback => {
@@ -632,5 +712,11 @@ export class GreenhouseDigitalTwin {
   }
 }
 
+const DATE_FIELDS = new Set(['timestamp', 'lastCalibrated', 'nextCalibration', 'takenAt']);
+
+function reviveDates(key: string, value: unknown): unknown {
+  return DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value;
+}
+
 // Export singleton instance
 export const greenhouseDigitalTwin = new GreenhouseDigitalTwin();
\ No newline at end of file
@@ -0,0 +1,187 @@
+/**
+ * Digital Twin History
+ * Loads stored SensorReading/ClimateReading/EnergyReading rows into the twin's
+ * reading format for replay, and persists twin snapshots.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { DigitalTwinSnapshot, GreenhouseDigitalTwin, SensorReading } from './greenhouse-digital-twin';
+
+export interface OutsideSample {
+  time: Date;
+  temperature?: number; // °C
+  humidity?: number; // %RH
+  solarRadiation?: number; // W/m²
+}
+
+export interface EnergySample {
+  time: Date;
+  kwh: number;
+}
+
+export interface TwinHistory {
+  from: Date;
+  to: Date;
+  readings: SensorReading[]; // Sorted by timestamp
+  outside: OutsideSample[];
+  energy: EnergySample[];
+}
+
+export interface TwinHistoryQuery {
+  facilityId: string;
+  from: Date;
+  to: Date;
+  zone?: string; // SensorReading.zone
+  climateZoneId?: string; // GreenhouseZone whose ClimateReading rows to include
+}
+
+// Stored sensor types that map onto the twin's readings
+const SENSOR_TYPES: Record<string, SensorReading['sensorType']> = {
+  temperature: 'temperature',
+  air_temperature: 'temperature',
+  humidity: 'humidity',
+  relative_humidity: 'humidity',
+  co2: 'co2',
+  light: 'light',
+  light_intensity: 'light',
+  par: 'light',
+  ppfd: 'light',
+  ph: 'ph',
+  ec: 'ec',
+  electrical_conductivity: 'ec',
+  pressure: 'pressure',
+  flow: 'flow',
+  flow_rate: 'flow'
+};
+
+const OUTSIDE_TYPES: Record<string, keyof Omit<OutsideSample, 'time'>> = {
+  outside_temperature: 'temperature',
+  outdoor_temperature: 'temperature',
+  outside_humidity: 'humidity',
+  outdoor_humidity: 'humidity',
+  solar_radiation: 'solarRadiation',
+  global_radiation: 'solarRadiation'
+};
+
+const CLIMATE_FIELDS: Array<[string, SensorReading['sensorType'], string]> = [
+  ['temperature', 'temperature', '°C'],
+  ['humidity', 'humidity', '%'],
+  ['co2', 'co2', 'ppm'],
+  ['lightLevel', 'light', 'μmol/m²/s'],
+  ['soilPH', 'ph', 'pH'],
+  ['soilEC', 'ec', 'dS/m']
+];
+
+/**
+ * Read a time window of stored readings. Inside readings become twin sensor
+ * readings; outside weather and metered kWh are returned alongside for the
+ * what-if model and the energy comparison.
+ */
+export async function loadTwinHistory(query: TwinHistoryQuery): Promise<TwinHistory> {
+  const { facilityId, from, to, zone, climateZoneId } = query;
+  if (to <= from) {
+    throw new Error('History window must end after it starts');
+  }
+
+  const [sensorRows, climateRows, energyRows] = await Promise.all([
+    prisma.sensorReading.findMany({
+      where: { facilityId, timestamp: { gte: from, lte: to } },
+      orderBy: { timestamp: 'asc' }
+    }),
+    climateZoneId
+      ? prisma.climateReading.findMany({
+          where: { zoneId: climateZoneId, readingAt: { gte: from, lte: to } },
+          orderBy: { readingAt: 'asc' }
+        })
+      : Promise.resolve([]),
+    prisma.energyReading.findMany({
+      where: { facilityId, readingType: { in: ['electricity', 'gas'] }, timestamp: { gte: from, lte: to } },
+      orderBy: { timestamp: 'asc' }
+    })
+  ]);
+
+  const readings: SensorReading[] = [];
+  const outside: OutsideSample[] = [];
+
+  for (const row of sensorRows) {
+    const type = row.sensorType.toLowerCase();
+    const outsideField = OUTSIDE_TYPES[type];
+    if (outsideField) {
+      outside.push({ time: row.timestamp, [outsideField]: row.value });
+      continue;
+    }
+    // Weather is facility-wide; inside readings follow the zone filter
+    const sensorType = SENSOR_TYPES[type];
+    if (!sensorType || (zone && row.zone !== zone)) continue;
+
+    readings.push(toTwinReading(row.sensorId, sensorType, row.value, row.unit, row.timestamp, row.zone || zone || 'default', row.quality));
+  }
+
+  for (const row of climateRows) {
+    for (const [field, sensorType, unit] of CLIMATE_FIELDS) {
+      const value = (row as Record<string, any>)[field];
+      if (value === null || value === undefined) continue;
+      readings.push(toTwinReading(`climate:${row.zoneId}:${field}`, sensorType, value, unit, row.readingAt, row.zoneId, 'good'));
+    }
+  }
+
+  readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const energy = energyRows
+    .filter(row => row.unit.toLowerCase() === 'kwh')
+    .map(row => ({ time: row.timestamp, kwh: row.value }));
+
+  return { from, to, readings, outside, energy };
+}
+
+function toTwinReading(
+  sensorId: string,
+  sensorType: SensorReading['sensorType'],
+  value: number,
+  unit: string,
+  timestamp: Date,
+  zone: string,
+  quality: string
+): SensorReading {
+  return {
+    sensorId,
+    sensorType,
+    value,
+    unit,
+    timestamp,
+    location: { zone, x: 0, y: 0, z: 0 },
+    quality: quality === 'warning' || quality === 'error' ? quality : 'good',
+    calibration: { lastCalibrated: timestamp, nextCalibration: timestamp, accuracy: 1 }
+  };
+}
+
+export async function saveTwinSnapshot(
+  twin: GreenhouseDigitalTwin,
+  target: { facilityId: string; zoneId?: string; label?: string }
+): Promise<{ id: string; snapshot: DigitalTwinSnapshot }> {
+  const snapshot = twin.snapshot();
+  const record = await prisma.digitalTwinSnapshot.create({
+    data: {
+      facilityId: target.facilityId,
+      zoneId: target.zoneId,
+      label: target.label,
+      version: snapshot.version,
+      takenAt: snapshot.takenAt,
+      state: JSON.parse(JSON.stringify(snapshot))
+    }
+  });
+  return { id: record.id, snapshot };
+}
+
+export async function loadTwinSnapshot(id: string): Promise<DigitalTwinSnapshot | null> {
+  const record = await prisma.digitalTwinSnapshot.findUnique({ where: { id } });
+  return record ? (record.state as unknown as DigitalTwinSnapshot) : null;
+}
+
+export async function listTwinSnapshots(facilityId: string, zoneId?: string) {
+  return prisma.digitalTwinSnapshot.findMany({
+    where: { facilityId, ...(zoneId ? { zoneId } : {}) },
+    select: { id: true, zoneId: true, label: true, version: true, takenAt: true, createdAt: true },
+    orderBy: { takenAt: 'desc' }
+  });
+}
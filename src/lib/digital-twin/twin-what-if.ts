@@ -0,0 +1,245 @@
+/**
+ * Digital Twin What-If Runs
+ * Re-runs a stored history window through the lumped climate model with the
+ * climate controller, once as operated and once with changed setpoints,
+ * controller strategy or equipment. The as-operated run calibrates the model
+ * against what was measured; the difference between the runs is the predicted
+ * effect of the change.
+ */
+
+import { ClimateController, ClimateLoop, ClimatePriorityRules, ClimateSetpoints } from '../controls/climate-pid';
+import {
+  GreenhouseClimateModel,
+  GreenhouseModelParams,
+  GreenhouseState,
+  OutsideConditions
+} from '../controls/greenhouse-climate-model';
+import { PIDConfig } from '../controls/pid-controller';
+import { DigitalTwinSnapshot } from './greenhouse-digital-twin';
+import { TwinHistory } from './twin-history';
+
+export interface WhatIfEquipment extends GreenhouseModelParams {
+  floorArea: number; // m²
+  heatingEfficiency: number; // Heat delivered per unit of metered energy; ~0.9 boiler, ~3 heat pump
+  ventFanPower: number; // W/m² with vents fully open; 0 for natural ventilation
+  humidifierPower: number; // W/m² at 100 %
+}
+
+export interface WhatIfScenario {
+  name: string;
+  setpoints?: Partial<ClimateSetpoints>;
+  priorities?: Partial<ClimatePriorityRules>; // Actuator strategy between loops
+  tuning?: Partial<Record<ClimateLoop, Partial<PIDConfig>>>;
+  equipment?: Partial<WhatIfEquipment>;
+}
+
+export interface WhatIfOptions {
+  baseline?: WhatIfScenario; // The house as operated; controller defaults otherwise
+  snapshot?: DigitalTwinSnapshot; // Fork from a saved twin state instead of the first measurement
+  outside?: Partial<OutsideConditions>; // Fallback where the history has no weather
+  stepSeconds?: number;
+}
+
+export interface WhatIfTracePoint extends GreenhouseState {
+  time: Date;
+  outputs: Record<ClimateLoop, number>;
+}
+
+type ClimateVariable = keyof GreenhouseState;
+
+export interface WhatIfRun {
+  scenario: string;
+  trace: WhatIfTracePoint[];
+  energyKwh: number;
+  co2Kg: number;
+  mean: GreenhouseState;
+}
+
+export interface WhatIfError {
+  rmse: number;
+  bias: number; // Predicted minus measured
+  samples: number;
+}
+
+export interface WhatIfComparison {
+  baseline: WhatIfRun;
+  scenario: WhatIfRun;
+  actual: { mean: Partial<GreenhouseState>; energyKwh: number | null };
+  modelError: Record<ClimateVariable, WhatIfError>; // Baseline run against measurements
+  delta: GreenhouseState & { energyKwh: number; co2Kg: number }; // Scenario minus baseline
+  projectedEnergyKwh: number | null; // Metered energy adjusted by the predicted change
+}
+
+const DEFAULT_EQUIPMENT = {
+  floorArea: 1000,
+  heatingEfficiency: 0.9,
+  ventFanPower: 0,
+  humidifierPower: 5
+};
+
+const DEFAULT_OUTSIDE: OutsideConditions = { temperature: 10, humidity: 70, co2: 420, solarRadiation: 0 };
+
+const VARIABLES: ClimateVariable[] = ['temperature', 'humidity', 'co2'];
+
+const LOOPS: ClimateLoop[] = ['heating', 'venting', 'dehumidification', 'humidification', 'co2Dosing'];
+
+export function runWhatIf(history: TwinHistory, scenario: WhatIfScenario, options: WhatIfOptions = {}): WhatIfComparison {
+  const stepSeconds = options.stepSeconds ?? 60;
+  const measured = measuredClimate(history);
+  const initial: Partial<GreenhouseState> = options.snapshot ? snapshotClimate(options.snapshot) : {};
+  for (const variable of VARIABLES) {
+    initial[variable] ??= measured.find(point => point[variable] !== undefined)?.[variable];
+  }
+  if (VARIABLES.some(variable => initial[variable] === undefined)) {
+    throw new Error('What-if run needs a snapshot or temperature, humidity and CO2 measurements to start from');
+  }
+
+  const outside = { ...DEFAULT_OUTSIDE, ...options.outside };
+  const start = initial as GreenhouseState;
+  const baseline = simulate(history, options.baseline ?? { name: 'baseline' }, start, outside, stepSeconds);
+  const forked = simulate(history, scenario, start, outside, stepSeconds);
+
+  const modelError = {} as Record<ClimateVariable, WhatIfError>;
+  const actualMean: Partial<GreenhouseState> = {};
+  for (const variable of VARIABLES) {
+    const errors: number[] = [];
+    const values: number[] = [];
+    for (const point of measured) {
+      const value = point[variable];
+      if (value === undefined) continue;
+      const index = Math.min(baseline.trace.length - 1, Math.floor((point.time.getTime() - history.from.getTime()) / 1000 / stepSeconds));
+      errors.push(baseline.trace[index][variable] - value);
+      values.push(value);
+    }
+    modelError[variable] = {
+      rmse: errors.length ? Math.sqrt(average(errors.map(error => error * error))) : NaN,
+      bias: errors.length ? average(errors) : NaN,
+      samples: errors.length
+    };
+    if (values.length) actualMean[variable] = average(values);
+  }
+
+  const actualEnergy = history.energy.length ? history.energy.reduce((sum, sample) => sum + sample.kwh, 0) : null;
+  const energyDelta = forked.energyKwh - baseline.energyKwh;
+
+  return {
+    baseline,
+    scenario: forked,
+    actual: { mean: actualMean, energyKwh: actualEnergy },
+    modelError,
+    delta: {
+      temperature: forked.mean.temperature - baseline.mean.temperature,
+      humidity: forked.mean.humidity - baseline.mean.humidity,
+      co2: forked.mean.co2 - baseline.mean.co2,
+      energyKwh: energyDelta,
+      co2Kg: forked.co2Kg - baseline.co2Kg
+    },
+    projectedEnergyKwh: actualEnergy === null ? null : Math.max(0, actualEnergy + energyDelta)
+  };
+}
+
+function simulate(
+  history: TwinHistory,
+  scenario: WhatIfScenario,
+  initial: GreenhouseState,
+  fallbackOutside: OutsideConditions,
+  stepSeconds: number
+): WhatIfRun {
+  const { floorArea, heatingEfficiency, ventFanPower, humidifierPower, ...params } = { ...DEFAULT_EQUIPMENT, ...scenario.equipment };
+  const model = new GreenhouseClimateModel(initial, params);
+  const equipment = model.getParams();
+  const controller = new ClimateController(scenario.setpoints, scenario.priorities, scenario.tuning);
+  controller.setEnabled(true);
+  // The loops start timing from construction; rewind them to the start of the window
+  LOOPS.forEach(loop => controller.getLoop(loop).hold(0, history.from.getTime() - stepSeconds * 1000));
+  const outsideAt = outsideLookup(history, fallbackOutside);
+
+  const trace: WhatIfTracePoint[] = [];
+  let wattHoursPerM2 = 0;
+  let co2Grams = 0;
+  const hours = stepSeconds / 3600;
+
+  for (let time = history.from.getTime(); time <= history.to.getTime(); time += stepSeconds * 1000) {
+    const outside = outsideAt(time);
+    const state = model.getState();
+    const outputs = controller.update({ ...state, solarRadiation: outside.solarRadiation }, time);
+    const actuators = Object.fromEntries(LOOPS.map(loop => [loop, outputs[loop]])) as Record<ClimateLoop, number>;
+    trace.push({ time: new Date(time), ...state, outputs: actuators });
+
+    wattHoursPerM2 += hours * (
+      (actuators.heating / 100) * equipment.heatingCapacity / heatingEfficiency +
+      (actuators.dehumidification / 100) * equipment.dehumidifierPower +
+      (actuators.venting / 100) * ventFanPower +
+      (actuators.humidification / 100) * humidifierPower
+    );
+    co2Grams += (actuators.co2Dosing / 100) * equipment.co2DosingCapacity * stepSeconds;
+
+    model.step(actuators, outside, stepSeconds);
+  }
+
+  return {
+    scenario: scenario.name,
+    trace,
+    energyKwh: (wattHoursPerM2 * floorArea) / 1000,
+    co2Kg: (co2Grams * floorArea) / 1000,
+    mean: {
+      temperature: average(trace.map(point => point.temperature)),
+      humidity: average(trace.map(point => point.humidity)),
+      co2: average(trace.map(point => point.co2))
+    }
+  };
+}
+
+/**
+ * Merge good-quality temperature, humidity and CO2 readings into one point per
+ * timestamp
+ */
+function measuredClimate(history: TwinHistory): Array<Partial<GreenhouseState> & { time: Date }> {
+  const points = new Map<number, Partial<GreenhouseState> & { time: Date }>();
+  for (const reading of history.readings) {
+    if (reading.quality !== 'good') continue;
+    const variable: ClimateVariable | null =
+      reading.sensorType === 'temperature' ? 'temperature'
+        : reading.sensorType === 'humidity' ? 'humidity'
+          : reading.sensorType === 'co2' ? 'co2'
+            : null;
+    if (!variable) continue;
+
+    const key = reading.timestamp.getTime();
+    const point = points.get(key) || { time: reading.timestamp };
+    point[variable] = reading.value;
+    points.set(key, point);
+  }
+  return Array.from(points.values()).sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+function snapshotClimate(snapshot: DigitalTwinSnapshot): GreenhouseState {
+  const { temperature, humidity, co2Level } = snapshot.state.realTime;
+  return { temperature, humidity, co2: co2Level };
+}
+
+/**
+ * Latest known weather at or before a time, each field carried forward
+ * independently
+ */
+function outsideLookup(history: TwinHistory, fallback: OutsideConditions): (time: number) => OutsideConditions {
+  const samples = [...history.outside].sort((a, b) => a.time.getTime() - b.time.getTime());
+  let index = 0;
+  const current: OutsideConditions = { ...fallback };
+
+  // Simulation time only moves forward, so a single cursor is enough
+  return (time: number) => {
+    while (index < samples.length && samples[index].time.getTime() <= time) {
+      const { temperature, humidity, solarRadiation } = samples[index];
+      if (temperature !== undefined) current.temperature = temperature;
+      if (humidity !== undefined) current.humidity = humidity;
+      if (solarRadiation !== undefined) current.solarRadiation = solarRadiation;
+      index++;
+    }
+    return { ...current };
+  };
+}
+
+function average(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : NaN;
+}
@@ -0,0 +1,628 @@
+/**
+ * Whole-System Duct Network Design
+ * Sizes a duct tree from the air handler to its diffusers by the equal
+ * friction or static regain method, totals ASHRAE fitting and junction
+ * losses along every path, finds the critical path, sets balancing dampers
+ * and hands the resulting system curve to fan selection
+ */
+
+import type { DrawingAnnotation, DrawingElement, DrawingLayer, DrawingSheet } from './cad/drawing-generator';
+import type { Point3D } from './cad/greenhouse-cad-system';
+import { DuctDesignCriteria, DuctDimensions, DuctMaterial, DuctworkDesigner } from './ductwork-design';
+import {
+  FAN_DATABASE,
+  FanSelectionCriteria,
+  FanSelectionResult,
+  FanSelector,
+  FanSpecification,
+  SystemCurve
+} from './fan-selection';
+
+export type DuctNodeType = 'ahu' | 'junction' | 'terminal';
+
+export interface DuctNode {
+  id: string;
+  type: DuctNodeType;
+  airflow?: number; // CFM delivered at a terminal
+  pressure?: number; // inches w.g. total pressure the terminal device needs
+  position?: Point3D; // feet, required for drawing export
+}
+
+/**
+ * Fittings along a run. Elbows and dampers take their coefficients from the
+ * ASHRAE duct fitting tables; 'coefficient' is a catalogue loss coefficient
+ * and 'component' a fixed pressure drop such as a coil, filter or VAV box.
+ */
+export interface DuctNetworkFitting {
+  type: 'elbow' | 'mitered-elbow' | 'damper' | 'entry' | 'exit' | 'coefficient' | 'component';
+  angle?: number; // degrees; turn angle for elbows, blade angle for dampers
+  radiusRatio?: number; // r/D for smooth radius elbows
+  vanes?: boolean; // turning vanes in mitered elbows
+  coefficient?: number; // loss coefficient for 'coefficient'
+  pressureDrop?: number; // inches w.g. for 'component'
+  description?: string;
+}
+
+export interface DuctRun {
+  id: string;
+  from: string; // upstream node, towards the air handler
+  to: string;
+  length: number; // feet
+  shape: 'round' | 'rectangular';
+  material: DuctMaterial;
+  fittings?: DuctNetworkFitting[];
+  dimensions?: DuctDimensions; // fixed size, skips sizing
+  maxHeight?: number; // inches, ceiling space limit for rectangular duct
+  branchAngle?: number; // degrees between a branch takeoff and the trunk, default 90
+}
+
+export interface DuctNetwork {
+  type: 'supply' | 'return' | 'exhaust';
+  nodes: DuctNode[];
+  runs: DuctRun[];
+}
+
+export type DuctNetworkCriteria = Omit<DuctDesignCriteria, 'method'> & {
+  method: 'equalFriction' | 'staticRegain';
+};
+
+export interface BalancingDamper {
+  angle: number; // degrees from wide open
+  coefficient: number; // loss coefficient at that angle
+  saturated: boolean; // excess pressure is more than a damper can absorb
+}
+
+export interface DuctRunResult {
+  id: string;
+  from: string;
+  to: string;
+  airflow: number; // CFM
+  shape: 'round' | 'rectangular';
+  dimensions: DuctDimensions;
+  equivalentDiameter: number; // inches
+  velocity: number; // fpm
+  velocityPressure: number; // inches w.g.
+  frictionRate: number; // inches w.g. per 100 ft
+  frictionLoss: number; // inches w.g.
+  fittingLoss: number; // inches w.g.
+  junctionLoss: number; // inches w.g., takeoff from the upstream trunk
+  totalLoss: number; // inches w.g.
+  damper?: BalancingDamper;
+}
+
+export interface DuctTerminalResult {
+  id: string;
+  airflow: number; // CFM
+  path: string[]; // run ids from the air handler
+  pathPressure: number; // inches w.g. total pressure needed with dampers open
+  excessPressure: number; // inches w.g. to be absorbed by its balancing damper
+}
+
+export interface DuctNetworkDesign {
+  method: DuctNetworkCriteria['method'];
+  totalAirflow: number; // CFM
+  runs: DuctRunResult[];
+  terminals: DuctTerminalResult[];
+  criticalTerminal: string;
+  criticalPath: string[];
+  fanTotalPressure: number; // inches w.g. external total pressure
+  externalStaticPressure: number; // inches w.g.
+  warnings: string[];
+}
+
+export interface DuctFanSelection {
+  systemCurve: SystemCurve;
+  results: FanSelectionResult[];
+}
+
+const KINEMATIC_VISCOSITY = 1.62e-4; // ft²/s, standard air
+const DEFAULT_TERMINAL_PRESSURE = 0.1; // inches w.g., typical ceiling diffuser
+const MAX_ASPECT_RATIO = 4;
+
+const ROUND_SIZES = [4, 5, 6, 7, 8, 9, 10, 12, 14, 16, 18, 20, 22, 24, 26, 28, 30, 32, 34, 36, 40, 42, 48, 54, 60];
+const RECTANGULAR_SIDES = [6, 8, 10, 12, 14, 16, 18, 20, 22, 24, 26, 28, 30, 32, 36, 40, 42, 48, 54, 60];
+
+// ASHRAE CD3-1 smooth radius elbow: C at 90° by r/D, and angle factor K
+const ELBOW_RADIUS_COEFFICIENTS: Array<[number, number]> = [
+  [0.5, 0.71], [0.75, 0.33], [1.0, 0.22], [1.5, 0.15], [2.0, 0.13], [2.5, 0.12]
+];
+const ELBOW_ANGLE_FACTORS: Array<[number, number]> = [
+  [0, 0], [20, 0.31], [30, 0.45], [45, 0.6], [60, 0.78], [75, 0.9],
+  [90, 1.0], [110, 1.13], [130, 1.2], [150, 1.28], [180, 1.4]
+];
+
+// ASHRAE CR3-6 mitered elbow by angle; CR3-14 with single-thickness vanes
+const MITERED_ELBOW_COEFFICIENTS: Array<[number, number]> = [
+  [0, 0], [20, 0.08], [30, 0.18], [45, 0.38], [60, 0.6], [75, 0.89], [90, 1.2]
+];
+const VANED_ELBOW_COEFFICIENT = 0.12;
+
+// ASHRAE CD9-1 butterfly damper by blade angle
+const DAMPER_COEFFICIENTS: Array<[number, number]> = [
+  [0, 0.2], [10, 0.52], [20, 1.5], [30, 4.5], [40, 11], [50, 29], [60, 108]
+];
+
+const ENTRY_COEFFICIENT = 0.5; // ED1-1 plain duct entry
+const EXIT_COEFFICIENT = 1.0; // SD2-1 exit to a plenum
+
+interface CompiledRun {
+  run: DuctRun;
+  airflow: number;
+  parent?: CompiledRun;
+  children: CompiledRun[];
+  terminal?: DuctNode;
+  role: 'root' | 'main' | 'branch';
+}
+
+interface SizedRun {
+  dimensions: DuctDimensions;
+  equivalentDiameter: number;
+  velocity: number;
+}
+
+function interpolate(table: Array<[number, number]>, x: number): number {
+  if (x <= table[0][0]) return table[0][1];
+  for (let i = 1; i < table.length; i++) {
+    if (x <= table[i][0]) {
+      const [x0, y0] = table[i - 1];
+      const [x1, y1] = table[i];
+      return y0 + (y1 - y0) * (x - x0) / (x1 - x0);
+    }
+  }
+  return table[table.length - 1][1];
+}
+
+/**
+ * Velocity pressure of standard air, inches w.g., from velocity in fpm
+ */
+export function velocityPressure(velocity: number): number {
+  return Math.pow(velocity / 4005, 2);
+}
+
+/**
+ * Huebscher equivalent diameter of rectangular duct, inches
+ */
+export function equivalentDiameter(dimensions: DuctDimensions): number {
+  if (dimensions.diameter) return dimensions.diameter;
+  if (dimensions.width && dimensions.height) {
+    const { width: a, height: b } = dimensions;
+    return 1.3 * Math.pow(a * b, 0.625) / Math.pow(a + b, 0.25);
+  }
+  return DuctworkDesigner.hydraulicDiameter(dimensions);
+}
+
+/**
+ * Friction loss, inches w.g. per 100 ft, by Darcy-Weisbach with the
+ * Colebrook friction factor. Rectangular duct uses its equivalent diameter.
+ */
+export function ductFrictionRate(airflow: number, dimensions: DuctDimensions, roughness: number): number {
+  const diameter = equivalentDiameter(dimensions);
+  const velocity = airflow * 144 / (Math.PI * diameter * diameter / 4);
+  const reynolds = (velocity / 60) * (diameter / 12) / KINEMATIC_VISCOSITY;
+  if (reynolds <= 0) return 0;
+
+  let f = 0.02;
+  if (reynolds < 2300) {
+    f = 64 / reynolds;
+  } else {
+    for (let i = 0; i < 20; i++) {
+      const next = Math.pow(-2 * Math.log10(roughness / (3.7 * diameter / 12) + 2.51 / (reynolds * Math.sqrt(f))), -2);
+      if (Math.abs(next - f) < 1e-10) break;
+      f = next;
+    }
+  }
+  return f * (100 / (diameter / 12)) * velocityPressure(velocity);
+}
+
+/**
+ * Loss coefficient of a run fitting, referenced to the run's velocity pressure
+ */
+export function ductFittingCoefficient(fitting: DuctNetworkFitting): number {
+  switch (fitting.type) {
+    case 'elbow':
+      return interpolate(ELBOW_RADIUS_COEFFICIENTS, fitting.radiusRatio ?? 1.5) *
+        interpolate(ELBOW_ANGLE_FACTORS, fitting.angle ?? 90);
+    case 'mitered-elbow':
+      return fitting.vanes
+        ? VANED_ELBOW_COEFFICIENT * (fitting.angle ?? 90) / 90
+        : interpolate(MITERED_ELBOW_COEFFICIENTS, fitting.angle ?? 90);
+    case 'damper':
+      return interpolate(DAMPER_COEFFICIENTS, fitting.angle ?? 0);
+    case 'entry':
+      return fitting.coefficient ?? ENTRY_COEFFICIENT;
+    case 'exit':
+      return fitting.coefficient ?? EXIT_COEFFICIENT;
+    case 'coefficient':
+      return fitting.coefficient ?? 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Diverging junction loss coefficients (Idelchik, as tabulated in ASHRAE
+ * SD5 fittings), referenced to the upstream trunk velocity pressure
+ */
+export function junctionCoefficient(role: 'main' | 'branch', velocityRatio: number, angle = 90): number {
+  if (role === 'main') return 0.4 * Math.pow(1 - velocityRatio, 2);
+  const factor = angle <= 60 || velocityRatio <= 0.8 ? 1 : 0.9;
+  return factor * (1 + velocityRatio * velocityRatio - 2 * velocityRatio * Math.cos(angle * Math.PI / 180));
+}
+
+/**
+ * Butterfly damper blade angle giving a loss coefficient
+ */
+export function damperAngle(coefficient: number): BalancingDamper {
+  const [, open] = DAMPER_COEFFICIENTS[0];
+  const [maxAngle, closed] = DAMPER_COEFFICIENTS[DAMPER_COEFFICIENTS.length - 1];
+  if (coefficient <= open) return { angle: 0, coefficient: open, saturated: false };
+  if (coefficient > closed) return { angle: maxAngle, coefficient: closed, saturated: true };
+
+  // Coefficients grow roughly exponentially with angle
+  for (let i = 1; i < DAMPER_COEFFICIENTS.length; i++) {
+    const [a1, c1] = DAMPER_COEFFICIENTS[i];
+    if (coefficient <= c1) {
+      const [a0, c0] = DAMPER_COEFFICIENTS[i - 1];
+      const t = Math.log(coefficient / c0) / Math.log(c1 / c0);
+      return { angle: a0 + t * (a1 - a0), coefficient, saturated: false };
+    }
+  }
+  return { angle: maxAngle, coefficient: closed, saturated: true };
+}
+
+export class DuctNetworkDesigner {
+  private network: DuctNetwork;
+  private nodes = new Map<string, DuctNode>();
+  private root: CompiledRun;
+  private order: CompiledRun[] = [];
+
+  constructor(network: DuctNetwork) {
+    this.network = network;
+    for (const node of network.nodes) {
+      if (this.nodes.has(node.id)) throw new Error(`Duplicate duct node ${node.id}`);
+      this.nodes.set(node.id, node);
+    }
+
+    const ahus = network.nodes.filter(node => node.type === 'ahu');
+    if (ahus.length !== 1) throw new Error('Duct network needs exactly one air handler node');
+
+    const incoming = new Map<string, DuctRun>();
+    const outgoing = new Map<string, DuctRun[]>();
+    for (const run of network.runs) {
+      for (const id of [run.from, run.to]) {
+        if (!this.nodes.has(id)) throw new Error(`Duct run ${run.id} references unknown node ${id}`);
+      }
+      if (incoming.has(run.to)) throw new Error(`Duct node ${run.to} is fed by more than one run; the network must be a tree`);
+      incoming.set(run.to, run);
+      outgoing.set(run.from, [...(outgoing.get(run.from) || []), run]);
+    }
+
+    const rootRuns = outgoing.get(ahus[0].id) || [];
+    if (rootRuns.length !== 1) throw new Error('Air handler must connect to a single trunk run');
+
+    const compile = (run: DuctRun, parent?: CompiledRun): CompiledRun => {
+      const node = this.nodes.get(run.to)!;
+      const compiled: CompiledRun = {
+        run,
+        airflow: 0,
+        parent,
+        children: [],
+        terminal: node.type === 'terminal' ? node : undefined,
+        role: parent ? 'branch' : 'root'
+      };
+      this.order.push(compiled);
+      if (compiled.terminal) {
+        if (!(node.airflow && node.airflow > 0)) throw new Error(`Terminal ${node.id} needs a design airflow`);
+        compiled.airflow = node.airflow;
+        return compiled;
+      }
+
+      const downstream = outgoing.get(node.id) || [];
+      if (downstream.length === 0) throw new Error(`Duct node ${node.id} does not lead to a terminal`);
+      compiled.children = downstream.map(child => compile(child, compiled));
+      compiled.airflow = compiled.children.reduce((sum, child) => sum + child.airflow, 0);
+
+      // The largest outlet continues the trunk; the others are takeoffs
+      const main = compiled.children.reduce((a, b) => (b.airflow > a.airflow ? b : a));
+      main.role = 'main';
+      return compiled;
+    };
+    this.root = compile(rootRuns[0]);
+
+    const reached = new Set(this.order.map(item => item.run.id));
+    const orphan = network.runs.find(run => !reached.has(run.id));
+    if (orphan) throw new Error(`Duct run ${orphan.id} is not connected to the air handler`);
+    const unserved = network.nodes.find(node => node.type === 'terminal' && !incoming.has(node.id));
+    if (unserved) throw new Error(`Terminal ${unserved.id} is not connected to the air handler`);
+  }
+
+  /**
+   * Size every run, total the losses to each terminal and balance the
+   * non-critical paths
+   */
+  design(criteria: DuctNetworkCriteria): DuctNetworkDesign {
+    const warnings: string[] = [];
+    const sized = new Map<CompiledRun, SizedRun>();
+
+    for (const item of this.order) {
+      const parent = item.parent ? sized.get(item.parent) : undefined;
+      sized.set(item, this.size(item, criteria, parent, warnings));
+    }
+
+    const results = new Map<CompiledRun, DuctRunResult>();
+    for (const item of this.order) {
+      results.set(item, this.losses(item, sized.get(item)!, item.parent ? sized.get(item.parent) : undefined));
+    }
+
+    const terminals: DuctTerminalResult[] = [];
+    const paths = new Map<string, CompiledRun[]>();
+    for (const item of this.order) {
+      if (!item.terminal) continue;
+      const path: CompiledRun[] = [];
+      for (let current: CompiledRun | undefined = item; current; current = current.parent) path.unshift(current);
+      paths.set(item.terminal.id, path);
+      terminals.push({
+        id: item.terminal.id,
+        airflow: item.airflow,
+        path: path.map(step => step.run.id),
+        pathPressure: path.reduce((sum, step) => sum + results.get(step)!.totalLoss, 0) +
+          (item.terminal.pressure ?? DEFAULT_TERMINAL_PRESSURE),
+        excessPressure: 0
+      });
+    }
+
+    const critical = terminals.reduce((a, b) => (b.pathPressure > a.pathPressure ? b : a));
+    for (const terminal of terminals) {
+      terminal.excessPressure = critical.pathPressure - terminal.pathPressure;
+      const path = paths.get(terminal.id)!;
+      const result = results.get(path[path.length - 1])!;
+      const { coefficient: open } = damperAngle(0);
+      result.damper = damperAngle(open + terminal.excessPressure / result.velocityPressure);
+      if (result.damper.saturated) {
+        warnings.push(`Balancing damper in ${result.id} cannot absorb ${terminal.excessPressure.toFixed(2)} in. w.g.; resize the run or add an orifice`);
+      }
+    }
+
+    const rootResult = results.get(this.root)!;
+    return {
+      method: criteria.method,
+      totalAirflow: this.root.airflow,
+      runs: this.order.map(item => results.get(item)!),
+      terminals,
+      criticalTerminal: critical.id,
+      criticalPath: critical.path,
+      fanTotalPressure: critical.pathPressure,
+      externalStaticPressure: critical.pathPressure - rootResult.velocityPressure,
+      warnings
+    };
+  }
+
+  private size(
+    item: CompiledRun,
+    criteria: DuctNetworkCriteria,
+    parent: SizedRun | undefined,
+    warnings: string[]
+  ): SizedRun {
+    const { run, airflow } = item;
+    if (run.dimensions) return this.sized(airflow, run.dimensions);
+
+    const limit = item.terminal ? criteria.maxVelocity.final
+      : item.role === 'branch' ? criteria.maxVelocity.branch : criteria.maxVelocity.main;
+    const candidates = this.candidates(run).map(dimensions => this.sized(airflow, dimensions));
+    const withinVelocity = candidates.filter(candidate => candidate.velocity <= limit);
+    if (withinVelocity.length === 0) {
+      warnings.push(`Run ${run.id} exceeds ${limit} fpm at the largest standard size`);
+      return candidates[candidates.length - 1];
+    }
+
+    if (criteria.method === 'staticRegain' && item.role !== 'branch') {
+      if (!parent) return withinVelocity[0];
+
+      // Smallest size whose velocity pressure drop regains the run's losses
+      const upstream = withinVelocity.filter(candidate => candidate.equivalentDiameter <= parent.equivalentDiameter);
+      if (upstream.length === 0) return withinVelocity[0];
+      const regained = upstream.find(candidate => {
+        const losses = this.losses(item, candidate, parent);
+        return velocityPressure(parent.velocity) - losses.velocityPressure >= losses.totalLoss;
+      });
+      return regained || upstream[upstream.length - 1];
+    }
+
+    const frictionRate = criteria.frictionRate ?? 0.08;
+    const match = withinVelocity.find(candidate =>
+      ductFrictionRate(airflow, candidate.dimensions, run.material.roughness) <= frictionRate
+    );
+    if (!match) warnings.push(`Run ${run.id} exceeds ${frictionRate} in. w.g./100 ft at the largest standard size`);
+    return match || withinVelocity[withinVelocity.length - 1];
+  }
+
+  private candidates(run: DuctRun): DuctDimensions[] {
+    if (run.shape === 'round') return ROUND_SIZES.map(diameter => ({ diameter }));
+
+    const maxHeight = run.maxHeight ?? Infinity;
+    const sizes: DuctDimensions[] = [];
+    for (const width of RECTANGULAR_SIDES) {
+      for (const height of RECTANGULAR_SIDES) {
+        if (height > width || height > maxHeight || width / height > MAX_ASPECT_RATIO) continue;
+        sizes.push({ width, height });
+      }
+    }
+    // Smallest first; among equal capacity prefer less sheet metal
+    return sizes.sort((a, b) =>
+      equivalentDiameter(a) - equivalentDiameter(b) || (a.width! + a.height!) - (b.width! + b.height!)
+    );
+  }
+
+  private sized(airflow: number, dimensions: DuctDimensions): SizedRun {
+    return {
+      dimensions,
+      equivalentDiameter: equivalentDiameter(dimensions),
+      velocity: DuctworkDesigner.calculateVelocity(airflow, dimensions)
+    };
+  }
+
+  private losses(item: CompiledRun, size: SizedRun, parent?: SizedRun): DuctRunResult {
+    const { run, airflow } = item;
+    const vp = velocityPressure(size.velocity);
+    const frictionRate = ductFrictionRate(airflow, size.dimensions, run.material.roughness);
+
+    let coefficients = 0;
+    let components = 0;
+    for (const fitting of run.fittings || []) {
+      if (fitting.type === 'component') components += fitting.pressureDrop ?? 0;
+      else coefficients += ductFittingCoefficient(fitting);
+    }
+    // Every terminal run carries a balancing damper, wide open until balanced
+    if (item.terminal) coefficients += DAMPER_COEFFICIENTS[0][1];
+
+    let junctionLoss = 0;
+    if (parent && item.parent && item.parent.children.length > 1) {
+      junctionLoss = junctionCoefficient(item.role === 'branch' ? 'branch' : 'main', size.velocity / parent.velocity, run.branchAngle ?? 90) *
+        velocityPressure(parent.velocity);
+    }
+
+    const frictionLoss = frictionRate * run.length / 100;
+    const fittingLoss = coefficients * vp + components;
+    return {
+      id: run.id,
+      from: run.from,
+      to: run.to,
+      airflow,
+      shape: run.shape,
+      dimensions: size.dimensions,
+      equivalentDiameter: size.equivalentDiameter,
+      velocity: size.velocity,
+      velocityPressure: vp,
+      frictionRate,
+      frictionLoss,
+      fittingLoss,
+      junctionLoss,
+      totalLoss: frictionLoss + fittingLoss + junctionLoss
+    };
+  }
+
+  /**
+   * Fixed-resistance system curve through the design point, static
+   * pressure as fan curves are catalogued. The system effect is added to
+   * the curve so the operating point accounts for it.
+   */
+  static systemCurve(design: DuctNetworkDesign, systemEffect = 0): SystemCurve {
+    const flowPoints: number[] = [];
+    const pressurePoints: number[] = [];
+    for (let i = 0; i <= 130; i += 10) {
+      flowPoints.push(design.totalAirflow * i / 100);
+      pressurePoints.push((design.externalStaticPressure + systemEffect) * Math.pow(i / 100, 2));
+    }
+    return { flowPoints, pressurePoints, systemEffect };
+  }
+
+  /**
+   * Select and check fans against the designed system
+   */
+  static selectFans(
+    design: DuctNetworkDesign,
+    criteria: Omit<FanSelectionCriteria, 'designFlow' | 'designPressure'>,
+    fans: FanSpecification[] = FAN_DATABASE,
+    systemEffect = 0
+  ): DuctFanSelection {
+    const systemCurve = this.systemCurve(design, systemEffect);
+    const results = FanSelector.selectFan(
+      { ...criteria, designFlow: design.totalAirflow, designPressure: design.externalStaticPressure + systemEffect },
+      systemCurve,
+      fans
+    );
+    return { systemCurve, results };
+  }
+
+  /**
+   * Duct plan geometry for the drawing generator: double-line duct outlines,
+   * diffuser symbols, balancing damper marks and size tags
+   */
+  exportDrawing(design: DuctNetworkDesign): Pick<DrawingSheet, 'elements' | 'annotations' | 'layers'> {
+    const layer = `hvac-${this.network.type}`;
+    const elements: DrawingElement[] = [];
+    const annotations: DrawingAnnotation[] = [];
+    const position = (id: string): Point3D => {
+      const point = this.nodes.get(id)!.position;
+      if (!point) throw new Error(`Duct node ${id} has no position for drawing export`);
+      return point;
+    };
+    const element = (id: string, type: DrawingElement['type'], geometry: DrawingElement['geometry'], lineWeight: DrawingElement['style']['lineWeight']): DrawingElement => ({
+      id,
+      type,
+      layer,
+      geometry,
+      style: { color: this.network.type === 'supply' ? 'blue' : 'green', lineType: 'continuous', lineWeight },
+      properties: { visible: true, locked: false, selectable: true, printable: true }
+    });
+    const label = (id: string, at: Point3D, text: string): DrawingAnnotation => ({
+      id,
+      type: 'label',
+      position: at,
+      text,
+      style: { font: 'Arial', size: 6, color: 'black', bold: false, italic: false, underline: false, alignment: 'center' }
+    });
+
+    for (const run of design.runs) {
+      const start = position(run.from);
+      const end = position(run.to);
+      const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+      const half = (run.dimensions.diameter ?? run.dimensions.width ?? 0) / 24;
+      const nx = -(end.y - start.y) / length * half;
+      const ny = (end.x - start.x) / length * half;
+
+      elements.push(element(`${run.id}-duct`, 'polyline', {
+        points: [
+          { x: start.x + nx, y: start.y + ny, z: start.z },
+          { x: end.x + nx, y: end.y + ny, z: end.z },
+          { x: end.x - nx, y: end.y - ny, z: end.z },
+          { x: start.x - nx, y: start.y - ny, z: start.z },
+          { x: start.x + nx, y: start.y + ny, z: start.z }
+        ]
+      }, 0.35));
+
+      const size = run.dimensions.diameter ? `${run.dimensions.diameter}"Ø` : `${run.dimensions.width}x${run.dimensions.height}`;
+      annotations.push(label(`${run.id}-tag`, {
+        x: (start.x + end.x) / 2 + 2 * nx,
+        y: (start.y + end.y) / 2 + 2 * ny,
+        z: (start.z + end.z) / 2
+      }, `${size} ${Math.round(run.airflow)} CFM`));
+
+      if (run.damper) {
+        const at = { x: end.x - (end.x - start.x) * 0.25, y: end.y - (end.y - start.y) * 0.25, z: end.z };
+        elements.push(element(`${run.id}-damper`, 'line', {
+          points: [{ x: at.x + nx, y: at.y + ny, z: at.z }, { x: at.x - nx, y: at.y - ny, z: at.z }]
+        }, 0.25));
+        annotations.push(label(`${run.id}-damper-tag`, { x: at.x - 2 * nx, y: at.y - 2 * ny, z: at.z },
+          `BD ${Math.round(run.damper.angle)}°`));
+      }
+    }
+
+    for (const terminal of design.terminals) {
+      const center = position(terminal.id);
+      elements.push(element(`${terminal.id}-diffuser`, 'circle', { center, radius: 0.75 }, 0.35));
+      annotations.push(label(`${terminal.id}-tag`, { x: center.x, y: center.y - 1.5, z: center.z },
+        `${terminal.id} ${Math.round(terminal.airflow)} CFM`));
+    }
+
+    const layers: DrawingLayer[] = [{
+      name: layer,
+      color: this.network.type === 'supply' ? 'blue' : 'green',
+      lineType: 'continuous',
+      lineWeight: 0.35,
+      visible: true,
+      locked: false,
+      printable: true,
+      description: `${this.network.type.charAt(0).toUpperCase()}${this.network.type.slice(1)} ductwork`
+    }];
+
+    return { elements, annotations, layers };
+  }
+}
+
+/**
+ * Design a duct network in one call
+ */
+export function designDuctNetwork(network: DuctNetwork, criteria: DuctNetworkCriteria): DuctNetworkDesign {
+  return new DuctNetworkDesigner(network).design(criteria);
+}
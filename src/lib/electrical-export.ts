@@ -6,6 +6,9 @@
 import jsPDF from 'jspdf'
 import 'jspdf-autotable'
 import { exportToCSV } from './export-utils'
+import { NECAmpacityCalculator } from './electrical/nec-ampacity'
+import type { ServiceLoadCalculation } from './electrical/nec-load-calculation'
+import type { PanelSchedule } from './electrical/panel-schedule'
 
 // Extend jsPDF type for autoTable
 declare module 'jspdf' {
@@ -47,6 +50,8 @@ export interface ElectricalDesignData {
     length: number
     height: number
   }
+  schedule?: PanelSchedule // Balanced panel schedule from PanelScheduleBuilder
+  loadCalculation?: ServiceLoadCalculation // Article 220 feeder/service calculation
 }
 
 /**
@@ -89,6 +94,43 @@ export function exportDetailedCircuitSchedule(data: ElectricalDesignData, filena
   exportToCSV(detailedData, `${filename}_detailed`)
 }
 
+/**
+ * Generate panel schedule CSV with circuit positions and per-phase loading
+ */
+export function exportPanelScheduleCSV(schedule: PanelSchedule, filename: string): void {
+  const phases = Object.keys(schedule.phaseLoading) as Array<keyof typeof schedule.phaseLoading>
+
+  const rows: Record<string, string | number>[] = schedule.circuits.map(circuit => {
+    const row: Record<string, string | number> = {
+      'Circuit': circuit.positions.join(','),
+      'Description': circuit.description,
+      'Breaker': `${circuit.poles}P-${circuit.breaker}A`,
+      'Wire Size': circuit.conductor || 'N/A',
+      'Load (VA)': Math.round(circuit.loadVA),
+      'Current (A)': circuit.amps.toFixed(1)
+    }
+    phases.forEach(phase => {
+      row[`Phase ${phase} (VA)`] = circuit.phases.includes(phase) ? Math.round(circuit.loadVA / circuit.poles) : ''
+    })
+    return row
+  })
+
+  const totals: Record<string, string | number> = {
+    'Circuit': 'TOTAL',
+    'Description': `Imbalance ${schedule.imbalancePercent.toFixed(1)}%, spare ${schedule.spareCapacityAmps.toFixed(1)}A (${schedule.spareCapacityPercent.toFixed(0)}%)`,
+    'Breaker': schedule.mainBreaker ? `${schedule.mainBreaker}A main` : `${schedule.busRating}A MLO`,
+    'Wire Size': `${schedule.spacesUsed}/${schedule.spaces} spaces`,
+    'Load (VA)': Math.round(schedule.connectedVA),
+    'Current (A)': ''
+  }
+  phases.forEach(phase => {
+    totals[`Phase ${phase} (VA)`] = `${Math.round(schedule.phaseLoading[phase]!.connectedVA)} (${schedule.phaseLoading[phase]!.amps.toFixed(1)}A)`
+  })
+  rows.push(totals)
+
+  exportToCSV(rows, `${filename}_panel_${schedule.panelName.replace(/\s+/g, '_')}`)
+}
+
 /**
  * Generate electrical blueprint PDF
  */
@@ -354,6 +396,45 @@ function calculateWireSize(current: number, voltage: number, distance: number):
  * Generate load calculations sheet
  */
 export function exportLoadCalculations(data: ElectricalDesignData): void {
+  const filename = `load_calculations_${data.projectName.replace(/\s+/g, '_')}`
+
+  if (data.loadCalculation) {
+    const calc = data.loadCalculation
+    const rows: Record<string, string>[] = calc.lines.map(line => ({
+      'Load': line.description,
+      'NEC': line.article,
+      'Connected (VA)': Math.round(line.connectedVA).toLocaleString(),
+      'Demand Factor': `${(line.demandFactor * 100).toFixed(0)}%`,
+      'Demand (VA)': Math.round(line.demandVA).toLocaleString()
+    }))
+
+    const summary: Array<[string, string, number]> = [
+      ['Continuous loads at 125%', '215.2(A)(1), 230.42(A)', calc.continuousAdderVA],
+      ['25% of largest motor', '430.24', calc.largestMotorAdderVA],
+      ['Future growth', '', calc.futureGrowthVA]
+    ]
+    summary
+      .filter(([, , va]) => va > 0)
+      .forEach(([load, article, va]) => rows.push({
+        'Load': load, 'NEC': article, 'Connected (VA)': '', 'Demand Factor': '', 'Demand (VA)': Math.round(va).toLocaleString()
+      }))
+
+    rows.push(
+      { 'Load': 'Calculated load', 'NEC': 'Article 220', 'Connected (VA)': Math.round(calc.connectedVA).toLocaleString(), 'Demand Factor': '', 'Demand (VA)': Math.round(calc.calculatedVA).toLocaleString() },
+      { 'Load': 'Calculated current', 'NEC': '', 'Connected (VA)': '', 'Demand Factor': '', 'Demand (VA)': `${calc.calculatedAmps.toFixed(1)}A at ${calc.voltage}V ${calc.phases === 3 ? '3Ø' : '1Ø'}` },
+      { 'Load': 'Overcurrent device', 'NEC': '240.6(A)', 'Connected (VA)': '', 'Demand Factor': '', 'Demand (VA)': `${calc.overcurrentDevice}A` },
+      {
+        'Load': 'Conductors', 'NEC': 'Table 310.16', 'Connected (VA)': '', 'Demand Factor': '',
+        'Demand (VA)': calc.conductor
+          ? `${calc.parallelSets} x ${NECAmpacityCalculator.formatSize(calc.conductor.size)} ${calc.conductor.material === 'copper' ? 'Cu' : 'Al'} per phase`
+          : 'No conductor satisfies the load'
+      }
+    )
+
+    exportToCSV(rows, filename)
+    return
+  }
+
   const calculations = {
     'Project Name': data.projectName,
     'Date': new Date().toLocaleDateString(),
@@ -376,5 +457,5 @@ export function exportLoadCalculations(data: ElectricalDesignData): void {
     'Value': value
   }))
   
-  exportToCSV(csvData, `load_calculations_${data.projectName.replace(/\s+/g, '_')}`)
-}
\ No newline at end of file
+  exportToCSV(csvData, filename)
+}
@@ -0,0 +1,161 @@
+// Arc-Flash Labels and Study Report
+// Printable 6 x 4 in equipment labels (ANSI Z535.4 signal word header, NFPA 70E
+// 130.5(H) content) and a tabulated IEEE 1584-2018 study report.
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { ArcFlashLabel, ArcFlashStudy, ArcFlashStudyResult } from './arc-flash-study';
+
+export interface ArcFlashLabelOptions {
+  // 130.5(H)(3) permits incident energy and working distance, or the PPE
+  // category, but not both on the same label
+  method?: 'incident-energy' | 'ppe-category';
+}
+
+const SIGNAL_COLORS: Record<ArcFlashLabel['signalWord'], { fill: [number, number, number]; text: [number, number, number] }> = {
+  DANGER: { fill: [200, 16, 46], text: [255, 255, 255] },
+  WARNING: { fill: [255, 121, 0], text: [0, 0, 0] }
+};
+
+export class ArcFlashLabelGenerator {
+
+  static generateLabels(study: ArcFlashStudyResult, options: ArcFlashLabelOptions = {}): jsPDF {
+    const pdf = new jsPDF({ orientation: 'landscape', unit: 'in', format: [4, 6] });
+
+    study.buses.forEach((bus, index) => {
+      if (index > 0) pdf.addPage([4, 6], 'landscape');
+      this.drawLabel(pdf, bus.label, options.method || 'incident-energy');
+    });
+
+    return pdf;
+  }
+
+  static drawLabel(pdf: jsPDF, label: ArcFlashLabel, method: 'incident-energy' | 'ppe-category'): void {
+    const width = 6;
+    const colors = SIGNAL_COLORS[label.signalWord];
+
+    // Signal word panel
+    pdf.setFillColor(...colors.fill);
+    pdf.rect(0.15, 0.15, width - 0.3, 0.6, 'F');
+    pdf.setTextColor(...colors.text);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(26);
+    pdf.text(label.signalWord, width / 2, 0.6, { align: 'center' });
+
+    pdf.setTextColor(0, 0, 0);
+    pdf.setFontSize(13);
+    pdf.text('ARC FLASH AND SHOCK HAZARD', width / 2, 1.0, { align: 'center' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.text('Appropriate PPE required. Failure to comply can result in death or injury.', width / 2, 1.2, { align: 'center' });
+
+    // Arc flash section
+    const rows: Array<[string, string]> = [
+      ['Arc Flash Boundary', ArcFlashStudy.formatFeetInches(label.arcFlashBoundary)]
+    ];
+    if (method === 'incident-energy' || label.ppeCategory === null) {
+      rows.push(['Incident Energy', `${label.incidentEnergy.toFixed(1)} cal/cm²`]);
+      rows.push(['Working Distance', `${Math.round(label.workingDistance)} in`]);
+    } else {
+      rows.push(['PPE Category', label.ppeCategory === 0 ? 'None required' : `${label.ppeCategory}`]);
+    }
+    rows.push(['PPE', label.ppeRequired]);
+
+    // Shock section
+    rows.push(['Nominal Voltage', label.nominalVoltage]);
+    rows.push(['Limited Approach', `${label.shockBoundaries.limitedFixed} (fixed) / ${label.shockBoundaries.limitedMovable} (movable)`]);
+    rows.push(['Restricted Approach', label.shockBoundaries.restricted]);
+
+    let y = 1.55;
+    rows.forEach(([name, value]) => {
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(10);
+      pdf.text(`${name}:`, 0.35, y);
+      pdf.setFont('helvetica', 'normal');
+      pdf.text(value, 2.1, y, { maxWidth: width - 2.4 });
+      y += 0.27;
+    });
+
+    // Equipment identification footer
+    pdf.setDrawColor(0, 0, 0);
+    pdf.line(0.15, 3.45, width - 0.15, 3.45);
+    pdf.setFontSize(8);
+    pdf.text(`Equipment: ${label.equipmentName}`, 0.35, 3.62);
+    pdf.text(`Protective device: ${label.protectiveDevice}`, 0.35, 3.78);
+    pdf.text(`${label.projectName} - IEEE 1584-2018 - ${label.studyDate}`, width - 0.35, 3.78, { align: 'right' });
+  }
+
+  static generateReport(study: ArcFlashStudyResult): jsPDF {
+    const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'letter' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(18);
+    pdf.text('Arc Flash Hazard Study', 15, 20);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(10);
+    pdf.text(`Project: ${study.projectName}`, 15, 28);
+    pdf.text(`Study date: ${study.studyDate}`, 15, 34);
+    pdf.text('Method: IEEE 1584-2018 empirical model; PPE per NFPA 70E', 15, 40);
+    pdf.text(`Maximum incident energy: ${study.maxIncidentEnergy.toFixed(1)} cal/cm²`, pageWidth - 15, 28, { align: 'right' });
+
+    autoTable(pdf, {
+      startY: 48,
+      head: [[
+        'Bus', 'Fed From', 'Voltage', 'Ibf (kA)', 'Iarc (kA)', 'Iarc min (kA)', 'Device',
+        'Time (s)', 'Config', 'Gap (mm)', 'WD (in)', 'Energy (cal/cm²)', 'AFB', 'PPE Cat.'
+      ]],
+      body: study.buses.map(bus => {
+        const arcFlash = bus.result.arcFlash;
+        return [
+          bus.busName,
+          bus.path.length > 1 ? bus.path[bus.path.length - 2] : 'Source',
+          `${bus.voltage}`,
+          (bus.result.symmetrical.threePhaseFault / 1000).toFixed(2),
+          (arcFlash.arcingCurrent / 1000).toFixed(2),
+          (arcFlash.reducedArcingCurrent / 1000).toFixed(2),
+          bus.protectiveDevice || '-',
+          arcFlash.arcDuration.toFixed(3),
+          arcFlash.electrodeConfiguration,
+          `${arcFlash.gap}`,
+          `${Math.round(arcFlash.workingDistance)}`,
+          arcFlash.incidentEnergy.toFixed(2),
+          ArcFlashStudy.formatFeetInches(arcFlash.arcFlashBoundary),
+          bus.label.ppeCategory === null ? 'DANGER' : `${bus.label.ppeCategory}`
+        ];
+      }),
+      styles: { fontSize: 7 },
+      headStyles: { fillColor: [44, 62, 80] },
+      didParseCell: (data: any) => {
+        if (data.section === 'body' && data.column.index === 13 && data.cell.raw === 'DANGER') {
+          data.cell.styles.textColor = [200, 16, 46];
+          data.cell.styles.fontStyle = 'bold';
+        }
+      }
+    });
+
+    let y = (pdf as any).lastAutoTable.finalY + 10;
+    const notes = [
+      'Bolted fault currents are symmetrical rms values from the utility and generator sources through the one-line, including induction motor contribution.',
+      'Arc duration is the protective device clearing time at the arcing current, evaluated at both the full and the reduced (variation corrected) arcing current; the higher incident energy governs. Durations are limited to 2 s.',
+      'Buses above 40 cal/cm² have no PPE category; work must be performed de-energized.',
+      ...study.warnings
+    ];
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Notes', 15, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    notes.forEach(note => {
+      const lines = pdf.splitTextToSize(`- ${note}`, pageWidth - 30);
+      y += 5;
+      if (y + lines.length * 4 > pdf.internal.pageSize.getHeight() - 10) {
+        pdf.addPage();
+        y = 20;
+      }
+      pdf.text(lines, 15, y);
+      y += (lines.length - 1) * 4;
+    });
+
+    return pdf;
+  }
+}
@@ -0,0 +1,136 @@
+// Arc-Flash Study
+// Runs the IEEE 1584-2018 model at every bus of the one-line through
+// ShortCircuitAnalyzer and collects NFPA 70E 130.5(H) label data: nominal voltage,
+// arc-flash boundary, incident energy at the working distance, PPE category and
+// the Table 130.4(E)(a) shock approach boundaries.
+
+import {
+  ElectricalBus,
+  ResolvedBusEquipment,
+  ShortCircuitAnalyzer,
+  ShortCircuitResult
+} from '../short-circuit-analysis';
+
+export interface ShockApproachBoundaries {
+  limitedMovable: string; // Exposed movable conductor
+  limitedFixed: string; // Exposed fixed circuit part
+  restricted: string;
+}
+
+export interface ArcFlashLabel {
+  signalWord: 'DANGER' | 'WARNING'; // DANGER above 40 cal/cm²
+  equipmentName: string;
+  nominalVoltage: string;
+  incidentEnergy: number; // cal/cm²
+  workingDistance: number; // inches
+  arcFlashBoundary: number; // inches
+  ppeCategory: 0 | 1 | 2 | 3 | 4 | null; // null when no PPE category applies (> 40 cal/cm²)
+  ppeRequired: string;
+  shockBoundaries: ShockApproachBoundaries;
+  protectiveDevice: string;
+  studyDate: string;
+  projectName: string;
+}
+
+export interface ArcFlashStudyBus {
+  busId: string;
+  busName: string;
+  voltage: number;
+  path: string[]; // Bus names from the source down to this bus
+  equipment: ResolvedBusEquipment;
+  protectiveDevice: string | null;
+  result: ShortCircuitResult;
+  label: ArcFlashLabel;
+}
+
+export interface ArcFlashStudyOptions {
+  projectName?: string;
+  studyDate?: Date;
+}
+
+export interface ArcFlashStudyResult {
+  projectName: string;
+  studyDate: string; // ISO date
+  buses: ArcFlashStudyBus[];
+  maxIncidentEnergy: number; // cal/cm²
+  dangerBuses: string[]; // Bus IDs above 40 cal/cm², no energized work permitted
+  warnings: string[];
+}
+
+export class ArcFlashStudy {
+
+  static run(system: ElectricalBus[], options: ArcFlashStudyOptions = {}): ArcFlashStudyResult {
+    const projectName = options.projectName || 'Vibelux Facility';
+    const studyDate = (options.studyDate || new Date()).toISOString().split('T')[0];
+    const network = ShortCircuitAnalyzer.buildNetwork(system);
+    const results = ShortCircuitAnalyzer.analyzeAll(system);
+    const names = new Map(system.map(bus => [bus.id, bus.name]));
+    const warnings: string[] = [];
+
+    const buses = results.map(result => {
+      const bus = system.find(b => b.id === result.bus)!;
+      const equipment = ShortCircuitAnalyzer.resolveEquipment(bus.voltage, bus.equipment);
+      const arcFlash = result.arcFlash;
+      const danger = arcFlash.incidentEnergy > 40;
+
+      arcFlash.warnings.forEach(warning => warnings.push(`${bus.name}: ${warning}`));
+
+      const label: ArcFlashLabel = {
+        signalWord: danger ? 'DANGER' : 'WARNING',
+        equipmentName: bus.name,
+        nominalVoltage: `${bus.voltage} VAC`,
+        incidentEnergy: arcFlash.incidentEnergy,
+        workingDistance: arcFlash.workingDistance,
+        arcFlashBoundary: arcFlash.arcFlashBoundary,
+        ppeCategory: danger ? null : arcFlash.hazardCategory,
+        ppeRequired: danger ? 'No PPE category - de-energize before work' : arcFlash.ppeRequired,
+        shockBoundaries: this.shockBoundaries(bus.voltage),
+        protectiveDevice: bus.protectiveDevice?.name || 'Not specified',
+        studyDate,
+        projectName
+      };
+
+      return {
+        busId: bus.id,
+        busName: bus.name,
+        voltage: bus.voltage,
+        path: ShortCircuitAnalyzer.pathToSource(network, bus.id).map(id => names.get(id) || id),
+        equipment,
+        protectiveDevice: bus.protectiveDevice?.name || null,
+        result,
+        label
+      };
+    });
+
+    return {
+      projectName,
+      studyDate,
+      buses,
+      maxIncidentEnergy: Math.max(0, ...buses.map(b => b.result.arcFlash.incidentEnergy)),
+      dangerBuses: buses.filter(b => b.label.signalWord === 'DANGER').map(b => b.busId),
+      warnings
+    };
+  }
+
+  // NFPA 70E Table 130.4(E)(a), alternating current
+  static shockBoundaries(voltage: number): ShockApproachBoundaries {
+    if (voltage < 50) {
+      return { limitedMovable: 'Not specified', limitedFixed: 'Not specified', restricted: 'Not specified' };
+    }
+    if (voltage <= 150) {
+      return { limitedMovable: '10 ft 0 in', limitedFixed: '3 ft 6 in', restricted: 'Avoid contact' };
+    }
+    if (voltage <= 750) {
+      return { limitedMovable: '10 ft 0 in', limitedFixed: '3 ft 6 in', restricted: '1 ft 0 in' };
+    }
+    if (voltage <= 15000) {
+      return { limitedMovable: '10 ft 0 in', limitedFixed: '5 ft 0 in', restricted: '2 ft 2 in' };
+    }
+    return { limitedMovable: '10 ft 0 in', limitedFixed: '6 ft 0 in', restricted: '2 ft 7 in' }; // 15.1 kV - 36 kV
+  }
+
+  static formatFeetInches(inches: number): string {
+    const rounded = Math.ceil(inches);
+    return `${Math.floor(rounded / 12)} ft ${rounded % 12} in`;
+  }
+}
@@ -0,0 +1,207 @@
+// NEC Conductor Ampacity
+// Table 310.16 allowable ampacities with 310.15(B) ambient temperature correction,
+// 310.15(C)(1) adjustment for more than three current-carrying conductors,
+// 110.14(C) termination limits and 240.4 overcurrent protection rules.
+// Based on NFPA 70 (2020/2023), not more than three current-carrying conductors
+// in raceway, cable or earth, based on 30°C ambient.
+
+export type ConductorMaterial = 'copper' | 'aluminum';
+export type InsulationRating = 60 | 75 | 90; // °C column of Table 310.16
+
+// Sizes in ascending order; kcmil sizes without suffix
+export const CONDUCTOR_SIZES = [
+  '14', '12', '10', '8', '6', '4', '3', '2', '1', '1/0', '2/0', '3/0', '4/0',
+  '250', '300', '350', '400', '500', '600', '700', '750', '800', '900', '1000',
+  '1250', '1500', '1750', '2000'
+] as const;
+
+export type ConductorSize = typeof CONDUCTOR_SIZES[number];
+
+// Table 310.16 [60°C, 75°C, 90°C]
+const TABLE_310_16: Record<ConductorMaterial, Partial<Record<ConductorSize, [number, number, number]>>> = {
+  copper: {
+    '14': [15, 20, 25], '12': [20, 25, 30], '10': [30, 35, 40], '8': [40, 50, 55],
+    '6': [55, 65, 75], '4': [70, 85, 95], '3': [85, 100, 115], '2': [95, 115, 130],
+    '1': [110, 130, 145], '1/0': [125, 150, 170], '2/0': [145, 175, 195],
+    '3/0': [165, 200, 225], '4/0': [195, 230, 260], '250': [215, 255, 290],
+    '300': [240, 285, 320], '350': [260, 310, 350], '400': [280, 335, 380],
+    '500': [320, 380, 430], '600': [350, 420, 475], '700': [385, 460, 520],
+    '750': [400, 475, 535], '800': [410, 490, 555], '900': [435, 520, 585],
+    '1000': [455, 545, 615], '1250': [495, 590, 665], '1500': [525, 625, 705],
+    '1750': [545, 650, 735], '2000': [555, 665, 750]
+  },
+  aluminum: {
+    '12': [15, 20, 25], '10': [25, 30, 35], '8': [35, 40, 45], '6': [40, 50, 55],
+    '4': [55, 65, 75], '3': [65, 75, 85], '2': [75, 90, 100], '1': [85, 100, 115],
+    '1/0': [100, 120, 135], '2/0': [115, 135, 150], '3/0': [130, 155, 175],
+    '4/0': [150, 180, 205], '250': [170, 205, 230], '300': [195, 230, 260],
+    '350': [210, 250, 280], '400': [225, 270, 305], '500': [260, 310, 350],
+    '600': [285, 340, 385], '700': [315, 375, 425], '750': [320, 385, 435],
+    '800': [330, 395, 445], '900': [355, 425, 480], '1000': [375, 445, 500],
+    '1250': [405, 485, 545], '1500': [435, 520, 585], '1750': [455, 545, 615],
+    '2000': [470, 560, 630]
+  }
+};
+
+// Table 310.15(B)(1): [upper ambient °C, 60°C, 75°C, 90°C]; 0 means not permitted
+const AMBIENT_CORRECTION: Array<[number, number, number, number]> = [
+  [10, 1.29, 1.20, 1.15],
+  [15, 1.22, 1.15, 1.12],
+  [20, 1.15, 1.11, 1.08],
+  [25, 1.08, 1.05, 1.04],
+  [30, 1.00, 1.00, 1.00],
+  [35, 0.91, 0.94, 0.96],
+  [40, 0.82, 0.88, 0.91],
+  [45, 0.71, 0.82, 0.87],
+  [50, 0.58, 0.75, 0.82],
+  [55, 0.41, 0.67, 0.76],
+  [60, 0, 0.58, 0.71],
+  [65, 0, 0.47, 0.65],
+  [70, 0, 0.33, 0.58],
+  [75, 0, 0, 0.50],
+  [80, 0, 0, 0.41],
+  [85, 0, 0, 0.29]
+];
+
+// Table 310.15(C)(1): [max current-carrying conductors, percent of table value]
+const CONDUCTOR_ADJUSTMENT: Array<[number, number]> = [
+  [3, 1.00],
+  [6, 0.80],
+  [9, 0.70],
+  [20, 0.50],
+  [30, 0.45],
+  [40, 0.40],
+  [Infinity, 0.35]
+];
+
+// 240.4(D) small conductor overcurrent protection limits
+const SMALL_CONDUCTOR_OCPD: Record<ConductorMaterial, Partial<Record<ConductorSize, number>>> = {
+  copper: { '14': 15, '12': 20, '10': 30 },
+  aluminum: { '12': 15, '10': 25 }
+};
+
+// 240.6(A) standard ampere ratings for fuses and inverse time circuit breakers
+export const STANDARD_OCPD_RATINGS = [
+  15, 20, 25, 30, 35, 40, 45, 50, 60, 70, 80, 90, 100, 110, 125, 150, 175, 200,
+  225, 250, 300, 350, 400, 450, 500, 600, 700, 800, 1000, 1200, 1600, 2000,
+  2500, 3000, 4000, 5000, 6000
+];
+
+export interface ConductorConditions {
+  material?: ConductorMaterial; // Default copper
+  insulationRating?: InsulationRating; // Default 90°C (THHN/THWN-2)
+  terminationRating?: 60 | 75; // 110.14(C); default 75°C
+  ambientTemperature?: number; // °C, default 30
+  currentCarryingConductors?: number; // In the raceway or cable, default 3
+}
+
+export interface ConductorAmpacity {
+  size: ConductorSize;
+  material: ConductorMaterial;
+  insulationRating: InsulationRating;
+  tableAmpacity: number; // Table 310.16 at the insulation rating
+  temperatureCorrection: number;
+  adjustmentFactor: number;
+  adjustedAmpacity: number; // After correction and adjustment
+  terminationAmpacity: number; // Table 310.16 at the termination rating
+  allowableAmpacity: number; // Lesser of adjusted and termination ampacity
+  maxOvercurrentDevice: number; // 240.4(B)/(D)
+}
+
+export interface ConductorRequirement extends ConductorConditions {
+  continuousAmps: number;
+  noncontinuousAmps?: number;
+  overcurrentDevice?: number; // Rating the conductor must be protected by
+  parallelSets?: number; // 310.10(G), 1/0 and larger only
+}
+
+export class NECAmpacityCalculator {
+
+  static tableAmpacity(size: ConductorSize, material: ConductorMaterial, rating: InsulationRating): number | null {
+    const row = TABLE_310_16[material][size];
+    if (!row) return null;
+    return row[rating === 60 ? 0 : rating === 75 ? 1 : 2];
+  }
+
+  // Table 310.15(B)(1); 0 when the insulation cannot be used at that ambient
+  static temperatureCorrectionFactor(ambientTemperature: number, rating: InsulationRating): number {
+    const row = AMBIENT_CORRECTION.find(([upper]) => Math.ceil(ambientTemperature) <= upper);
+    if (!row) return 0;
+    return row[rating === 60 ? 1 : rating === 75 ? 2 : 3];
+  }
+
+  // Table 310.15(C)(1)
+  static adjustmentFactor(currentCarryingConductors: number): number {
+    return CONDUCTOR_ADJUSTMENT.find(([max]) => currentCarryingConductors <= max)![1];
+  }
+
+  static nextStandardOCPD(amps: number): number {
+    return STANDARD_OCPD_RATINGS.find(rating => rating >= amps - 1e-9)
+      ?? STANDARD_OCPD_RATINGS[STANDARD_OCPD_RATINGS.length - 1];
+  }
+
+  static calculateAmpacity(size: ConductorSize, conditions: ConductorConditions = {}): ConductorAmpacity | null {
+    const material = conditions.material || 'copper';
+    const insulationRating = conditions.insulationRating || 90;
+    const terminationRating = Math.min(conditions.terminationRating || 75, insulationRating) as InsulationRating;
+
+    const tableAmpacity = this.tableAmpacity(size, material, insulationRating);
+    const terminationAmpacity = this.tableAmpacity(size, material, terminationRating);
+    if (tableAmpacity === null || terminationAmpacity === null) return null;
+
+    const temperatureCorrection = this.temperatureCorrectionFactor(conditions.ambientTemperature ?? 30, insulationRating);
+    const adjustmentFactor = this.adjustmentFactor(conditions.currentCarryingConductors ?? 3);
+    const adjustedAmpacity = tableAmpacity * temperatureCorrection * adjustmentFactor;
+    const allowableAmpacity = Math.min(adjustedAmpacity, terminationAmpacity);
+
+    return {
+      size,
+      material,
+      insulationRating,
+      tableAmpacity,
+      temperatureCorrection,
+      adjustmentFactor,
+      adjustedAmpacity,
+      terminationAmpacity,
+      allowableAmpacity,
+      maxOvercurrentDevice: this.maxOvercurrentDevice(allowableAmpacity, size, material)
+    };
+  }
+
+  // 240.4(B): next standard size up is permitted to 800 A; 240.4(D) caps small conductors
+  static maxOvercurrentDevice(ampacity: number, size: ConductorSize, material: ConductorMaterial = 'copper'): number {
+    const rating = ampacity <= 800
+      ? this.nextStandardOCPD(ampacity)
+      : [...STANDARD_OCPD_RATINGS].reverse().find(r => r <= ampacity) || 0;
+    const smallLimit = SMALL_CONDUCTOR_OCPD[material][size];
+    return smallLimit !== undefined ? Math.min(rating, smallLimit) : rating;
+  }
+
+  // Smallest conductor that satisfies 210.19(A)/215.2(A)/230.42(A), 110.14(C) and 240.4
+  static selectConductor(requirement: ConductorRequirement): ConductorAmpacity | null {
+    const sets = requirement.parallelSets || 1;
+    const continuous = requirement.continuousAmps / sets;
+    const noncontinuous = (requirement.noncontinuousAmps || 0) / sets;
+    const ocpd = requirement.overcurrentDevice;
+
+    for (const size of CONDUCTOR_SIZES) {
+      if (sets > 1 && CONDUCTOR_SIZES.indexOf(size) < CONDUCTOR_SIZES.indexOf('1/0')) continue;
+
+      const ampacity = this.calculateAmpacity(size, requirement);
+      if (!ampacity) continue;
+
+      // 125% of continuous load against the terminations, full load after derating
+      if (ampacity.terminationAmpacity < continuous * 1.25 + noncontinuous) continue;
+      if (ampacity.adjustedAmpacity < continuous + noncontinuous) continue;
+      if (ocpd !== undefined && this.maxOvercurrentDevice(ampacity.allowableAmpacity * sets, size, ampacity.material) < ocpd) continue;
+
+      return ampacity;
+    }
+
+    return null;
+  }
+
+  static formatSize(size: ConductorSize): string {
+    return Number(size) >= 250 ? `${size} kcmil` : `${size} AWG`;
+  }
+}
@@ -1,6 +1,10 @@
 // NEC Code Compliance Calculations for Electrical Design
 // Based on NFPA 70 National Electrical Code
 
+import { ConductorConditions, ConductorSize, InsulationRating, NECAmpacityCalculator } from './nec-ampacity';
+import { ServiceLoadCalculation } from './nec-load-calculation';
+import { PanelSchedule } from './panel-schedule';
+
 export interface NECCompliance {
   article: string;
   section: string;
@@ -148,32 +152,107 @@ export class NECComplianceChecker {
     terminalRating: number = 75 // °C
   ): { correctedAmpacity: number; temperatureCorrection: number; adjustmentFactor: number } {
     
-    // Temperature correction factors for 75°C conductors (NEC Table 310.15(B)(1))
-    const tempCorrectionFactors: Record<number, number> = {
-      21: 1.08, 22: 1.08, 23: 1.08, 24: 1.08, 25: 1.08,
-      26: 1.04, 27: 1.04, 28: 1.04, 29: 1.04, 30: 1.00,
-      31: 0.96, 32: 0.96, 33: 0.96, 34: 0.96, 35: 0.91,
-      36: 0.87, 37: 0.87, 38: 0.87, 39: 0.87, 40: 0.82,
-      41: 0.76, 42: 0.76, 43: 0.76, 44: 0.76, 45: 0.71,
-      46: 0.65, 47: 0.65, 48: 0.65, 49: 0.65, 50: 0.58
-    };
-
-    // Adjustment factors for number of conductors (NEC Table 310.15(B)(3)(a))
-    const adjustmentFactors: Record<number, number> = {
-      3: 1.00, 4: 0.80, 5: 0.80, 6: 0.80,
-      7: 0.70, 8: 0.70, 9: 0.70,
-      10: 0.50, 11: 0.50, 12: 0.50, 13: 0.50, 14: 0.50, 15: 0.50,
-      16: 0.45, 17: 0.45, 18: 0.45, 19: 0.45, 20: 0.45
-    };
-
-    const temperatureCorrection = tempCorrectionFactors[Math.min(50, Math.max(21, ambientTemp))] || 0.58;
-    const adjustmentFactor = adjustmentFactors[Math.min(20, conductorsInRaceway)] || 0.45;
+    // Table 310.15(B)(1) for the insulation column, Table 310.15(C)(1) for conductor count
+    const temperatureCorrection = NECAmpacityCalculator.temperatureCorrectionFactor(
+      ambientTemp,
+      terminalRating as InsulationRating
+    );
+    const adjustmentFactor = NECAmpacityCalculator.adjustmentFactor(conductorsInRaceway);
     
     const correctedAmpacity = baseAmpacity * temperatureCorrection * adjustmentFactor;
     
     return { correctedAmpacity, temperatureCorrection, adjustmentFactor };
   }
 
+  // NEC 310.16 / 310.15 / 240.4 - Conductor Ampacity and Protection
+  static checkConductorAmpacity(
+    equipment: ElectricalEquipment,
+    size: ConductorSize,
+    overcurrentDevice: number,
+    conditions: ConductorConditions = {}
+  ): NECCompliance {
+    const ampacity = NECAmpacityCalculator.calculateAmpacity(size, conditions);
+    if (!ampacity) {
+      return {
+        article: "310",
+        section: "310.16",
+        requirement: `${NECAmpacityCalculator.formatSize(size)} ${conditions.material || 'copper'} is not listed in Table 310.16`,
+        isCompliant: false
+      };
+    }
+
+    // Motor branch conductors are sized at 125% of FLC like continuous loads (430.22)
+    const isContinuous = equipment.isContinuous || equipment.isMotor;
+    const continuous = isContinuous ? equipment.current : 0;
+    const noncontinuous = isContinuous ? 0 : equipment.current;
+    const terminationRequired = continuous * 1.25 + noncontinuous;
+    const issues: string[] = [];
+
+    if (ampacity.terminationAmpacity < terminationRequired) {
+      issues.push(`${ampacity.terminationAmpacity}A at the terminations is below the ${terminationRequired.toFixed(1)}A required (110.14(C), 210.19(A))`);
+    }
+    if (ampacity.adjustedAmpacity < equipment.current) {
+      issues.push(`${ampacity.adjustedAmpacity.toFixed(1)}A after correction and adjustment is below the ${equipment.current.toFixed(1)}A load (310.15)`);
+    }
+    if (overcurrentDevice > ampacity.maxOvercurrentDevice) {
+      issues.push(`${overcurrentDevice}A overcurrent device exceeds the ${ampacity.maxOvercurrentDevice}A permitted for this conductor (240.4)`);
+    }
+
+    return {
+      article: "310",
+      section: "310.16",
+      requirement: `${NECAmpacityCalculator.formatSize(size)} rated ${ampacity.tableAmpacity}A at ${ampacity.insulationRating}°C, ` +
+        `${ampacity.allowableAmpacity.toFixed(1)}A allowable (×${ampacity.temperatureCorrection} ambient, ×${ampacity.adjustmentFactor} fill)`,
+      isCompliant: issues.length === 0,
+      notes: issues.length > 0 ? issues.join('; ') : undefined
+    };
+  }
+
+  // NEC 230.42 / 230.79 - Service Conductors and Disconnect Rating
+  static checkServiceLoad(calculation: ServiceLoadCalculation, serviceRating: number): NECCompliance {
+    const isCompliant = serviceRating >= calculation.calculatedAmps && calculation.conductor !== null;
+
+    return {
+      article: "230",
+      section: "230.42, 230.79",
+      requirement: `Service rating must be ≥ ${calculation.calculatedAmps.toFixed(0)}A calculated per Article 220`,
+      isCompliant,
+      notes: calculation.conductor
+        ? `${calculation.parallelSets} set(s) of ${NECAmpacityCalculator.formatSize(calculation.conductor.size)} per phase on a ${calculation.overcurrentDevice}A overcurrent device`
+        : "No Table 310.16 conductor satisfies the calculated load"
+    };
+  }
+
+  // NEC 408.30 / 408.36 - Panelboard Rating and Loading
+  static checkPanelSchedule(schedule: PanelSchedule): NECCompliance[] {
+    const maxPhaseAmps = Math.max(...Object.values(schedule.phaseLoading).map(phase => phase!.amps));
+    const rating = schedule.mainBreaker || schedule.busRating;
+
+    return [
+      {
+        article: "408",
+        section: "408.30",
+        requirement: `Panelboard rating must be ≥ ${maxPhaseAmps.toFixed(1)}A calculated phase load`,
+        isCompliant: rating >= maxPhaseAmps && (!schedule.mainBreaker || schedule.mainBreaker <= schedule.busRating),
+        notes: `${schedule.spareCapacityAmps.toFixed(1)}A (${schedule.spareCapacityPercent.toFixed(0)}%) spare capacity`
+      },
+      {
+        article: "408",
+        section: "408.36",
+        requirement: `All circuits must have an overcurrent device position (${schedule.spaces} spaces)`,
+        isCompliant: schedule.unassigned.length === 0,
+        notes: schedule.unassigned.length > 0 ? `No space for: ${schedule.unassigned.join(', ')}` : undefined
+      },
+      {
+        article: "210",
+        section: "210.11(B)",
+        requirement: "Load shall be evenly proportioned among branch circuits and phases",
+        isCompliant: schedule.imbalancePercent <= 10,
+        notes: `Phase imbalance ${schedule.imbalancePercent.toFixed(1)}%`
+      }
+    ];
+  }
+
   // NEC Chapter 9 - Conduit Fill Calculations
   static calculateConduitFill(wireGauge: string, wireCount: number, conduitType: string = "EMT"): {
     conduitSize: string;
@@ -297,11 +376,25 @@ export class NECComplianceChecker {
     // GFCI requirements
     checks.push(this.checkGFCIRequirements(equipment));
     
+    // Size the branch circuit per 210.20(A), 240.6(A) and Table 310.16
+    const continuousFactor = equipment.isContinuous || equipment.isMotor ? 1.25 : 1.0;
+    const overcurrentDevice = NECAmpacityCalculator.nextStandardOCPD(equipment.current * continuousFactor);
+    const conductor = NECAmpacityCalculator.selectConductor({
+      continuousAmps: continuousFactor > 1 ? equipment.current : 0,
+      noncontinuousAmps: continuousFactor > 1 ? 0 : equipment.current,
+      overcurrentDevice
+    });
+    const wireGauge = conductor ? NECAmpacityCalculator.formatSize(conductor.size) : "12 AWG";
+
+    if (conductor) {
+      checks.push(this.checkConductorAmpacity(equipment, conductor.size, overcurrentDevice));
+    }
+
     // Voltage drop check
     const voltageDropCheck = this.calculateVoltageDropPercentage(
       equipment.current,
       circuitDistance,
-      "12 AWG", // Default wire size
+      wireGauge,
       equipment.voltage,
       equipment.phases
     );
@@ -0,0 +1,201 @@
+// NEC Article 220 Service and Feeder Load Calculation
+// Non-dwelling standard method: 220.12 general lighting unit loads, 220.42 lighting
+// demand factors, 220.44 receptacle demand, 220.50/430.24 motors, 220.60
+// noncoincident heating/cooling, and 125% of continuous loads per 215.2(A)(1)
+// and 230.42(A)(1). Conductors are sized with Table 310.16 via NECAmpacityCalculator.
+
+import {
+  CONDUCTOR_SIZES,
+  ConductorAmpacity,
+  ConductorConditions,
+  ConductorSize,
+  NECAmpacityCalculator
+} from './nec-ampacity';
+
+export type NECLoadCategory =
+  | 'general-lighting'
+  | 'horticultural-lighting'
+  | 'receptacle'
+  | 'motor'
+  | 'heating'
+  | 'cooling'
+  | 'fixed-equipment';
+
+export type NECOccupancy = 'warehouse' | 'manufacturing' | 'office' | 'retail';
+
+// Table 220.12 general lighting unit loads (VA/ft²)
+export const GENERAL_LIGHTING_UNIT_LOADS: Record<NECOccupancy, number> = {
+  warehouse: 1.2,
+  manufacturing: 2.2,
+  office: 1.3,
+  retail: 1.9
+};
+
+export interface NECLoad {
+  id: string;
+  description: string;
+  category: NECLoadCategory;
+  va: number;
+  continuous?: boolean; // Maximum current for 3 hours or more (Article 100)
+}
+
+export interface ServiceLoadOptions extends ConductorConditions {
+  voltage: number; // Line-to-line
+  phases: 1 | 3;
+  occupancy?: NECOccupancy; // Default warehouse
+  floorArea?: number; // ft², enables the 220.12 minimum
+  futureGrowth?: number; // Fraction of calculated load reserved, e.g. 0.25
+  parallelSets?: number; // Minimum conductor sets
+  maxConductorSize?: ConductorSize; // Parallel above this size, default 500 kcmil
+}
+
+export interface NECLoadLine {
+  description: string;
+  article: string;
+  connectedVA: number;
+  demandFactor: number; // demandVA / connectedVA
+  demandVA: number;
+}
+
+export interface ServiceLoadCalculation {
+  lines: NECLoadLine[];
+  connectedVA: number;
+  demandVA: number;
+  continuousAdderVA: number; // 25% of continuous demand
+  largestMotorAdderVA: number; // 25% of the largest motor, 430.24
+  futureGrowthVA: number;
+  calculatedVA: number;
+  voltage: number;
+  phases: 1 | 3;
+  calculatedAmps: number;
+  overcurrentDevice: number; // 240.6(A) standard rating
+  parallelSets: number;
+  conductor: ConductorAmpacity | null;
+}
+
+export class NECLoadCalculator {
+
+  // Table 220.42 lighting demand factors for non-dwelling occupancies
+  static lightingDemand(va: number, occupancy: NECOccupancy): number {
+    if (occupancy === 'warehouse') {
+      return Math.min(va, 12500) + Math.max(0, va - 12500) * 0.5;
+    }
+    return va;
+  }
+
+  // 220.44 receptacle loads: first 10 kVA at 100%, remainder at 50%
+  static receptacleDemand(va: number): number {
+    return Math.min(va, 10000) + Math.max(0, va - 10000) * 0.5;
+  }
+
+  static lineCurrent(va: number, voltage: number, phases: 1 | 3): number {
+    return va / (voltage * (phases === 3 ? Math.sqrt(3) : 1));
+  }
+
+  static calculateServiceLoad(loads: NECLoad[], options: ServiceLoadOptions): ServiceLoadCalculation {
+    const occupancy = options.occupancy || 'warehouse';
+    const sum = (category: NECLoadCategory, filter: (load: NECLoad) => boolean = () => true) =>
+      loads.filter(load => load.category === category && filter(load)).reduce((total, load) => total + load.va, 0);
+    const isContinuous = (load: NECLoad) => !!load.continuous;
+
+    const lines: NECLoadLine[] = [];
+    let continuousVA = 0;
+    const addLine = (description: string, article: string, connectedVA: number, demandVA: number, continuousShare = 0) => {
+      if (connectedVA <= 0) return;
+      lines.push({ description, article, connectedVA, demandFactor: demandVA / connectedVA, demandVA });
+      continuousVA += demandVA * continuousShare;
+    };
+
+    // General lighting, never less than the 220.12 unit load for the floor area
+    const actualLighting = sum('general-lighting');
+    const minimumLighting = options.floorArea ? options.floorArea * GENERAL_LIGHTING_UNIT_LOADS[occupancy] : 0;
+    const generalLighting = Math.max(actualLighting, minimumLighting);
+    addLine(
+      actualLighting >= minimumLighting ? 'General lighting' : `General lighting (${GENERAL_LIGHTING_UNIT_LOADS[occupancy]} VA/ft² minimum)`,
+      '220.12, 220.42',
+      generalLighting,
+      this.lightingDemand(generalLighting, occupancy),
+      1
+    );
+
+    // Grow lighting is specific equipment at 100%, continuous for any photoperiod over 3 hours
+    const horticultural = sum('horticultural-lighting');
+    addLine(
+      'Horticultural lighting',
+      '220.14(A)',
+      horticultural,
+      horticultural,
+      horticultural > 0 ? sum('horticultural-lighting', isContinuous) / horticultural : 0
+    );
+
+    const receptacles = sum('receptacle');
+    addLine('Receptacles', '220.44', receptacles, this.receptacleDemand(receptacles));
+
+    // 220.60: only the larger of the noncoincident heating and cooling loads. Fixed
+    // space heating is continuous (424.4(B)); compressors follow the motor rules (440.33).
+    const heating = sum('heating');
+    const cooling = sum('cooling');
+    const coolingGoverns = cooling >= heating;
+    addLine('Space heating', '220.51, 220.60', heating, coolingGoverns ? 0 : heating, 1);
+    addLine('Air conditioning and dehumidification', '220.14(C), 220.60', cooling, coolingGoverns ? cooling : 0);
+
+    const motors = sum('motor');
+    addLine('Motors (fans, pumps)', '220.50, 430.24', motors, motors);
+
+    const fixed = sum('fixed-equipment');
+    addLine('Fixed equipment', '220.14(A)', fixed, fixed, fixed > 0 ? sum('fixed-equipment', isContinuous) / fixed : 0);
+
+    // 430.24: 25% of the largest motor, counting compressors when cooling governs
+    const motorLoads = loads.filter(load => load.category === 'motor' || (coolingGoverns && load.category === 'cooling'));
+    const largestMotor = motorLoads.reduce((max, load) => Math.max(max, load.va), 0);
+    const largestMotorAdderVA = largestMotor * 0.25;
+
+    const connectedVA = loads.reduce((total, load) => total + load.va, 0);
+    const demandVA = lines.reduce((total, line) => total + line.demandVA, 0);
+    const continuousAdderVA = continuousVA * 0.25;
+    const futureGrowthVA = (demandVA + continuousAdderVA + largestMotorAdderVA) * (options.futureGrowth || 0);
+    const calculatedVA = demandVA + continuousAdderVA + largestMotorAdderVA + futureGrowthVA;
+
+    const calculatedAmps = this.lineCurrent(calculatedVA, options.voltage, options.phases);
+    const overcurrentDevice = NECAmpacityCalculator.nextStandardOCPD(calculatedAmps);
+
+    // selectConductor applies the 125% to continuous amps itself
+    const continuousAmps = this.lineCurrent(continuousVA, options.voltage, options.phases);
+    const noncontinuousAmps = this.lineCurrent(
+      demandVA - continuousVA + largestMotorAdderVA + futureGrowthVA,
+      options.voltage,
+      options.phases
+    );
+    const maxIndex = CONDUCTOR_SIZES.indexOf(options.maxConductorSize || '500');
+
+    let parallelSets = options.parallelSets || 1;
+    let conductor: ConductorAmpacity | null = null;
+    for (; parallelSets <= 12; parallelSets++) {
+      conductor = NECAmpacityCalculator.selectConductor({
+        ...options,
+        continuousAmps,
+        noncontinuousAmps,
+        overcurrentDevice,
+        parallelSets
+      });
+      if (conductor && CONDUCTOR_SIZES.indexOf(conductor.size) <= maxIndex) break;
+    }
+    if (parallelSets > 12) parallelSets = 12;
+
+    return {
+      lines,
+      connectedVA,
+      demandVA,
+      continuousAdderVA,
+      largestMotorAdderVA,
+      futureGrowthVA,
+      calculatedVA,
+      voltage: options.voltage,
+      phases: options.phases,
+      calculatedAmps,
+      overcurrentDevice,
+      parallelSets,
+      conductor
+    };
+  }
+}
@@ -0,0 +1,190 @@
+// Panelboard Schedules
+// Places branch circuits into panel positions so phase loading is balanced, sizes
+// breakers (240.6(A), 125% continuous per 210.20(A)) and branch conductors
+// (Table 310.16), and reports per-phase loading and spare capacity.
+//
+// Position numbering follows the usual panelboard layout: odd positions on the
+// left, even on the right, and each row of two positions sits on one phase bus
+// (A, B, C, A, ... for three-phase; A, B, A, ... for single-phase 3-wire).
+
+import { ConductorConditions, NECAmpacityCalculator } from './nec-ampacity';
+
+export type PanelPhase = 'A' | 'B' | 'C';
+
+export interface PanelCircuitInput {
+  id: string;
+  description: string;
+  loadVA: number;
+  poles: 1 | 2 | 3;
+  breaker?: number; // Amps; sized from the load when omitted
+  continuous?: boolean; // Default true (lighting and environmental equipment)
+}
+
+export interface PanelScheduleOptions extends ConductorConditions {
+  panelName: string;
+  voltage: number; // Line-to-line, e.g. 480, 208, 240
+  phases: 1 | 3;
+  busRating: number; // Amps
+  mainBreaker?: number; // Amps; main lugs only when omitted
+  spaces?: number; // Default 42
+}
+
+export interface ScheduledCircuit {
+  circuitId: string;
+  description: string;
+  positions: number[];
+  phases: PanelPhase[];
+  poles: 1 | 2 | 3;
+  breaker: number;
+  loadVA: number;
+  amps: number;
+  conductor: string | null; // e.g. '12 AWG Cu'; null when no conductor fits the breaker
+  continuous: boolean;
+}
+
+export interface PhaseLoading {
+  connectedVA: number;
+  calculatedVA: number; // Continuous loads at 125%
+  amps: number; // Calculated load on this phase bus
+}
+
+export interface PanelSchedule {
+  panelName: string;
+  voltage: number;
+  phaseVoltage: number;
+  phases: 1 | 3;
+  busRating: number;
+  mainBreaker?: number;
+  spaces: number;
+  circuits: ScheduledCircuit[];
+  unassigned: string[]; // Circuit IDs that did not fit the remaining spaces
+  phaseLoading: Partial<Record<PanelPhase, PhaseLoading>>;
+  connectedVA: number;
+  calculatedVA: number;
+  imbalancePercent: number; // Maximum deviation from the average phase current
+  spacesUsed: number;
+  spacesRemaining: number;
+  spareCapacityAmps: number; // Against the main breaker, or the bus for main lugs only
+  spareCapacityPercent: number;
+}
+
+export class PanelScheduleBuilder {
+
+  static phaseAt(position: number, phases: 1 | 3): PanelPhase {
+    const row = Math.floor((position - 1) / 2);
+    return (['A', 'B', 'C'] as PanelPhase[])[row % (phases === 3 ? 3 : 2)];
+  }
+
+  // Voltage across a circuit with the given number of poles
+  static circuitVoltage(poles: 1 | 2 | 3, voltage: number, phases: 1 | 3): number {
+    if (phases === 1) return poles === 1 ? voltage / 2 : voltage;
+    if (poles === 1) return voltage / Math.sqrt(3);
+    return poles === 2 ? voltage : voltage * Math.sqrt(3);
+  }
+
+  static build(inputs: PanelCircuitInput[], options: PanelScheduleOptions): PanelSchedule {
+    const spaces = options.spaces || 42;
+    const activePhases: PanelPhase[] = options.phases === 3 ? ['A', 'B', 'C'] : ['A', 'B'];
+    const phaseVoltage = options.phases === 3 ? options.voltage / Math.sqrt(3) : options.voltage / 2;
+
+    const occupied = new Set<number>();
+    const calculated: Record<PanelPhase, number> = { A: 0, B: 0, C: 0 };
+    const connected: Record<PanelPhase, number> = { A: 0, B: 0, C: 0 };
+    const circuits: ScheduledCircuit[] = [];
+    const unassigned: string[] = [];
+
+    // Largest multi-pole circuits first, then greedy placement on the lightest phases
+    const ordered = [...inputs].sort((a, b) => b.poles - a.poles || b.loadVA - a.loadVA);
+
+    ordered.forEach(input => {
+      const continuous = input.continuous !== false;
+      const perPoleCalculated = (input.loadVA * (continuous ? 1.25 : 1)) / input.poles;
+
+      let best: { positions: number[]; score: number } | null = null;
+      if (input.poles <= activePhases.length) {
+        for (let start = 1; start + 2 * (input.poles - 1) <= spaces; start++) {
+          const positions = Array.from({ length: input.poles }, (_, i) => start + 2 * i);
+          if (positions.some(p => occupied.has(p))) continue;
+
+          // Sum of squared phase loads after placement; lower is better balanced
+          const trial = { ...calculated };
+          positions.forEach(p => { trial[this.phaseAt(p, options.phases)] += perPoleCalculated; });
+          const score = activePhases.reduce((total, phase) => total + trial[phase] ** 2, 0);
+          if (!best || score < best.score - 1e-6) best = { positions, score };
+        }
+      }
+
+      if (!best) {
+        unassigned.push(input.id);
+        return;
+      }
+
+      const phases = best.positions.map(p => this.phaseAt(p, options.phases));
+      best.positions.forEach((p, i) => {
+        occupied.add(p);
+        calculated[phases[i]] += perPoleCalculated;
+        connected[phases[i]] += input.loadVA / input.poles;
+      });
+
+      const amps = input.loadVA / this.circuitVoltage(input.poles, options.voltage, options.phases);
+      const breaker = input.breaker || NECAmpacityCalculator.nextStandardOCPD(amps * (continuous ? 1.25 : 1));
+      const conductor = NECAmpacityCalculator.selectConductor({
+        ...options,
+        continuousAmps: continuous ? amps : 0,
+        noncontinuousAmps: continuous ? 0 : amps,
+        overcurrentDevice: breaker
+      });
+
+      circuits.push({
+        circuitId: input.id,
+        description: input.description,
+        positions: best.positions,
+        phases,
+        poles: input.poles,
+        breaker,
+        loadVA: input.loadVA,
+        amps,
+        conductor: conductor
+          ? `${NECAmpacityCalculator.formatSize(conductor.size)} ${conductor.material === 'copper' ? 'Cu' : 'Al'}`
+          : null,
+        continuous
+      });
+    });
+
+    circuits.sort((a, b) => a.positions[0] - b.positions[0]);
+
+    const phaseLoading: Partial<Record<PanelPhase, PhaseLoading>> = {};
+    activePhases.forEach(phase => {
+      phaseLoading[phase] = {
+        connectedVA: connected[phase],
+        calculatedVA: calculated[phase],
+        amps: calculated[phase] / phaseVoltage
+      };
+    });
+
+    const phaseAmps = activePhases.map(phase => phaseLoading[phase]!.amps);
+    const averageAmps = phaseAmps.reduce((a, b) => a + b, 0) / phaseAmps.length;
+    const maxAmps = Math.max(...phaseAmps);
+    const rating = options.mainBreaker || options.busRating;
+
+    return {
+      panelName: options.panelName,
+      voltage: options.voltage,
+      phaseVoltage,
+      phases: options.phases,
+      busRating: options.busRating,
+      mainBreaker: options.mainBreaker,
+      spaces,
+      circuits,
+      unassigned,
+      phaseLoading,
+      connectedVA: activePhases.reduce((total, phase) => total + connected[phase], 0),
+      calculatedVA: activePhases.reduce((total, phase) => total + calculated[phase], 0),
+      imbalancePercent: averageAmps > 0 ? ((maxAmps - averageAmps) / averageAmps) * 100 : 0,
+      spacesUsed: occupied.size,
+      spacesRemaining: spaces - occupied.size,
+      spareCapacityAmps: rating - maxAmps,
+      spareCapacityPercent: ((rating - maxAmps) / rating) * 100
+    };
+  }
+}
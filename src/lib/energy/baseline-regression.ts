@@ -0,0 +1,608 @@
+/**
+ * ASHRAE Guideline 14 / IPMVP Option C Baseline Regression
+ *
+ * Whole-facility baseline models fitted against outdoor temperature:
+ * - Change-point models (2P, 3P heating/cooling, 4P, 5P) for monthly or daily data
+ * - TOWT (time-of-week-and-temperature, LBNL) for daily or hourly interval data
+ *
+ * plus the G14 goodness-of-fit metrics (CV(RMSE), NMBE), the acceptance
+ * limits for each data granularity and the fractional savings uncertainty of
+ * the reporting-period savings.
+ */
+
+export type BaselineGranularity = 'monthly' | 'daily' | 'hourly';
+
+export type ChangePointModelType = '2P' | '3PH' | '3PC' | '4P' | '5P';
+
+export type BaselineModelType = ChangePointModelType | 'TOWT';
+
+export interface BaselineObservation {
+  timestamp: Date; // Start of the period the energy value covers
+  temperature: number; // Mean outdoor temperature over the period
+  energy: number; // Metered energy for the period, e.g. kWh
+}
+
+export interface BaselineModel {
+  type: BaselineModelType;
+  granularity: BaselineGranularity;
+  parameterCount: number;
+  coefficients: Record<string, number>;
+  predict(observation: Pick<BaselineObservation, 'timestamp' | 'temperature'>): number;
+}
+
+export interface BaselineModelStatistics {
+  observations: number;
+  parameterCount: number;
+  meanEnergy: number;
+  r2: number;
+  cvrmse: number; // %
+  nmbe: number; // %
+  autocorrelation: number; // Lag-1 autocorrelation of the residuals
+}
+
+export interface ChangePointOptions {
+  balancePointSteps?: number; // Grid resolution between the 10th and 90th temperature percentiles
+}
+
+export interface TOWTOptions {
+  temperatureKnots?: number[]; // Segment boundaries for the piecewise temperature term
+  utcOffsetHours?: number; // Facility clock used to bin the time of week
+}
+
+export interface OptionCReportOptions {
+  granularity: BaselineGranularity;
+  model?: 'auto' | BaselineModelType;
+  confidenceLevel?: number; // For the reported savings uncertainty, e.g. 0.9
+  changePoint?: ChangePointOptions;
+  towt?: TOWTOptions;
+}
+
+export interface OptionCAcceptance {
+  cvrmseLimit: number;
+  nmbeLimit: number;
+  maxFractionalUncertainty: number; // At 68 % confidence
+  cvrmsePass: boolean;
+  nmbePass: boolean;
+  uncertaintyPass: boolean;
+  passed: boolean;
+  reasons: string[];
+}
+
+export interface OptionCReport {
+  method: 'IPMVP Option C';
+  guideline: 'ASHRAE Guideline 14-2014';
+  granularity: BaselineGranularity;
+  model: {
+    type: BaselineModelType;
+    parameterCount: number;
+    coefficients: Record<string, number>;
+  };
+  baselinePeriod: { start: Date; end: Date; observations: number };
+  reportingPeriod: { start: Date; end: Date; observations: number };
+  statistics: BaselineModelStatistics;
+  acceptance: OptionCAcceptance;
+  savings: {
+    adjustedBaseline: number;
+    actual: number;
+    energySavings: number;
+    fractionalSavings: number;
+    uncertainty: number; // ± energy at confidenceLevel
+    fractionalUncertainty: number;
+    confidenceLevel: number;
+  };
+  generatedAt: Date;
+}
+
+// ASHRAE Guideline 14-2014 section 4.3.2.4. G14 gives no daily limits, so
+// daily models are held to the interval-data criteria.
+export const ASHRAE_G14_LIMITS: Record<BaselineGranularity, { cvrmse: number; nmbe: number }> = {
+  monthly: { cvrmse: 15, nmbe: 5 },
+  daily: { cvrmse: 30, nmbe: 10 },
+  hourly: { cvrmse: 30, nmbe: 10 },
+};
+
+// Savings uncertainty must be below 50 % of savings at 68 % confidence
+export const ASHRAE_G14_MAX_FRACTIONAL_UNCERTAINTY = 0.5;
+
+// LBNL TOWT default segment boundaries, °F
+export const TOWT_DEFAULT_KNOTS = [40, 55, 65, 80, 90];
+
+const CHANGE_POINT_TYPES: ChangePointModelType[] = ['2P', '3PH', '3PC', '4P', '5P'];
+
+/**
+ * Accumulates XᵀX and Xᵀy from sparse design rows so that the hourly TOWT fit
+ * (168 indicator columns) stays cheap
+ */
+class NormalEquations {
+  private xtx: number[][];
+  private xty: number[];
+
+  constructor(private size: number) {
+    this.xtx = Array.from({ length: size }, () => new Array(size).fill(0));
+    this.xty = new Array(size).fill(0);
+  }
+
+  add(row: Array<[number, number]>, y: number): void {
+    for (const [i, xi] of row) {
+      this.xty[i] += xi * y;
+      for (const [j, xj] of row) {
+        this.xtx[i][j] += xi * xj;
+      }
+    }
+  }
+
+  /**
+   * Gaussian elimination on the symmetric system. Columns that are empty or a
+   * linear combination of earlier ones (unused time-of-week bins, temperature
+   * segments without data) are pinned to zero.
+   */
+  solve(): { coefficients: number[]; active: boolean[] } {
+    const n = this.size;
+    const a = this.xtx.map(row => row.slice());
+    const b = this.xty.slice();
+    const active = new Array(n).fill(true);
+
+    for (let k = 0; k < n; k++) {
+      const scale = this.xtx[k][k];
+      if (!(scale > 0) || a[k][k] <= 1e-9 * scale) {
+        active[k] = false;
+        continue;
+      }
+      for (let i = k + 1; i < n; i++) {
+        const factor = a[i][k] / a[k][k];
+        if (factor === 0) continue;
+        for (let j = k; j < n; j++) {
+          a[i][j] -= factor * a[k][j];
+        }
+        b[i] -= factor * b[k];
+      }
+    }
+
+    const coefficients = new Array(n).fill(0);
+    for (let k = n - 1; k >= 0; k--) {
+      if (!active[k]) continue;
+      let sum = b[k];
+      for (let j = k + 1; j < n; j++) {
+        sum -= a[k][j] * coefficients[j];
+      }
+      coefficients[k] = sum / a[k][k];
+    }
+
+    return { coefficients, active };
+  }
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow || p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(p < pLow ? p : 1 - p));
+    const x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < pLow ? x : -x;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Student's t quantile by Cornish-Fisher expansion of the normal quantile
+ * (Abramowitz & Stegun 26.7.5), good to three decimals from 3 degrees of freedom
+ */
+export function studentTQuantile(p: number, degreesOfFreedom: number): number {
+  const z = normalQuantile(p);
+  const v = Math.max(1, degreesOfFreedom);
+  const z2 = z * z;
+  const g1 = (z2 + 1) * z / 4;
+  const g2 = ((5 * z2 + 16) * z2 + 3) * z / 96;
+  const g3 = (((3 * z2 + 19) * z2 + 17) * z2 - 15) * z / 384;
+  const g4 = ((((79 * z2 + 776) * z2 + 1482) * z2 - 1920) * z2 - 945) * z / 92160;
+  return z + g1 / v + g2 / v ** 2 + g3 / v ** 3 + g4 / v ** 4;
+}
+
+/**
+ * G14 goodness-of-fit statistics. CV(RMSE) and NMBE use n - p degrees of freedom.
+ */
+export function calculateFitStatistics(
+  actual: number[],
+  predicted: number[],
+  parameterCount: number
+): BaselineModelStatistics {
+  const n = actual.length;
+  const mean = actual.reduce((sum, y) => sum + y, 0) / n;
+  const residuals = actual.map((y, i) => y - predicted[i]);
+  const ssRes = residuals.reduce((sum, e) => sum + e * e, 0);
+  const ssTot = actual.reduce((sum, y) => sum + (y - mean) ** 2, 0);
+  const dof = Math.max(1, n - parameterCount);
+
+  let lagged = 0;
+  for (let i = 1; i < n; i++) {
+    lagged += residuals[i] * residuals[i - 1];
+  }
+
+  return {
+    observations: n,
+    parameterCount,
+    meanEnergy: mean,
+    r2: ssTot > 0 ? 1 - ssRes / ssTot : 0,
+    cvrmse: (Math.sqrt(ssRes / dof) / mean) * 100,
+    nmbe: (residuals.reduce((sum, e) => sum + e, 0) / (dof * mean)) * 100,
+    autocorrelation: ssRes > 0 ? lagged / ssRes : 0,
+  };
+}
+
+/**
+ * Fractional savings uncertainty, ASHRAE Guideline 14-2014 Annex B:
+ *   ΔE/E = t · 1.26 · CV · sqrt((n/n') (1 + 2/n) / m) / F
+ * where n' = n (1 - ρ) / (1 + ρ) corrects for autocorrelated residuals,
+ * m is the number of reporting-period points and F the fractional savings.
+ */
+export function fractionalSavingsUncertainty(params: {
+  cvrmse: number; // %
+  observations: number;
+  parameterCount: number;
+  reportingObservations: number;
+  fractionalSavings: number;
+  autocorrelation: number;
+  confidenceLevel: number;
+}): number {
+  const { cvrmse, observations: n, parameterCount, reportingObservations: m, fractionalSavings } = params;
+  if (!(fractionalSavings > 0) || m <= 0) return Infinity;
+
+  const rho = Math.min(0.99, Math.max(0, params.autocorrelation));
+  const effective = (n * (1 - rho)) / (1 + rho);
+  const t = studentTQuantile(1 - (1 - params.confidenceLevel) / 2, effective - parameterCount);
+
+  return (t * 1.26 * (cvrmse / 100) * Math.sqrt((n / effective) * (1 + 2 / n) / m)) / fractionalSavings;
+}
+
+function changePointFeatures(
+  type: ChangePointModelType,
+  temperature: number,
+  heatingBalancePoint: number,
+  coolingBalancePoint: number
+): Array<[number, number]> {
+  const heating = Math.max(0, heatingBalancePoint - temperature);
+  const cooling = Math.max(0, temperature - coolingBalancePoint);
+  switch (type) {
+    case '2P':
+      return [[0, 1], [1, temperature]];
+    case '3PH':
+      return [[0, 1], [1, heating]];
+    case '3PC':
+      return [[0, 1], [1, cooling]];
+    case '4P':
+    case '5P':
+      return [[0, 1], [1, heating], [2, cooling]];
+  }
+}
+
+const CHANGE_POINT_PARAMETERS: Record<ChangePointModelType, number> = {
+  '2P': 2,
+  '3PH': 3,
+  '3PC': 3,
+  '4P': 4,
+  '5P': 5,
+};
+
+/**
+ * Fit a change-point model by grid search over the balance point(s), keeping
+ * the OLS fit with the lowest residual sum of squares. 3P and 5P slopes must
+ * be positive (energy rises away from the balance point); a 4P model has a
+ * single change point and unconstrained slopes.
+ */
+export function fitChangePointModel(
+  observations: BaselineObservation[],
+  type: ChangePointModelType,
+  granularity: BaselineGranularity = 'monthly',
+  options: ChangePointOptions = {}
+): BaselineModel | null {
+  const parameterCount = CHANGE_POINT_PARAMETERS[type];
+  if (observations.length <= parameterCount) return null;
+
+  const temperatures = observations.map(o => o.temperature).sort((a, b) => a - b);
+  const low = quantile(temperatures, 0.1);
+  const high = quantile(temperatures, 0.9);
+  const steps = options.balancePointSteps ?? 40;
+  const grid = type === '2P'
+    ? [0]
+    : Array.from({ length: steps + 1 }, (_, i) => low + ((high - low) * i) / steps);
+
+  let best: { sse: number; beta: number[]; heating: number; cooling: number } | null = null;
+
+  const tryFit = (heatingBalancePoint: number, coolingBalancePoint: number) => {
+    const size = type === '4P' || type === '5P' ? 3 : 2;
+    const equations = new NormalEquations(size);
+    const rows = observations.map(o => changePointFeatures(type, o.temperature, heatingBalancePoint, coolingBalancePoint));
+    rows.forEach((row, i) => equations.add(row, observations[i].energy));
+    const { coefficients, active } = equations.solve();
+    if (active.some(flag => !flag)) return;
+
+    if ((type === '3PH' || type === '5P') && !(coefficients[1] > 0)) return;
+    if (type === '3PC' && !(coefficients[1] > 0)) return;
+    if (type === '5P' && !(coefficients[2] > 0)) return;
+
+    let sse = 0;
+    rows.forEach((row, i) => {
+      const predicted = row.reduce((sum, [j, x]) => sum + coefficients[j] * x, 0);
+      sse += (observations[i].energy - predicted) ** 2;
+    });
+    if (!best || sse < best.sse) {
+      best = { sse, beta: coefficients, heating: heatingBalancePoint, cooling: coolingBalancePoint };
+    }
+  };
+
+  for (let i = 0; i < grid.length; i++) {
+    if (type === '5P') {
+      for (let j = i + 1; j < grid.length; j++) tryFit(grid[i], grid[j]);
+    } else {
+      tryFit(grid[i], grid[i]);
+    }
+  }
+
+  if (!best) return null;
+  const { beta, heating, cooling } = best;
+
+  const coefficients: Record<string, number> = { intercept: beta[0] };
+  if (type === '2P') coefficients.slope = beta[1];
+  if (type === '3PH' || type === '4P' || type === '5P') {
+    coefficients.heatingSlope = beta[1];
+    coefficients.heatingBalancePoint = heating;
+  }
+  if (type === '3PC') {
+    coefficients.coolingSlope = beta[1];
+    coefficients.coolingBalancePoint = cooling;
+  }
+  if (type === '4P' || type === '5P') {
+    coefficients.coolingSlope = beta[2];
+    coefficients.coolingBalancePoint = cooling;
+  }
+
+  return {
+    type,
+    granularity,
+    parameterCount,
+    coefficients,
+    predict: ({ temperature }) =>
+      changePointFeatures(type, temperature, heating, cooling).reduce((sum, [j, x]) => sum + beta[j] * x, 0),
+  };
+}
+
+/**
+ * Fit every change-point type and return the one with the lowest CV(RMSE)
+ */
+export function fitBestChangePointModel(
+  observations: BaselineObservation[],
+  granularity: BaselineGranularity = 'monthly',
+  options: ChangePointOptions = {}
+): BaselineModel | null {
+  return selectLowestCvrmse(
+    observations,
+    CHANGE_POINT_TYPES.map(type => fitChangePointModel(observations, type, granularity, options))
+  );
+}
+
+function timeOfWeek(timestamp: Date, granularity: BaselineGranularity, utcOffsetHours: number): number {
+  const local = new Date(timestamp.getTime() + utcOffsetHours * 3600000);
+  const day = local.getUTCDay();
+  return granularity === 'hourly' ? day * 24 + local.getUTCHours() : day;
+}
+
+function temperatureSegments(temperature: number, knots: number[]): number[] {
+  // T1 = min(T, B1), Tk = min(max(T - Bk-1, 0), Bk - Bk-1), Tlast = max(T - Blast, 0)
+  const segments: number[] = [Math.min(temperature, knots[0])];
+  for (let k = 1; k < knots.length; k++) {
+    segments.push(Math.min(Math.max(temperature - knots[k - 1], 0), knots[k] - knots[k - 1]));
+  }
+  segments.push(Math.max(temperature - knots[knots.length - 1], 0));
+  return segments;
+}
+
+/**
+ * Time-of-week-and-temperature model (Mathieu et al., LBNL): one indicator per
+ * hour of the week (or day of the week for daily data) plus a piecewise-linear
+ * temperature term. The indicators carry the intercept.
+ */
+export function fitTOWTModel(
+  observations: BaselineObservation[],
+  granularity: Exclude<BaselineGranularity, 'monthly'> = 'hourly',
+  options: TOWTOptions = {}
+): BaselineModel | null {
+  const knots = (options.temperatureKnots ?? TOWT_DEFAULT_KNOTS).slice().sort((a, b) => a - b);
+  const utcOffsetHours = options.utcOffsetHours ?? 0;
+  const bins = granularity === 'hourly' ? 168 : 7;
+  const size = bins + knots.length + 1;
+
+  const features = (o: Pick<BaselineObservation, 'timestamp' | 'temperature'>): Array<[number, number]> => [
+    [timeOfWeek(o.timestamp, granularity, utcOffsetHours), 1],
+    ...temperatureSegments(o.temperature, knots).map((value, k) => [bins + k, value] as [number, number]),
+  ];
+
+  const equations = new NormalEquations(size);
+  observations.forEach(o => equations.add(features(o), o.energy));
+  const { coefficients: beta, active } = equations.solve();
+  const parameterCount = active.filter(Boolean).length;
+  if (observations.length <= parameterCount) return null;
+
+  const coefficients: Record<string, number> = {};
+  beta.forEach((value, i) => {
+    if (!active[i]) return;
+    coefficients[i < bins ? `timeOfWeek${i}` : `temperatureSegment${i - bins}`] = value;
+  });
+
+  return {
+    type: 'TOWT',
+    granularity,
+    parameterCount,
+    coefficients,
+    predict: o => features(o).reduce((sum, [j, x]) => sum + beta[j] * x, 0),
+  };
+}
+
+function selectLowestCvrmse(
+  observations: BaselineObservation[],
+  candidates: Array<BaselineModel | null>
+): BaselineModel | null {
+  let best: { model: BaselineModel; cvrmse: number } | null = null;
+  for (const model of candidates) {
+    if (!model) continue;
+    const { cvrmse } = calculateFitStatistics(
+      observations.map(o => o.energy),
+      observations.map(o => model.predict(o)),
+      model.parameterCount
+    );
+    if (!best || cvrmse < best.cvrmse) best = { model, cvrmse };
+  }
+  return best?.model ?? null;
+}
+
+/**
+ * Fit the requested (or best) baseline model for the granularity. Monthly data
+ * only supports change-point models; 'auto' also tries TOWT for interval data.
+ */
+export function fitBaselineModel(
+  observations: BaselineObservation[],
+  options: OptionCReportOptions
+): BaselineModel {
+  const { granularity, changePoint, towt } = options;
+  const type = options.model ?? 'auto';
+
+  let model: BaselineModel | null;
+  if (type === 'TOWT') {
+    if (granularity === 'monthly') {
+      throw new Error('TOWT models need daily or hourly data');
+    }
+    model = fitTOWTModel(observations, granularity, towt);
+  } else if (type === 'auto') {
+    const candidates = CHANGE_POINT_TYPES.map(t => fitChangePointModel(observations, t, granularity, changePoint));
+    if (granularity !== 'monthly') candidates.push(fitTOWTModel(observations, granularity, towt));
+    model = selectLowestCvrmse(observations, candidates);
+  } else {
+    model = fitChangePointModel(observations, type, granularity, changePoint);
+  }
+
+  if (!model) {
+    throw new Error(`Unable to fit a ${type} baseline model to ${observations.length} observations`);
+  }
+  return model;
+}
+
+/**
+ * Check a fitted model and its savings against the G14 acceptance criteria
+ */
+export function assessOptionCAcceptance(
+  statistics: BaselineModelStatistics,
+  granularity: BaselineGranularity,
+  fractionalUncertainty68: number
+): OptionCAcceptance {
+  const limits = ASHRAE_G14_LIMITS[granularity];
+  const cvrmsePass = statistics.cvrmse <= limits.cvrmse;
+  const nmbePass = Math.abs(statistics.nmbe) <= limits.nmbe;
+  const uncertaintyPass = fractionalUncertainty68 <= ASHRAE_G14_MAX_FRACTIONAL_UNCERTAINTY;
+
+  const reasons: string[] = [];
+  if (!cvrmsePass) reasons.push(`CV(RMSE) ${statistics.cvrmse.toFixed(1)}% exceeds ${limits.cvrmse}%`);
+  if (!nmbePass) reasons.push(`NMBE ${statistics.nmbe.toFixed(2)}% exceeds ±${limits.nmbe}%`);
+  if (!uncertaintyPass) {
+    reasons.push(
+      Number.isFinite(fractionalUncertainty68)
+        ? `Savings uncertainty ${(fractionalUncertainty68 * 100).toFixed(0)}% at 68% confidence exceeds 50%`
+        : 'No measurable savings to state an uncertainty for'
+    );
+  }
+
+  return {
+    cvrmseLimit: limits.cvrmse,
+    nmbeLimit: limits.nmbe,
+    maxFractionalUncertainty: ASHRAE_G14_MAX_FRACTIONAL_UNCERTAINTY,
+    cvrmsePass,
+    nmbePass,
+    uncertaintyPass,
+    passed: cvrmsePass && nmbePass && uncertaintyPass,
+    reasons,
+  };
+}
+
+/**
+ * Fit the baseline-period model, project it onto reporting-period weather and
+ * report avoided energy use with its uncertainty
+ */
+export function buildOptionCReport(
+  baseline: BaselineObservation[],
+  reporting: BaselineObservation[],
+  options: OptionCReportOptions
+): OptionCReport {
+  if (baseline.length === 0 || reporting.length === 0) {
+    throw new Error('Baseline and reporting periods both need observations');
+  }
+
+  const model = fitBaselineModel(baseline, options);
+  const confidenceLevel = options.confidenceLevel ?? 0.9;
+  const statistics = calculateFitStatistics(
+    baseline.map(o => o.energy),
+    baseline.map(o => model.predict(o)),
+    model.parameterCount
+  );
+
+  const adjustedBaseline = reporting.reduce((sum, o) => sum + model.predict(o), 0);
+  const actual = reporting.reduce((sum, o) => sum + o.energy, 0);
+  const energySavings = adjustedBaseline - actual;
+  const fractionalSavings = adjustedBaseline > 0 ? energySavings / adjustedBaseline : 0;
+
+  const uncertaintyAt = (level: number) => fractionalSavingsUncertainty({
+    cvrmse: statistics.cvrmse,
+    observations: statistics.observations,
+    parameterCount: model.parameterCount,
+    reportingObservations: reporting.length,
+    fractionalSavings,
+    autocorrelation: statistics.autocorrelation,
+    confidenceLevel: level,
+  });
+  const fractionalUncertainty = uncertaintyAt(confidenceLevel);
+
+  const span = (observations: BaselineObservation[]) => {
+    const times = observations.map(o => o.timestamp.getTime());
+    return { start: new Date(Math.min(...times)), end: new Date(Math.max(...times)), observations: observations.length };
+  };
+
+  return {
+    method: 'IPMVP Option C',
+    guideline: 'ASHRAE Guideline 14-2014',
+    granularity: options.granularity,
+    model: { type: model.type, parameterCount: model.parameterCount, coefficients: model.coefficients },
+    baselinePeriod: span(baseline),
+    reportingPeriod: span(reporting),
+    statistics,
+    acceptance: assessOptionCAcceptance(statistics, options.granularity, uncertaintyAt(0.68)),
+    savings: {
+      adjustedBaseline,
+      actual,
+      energySavings,
+      fractionalSavings,
+      uncertainty: Number.isFinite(fractionalUncertainty) ? Math.abs(fractionalUncertainty * energySavings) : Infinity,
+      fractionalUncertainty,
+      confidenceLevel,
+    },
+    generatedAt: new Date(),
+  };
+}
@@ -4,6 +4,7 @@
  */
 
 import { UtilityAPIClient, GridStatus, DemandData, TariffData } from './utility-api-client';
+import { logger } from '@/lib/logging/production-logger';
 
 export interface DemandResponseEvent {
   id: string;
@@ -11,9 +12,12 @@ export interface DemandResponseEvent {
   endTime: Date;
   targetReduction: number; // kW
   incentiveRate: number; // $/kWh
-  status: 'pending' | 'active' | 'completed';
+  status: 'pending' | 'active' | 'completed' | 'cancelled';
   actualReduction?: number;
   earnings?: number;
+  source?: 'utility-api' | 'openadr';
+  signalLevel?: number; // OpenADR SIMPLE level 0-3
+  strategies?: OptimizationStrategy[]; // Plan executed while the event is active
 }
 
 export interface LoadPriority {
@@ -155,7 +159,8 @@ export class DemandResponseManager {
       endTime: new Date(Date.now() + gridStatus.demandResponse.duration * 60000),
       targetReduction: 1.0, // Default 1kW reduction target
       incentiveRate: gridStatus.demandResponse.incentiveRate,
-      status: 'active'
+      status: 'active',
+      source: 'utility-api'
     };
 
     this.activeEvents.push(event);
@@ -170,6 +175,90 @@ export class DemandResponseManager {
     }
   }
 
+  /**
+   * Load-shed plan for a dispatched event. OpenADR SIMPLE levels escalate the
+   * response: 1 (moderate) dims supplemental lighting, 2 (high) adds the HVAC
+   * setback, 3 (special) also sheds non-essential loads. A kW target from a
+   * LOAD_DISPATCH signal takes strategies in that order until it is met.
+   */
+  planEventResponse(signalLevel: number, targetReduction?: number): OptimizationStrategy[] {
+    if (signalLevel <= 0 && !targetReduction) return [];
+
+    const level = targetReduction ? 3 : Math.min(3, Math.round(signalLevel));
+    const types: OptimizationStrategy['type'][] = ['dim'];
+    if (level >= 2) types.push('temperature-adjust');
+    if (level >= 3) types.push('load-shed');
+
+    const candidates = this.generateOptimizationStrategies(Infinity);
+    const plan: OptimizationStrategy[] = [];
+    let planned = 0;
+
+    for (const type of types) {
+      for (const strategy of candidates.filter(s => s.type === type)) {
+        if (targetReduction && planned >= targetReduction) return plan;
+        plan.push(strategy);
+        planned += strategy.targetReduction;
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Start a scheduled event and execute its plan
+   */
+  async startEvent(event: DemandResponseEvent): Promise<void> {
+    const strategies = event.strategies || this.planEventResponse(event.signalLevel ?? 1, event.targetReduction);
+    event.strategies = strategies;
+    event.status = 'active';
+
+    if (!this.activeEvents.some(e => e.id === event.id)) {
+      this.activeEvents.push(event);
+    }
+
+    for (const strategy of strategies) {
+      await this.executeStrategy(strategy);
+      this.strategies.push(strategy);
+    }
+  }
+
+  /**
+   * End an event, restoring normal operation of everything its plan curtailed
+   */
+  async endEvent(eventId: string, status: 'completed' | 'cancelled' = 'completed'): Promise<void> {
+    const event = this.activeEvents.find(e => e.id === eventId);
+    if (!event) return;
+
+    const strategies = event.strategies || [];
+    for (const strategy of strategies) {
+      await this.restoreStrategy(strategy);
+    }
+
+    this.strategies = this.strategies.filter(s => !strategies.includes(s));
+    this.activeEvents = this.activeEvents.filter(e => e.id !== eventId);
+
+    event.status = status;
+    event.actualReduction = strategies.reduce((sum, s) => sum + s.targetReduction, 0);
+    const hours = (event.endTime.getTime() - event.startTime.getTime()) / 3600000;
+    event.earnings = event.actualReduction * hours * event.incentiveRate;
+  }
+
+  /**
+   * Facility demand after active curtailment (kW)
+   */
+  getCurrentDemand(): number {
+    const connected = this.loadPriorities.reduce((sum, load) => sum + load.currentLoad, 0);
+    const reduction = this.strategies.reduce((sum, s) => sum + s.targetReduction, 0);
+    return Math.max(0, connected - reduction);
+  }
+
+  /**
+   * Replace the default load priorities with the facility's measured loads
+   */
+  setLoadPriorities(loads: LoadPriority[]): void {
+    this.loadPriorities = loads;
+  }
+
   /**
    * Prevent demand threshold exceedance
    */
@@ -366,6 +455,11 @@ export class DemandResponseManager {
     logger.info('api', `Adjusting temperature setpoints to reduce load by ${strategy.targetReduction}kW`);
   }
 
+  private async restoreStrategy(strategy: OptimizationStrategy): Promise<void> {
+    // Simulate returning lighting, HVAC setpoints and shed loads to schedule
+    logger.info('api', `Restoring ${strategy.type} after demand response: ${strategy.targetReduction}kW`);
+  }
+
   /**
    * Helper methods
    */
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { prisma } from '@/lib/prisma';
 import { format, startOfDay, endOfDay, differenceInDays } from 'date-fns';
+import { BaselineObservation, OptionCReport, OptionCReportOptions, buildOptionCReport } from './baseline-regression';
 
 interface WeatherData {
   date: Date;
@@ -476,40 +477,83 @@ export class WeatherNormalizationService {
   }
 
   /**
-   * Apply IPMVP Option C methodology
+   * Apply IPMVP Option C (whole facility) with an ASHRAE Guideline 14 baseline
+   * model fitted to daily metered electricity and station temperatures
    */
   async applyIPMVPOptionC(
     facilityId: string,
     reportingPeriod: { start: Date; end: Date },
-    baselinePeriod: { start: Date; end: Date }
+    baselinePeriod: { start: Date; end: Date },
+    options: Omit<OptionCReportOptions, 'granularity'> = {}
   ): Promise<{
     adjustedBaseline: number;
     savings: number;
     uncertainty: number;
+    report: OptionCReport;
   }> {
-    // Implementation of IPMVP Option C whole facility measurement
-    // This is a placeholder for the complex methodology
-    
-    const baseline = await prisma.clientBaseline.findFirst({
-      where: { facility: { id: facilityId } }
+    const facility = await prisma.facility.findUnique({
+      where: { id: facilityId },
+      select: { latitude: true, longitude: true }
     });
 
-    if (!baseline) {
+    if (!facility) {
+      throw new Error('Facility not found');
+    }
+
+    const binding = await prisma.facilityWeather.findUnique({ where: { facilityId } });
+    const latitude = binding?.latitude ?? facility.latitude;
+    const longitude = binding?.longitude ?? facility.longitude;
+
+    const baseline = await this.getDailyObservations(facilityId, latitude, longitude, baselinePeriod, binding?.stationId);
+    const reporting = await this.getDailyObservations(facilityId, latitude, longitude, reportingPeriod, binding?.stationId);
+
+    if (baseline.length === 0) {
       throw new Error('No baseline established');
     }
 
-    // Apply normalization
-    const normalized = await this.normalizeEnergyUsage(
-      facilityId,
-      baseline.totalAnnualKwh / 12, // Monthly average
-      reportingPeriod.start,
-      reportingPeriod.end
-    );
+    const report = buildOptionCReport(baseline, reporting, { ...options, granularity: 'daily' });
 
     return {
-      adjustedBaseline: normalized.normalizedUsage,
-      savings: baseline.totalAnnualKwh / 12 - normalized.normalizedUsage,
-      uncertainty: (1 - normalized.confidence) * 100, // Percentage
+      adjustedBaseline: report.savings.adjustedBaseline,
+      savings: report.savings.energySavings,
+      uncertainty: report.savings.fractionalUncertainty * 100, // Percentage of savings
+      report,
     };
   }
+
+  /**
+   * Daily electricity totals paired with the daily mean temperature
+   */
+  private async getDailyObservations(
+    facilityId: string,
+    latitude: number,
+    longitude: number,
+    period: { start: Date; end: Date },
+    stationOverride?: string | null
+  ): Promise<BaselineObservation[]> {
+    const readings = await prisma.energyReading.findMany({
+      where: {
+        facilityId,
+        readingType: 'electricity',
+        timestamp: { gte: startOfDay(period.start), lte: endOfDay(period.end) }
+      },
+      orderBy: { timestamp: 'asc' }
+    });
+
+    const energyByDay = new Map<string, number>();
+    readings.forEach((reading: any) => {
+      const key = format(reading.timestamp, 'yyyy-MM-dd');
+      energyByDay.set(key, (energyByDay.get(key) || 0) + reading.value);
+    });
+
+    const weather = await this.getWeatherData(latitude, longitude, period.start, period.end, stationOverride);
+
+    return weather.data
+      .filter(day => energyByDay.has(format(day.date, 'yyyy-MM-dd')))
+      .map(day => ({
+        timestamp: startOfDay(day.date),
+        temperature: day.avgTemperature,
+        energy: energyByDay.get(format(day.date, 'yyyy-MM-dd')) as number,
+      }));
+  }
 }
\ No newline at end of file
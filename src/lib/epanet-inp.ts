@@ -0,0 +1,299 @@
+/**
+ * EPANET .inp Import and Export
+ * Converts between EPANET 2.2 input files and PipeNetwork designs so
+ * network solutions can be cross-checked in EPANET. Imported files in SI
+ * flow units are converted to the US customary units the solver uses.
+ */
+
+import { Fitting, HydraulicCalculator, MATERIAL_FLOW_COEFFICIENTS, PumpCurve } from './hydraulic-calculations';
+import { NetworkEmitter, NetworkNode, NetworkPipe, NetworkPump, NetworkSolverOptions, PipeNetwork } from './pipe-network';
+
+export interface EpanetImport {
+  network: PipeNetwork;
+  options: NetworkSolverOptions;
+  warnings: string[];
+}
+
+// GPM per unit of each EPANET flow unit
+const FLOW_UNITS: Record<string, number> = {
+  CFS: 448.831,
+  GPM: 1,
+  MGD: 694.444,
+  IMGD: 833.952,
+  AFD: 226.286,
+  LPS: 15.8503,
+  LPM: 0.264172,
+  MLD: 183.452,
+  CMH: 4.40287,
+  CMD: 0.183453
+};
+
+const SI_FLOW_UNITS = ['LPS', 'LPM', 'MLD', 'CMH', 'CMD'];
+const FEET_PER_METER = 3.28084;
+const PSI_PER_METER = 1.42197;
+
+/**
+ * Parse an EPANET input file. Steady-state data only: patterns, controls
+ * and rules are ignored with a warning, and valves become open pipes.
+ */
+export function parseEpanetInp(text: string): EpanetImport {
+  const sections = new Map<string, string[][]>();
+  let current = '';
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.split(';')[0].trim();
+    if (!line) continue;
+    const header = line.match(/^\[([A-Z_]+)\]$/i);
+    if (header) {
+      current = header[1].toUpperCase();
+      if (!sections.has(current)) sections.set(current, []);
+      continue;
+    }
+    sections.get(current)?.push(line.split(/\s+/));
+  }
+  const rows = (name: string) => sections.get(name) || [];
+  const warnings: string[] = [];
+
+  const options = new Map<string, string>();
+  for (const row of rows('OPTIONS')) {
+    // Option names can be two words, e.g. "Emitter Exponent"
+    if (row.length >= 3 && isNaN(Number(row[1]))) options.set(`${row[0]} ${row[1]}`.toUpperCase(), row[2]);
+    else options.set(row[0].toUpperCase(), row[1]);
+  }
+
+  const flowUnit = (options.get('UNITS') || 'GPM').toUpperCase();
+  const flowFactor = FLOW_UNITS[flowUnit];
+  if (!flowFactor) throw new Error(`Unsupported EPANET flow units ${flowUnit}`);
+  const si = SI_FLOW_UNITS.includes(flowUnit);
+  const length = si ? FEET_PER_METER : 1;
+  const diameter = si ? 1 / 25.4 : 1;
+  const psiPerPressureUnit = si ? PSI_PER_METER : 1;
+  const emitterExponent = Number(options.get('EMITTER EXPONENT') || 0.5);
+
+  const headLossFormula = (options.get('HEADLOSS') || 'H-W').toUpperCase();
+  if (headLossFormula === 'C-M') throw new Error('Chezy-Manning head loss is not supported');
+  if (headLossFormula === 'D-W') {
+    warnings.push('Darcy-Weisbach pipe roughness is replaced by the default roughness of each pipe material');
+  }
+
+  const nodes: NetworkNode[] = [];
+  for (const [id, elevation, demand] of rows('JUNCTIONS')) {
+    nodes.push({ id, type: 'junction', elevation: Number(elevation) * length, demand: Number(demand || 0) * flowFactor });
+  }
+  for (const [id, demand] of rows('DEMANDS')) {
+    const node = nodes.find(candidate => candidate.id === id);
+    if (node) node.demand = (node.demand || 0) + Number(demand) * flowFactor;
+  }
+  for (const [id, head] of rows('RESERVOIRS')) {
+    nodes.push({ id, type: 'reservoir', elevation: Number(head) * length, head: Number(head) * length });
+  }
+  for (const [id, elevation, level] of rows('TANKS')) {
+    nodes.push({ id, type: 'tank', elevation: Number(elevation) * length, level: Number(level) * length });
+  }
+
+  const pipes: NetworkPipe[] = rows('PIPES').map(([id, from, to, pipeLength, pipeDiameter, roughness, minorLoss, status]) => ({
+    id,
+    from,
+    to,
+    length: Number(pipeLength) * length,
+    diameter: Number(pipeDiameter) * diameter,
+    material: 'PVC',
+    cFactor: headLossFormula === 'H-W' ? Number(roughness) : undefined,
+    minorLoss: Number(minorLoss || 0),
+    status: pipeStatus(status)
+  }));
+
+  for (const [id, from, to, valveDiameter, type, , minorLoss] of rows('VALVES')) {
+    warnings.push(`Valve ${id} (${type}) is modelled as an open pipe; its setting is ignored`);
+    pipes.push({ id, from, to, length: 1, diameter: Number(valveDiameter) * diameter, material: 'PVC', minorLoss: Number(minorLoss || 0) });
+  }
+
+  const curves = new Map<string, Array<[number, number]>>();
+  for (const [id, x, y] of rows('CURVES')) {
+    if (!curves.has(id)) curves.set(id, []);
+    curves.get(id)!.push([Number(x), Number(y)]);
+  }
+  const efficiencyCurves = new Map<string, string>();
+  for (const row of rows('ENERGY')) {
+    if (row[0].toUpperCase() === 'PUMP' && row[2]?.toUpperCase() === 'EFFICIENCY') efficiencyCurves.set(row[1], row[3]);
+  }
+
+  const pumps: NetworkPump[] = [];
+  for (const [id, from, to, ...parameters] of rows('PUMPS')) {
+    const settings = new Map<string, string>();
+    for (let i = 0; i + 1 < parameters.length; i += 2) settings.set(parameters[i].toUpperCase(), parameters[i + 1]);
+
+    const headCurve = curves.get(settings.get('HEAD') || '');
+    if (!headCurve) {
+      warnings.push(`Pump ${id} has no head curve and was skipped`);
+      continue;
+    }
+    const efficiency = curves.get(efficiencyCurves.get(id) || '');
+    pumps.push({
+      id,
+      from,
+      to,
+      pump: pumpCurve(headCurve, efficiency, flowFactor, length),
+      speed: settings.has('SPEED') ? Number(settings.get('SPEED')) : undefined
+    });
+  }
+
+  for (const [id, status] of rows('STATUS')) {
+    const link = pipes.find(pipe => pipe.id === id) || pumps.find(pump => pump.id === id);
+    if (link && status.toUpperCase() === 'CLOSED') link.status = 'closed';
+  }
+
+  const emitters: NetworkEmitter[] = rows('EMITTERS').map(([node, coefficient]) => ({
+    id: `E-${node}`,
+    node,
+    coefficient: (Number(coefficient) * flowFactor) / Math.pow(psiPerPressureUnit, emitterExponent),
+    exponent: emitterExponent
+  }));
+
+  for (const section of ['PATTERNS', 'CONTROLS', 'RULES']) {
+    if (rows(section).length > 0) warnings.push(`[${section}] is ignored by the steady-state solver`);
+  }
+
+  return {
+    network: {
+      title: rows('TITLE').map(row => row.join(' ')).join('\n') || undefined,
+      nodes,
+      pipes,
+      pumps,
+      emitters
+    },
+    options: { headLoss: headLossFormula === 'D-W' ? 'darcy-weisbach' : 'hazen-williams' },
+    warnings
+  };
+}
+
+/**
+ * Write a network as an EPANET input file in GPM with Hazen-Williams head
+ * loss. Tanks get a nominal geometry holding their level; emitters are
+ * written with the first emitter's exponent, and pressure-compensating
+ * emitters as the orifice that passes their nominal flow at the
+ * regulating pressure.
+ */
+export function writeEpanetInp(network: PipeNetwork): string {
+  const lines: string[] = [];
+  const section = (name: string, header: string, rows: Array<Array<string | number>>) => {
+    lines.push(`[${name}]`, `;${header}`);
+    rows.forEach(row => lines.push(row.map(value => (typeof value === 'number' ? formatNumber(value) : value)).join('\t')));
+    lines.push('');
+  };
+
+  const junctions = network.nodes.filter(node => !node.type || node.type === 'junction');
+  const emitters = network.emitters || [];
+  const exponent = emitters[0]?.exponent ?? 0.5;
+
+  lines.push('[TITLE]', network.title || 'VibeLux pipe network', '');
+  section('JUNCTIONS', 'ID\tElev\tDemand', junctions.map(node => [node.id, node.elevation, node.demand || 0]));
+  section('RESERVOIRS', 'ID\tHead', network.nodes
+    .filter(node => node.type === 'reservoir')
+    .map(node => [node.id, node.head ?? node.elevation]));
+  section('TANKS', 'ID\tElevation\tInitLevel\tMinLevel\tMaxLevel\tDiameter\tMinVol', network.nodes
+    .filter(node => node.type === 'tank')
+    .map(node => [node.id, node.elevation, node.level ?? 0, 0, Math.max(node.level ?? 0, 1), 10, 0]));
+
+  section('PIPES', 'ID\tNode1\tNode2\tLength\tDiameter\tRoughness\tMinorLoss\tStatus', network.pipes.map(pipe => {
+    const fittingK = (pipe.fittings || []).reduce((sum, fitting) => sum + fittingCoefficient(fitting), 0);
+    return [
+      pipe.id,
+      pipe.from,
+      pipe.to,
+      pipe.length,
+      pipe.diameter,
+      pipe.cFactor ?? (MATERIAL_FLOW_COEFFICIENTS[pipe.material] || 120),
+      (pipe.minorLoss || 0) + fittingK,
+      pipe.status === 'cv' ? 'CV' : pipe.status === 'closed' ? 'Closed' : 'Open'
+    ];
+  }));
+
+  const curves: Array<Array<string | number>> = [];
+  const energy: Array<Array<string | number>> = [];
+  const pumps = (network.pumps || []).map(pump => {
+    const curve = 'curve' in pump.pump ? pump.pump.curve : pump.pump;
+    curve.flowPoints.forEach((flow, i) => curves.push([`${pump.id}-head`, flow, curve.headPoints[i]]));
+    if (curve.efficiency.some(value => value > 0)) {
+      curve.flowPoints.forEach((flow, i) => curves.push([`${pump.id}-efficiency`, flow, curve.efficiency[i]]));
+      energy.push(['Pump', pump.id, 'Efficiency', `${pump.id}-efficiency`]);
+    }
+    return [pump.id, pump.from, pump.to, 'HEAD', `${pump.id}-head`, ...(pump.speed !== undefined ? ['SPEED', pump.speed] : [])];
+  });
+  section('PUMPS', 'ID\tNode1\tNode2\tParameters', pumps);
+
+  const emitterCoefficients = new Map<string, number>();
+  for (const emitter of emitters) {
+    const coefficient = emitter.compensation
+      ? emitter.compensation.nominalFlow / Math.pow(emitter.compensation.regulatingPressure, exponent)
+      : emitter.coefficient || 0;
+    emitterCoefficients.set(emitter.node, (emitterCoefficients.get(emitter.node) || 0) + coefficient * (emitter.count ?? 1));
+  }
+  section('EMITTERS', 'Junction\tCoefficient', Array.from(emitterCoefficients.entries()));
+
+  section('STATUS', 'ID\tStatus', (network.pumps || []).filter(pump => pump.status === 'closed').map(pump => [pump.id, 'Closed']));
+  section('CURVES', 'ID\tX-Value\tY-Value', curves);
+  section('ENERGY', 'Pump\tID\tParameter\tValue', energy);
+
+  lines.push('[OPTIONS]', 'Units\tGPM', 'Headloss\tH-W', `Emitter Exponent\t${formatNumber(exponent)}`, '');
+  lines.push('[END]', '');
+  return lines.join('\n');
+}
+
+function pipeStatus(status: string | undefined): NetworkPipe['status'] {
+  switch ((status || 'OPEN').toUpperCase()) {
+    case 'CLOSED':
+      return 'closed';
+    case 'CV':
+      return 'cv';
+    default:
+      return 'open';
+  }
+}
+
+/**
+ * EPANET expands a single design point into a three-point curve with
+ * shutoff at 133% of design head and maximum flow at twice design flow
+ */
+function pumpCurve(
+  head: Array<[number, number]>,
+  efficiency: Array<[number, number]> | undefined,
+  flowFactor: number,
+  length: number
+): PumpCurve {
+  const points = head.length === 1
+    ? [[0, head[0][1] * 4 / 3], head[0], [head[0][0] * 2, 0]]
+    : head;
+  const efficiencyAt = (flow: number) => {
+    if (!efficiency || efficiency.length === 0) return 0;
+    const exact = efficiency.find(([x]) => x === flow);
+    if (exact) return exact[1];
+    const upper = efficiency.findIndex(([x]) => x > flow);
+    if (upper <= 0) return upper === 0 ? efficiency[0][1] : efficiency[efficiency.length - 1][1];
+    const [x1, y1] = efficiency[upper - 1];
+    const [x2, y2] = efficiency[upper];
+    return y1 + (y2 - y1) * (flow - x1) / (x2 - x1);
+  };
+
+  return {
+    flowPoints: points.map(([flow]) => flow * flowFactor),
+    headPoints: points.map(([, pointHead]) => pointHead * length),
+    efficiency: points.map(([flow]) => efficiencyAt(flow)),
+    npshRequired: points.map(() => 0),
+    // Water horsepower at the curve efficiency
+    powerPoints: points.map(([flow, pointHead]) => {
+      const eff = efficiencyAt(flow);
+      return eff > 0 ? (flow * flowFactor * pointHead * length) / (3960 * eff / 100) : 0;
+    })
+  };
+}
+
+/**
+ * Loss coefficient K of a fitting: its head loss at one velocity head
+ */
+function fittingCoefficient(fitting: Fitting): number {
+  return HydraulicCalculator.fittingLoss(fitting, Math.sqrt(2 * 32.174));
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(8)));
+}
@@ -113,6 +113,27 @@ export const extendedFertilizerDatabase: ExtendedFertilizer[] = [
     },
     grade: 'agricultural'
   },
+  {
+    id: 'nitric',
+    name: 'Nitric Acid 60%',
+    formula: 'HNO3',
+    type: 'acid',
+    analysis: {
+      N: 13.3,
+      NO3: 13.3
+    },
+    solubility: 9999, // miscible
+    maxConcentration: 600,
+    cost: 0.40,
+    density: 1.37,
+    pH: 0.5,
+    ec: 3.8,
+    compatibility: {
+      incompatibleWith: ['all-bases'],
+      warnings: ['Strong oxidizing acid - handle with maximum care', 'Use for pH down and alkalinity reduction']
+    },
+    grade: 'technical'
+  },
 
   // Phosphorus Sources
   {
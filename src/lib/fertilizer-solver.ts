@@ -0,0 +1,435 @@
+// Fertilizer salt solver: turns a target recipe into A/B(/C) stock tank weighings
+
+import solver from 'javascript-lp-solver'
+import type { CustomFormulation, CustomNutrientRecipe, ExtendedFertilizer } from './nutrient-recipe-models'
+import { extendedFertilizerDatabase, getFertilizerById } from './fertilizer-database'
+import {
+  IonConcentrations,
+  calculateAnionSum,
+  calculateCationSum,
+  calculateIonBalance,
+  estimateEC,
+  meqLToPpm,
+  ppmToMeqL
+} from './water-chemistry-calculations'
+
+export type RecipeElement = keyof CustomNutrientRecipe['elements']
+export type StockTankId = 'A' | 'B' | 'C'
+
+export interface SourceWaterAnalysis {
+  ions: Partial<IonConcentrations> // meq/L
+  ph?: number
+}
+
+export interface SaltSolverOptions {
+  sourceWater?: SourceWaterAnalysis
+  fertilizers?: string[]        // candidate fertilizer IDs (default: every neutral or acidic salt, chelate and acid)
+  concentrationFactor?: number  // stock dilution ratio, e.g. 100 for 1:100
+  tankVolume?: number           // L per stock tank
+  acidTank?: boolean            // keep acids in a separate C tank instead of tank B
+  targetUnit?: 'ppm' | 'mmol/L'
+  maxAmmoniumFraction?: number  // NH4-N share of total N
+  errorPenalty?: number         // $/m³ per 100% relative element error
+}
+
+export interface ElementResidual {
+  target: number     // ppm
+  water: number      // ppm from the source water
+  fertilizer: number // ppm from the weighed salts and acids
+  achieved: number   // ppm
+  error: number      // achieved - target (ppm)
+  relativeError: number
+}
+
+export interface StockTankWeighing {
+  fertilizerId: string
+  name: string
+  tank: StockTankId
+  order: number              // mixing order within the tank
+  finalConcentration: number // mg/L in the diluted nutrient solution
+  stockConcentration: number // g/L in the stock tank
+  grams: number              // per stock tank
+  millilitres?: number       // liquid acids
+  cost: number               // $ per stock tank
+}
+
+export interface StockTank {
+  id: StockTankId
+  volume: number    // L
+  totalMass: number // g
+  weighings: StockTankWeighing[]
+}
+
+export interface FertilizerSolution {
+  tanks: StockTank[]
+  weighings: StockTankWeighing[]
+  residuals: Partial<Record<RecipeElement, ElementResidual>>
+  maxRelativeError: number
+  acidRequirement: number // meq/L to bring the source water to the target pH
+  acidSupplied: number    // meq/L net of bases
+  predictedEC: number     // mS/cm
+  predictedPH: number
+  ionBalance: number      // %
+  costPerLiter: number    // $ per L of diluted solution
+  batchCost: number       // $ per set of stock tanks
+  formulation: CustomFormulation
+  warnings: string[]
+}
+
+// Atomic weights (g/mol) of the recipe elements
+export const ELEMENT_MASS: Record<RecipeElement, number> = {
+  N: 14.007,
+  P: 30.974,
+  K: 39.098,
+  Ca: 40.078,
+  Mg: 24.305,
+  S: 32.06,
+  Fe: 55.845,
+  Mn: 54.938,
+  B: 10.81,
+  Zn: 65.38,
+  Cu: 63.546,
+  Mo: 95.95,
+  Cl: 35.45,
+  Si: 28.086,
+  Na: 22.99,
+  Co: 58.933,
+  Ni: 58.693
+}
+
+const ELEMENTS = Object.keys(ELEMENT_MASS) as RecipeElement[]
+const DEFAULT_TYPES: ExtendedFertilizer['type'][] = ['salt', 'chelate', 'acid']
+
+// Dissociation constants used for the pH estimate
+const PKA_CARBONIC = 6.35
+const PKA_PHOSPHORIC_1 = 2.15
+const PKA_PHOSPHORIC_2 = 7.2
+
+const MIN_RELATIVE_TARGET = 0.01  // ppm floor when weighting relative errors
+const UNTARGETED_TOLERANCE = 10   // ppm of an untargeted element weighed like a 100% error
+const MIN_ACID_REQUIREMENT = 0.5  // meq/L floor when weighting the acid balance
+const MIN_DOSE = 1e-6             // mg/L below which the solver's result is treated as zero
+const ELEMENT_WARNING = 0.05      // relative error reported as a warning
+const EC_WARNING = 0.3            // mS/cm
+
+// Milliequivalents of acidity (positive) or alkalinity (negative) per gram of product.
+// H2PO4- is the reference phosphate species, so phosphoric acid gives up one proton and
+// hydrogen phosphates count as alkaline.
+export function acidEquivalents(fert: ExtendedFertilizer): number {
+  const { P = 0, S = 0, NO3 = 0, K = 0, Na = 0 } = fert.analysis
+  if (fert.type === 'acid') {
+    return 10 * (P / ELEMENT_MASS.P + 2 * S / ELEMENT_MASS.S + NO3 / ELEMENT_MASS.N)
+  }
+  if (fert.type === 'base' || /CO3|SiO3/.test(fert.formula)) {
+    return -10 * (K / ELEMENT_MASS.K + Na / ELEMENT_MASS.Na)
+  }
+  if (/HPO4/.test(fert.formula)) {
+    return -10 * P / ELEMENT_MASS.P
+  }
+  return 0
+}
+
+// Alkalinity (meq/L) of a closed carbonate/phosphate solution, relative to H2CO3 and H2PO4-
+export function solutionAlkalinity(pH: number, carbonate: number, phosphate: number): number {
+  return carbonate / (1 + Math.pow(10, PKA_CARBONIC - pH)) +
+    phosphate / (1 + Math.pow(10, PKA_PHOSPHORIC_2 - pH)) -
+    phosphate / (1 + Math.pow(10, pH - PKA_PHOSPHORIC_1)) +
+    Math.pow(10, pH - 11) -
+    Math.pow(10, 3 - pH)
+}
+
+// pH at which the solution carries the given alkalinity (bisection, alkalinity rises with pH)
+function pHForAlkalinity(alkalinity: number, carbonate: number, phosphate: number): number {
+  let low = 1
+  let high = 12
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2
+    if (solutionAlkalinity(mid, carbonate, phosphate) < alkalinity) low = mid
+    else high = mid
+  }
+  return (low + high) / 2
+}
+
+function hasCalciumConflict(fert: ExtendedFertilizer): boolean {
+  return (fert.analysis.Ca || 0) > 0 && ((fert.analysis.S || 0) > 0 || (fert.analysis.P || 0) > 0)
+}
+
+function incompatible(a: ExtendedFertilizer, b: ExtendedFertilizer): boolean {
+  const listed = (x: ExtendedFertilizer, y: ExtendedFertilizer) =>
+    x.compatibility.incompatibleWith?.includes(y.id) || x.compatibility.incompatibleWith?.includes(`all-${y.type}s`)
+  return Boolean(listed(a, b) || listed(b, a))
+}
+
+function candidateFertilizers(ids: string[] | undefined, warnings: string[]): ExtendedFertilizer[] {
+  if (!ids) {
+    // Alkaline products only earn their place against an acid, so they must be asked for
+    return extendedFertilizerDatabase.filter(fert =>
+      DEFAULT_TYPES.includes(fert.type) && acidEquivalents(fert) >= 0 && !hasCalciumConflict(fert)
+    )
+  }
+  return ids.flatMap(id => {
+    const fert = getFertilizerById(id)
+    if (!fert) throw new Error(`Unknown fertilizer ${id}`)
+    if (hasCalciumConflict(fert)) {
+      warnings.push(`${fert.name} carries calcium with sulfate or phosphate and cannot go in either stock tank`)
+      return []
+    }
+    return [fert]
+  })
+}
+
+function targetPpm(recipe: CustomNutrientRecipe, unit: 'ppm' | 'mmol/L'): Partial<Record<RecipeElement, number>> {
+  const targets: Partial<Record<RecipeElement, number>> = {}
+  for (const element of ELEMENTS) {
+    const value = recipe.elements[element]
+    if (value === undefined) continue
+    targets[element] = unit === 'mmol/L' ? value * ELEMENT_MASS[element] : value
+  }
+  return targets
+}
+
+function waterElements(ions: Partial<IonConcentrations>): Partial<Record<RecipeElement, number>> {
+  return {
+    N: ((ions.ammonium || 0) + (ions.nitrate || 0)) * ELEMENT_MASS.N,
+    P: (ions.phosphate || 0) / 3 * ELEMENT_MASS.P,
+    K: meqLToPpm('potassium', ions.potassium || 0),
+    Ca: meqLToPpm('calcium', ions.calcium || 0),
+    Mg: meqLToPpm('magnesium', ions.magnesium || 0),
+    S: (ions.sulfate || 0) / 2 * ELEMENT_MASS.S,
+    Fe: meqLToPpm('iron', ions.iron || 0),
+    Mn: meqLToPpm('manganese', ions.manganese || 0),
+    Zn: meqLToPpm('zinc', ions.zinc || 0),
+    Cu: meqLToPpm('copper', ions.copper || 0),
+    Cl: meqLToPpm('chloride', ions.chloride || 0),
+    Na: meqLToPpm('sodium', ions.sodium || 0)
+  }
+}
+
+// Calcium salts go to A, sulfates and phosphates to B, acids to C (or B) and the rest
+// to whichever of A and B is lighter without mixing listed incompatibilities
+function assignTanks(
+  doses: Array<{ fert: ExtendedFertilizer; amount: number }>,
+  acidTank: boolean,
+  warnings: string[]
+): Map<string, StockTankId> {
+  const tanks: Record<StockTankId, ExtendedFertilizer[]> = { A: [], B: [], C: [] }
+  const load: Record<StockTankId, number> = { A: 0, B: 0, C: 0 }
+  const assigned = new Map<string, StockTankId>()
+
+  const forced = (fert: ExtendedFertilizer): StockTankId | undefined => {
+    if (fert.analysis.Ca) return 'A'
+    if (fert.type === 'acid') return acidTank ? 'C' : 'B'
+    if (fert.analysis.S || fert.analysis.P || fert.type === 'base') return 'B'
+    return undefined
+  }
+  const ordered = [...doses].sort((a, b) => Number(forced(b.fert) !== undefined) - Number(forced(a.fert) !== undefined) || b.amount - a.amount)
+
+  for (const { fert, amount } of ordered) {
+    const fixed = forced(fert)
+    const options: StockTankId[] = fixed ? [fixed] : (['A', 'B'] as StockTankId[]).sort((a, b) => load[a] - load[b])
+    const tank = options.find(id => tanks[id].every(other => !incompatible(fert, other))) ?? options[0]
+    const clash = tanks[tank].find(other => incompatible(fert, other))
+    if (clash) warnings.push(`${fert.name} and ${clash.name} share stock tank ${tank}`)
+    tanks[tank].push(fert)
+    load[tank] += amount
+    assigned.set(fert.id, tank)
+  }
+  return assigned
+}
+
+// Acids go in first, chelates last, everything else heaviest first
+function mixingRank(fert: ExtendedFertilizer): number {
+  return fert.type === 'acid' ? 0 : fert.type === 'chelate' ? 2 : 1
+}
+
+/**
+ * Pick and weigh salts and acids for a target recipe on a measured source water.
+ * A linear program minimises salt cost plus a penalty on each element's relative error
+ * and on the acid needed to neutralise the water's alkalinity down to the target pH.
+ */
+export function solveFertilizerRecipe(recipe: CustomNutrientRecipe, options: SaltSolverOptions = {}): FertilizerSolution {
+  const concentrationFactor = options.concentrationFactor ?? 100
+  const tankVolume = options.tankVolume ?? 100
+  const errorPenalty = options.errorPenalty ?? 100
+  const maxAmmoniumFraction = options.maxAmmoniumFraction ?? 0.15
+  if (!(concentrationFactor >= 1)) throw new Error('Concentration factor must be at least 1')
+  if (!(tankVolume > 0)) throw new Error('Stock tank volume must be positive')
+
+  const warnings: string[] = []
+  const ions = options.sourceWater?.ions ?? {}
+  const targets = targetPpm(recipe, options.targetUnit ?? 'ppm')
+  const water = waterElements(ions)
+  const candidates = candidateFertilizers(options.fertilizers, warnings)
+
+  const alkalinity = (ions.bicarbonate || 0) + (ions.carbonate || 0) + (ions.hydroxide || 0)
+  const carbonate = (ions.bicarbonate || 0) + (ions.carbonate || 0) / 2
+  const acidRequirement = alkalinity - solutionAlkalinity(recipe.targetPH, carbonate, (targets.P ?? 0) / ELEMENT_MASS.P)
+
+  const model = {
+    optimize: 'cost',
+    opType: 'min',
+    constraints: {} as Record<string, { equal?: number; max?: number }>,
+    variables: {} as Record<string, Record<string, number>>
+  }
+
+  for (const element of ELEMENTS) {
+    const target = targets[element] ?? 0
+    model.constraints[element] = { equal: target - (water[element] ?? 0) }
+    const weight = target > 0 ? errorPenalty / Math.max(target, MIN_RELATIVE_TARGET) : errorPenalty / UNTARGETED_TOLERANCE
+    model.variables[`over:${element}`] = { cost: weight, [element]: -1 }
+    if (target > 0) model.variables[`under:${element}`] = { cost: weight, [element]: 1 }
+  }
+
+  const acidWeight = errorPenalty / Math.max(Math.abs(acidRequirement), MIN_ACID_REQUIREMENT)
+  model.constraints.acid = { equal: acidRequirement }
+  model.variables['over:acid'] = { cost: acidWeight, acid: -1 }
+  model.variables['under:acid'] = { cost: acidWeight, acid: 1 }
+
+  const ammoniumLimit = maxAmmoniumFraction * (targets.N ?? 0) - (ions.ammonium || 0) * ELEMENT_MASS.N
+  model.constraints.ammonium = { max: Math.max(0, ammoniumLimit) }
+
+  // Variables are mg of product per L of diluted solution
+  for (const fert of candidates) {
+    const variable: Record<string, number> = {
+      cost: fert.cost / 1000,
+      acid: acidEquivalents(fert) / 1000,
+      ammonium: (fert.analysis.NH4 || 0) / 100,
+      [`limit:${fert.id}`]: 1
+    }
+    for (const element of ELEMENTS) {
+      const percent = fert.analysis[element]
+      if (percent) variable[element] = percent / 100
+    }
+    model.variables[fert.id] = variable
+    model.constraints[`limit:${fert.id}`] = { max: (fert.maxConcentration ?? fert.solubility) * 1000 / concentrationFactor }
+  }
+
+  const solution = solver.Solve(model)
+  if (!solution.feasible) throw new Error(`No feasible formulation for recipe ${recipe.name}`)
+
+  const doses = candidates
+    .map(fert => ({ fert, amount: (solution[fert.id] as number | undefined) ?? 0 }))
+    .filter(dose => dose.amount > MIN_DOSE)
+
+  // Residual error per element
+  const residuals: Partial<Record<RecipeElement, ElementResidual>> = {}
+  let maxRelativeError = 0
+  for (const element of ELEMENTS) {
+    const target = targets[element] ?? 0
+    const fromWater = water[element] ?? 0
+    const fertilizer = doses.reduce((sum, { fert, amount }) => sum + amount * (fert.analysis[element] || 0) / 100, 0)
+    const achieved = fromWater + fertilizer
+    if (target <= 0 && achieved <= 0) continue
+
+    const error = achieved - target
+    const relativeError = target > 0 ? error / target : 0
+    residuals[element] = { target, water: fromWater, fertilizer, achieved, error, relativeError }
+
+    if (target > 0) {
+      maxRelativeError = Math.max(maxRelativeError, Math.abs(relativeError))
+      if (Math.abs(relativeError) > ELEMENT_WARNING) {
+        warnings.push(`${element}: ${achieved.toFixed(2)} ppm against a target of ${target} ppm`)
+      }
+    } else if (fertilizer > MIN_DOSE) {
+      warnings.push(`${element}: ${fertilizer.toFixed(2)} ppm added with no target`)
+    }
+  }
+
+  // pH and EC of the diluted solution
+  const acidSupplied = doses.reduce((sum, { fert, amount }) => sum + amount * acidEquivalents(fert) / 1000, 0)
+  const addedCarbonate = doses
+    .filter(({ fert }) => /CO3/.test(fert.formula))
+    .reduce((sum, { fert, amount }) => sum - amount * acidEquivalents(fert) / 2000, 0)
+  const achieved = (element: RecipeElement) => residuals[element]?.achieved ?? 0
+  const phosphate = achieved('P') / ELEMENT_MASS.P
+  const totalCarbonate = carbonate + addedCarbonate
+  const predictedPH = pHForAlkalinity(alkalinity - acidSupplied, totalCarbonate, phosphate)
+
+  const ammoniumN = (ions.ammonium || 0) * ELEMENT_MASS.N +
+    doses.reduce((sum, { fert, amount }) => sum + amount * (fert.analysis.NH4 || 0) / 100, 0)
+  const solutionIons: Partial<IonConcentrations> = {
+    calcium: ppmToMeqL('calcium', achieved('Ca')),
+    magnesium: ppmToMeqL('magnesium', achieved('Mg')),
+    potassium: ppmToMeqL('potassium', achieved('K')),
+    sodium: ppmToMeqL('sodium', achieved('Na')),
+    ammonium: ammoniumN / ELEMENT_MASS.N,
+    nitrate: Math.max(0, achieved('N') - ammoniumN) / ELEMENT_MASS.N,
+    phosphate, // H2PO4-, singly charged at nutrient solution pH
+    sulfate: 2 * achieved('S') / ELEMENT_MASS.S,
+    chloride: ppmToMeqL('chloride', achieved('Cl')),
+    bicarbonate: totalCarbonate / (1 + Math.pow(10, PKA_CARBONIC - predictedPH))
+  }
+  const cationSum = calculateCationSum(solutionIons)
+  const anionSum = calculateAnionSum(solutionIons)
+  const predictedEC = estimateEC(cationSum, anionSum)
+
+  if (Math.abs(predictedEC - recipe.targetEC) > EC_WARNING) {
+    warnings.push(`Predicted EC ${predictedEC.toFixed(2)} mS/cm differs from the target ${recipe.targetEC} mS/cm`)
+  }
+  if (Math.abs(predictedPH - recipe.targetPH) > 0.3) {
+    warnings.push(`Predicted pH ${predictedPH.toFixed(2)} differs from the target ${recipe.targetPH}`)
+  }
+
+  // Stock tank weighings
+  const assigned = assignTanks(doses, options.acidTank ?? false, warnings)
+  const tanks: StockTank[] = (['A', 'B', 'C'] as StockTankId[])
+    .filter(id => id !== 'C' || doses.some(({ fert }) => assigned.get(fert.id) === 'C'))
+    .map(id => {
+      const weighings = doses
+        .filter(({ fert }) => assigned.get(fert.id) === id)
+        .sort((a, b) => mixingRank(a.fert) - mixingRank(b.fert) || b.amount - a.amount)
+        .map(({ fert, amount }, index): StockTankWeighing => {
+          const grams = amount * concentrationFactor * tankVolume / 1000
+          return {
+            fertilizerId: fert.id,
+            name: fert.name,
+            tank: id,
+            order: index + 1,
+            finalConcentration: amount,
+            stockConcentration: amount * concentrationFactor / 1000,
+            grams,
+            millilitres: fert.type === 'acid' && fert.density ? grams / fert.density : undefined,
+            cost: grams / 1000 * fert.cost
+          }
+        })
+      return { id, volume: tankVolume, totalMass: weighings.reduce((sum, w) => sum + w.grams, 0), weighings }
+    })
+
+  const weighings = tanks.flatMap(tank => tank.weighings)
+  const batchCost = weighings.reduce((sum, w) => sum + w.cost, 0)
+  const costPerLiter = doses.reduce((sum, { fert, amount }) => sum + amount * fert.cost / 1e6, 0)
+  const now = new Date()
+
+  return {
+    tanks,
+    weighings,
+    residuals,
+    maxRelativeError,
+    acidRequirement,
+    acidSupplied,
+    predictedEC,
+    predictedPH,
+    ionBalance: calculateIonBalance(cationSum, anionSum),
+    costPerLiter,
+    batchCost,
+    formulation: {
+      id: `${recipe.id}-formulation`,
+      name: `${recipe.name} - Formulation`,
+      recipeId: recipe.id,
+      fertilizers: weighings.map(w => ({
+        fertId: w.fertilizerId,
+        name: w.name,
+        amount: w.stockConcentration,
+        stockTank: w.tank,
+        order: w.order
+      })),
+      stockConcentration: concentrationFactor,
+      totalCost: batchCost,
+      costPerLiter,
+      warnings,
+      createdAt: now,
+      updatedAt: now
+    },
+    warnings
+  }
+}
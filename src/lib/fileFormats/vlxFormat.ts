@@ -1,7 +1,24 @@
 // Vibelux (.vlx) File Format Specification and Handler
-// Custom binary/compressed format for Vibelux projects
-
-interface VLXHeader {
+// A .vlx file is a ZIP archive:
+//
+//   manifest.json            signature, container/schema versions, SHA-256 per entry
+//   project.json             metadata, electrical, scheduling, financial, designer state
+//   geometry.json            room and obstacles
+//   fixtures.json            fixture placements and models
+//   ies/<name>               IES photometry referenced by fixtures
+//   thumbnails/<name>        preview images
+//   calculations/<id>.json   calculation snapshots
+//
+// With a passphrase the archive above is AES-256-GCM encrypted (PBKDF2-SHA256
+// key) and stored as payload.bin next to a manifest that carries only versions,
+// timestamps and encryption parameters, so no project data is readable without it.
+// Legacy single-JSON files are migrated forward on read (see vlxMigrations).
+
+import JSZip from 'jszip';
+import { VLX_SCHEMA_VERSION, compareSchemaVersions, detectLegacySchemaVersion, migrateToCurrent } from './vlxMigrations';
+
+// Header of the legacy single-JSON document (schema 1.0.0)
+export interface VLXHeader {
   signature: 'VLX1'; // File format identifier
   version: string;
   created: string;
@@ -11,7 +28,7 @@ interface VLXHeader {
   encryption: 'none' | 'aes256';
 }
 
-interface VLXMetadata {
+export interface VLXMetadata {
   projectId: string;
   projectName: string;
   clientName?: string;
@@ -25,7 +42,7 @@ interface VLXMetadata {
   notes?: string;
 }
 
-interface VLXGeometry {
+export interface VLXGeometry {
   room: {
     dimensions: { length: number; width: number; height: number };
     unit: 'feet' | 'meters';
@@ -71,7 +88,7 @@ interface VLXGeometry {
   }>;
 }
 
-interface VLXAnalysis {
+export interface VLXAnalysis {
   ppfdGrid: number[][]; // Calculated PPFD values across room
   uniformityMetrics: {
     minAvgRatio: number;
@@ -101,7 +118,7 @@ interface VLXAnalysis {
   };
 }
 
-interface VLXElectrical {
+export interface VLXElectrical {
   circuits: Array<{
     id: string;
     name: string;
@@ -135,7 +152,7 @@ interface VLXElectrical {
   };
 }
 
-interface VLXScheduling {
+export interface VLXScheduling {
   schedules: Array<{
     id: string;
     name: string;
@@ -155,7 +172,7 @@ interface VLXScheduling {
   }>;
 }
 
-interface VLXFinancial {
+export interface VLXFinancial {
   costs: {
     fixtures: { unitCost: number; totalCost: number };
     installation: { laborHours: number; ratePerHour: number; totalCost: number };
@@ -180,7 +197,7 @@ interface VLXFinancial {
   }>;
 }
 
-interface VLXCompliance {
+export interface VLXCompliance {
   codes: Array<{
     jurisdiction: string;
     code: string; // e.g., "IECC 2021", "Title 24", "NEC 2020"
@@ -199,129 +216,506 @@ interface VLXCompliance {
   }>;
 }
 
-interface VLXDocument {
+export interface VLXDocument {
   header: VLXHeader;
   metadata: VLXMetadata;
   geometry: VLXGeometry;
-  analysis: VLXAnalysis;
-  electrical: VLXElectrical;
+  analysis?: VLXAnalysis;
+  electrical?: VLXElectrical;
   scheduling?: VLXScheduling;
   financial?: VLXFinancial;
   compliance?: VLXCompliance;
   customData?: Record<string, any>; // For future extensions
 }
 
+// Schema 2.0.0 bundle
+
+export type VLXFixture = VLXGeometry['fixtures'][number] & {
+  iesFile?: string; // Name of an entry under ies/
+};
+
+export interface VLXProject {
+  schemaVersion: string;
+  created: string;
+  modified: string;
+  metadata: Omit<VLXMetadata, 'thumbnail'>;
+  geometry: Omit<VLXGeometry, 'fixtures'>;
+  fixtures: VLXFixture[];
+  electrical?: VLXElectrical;
+  scheduling?: VLXScheduling;
+  financial?: VLXFinancial;
+  compliance?: VLXCompliance;
+  designerState?: Record<string, any>; // Designer room/objects/ui, restored as saved
+  customData?: Record<string, any>;
+}
+
+export interface VLXCalculationSnapshot {
+  id: string;
+  name: string;
+  type: string; // e.g. 'lighting-analysis', 'ppfd-grid'
+  createdAt: string;
+  data: any;
+}
+
+export interface VLXBundle {
+  project: VLXProject;
+  iesFiles: Record<string, string>; // File name -> IES LM-63 text
+  thumbnails: Record<string, Uint8Array>; // File name -> image bytes
+  calculations: VLXCalculationSnapshot[];
+}
+
+export interface VLXManifestEntry {
+  sha256: string;
+  size: number; // Bytes
+}
+
+export interface VLXEncryptionParams {
+  algorithm: 'AES-256-GCM';
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // Base64
+  iv: string; // Base64
+}
+
+export interface VLXManifest {
+  signature: 'VLX1';
+  containerVersion: number;
+  schemaVersion: string;
+  generator: string;
+  created: string;
+  modified: string;
+  compression: 'deflate';
+  encryption: 'none' | 'aes256';
+  encryptionParams?: VLXEncryptionParams;
+  entries: Record<string, VLXManifestEntry>;
+}
+
+export interface VLXWriteOptions {
+  passphrase?: string;
+  iterations?: number; // PBKDF2 rounds, defaults to 210,000
+}
+
+export interface VLXReadOptions {
+  passphrase?: string;
+}
+
+export interface VLXReadResult {
+  bundle: VLXBundle;
+  manifest: VLXManifest | null; // null for legacy JSON files
+  sourceSchemaVersion: string;
+  migrations: string[];
+  encrypted: boolean;
+}
+
+// Designer project shape ({ id, name, state, createdAt, updatedAt })
+export interface VLXDesignerProject {
+  id: string;
+  name: string;
+  state: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type VLXErrorCode =
+  | 'INVALID_FORMAT'
+  | 'CHECKSUM_MISMATCH'
+  | 'MISSING_ENTRY'
+  | 'PASSPHRASE_REQUIRED'
+  | 'INVALID_PASSPHRASE'
+  | 'UNSUPPORTED_VERSION';
+
+export class VLXFormatError extends Error {
+  constructor(message: string, public code: VLXErrorCode) {
+    super(message);
+    this.name = 'VLXFormatError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
 export class VLXFormat {
   private static readonly SIGNATURE = 'VLX1';
-  private static readonly CURRENT_VERSION = '1.0.0';
+  private static readonly CONTAINER_VERSION = 2;
+  private static readonly PBKDF2_ITERATIONS = 210000;
+  private static readonly FEET_PER_METER = 3.28084;
 
   // Create VLX file from project data
-  static async createVLX(projectData: any): Promise<Uint8Array> {
-    const vlxDoc: VLXDocument = {
-      header: {
-        signature: 'VLX1',
-        version: this.CURRENT_VERSION,
-        created: new Date().toISOString(),
-        modified: new Date().toISOString(),
-        checksum: '',
-        compression: 'gzip',
-        encryption: 'none'
-      },
-      metadata: {
-        projectId: projectData.id || `vlx-${Date.now()}`,
-        projectName: projectData.name || 'Untitled Project',
-        clientName: projectData.client,
-        location: projectData.location,
-        designType: projectData.designType || 'indoor',
-        tags: projectData.tags || [],
-        author: projectData.author || 'Vibelux User',
-        company: projectData.company,
-        notes: projectData.notes
-      },
-      geometry: {
-        room: projectData.room,
-        fixtures: projectData.fixtures,
-        obstacles: projectData.obstacles || []
+  static async createVLX(projectData: any, options: VLXWriteOptions = {}): Promise<Uint8Array> {
+    const now = new Date().toISOString();
+    const bundle: VLXBundle = {
+      project: {
+        schemaVersion: VLX_SCHEMA_VERSION,
+        created: projectData.created || now,
+        modified: now,
+        metadata: {
+          projectId: projectData.id || `vlx-${Date.now()}`,
+          projectName: projectData.name || 'Untitled Project',
+          clientName: projectData.client,
+          location: projectData.location,
+          designType: projectData.designType || 'indoor',
+          tags: projectData.tags || [],
+          author: projectData.author || 'Vibelux User',
+          company: projectData.company,
+          notes: projectData.notes
+        },
+        geometry: {
+          room: projectData.room,
+          obstacles: projectData.obstacles || []
+        },
+        fixtures: projectData.fixtures || [],
+        electrical: this.generateElectricalPlan(projectData),
+        scheduling: projectData.scheduling,
+        financial: projectData.financial,
+        compliance: projectData.compliance,
+        designerState: projectData.designerState
       },
-      analysis: this.calculateAnalysis(projectData),
-      electrical: this.generateElectricalPlan(projectData),
-      financial: projectData.financial,
-      compliance: projectData.compliance
+      iesFiles: projectData.iesFiles || {},
+      thumbnails: projectData.thumbnails || {},
+      calculations: [
+        {
+          id: 'analysis',
+          name: 'Lighting analysis',
+          type: 'lighting-analysis',
+          createdAt: now,
+          data: this.calculateAnalysis(projectData)
+        },
+        ...(projectData.calculations || [])
+      ]
     };
 
-    // Calculate checksum
-    const jsonStr = JSON.stringify(vlxDoc);
-    vlxDoc.header.checksum = await this.calculateChecksum(jsonStr);
+    return this.writeVLX(bundle, options);
+  }
 
-    // Compress if specified
-    let finalData: Uint8Array;
-    if (vlxDoc.header.compression === 'gzip') {
-      finalData = await this.compressGzip(jsonStr);
-    } else {
-      finalData = new TextEncoder().encode(jsonStr);
+  // Write a bundle as a .vlx archive, encrypted when a passphrase is given
+  static async writeVLX(bundle: VLXBundle, options: VLXWriteOptions = {}): Promise<Uint8Array> {
+    const archive = await this.packArchive(this.bundleToEntries(bundle), bundle.project, 'none');
+    if (!options.passphrase) {
+      return archive;
     }
 
-    return finalData;
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const iterations = options.iterations || this.PBKDF2_ITERATIONS;
+    const key = await this.deriveKey(options.passphrase, salt, iterations);
+    const payload = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, archive as BufferSource));
+
+    return this.packArchive({ 'payload.bin': payload }, bundle.project, 'aes256', {
+      algorithm: 'AES-256-GCM',
+      kdf: 'PBKDF2-SHA256',
+      iterations,
+      salt: this.toBase64(salt),
+      iv: this.toBase64(iv)
+    });
   }
 
-  // Parse VLX file
-  static async parseVLX(data: Uint8Array): Promise<VLXDocument> {
-    // Try to decompress if it's compressed
-    let jsonStr: string;
-    try {
-      jsonStr = await this.decompressGzip(data);
-    } catch {
-      // If decompression fails, try as raw text
-      jsonStr = new TextDecoder().decode(data);
+  // Read a .vlx archive or legacy JSON project and migrate it to the current schema
+  static async readVLX(data: Uint8Array, options: VLXReadOptions = {}): Promise<VLXReadResult> {
+    if (!this.isArchive(data)) {
+      return this.readLegacy(data);
     }
 
-    const vlxDoc: VLXDocument = JSON.parse(jsonStr);
+    const { manifest, files } = await this.unpackArchive(data);
+
+    if (manifest.encryption === 'aes256') {
+      if (!options.passphrase) {
+        throw new VLXFormatError('This VLX file is encrypted and needs a passphrase', 'PASSPHRASE_REQUIRED');
+      }
+      const params = manifest.encryptionParams;
+      if (!params || !files['payload.bin']) {
+        throw new VLXFormatError('Encrypted VLX file is missing its payload', 'MISSING_ENTRY');
+      }
 
-    // Verify signature
-    if (vlxDoc.header.signature !== this.SIGNATURE) {
-      throw new Error('Invalid VLX file: Wrong signature');
+      const key = await this.deriveKey(options.passphrase, this.fromBase64(params.salt), params.iterations);
+      let archive: Uint8Array;
+      try {
+        archive = new Uint8Array(await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: this.fromBase64(params.iv) as BufferSource },
+          key,
+          files['payload.bin'] as BufferSource
+        ));
+      } catch {
+        // The payload checksum already passed, so a failed tag means the wrong key
+        throw new VLXFormatError('Incorrect passphrase for encrypted VLX file', 'INVALID_PASSPHRASE');
+      }
+
+      const inner = await this.readVLX(archive);
+      return { ...inner, encrypted: true };
     }
 
-    // Verify checksum
-    const tempChecksum = vlxDoc.header.checksum;
-    vlxDoc.header.checksum = '';
-    const calculatedChecksum = await this.calculateChecksum(JSON.stringify(vlxDoc));
-    
-    if (tempChecksum !== calculatedChecksum) {
-      console.warn('VLX file checksum mismatch - file may be corrupted');
+    const { bundle, applied } = migrateToCurrent(this.entriesToBundle(files), manifest.schemaVersion);
+    return {
+      bundle,
+      manifest,
+      sourceSchemaVersion: manifest.schemaVersion,
+      migrations: applied,
+      encrypted: false
+    };
+  }
+
+  // Parse VLX file
+  static async parseVLX(data: Uint8Array, options: VLXReadOptions = {}): Promise<VLXBundle> {
+    return (await this.readVLX(data, options)).bundle;
+  }
+
+  static async isEncrypted(data: Uint8Array): Promise<boolean> {
+    if (!this.isArchive(data)) return false;
+    try {
+      const manifest = await (await JSZip.loadAsync(data)).file('manifest.json')?.async('string');
+      return !!manifest && JSON.parse(manifest).encryption === 'aes256';
+    } catch {
+      return false;
     }
+  }
 
-    vlxDoc.header.checksum = tempChecksum;
-    return vlxDoc;
+  // Designer projects are schema 0.0.0 and reach the current bundle through the migrations
+  static fromDesignerProject(project: VLXDesignerProject): VLXBundle {
+    return migrateToCurrent(project, '0.0.0').bundle;
+  }
+
+  static toDesignerProject(bundle: VLXBundle): VLXDesignerProject {
+    const { project } = bundle;
+    return {
+      id: project.metadata.projectId,
+      name: project.metadata.projectName,
+      state: project.designerState || this.designerStateFromGeometry(project),
+      createdAt: project.created,
+      updatedAt: project.modified
+    };
   }
 
   // Export to standard formats
-  static exportToJSON(vlxDoc: VLXDocument): string {
-    return JSON.stringify(vlxDoc, null, 2);
+  static exportToJSON(bundle: VLXBundle): string {
+    return JSON.stringify({ ...bundle.project, calculations: bundle.calculations }, null, 2);
   }
 
-  static exportToVibeluxProject(vlxDoc: VLXDocument): any {
+  static exportToVibeluxProject(bundle: VLXBundle): any {
+    const { project } = bundle;
     return {
       version: "1.0",
       timestamp: Date.now(),
       project: {
-        id: vlxDoc.metadata.projectId,
-        name: vlxDoc.metadata.projectName,
-        client: vlxDoc.metadata.clientName,
-        location: vlxDoc.metadata.location,
-        designType: vlxDoc.metadata.designType
+        id: project.metadata.projectId,
+        name: project.metadata.projectName,
+        client: project.metadata.clientName,
+        location: project.metadata.location,
+        designType: project.metadata.designType
       },
-      room: vlxDoc.geometry.room,
-      fixtures: vlxDoc.geometry.fixtures,
+      room: project.geometry.room,
+      fixtures: project.fixtures,
       config: {
-        spaceType: vlxDoc.geometry.room.type,
-        dimensions: vlxDoc.geometry.room.dimensions,
-        unit: vlxDoc.geometry.room.unit,
+        spaceType: project.geometry.room.type,
+        dimensions: project.geometry.room.dimensions,
+        unit: project.geometry.room.unit,
         includeCAD: true
       }
     };
   }
 
+  // Archive layout
+  private static bundleToEntries(bundle: VLXBundle): Record<string, Uint8Array> {
+    const json = (value: any) => encoder.encode(JSON.stringify(value, null, 2));
+    const { geometry, fixtures, ...project } = bundle.project;
+
+    const files: Record<string, Uint8Array> = {
+      'project.json': json(project),
+      'geometry.json': json(geometry),
+      'fixtures.json': json(fixtures)
+    };
+    Object.entries(bundle.iesFiles).forEach(([name, text]) => {
+      files[`ies/${this.entryName(name)}`] = encoder.encode(text);
+    });
+    Object.entries(bundle.thumbnails).forEach(([name, bytes]) => {
+      files[`thumbnails/${this.entryName(name)}`] = bytes;
+    });
+    bundle.calculations.forEach(snapshot => {
+      files[`calculations/${this.entryName(snapshot.id)}.json`] = json(snapshot);
+    });
+
+    return files;
+  }
+
+  private static entriesToBundle(files: Record<string, Uint8Array>): VLXBundle {
+    const json = (path: string) => {
+      if (!files[path]) {
+        throw new VLXFormatError(`VLX file is missing ${path}`, 'MISSING_ENTRY');
+      }
+      return JSON.parse(decoder.decode(files[path]));
+    };
+
+    const bundle: VLXBundle = {
+      project: { ...json('project.json'), geometry: json('geometry.json'), fixtures: json('fixtures.json') },
+      iesFiles: {},
+      thumbnails: {},
+      calculations: []
+    };
+
+    Object.keys(files).forEach(path => {
+      const [folder, name] = path.split('/');
+      if (folder === 'ies') bundle.iesFiles[name] = decoder.decode(files[path]);
+      if (folder === 'thumbnails') bundle.thumbnails[name] = files[path];
+      if (folder === 'calculations') bundle.calculations.push(json(path));
+    });
+
+    return bundle;
+  }
+
+  private static async packArchive(
+    files: Record<string, Uint8Array>,
+    project: VLXProject,
+    encryption: VLXManifest['encryption'],
+    encryptionParams?: VLXEncryptionParams
+  ): Promise<Uint8Array> {
+    const paths = Object.keys(files).sort();
+    const entries: Record<string, VLXManifestEntry> = {};
+    for (const path of paths) {
+      entries[path] = { sha256: await this.calculateChecksum(files[path]), size: files[path].length };
+    }
+
+    const manifest: VLXManifest = {
+      signature: this.SIGNATURE,
+      containerVersion: this.CONTAINER_VERSION,
+      schemaVersion: project.schemaVersion,
+      generator: 'Vibelux',
+      created: project.created,
+      modified: project.modified,
+      compression: 'deflate',
+      encryption,
+      encryptionParams,
+      entries
+    };
+
+    const zip = new JSZip();
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+    paths.forEach(path => {
+      // Ciphertext does not compress
+      zip.file(path, files[path], { compression: encryption === 'none' ? 'DEFLATE' : 'STORE' });
+    });
+
+    return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+  }
+
+  private static async unpackArchive(data: Uint8Array): Promise<{ manifest: VLXManifest; files: Record<string, Uint8Array> }> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(data);
+    } catch {
+      throw new VLXFormatError('Invalid VLX file: archive is corrupted', 'INVALID_FORMAT');
+    }
+
+    const manifestFile = zip.file('manifest.json');
+    if (!manifestFile) {
+      throw new VLXFormatError('VLX file is missing manifest.json', 'MISSING_ENTRY');
+    }
+
+    const manifest: VLXManifest = JSON.parse(await manifestFile.async('string'));
+    if (manifest.signature !== this.SIGNATURE) {
+      throw new VLXFormatError('Invalid VLX file: Wrong signature', 'INVALID_FORMAT');
+    }
+    if (
+      manifest.containerVersion > this.CONTAINER_VERSION ||
+      compareSchemaVersions(manifest.schemaVersion, VLX_SCHEMA_VERSION) > 0
+    ) {
+      throw new VLXFormatError(
+        `VLX schema ${manifest.schemaVersion} is newer than this version of Vibelux supports`,
+        'UNSUPPORTED_VERSION'
+      );
+    }
+
+    // Only entries listed in the manifest are read, so every byte used is verified
+    const files: Record<string, Uint8Array> = {};
+    for (const [path, entry] of Object.entries(manifest.entries)) {
+      const file = zip.file(path);
+      if (!file) {
+        throw new VLXFormatError(`VLX file is missing ${path}`, 'MISSING_ENTRY');
+      }
+      const bytes = await file.async('uint8array');
+      if (bytes.length !== entry.size || await this.calculateChecksum(bytes) !== entry.sha256) {
+        throw new VLXFormatError(`VLX file checksum mismatch for ${path} - file is corrupted`, 'CHECKSUM_MISMATCH');
+      }
+      files[path] = bytes;
+    }
+
+    return { manifest, files };
+  }
+
+  // Single-JSON files written before the archive container
+  private static async readLegacy(data: Uint8Array): Promise<VLXReadResult> {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(decoder.decode(data));
+    } catch {
+      throw new VLXFormatError('Invalid VLX file: not a VLX archive or project file', 'INVALID_FORMAT');
+    }
+
+    const version = detectLegacySchemaVersion(parsed);
+    if (!version) {
+      throw new VLXFormatError('Invalid VLX file: Wrong signature', 'INVALID_FORMAT');
+    }
+
+    // 1.0.0 hashed the document with an empty checksum field
+    if (parsed.header?.checksum) {
+      const expected = parsed.header.checksum;
+      const calculated = await this.calculateChecksum(
+        encoder.encode(JSON.stringify({ ...parsed, header: { ...parsed.header, checksum: '' } }))
+      );
+      if (calculated !== expected) {
+        throw new VLXFormatError('VLX file checksum mismatch - file is corrupted', 'CHECKSUM_MISMATCH');
+      }
+    }
+
+    const { bundle, applied } = migrateToCurrent(parsed, version);
+    return { bundle, manifest: null, sourceSchemaVersion: version, migrations: applied, encrypted: false };
+  }
+
+  // Rebuild designer room and fixture objects for files saved outside the designer
+  private static designerStateFromGeometry(project: VLXProject): Record<string, any> {
+    const room = project.geometry.room;
+    const scale = room?.unit === 'meters' ? this.FEET_PER_METER : 1;
+    const dimensions = room?.dimensions || { length: 0, width: 0, height: 0 };
+
+    return {
+      room: {
+        width: dimensions.width * scale,
+        length: dimensions.length * scale,
+        height: dimensions.height * scale,
+        ceilingHeight: dimensions.height * scale,
+        workingHeight: 3,
+        reflectances: { ceiling: 0.8, walls: 0.5, floor: 0.2 },
+        roomType: room?.type || 'indoor',
+        spaceType: room?.type === 'greenhouse' ? 'greenhouse' : 'indoor',
+        windows: [],
+        location: room?.coordinates ? { latitude: room.coordinates.lat, longitude: room.coordinates.lng } : undefined
+      },
+      objects: project.fixtures.map(fixture => ({
+        id: fixture.id,
+        type: 'fixture',
+        x: fixture.position.x * scale,
+        y: fixture.position.y * scale,
+        z: fixture.position.z * scale,
+        rotation: fixture.rotation?.z || 0,
+        width: fixture.model.specifications.dimensions.width * scale,
+        length: fixture.model.specifications.dimensions.length * scale,
+        height: fixture.model.specifications.dimensions.height * scale,
+        enabled: fixture.enabled,
+        locked: fixture.locked,
+        group: fixture.groupId,
+        dimmingLevel: fixture.dimmingLevel,
+        iesFile: fixture.iesFile,
+        model: {
+          id: fixture.model.partNumber,
+          name: fixture.model.name,
+          manufacturer: fixture.model.manufacturer,
+          wattage: fixture.model.specifications.power,
+          ppf: fixture.model.specifications.ppf,
+          efficacy: fixture.model.specifications.efficacy,
+          spectrum: fixture.model.specifications.spectrum,
+          beamAngle: fixture.model.specifications.beamAngle || 120
+        }
+      }))
+    };
+  }
+
   // Helper methods
   private static calculateAnalysis(projectData: any): VLXAnalysis {
     const fixtures = projectData.fixtures || [];
@@ -413,24 +807,46 @@ export class VLXFormat {
     };
   }
 
-  private static async calculateChecksum(data: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
+  private static async calculateChecksum(data: Uint8Array): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', data as BufferSource);
     const hashArray = Array.from(new Uint8Array(hashBuffer));
     return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
   }
 
-  private static async compressGzip(data: string): Promise<Uint8Array> {
-    // Note: This is a simplified implementation
-    // In a real application, you'd use a proper gzip library
-    return new TextEncoder().encode(data);
+  private static async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private static isArchive(data: Uint8Array): boolean {
+    return data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+  }
+
+  // Names become archive paths, so they must stay inside their folder
+  private static entryName(name: string): string {
+    if (!name || name === '.' || name === '..' || /[\\/]/.test(name)) {
+      throw new VLXFormatError(`Invalid VLX entry name: ${name}`, 'INVALID_FORMAT');
+    }
+    return name;
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
   }
 
-  private static async decompressGzip(data: Uint8Array): Promise<string> {
-    // Note: This is a simplified implementation
-    // In a real application, you'd use a proper gzip library
-    return new TextDecoder().decode(data);
+  private static fromBase64(value: string): Uint8Array {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
   }
 }
 
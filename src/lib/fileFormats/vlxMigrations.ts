@@ -0,0 +1,207 @@
+// Vibelux (.vlx) schema migrations
+// Every schema the designer has ever written is upgraded step by step to the
+// current bundle layout, so older projects keep opening after format changes.
+//
+//   0.0.0  Designer JSON export ({ id, name, state, createdAt, updatedAt })
+//   1.0.0  Single JSON VLXDocument with header, geometry and analysis
+//   2.0.0  Archive bundle: project, fixtures, IES files, thumbnails, calculations
+
+import type { VLXBundle, VLXDocument, VLXGeometry, VLXProject } from './vlxFormat';
+
+export const VLX_SCHEMA_VERSION = '2.0.0';
+
+export interface VLXMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (input: any) => any;
+}
+
+// Ordered so that each step's `to` is the next step's `from`
+export const VLX_MIGRATIONS: VLXMigration[] = [
+  {
+    from: '0.0.0',
+    to: '1.0.0',
+    description: 'Designer JSON export to VLX document',
+    migrate: designerProjectToDocument
+  },
+  {
+    from: '1.0.0',
+    to: '2.0.0',
+    description: 'Move fixtures, thumbnails and analysis out of the document into bundle entries',
+    migrate: documentToBundle
+  }
+];
+
+export function compareSchemaVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// Schema version of a JSON file that predates the archive container
+export function detectLegacySchemaVersion(input: any): string | null {
+  if (input?.header?.signature === 'VLX1') return input.header.version || '1.0.0';
+  if (input && typeof input === 'object' && input.state && typeof input.state === 'object') return '0.0.0';
+  return null;
+}
+
+// Apply every migration from `fromVersion` up to the current schema
+export function migrateToCurrent(input: any, fromVersion: string): { bundle: VLXBundle; applied: string[] } {
+  let data = input;
+  let version = fromVersion;
+  const applied: string[] = [];
+
+  while (compareSchemaVersions(version, VLX_SCHEMA_VERSION) < 0) {
+    const step = VLX_MIGRATIONS.find(m => m.from === version);
+    if (!step) {
+      throw new Error(`No migration path from VLX schema ${version}`);
+    }
+    data = step.migrate(data);
+    applied.push(`${step.from} -> ${step.to}`);
+    version = step.to;
+  }
+
+  return { bundle: data as VLXBundle, applied };
+}
+
+// 0.0.0 -> 1.0.0
+function designerProjectToDocument(project: any): VLXDocument {
+  const state = project.state || {};
+  const room = state.room || {};
+  const objects: any[] = state.objects || [];
+  const calculations = state.calculations;
+  const timestamp = project.updatedAt || project.createdAt || new Date().toISOString();
+
+  const fixtures: VLXGeometry['fixtures'] = objects
+    .filter(obj => obj.type === 'fixture')
+    .map(obj => ({
+      id: obj.id,
+      position: { x: obj.x, y: obj.y, z: obj.z },
+      rotation: { x: 0, y: 0, z: obj.rotation || 0 },
+      model: {
+        manufacturer: obj.model?.manufacturer || 'Unknown',
+        name: obj.model?.name || obj.customName || 'Fixture',
+        partNumber: obj.model?.id,
+        specifications: {
+          power: obj.model?.wattage || 0,
+          ppf: obj.model?.ppf || 0,
+          efficacy: obj.model?.efficacy || (obj.model?.wattage ? obj.model.ppf / obj.model.wattage : 0),
+          spectrum: obj.model?.spectrum || 'Full Spectrum',
+          dimensions: { length: obj.length, width: obj.width, height: obj.height },
+          beamAngle: obj.model?.beamAngle
+        }
+      },
+      dimmingLevel: obj.dimmingLevel,
+      enabled: obj.enabled !== false,
+      locked: obj.locked,
+      groupId: obj.group
+    }));
+
+  return {
+    header: {
+      signature: 'VLX1',
+      version: '1.0.0',
+      created: project.createdAt || timestamp,
+      modified: timestamp,
+      checksum: '',
+      compression: 'none',
+      encryption: 'none'
+    },
+    metadata: {
+      projectId: project.id || `vlx-${Date.now()}`,
+      projectName: project.name || 'Untitled Project',
+      designType: room.spaceType || 'indoor',
+      tags: [],
+      author: 'Vibelux User'
+    },
+    geometry: {
+      room: {
+        dimensions: { length: room.length || 0, width: room.width || 0, height: room.height || 0 },
+        unit: 'feet',
+        type: room.spaceType === 'greenhouse' ? 'greenhouse' : 'indoor',
+        coordinates: room.location ? { lat: room.location.latitude, lng: room.location.longitude } : undefined
+      },
+      fixtures,
+      obstacles: []
+    },
+    analysis: calculations && calculations.lastCalculated ? {
+      ppfdGrid: calculations.ppfdGrid || [],
+      uniformityMetrics: calculations.uniformityMetrics || {
+        minAvgRatio: calculations.uniformity || 0,
+        avgMaxRatio: 0,
+        minMaxRatio: 0,
+        cv: 0
+      },
+      lightingMetrics: {
+        averagePPFD: calculations.averagePPFD || 0,
+        minPPFD: calculations.minPPFD || 0,
+        maxPPFD: calculations.maxPPFD || 0,
+        totalPPF: fixtures.reduce((sum, f) => sum + f.model.specifications.ppf, 0),
+        dli: calculations.dli || 0,
+        photoperiod: 12
+      },
+      powerMetrics: {
+        totalPower: fixtures.reduce((sum, f) => sum + f.model.specifications.power, 0),
+        powerDensity: 0,
+        efficacy: 0,
+        annualConsumption: 0,
+        estimatedCost: 0
+      }
+    } : undefined,
+    customData: {
+      designerState: { room: state.room, objects, ui: state.ui }
+    }
+  };
+}
+
+// 1.0.0 -> 2.0.0
+function documentToBundle(doc: VLXDocument): VLXBundle {
+  const { thumbnail, ...metadata } = doc.metadata;
+  const { designerState, ...customData } = doc.customData || {};
+  const { fixtures = [], ...geometry } = doc.geometry;
+
+  const project: VLXProject = {
+    schemaVersion: '2.0.0',
+    created: doc.header.created,
+    modified: doc.header.modified,
+    metadata,
+    geometry,
+    fixtures,
+    electrical: doc.electrical,
+    scheduling: doc.scheduling,
+    financial: doc.financial,
+    compliance: doc.compliance,
+    designerState,
+    customData: Object.keys(customData).length > 0 ? customData : undefined
+  };
+
+  const thumbnails: Record<string, Uint8Array> = {};
+  if (thumbnail) {
+    thumbnails['thumbnail.png'] = decodeBase64(thumbnail.replace(/^data:[^,]*,/, ''));
+  }
+
+  return {
+    project,
+    iesFiles: {},
+    thumbnails,
+    calculations: doc.analysis ? [{
+      id: 'analysis',
+      name: 'Lighting analysis',
+      type: 'lighting-analysis',
+      createdAt: doc.header.modified,
+      data: doc.analysis
+    }] : []
+  };
+}
+
+function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -2,7 +2,7 @@ import type { FixtureModel } from '@/components/FixtureLibrary'
 import type { ParsedIESFile } from '@/lib/ies-parser'
 import type { IESPhotometry } from '@/lib/ies-generator'
 import { dlcFixturesParser } from '@/lib/dlc-fixtures-parser'
-import { parseIESFile, validateIESFile } from '@/lib/ies-parser'
+import { parsePhotometricFile, validatePhotometricFile, detectPhotometricFormat } from '@/lib/photometric/photometric-file'
 import { generateIESFile, generateIESPhotometry } from '@/lib/ies-generator'
 
 export interface CustomFixture extends FixtureModel {
@@ -448,14 +448,15 @@ export class FixtureLibraryManager {
 
     try {
       const content = await file.text()
-      const validation = validateIESFile(content)
+      const format = detectPhotometricFormat(content, file.name)
+      const validation = validatePhotometricFile(content, file.name)
       
       if (!validation.valid) {
         result.errors = validation.errors
         return result
       }
 
-      const parsedIES = parseIESFile(content)
+      const parsedIES = parsePhotometricFile(content, file.name)
 
       // Derive horticulture PPF using electrical power and assumed PPE when spectral data is unavailable.
       // Do NOT convert lumens to PPF – that depends on spectrum and is not reliable from IES alone.
@@ -491,7 +492,7 @@ export class FixtureLibraryManager {
           fieldAngle: parsedIES.photometry.fieldAngle
         },
         tags: ['IES Import', parsedIES.header.manufacturer || 'Unknown'],
-        importSource: 'ies'
+        importSource: format === 'ldt' ? 'eulumdat' : 'ies'
       }
 
       const created = this.createFixture(fixture)
@@ -1,6 +1,9 @@
 // Greenhouse Automation Rules Engine
 // Implements intelligent control logic for greenhouse operations
 
+import { z } from 'zod';
+import { logger } from '@/lib/logging/production-logger';
+
 export interface SensorData {
   temperature: number;
   humidity: number;
@@ -38,8 +41,9 @@ export interface Condition {
   type: 'sensor' | 'time' | 'date' | 'weather' | 'stage';
   parameter: string;
   operator: '<' | '>' | '=' | '<=' | '>=' | '!=' | 'between' | 'outside';
-  value: number | string | [number, number];
+  value: number | string | [number, number] | [string, string];
   duration?: number; // Minutes the condition must be true
+  zone?: string; // Sensor zone; omitted = any zone
 }
 
 export interface Action {
@@ -57,6 +61,113 @@ export interface Schedule {
   stageName?: string;
 }
 
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const conditionSchema = z.object({
+  type: z.enum(['sensor', 'time', 'date', 'weather', 'stage']),
+  parameter: z.string().min(1),
+  operator: z.enum(['<', '>', '=', '<=', '>=', '!=', 'between', 'outside']),
+  value: z.union([
+    z.number(),
+    z.string(),
+    z.tuple([z.number(), z.number()]),
+    z.tuple([z.string(), z.string()])
+  ]),
+  duration: z.number().nonnegative().optional(),
+  zone: z.string().min(1).optional()
+}).superRefine((condition, ctx) => {
+  const range = condition.operator === 'between' || condition.operator === 'outside';
+  const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+  if (range !== Array.isArray(condition.value)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: range ? `'${condition.operator}' needs a [low, high] pair` : `'${condition.operator}' needs a single value`
+    });
+    return;
+  }
+  switch (condition.type) {
+    case 'sensor':
+    case 'weather':
+      if (values.some(v => typeof v !== 'number')) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `${condition.type} conditions compare numbers` });
+      } else if (range && (values[0] as number) > (values[1] as number)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Range low must not exceed high' });
+      }
+      break;
+    case 'time':
+      // Time windows may wrap past midnight, e.g. ['18:00', '06:00']
+      if (values.some(v => typeof v !== 'string' || !TIME_OF_DAY.test(v))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Time conditions use HH:MM' });
+      }
+      break;
+    case 'date':
+      if (values.some(v => typeof v !== 'string' || !ISO_DATE.test(v))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Date conditions use YYYY-MM-DD' });
+      }
+      break;
+    case 'stage':
+      if (typeof condition.value !== 'string' || (condition.operator !== '=' && condition.operator !== '!=')) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: "Stage conditions use '=' or '!=' with a stage name" });
+      }
+      break;
+  }
+});
+
+const actionSchema = z.object({
+  actuatorId: z.string().min(1),
+  command: z.enum(['on', 'off', 'set', 'increment', 'decrement']),
+  value: z.number().optional(),
+  rampTime: z.number().nonnegative().optional()
+}).superRefine((action, ctx) => {
+  if (action.command === 'set' && (action.value === undefined || action.value < 0 || action.value > 100)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: "'set' needs a value between 0 and 100" });
+  }
+  if ((action.command === 'increment' || action.command === 'decrement') && action.value !== undefined && action.value < 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Step must be positive' });
+  }
+});
+
+const scheduleSchema = z.object({
+  type: z.enum(['daily', 'weekly', 'stage-based']),
+  startTime: z.string().regex(TIME_OF_DAY, 'Expected HH:MM').optional(),
+  endTime: z.string().regex(TIME_OF_DAY, 'Expected HH:MM').optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+  stageName: z.string().optional()
+}).refine(schedule => (schedule.startTime === undefined) === (schedule.endTime === undefined), {
+  message: 'startTime and endTime must be given together'
+});
+
+/**
+ * Validated rule definition shared by the in-memory engine and persisted HMI rules
+ */
+export const automationRuleSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  enabled: z.boolean().default(true),
+  priority: z.number().int().default(0),
+  conditions: z.array(conditionSchema).min(1),
+  actions: z.array(actionSchema).min(1),
+  schedule: scheduleSchema.optional(),
+  cooldownMinutes: z.number().nonnegative().optional()
+});
+
+export type AutomationRuleInput = z.input<typeof automationRuleSchema>;
+
+/**
+ * Validate untrusted rule JSON; throws a ZodError listing every problem
+ */
+export function parseAutomationRule(input: unknown, id?: string): Rule {
+  const parsed = automationRuleSchema.parse(input);
+  const ruleId = id ?? parsed.id;
+  if (!ruleId) {
+    throw new Error('Rule id is required');
+  }
+  return { ...parsed, id: ruleId } as Rule;
+}
+
 export interface RuleLog {
   ruleId: string;
   timestamp: Date;
@@ -642,7 +753,7 @@ export class GreenhouseAutomationEngine {
   private evaluateComparison(
     value: any, 
     operator: Condition['operator'], 
-    target: number | string | [number, number]
+    target: Condition['value']
   ): boolean {
     switch (operator) {
       case '<': return value < target;
@@ -855,7 +966,7 @@ export class GreenhouseAutomationEngine {
       const importedRules = JSON.parse(rulesJson) as Rule[];
       importedRules.forEach(rule => this.addRule(rule));
     } catch (error) {
-      logger.error('api', 'Failed to import rules:', error );
+      logger.error('Failed to import rules:', error);
       throw new Error('Invalid rules configuration');
     }
   }
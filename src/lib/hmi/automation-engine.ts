@@ -0,0 +1,525 @@
+/**
+ * HMI Automation Rule Evaluation
+ * Pure evaluation of validated automation rules against sensor reading series:
+ * conditions with hold durations, schedules, cooldowns and per-actuator priority
+ * arbitration, plus static detection of rules that fight over the same actuator.
+ */
+
+import type { Action, Condition, Rule, Schedule } from '@/lib/greenhouse-automation-rules';
+
+export interface SensorReadingPoint {
+  sensorType: string;
+  zone?: string | null;
+  value: number;
+  timestamp: Date;
+}
+
+export interface EvaluationContext {
+  readings: ReadingSeries;
+  maxReadingAgeMinutes?: number; // Readings older than this count as missing, default 15
+  timeZone?: string; // IANA zone for time/date conditions and schedules, default server local
+  growthStage?: string; // Current stage for 'stage' conditions and stage-based schedules
+}
+
+export interface EngineState {
+  lastTriggered: Map<string, Date>; // ruleId -> last firing
+  levels: Map<string, number>; // actuatorId -> last commanded level (0-100)
+}
+
+export interface PlannedCommand {
+  actuatorId: string;
+  command: Action['command'];
+  value?: number;
+  level: number; // Resulting output level 0-100
+}
+
+export interface ConditionResult {
+  met: boolean;
+  value: number | string | null;
+}
+
+export interface RuleFiring {
+  ruleId: string;
+  ruleName: string;
+  priority: number;
+  conditions: ConditionResult[];
+  commands: PlannedCommand[]; // Won arbitration, to dispatch
+  suppressed: { command: PlannedCommand; byRuleId: string }[]; // Lost to a higher-priority rule
+}
+
+export interface CycleResult {
+  at: Date;
+  firings: RuleFiring[];
+}
+
+export interface RuleConflict {
+  actuatorId: string;
+  rules: { id: string; name: string; priority: number; command: Action['command']; value?: number }[];
+  severity: 'error' | 'warning'; // error: equal priority, outcome depends on evaluation order
+  winnerId: string | null;
+  reason: string;
+}
+
+const DEFAULT_MAX_READING_AGE_MINUTES = 15;
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Time-ordered readings keyed by sensor type and zone; readings without a zone
+ * filter are served from the merged series of every zone
+ */
+export class ReadingSeries {
+  private series = new Map<string, { t: number; value: number }[]>();
+
+  constructor(readings: SensorReadingPoint[] = []) {
+    for (const reading of readings) {
+      this.push(`${reading.sensorType}|${reading.zone ?? ''}`, reading);
+      this.push(`${reading.sensorType}|*`, reading);
+    }
+    this.series.forEach(points => points.sort((a, b) => a.t - b.t));
+  }
+
+  private push(key: string, reading: SensorReadingPoint) {
+    const points = this.series.get(key) ?? [];
+    points.push({ t: reading.timestamp.getTime(), value: reading.value });
+    this.series.set(key, points);
+  }
+
+  private points(parameter: string, zone?: string) {
+    return this.series.get(`${parameter}|${zone ?? '*'}`) ?? [];
+  }
+
+  // Index of the last reading at or before t, -1 if none
+  private indexAt(points: { t: number }[], t: number): number {
+    let lo = 0;
+    let hi = points.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (points[mid].t <= t) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  }
+
+  latest(parameter: string, zone: string | undefined, at: Date): { timestamp: Date; value: number } | undefined {
+    const points = this.points(parameter, zone);
+    const index = this.indexAt(points, at.getTime());
+    return index < 0 ? undefined : { timestamp: new Date(points[index].t), value: points[index].value };
+  }
+
+  /**
+   * True when the value in effect held the predicate for the whole window (at - minutes, at]
+   */
+  heldFor(parameter: string, zone: string | undefined, at: Date, minutes: number, predicate: (value: number) => boolean): boolean {
+    const points = this.points(parameter, zone);
+    const end = this.indexAt(points, at.getTime());
+    const start = this.indexAt(points, at.getTime() - minutes * MS_PER_MINUTE);
+    if (start < 0 || end < 0) return false;
+    for (let i = start; i <= end; i++) {
+      if (!predicate(points[i].value)) return false;
+    }
+    return true;
+  }
+}
+
+function localParts(at: Date, timeZone?: string): { minutes: number; weekday: number; date: string } {
+  if (!timeZone) {
+    const date = `${at.getFullYear()}-${String(at.getMonth() + 1).padStart(2, '0')}-${String(at.getDate()).padStart(2, '0')}`;
+    return { minutes: at.getHours() * 60 + at.getMinutes(), weekday: at.getDay(), date };
+  }
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short'
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  return {
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+    weekday: weekdays.indexOf(part('weekday')),
+    date: `${part('year')}-${part('month')}-${part('day')}`
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minute-of-day window [start, end], wrapping past midnight when start > end
+function inWindow(minute: number, start: number, end: number): boolean {
+  return start <= end ? minute >= start && minute <= end : minute >= start || minute <= end;
+}
+
+function compare<T extends number | string>(value: T, operator: Condition['operator'], target: T | [T, T]): boolean {
+  if (Array.isArray(target)) {
+    const inside = value >= target[0] && value <= target[1];
+    if (operator === 'between') return inside;
+    if (operator === 'outside') return !inside;
+    return false;
+  }
+  switch (operator) {
+    case '<': return value < target;
+    case '>': return value > target;
+    case '=': return value === target;
+    case '<=': return value <= target;
+    case '>=': return value >= target;
+    case '!=': return value !== target;
+    default: return false;
+  }
+}
+
+export function evaluateCondition(condition: Condition, at: Date, context: EvaluationContext): ConditionResult {
+  switch (condition.type) {
+    case 'sensor':
+    case 'weather': {
+      const reading = context.readings.latest(condition.parameter, condition.zone, at);
+      const maxAge = context.maxReadingAgeMinutes ?? DEFAULT_MAX_READING_AGE_MINUTES;
+      if (!reading || at.getTime() - reading.timestamp.getTime() > maxAge * MS_PER_MINUTE) {
+        return { met: false, value: null };
+      }
+      const target = condition.value as number | [number, number];
+      const predicate = (value: number) => compare(value, condition.operator, target);
+      const met = condition.duration
+        ? context.readings.heldFor(condition.parameter, condition.zone, at, condition.duration, predicate)
+        : predicate(reading.value);
+      return { met, value: reading.value };
+    }
+
+    case 'time': {
+      const { minutes } = localParts(at, context.timeZone);
+      const value = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+      if (Array.isArray(condition.value)) {
+        const inside = inWindow(minutes, toMinutes(String(condition.value[0])), toMinutes(String(condition.value[1])));
+        return { met: condition.operator === 'between' ? inside : !inside, value };
+      }
+      return { met: compare(minutes, condition.operator, toMinutes(String(condition.value))), value };
+    }
+
+    case 'date': {
+      const { date } = localParts(at, context.timeZone);
+      return { met: compare(date, condition.operator, condition.value as string | [string, string]), value: date };
+    }
+
+    case 'stage': {
+      const stage = context.growthStage ?? null;
+      if (stage === null) return { met: false, value: null };
+      return { met: compare(stage, condition.operator, condition.value as string), value: stage };
+    }
+
+    default:
+      return { met: false, value: null };
+  }
+}
+
+export function isScheduleActive(schedule: Schedule | undefined, at: Date, context: Pick<EvaluationContext, 'timeZone' | 'growthStage'>): boolean {
+  if (!schedule) return true;
+  const { minutes, weekday } = localParts(at, context.timeZone);
+  if (schedule.type === 'weekly' && schedule.daysOfWeek && !schedule.daysOfWeek.includes(weekday)) {
+    return false;
+  }
+  if (schedule.type === 'stage-based' && schedule.stageName && schedule.stageName !== context.growthStage) {
+    return false;
+  }
+  if (schedule.startTime && schedule.endTime) {
+    return inWindow(minutes, toMinutes(schedule.startTime), toMinutes(schedule.endTime));
+  }
+  return true;
+}
+
+/**
+ * Output level an action drives its actuator to; steps default to 10 from an
+ * unknown level of 0 (increment) or 100 (decrement)
+ */
+export function commandLevel(action: Action, currentLevel?: number): number {
+  switch (action.command) {
+    case 'on': return 100;
+    case 'off': return 0;
+    case 'set': return Math.max(0, Math.min(100, action.value ?? 0));
+    case 'increment': return Math.min(100, (currentLevel ?? 0) + (action.value ?? 10));
+    case 'decrement': return Math.max(0, (currentLevel ?? 100) - (action.value ?? 10));
+  }
+}
+
+// Highest priority first; ties broken by name then id so evaluation order is stable
+function byPriority(a: Rule, b: Rule): number {
+  return b.priority - a.priority || a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+}
+
+/**
+ * Evaluate every enabled rule at `at`. Rules are visited by priority; the first
+ * rule to claim an actuator wins the cycle and lower-priority rules commanding a
+ * different level on it are suppressed. State is not modified; see applyCycle.
+ */
+export function evaluateAutomationCycle(
+  rules: Rule[],
+  at: Date,
+  context: EvaluationContext,
+  state: EngineState
+): CycleResult {
+  const claims = new Map<string, { level: number; ruleId: string }>();
+  const firings: RuleFiring[] = [];
+
+  for (const rule of [...rules].sort(byPriority)) {
+    if (!rule.enabled) continue;
+
+    const last = state.lastTriggered.get(rule.id);
+    if (rule.cooldownMinutes && last && at.getTime() - last.getTime() < rule.cooldownMinutes * MS_PER_MINUTE) {
+      continue;
+    }
+    if (!isScheduleActive(rule.schedule, at, context)) continue;
+
+    const conditions = rule.conditions.map(condition => evaluateCondition(condition, at, context));
+    if (!conditions.every(result => result.met)) continue;
+
+    const firing: RuleFiring = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      priority: rule.priority,
+      conditions,
+      commands: [],
+      suppressed: []
+    };
+    for (const action of rule.actions) {
+      const claim = claims.get(action.actuatorId);
+      const command: PlannedCommand = {
+        actuatorId: action.actuatorId,
+        command: action.command,
+        value: action.value,
+        level: commandLevel(action, claim?.level ?? state.levels.get(action.actuatorId))
+      };
+      if (!claim) {
+        claims.set(action.actuatorId, { level: command.level, ruleId: rule.id });
+        firing.commands.push(command);
+      } else if (claim.level !== command.level) {
+        firing.suppressed.push({ command, byRuleId: claim.ruleId });
+      }
+      // Same level as the winning claim: already being dispatched
+    }
+    firings.push(firing);
+  }
+
+  return { at, firings };
+}
+
+/**
+ * Record the outcome of a cycle: fired rules start their cooldown and commanded
+ * levels become the base for increment/decrement
+ */
+export function applyCycle(result: CycleResult, state: EngineState, dispatched?: (command: PlannedCommand) => boolean): void {
+  for (const firing of result.firings) {
+    const sent = firing.commands.filter(command => dispatched?.(command) ?? true);
+    sent.forEach(command => state.levels.set(command.actuatorId, command.level));
+    // A rule whose commands all matched a higher-priority claim still counts as fired
+    if (sent.length > 0 || (firing.commands.length === 0 && firing.suppressed.length === 0)) {
+      state.lastTriggered.set(firing.ruleId, result.at);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Static conflict detection
+// ---------------------------------------------------------------------------
+
+interface Interval {
+  lo: number;
+  hi: number;
+  loOpen: boolean;
+  hiOpen: boolean;
+}
+
+const ALL: Interval[] = [{ lo: -Infinity, hi: Infinity, loOpen: true, hiOpen: true }];
+const DAY: Interval[] = [{ lo: 0, hi: MINUTES_PER_DAY - 1, loOpen: false, hiOpen: false }];
+
+function isEmpty(interval: Interval): boolean {
+  return interval.lo > interval.hi || (interval.lo === interval.hi && (interval.loOpen || interval.hiOpen));
+}
+
+function intersect(a: Interval[], b: Interval[]): Interval[] {
+  const result: Interval[] = [];
+  for (const x of a) {
+    for (const y of b) {
+      const lo = Math.max(x.lo, y.lo);
+      const hi = Math.min(x.hi, y.hi);
+      const interval = {
+        lo,
+        hi,
+        loOpen: (x.lo === lo && x.loOpen) || (y.lo === lo && y.loOpen),
+        hiOpen: (x.hi === hi && x.hiOpen) || (y.hi === hi && y.hiOpen)
+      };
+      if (!isEmpty(interval)) result.push(interval);
+    }
+  }
+  return result;
+}
+
+function operatorIntervals(operator: Condition['operator'], value: number | [number, number], domain: Interval[]): Interval[] {
+  if (Array.isArray(value)) {
+    const [lo, hi] = value;
+    const inside = [{ lo, hi, loOpen: false, hiOpen: false }];
+    if (operator === 'between') return intersect(inside, domain);
+    return intersect([
+      { lo: -Infinity, hi: lo, loOpen: true, hiOpen: true },
+      { lo: hi, hi: Infinity, loOpen: true, hiOpen: true }
+    ], domain);
+  }
+  switch (operator) {
+    case '<': return intersect([{ lo: -Infinity, hi: value, loOpen: true, hiOpen: true }], domain);
+    case '<=': return intersect([{ lo: -Infinity, hi: value, loOpen: true, hiOpen: false }], domain);
+    case '>': return intersect([{ lo: value, hi: Infinity, loOpen: true, hiOpen: true }], domain);
+    case '>=': return intersect([{ lo: value, hi: Infinity, loOpen: false, hiOpen: true }], domain);
+    case '=': return intersect([{ lo: value, hi: value, loOpen: false, hiOpen: false }], domain);
+    default: return domain; // '!=' excludes a single point; treat as unconstrained
+  }
+}
+
+function timeWindowIntervals(start: number, end: number): Interval[] {
+  return start <= end
+    ? [{ lo: start, hi: end, loOpen: false, hiOpen: false }]
+    : [
+      { lo: start, hi: MINUTES_PER_DAY - 1, loOpen: false, hiOpen: false },
+      { lo: 0, hi: end, loOpen: false, hiOpen: false }
+    ];
+}
+
+interface RuleDomain {
+  ranges: Map<string, Interval[]>;
+  days: Set<number>;
+  stage?: string;
+}
+
+// Region of sensor/time space in which every condition of the rule can hold
+function ruleDomain(rule: Rule): RuleDomain {
+  const ranges = new Map<string, Interval[]>();
+  const narrow = (key: string, intervals: Interval[], domain: Interval[]) => {
+    ranges.set(key, intersect(ranges.get(key) ?? domain, intervals));
+  };
+  let days = new Set([0, 1, 2, 3, 4, 5, 6]);
+  let stage: string | undefined;
+
+  for (const condition of rule.conditions) {
+    switch (condition.type) {
+      case 'sensor':
+      case 'weather':
+        narrow(
+          `${condition.parameter}|${condition.zone ?? ''}`,
+          operatorIntervals(condition.operator, condition.value as number | [number, number], ALL),
+          ALL
+        );
+        break;
+      case 'time':
+        if (Array.isArray(condition.value)) {
+          const window = timeWindowIntervals(toMinutes(String(condition.value[0])), toMinutes(String(condition.value[1])));
+          const intervals = condition.operator === 'between'
+            ? window
+            : DAY.flatMap(day => subtract(day, window));
+          narrow('time', intervals, DAY);
+        } else {
+          narrow('time', operatorIntervals(condition.operator, toMinutes(String(condition.value)), DAY), DAY);
+        }
+        break;
+      case 'stage':
+        if (condition.operator === '=') stage = String(condition.value);
+        break;
+    }
+  }
+
+  if (rule.schedule?.startTime && rule.schedule.endTime) {
+    narrow('time', timeWindowIntervals(toMinutes(rule.schedule.startTime), toMinutes(rule.schedule.endTime)), DAY);
+  }
+  if (rule.schedule?.type === 'weekly' && rule.schedule.daysOfWeek) {
+    days = new Set(rule.schedule.daysOfWeek);
+  }
+  if (rule.schedule?.type === 'stage-based' && rule.schedule.stageName) {
+    stage = stage ?? rule.schedule.stageName;
+  }
+  return { ranges, days, stage };
+}
+
+// Integer minutes of `day` outside `window`
+function subtract(day: Interval, window: Interval[]): Interval[] {
+  let remaining: Interval[] = [day];
+  for (const cut of window) {
+    remaining = remaining.flatMap(part => {
+      const pieces: Interval[] = [];
+      if (cut.lo > part.lo) pieces.push({ lo: part.lo, hi: Math.min(part.hi, cut.lo - 1), loOpen: false, hiOpen: false });
+      if (cut.hi < part.hi) pieces.push({ lo: Math.max(part.lo, cut.hi + 1), hi: part.hi, loOpen: false, hiOpen: false });
+      return pieces.filter(piece => !isEmpty(piece));
+    });
+  }
+  return remaining;
+}
+
+function domainsOverlap(a: RuleDomain, b: RuleDomain): boolean {
+  if (a.stage && b.stage && a.stage !== b.stage) return false;
+  if (![...a.days].some(day => b.days.has(day))) return false;
+  for (const [key, intervals] of a.ranges) {
+    if (intervals.length === 0) return false;
+    const other = b.ranges.get(key);
+    if (other && intersect(intervals, other).length === 0) return false;
+  }
+  for (const intervals of b.ranges.values()) {
+    if (intervals.length === 0) return false;
+  }
+  return true;
+}
+
+function opposing(a: Action, b: Action): boolean {
+  const direction = (action: Action) => action.command === 'increment' ? 1 : action.command === 'decrement' ? -1 : 0;
+  const da = direction(a);
+  const db = direction(b);
+  if (da !== 0 && db !== 0) return da !== db;
+  if (da !== 0 || db !== 0) {
+    // A step against a fixed level fights it unless the level is already the step's limit
+    const level = commandLevel(da === 0 ? a : b);
+    const step = da === 0 ? db : da;
+    return step > 0 ? level < 100 : level > 0;
+  }
+  return commandLevel(a) !== commandLevel(b);
+}
+
+/**
+ * Pairs of enabled rules that command different outputs on the same actuator and
+ * whose conditions, time windows, days and stages can all hold at once
+ */
+export function detectRuleConflicts(rules: Rule[]): RuleConflict[] {
+  const enabled = rules.filter(rule => rule.enabled);
+  const domains = new Map(enabled.map(rule => [rule.id, ruleDomain(rule)]));
+  const conflicts: RuleConflict[] = [];
+
+  for (let i = 0; i < enabled.length; i++) {
+    for (let j = i + 1; j < enabled.length; j++) {
+      const [first, second] = [enabled[i], enabled[j]].sort(byPriority);
+      for (const a of first.actions) {
+        const b = second.actions.find(action => action.actuatorId === a.actuatorId && opposing(a, action));
+        if (!b) continue;
+        if (!domainsOverlap(domains.get(first.id)!, domains.get(second.id)!)) continue;
+
+        const tie = first.priority === second.priority;
+        conflicts.push({
+          actuatorId: a.actuatorId,
+          rules: [
+            { id: first.id, name: first.name, priority: first.priority, command: a.command, value: a.value },
+            { id: second.id, name: second.name, priority: second.priority, command: b.command, value: b.value }
+          ],
+          severity: tie ? 'error' : 'warning',
+          winnerId: tie ? null : first.id,
+          reason: tie
+            ? `'${first.name}' and '${second.name}' have equal priority and can both fire, so ${a.actuatorId} follows evaluation order`
+            : `'${second.name}' is overridden by '${first.name}' on ${a.actuatorId} whenever both fire`
+        });
+      }
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,415 @@
+/**
+ * HMI Automation Service
+ * Connects persisted HMIAutomationRule rows to the rule engine: the scheduled
+ * cycle reads live SensorReading values, dispatches actuator commands through
+ * DeviceControlService and writes HMIAutomationExecution rows; dry runs replay a
+ * day of stored readings without touching equipment.
+ */
+
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logging/production-logger';
+import { ControlCommand, ControlResponse, deviceControlService } from '@/lib/services/device-control';
+import { Rule, parseAutomationRule } from '@/lib/greenhouse-automation-rules';
+import {
+  EngineState,
+  PlannedCommand,
+  ReadingSeries,
+  RuleConflict,
+  SensorReadingPoint,
+  applyCycle,
+  detectRuleConflicts,
+  evaluateAutomationCycle
+} from './automation-engine';
+
+export type CommandDispatcher = (command: ControlCommand) => Promise<ControlResponse>;
+
+export interface InvalidRule {
+  ruleId: string;
+  name: string;
+  errors: string[];
+}
+
+export interface EvaluationOptions {
+  timeZone?: string;
+  growthStage?: string;
+  maxReadingAgeMinutes?: number;
+}
+
+export interface AutomationRunOptions extends EvaluationOptions {
+  facilityId?: string;
+  now?: Date;
+  dispatch?: CommandDispatcher;
+}
+
+export interface AutomationRunResult {
+  at: Date;
+  facilities: number;
+  evaluated: number;
+  fired: number;
+  dispatched: number;
+  failed: number;
+  suppressed: number;
+  invalidRules: InvalidRule[];
+}
+
+export interface LoggedCommand extends PlannedCommand {
+  success: boolean;
+  message?: string;
+  error?: string;
+  suppressedBy?: string;
+}
+
+export interface DryRunOptions extends EvaluationOptions {
+  from?: Date; // Default: 24 hours before `to`
+  to?: Date; // Default: now
+  stepMinutes?: number;
+  ruleIds?: string[];
+  rules?: unknown[]; // Unsaved rule definitions; replace stored rules with the same id
+}
+
+export interface DryRunEpisode {
+  ruleId: string;
+  ruleName: string;
+  start: Date;
+  end: Date;
+  cycles: number; // Cycles in which the rule fired
+  commands: PlannedCommand[];
+  suppressedCycles: number;
+}
+
+export interface DryRunConflict {
+  actuatorId: string;
+  winnerId: string;
+  loserId: string;
+  cycles: number;
+  firstAt: Date;
+  lastAt: Date;
+}
+
+export interface DryRunResult {
+  from: Date;
+  to: Date;
+  stepMinutes: number;
+  cycles: number;
+  readings: number;
+  rules: { id: string; name: string; firings: number }[];
+  episodes: DryRunEpisode[];
+  conflicts: DryRunConflict[];
+  actuators: { actuatorId: string; changes: { at: Date; level: number; ruleId: string }[] }[];
+  staticConflicts: RuleConflict[];
+  invalidRules: InvalidRule[];
+}
+
+const DEFAULT_MAX_READING_AGE_MINUTES = 15;
+const MS_PER_MINUTE = 60_000;
+
+const defaultDispatch: CommandDispatcher = command => deviceControlService.executeCommand(command);
+
+/**
+ * Map an engine command onto DeviceControlService; variable outputs are written
+ * to the device's 'output' point as a 0-100 level
+ */
+export function toControlCommand(command: PlannedCommand): ControlCommand {
+  switch (command.command) {
+    case 'on':
+      return { deviceId: command.actuatorId, command: 'ENABLE_DEVICE' };
+    case 'off':
+      return { deviceId: command.actuatorId, command: 'DISABLE_DEVICE' };
+    default:
+      return { deviceId: command.actuatorId, command: 'SET_SETPOINT', parameters: { point: 'output', value: command.level } };
+  }
+}
+
+function validationErrors(error: unknown): string[] {
+  if (error instanceof ZodError) {
+    return error.issues.map(issue => `${issue.path.join('.') || 'rule'}: ${issue.message}`);
+  }
+  return [(error as Error).message];
+}
+
+export function ruleFromRow(row: any): Rule {
+  return parseAutomationRule({
+    name: row.name,
+    description: row.description ?? '',
+    enabled: row.enabled,
+    priority: row.priority ?? 0,
+    conditions: row.conditions,
+    actions: row.actions,
+    schedule: row.schedule ?? undefined,
+    cooldownMinutes: row.cooldownMinutes ?? undefined
+  }, row.id);
+}
+
+function parseRows(rows: any[]): { rules: Rule[]; invalid: InvalidRule[] } {
+  const rules: Rule[] = [];
+  const invalid: InvalidRule[] = [];
+  for (const row of rows) {
+    try {
+      rules.push(ruleFromRow(row));
+    } catch (error) {
+      invalid.push({ ruleId: row.id, name: row.name, errors: validationErrors(error) });
+    }
+  }
+  return { rules, invalid };
+}
+
+// History needed before the evaluation time: reading staleness plus the longest hold duration
+function lookbackMinutes(rules: Rule[], maxReadingAgeMinutes: number): number {
+  const durations = rules.flatMap(rule => rule.conditions.map(condition => condition.duration ?? 0));
+  return maxReadingAgeMinutes + Math.max(0, ...durations);
+}
+
+async function loadReadings(facilityId: string, rules: Rule[], from: Date, to: Date): Promise<SensorReadingPoint[]> {
+  const sensorTypes = Array.from(new Set(rules.flatMap(rule =>
+    rule.conditions
+      .filter(condition => condition.type === 'sensor' || condition.type === 'weather')
+      .map(condition => condition.parameter)
+  )));
+  if (sensorTypes.length === 0) return [];
+
+  const rows = await prisma.sensorReading.findMany({
+    where: {
+      facilityId,
+      sensorType: { in: sensorTypes },
+      quality: { not: 'error' },
+      timestamp: { gte: from, lte: to }
+    },
+    select: { sensorType: true, zone: true, value: true, timestamp: true },
+    orderBy: { timestamp: 'asc' }
+  });
+  return rows.map((row: any) => ({
+    sensorType: row.sensorType,
+    zone: row.zone,
+    value: row.value,
+    timestamp: new Date(row.timestamp)
+  }));
+}
+
+// Last successfully commanded level per actuator, the base for increment/decrement
+async function lastCommandedLevels(facilityId: string): Promise<Map<string, number>> {
+  const levels = new Map<string, number>();
+  const executions = await prisma.hMIAutomationExecution.findMany({
+    where: { facilityId, status: { in: ['fired', 'partial'] } },
+    orderBy: { executedAt: 'desc' },
+    take: 200,
+    select: { actions: true }
+  });
+  for (const execution of executions) {
+    for (const command of (execution.actions ?? []) as LoggedCommand[]) {
+      if (command.success && !levels.has(command.actuatorId)) {
+        levels.set(command.actuatorId, command.level);
+      }
+    }
+  }
+  return levels;
+}
+
+/**
+ * One scheduler tick: evaluate every enabled rule (optionally for one facility),
+ * dispatch winning commands, stamp lastTriggered and log each firing
+ */
+export async function runAutomationCycle(options: AutomationRunOptions = {}): Promise<AutomationRunResult> {
+  const now = options.now ?? new Date();
+  const dispatch = options.dispatch ?? defaultDispatch;
+  const maxReadingAgeMinutes = options.maxReadingAgeMinutes ?? DEFAULT_MAX_READING_AGE_MINUTES;
+  const result: AutomationRunResult = {
+    at: now,
+    facilities: 0,
+    evaluated: 0,
+    fired: 0,
+    dispatched: 0,
+    failed: 0,
+    suppressed: 0,
+    invalidRules: []
+  };
+
+  const rows = await prisma.hMIAutomationRule.findMany({
+    where: { enabled: true, ...(options.facilityId ? { facilityId: options.facilityId } : {}) }
+  });
+  const byFacility = new Map<string, any[]>();
+  for (const row of rows) {
+    byFacility.set(row.facilityId, [...(byFacility.get(row.facilityId) ?? []), row]);
+  }
+
+  for (const [facilityId, facilityRows] of byFacility) {
+    const { rules, invalid } = parseRows(facilityRows);
+    result.invalidRules.push(...invalid);
+    if (rules.length === 0) continue;
+    result.facilities++;
+    result.evaluated += rules.length;
+
+    const from = new Date(now.getTime() - lookbackMinutes(rules, maxReadingAgeMinutes) * MS_PER_MINUTE);
+    const readings = new ReadingSeries(await loadReadings(facilityId, rules, from, now));
+    const state: EngineState = {
+      lastTriggered: new Map(facilityRows.filter(row => row.lastTriggered).map(row => [row.id, new Date(row.lastTriggered)])),
+      levels: await lastCommandedLevels(facilityId)
+    };
+    const cycle = evaluateAutomationCycle(rules, now, { ...options, readings, maxReadingAgeMinutes }, state);
+
+    for (const firing of cycle.firings) {
+      const logged: LoggedCommand[] = [];
+      for (const command of firing.commands) {
+        let response: ControlResponse;
+        try {
+          response = await dispatch(toControlCommand(command));
+        } catch (error) {
+          response = { success: false, error: (error as Error).message, timestamp: new Date() };
+        }
+        logged.push({ ...command, success: response.success, message: response.message, error: response.error });
+      }
+      const succeeded = logged.filter(command => command.success).length;
+      const status = firing.commands.length === 0
+        ? (firing.suppressed.length > 0 ? 'suppressed' : 'fired')
+        : succeeded === logged.length ? 'fired' : succeeded === 0 ? 'failed' : 'partial';
+      logged.push(...firing.suppressed.map(({ command, byRuleId }) => ({ ...command, success: false, suppressedBy: byRuleId })));
+
+      result.dispatched += succeeded;
+      result.failed += firing.commands.length - succeeded;
+      result.suppressed += firing.suppressed.length;
+      if (status === 'fired' || status === 'partial') {
+        result.fired++;
+        await prisma.hMIAutomationRule.update({ where: { id: firing.ruleId }, data: { lastTriggered: now } });
+      }
+      await prisma.hMIAutomationExecution.create({
+        data: {
+          ruleId: firing.ruleId,
+          facilityId,
+          executedAt: now,
+          status,
+          conditions: JSON.parse(JSON.stringify(firing.conditions)),
+          actions: JSON.parse(JSON.stringify(logged)),
+          error: logged.filter(command => command.error).map(command => `${command.actuatorId}: ${command.error}`).join('; ') || null
+        }
+      });
+    }
+  }
+
+  if (result.invalidRules.length > 0) {
+    logger.warn(`Skipped ${result.invalidRules.length} invalid HMI automation rules`, { rules: result.invalidRules });
+  }
+  logger.info('HMI automation cycle complete', {
+    facilities: result.facilities,
+    fired: result.fired,
+    dispatched: result.dispatched,
+    failed: result.failed
+  });
+  return result;
+}
+
+/**
+ * Replay stored readings through the rules, stepping a simulated scheduler, and
+ * report what would have fired; nothing is dispatched or written
+ */
+export async function dryRunAutomation(facilityId: string, options: DryRunOptions = {}): Promise<DryRunResult> {
+  const to = options.to ?? new Date();
+  const from = options.from ?? new Date(to.getTime() - 24 * 60 * MS_PER_MINUTE);
+  if (from.getTime() >= to.getTime()) {
+    throw new Error('Dry run start must be before its end');
+  }
+  const stepMinutes = Math.max(1, options.stepMinutes ?? 1);
+  const maxReadingAgeMinutes = options.maxReadingAgeMinutes ?? DEFAULT_MAX_READING_AGE_MINUTES;
+
+  const rows = await prisma.hMIAutomationRule.findMany({
+    where: { facilityId, enabled: true, ...(options.ruleIds ? { id: { in: options.ruleIds } } : {}) }
+  });
+  const { rules: stored, invalid } = parseRows(rows);
+  const candidates: Rule[] = [];
+  (options.rules ?? []).forEach((input, index) => {
+    const id = (input as { id?: string })?.id ?? `draft-${index + 1}`;
+    try {
+      candidates.push(parseAutomationRule(input, id));
+    } catch (error) {
+      invalid.push({ ruleId: id, name: (input as { name?: string })?.name ?? id, errors: validationErrors(error) });
+    }
+  });
+  const rules = [...stored.filter(rule => !candidates.some(candidate => candidate.id === rule.id)), ...candidates];
+
+  const readingPoints = await loadReadings(
+    facilityId,
+    rules,
+    new Date(from.getTime() - lookbackMinutes(rules, maxReadingAgeMinutes) * MS_PER_MINUTE),
+    to
+  );
+  const context = { ...options, readings: new ReadingSeries(readingPoints), maxReadingAgeMinutes };
+  const state: EngineState = { lastTriggered: new Map(), levels: new Map() };
+
+  const episodes: DryRunEpisode[] = [];
+  const openEpisodes = new Map<string, DryRunEpisode>();
+  const conflicts = new Map<string, DryRunConflict>();
+  const changes = new Map<string, { at: Date; level: number; ruleId: string }[]>();
+  const firingCounts = new Map<string, number>();
+  let cycles = 0;
+
+  for (let t = from.getTime(); t < to.getTime(); t += stepMinutes * MS_PER_MINUTE) {
+    const at = new Date(t);
+    const cycle = evaluateAutomationCycle(rules, at, context, state);
+    cycles++;
+
+    for (const firing of cycle.firings) {
+      firingCounts.set(firing.ruleId, (firingCounts.get(firing.ruleId) ?? 0) + 1);
+
+      // Consecutive firings at every opportunity the cooldown allows form one episode
+      const rule = rules.find(r => r.id === firing.ruleId)!;
+      const gap = ((rule.cooldownMinutes ?? 0) + stepMinutes) * MS_PER_MINUTE;
+      const open = openEpisodes.get(firing.ruleId);
+      if (open && t - open.end.getTime() <= gap) {
+        open.end = at;
+        open.cycles++;
+        if (firing.suppressed.length > 0) open.suppressedCycles++;
+      } else {
+        const episode: DryRunEpisode = {
+          ruleId: firing.ruleId,
+          ruleName: firing.ruleName,
+          start: at,
+          end: at,
+          cycles: 1,
+          commands: firing.commands,
+          suppressedCycles: firing.suppressed.length > 0 ? 1 : 0
+        };
+        episodes.push(episode);
+        openEpisodes.set(firing.ruleId, episode);
+      }
+
+      for (const { command, byRuleId } of firing.suppressed) {
+        const key = `${command.actuatorId}|${byRuleId}|${firing.ruleId}`;
+        const conflict = conflicts.get(key);
+        if (conflict) {
+          conflict.cycles++;
+          conflict.lastAt = at;
+        } else {
+          conflicts.set(key, { actuatorId: command.actuatorId, winnerId: byRuleId, loserId: firing.ruleId, cycles: 1, firstAt: at, lastAt: at });
+        }
+      }
+
+      for (const command of firing.commands) {
+        if (state.levels.get(command.actuatorId) === command.level) continue;
+        changes.set(command.actuatorId, [...(changes.get(command.actuatorId) ?? []), { at, level: command.level, ruleId: firing.ruleId }]);
+      }
+    }
+    applyCycle(cycle, state);
+  }
+
+  return {
+    from,
+    to,
+    stepMinutes,
+    cycles,
+    readings: readingPoints.length,
+    rules: rules.map(rule => ({ id: rule.id, name: rule.name, firings: firingCounts.get(rule.id) ?? 0 })),
+    episodes,
+    conflicts: Array.from(conflicts.values()),
+    actuators: Array.from(changes, ([actuatorId, actuatorChanges]) => ({ actuatorId, changes: actuatorChanges })),
+    staticConflicts: detectRuleConflicts(rules),
+    invalidRules: invalid
+  };
+}
+
+/**
+ * Static conflict report for a facility's enabled rules
+ */
+export async function findRuleConflicts(facilityId: string): Promise<{ conflicts: RuleConflict[]; invalidRules: InvalidRule[] }> {
+  const rows = await prisma.hMIAutomationRule.findMany({ where: { facilityId, enabled: true } });
+  const { rules, invalid } = parseRows(rows);
+  return { conflicts: detectRuleConflicts(rules), invalidRules: invalid };
+}
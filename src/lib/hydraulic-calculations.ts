@@ -36,7 +36,7 @@ export interface SystemPoint {
 }
 
 // Material flow coefficients for pressure calculations
-const MATERIAL_FLOW_COEFFICIENTS = {
+export const MATERIAL_FLOW_COEFFICIENTS = {
   PVC: 150,
   CPVC: 150,
   HDPE: 140,
@@ -77,9 +77,10 @@ export class HydraulicCalculator {
     flowRate: number, // GPM
     diameter: number, // inches
     length: number, // feet
-    material: string
+    material: string,
+    cFactor?: number // Hazen-Williams C, overrides the material default
   ): number {
-    const C = MATERIAL_FLOW_COEFFICIENTS[material] || 120;
+    const C = cFactor ?? (MATERIAL_FLOW_COEFFICIENTS[material] || 120);
     const Q = flowRate;
     const d = diameter;
     const L = length;
@@ -0,0 +1,656 @@
+/**
+ * ENVI Hyperspectral Cube Import
+ * Reads ENVI .hdr headers and BSQ/BIL/BIP raw cubes (as written by Specim and
+ * Resonon cameras), calibrates to reflectance against white/dark references and
+ * streams line tiles into per-pixel index maps, a plant/background mask and binned
+ * HyperspectralData cells for HyperspectralAnalyzer and generateHyperspectralMap.
+ */
+
+import { HyperspectralData, SPECTRAL_INDICES, SpectralIndexName } from './hyperspectral-analyzer'
+
+export type EnviInterleave = 'bsq' | 'bil' | 'bip'
+
+export interface EnviHeader {
+  samples: number
+  lines: number
+  bands: number
+  headerOffset: number
+  dataType: number
+  interleave: EnviInterleave
+  byteOrder: 0 | 1 // 0 = little endian, 1 = big endian
+  wavelengths: number[] // nm
+  fwhm?: number[]
+  bandNames?: string[]
+  reflectanceScaleFactor?: number
+  dataIgnoreValue?: number
+  description?: string
+  fields: Record<string, string>
+}
+
+/**
+ * Random-access byte source so cubes never have to sit in memory whole
+ */
+export interface CubeSource {
+  size?: number
+  read(offset: number, length: number): Promise<Uint8Array>
+}
+
+export interface CalibrationReferences {
+  white?: { header: EnviHeader | string; source: CubeSource }
+  dark?: { header: EnviHeader | string; source: CubeSource }
+  whiteReflectance?: number // Reflectance of the white panel, default 1
+}
+
+export interface EnviImportOptions {
+  references?: CalibrationReferences
+  indices?: SpectralIndexName[]
+  tileLines?: number
+  bandTolerance?: number // Max distance (nm) between an index wavelength and the nearest band
+  segmentation?: 'threshold' | 'otsu'
+  ndviThreshold?: number
+  minNirReflectance?: number
+  binSize?: number // Pixels per side of each HyperspectralData cell
+  timestamp?: Date
+  temperature?: number
+  humidity?: number
+  onProgress?: (progress: { linesDone: number; lines: number; pass: number }) => void
+}
+
+export interface IndexStatistics {
+  mean: number
+  std: number
+  min: number
+  max: number
+  p10: number
+  median: number
+  p90: number
+  pixels: number
+}
+
+export interface HyperspectralCubeAnalysis {
+  width: number
+  height: number
+  wavelengths: number[]
+  indices: Partial<Record<SpectralIndexName, Float32Array>> // Row-major, NaN where undefined
+  statistics: Partial<Record<SpectralIndexName, IndexStatistics>> // Over plant pixels
+  mask: Uint8Array // 1 = plant, 0 = background
+  ndviThreshold: number
+  plantFraction: number
+  binSize: number
+  gridWidth: number
+  gridHeight: number
+  cells: HyperspectralData[] // Mean plant spectrum per bin, coordinates in grid units
+  tiles: number
+  warnings: string[]
+}
+
+const BYTES_PER_VALUE: Record<number, number> = {
+  1: 1, // uint8
+  2: 2, // int16
+  3: 4, // int32
+  4: 4, // float32
+  5: 8, // float64
+  12: 2, // uint16
+  13: 4, // uint32
+  14: 8, // int64
+  15: 8 // uint64
+}
+
+const DEFAULT_INDICES: SpectralIndexName[] = ['NDVI', 'EVI', 'SAVI', 'PRI', 'WBI', 'MCARI', 'NDRE', 'PSRI', 'ARI']
+
+export function bufferSource(data: ArrayBuffer | Uint8Array): CubeSource {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  return {
+    size: bytes.byteLength,
+    read: async (offset, length) => bytes.subarray(offset, offset + length)
+  }
+}
+
+export function blobSource(blob: Blob): CubeSource {
+  return {
+    size: blob.size,
+    read: async (offset, length) => new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer())
+  }
+}
+
+/**
+ * Wrap a Node fs.promises FileHandle (or anything with the same read signature)
+ */
+export function fileHandleSource(
+  handle: { read(buffer: Uint8Array, offset: number, length: number, position: number): Promise<{ bytesRead: number }> },
+  size?: number
+): CubeSource {
+  return {
+    size,
+    read: async (offset, length) => {
+      const buffer = new Uint8Array(length)
+      const { bytesRead } = await handle.read(buffer, 0, length, offset)
+      return buffer.subarray(0, bytesRead)
+    }
+  }
+}
+
+function parseList(value: string): string[] {
+  return value.replace(/^\{|\}$/g, '').split(',').map(item => item.trim()).filter(item => item.length > 0)
+}
+
+function parseNumberList(value: string, field: string): number[] {
+  return parseList(value).map(item => {
+    const parsed = Number(item)
+    if (!Number.isFinite(parsed)) throw new Error(`Invalid number '${item}' in ENVI header field '${field}'`)
+    return parsed
+  })
+}
+
+export function parseEnviHeader(text: string): EnviHeader {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  if (lines[0]?.trim() !== 'ENVI') {
+    throw new Error('Not an ENVI header: first line must be "ENVI"')
+  }
+
+  const fields: Record<string, string> = {}
+  let i = 1
+  while (i < lines.length) {
+    const line = lines[i++]
+    const eq = line.indexOf('=')
+    if (eq < 0) continue
+    const key = line.slice(0, eq).trim().toLowerCase()
+    let value = line.slice(eq + 1).trim()
+    if (value.startsWith('{')) {
+      while (!value.includes('}') && i < lines.length) {
+        value += '\n' + lines[i++].trim()
+      }
+      value = value.replace(/\s*\n\s*/g, ' ')
+    }
+    fields[key] = value
+  }
+
+  const integer = (key: string, fallback?: number): number => {
+    const raw = fields[key]
+    if (raw === undefined) {
+      if (fallback === undefined) throw new Error(`ENVI header is missing '${key}'`)
+      return fallback
+    }
+    const parsed = Number(raw)
+    if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`Invalid ENVI header '${key}': ${raw}`)
+    return parsed
+  }
+
+  const samples = integer('samples')
+  const lineCount = integer('lines')
+  const bands = integer('bands')
+  const dataType = integer('data type')
+  if (!BYTES_PER_VALUE[dataType]) {
+    throw new Error(`Unsupported ENVI data type ${dataType}`)
+  }
+  const interleave = (fields['interleave'] || 'bsq').toLowerCase()
+  if (interleave !== 'bsq' && interleave !== 'bil' && interleave !== 'bip') {
+    throw new Error(`Unsupported ENVI interleave '${interleave}'`)
+  }
+  const byteOrder = integer('byte order', 0)
+  if (byteOrder !== 0 && byteOrder !== 1) {
+    throw new Error(`Invalid ENVI byte order ${byteOrder}`)
+  }
+
+  let wavelengths = fields['wavelength'] ? parseNumberList(fields['wavelength'], 'wavelength') : []
+  let fwhm = fields['fwhm'] ? parseNumberList(fields['fwhm'], 'fwhm') : undefined
+  if (wavelengths.length > 0 && wavelengths.length !== bands) {
+    throw new Error(`ENVI header lists ${wavelengths.length} wavelengths for ${bands} bands`)
+  }
+  const units = (fields['wavelength units'] || '').toLowerCase()
+  const micrometers = units.startsWith('micro') || units === 'um' || units === 'µm' ||
+    (!units && wavelengths.length > 0 && Math.max(...wavelengths) < 100)
+  if (micrometers) {
+    wavelengths = wavelengths.map(w => w * 1000)
+    fwhm = fwhm?.map(w => w * 1000)
+  }
+
+  const optionalNumber = (key: string) => {
+    if (fields[key] === undefined) return undefined
+    const parsed = Number(fields[key])
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+
+  return {
+    samples,
+    lines: lineCount,
+    bands,
+    headerOffset: integer('header offset', 0),
+    dataType,
+    interleave,
+    byteOrder,
+    wavelengths,
+    fwhm,
+    bandNames: fields['band names'] ? parseList(fields['band names']) : undefined,
+    reflectanceScaleFactor: optionalNumber('reflectance scale factor'),
+    dataIgnoreValue: optionalNumber('data ignore value'),
+    description: fields['description']?.replace(/^\{|\}$/g, '').trim(),
+    fields
+  }
+}
+
+function readValue(view: DataView, offset: number, dataType: number, littleEndian: boolean): number {
+  switch (dataType) {
+    case 1: return view.getUint8(offset)
+    case 2: return view.getInt16(offset, littleEndian)
+    case 3: return view.getInt32(offset, littleEndian)
+    case 4: return view.getFloat32(offset, littleEndian)
+    case 5: return view.getFloat64(offset, littleEndian)
+    case 12: return view.getUint16(offset, littleEndian)
+    case 13: return view.getUint32(offset, littleEndian)
+    case 14: return Number(view.getBigInt64(offset, littleEndian))
+    case 15: return Number(view.getBigUint64(offset, littleEndian))
+    default: throw new Error(`Unsupported ENVI data type ${dataType}`)
+  }
+}
+
+/**
+ * Reads line ranges of a cube into band-interleaved-by-pixel Float32Arrays
+ * regardless of the on-disk interleave
+ */
+export class EnviCubeReader {
+  readonly header: EnviHeader
+  private readonly source: CubeSource
+  private readonly bytesPerValue: number
+
+  constructor(header: EnviHeader | string, source: CubeSource) {
+    this.header = typeof header === 'string' ? parseEnviHeader(header) : header
+    this.source = source
+    this.bytesPerValue = BYTES_PER_VALUE[this.header.dataType]
+
+    const { samples, lines, bands, headerOffset } = this.header
+    const expected = headerOffset + samples * lines * bands * this.bytesPerValue
+    if (source.size !== undefined && source.size < expected) {
+      throw new Error(`ENVI data is ${source.size} bytes; header describes ${expected}`)
+    }
+  }
+
+  /**
+   * Values for lines [start, start + count) indexed ((line * samples) + sample) * bands + band
+   */
+  async readLines(start: number, count: number): Promise<Float32Array> {
+    const { samples, lines, bands, headerOffset, interleave, dataType, byteOrder } = this.header
+    if (start < 0 || count < 0 || start + count > lines) {
+      throw new Error(`Line range ${start}-${start + count} is outside the cube (${lines} lines)`)
+    }
+    const bpv = this.bytesPerValue
+    const littleEndian = byteOrder === 0
+    const out = new Float32Array(count * samples * bands)
+
+    const fetch = async (offset: number, length: number) => {
+      const bytes = await this.source.read(offset, length)
+      if (bytes.byteLength < length) throw new Error('Unexpected end of ENVI data')
+      return new DataView(bytes.buffer, bytes.byteOffset, length)
+    }
+
+    if (interleave === 'bip') {
+      const view = await fetch(headerOffset + start * samples * bands * bpv, out.length * bpv)
+      for (let k = 0; k < out.length; k++) out[k] = readValue(view, k * bpv, dataType, littleEndian)
+    } else if (interleave === 'bil') {
+      const view = await fetch(headerOffset + start * bands * samples * bpv, out.length * bpv)
+      let k = 0
+      for (let l = 0; l < count; l++) {
+        for (let b = 0; b < bands; b++) {
+          for (let s = 0; s < samples; s++) {
+            out[(l * samples + s) * bands + b] = readValue(view, k++ * bpv, dataType, littleEndian)
+          }
+        }
+      }
+    } else {
+      for (let b = 0; b < bands; b++) {
+        const view = await fetch(headerOffset + (b * lines + start) * samples * bpv, count * samples * bpv)
+        for (let p = 0; p < count * samples; p++) {
+          out[p * bands + b] = readValue(view, p * bpv, dataType, littleEndian)
+        }
+      }
+    }
+    return out
+  }
+
+  async *tiles(tileLines = 64): AsyncGenerator<{ startLine: number; lineCount: number; data: Float32Array }> {
+    const step = Math.max(1, Math.floor(tileLines))
+    for (let start = 0; start < this.header.lines; start += step) {
+      const lineCount = Math.min(step, this.header.lines - start)
+      yield { startLine: start, lineCount, data: await this.readLines(start, lineCount) }
+    }
+  }
+
+  /**
+   * Per-sample mean spectrum over all lines (samples × bands), as used for
+   * white/dark references captured with a line-scan sensor
+   */
+  async meanSpectrumBySample(tileLines = 64): Promise<Float32Array> {
+    const { samples, lines, bands } = this.header
+    const sums = new Float64Array(samples * bands)
+    for await (const tile of this.tiles(tileLines)) {
+      for (let l = 0; l < tile.lineCount; l++) {
+        const base = l * samples * bands
+        for (let k = 0; k < samples * bands; k++) sums[k] += tile.data[base + k]
+      }
+    }
+    const mean = new Float32Array(samples * bands)
+    for (let k = 0; k < mean.length; k++) mean[k] = sums[k] / lines
+    return mean
+  }
+}
+
+async function referenceSpectrum(
+  reference: { header: EnviHeader | string; source: CubeSource },
+  header: EnviHeader,
+  label: string,
+  tileLines: number
+): Promise<{ values: Float32Array; perSample: boolean }> {
+  const reader = new EnviCubeReader(reference.header, reference.source)
+  if (reader.header.bands !== header.bands) {
+    throw new Error(`${label} reference has ${reader.header.bands} bands; cube has ${header.bands}`)
+  }
+  if (reader.header.samples !== header.samples && reader.header.samples !== 1) {
+    throw new Error(`${label} reference has ${reader.header.samples} samples; cube has ${header.samples}`)
+  }
+  return { values: await reader.meanSpectrumBySample(tileLines), perSample: reader.header.samples !== 1 }
+}
+
+/**
+ * Otsu's threshold over finite values, from a 256-bin histogram
+ */
+export function otsuThreshold(values: ArrayLike<number>, range: [number, number] = [-1, 1]): number {
+  const [lo, hi] = range
+  const bins = 256
+  const histogram = new Float64Array(bins)
+  let total = 0
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i]
+    if (!Number.isFinite(v)) continue
+    const bin = Math.min(bins - 1, Math.max(0, Math.floor(((v - lo) / (hi - lo)) * bins)))
+    histogram[bin]++
+    total++
+  }
+  return otsuFromHistogram(histogram, total, lo, hi)
+}
+
+function otsuFromHistogram(histogram: Float64Array, total: number, lo: number, hi: number): number {
+  const bins = histogram.length
+  let sumAll = 0
+  for (let b = 0; b < bins; b++) sumAll += b * histogram[b]
+
+  let weightBelow = 0
+  let sumBelow = 0
+  let best = -1
+  let firstBest = 0
+  let lastBest = 0
+  for (let b = 0; b < bins - 1; b++) {
+    weightBelow += histogram[b]
+    sumBelow += b * histogram[b]
+    const weightAbove = total - weightBelow
+    if (weightBelow === 0 || weightAbove === 0) continue
+    const meanBelow = sumBelow / weightBelow
+    const meanAbove = (sumAll - sumBelow) / weightAbove
+    const between = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2
+    if (between > best * (1 + 1e-12)) {
+      best = between
+      firstBest = b
+      lastBest = b
+    } else if (between >= best * (1 - 1e-12)) {
+      lastBest = b
+    }
+  }
+  // Empty bins between well-separated modes tie; cut in the middle of the gap
+  return lo + ((firstBest + lastBest) / 2 + 1) / bins * (hi - lo)
+}
+
+function statistics(values: Float32Array, mask: Uint8Array): IndexStatistics | undefined {
+  const selected: number[] = []
+  for (let i = 0; i < values.length; i++) {
+    if (mask[i] && Number.isFinite(values[i])) selected.push(values[i])
+  }
+  if (selected.length === 0) return undefined
+  selected.sort((a, b) => a - b)
+  const n = selected.length
+  const mean = selected.reduce((sum, v) => sum + v, 0) / n
+  const variance = selected.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n
+  const quantile = (q: number) => {
+    const pos = (n - 1) * q
+    const below = Math.floor(pos)
+    const above = Math.min(n - 1, below + 1)
+    return selected[below] + (selected[above] - selected[below]) * (pos - below)
+  }
+  return {
+    mean,
+    std: Math.sqrt(variance),
+    min: selected[0],
+    max: selected[n - 1],
+    p10: quantile(0.1),
+    median: quantile(0.5),
+    p90: quantile(0.9),
+    pixels: n
+  }
+}
+
+function nearestBand(wavelengths: number[], target: number, tolerance: number): number {
+  let best = -1
+  let bestDistance = Infinity
+  wavelengths.forEach((w, i) => {
+    const distance = Math.abs(w - target)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      best = i
+    }
+  })
+  return bestDistance <= tolerance ? best : -1
+}
+
+/**
+ * Import an ENVI cube: calibrate to reflectance, compute per-pixel index maps,
+ * segment plants from background and bin plant spectra into HyperspectralData cells.
+ * The cube is streamed in tiles of `tileLines` lines; Otsu segmentation needs the
+ * NDVI histogram up front, so it streams the cube twice.
+ */
+export async function importEnviCube(
+  header: EnviHeader | string,
+  source: CubeSource,
+  options: EnviImportOptions = {}
+): Promise<HyperspectralCubeAnalysis> {
+  const reader = new EnviCubeReader(header, source)
+  const hdr = reader.header
+  const { samples: width, lines: height, bands, wavelengths } = hdr
+  const tileLines = options.tileLines ?? 64
+  const tolerance = options.bandTolerance ?? 10
+  const minNir = options.minNirReflectance ?? 0.15
+  const warnings: string[] = []
+
+  if (wavelengths.length === 0) {
+    warnings.push('ENVI header has no wavelengths; spectral indices cannot be computed')
+  }
+
+  // Calibration
+  const refs = options.references ?? {}
+  const whiteReflectance = refs.whiteReflectance ?? 1
+  const white = refs.white ? await referenceSpectrum(refs.white, hdr, 'White', tileLines) : undefined
+  const dark = refs.dark ? await referenceSpectrum(refs.dark, hdr, 'Dark', tileLines) : undefined
+  const scale = white ? 1 : hdr.reflectanceScaleFactor ?? 1
+  if (!white && hdr.reflectanceScaleFactor === undefined) {
+    warnings.push('No white reference or reflectance scale factor; raw values are treated as reflectance')
+  }
+  const ignore = hdr.dataIgnoreValue
+
+  // Returns false for pixels flagged with the data ignore value
+  const calibrate = (data: Float32Array, pixelOffset: number, sample: number): boolean => {
+    const whiteBase = white?.perSample ? sample * bands : 0
+    const darkBase = dark?.perSample ? sample * bands : 0
+    for (let b = 0; b < bands; b++) {
+      const raw = data[pixelOffset + b]
+      if (ignore !== undefined && raw === ignore) return false
+      const d = dark ? dark.values[darkBase + b] : 0
+      if (white) {
+        const span = white.values[whiteBase + b] - d
+        data[pixelOffset + b] = span > 0 ? ((raw - d) / span) * whiteReflectance : 0
+      } else {
+        data[pixelOffset + b] = (raw - d) / scale
+      }
+    }
+    return true
+  }
+
+  // Index band lookup
+  const requested = options.indices ?? DEFAULT_INDICES
+  const indexBands: { name: SpectralIndexName; bands: number[]; values: Float32Array; r: number[] }[] = []
+  const indices: Partial<Record<SpectralIndexName, Float32Array>> = {}
+  for (const name of requested) {
+    const bandsForIndex = SPECTRAL_INDICES[name].wavelengths.map(w => nearestBand(wavelengths, w, tolerance))
+    const values = new Float32Array(width * height).fill(NaN)
+    indices[name] = values
+    if (bandsForIndex.some(b => b < 0)) {
+      if (wavelengths.length > 0) {
+        warnings.push(`${name} needs ${SPECTRAL_INDICES[name].wavelengths.join('/')} nm, not covered by the cube`)
+      }
+      continue
+    }
+    indexBands.push({ name, bands: bandsForIndex, values, r: new Array(bandsForIndex.length) })
+  }
+  const nirBand = nearestBand(wavelengths, 800, tolerance)
+  const redBand = nearestBand(wavelengths, 670, tolerance)
+  const ndviAt = (data: Float32Array, offset: number) => {
+    const nir = data[offset + nirBand]
+    const red = data[offset + redBand]
+    return (nir - red) / (nir + red)
+  }
+
+  // Segmentation threshold
+  let ndviThreshold = options.ndviThreshold ?? 0.4
+  if (nirBand < 0 || redBand < 0) {
+    warnings.push('Cube does not cover red (670 nm) and NIR (800 nm); no pixels are classed as plant')
+  } else if (options.segmentation === 'otsu') {
+    const histogram = new Float64Array(256)
+    let total = 0
+    let linesDone = 0
+    for await (const tile of reader.tiles(tileLines)) {
+      for (let p = 0; p < tile.lineCount * width; p++) {
+        const offset = p * bands
+        if (!calibrate(tile.data, offset, p % width)) continue
+        const ndvi = ndviAt(tile.data, offset)
+        if (!Number.isFinite(ndvi)) continue
+        histogram[Math.min(255, Math.max(0, Math.floor(((ndvi + 1) / 2) * 256)))]++
+        total++
+      }
+      linesDone += tile.lineCount
+      options.onProgress?.({ linesDone, lines: height, pass: 1 })
+    }
+    ndviThreshold = total > 0 ? otsuFromHistogram(histogram, total, -1, 1) : ndviThreshold
+  }
+
+  // Binning
+  const binSize = Math.max(1, Math.floor(options.binSize ?? Math.ceil(Math.max(width, height) / 100)))
+  const gridWidth = Math.ceil(width / binSize)
+  const gridHeight = Math.ceil(height / binSize)
+  const cellSums = new Float64Array(gridWidth * gridHeight * bands)
+  const cellCounts = new Uint32Array(gridWidth * gridHeight)
+
+  const mask = new Uint8Array(width * height)
+  let plantPixels = 0
+  let tiles = 0
+  let linesDone = 0
+  const pass = options.segmentation === 'otsu' ? 2 : 1
+
+  for await (const tile of reader.tiles(tileLines)) {
+    tiles++
+    for (let l = 0; l < tile.lineCount; l++) {
+      const y = tile.startLine + l
+      for (let x = 0; x < width; x++) {
+        const offset = (l * width + x) * bands
+        if (!calibrate(tile.data, offset, x)) continue
+        const pixel = y * width + x
+
+        for (const index of indexBands) {
+          for (let k = 0; k < index.bands.length; k++) index.r[k] = tile.data[offset + index.bands[k]]
+          const value = SPECTRAL_INDICES[index.name].compute(index.r)
+          index.values[pixel] = Number.isFinite(value) ? value : NaN
+        }
+
+        if (nirBand < 0 || redBand < 0) continue
+        const ndvi = ndviAt(tile.data, offset)
+        if (!(ndvi > ndviThreshold) || tile.data[offset + nirBand] < minNir) continue
+
+        mask[pixel] = 1
+        plantPixels++
+        const cell = Math.floor(y / binSize) * gridWidth + Math.floor(x / binSize)
+        cellCounts[cell]++
+        const cellBase = cell * bands
+        for (let b = 0; b < bands; b++) cellSums[cellBase + b] += tile.data[offset + b]
+      }
+    }
+    linesDone += tile.lineCount
+    options.onProgress?.({ linesDone, lines: height, pass })
+  }
+
+  const stats: Partial<Record<SpectralIndexName, IndexStatistics>> = {}
+  for (const index of indexBands) {
+    const summary = statistics(index.values, mask)
+    if (summary) stats[index.name] = summary
+  }
+
+  const timestamp = options.timestamp ?? new Date()
+  const cells: HyperspectralData[] = []
+  for (let gy = 0; gy < gridHeight; gy++) {
+    for (let gx = 0; gx < gridWidth; gx++) {
+      const cell = gy * gridWidth + gx
+      const count = cellCounts[cell]
+      if (count === 0) continue
+      cells.push({
+        bands: wavelengths.map((wavelength, b) => {
+          const reflectance = Math.min(1, Math.max(0, cellSums[cell * bands + b] / count))
+          return { wavelength, reflectance, absorbance: 1 - reflectance }
+        }),
+        timestamp,
+        temperature: options.temperature ?? NaN,
+        humidity: options.humidity ?? NaN,
+        coordinates: { x: gx, y: gy }
+      })
+    }
+  }
+
+  return {
+    width,
+    height,
+    wavelengths,
+    indices,
+    statistics: stats,
+    mask,
+    ndviThreshold,
+    plantFraction: width * height > 0 ? plantPixels / (width * height) : 0,
+    binSize,
+    gridWidth,
+    gridHeight,
+    cells,
+    tiles,
+    warnings
+  }
+}
+
+/**
+ * Downsample a full-resolution index map to a grid of plant-pixel means,
+ * 0 where a cell has no plant pixels (matches generateHyperspectralMap output)
+ */
+export function indexGrid(analysis: HyperspectralCubeAnalysis, index: SpectralIndexName, binSize = analysis.binSize): number[][] {
+  const values = analysis.indices[index]
+  const gridWidth = Math.ceil(analysis.width / binSize)
+  const gridHeight = Math.ceil(analysis.height / binSize)
+  const sums = new Float64Array(gridWidth * gridHeight)
+  const counts = new Uint32Array(gridWidth * gridHeight)
+  if (values) {
+    for (let y = 0; y < analysis.height; y++) {
+      for (let x = 0; x < analysis.width; x++) {
+        const pixel = y * analysis.width + x
+        if (!analysis.mask[pixel] || !Number.isFinite(values[pixel])) continue
+        const cell = Math.floor(y / binSize) * gridWidth + Math.floor(x / binSize)
+        sums[cell] += values[pixel]
+        counts[cell]++
+      }
+    }
+  }
+  return Array.from({ length: gridHeight }, (_, gy) =>
+    Array.from({ length: gridWidth }, (_, gx) => {
+      const cell = gy * gridWidth + gx
+      return counts[cell] > 0 ? sums[cell] / counts[cell] : 0
+    })
+  )
+}
@@ -41,6 +41,33 @@ export interface NutrientStatus {
   iron: { level: number; status: string }
 }
 
+export type SpectralIndexName = 'NDVI' | 'EVI' | 'SAVI' | 'PRI' | 'WBI' | 'MCARI' | 'NDRE' | 'PSRI' | 'ARI'
+
+/**
+ * Index formulas over reflectance sampled at the listed wavelengths (nm),
+ * shared by point spectra and per-pixel cube processing
+ */
+export const SPECTRAL_INDICES: Record<SpectralIndexName, { wavelengths: number[]; compute: (r: number[]) => number }> = {
+  NDVI: { wavelengths: [800, 670], compute: ([nir, red]) => (nir - red) / (nir + red) },
+  EVI: {
+    wavelengths: [800, 670, 480],
+    compute: ([nir, red, blue]) => 2.5 * ((nir - red) / (nir + 6 * red - 7.5 * blue + 1))
+  },
+  SAVI: { wavelengths: [800, 670], compute: ([nir, red]) => ((nir - red) / (nir + red + 0.5)) * 1.5 },
+  PRI: { wavelengths: [531, 570], compute: ([r531, r570]) => (r531 - r570) / (r531 + r570) },
+  WBI: { wavelengths: [900, 970], compute: ([r900, r970]) => r900 / r970 },
+  MCARI: {
+    wavelengths: [700, 670, 550],
+    compute: ([r700, red, r550]) => ((r700 - red) - 0.2 * (r700 - r550)) * (r700 / red)
+  },
+  // Red-edge chlorophyll/nitrogen status
+  NDRE: { wavelengths: [790, 720], compute: ([r790, r720]) => (r790 - r720) / (r790 + r720) },
+  // Plant senescence reflectance index
+  PSRI: { wavelengths: [680, 500, 750], compute: ([r680, r500, r750]) => (r680 - r500) / r750 },
+  // Anthocyanin reflectance index (stress pigments)
+  ARI: { wavelengths: [550, 700], compute: ([r550, r700]) => 1 / r550 - 1 / r700 }
+}
+
 export class HyperspectralAnalyzer {
   /**
    * Calculate vegetation indices from spectral data
@@ -54,10 +81,11 @@ export class HyperspectralAnalyzer {
       return band?.reflectance || 0
     }
     
+    const index = (name: SpectralIndexName) =>
+      SPECTRAL_INDICES[name].compute(SPECTRAL_INDICES[name].wavelengths.map(getReflectance))
+    
     // NDVI (Normalized Difference Vegetation Index)
-    const nir = getReflectance(800) // Near-infrared
-    const red = getReflectance(670) // Red
-    const ndvi = (nir - red) / (nir + red)
+    const ndvi = index('NDVI')
     
     indices.push({
       name: 'NDVI',
@@ -67,8 +95,7 @@ export class HyperspectralAnalyzer {
     })
     
     // EVI (Enhanced Vegetation Index)
-    const blue = getReflectance(480)
-    const evi = 2.5 * ((nir - red) / (nir + 6 * red - 7.5 * blue + 1))
+    const evi = index('EVI')
     
     indices.push({
       name: 'EVI',
@@ -78,8 +105,7 @@ export class HyperspectralAnalyzer {
     })
     
     // SAVI (Soil Adjusted Vegetation Index)
-    const L = 0.5 // Soil brightness correction factor
-    const savi = ((nir - red) / (nir + red + L)) * (1 + L)
+    const savi = index('SAVI')
     
     indices.push({
       name: 'SAVI',
@@ -89,9 +115,7 @@ export class HyperspectralAnalyzer {
     })
     
     // PRI (Photochemical Reflectance Index)
-    const r531 = getReflectance(531)
-    const r570 = getReflectance(570)
-    const pri = (r531 - r570) / (r531 + r570)
+    const pri = index('PRI')
     
     indices.push({
       name: 'PRI',
@@ -101,9 +125,7 @@ export class HyperspectralAnalyzer {
     })
     
     // WBI (Water Band Index)
-    const r900 = getReflectance(900)
-    const r970 = getReflectance(970)
-    const wbi = r900 / r970
+    const wbi = index('WBI')
     
     indices.push({
       name: 'WBI',
@@ -113,9 +135,7 @@ export class HyperspectralAnalyzer {
     })
     
     // MCARI (Modified Chlorophyll Absorption Ratio Index)
-    const r700 = getReflectance(700)
-    const r550 = getReflectance(550)
-    const mcari = ((r700 - red) - 0.2 * (r700 - r550)) * (r700 / red)
+    const mcari = index('MCARI')
     
     indices.push({
       name: 'MCARI',
@@ -3,6 +3,7 @@
 
 import { logger } from '@/lib/client-logger';
 import type { IESPhotometry } from './ies-generator'
+import { convertToTypeC, validateAngleTables, PHOTOMETRIC_TYPE_C } from './photometric/photometric-geometry'
 
 export interface IESHeader {
   filename: string
@@ -16,6 +17,8 @@ export interface IESHeader {
   testLab?: string
   testDate?: string
   description?: string
+  // All bracketed keywords, including user-defined [_...] ones, keyed by upper-case name
+  keywords?: Record<string, string>
 }
 
 export interface IESMetadata {
@@ -25,7 +28,8 @@ export interface IESMetadata {
   candelaMultiplier: number
   numberOfVerticalAngles: number
   numberOfHorizontalAngles: number
-  photometricType: number
+  photometricType: number // Always 1 (Type C) unless conversion was disabled
+  sourcePhotometricType?: number // Type declared in the file: 1 = C, 2 = B, 3 = A
   unitsType: number
   luminousWidth: number
   luminousLength: number
@@ -33,6 +37,19 @@ export interface IESMetadata {
   ballastFactor?: number
   ballastLampPhotometricFactor?: number
   inputWatts?: number
+  tilt?: IESTiltData
+}
+
+export interface IESTiltData {
+  lampToLuminaireGeometry: number // 1 = vertical base lamp, 2 and 3 = horizontal base lamp in the two tilt planes
+  angles: number[]
+  multipliers: number[]
+  appliedMultiplier: number
+}
+
+export interface IESParseOptions {
+  installationTilt?: number // Luminaire tilt from its photometered position, degrees
+  convertToTypeC?: boolean // Resample Type A/B data into the Type C frame (default true)
 }
 
 export interface PhotometricAnalysis {
@@ -55,12 +72,16 @@ export interface ParsedIESFile {
     analysis: PhotometricAnalysis
   }
   metadata: IESMetadata
+  warnings?: string[]
 }
 
+// Keywords such as [_LDT_TILT] may mention TILT, so only a real directive ends the header
+const TILT_LINE = /^TILT\s*=/i
+
 /**
  * Enhanced IES file parser with comprehensive photometric analysis
  */
-export function parseIESFile(content: string): ParsedIESFile {
+export function parseIESFile(content: string, options: IESParseOptions = {}): ParsedIESFile {
   const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0)
   
   let currentIndex = 0
@@ -81,17 +102,19 @@ export function parseIESFile(content: string): ParsedIESFile {
     issueDate: '',
     testLab: undefined,
     testDate: undefined,
-    description: undefined
+    description: undefined,
+    keywords: {}
   }
   
   // Parse header section with enhanced keyword support
-  while (currentIndex < lines.length && !lines[currentIndex].toUpperCase().includes('TILT')) {
+  while (currentIndex < lines.length && !TILT_LINE.test(lines[currentIndex])) {
     const line = lines[currentIndex]
     
     // Parse header fields with better regex matching
     const keywordMatch = line.match(/^\[([^\]]+)\]\s*(.*)/)
     if (keywordMatch) {
       const [, keyword, value] = keywordMatch
+      header.keywords![keyword.toUpperCase()] = value.trim()
       switch (keyword.toUpperCase()) {
         case 'TEST':
           header.testLab = value.trim()
@@ -126,9 +149,9 @@ export function parseIESFile(content: string): ParsedIESFile {
     currentIndex++
   }
   
-  // Skip TILT line and parse tilt data
+  // TILT=NONE, TILT=INCLUDE (data follows inline) or TILT=<filename>
   let tiltType = 'NONE'
-  if (currentIndex < lines.length && lines[currentIndex].toUpperCase().includes('TILT')) {
+  if (currentIndex < lines.length && TILT_LINE.test(lines[currentIndex])) {
     tiltType = lines[currentIndex].split('=')[1]?.trim() || 'NONE'
     currentIndex++
   }
@@ -138,26 +161,33 @@ export function parseIESFile(content: string): ParsedIESFile {
     throw new Error('Invalid IES file: Missing photometric data section')
   }
   
-  // Parse the main photometric line - enhanced parsing
-  const photometricData: number[] = []
-  
-  // Keep reading lines until we have at least 10 numbers for the photometric header
-  while (currentIndex < lines.length && photometricData.length < 10) {
-    const line = lines[currentIndex++]
-    if (line && !line.startsWith('[')) {
-      const numbers = line.split(/\s+/)
-        .filter(n => n.length > 0)
-        .map(Number)
-        .filter(n => !isNaN(n))
-      photometricData.push(...numbers)
+  // Everything after TILT is a whitespace-separated number stream; line breaks carry no meaning
+  const tokens: number[] = []
+  for (; currentIndex < lines.length; currentIndex++) {
+    const line = lines[currentIndex]
+    if (line.startsWith('[')) continue
+    for (const token of line.split(/[\s,]+/)) {
+      if (token.length === 0) continue
+      const num = Number(token)
+      if (!isNaN(num)) tokens.push(num)
     }
   }
   
-  if (photometricData.length < 10) {
-    throw new Error(`Invalid IES file: Incomplete photometric data (found ${photometricData.length} values, need at least 10)`)
+  const warnings: string[] = []
+  let tokenIndex = 0
+  let tilt: IESTiltData | undefined
+  
+  if (tiltType.toUpperCase() === 'INCLUDE') {
+    const block = readTiltBlock(tokens)
+    tilt = block.tilt
+    tokenIndex = block.tokenCount
+  } else if (tiltType.toUpperCase() !== 'NONE') {
+    warnings.push(`TILT data is stored in external file "${tiltType}"; tilt multipliers were not applied`)
   }
   
-  const photometricLine = photometricData
+  if (tokens.length - tokenIndex < 10) {
+    throw new Error(`Invalid IES file: Incomplete photometric data (found ${tokens.length - tokenIndex} values, need at least 10)`)
+  }
   
   const [
     numberOfLamps,
@@ -165,83 +195,60 @@ export function parseIESFile(content: string): ParsedIESFile {
     candelaMultiplier,
     numberOfVerticalAngles,
     numberOfHorizontalAngles,
-    photometricType,
+    sourcePhotometricType,
     unitsType,
     luminousWidth,
     luminousLength,
     luminousHeight
-  ] = photometricLine
-  
-  // Parse ballast factor and future use lines (these are sometimes combined or missing)
-  let ballastFactor = 1.0
-  let futureUse = 1.0
+  ] = tokens.slice(tokenIndex, tokenIndex + 10)
+  tokenIndex += 10
   
-  if (currentIndex < lines.length) {
-    const ballastLine = lines[currentIndex++].split(/\s+/).map(Number).filter(n => !isNaN(n))
-    if (ballastLine.length > 0) ballastFactor = ballastLine[0]
-    if (ballastLine.length > 1) futureUse = ballastLine[1]
+  if (!Number.isInteger(numberOfVerticalAngles) || numberOfVerticalAngles < 1 ||
+      !Number.isInteger(numberOfHorizontalAngles) || numberOfHorizontalAngles < 1) {
+    throw new Error(`Invalid IES file: Angle counts must be positive integers (found ${numberOfVerticalAngles} vertical, ${numberOfHorizontalAngles} horizontal)`)
   }
   
-  if (currentIndex < lines.length && futureUse === 1.0) {
-    const futureLine = lines[currentIndex++].split(/\s+/).map(Number).filter(n => !isNaN(n))
-    if (futureLine.length > 0) futureUse = futureLine[0]
-  }
+  // Ballast factor, future use (ballast-lamp photometric factor) and input watts
+  const ballastFactor = tokens[tokenIndex] ?? 1.0
+  const futureUse = tokens[tokenIndex + 1] ?? 1.0
+  const inputWatts = tokens[tokenIndex + 2]
+  tokenIndex += 3
   
-  // Parse horizontal angles
-  const horizontalAngles: number[] = []
-  while (horizontalAngles.length < numberOfHorizontalAngles && currentIndex < lines.length) {
-    const line = lines[currentIndex++]
-    const angles = line.split(/\s+/)
-      .filter(a => a.length > 0)
-      .map(Number)
-      .filter(n => !isNaN(n))
-    horizontalAngles.push(...angles)
-  }
+  // Vertical angles precede horizontal angles in LM-63
+  const sourceVerticalAngles = tokens.slice(tokenIndex, tokenIndex + numberOfVerticalAngles)
+  tokenIndex += numberOfVerticalAngles
+  const sourceHorizontalAngles = tokens.slice(tokenIndex, tokenIndex + numberOfHorizontalAngles)
+  tokenIndex += numberOfHorizontalAngles
   
-  // Fill missing angles with defaults if needed
-  if (horizontalAngles.length === 0) {
-    horizontalAngles.push(0) // Default single horizontal angle
+  if (sourceVerticalAngles.length < numberOfVerticalAngles || sourceHorizontalAngles.length < numberOfHorizontalAngles) {
+    throw new Error(`Invalid IES file: Angle tables are truncated (expected ${numberOfVerticalAngles} vertical and ${numberOfHorizontalAngles} horizontal angles)`)
   }
   
-  // Parse vertical angles
-  const verticalAngles: number[] = []
-  while (verticalAngles.length < numberOfVerticalAngles && currentIndex < lines.length) {
-    const line = lines[currentIndex++]
-    const angles = line.split(/\s+/)
-      .filter(a => a.length > 0)
-      .map(Number)
-      .filter(n => !isNaN(n))
-    verticalAngles.push(...angles)
+  const angleCheck = validateAngleTables(sourcePhotometricType, sourceHorizontalAngles, sourceVerticalAngles)
+  if (angleCheck.errors.length > 0) {
+    throw new Error(`Invalid IES file: ${angleCheck.errors.join('; ')}`)
   }
+  warnings.push(...angleCheck.warnings)
   
-  // Fill missing angles with defaults if needed
-  while (verticalAngles.length < numberOfVerticalAngles) {
-    const lastAngle = verticalAngles[verticalAngles.length - 1] || 0
-    verticalAngles.push(lastAngle + 5) // Add 5 degree increments
+  // Lamp-to-luminaire tilt multiplier for the installed orientation
+  let tiltMultiplier = 1
+  if (tilt) {
+    tiltMultiplier = tiltMultiplierFor(tilt, options.installationTilt ?? 0)
+    tilt.appliedMultiplier = tiltMultiplier
   }
   
   // Parse candela values
-  const candela: number[][] = []
+  const sourceCandela: number[][] = []
   const totalCandelaValues = numberOfVerticalAngles * numberOfHorizontalAngles
-  const allCandelaValues: number[] = []
-  
-  
-  // Read all remaining lines for candela data
-  while (currentIndex < lines.length && allCandelaValues.length < totalCandelaValues) {
-    const line = lines[currentIndex++]
-    const values = line.split(/\s+/)
-      .filter(v => v.length > 0)
-      .map(val => {
-        const num = Number(val)
-        return isNaN(num) ? 0 : num * candelaMultiplier
-      })
-    allCandelaValues.push(...values)
-  }
-  
-  
-  // Fill in missing values with zeros if needed
-  while (allCandelaValues.length < totalCandelaValues) {
-    allCandelaValues.push(0)
+  const allCandelaValues = tokens
+    .slice(tokenIndex, tokenIndex + totalCandelaValues)
+    .map(value => value * candelaMultiplier * tiltMultiplier)
+  
+  if (allCandelaValues.length < totalCandelaValues) {
+    warnings.push(`Candela table is truncated (${allCandelaValues.length} of ${totalCandelaValues} values); missing values were set to 0`)
+    while (allCandelaValues.length < totalCandelaValues) {
+      allCandelaValues.push(0)
+    }
   }
   
   // Organize candela values into 2D array
@@ -251,9 +258,16 @@ export function parseIESFile(content: string): ParsedIESFile {
     for (let v = 0; v < numberOfVerticalAngles; v++) {
       column.push(allCandelaValues[valueIndex++] || 0)
     }
-    candela.push(column)
+    sourceCandela.push(column)
   }
   
+  // Downstream designer and PPFD math works in the Type C frame
+  const convert = options.convertToTypeC !== false && sourcePhotometricType !== PHOTOMETRIC_TYPE_C
+  const { horizontalAngles, verticalAngles, candela } = convert
+    ? convertToTypeC(sourcePhotometricType, sourceHorizontalAngles, sourceVerticalAngles, sourceCandela)
+    : { horizontalAngles: sourceHorizontalAngles, verticalAngles: sourceVerticalAngles, candela: sourceCandela }
+  const photometricType = convert ? PHOTOMETRIC_TYPE_C : sourcePhotometricType
+  
   // Calculate total lumens and max candela
   const maxCandela = Math.max(...candela.flat())
   const totalLumens = numberOfLamps * lumensPerLamp
@@ -285,16 +299,17 @@ export function parseIESFile(content: string): ParsedIESFile {
     numberOfLamps,
     lumensPerLamp,
     candelaMultiplier,
-    numberOfVerticalAngles,
-    numberOfHorizontalAngles,
+    numberOfVerticalAngles: verticalAngles.length,
+    numberOfHorizontalAngles: horizontalAngles.length,
     photometricType,
+    sourcePhotometricType,
     unitsType,
     luminousWidth,
     luminousLength,
     luminousHeight,
     ballastFactor,
     ballastLampPhotometricFactor: futureUse,
-    inputWatts: luminousHeight > 0 ? luminousHeight : undefined
+    inputWatts: inputWatts !== undefined && inputWatts > 0 ? inputWatts : undefined
   }
   
   return {
@@ -310,14 +325,66 @@ export function parseIESFile(content: string): ParsedIESFile {
       candelaMatrix: candela,
       analysis
     },
-    metadata
+    metadata: { ...metadata, tilt },
+    warnings
+  }
+}
+
+/**
+ * Read a TILT=INCLUDE block: geometry, angle count, angles and multiplying factors
+ */
+function readTiltBlock(tokens: number[]): { tilt: IESTiltData; tokenCount: number } {
+  const [lampToLuminaireGeometry, count] = tokens
+  if (![1, 2, 3].includes(lampToLuminaireGeometry)) {
+    throw new Error(`Invalid IES file: TILT lamp-to-luminaire geometry must be 1, 2 or 3 (found ${lampToLuminaireGeometry})`)
+  }
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid IES file: TILT angle count must be a positive integer (found ${count})`)
+  }
+  
+  const angles = tokens.slice(2, 2 + count)
+  const multipliers = tokens.slice(2 + count, 2 + 2 * count)
+  if (angles.length < count || multipliers.length < count) {
+    throw new Error(`Invalid IES file: TILT block is truncated (expected ${count} angles and ${count} multipliers)`)
+  }
+  for (let i = 1; i < angles.length; i++) {
+    if (angles[i] <= angles[i - 1]) {
+      throw new Error('Invalid IES file: TILT angles must be strictly ascending')
+    }
+  }
+  if (multipliers.some(m => m < 0)) {
+    throw new Error('Invalid IES file: TILT multiplying factors cannot be negative')
+  }
+  
+  return {
+    tilt: { lampToLuminaireGeometry, angles, multipliers, appliedMultiplier: 1 },
+    tokenCount: 2 + 2 * count
+  }
+}
+
+/**
+ * Interpolate the tilt multiplier for a luminaire installed at the given tilt.
+ * In every geometry the lamp tilts with the luminaire; the geometry only says how
+ * the multipliers were measured, so the table applies to the installation tilt as is.
+ */
+function tiltMultiplierFor(tilt: IESTiltData, installationTilt: number): number {
+  const lampTilt = Math.abs(installationTilt)
+  const { angles, multipliers } = tilt
+  
+  if (lampTilt <= angles[0]) return multipliers[0]
+  for (let i = 1; i < angles.length; i++) {
+    if (lampTilt <= angles[i]) {
+      const t = (lampTilt - angles[i - 1]) / (angles[i] - angles[i - 1])
+      return multipliers[i - 1] + t * (multipliers[i] - multipliers[i - 1])
+    }
   }
+  return multipliers[multipliers.length - 1]
 }
 
 /**
  * Comprehensive photometric distribution analysis
  */
-function analyzePhotometricDistribution(
+export function analyzePhotometricDistribution(
   verticalAngles: number[],
   horizontalAngles: number[],
   candelaMatrix: number[][]
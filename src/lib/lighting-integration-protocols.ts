@@ -239,6 +239,17 @@ export const genericIntegrationMethods = {
       'Proper grounding'
     ]
   },
+  'DMX512': {
+    description: 'Multichannel spectrum control through sACN (E1.31) or Art-Net nodes',
+    resolution: '8-bit, or 16-bit on coarse/fine channel pairs',
+    channels: 512,
+    feedback: false,
+    requirements: [
+      'sACN or Art-Net to DMX node per universe',
+      'Fixture patch with start address and channel layout',
+      'Emitter peak wavelengths or measured spectra for recipe mapping'
+    ]
+  },
   'RelayControl': {
     description: 'Simple on/off control',
     type: 'NO/NC contacts',
@@ -266,6 +277,12 @@ export const protocolGateways = {
     channels: '8-16 typical',
     cost: '$500-1500'
   },
+  'ModbusToDALI': {
+    description: 'Modbus/TCP register access to one or more DALI-2 lines',
+    manufacturers: ['Lunatone', 'ADFweb', 'Intesis'],
+    features: ['Addressing and group programming', 'Status and failure queries', 'Part 252/253 memory bank access'],
+    cost: '$300-900'
+  },
   'APIToModbus': {
     description: 'Cloud API to local Modbus gateway',
     manufacturers: ['VibeLux', 'Custom solutions'],
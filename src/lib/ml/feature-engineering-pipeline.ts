@@ -67,12 +67,62 @@ export class FeatureEngineeringPipeline {
       throw new Error('No data provided for feature engineering');
     }
 
+    const { features, transformationsApplied } = this.buildFeatures(data, config, options);
+
+    // Feature selection based on importance
+    const selectedFeatures = await this.selectFeatures(features, options.targetVariable);
+    
+    // Prepare preprocessing information
+    const preprocessing = this.preparePreprocessing(selectedFeatures);
+
+    return {
+      features: selectedFeatures,
+      featureNames: Object.keys(selectedFeatures),
+      metadata: {
+        originalFeatures: config.length,
+        engineeredFeatures: Object.keys(selectedFeatures).length,
+        transformationsApplied
+      },
+      preprocessing
+    };
+  }
+
+  /**
+   * Rebuild a previously selected feature set for new rows (e.g. at prediction time).
+   * No selection is applied; features the rows cannot produce, such as an unseen
+   * category, are filled with zeros so column order matches training.
+   */
+  transformFeatures(
+    data: Record<string, any>[],
+    config: FeatureConfig[],
+    featureNames: string[],
+    options: {
+      createInteractions?: boolean;
+      timeSeriesFeatures?: boolean;
+      polynomialFeatures?: boolean;
+    } = {}
+  ): Record<string, number[]> {
+    const { features } = this.buildFeatures(data, config, options);
+    return Object.fromEntries(
+      featureNames.map(name => [name, features[name] ?? data.map(() => 0)])
+    );
+  }
+
+  private buildFeatures(
+    data: Record<string, any>[],
+    config: FeatureConfig[],
+    options: {
+      createInteractions?: boolean;
+      timeSeriesFeatures?: boolean;
+      polynomialFeatures?: boolean;
+    }
+  ): { features: Record<string, number[]>; transformationsApplied: string[] } {
     // Set up configuration
     config.forEach(c => this.config.set(c.name, c));
 
     // Extract base features
     let features = this.extractBaseFeatures(data, config);
-    const transformationsApplied = [];
+    const transformationsApplied: string[] = [];
 
     // Apply basic transformations
     features = this.applyBasicTransformations(features, config);
@@ -104,22 +154,7 @@ export class FeatureEngineeringPipeline {
       transformationsApplied.push('polynomial_features');
     }
 
-    // Feature selection based on importance
-    const selectedFeatures = await this.selectFeatures(features, options.targetVariable);
-    
-    // Prepare preprocessing information
-    const preprocessing = this.preparePreprocessing(selectedFeatures);
-
-    return {
-      features: selectedFeatures,
-      featureNames: Object.keys(selectedFeatures),
-      metadata: {
-        originalFeatures: config.length,
-        engineeredFeatures: Object.keys(selectedFeatures).length,
-        transformationsApplied
-      },
-      preprocessing
-    };
+    return { features, transformationsApplied };
   }
 
   /**
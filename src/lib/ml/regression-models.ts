@@ -0,0 +1,372 @@
+/**
+ * CPU Regression Models
+ * Elastic-net/ridge linear models and histogram gradient-boosted regression trees
+ * for tabular cultivation data, with seeded sampling, k-fold cross-validation and
+ * plain-JSON artifacts that can be stored and reloaded without retraining.
+ */
+
+export type Matrix = number[][];
+
+export interface RegressionMetrics {
+  rmse: number;
+  mae: number;
+  r2: number;
+}
+
+export interface FeatureScaler {
+  mean: number[];
+  std: number[];
+}
+
+export interface LinearModelParams {
+  alpha: number; // Overall regularization strength
+  l1Ratio: number; // 0 = ridge, 1 = lasso
+  maxIterations?: number;
+  tolerance?: number;
+}
+
+export interface BoostingParams {
+  nEstimators: number;
+  learningRate: number;
+  maxDepth: number;
+  minSamplesLeaf: number;
+  subsample: number; // Row fraction sampled per tree
+  maxBins?: number;
+  earlyStoppingRounds?: number;
+  validationFraction?: number; // Held out for early stopping when no validation set is given
+  seed: number;
+}
+
+// Flattened tree: feature < 0 marks a leaf holding `value`
+export interface RegressionTree {
+  feature: number[];
+  threshold: number[];
+  left: number[];
+  right: number[];
+  value: number[];
+}
+
+export interface LinearModelArtifact {
+  kind: 'linear';
+  params: LinearModelParams;
+  scaler: FeatureScaler;
+  intercept: number;
+  coefficients: number[];
+}
+
+export interface BoostedTreesArtifact {
+  kind: 'boosting';
+  params: BoostingParams;
+  baseline: number;
+  trees: RegressionTree[];
+  trainLoss: number[]; // MSE after each round
+  validationLoss: number[];
+  bestIteration: number; // Rounds kept after early stopping
+}
+
+export type RegressionArtifact = LinearModelArtifact | BoostedTreesArtifact;
+
+export interface FoldSplit {
+  train: number[];
+  test: number[];
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so sampling and fold assignment are reproducible
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffledIndices(n: number, random: () => number): number[] {
+  const indices = Array.from({ length: n }, (_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices;
+}
+
+export function kFoldSplits(n: number, k: number, seed: number): FoldSplit[] {
+  if (k < 2 || k > n) {
+    throw new Error(`Cannot split ${n} samples into ${k} folds`);
+  }
+  const order = shuffledIndices(n, createRandom(seed));
+  return Array.from({ length: k }, (_, fold) => {
+    const test = order.filter((_, position) => position % k === fold);
+    const inFold = new Set(test);
+    return { train: order.filter(index => !inFold.has(index)), test };
+  });
+}
+
+export function regressionMetrics(actual: number[], predicted: number[]): RegressionMetrics {
+  const n = actual.length;
+  const mean = actual.reduce((sum, value) => sum + value, 0) / n;
+  let squared = 0;
+  let absolute = 0;
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const error = actual[i] - predicted[i];
+    squared += error * error;
+    absolute += Math.abs(error);
+    total += (actual[i] - mean) ** 2;
+  }
+  return {
+    rmse: Math.sqrt(squared / n),
+    mae: absolute / n,
+    r2: total > 0 ? 1 - squared / total : 0
+  };
+}
+
+export function fitScaler(X: Matrix): FeatureScaler {
+  const columns = X[0]?.length ?? 0;
+  const mean = new Array(columns).fill(0);
+  const std = new Array(columns).fill(0);
+  for (const row of X) row.forEach((value, j) => { mean[j] += value / X.length; });
+  for (const row of X) row.forEach((value, j) => { std[j] += (value - mean[j]) ** 2 / X.length; });
+  return { mean, std: std.map(Math.sqrt) };
+}
+
+function scaleRow(row: number[], scaler: FeatureScaler): number[] {
+  return row.map((value, j) => (scaler.std[j] > 0 ? (value - scaler.mean[j]) / scaler.std[j] : 0));
+}
+
+/**
+ * Elastic net by cyclic coordinate descent on standardized features (glmnet objective):
+ * 1/(2n)·|y − b − Xw|² + α·(ρ|w|₁ + (1−ρ)/2·|w|²)
+ */
+export function fitLinearModel(X: Matrix, y: number[], params: LinearModelParams): LinearModelArtifact {
+  const n = X.length;
+  const scaler = fitScaler(X);
+  const Z = X.map(row => scaleRow(row, scaler));
+  const columns = scaler.mean.length;
+  const intercept = y.reduce((sum, value) => sum + value, 0) / n;
+  const residual = y.map(value => value - intercept);
+  const weights = new Array(columns).fill(0);
+  const l1 = params.alpha * params.l1Ratio;
+  const l2 = params.alpha * (1 - params.l1Ratio);
+  const maxIterations = params.maxIterations ?? 1000;
+  const tolerance = params.tolerance ?? 1e-6;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let largestStep = 0;
+    for (let j = 0; j < columns; j++) {
+      if (scaler.std[j] === 0) continue;
+      let rho = 0;
+      for (let i = 0; i < n; i++) rho += Z[i][j] * (residual[i] + Z[i][j] * weights[j]);
+      rho /= n;
+      const updated = Math.sign(rho) * Math.max(0, Math.abs(rho) - l1) / (1 + l2);
+      const step = updated - weights[j];
+      if (step !== 0) {
+        for (let i = 0; i < n; i++) residual[i] -= Z[i][j] * step;
+        weights[j] = updated;
+        largestStep = Math.max(largestStep, Math.abs(step));
+      }
+    }
+    if (largestStep < tolerance) break;
+  }
+
+  return { kind: 'linear', params, scaler, intercept, coefficients: weights };
+}
+
+function predictLinear(model: LinearModelArtifact, row: number[]): number {
+  const scaled = scaleRow(row, model.scaler);
+  return scaled.reduce((sum, value, j) => sum + value * model.coefficients[j], model.intercept);
+}
+
+// Quantile bin edges per feature; a value goes in the first bin whose edge it does not exceed
+function binEdges(X: Matrix, maxBins: number): number[][] {
+  const columns = X[0]?.length ?? 0;
+  return Array.from({ length: columns }, (_, j) => {
+    const values = Array.from(new Set(X.map(row => row[j]))).sort((a, b) => a - b);
+    if (values.length <= maxBins) {
+      return values.slice(0, -1).map((value, i) => (value + values[i + 1]) / 2);
+    }
+    const edges: number[] = [];
+    for (let b = 1; b < maxBins; b++) {
+      const edge = values[Math.floor(b * values.length / maxBins)];
+      if (edges[edges.length - 1] !== edge) edges.push(edge);
+    }
+    return edges;
+  });
+}
+
+function binIndex(edges: number[], value: number): number {
+  let low = 0;
+  let high = edges.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (value <= edges[mid]) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+}
+
+function buildTree(
+  bins: number[][],
+  edges: number[][],
+  gradient: number[],
+  rows: number[],
+  params: BoostingParams
+): RegressionTree {
+  const tree: RegressionTree = { feature: [], threshold: [], left: [], right: [], value: [] };
+  const columns = edges.length;
+
+  const grow = (nodeRows: number[], depth: number): number => {
+    const node = tree.feature.length;
+    const total = nodeRows.reduce((sum, i) => sum + gradient[i], 0);
+    tree.feature.push(-1);
+    tree.threshold.push(0);
+    tree.left.push(-1);
+    tree.right.push(-1);
+    tree.value.push(total / nodeRows.length);
+    if (depth >= params.maxDepth || nodeRows.length < 2 * params.minSamplesLeaf) return node;
+
+    // Best variance-reducing split over the histogram of each feature
+    let bestGain = 1e-12;
+    let bestFeature = -1;
+    let bestBin = -1;
+    const parentScore = total * total / nodeRows.length;
+    for (let j = 0; j < columns; j++) {
+      const binCount = edges[j].length + 1;
+      if (binCount < 2) continue;
+      const sums = new Array(binCount).fill(0);
+      const counts = new Array(binCount).fill(0);
+      for (const i of nodeRows) {
+        sums[bins[i][j]] += gradient[i];
+        counts[bins[i][j]]++;
+      }
+      let leftSum = 0;
+      let leftCount = 0;
+      for (let b = 0; b < binCount - 1; b++) {
+        leftSum += sums[b];
+        leftCount += counts[b];
+        const rightCount = nodeRows.length - leftCount;
+        if (leftCount < params.minSamplesLeaf) continue;
+        if (rightCount < params.minSamplesLeaf) break;
+        const rightSum = total - leftSum;
+        const gain = leftSum * leftSum / leftCount + rightSum * rightSum / rightCount - parentScore;
+        if (gain > bestGain) {
+          bestGain = gain;
+          bestFeature = j;
+          bestBin = b;
+        }
+      }
+    }
+    if (bestFeature < 0) return node;
+
+    const leftRows = nodeRows.filter(i => bins[i][bestFeature] <= bestBin);
+    const rightRows = nodeRows.filter(i => bins[i][bestFeature] > bestBin);
+    tree.feature[node] = bestFeature;
+    tree.threshold[node] = edges[bestFeature][bestBin];
+    tree.left[node] = grow(leftRows, depth + 1);
+    tree.right[node] = grow(rightRows, depth + 1);
+    return node;
+  };
+
+  grow(rows, 0);
+  return tree;
+}
+
+function predictTree(tree: RegressionTree, row: number[]): number {
+  let node = 0;
+  while (tree.feature[node] >= 0) {
+    node = row[tree.feature[node]] <= tree.threshold[node] ? tree.left[node] : tree.right[node];
+  }
+  return tree.value[node];
+}
+
+function mse(actual: number[], predicted: number[]): number {
+  return actual.reduce((sum, value, i) => sum + (value - predicted[i]) ** 2, 0) / actual.length;
+}
+
+/**
+ * Gradient boosting with squared loss. Each tree fits the current residuals on a
+ * seeded row subsample; training stops once the validation loss has not improved
+ * for `earlyStoppingRounds` and the model is cut back to its best round.
+ */
+export function fitBoostedTrees(
+  X: Matrix,
+  y: number[],
+  params: BoostingParams,
+  validation?: { X: Matrix; y: number[] }
+): BoostedTreesArtifact {
+  const random = createRandom(params.seed);
+  let trainX = X;
+  let trainY = y;
+  let validX = validation?.X;
+  let validY = validation?.y;
+
+  if (!validation && params.earlyStoppingRounds && params.validationFraction) {
+    const order = shuffledIndices(X.length, random);
+    const held = Math.max(1, Math.round(X.length * params.validationFraction));
+    validX = order.slice(0, held).map(i => X[i]);
+    validY = order.slice(0, held).map(i => y[i]);
+    trainX = order.slice(held).map(i => X[i]);
+    trainY = order.slice(held).map(i => y[i]);
+  }
+
+  const edges = binEdges(trainX, params.maxBins ?? 64);
+  const bins = trainX.map(row => row.map((value, j) => binIndex(edges[j], value)));
+  const baseline = trainY.reduce((sum, value) => sum + value, 0) / trainY.length;
+  const trainPrediction = trainY.map(() => baseline);
+  const validPrediction = validY ? validY.map(() => baseline) : [];
+
+  const trees: RegressionTree[] = [];
+  const trainLoss: number[] = [];
+  const validationLoss: number[] = [];
+  let bestIteration = 0;
+  let bestLoss = Infinity;
+
+  for (let round = 0; round < params.nEstimators; round++) {
+    const residual = trainY.map((value, i) => value - trainPrediction[i]);
+    const rows = params.subsample < 1
+      ? shuffledIndices(trainY.length, random).slice(0, Math.max(2 * params.minSamplesLeaf, Math.round(trainY.length * params.subsample)))
+      : trainY.map((_, i) => i);
+    const tree = buildTree(bins, edges, residual, rows, params);
+    tree.value = tree.value.map(value => value * params.learningRate);
+    trees.push(tree);
+
+    trainX.forEach((row, i) => { trainPrediction[i] += predictTree(tree, row); });
+    trainLoss.push(mse(trainY, trainPrediction));
+
+    if (validX && validY) {
+      validX.forEach((row, i) => { validPrediction[i] += predictTree(tree, row); });
+      const loss = mse(validY, validPrediction);
+      validationLoss.push(loss);
+      if (loss < bestLoss) {
+        bestLoss = loss;
+        bestIteration = round + 1;
+      } else if (params.earlyStoppingRounds && round + 1 - bestIteration >= params.earlyStoppingRounds) {
+        break;
+      }
+    } else {
+      bestIteration = round + 1;
+    }
+  }
+
+  return {
+    kind: 'boosting',
+    params,
+    baseline,
+    trees: trees.slice(0, bestIteration),
+    trainLoss,
+    validationLoss,
+    bestIteration
+  };
+}
+
+function predictBoosted(model: BoostedTreesArtifact, row: number[]): number {
+  return model.trees.reduce((sum, tree) => sum + predictTree(tree, row), model.baseline);
+}
+
+export function predictRegression(model: RegressionArtifact, row: number[]): number {
+  return model.kind === 'linear' ? predictLinear(model, row) : predictBoosted(model, row);
+}
@@ -0,0 +1,211 @@
+/**
+ * Yield Model Registry
+ * Trains yield models from stored YieldTrainingData rows, keeps their serialized
+ * artifacts on ModelRegistry and serves predictions from the deployed champion,
+ * i.e. the yield model with the lowest cross-validated RMSE so far.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logging/production-logger';
+import {
+  TrainingData,
+  TrainingOptions,
+  YieldInputs,
+  YieldModelArtifact,
+  YieldModelMetrics,
+  YieldModelTrainer,
+  YieldPrediction
+} from './yield-model-training';
+
+export interface RegisteredYieldModel {
+  modelId: string;
+  metrics: YieldModelMetrics;
+  champion: boolean;
+}
+
+let championCache: { id: string; updatedAt: Date; trainer: YieldModelTrainer } | null = null;
+
+function toJson(value: unknown) {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export async function loadYieldTrainingData(since?: Date): Promise<TrainingData[]> {
+  const rows = await prisma.yieldTrainingData.findMany({
+    where: since ? { createdAt: { gte: since } } : {},
+    orderBy: { createdAt: 'asc' }
+  });
+  return rows.map(row => ({
+    inputs: {
+      ppfd: row.ppfd,
+      dli: row.dli,
+      temperature: row.temperature,
+      humidity: row.humidity,
+      co2: row.co2,
+      vpd: row.vpd,
+      ec: row.ec,
+      ph: row.ph,
+      growthStage: row.growthStage
+    },
+    output: { yield: row.actualYield }
+  }));
+}
+
+/**
+ * Deploy the model if it beats the current champion's CV RMSE
+ */
+async function promoteIfChampion(modelId: string, metrics: YieldModelMetrics): Promise<boolean> {
+  const current = await prisma.modelRegistry.findFirst({ where: { type: 'yield', status: 'deployed' } });
+  const currentRmse = (current?.metrics as { rmse?: number } | null)?.rmse;
+  if (current && current.id !== modelId && currentRmse !== undefined && currentRmse <= metrics.rmse) {
+    return false;
+  }
+  if (current && current.id !== modelId) {
+    await prisma.modelRegistry.update({ where: { id: current.id }, data: { status: 'ready' } });
+  }
+  await prisma.modelRegistry.update({ where: { id: modelId }, data: { status: 'deployed' } });
+  championCache = null;
+  return true;
+}
+
+const YIELD_MODEL_KINDS = ['gradient-boosting', 'ridge', 'elastic-net'];
+const PROBE_INPUTS: YieldInputs = { ppfd: 800, temperature: 25, humidity: 60, co2: 1000, vpd: 1.1, growthStage: 'Flowering' };
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Reject artifacts that would break predictions: wrong shape, non-finite
+ * metrics, or a model that cannot score a typical canopy reading
+ */
+function validateYieldArtifact(artifact: unknown): YieldModelArtifact {
+  if (
+    !isObject(artifact) ||
+    artifact.format !== 'vibelux-yield-model' ||
+    artifact.version !== 1 ||
+    !YIELD_MODEL_KINDS.includes(artifact.kind as string) ||
+    !Array.isArray(artifact.featureConfig) ||
+    !Array.isArray(artifact.featureNames) ||
+    !artifact.featureNames.every(name => typeof name === 'string') ||
+    !isObject(artifact.model) ||
+    !Array.isArray(artifact.foldModels) ||
+    !artifact.foldModels.every(isObject) ||
+    !isFiniteNumber(artifact.residualStd) ||
+    !isObject(artifact.metrics) ||
+    !isFiniteNumber(artifact.metrics.rmse)
+  ) {
+    throw new Error('Unsupported yield model artifact');
+  }
+
+  const checked = artifact as unknown as YieldModelArtifact;
+  let prediction: YieldPrediction | undefined;
+  try {
+    prediction = new YieldModelTrainer(checked).predictWithInterval(PROBE_INPUTS);
+  } catch {
+    // Reported below
+  }
+  if (!prediction || !isFiniteNumber(prediction.yield) || !isFiniteNumber(prediction.std)) {
+    throw new Error('Yield model artifact cannot produce predictions');
+  }
+  return checked;
+}
+
+/**
+ * Store an artifact trained elsewhere (e.g. in the browser) as a new yield model
+ * version. Its metrics are self-reported, so it stays a candidate: only training
+ * runs scored against the stored YieldTrainingData can become champion.
+ */
+export async function registerYieldModel(
+  artifact: YieldModelArtifact,
+  name = 'yield-model'
+): Promise<RegisteredYieldModel> {
+  const checked = validateYieldArtifact(artifact);
+  const versions = await prisma.modelRegistry.count({ where: { type: 'yield', name } });
+  const model = await prisma.modelRegistry.create({
+    data: {
+      name,
+      version: `v${versions + 1}`,
+      type: 'yield',
+      status: 'ready',
+      metrics: toJson(checked.metrics),
+      artifact: toJson(checked)
+    }
+  });
+  await prisma.modelTrainingRun.create({
+    data: {
+      modelId: model.id,
+      status: 'completed',
+      finishedAt: new Date(),
+      metrics: toJson({ ...checked.metrics, kind: checked.kind, samples: checked.samples })
+    }
+  });
+  return { modelId: model.id, metrics: checked.metrics, champion: false };
+}
+
+/**
+ * Execute a pending ModelTrainingRun against the stored yield training data
+ */
+export async function trainYieldModelRun(
+  runId: string,
+  options: TrainingOptions & { since?: Date } = {}
+): Promise<RegisteredYieldModel> {
+  const run = await prisma.modelTrainingRun.findUnique({ where: { id: runId } });
+  if (!run) {
+    throw new Error(`Training run ${runId} not found`);
+  }
+
+  await prisma.modelRegistry.update({ where: { id: run.modelId }, data: { status: 'training' } });
+  try {
+    const data = await loadYieldTrainingData(options.since);
+    const trained = await new YieldModelTrainer().train(data, options);
+    const { artifact, metadata } = trained;
+
+    await prisma.modelRegistry.update({
+      where: { id: run.modelId },
+      data: { status: 'ready', metrics: toJson(metadata.metrics), artifact: toJson(artifact) }
+    });
+    const champion = await promoteIfChampion(run.modelId, metadata.metrics);
+    await prisma.modelTrainingRun.update({
+      where: { id: runId },
+      data: {
+        status: 'completed',
+        finishedAt: new Date(),
+        metrics: toJson({ ...metadata.metrics, kind: metadata.kind, samples: artifact.samples, candidates: metadata.candidates })
+      }
+    });
+
+    logger.info(`Yield model ${run.modelId} trained`, { kind: metadata.kind, rmse: metadata.metrics.rmse, champion });
+    return { modelId: run.modelId, metrics: metadata.metrics, champion };
+  } catch (error) {
+    logger.error(`Yield training run ${runId} failed`, error as Error);
+    await prisma.modelRegistry.update({ where: { id: run.modelId }, data: { status: 'failed' } });
+    await prisma.modelTrainingRun.update({
+      where: { id: runId },
+      data: { status: 'failed', finishedAt: new Date(), metrics: { error: (error as Error).message } }
+    });
+    throw error;
+  }
+}
+
+export async function loadChampionYieldModel(): Promise<YieldModelTrainer | null> {
+  const champion = await prisma.modelRegistry.findFirst({ where: { type: 'yield', status: 'deployed' } });
+  if (!champion?.artifact) return null;
+
+  const cached = championCache;
+  if (cached && cached.id === champion.id && cached.updatedAt.getTime() === champion.updatedAt.getTime()) {
+    return cached.trainer;
+  }
+  const trainer = new YieldModelTrainer(champion.artifact as unknown as YieldModelArtifact);
+  championCache = { id: champion.id, updatedAt: champion.updatedAt, trainer };
+  return trainer;
+}
+
+export async function predictYieldWithChampion(
+  inputs: YieldInputs[],
+  confidence = 0.95
+): Promise<YieldPrediction[]> {
+  const trainer = await loadChampionYieldModel();
+  if (!trainer) {
+    throw new Error('No deployed yield model');
+  }
+  return trainer.predictBatch(inputs, confidence);
+}
@@ -1,80 +1,382 @@
-// Temporary stub file - ML training functionality disabled for deployment
+/**
+ * Yield Model Training
+ * In-process training of yield regressors over engineered cultivation features.
+ * Gradient-boosted trees compete with ridge and elastic-net baselines under k-fold
+ * cross-validation; the champion is refit on every row and serialized together with
+ * its fold models, whose disagreement widens the confidence interval of each prediction.
+ */
+
+import { FeatureConfig, FeatureEngineeringPipeline } from './feature-engineering-pipeline';
+import {
+  BoostingParams,
+  LinearModelParams,
+  Matrix,
+  RegressionArtifact,
+  RegressionMetrics,
+  createRandom,
+  fitBoostedTrees,
+  fitLinearModel,
+  kFoldSplits,
+  predictRegression,
+  regressionMetrics
+} from './regression-models';
+import { normalQuantile } from '@/lib/energy/baseline-regression';
+
+export interface YieldInputs {
+  ppfd: number;
+  temperature: number; // °C
+  humidity: number; // %RH
+  co2: number; // ppm
+  vpd: number; // kPa
+  dli?: number;
+  ec?: number;
+  ph?: number;
+  week?: number;
+  growthStage?: string;
+  strain?: string;
+}
 
 export interface TrainingData {
-  inputs: number[];
-  outputs: number[];
+  inputs: YieldInputs;
+  output: {
+    yield: number;
+  };
+}
+
+export type YieldModelKind = 'gradient-boosting' | 'ridge' | 'elastic-net';
+
+export interface FoldLogs {
+  model: YieldModelKind;
+  fold: number;
+  total: number; // Fits in the whole cross-validation
+  loss: number; // Training MSE
+  val_loss: number; // Held-out fold MSE
+}
+
+export interface TrainingOptions {
+  folds?: number;
+  seed?: number;
+  candidates?: YieldModelKind[];
+  epochs?: number; // Maximum boosting rounds
+  validationSplit?: number; // Early-stopping holdout inside each boosting fit
+  earlyStoppingRounds?: number;
+  callbacks?: {
+    onFoldEnd?: (step: number, logs: FoldLogs) => void;
+  };
+}
+
+export interface YieldModelMetrics {
+  r2Score: number;
+  mae: number;
+  rmse: number;
+  loss: number; // MSE
+}
+
+export interface CandidateResult {
+  kind: YieldModelKind;
+  cv: RegressionMetrics;
+  folds: RegressionMetrics[];
+}
+
+export interface YieldModelArtifact {
+  format: 'vibelux-yield-model';
+  version: 1;
+  kind: YieldModelKind;
+  seed: number;
+  samples: number;
+  trainedAt: string;
+  featureConfig: FeatureConfig[];
+  featureNames: string[];
+  model: RegressionArtifact;
+  foldModels: RegressionArtifact[];
+  residualStd: number; // Out-of-fold RMSE of the champion
+  metrics: YieldModelMetrics; // Cross-validated
+  candidates: CandidateResult[];
+}
+
+export interface TrainedYieldModel {
+  artifact: YieldModelArtifact;
+  metadata: {
+    kind: YieldModelKind;
+    metrics: YieldModelMetrics;
+    candidates: CandidateResult[];
+    featureNames: string[];
+  };
 }
 
-export interface ModelConfig {
-  layers?: number[];
-  activation?: string;
-  optimizer?: string;
-  loss?: string;
-  metrics?: string[];
+export interface YieldPrediction {
+  yield: number;
+  lower: number;
+  upper: number;
+  std: number;
 }
 
-export interface TrainingHistory {
-  loss: number[];
-  val_loss?: number[];
-  accuracy?: number[];
-  val_accuracy?: number[];
+const NUMERIC_INPUTS: (keyof YieldInputs)[] = ['ppfd', 'dli', 'temperature', 'humidity', 'co2', 'vpd', 'ec', 'ph', 'week'];
+
+const RIDGE: LinearModelParams = { alpha: 1, l1Ratio: 0 };
+const ELASTIC_NET: LinearModelParams = { alpha: 0.1, l1Ratio: 0.5 };
+
+const STORAGE_PREFIX = 'vibelux-yield-model:';
+
+function toFeatureRow(inputs: YieldInputs): Record<string, any> {
+  return {
+    ...Object.fromEntries(NUMERIC_INPUTS.map(field => [field, inputs[field]])),
+    growth_stage: inputs.growthStage?.toLowerCase(),
+    strain: inputs.strain ?? 'unknown'
+  };
+}
+
+function featureConfigFor(data: TrainingData[]): FeatureConfig[] {
+  const config: FeatureConfig[] = NUMERIC_INPUTS
+    .filter(field => data.some(sample => Number.isFinite(sample.inputs[field] as number)))
+    .map(field => ({ name: field, type: 'numeric', role: 'feature' }));
+  if (data.some(sample => sample.inputs.strain)) {
+    config.push({ name: 'strain', type: 'categorical', role: 'feature', encoding: 'onehot' });
+  }
+  return config;
+}
+
+function toMatrix(features: Record<string, number[]>, featureNames: string[], rows: number): Matrix {
+  return Array.from({ length: rows }, (_, i) => featureNames.map(name => features[name][i]));
 }
 
-// Stub for TensorFlow
-export const tf = {
-  sequential: () => ({ 
-    add: () => {},
-    compile: () => {},
-    fit: () => Promise.resolve({ history: { loss: [0.5], val_loss: [0.6] } }),
-    predict: () => ({ data: () => Promise.resolve([0.8]) }),
-    save: () => Promise.resolve(),
-    dispose: () => {}
-  }),
-  layers: {
-    dense: () => ({}),
-    dropout: () => ({}),
-    batchNormalization: () => ({})
-  },
-  tensor2d: () => ({ dispose: () => {} }),
-  loadLayersModel: () => Promise.resolve(null),
-  dispose: () => {}
-};
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
 
+/**
+ * Yield model trainer
+ */
 export class YieldModelTrainer {
-  private model: any = null;
-  
-  constructor(config?: ModelConfig) {
-    // Stub implementation
+  private pipeline = new FeatureEngineeringPipeline();
+  private artifact: YieldModelArtifact | null = null;
+
+  constructor(artifact?: YieldModelArtifact) {
+    if (artifact) this.setArtifact(artifact);
   }
-  
-  async createModel(config?: ModelConfig): Promise<void> {
-    this.model = tf.sequential();
+
+  /**
+   * Seeded synthetic canopy data: saturating light response, temperature and VPD
+   * optima, logarithmic CO2 enrichment and strain potential, with Gaussian noise
+   */
+  static generateSyntheticData(samples: number, seed = 42): TrainingData[] {
+    const random = createRandom(seed);
+    const strains: Record<string, number> = { 'Blue Dream': 1, 'OG Kush': 0.88, 'Gelato': 1.06, 'Girl Scout Cookies': 0.95 };
+    const strainNames = Object.keys(strains);
+
+    return Array.from({ length: samples }, () => {
+      const ppfd = 300 + random() * 900;
+      const temperature = 18 + random() * 14;
+      const humidity = 40 + random() * 35;
+      const co2 = 400 + random() * 1000;
+      const saturation = 0.6108 * Math.exp(17.27 * temperature / (temperature + 237.3));
+      const vpd = saturation * (1 - humidity / 100);
+      const week = 1 + Math.floor(random() * 12);
+      const strain = strainNames[Math.floor(random() * strainNames.length)];
+
+      const light = 1 - Math.exp(-ppfd / 600);
+      const thermal = Math.exp(-(((temperature - 26) / 5) ** 2));
+      const carbon = 1 + 0.3 * Math.log(co2 / 400) / Math.log(3.5);
+      const transpiration = Math.exp(-(((vpd - 1.1) / 0.7) ** 2));
+      const maturity = Math.min(1, week / 8);
+      const expected = 420 * light * thermal * carbon * transpiration * maturity * strains[strain];
+
+      return {
+        inputs: {
+          ppfd,
+          dli: ppfd * 12 * 3600 / 1e6,
+          temperature,
+          humidity,
+          co2,
+          vpd,
+          week,
+          strain
+        },
+        output: { yield: Math.max(0, expected + 12 * gaussian(random)) }
+      };
+    });
   }
-  
-  async train(data: TrainingData[], epochs: number = 100): Promise<TrainingHistory> {
-    // Stub implementation
+
+  /**
+   * Cross-validate every candidate, keep the lowest CV RMSE and refit it on all rows
+   */
+  async train(data: TrainingData[], options: TrainingOptions = {}): Promise<TrainedYieldModel> {
+    const folds = options.folds ?? 5;
+    const seed = options.seed ?? 42;
+    const candidates = options.candidates ?? ['gradient-boosting', 'ridge', 'elastic-net'];
+    if (data.length < 2 * folds) {
+      throw new Error(`At least ${2 * folds} samples are required for ${folds}-fold cross-validation`);
+    }
+    if (candidates.length === 0) {
+      throw new Error('No candidate models to train');
+    }
+
+    const featureConfig = featureConfigFor(data);
+    const rows = data.map(sample => toFeatureRow(sample.inputs));
+    const engineered = await this.pipeline.engineerFeatures(rows, featureConfig, { createInteractions: true });
+    const featureNames = engineered.featureNames;
+    const X = toMatrix(engineered.features, featureNames, data.length);
+    const y = data.map(sample => sample.output.yield);
+
+    const boosting: BoostingParams = {
+      nEstimators: options.epochs ?? 300,
+      learningRate: 0.08,
+      maxDepth: 3,
+      minSamplesLeaf: 5,
+      subsample: 0.8,
+      maxBins: 64,
+      earlyStoppingRounds: options.earlyStoppingRounds ?? 25,
+      validationFraction: options.validationSplit ?? 0.15,
+      seed
+    };
+    const fit = (kind: YieldModelKind, trainX: Matrix, trainY: number[], params: BoostingParams): RegressionArtifact => {
+      if (kind === 'gradient-boosting') return fitBoostedTrees(trainX, trainY, params);
+      return fitLinearModel(trainX, trainY, kind === 'ridge' ? RIDGE : ELASTIC_NET);
+    };
+
+    const splits = kFoldSplits(data.length, folds, seed);
+    const total = candidates.length * folds;
+    let step = 0;
+    const evaluated = candidates.map(kind => {
+      const outOfFold = new Array(y.length).fill(0);
+      const models: RegressionArtifact[] = [];
+      const foldMetrics = splits.map((split, fold) => {
+        const trainX = split.train.map(i => X[i]);
+        const trainY = split.train.map(i => y[i]);
+        const model = fit(kind, trainX, trainY, { ...boosting, seed: seed + fold + 1 });
+        models.push(model);
+
+        const predicted = split.test.map(i => predictRegression(model, X[i]));
+        split.test.forEach((i, k) => { outOfFold[i] = predicted[k]; });
+        const trainFit = regressionMetrics(trainY, trainX.map(row => predictRegression(model, row)));
+        const heldOut = regressionMetrics(split.test.map(i => y[i]), predicted);
+        options.callbacks?.onFoldEnd?.(step++, {
+          model: kind,
+          fold,
+          total,
+          loss: trainFit.rmse ** 2,
+          val_loss: heldOut.rmse ** 2
+        });
+        return heldOut;
+      });
+      return { kind, cv: regressionMetrics(y, outOfFold), folds: foldMetrics, models };
+    });
+
+    const champion = evaluated.reduce((best, candidate) => (candidate.cv.rmse < best.cv.rmse ? candidate : best));
+
+    // Refit on every row; boosting keeps the round count early stopping found across folds
+    let model: RegressionArtifact;
+    if (champion.kind === 'gradient-boosting') {
+      const rounds = champion.models.reduce((sum, m) => sum + (m.kind === 'boosting' ? m.bestIteration : 0), 0) / folds;
+      model = fitBoostedTrees(X, y, {
+        ...boosting,
+        nEstimators: Math.max(1, Math.round(rounds)),
+        earlyStoppingRounds: undefined,
+        validationFraction: undefined
+      });
+    } else {
+      model = fit(champion.kind, X, y, boosting);
+    }
+
+    const metrics: YieldModelMetrics = {
+      r2Score: champion.cv.r2,
+      mae: champion.cv.mae,
+      rmse: champion.cv.rmse,
+      loss: champion.cv.rmse ** 2
+    };
+    const candidateResults = evaluated.map(({ kind, cv, folds: foldMetrics }) => ({ kind, cv, folds: foldMetrics }));
+
+    this.artifact = {
+      format: 'vibelux-yield-model',
+      version: 1,
+      kind: champion.kind,
+      seed,
+      samples: data.length,
+      trainedAt: new Date().toISOString(),
+      featureConfig,
+      featureNames,
+      model,
+      foldModels: champion.models,
+      residualStd: champion.cv.rmse,
+      metrics,
+      candidates: candidateResults
+    };
+
     return {
-      loss: Array(epochs).fill(0).map((_, i) => 1 - (i / epochs)),
-      val_loss: Array(epochs).fill(0).map((_, i) => 1.1 - (i / epochs))
+      artifact: this.artifact,
+      metadata: { kind: champion.kind, metrics, candidates: candidateResults, featureNames }
     };
   }
-  
-  async predict(inputs: number[]): Promise<number[]> {
-    // Stub implementation
-    return [0.8, 0.9];
+
+  predict(inputs: YieldInputs): number {
+    return this.predictWithInterval(inputs).yield;
+  }
+
+  /**
+   * Point prediction from the refit model; the interval combines the out-of-fold
+   * residual spread with the variance of the fold models at this input
+   */
+  predictWithInterval(inputs: YieldInputs, confidence = 0.95): YieldPrediction {
+    return this.predictBatch([inputs], confidence)[0];
+  }
+
+  predictBatch(inputs: YieldInputs[], confidence = 0.95): YieldPrediction[] {
+    const artifact = this.requireArtifact();
+    const features = this.pipeline.transformFeatures(
+      inputs.map(toFeatureRow),
+      artifact.featureConfig,
+      artifact.featureNames,
+      { createInteractions: true }
+    );
+    const X = toMatrix(features, artifact.featureNames, inputs.length);
+    const z = normalQuantile(0.5 + confidence / 2);
+
+    return X.map(row => {
+      const point = predictRegression(artifact.model, row);
+      const foldPredictions = artifact.foldModels.map(model => predictRegression(model, row));
+      const foldMean = foldPredictions.reduce((sum, value) => sum + value, 0) / foldPredictions.length;
+      const foldVariance = foldPredictions.reduce((sum, value) => sum + (value - foldMean) ** 2, 0) /
+        Math.max(1, foldPredictions.length - 1);
+      const std = Math.sqrt(artifact.residualStd ** 2 + foldVariance);
+      return { yield: point, lower: point - z * std, upper: point + z * std, std };
+    });
+  }
+
+  getArtifact(): YieldModelArtifact | null {
+    return this.artifact;
+  }
+
+  setArtifact(artifact: YieldModelArtifact): void {
+    if (artifact.format !== 'vibelux-yield-model' || artifact.version !== 1) {
+      throw new Error('Unsupported yield model artifact');
+    }
+    this.artifact = artifact;
   }
-  
-  async save(path: string): Promise<void> {
-    // Stub implementation
+
+  /**
+   * Persist the artifact in browser storage
+   */
+  async saveModel(name: string): Promise<void> {
+    const artifact = this.requireArtifact();
+    if (typeof localStorage === 'undefined') {
+      throw new Error('Browser storage is not available; register the artifact instead');
+    }
+    localStorage.setItem(STORAGE_PREFIX + name, JSON.stringify(artifact));
   }
-  
-  async load(path: string): Promise<void> {
-    // Stub implementation
+
+  async loadModel(name: string): Promise<void> {
+    const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_PREFIX + name);
+    if (!stored) {
+      throw new Error(`No saved yield model named ${name}`);
+    }
+    this.setArtifact(JSON.parse(stored));
   }
-  
-  dispose(): void {
-    if (this.model) {
-      this.model.dispose();
+
+  private requireArtifact(): YieldModelArtifact {
+    if (!this.artifact) {
+      throw new Error('Yield model has not been trained or loaded');
     }
+    return this.artifact;
   }
-}
\ No newline at end of file
+}
@@ -5,6 +5,7 @@
  */
 
 import HLPManager from './protocols/hlp';
+import { emitWebhookEvent } from './webhooks/webhook-service';
 
 export interface ModbusConfig {
   type: 'RTU' | 'TCP';
@@ -21,6 +22,10 @@ export interface ModbusConfig {
   slaveId: number;
   timeout?: number;
   retries?: number;
+  // Identification for lighting.* webhook events
+  fixtureId?: string;
+  facilityId?: string;
+  zone?: string;
 }
 
 export interface ModbusRegisterMap {
@@ -82,6 +87,7 @@ export class ModbusLightingControl {
   private config: ModbusConfig;
   private registerMap: ModbusRegisterMap;
   private connected: boolean = false;
+  private reachable: boolean = true;
   
   constructor(config: ModbusConfig, registerMap: ModbusRegisterMap = REGISTER_MAPS.generic) {
     this.config = config;
@@ -101,9 +107,11 @@ export class ModbusLightingControl {
       }
       
       this.connected = true;
+      this.setReachable(true);
       return true;
     } catch (error) {
       logger.error('api', 'Modbus connection failed:', error );
+      this.setReachable(false, error);
       return false;
     }
   }
@@ -259,13 +267,41 @@ export class ModbusLightingControl {
         zones.push(zone);
       }
       
+      this.setReachable(true);
       return { masterEnabled, zones };
     } catch (error) {
       logger.error('api', 'Failed to read status:', error );
+      this.setReachable(false, error);
       return null;
     }
   }
   
+  /**
+   * Emit lighting.fixture_offline when the controller stops answering and
+   * lighting.status_change when it comes back
+   */
+  private setReachable(reachable: boolean, error?: unknown): void {
+    if (reachable === this.reachable) return;
+    this.reachable = reachable;
+    
+    const fixture = {
+      fixtureId: this.config.fixtureId || `${this.config.host || this.config.port}:${this.config.slaveId}`,
+      zone: this.config.zone || null,
+      protocol: `modbus-${this.config.type.toLowerCase()}`
+    };
+    const scope = { facilityId: this.config.facilityId };
+    
+    if (reachable) {
+      emitWebhookEvent('lighting.status_change', { ...fixture, status: 'online' }, scope);
+    } else {
+      emitWebhookEvent('lighting.fixture_offline', {
+        ...fixture,
+        severity: 'warning',
+        reason: error instanceof Error ? error.message : 'No response from controller'
+      }, scope);
+    }
+  }
+  
   /**
    * Apply lighting recipe to all zones
    */
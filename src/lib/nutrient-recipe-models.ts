@@ -1,5 +1,7 @@
 // Enhanced nutrient recipe models for custom recipe creation
 
+import { solveFertilizerRecipe } from './fertilizer-solver'
+
 export interface NutrientElement {
   symbol: string
   name: string
@@ -364,13 +366,34 @@ export function optimizeRecipe(
     availableFertilizers?: string[]
   }
 ): CustomNutrientRecipe {
-  const optimized = { ...recipe }
-  
-  // Implement optimization logic here
-  // This would include linear programming to optimize element ratios
-  // while maintaining EC constraints
-  
-  return optimized
+  const options = { fertilizers: constraints?.availableFertilizers }
+  let solution = solveFertilizerRecipe(recipe, options)
+
+  // Scale the whole recipe once when the achievable EC falls outside the allowed window
+  const ec = solution.predictedEC
+  const limit = constraints?.maxEC !== undefined && ec > constraints.maxEC ? constraints.maxEC
+    : constraints?.minEC !== undefined && ec < constraints.minEC ? constraints.minEC
+    : undefined
+  if (limit !== undefined && ec > 0) {
+    const scaled = { ...recipe.elements }
+    for (const key of Object.keys(scaled) as Array<keyof CustomNutrientRecipe['elements']>) {
+      scaled[key] = (scaled[key] ?? 0) * limit / ec
+    }
+    solution = solveFertilizerRecipe({ ...recipe, elements: scaled }, options)
+  }
+
+  // The recipe the available fertilizers can actually deliver
+  const elements = { ...recipe.elements }
+  for (const [key, residual] of Object.entries(solution.residuals)) {
+    elements[key as keyof CustomNutrientRecipe['elements']] = Math.round(residual.achieved * 1000) / 1000
+  }
+
+  return {
+    ...recipe,
+    elements,
+    targetEC: Math.round(solution.predictedEC * 100) / 100,
+    updatedAt: new Date()
+  }
 }
 
 // Export/Import utilities
@@ -0,0 +1,631 @@
+/**
+ * EULUMDAT (.ldt) Reader / Writer
+ * Reads and writes the EULUMDAT photometric format used by most European
+ * fixture catalogs and maps it onto the same ParsedIESFile structure the
+ * IES parser produces, so either format can feed the designer and PPFD tools.
+ *
+ * LDT-only fields (symmetry indicator, lamp sets, direct ratios, ...) are
+ * carried through IES files as user-defined [_LDT_*] keywords, which keeps
+ * IES <-> LDT conversion lossless.
+ */
+
+import { analyzePhotometricDistribution, type ParsedIESFile } from '@/lib/ies-parser'
+import { createTypeCLookup, integrateTypeCFlux } from './photometric-geometry'
+
+/**
+ * Isym: 0 = none, 1 = about the vertical axis, 2 = C0-C180 plane,
+ * 3 = C90-C270 plane, 4 = C0-C180 and C90-C270 planes
+ */
+export type EulumdatSymmetry = 0 | 1 | 2 | 3 | 4
+
+export interface EulumdatLampSet {
+  numberOfLamps: number // Negative counts mark absolute photometry in some LED files
+  lampType: string
+  totalFlux: number // lm
+  colorTemperature: string
+  colorRenderingIndex: string
+  wattage: number // W including ballast
+}
+
+export interface EulumdatFile {
+  companyIdentification: string
+  typeIndicator: number // Ityp
+  symmetry: EulumdatSymmetry
+  numberOfCPlanes: number // Mc
+  cPlaneSpacing: number // Dc, 0 when not equidistant
+  numberOfGammaAngles: number // Ng
+  gammaSpacing: number // Dg, 0 when not equidistant
+  measurementReport: string
+  luminaireName: string
+  luminaireNumber: string
+  fileName: string
+  dateUser: string
+  luminaireLength: number // mm, diameter for round luminaires
+  luminaireWidth: number // mm, 0 for round luminaires
+  luminaireHeight: number // mm
+  luminousAreaLength: number // mm
+  luminousAreaWidth: number // mm
+  luminousAreaHeights: [number, number, number, number] // C0, C90, C180, C270 in mm
+  downwardFluxFraction: number // %
+  lightOutputRatio: number // %
+  intensityConversionFactor: number
+  measurementTilt: number // degrees
+  lampSets: EulumdatLampSet[]
+  directRatios: number[] // Room indices k = 0.6, 0.8, 1.0, 1.25, 1.5, 2.0, 2.5, 3.0, 4.0, 5.0
+  cAngles: number[] // All Mc C-plane angles
+  gammaAngles: number[] // All Ng gamma angles
+  intensities: number[][] // [stored C-plane][gamma] in cd/klm
+}
+
+export const DIRECT_RATIO_ROOM_INDICES = [0.6, 0.8, 1.0, 1.25, 1.5, 2.0, 2.5, 3.0, 4.0, 5.0]
+
+const LDT_KEYWORD_PREFIX = '_LDT_'
+
+/**
+ * Parse EULUMDAT file content into its raw record
+ */
+export function parseLDT(content: string): EulumdatFile {
+  const lines = content.split(/\r?\n/).map(line => line.trim())
+  let index = 0
+
+  const text = () => {
+    if (index >= lines.length) {
+      throw new Error(`Invalid EULUMDAT file: Unexpected end of file at line ${index + 1}`)
+    }
+    return lines[index++]
+  }
+  const num = (field: string) => {
+    const raw = text()
+    const value = parseLDTNumber(raw)
+    if (isNaN(value)) {
+      throw new Error(`Invalid EULUMDAT file: Line ${index} (${field}) is not a number: "${raw}"`)
+    }
+    return value
+  }
+
+  const companyIdentification = text()
+  const typeIndicator = num('Ityp')
+  const symmetry = num('Isym')
+  if (![0, 1, 2, 3, 4].includes(symmetry)) {
+    throw new Error(`Invalid EULUMDAT file: Unknown symmetry indicator ${symmetry}`)
+  }
+  const numberOfCPlanes = num('Mc')
+  const cPlaneSpacing = num('Dc')
+  const numberOfGammaAngles = num('Ng')
+  const gammaSpacing = num('Dg')
+  const measurementReport = text()
+  const luminaireName = text()
+  const luminaireNumber = text()
+  const fileName = text()
+  const dateUser = text()
+  const luminaireLength = num('luminaire length')
+  const luminaireWidth = num('luminaire width')
+  const luminaireHeight = num('luminaire height')
+  const luminousAreaLength = num('luminous area length')
+  const luminousAreaWidth = num('luminous area width')
+  const luminousAreaHeights: [number, number, number, number] = [
+    num('luminous area height C0'),
+    num('luminous area height C90'),
+    num('luminous area height C180'),
+    num('luminous area height C270')
+  ]
+  const downwardFluxFraction = num('DFF')
+  const lightOutputRatio = num('LORL')
+  const intensityConversionFactor = num('conversion factor')
+  const measurementTilt = num('tilt')
+
+  const lampSetCount = num('number of lamp sets')
+  const lampSets: EulumdatLampSet[] = []
+  for (let i = 0; i < lampSetCount; i++) {
+    lampSets.push({
+      numberOfLamps: num('number of lamps'),
+      lampType: text(),
+      totalFlux: num('lamp flux'),
+      colorTemperature: text(),
+      colorRenderingIndex: text(),
+      wattage: num('wattage')
+    })
+  }
+
+  const directRatios: number[] = []
+  for (let i = 0; i < DIRECT_RATIO_ROOM_INDICES.length; i++) {
+    directRatios.push(num('direct ratio'))
+  }
+
+  // Angle and intensity blocks are read as a token stream to tolerate writers
+  // that put several values on one line
+  const tokens = lines
+    .slice(index)
+    .flatMap(line => line.split(/\s+/))
+    .filter(token => token.length > 0)
+    .map(parseLDTNumber)
+    .filter(value => !isNaN(value))
+
+  const cAngles = tokens.slice(0, numberOfCPlanes)
+  const gammaAngles = tokens.slice(numberOfCPlanes, numberOfCPlanes + numberOfGammaAngles)
+  if (cAngles.length < numberOfCPlanes || gammaAngles.length < numberOfGammaAngles) {
+    throw new Error('Invalid EULUMDAT file: Angle tables are incomplete')
+  }
+  assertAscending(gammaAngles, 'gamma')
+
+  const [mc1, mc2] = storedPlaneRange(symmetry as EulumdatSymmetry, numberOfCPlanes)
+  const storedPlaneCount = mc2 - mc1 + 1
+  const intensityTokens = tokens.slice(numberOfCPlanes + numberOfGammaAngles)
+  if (intensityTokens.length < storedPlaneCount * numberOfGammaAngles) {
+    throw new Error(
+      `Invalid EULUMDAT file: Expected ${storedPlaneCount * numberOfGammaAngles} intensities, found ${intensityTokens.length}`
+    )
+  }
+
+  const intensities: number[][] = []
+  for (let c = 0; c < storedPlaneCount; c++) {
+    intensities.push(intensityTokens.slice(c * numberOfGammaAngles, (c + 1) * numberOfGammaAngles))
+  }
+
+  return {
+    companyIdentification,
+    typeIndicator,
+    symmetry: symmetry as EulumdatSymmetry,
+    numberOfCPlanes,
+    cPlaneSpacing,
+    numberOfGammaAngles,
+    gammaSpacing,
+    measurementReport,
+    luminaireName,
+    luminaireNumber,
+    fileName,
+    dateUser,
+    luminaireLength,
+    luminaireWidth,
+    luminaireHeight,
+    luminousAreaLength,
+    luminousAreaWidth,
+    luminousAreaHeights,
+    downwardFluxFraction,
+    lightOutputRatio,
+    intensityConversionFactor,
+    measurementTilt,
+    lampSets,
+    directRatios,
+    cAngles,
+    gammaAngles,
+    intensities
+  }
+}
+
+/**
+ * Serialize an EULUMDAT record to .ldt file content
+ */
+export function writeLDT(ldt: EulumdatFile): string {
+  const lines: string[] = [
+    truncate(ldt.companyIdentification, 78),
+    String(ldt.typeIndicator),
+    String(ldt.symmetry),
+    String(ldt.numberOfCPlanes),
+    formatLDTNumber(ldt.cPlaneSpacing),
+    String(ldt.numberOfGammaAngles),
+    formatLDTNumber(ldt.gammaSpacing),
+    truncate(ldt.measurementReport, 78),
+    truncate(ldt.luminaireName, 78),
+    truncate(ldt.luminaireNumber, 78),
+    truncate(ldt.fileName, 78),
+    truncate(ldt.dateUser, 78),
+    formatLDTNumber(ldt.luminaireLength),
+    formatLDTNumber(ldt.luminaireWidth),
+    formatLDTNumber(ldt.luminaireHeight),
+    formatLDTNumber(ldt.luminousAreaLength),
+    formatLDTNumber(ldt.luminousAreaWidth),
+    ...ldt.luminousAreaHeights.map(formatLDTNumber),
+    formatLDTNumber(ldt.downwardFluxFraction),
+    formatLDTNumber(ldt.lightOutputRatio),
+    formatLDTNumber(ldt.intensityConversionFactor),
+    formatLDTNumber(ldt.measurementTilt),
+    String(ldt.lampSets.length)
+  ]
+
+  for (const set of ldt.lampSets) {
+    lines.push(
+      String(set.numberOfLamps),
+      truncate(set.lampType, 78),
+      formatLDTNumber(set.totalFlux),
+      truncate(set.colorTemperature, 78),
+      truncate(set.colorRenderingIndex, 78),
+      formatLDTNumber(set.wattage)
+    )
+  }
+
+  lines.push(...ldt.directRatios.map(formatLDTNumber))
+  lines.push(...ldt.cAngles.map(formatLDTNumber))
+  lines.push(...ldt.gammaAngles.map(formatLDTNumber))
+  for (const plane of ldt.intensities) {
+    lines.push(...plane.map(formatLDTNumber))
+  }
+
+  return lines.join('\r\n') + '\r\n'
+}
+
+/**
+ * Parse EULUMDAT content straight into the shared ParsedIESFile structure
+ */
+export function parseLDTFile(content: string): ParsedIESFile {
+  return eulumdatToParsedIES(parseLDT(content))
+}
+
+/**
+ * Convert an EULUMDAT record into Type C absolute photometry
+ */
+export function eulumdatToParsedIES(ldt: EulumdatFile): ParsedIESFile {
+  const primarySet = ldt.lampSets[0] ?? {
+    numberOfLamps: 1,
+    lampType: '',
+    totalFlux: 1000,
+    colorTemperature: '',
+    colorRenderingIndex: '',
+    wattage: 0
+  }
+  const lampCount = Math.max(1, Math.abs(primarySet.numberOfLamps))
+  const scale = (primarySet.totalFlux / 1000) * (ldt.intensityConversionFactor || 1)
+
+  // IES Type C horizontal ranges express the same symmetries as Isym
+  const planeAt = expandStoredPlanes(ldt)
+  let horizontalAngles: number[]
+  switch (ldt.symmetry) {
+    case 1:
+      horizontalAngles = [0]
+      break
+    case 2:
+      horizontalAngles = ldt.cAngles.filter(c => c <= 180)
+      break
+    case 3:
+      horizontalAngles = ldt.cAngles.filter(c => c >= 90 && c <= 270)
+      break
+    case 4:
+      horizontalAngles = ldt.cAngles.filter(c => c <= 90)
+      break
+    default:
+      horizontalAngles = [...ldt.cAngles, 360]
+  }
+
+  const candela = horizontalAngles.map(c => planeAt(c % 360).map(value => value * scale))
+  const verticalAngles = [...ldt.gammaAngles]
+  const maxCandela = Math.max(0, ...candela.flat())
+  const analysis = analyzePhotometricDistribution(verticalAngles, horizontalAngles, candela)
+
+  const roundOpening = ldt.luminousAreaWidth === 0
+  const keywords: Record<string, string> = {
+    TEST: ldt.measurementReport,
+    MANUFAC: ldt.companyIdentification,
+    LUMCAT: ldt.luminaireNumber,
+    LUMINAIRE: ldt.luminaireName,
+    LAMP: primarySet.lampType,
+    ISSUEDATE: ldt.dateUser,
+    [`${LDT_KEYWORD_PREFIX}ITYP`]: String(ldt.typeIndicator),
+    [`${LDT_KEYWORD_PREFIX}ISYM`]: String(ldt.symmetry),
+    [`${LDT_KEYWORD_PREFIX}CPLANES`]: `${ldt.numberOfCPlanes} ${formatLDTNumber(ldt.cPlaneSpacing)}`,
+    [`${LDT_KEYWORD_PREFIX}DIMENSIONS`]: [ldt.luminaireLength, ldt.luminaireWidth, ldt.luminaireHeight].map(formatLDTNumber).join(' '),
+    [`${LDT_KEYWORD_PREFIX}AREA_HEIGHTS`]: ldt.luminousAreaHeights.map(formatLDTNumber).join(' '),
+    [`${LDT_KEYWORD_PREFIX}DFF`]: formatLDTNumber(ldt.downwardFluxFraction),
+    [`${LDT_KEYWORD_PREFIX}LORL`]: formatLDTNumber(ldt.lightOutputRatio),
+    [`${LDT_KEYWORD_PREFIX}CONVERSION`]: formatLDTNumber(ldt.intensityConversionFactor),
+    [`${LDT_KEYWORD_PREFIX}TILT`]: formatLDTNumber(ldt.measurementTilt),
+    [`${LDT_KEYWORD_PREFIX}DR`]: ldt.directRatios.map(formatLDTNumber).join(' '),
+    [`${LDT_KEYWORD_PREFIX}LAMPSETS`]: JSON.stringify(ldt.lampSets)
+  }
+
+  return {
+    header: {
+      filename: ldt.fileName,
+      version: 'EULUMDAT',
+      manufacturer: ldt.companyIdentification || 'Unknown',
+      lumcat: ldt.luminaireNumber,
+      luminaire: ldt.luminaireName,
+      lamp: primarySet.lampType,
+      ballast: '',
+      issueDate: ldt.dateUser,
+      testLab: ldt.measurementReport || undefined,
+      keywords
+    },
+    photometry: {
+      verticalAngles,
+      horizontalAngles,
+      candela,
+      totalLumens: (primarySet.totalFlux * ldt.lightOutputRatio) / 100,
+      maxCandela,
+      beamAngle: analysis.beamAngle,
+      fieldAngle: analysis.fieldAngle,
+      candelaMatrix: candela,
+      analysis
+    },
+    metadata: {
+      tiltType: 'NONE',
+      numberOfLamps: lampCount,
+      lumensPerLamp: primarySet.totalFlux / lampCount,
+      candelaMultiplier: 1,
+      numberOfVerticalAngles: verticalAngles.length,
+      numberOfHorizontalAngles: horizontalAngles.length,
+      photometricType: 1,
+      unitsType: 2,
+      // LM-63 marks round openings with a negative width/length equal to the diameter
+      luminousWidth: roundOpening ? -ldt.luminousAreaLength / 1000 : ldt.luminousAreaWidth / 1000,
+      luminousLength: roundOpening ? -ldt.luminousAreaLength / 1000 : ldt.luminousAreaLength / 1000,
+      luminousHeight: ldt.luminousAreaHeights[0] / 1000,
+      ballastFactor: 1,
+      ballastLampPhotometricFactor: 1,
+      inputWatts: primarySet.wattage > 0 ? primarySet.wattage : undefined
+    }
+  }
+}
+
+/**
+ * Convert Type C photometry (from IES or LDT) into an EULUMDAT record.
+ * Values that only exist in LDT are restored from [_LDT_*] keywords when
+ * present, otherwise derived from the candela distribution.
+ */
+export function parsedIESToEulumdat(parsed: ParsedIESFile): EulumdatFile {
+  const { header, photometry, metadata } = parsed
+  if (metadata.photometricType !== 1) {
+    throw new Error('EULUMDAT export requires Type C photometry')
+  }
+
+  const keywords = header.keywords ?? {}
+  const ldtKeyword = (name: string) => keywords[`${LDT_KEYWORD_PREFIX}${name}`]
+  const horizontalAngles = photometry.horizontalAngles
+  const verticalAngles = photometry.verticalAngles
+  const candelaAt = createTypeCLookup(horizontalAngles, verticalAngles, photometry.candela)
+
+  const symmetry = (ldtKeyword('ISYM') !== undefined
+    ? Number(ldtKeyword('ISYM'))
+    : detectSymmetry(horizontalAngles)) as EulumdatSymmetry
+
+  // Full C-plane list, mirrored out from the stored horizontal range
+  let cAngles: number[]
+  const cPlanes = ldtKeyword('CPLANES')?.split(/\s+/).map(Number)
+  if (cPlanes && cPlanes[0] > 0 && cPlanes[1] > 0) {
+    cAngles = Array.from({ length: cPlanes[0] }, (_, i) => roundAngle(i * cPlanes[1]))
+  } else if (symmetry === 1) {
+    cAngles = Array.from({ length: 36 }, (_, i) => i * 10)
+  } else {
+    const mirrored = new Set<number>()
+    for (const h of horizontalAngles) {
+      for (const c of [h, 360 - h, 180 - h, 180 + h]) {
+        const normalized = roundAngle(((c % 360) + 360) % 360)
+        if (symmetry === 0 && c !== h) continue
+        if (symmetry === 2 && c !== h && c !== 360 - h) continue
+        if (symmetry === 3 && c !== h && c !== 180 - h) continue
+        mirrored.add(normalized)
+      }
+    }
+    cAngles = Array.from(mirrored).sort((a, b) => a - b)
+  }
+
+  const lumensPerLamp = metadata.lumensPerLamp
+  const luminaireFlux = integrateTypeCFlux(candelaAt, verticalAngles)
+  const absolutePhotometry = !(lumensPerLamp > 0)
+
+  let lampSets: EulumdatLampSet[]
+  try {
+    lampSets = ldtKeyword('LAMPSETS') ? JSON.parse(ldtKeyword('LAMPSETS')!) : []
+  } catch {
+    lampSets = []
+  }
+  if (lampSets.length === 0) {
+    lampSets = [{
+      numberOfLamps: absolutePhotometry ? -1 : metadata.numberOfLamps,
+      lampType: header.lamp || 'LED',
+      totalFlux: absolutePhotometry ? round(luminaireFlux, 1) : metadata.numberOfLamps * lumensPerLamp,
+      colorTemperature: '',
+      colorRenderingIndex: '',
+      wattage: metadata.inputWatts ?? 0
+    }]
+  }
+
+  const conversion = Number(ldtKeyword('CONVERSION') ?? 1) || 1
+  const scale = 1000 / (lampSets[0].totalFlux * conversion)
+
+  const [mc1, mc2] = storedPlaneRange(symmetry, cAngles.length)
+  const intensities: number[][] = []
+  for (let i = mc1; i <= mc2; i++) {
+    const c = cAngles[(i - 1) % cAngles.length]
+    intensities.push(verticalAngles.map(gamma => candelaAt(c, gamma) * scale))
+  }
+
+  const downwardFlux = integrateTypeCFlux(candelaAt, verticalAngles.filter(gamma => gamma <= 90))
+  const directRatios = ldtKeyword('DR')
+    ? ldtKeyword('DR')!.split(/\s+/).map(Number)
+    : estimateDirectRatios(candelaAt, downwardFlux)
+
+  const toMm = (value: number) => Math.abs(value) * (metadata.unitsType === 1 ? 304.8 : 1000)
+  const roundOpening = metadata.luminousWidth < 0
+  const dimensions = ldtKeyword('DIMENSIONS')?.split(/\s+/).map(Number)
+  const areaHeights = ldtKeyword('AREA_HEIGHTS')?.split(/\s+/).map(Number)
+  const openingHeight = toMm(metadata.luminousHeight)
+
+  return {
+    companyIdentification: header.manufacturer === 'Unknown' ? '' : header.manufacturer,
+    typeIndicator: Number(ldtKeyword('ITYP') ?? (symmetry === 1 ? 1 : symmetry === 0 ? 0 : 3)),
+    symmetry,
+    numberOfCPlanes: cAngles.length,
+    cPlaneSpacing: equidistantStep(cAngles),
+    numberOfGammaAngles: verticalAngles.length,
+    gammaSpacing: equidistantStep(verticalAngles),
+    measurementReport: header.testLab ?? '',
+    luminaireName: header.luminaire,
+    luminaireNumber: header.lumcat,
+    fileName: header.filename,
+    dateUser: header.issueDate,
+    luminaireLength: dimensions?.[0] ?? toMm(metadata.luminousLength),
+    luminaireWidth: dimensions?.[1] ?? (roundOpening ? 0 : toMm(metadata.luminousWidth)),
+    luminaireHeight: dimensions?.[2] ?? openingHeight,
+    luminousAreaLength: toMm(metadata.luminousLength),
+    luminousAreaWidth: roundOpening ? 0 : toMm(metadata.luminousWidth),
+    luminousAreaHeights: areaHeights?.length === 4
+      ? areaHeights as [number, number, number, number]
+      : [openingHeight, openingHeight, openingHeight, openingHeight],
+    downwardFluxFraction: Number(ldtKeyword('DFF') ?? round(luminaireFlux > 0 ? (downwardFlux / luminaireFlux) * 100 : 100, 1)),
+    lightOutputRatio: Number(ldtKeyword('LORL') ?? (absolutePhotometry
+      ? 100
+      : round(Math.min(100, (luminaireFlux / lampSets[0].totalFlux) * 100), 1))),
+    intensityConversionFactor: conversion,
+    measurementTilt: Number(ldtKeyword('TILT') ?? 0),
+    lampSets,
+    directRatios,
+    cAngles,
+    gammaAngles: [...verticalAngles],
+    intensities
+  }
+}
+
+/**
+ * Serialize parsed photometry (from either format) as EULUMDAT
+ */
+export function convertParsedToLDT(parsed: ParsedIESFile): string {
+  return writeLDT(parsedIESToEulumdat(parsed))
+}
+
+/**
+ * Stored C-plane index range (1-based, inclusive, may wrap past Mc) per the EULUMDAT spec
+ */
+export function storedPlaneRange(symmetry: EulumdatSymmetry, mc: number): [number, number] {
+  switch (symmetry) {
+    case 1:
+      return [1, 1]
+    case 2:
+      return [1, mc / 2 + 1]
+    case 3:
+      return [(3 * mc) / 4 + 1, (3 * mc) / 4 + 1 + mc / 2]
+    case 4:
+      return [1, mc / 4 + 1]
+    default:
+      return [1, mc]
+  }
+}
+
+/**
+ * Returns a lookup from any C angle in [0, 360) to the relative intensities
+ * of that plane, unfolding the stored planes through the file's symmetry
+ */
+function expandStoredPlanes(ldt: EulumdatFile): (c: number) => number[] {
+  const [mc1] = storedPlaneRange(ldt.symmetry, ldt.numberOfCPlanes)
+  const stored = new Map<number, number[]>()
+  ldt.intensities.forEach((plane, offset) => {
+    const angle = ldt.cAngles[(mc1 - 1 + offset) % ldt.numberOfCPlanes]
+    stored.set(roundAngle(angle ?? 0), plane)
+  })
+
+  const fold = (c: number): number => {
+    switch (ldt.symmetry) {
+      case 1:
+        return 0
+      case 2:
+        return c > 180 ? 360 - c : c
+      case 3:
+        return c > 90 && c < 270 ? (540 - c) % 360 : c
+      case 4: {
+        const half = c > 180 ? 360 - c : c
+        return half > 90 ? 180 - half : half
+      }
+      default:
+        return c
+    }
+  }
+
+  return (c: number) => {
+    const folded = roundAngle(fold(c))
+    const exact = stored.get(folded) ?? (ldt.symmetry === 1 ? ldt.intensities[0] : undefined)
+    if (exact) return exact
+    // Fall back to the nearest stored plane
+    let nearest = ldt.intensities[0]
+    let distance = Infinity
+    for (const [angle, plane] of stored) {
+      const d = Math.min(Math.abs(angle - folded), 360 - Math.abs(angle - folded))
+      if (d < distance) {
+        distance = d
+        nearest = plane
+      }
+    }
+    return nearest
+  }
+}
+
+/**
+ * Estimate direct ratios as the share of downward flux that lands directly on
+ * a square work plane of room index k, one mounting height below a centered
+ * luminaire. Used only when the source file does not carry measured ratios.
+ */
+function estimateDirectRatios(
+  candelaAt: (c: number, gamma: number) => number,
+  downwardFlux: number
+): number[] {
+  if (downwardFlux <= 0) return DIRECT_RATIO_ROOM_INDICES.map(() => 0)
+
+  const cStep = 5
+  const gammaStep = 1
+  return DIRECT_RATIO_ROOM_INDICES.map(k => {
+    // For a square room k = a / (2h); with h = 1 the half side is k
+    let flux = 0
+    for (let c = 0; c < 360; c += cStep) {
+      const cRad = toRadians(c + cStep / 2)
+      for (let gamma = 0; gamma < 90; gamma += gammaStep) {
+        const mid = gamma + gammaStep / 2
+        const reach = Math.tan(toRadians(mid))
+        if (Math.abs(reach * Math.cos(cRad)) > k || Math.abs(reach * Math.sin(cRad)) > k) continue
+        flux += candelaAt(c + cStep / 2, mid) *
+          (Math.cos(toRadians(gamma)) - Math.cos(toRadians(gamma + gammaStep))) * toRadians(cStep)
+      }
+    }
+    return round(Math.min(1, flux / downwardFlux), 3)
+  })
+}
+
+function detectSymmetry(horizontalAngles: number[]): EulumdatSymmetry {
+  const first = horizontalAngles[0]
+  const last = horizontalAngles[horizontalAngles.length - 1]
+  if (horizontalAngles.length === 1) return 1
+  if (first === 0 && last === 90) return 4
+  if (first === 0 && last === 180) return 2
+  if (first === 90 && last === 270) return 3
+  return 0
+}
+
+function equidistantStep(angles: number[]): number {
+  if (angles.length < 2) return 0
+  const step = angles[1] - angles[0]
+  for (let i = 2; i < angles.length; i++) {
+    if (Math.abs(angles[i] - angles[i - 1] - step) > 1e-6) return 0
+  }
+  return roundAngle(step)
+}
+
+function assertAscending(angles: number[], name: string): void {
+  for (let i = 1; i < angles.length; i++) {
+    if (angles[i] <= angles[i - 1]) {
+      throw new Error(`Invalid EULUMDAT file: ${name} angles must be strictly ascending`)
+    }
+  }
+}
+
+function parseLDTNumber(raw: string): number {
+  // European writers frequently use a decimal comma
+  return raw.trim() === '' ? NaN : Number(raw.trim().replace(',', '.'))
+}
+
+function formatLDTNumber(value: number): string {
+  return String(round(value, 4))
+}
+
+function truncate(value: string, maxLength: number): string {
+  return (value ?? '').slice(0, maxLength)
+}
+
+function roundAngle(angle: number): number {
+  return round(angle, 4)
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
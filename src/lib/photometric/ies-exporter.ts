@@ -1,8 +1,11 @@
 /**
  * IES File Exporter
- * Placeholder implementation for photometric data export
+ * Writes LM-63 IES files and, through the EULUMDAT writer, .ldt files
  */
 
+import { parseIESFile, type ParsedIESFile } from '@/lib/ies-parser';
+import { convertParsedToLDT } from './eulumdat';
+
 export interface IESData {
   fixture: {
     name: string;
@@ -38,7 +41,7 @@ export function exportToIES(data: IESData): string {
 
   // Photometric data section
   const photometricData = [
-    '1 ' + data.fixture.lumens + ' 1.0 ' + data.photometry.angles.vertical.length + ' ' + data.photometry.angles.horizontal.length + ' 1 1 1 0 0 0',
+    '1 ' + data.fixture.lumens + ' 1.0 ' + data.photometry.angles.vertical.length + ' ' + data.photometry.angles.horizontal.length + ' 1 1 0 0 0',
     '1.0 1.0 ' + data.fixture.wattage,
     data.photometry.angles.vertical.join(' '),
     data.photometry.angles.horizontal.join(' '),
@@ -54,6 +57,73 @@ export function exportToIES(data: IESData): string {
   return header + photometricData + candelaData;
 }
 
+// Keywords written from dedicated header fields rather than the keyword map
+const HEADER_FIELD_KEYWORDS = ['TEST', 'MANUFAC', 'LUMCAT', 'LUMINAIRE', 'LAMP', 'BALLAST', 'ISSUEDATE', 'TESTDATE', 'OTHER'];
+
+/**
+ * Serialize parsed photometry (from IES or EULUMDAT) back to LM-63-2002.
+ * Candela values are written already scaled, so the multiplier is always 1.
+ */
+export function exportParsedIES(parsed: ParsedIESFile): string {
+  const { header, photometry, metadata } = parsed;
+  const lines: string[] = ['IESNA:LM-63-2002'];
+
+  const keyword = (name: string, value: string | undefined) => {
+    if (value) lines.push(`[${name}] ${value}`);
+  };
+  keyword('TEST', header.testLab);
+  keyword('TESTDATE', header.testDate);
+  keyword('ISSUEDATE', header.issueDate);
+  keyword('MANUFAC', header.manufacturer === 'Unknown' ? '' : header.manufacturer);
+  keyword('LUMCAT', header.lumcat);
+  keyword('LUMINAIRE', header.luminaire);
+  keyword('LAMP', header.lamp);
+  keyword('BALLAST', header.ballast);
+  keyword('OTHER', header.description);
+  for (const [name, value] of Object.entries(header.keywords ?? {})) {
+    if (!HEADER_FIELD_KEYWORDS.includes(name)) keyword(name, value);
+  }
+
+  lines.push('TILT=NONE');
+  lines.push([
+    metadata.numberOfLamps,
+    metadata.lumensPerLamp,
+    1,
+    photometry.verticalAngles.length,
+    photometry.horizontalAngles.length,
+    metadata.photometricType,
+    metadata.unitsType,
+    metadata.luminousWidth,
+    metadata.luminousLength,
+    metadata.luminousHeight
+  ].map(formatIESNumber).join(' '));
+  lines.push([
+    metadata.ballastFactor ?? 1,
+    metadata.ballastLampPhotometricFactor ?? 1,
+    metadata.inputWatts ?? 0
+  ].map(formatIESNumber).join(' '));
+  lines.push(...wrapValues(photometry.verticalAngles));
+  lines.push(...wrapValues(photometry.horizontalAngles));
+  for (const plane of photometry.candela) {
+    lines.push(...wrapValues(plane));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+// LM-63 limits lines to 256 characters, so long value lists are wrapped
+function wrapValues(values: number[], perLine = 10): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < values.length; i += perLine) {
+    lines.push(values.slice(i, i + perLine).map(formatIESNumber).join(' '));
+  }
+  return lines;
+}
+
+function formatIESNumber(value: number): string {
+  return String(Math.round(value * 10000) / 10000);
+}
+
 export function generateSampleIESData(fixtureName: string): IESData {
   return {
     fixture: {
@@ -87,17 +157,6 @@ export class IESExporter {
 
 export class LDTExporter {
   export(data: IESData): string {
-    // LDT format is similar to IES but with some differences
-    // For now, return a basic LDT format
-    const header = [
-      'VibeLux LDT Export',
-      data.fixture.manufacturer,
-      data.fixture.name,
-      data.fixture.wattage + 'W',
-      data.fixture.lumens + 'lm',
-      ''
-    ].join('\n');
-    
-    return header + exportToIES(data);
+    return convertParsedToLDT(parseIESFile(exportToIES(data)));
   }
 }
\ No newline at end of file
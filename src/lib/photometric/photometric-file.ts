@@ -0,0 +1,85 @@
+/**
+ * Photometric File Entry Point
+ * Detects IES vs EULUMDAT content and converts between the two formats
+ */
+
+import { parseIESFile, validateIESFile, type ParsedIESFile } from '@/lib/ies-parser'
+import { parseLDTFile, convertParsedToLDT } from './eulumdat'
+import { exportParsedIES } from './ies-exporter'
+
+export type PhotometricFormat = 'ies' | 'ldt'
+
+export const PHOTOMETRIC_FILE_EXTENSIONS = ['.ies', '.ldt']
+
+/**
+ * Detect the photometric format from the file name, falling back to content sniffing
+ */
+export function detectPhotometricFormat(content: string, filename?: string): PhotometricFormat {
+  const lowerName = filename?.toLowerCase() ?? ''
+  if (lowerName.endsWith('.ldt')) return 'ldt'
+  if (lowerName.endsWith('.ies')) return 'ies'
+
+  // LM-63 files start with an IESNA line or keywords and always contain a TILT directive;
+  // EULUMDAT has neither and its second line is the single-digit type indicator
+  if (/^\s*IESNA/i.test(content) || /^TILT\s*=/im.test(content)) return 'ies'
+  const secondLine = content.split(/\r?\n/)[1]?.trim()
+  return /^[0-3]$/.test(secondLine ?? '') ? 'ldt' : 'ies'
+}
+
+export function isPhotometricFileName(filename: string): boolean {
+  const lowerName = filename.toLowerCase()
+  return PHOTOMETRIC_FILE_EXTENSIONS.some(extension => lowerName.endsWith(extension))
+}
+
+/**
+ * Parse IES or EULUMDAT content into the shared ParsedIESFile structure
+ */
+export function parsePhotometricFile(content: string, filename?: string): ParsedIESFile {
+  const parsed = detectPhotometricFormat(content, filename) === 'ldt'
+    ? parseLDTFile(content)
+    : parseIESFile(content)
+  if (filename) parsed.header.filename = filename
+  return parsed
+}
+
+/**
+ * Validate IES or EULUMDAT content
+ */
+export function validatePhotometricFile(content: string, filename?: string): { valid: boolean; errors: string[] } {
+  if (detectPhotometricFormat(content, filename) === 'ies') {
+    return validateIESFile(content)
+  }
+
+  try {
+    parseLDTFile(content)
+    return { valid: true, errors: [] }
+  } catch (error) {
+    return { valid: false, errors: [error instanceof Error ? error.message : 'Unknown parsing error'] }
+  }
+}
+
+/**
+ * Read an uploaded .ies or .ldt file
+ */
+export async function convertUploadedPhotometricFile(file: File): Promise<ParsedIESFile> {
+  const content = await file.text()
+  const validation = validatePhotometricFile(content, file.name)
+  if (!validation.valid) {
+    throw new Error(`Invalid photometric file: ${validation.errors.join(', ')}`)
+  }
+  return parsePhotometricFile(content, file.name)
+}
+
+/**
+ * Convert IES content to EULUMDAT
+ */
+export function convertIESToLDT(content: string): string {
+  return convertParsedToLDT(parseIESFile(content))
+}
+
+/**
+ * Convert EULUMDAT content to IES
+ */
+export function convertLDTToIES(content: string): string {
+  return exportParsedIES(parseLDTFile(content))
+}
@@ -0,0 +1,265 @@
+/**
+ * Photometric Geometry
+ * Type A / B / C coordinate systems, conversion into the Type C frame used by
+ * the designer and PPFD calculators, and angle-table validation.
+ *
+ * Frames share the luminaire axes: +z up, nadir along -z, +x along C0 and
+ * +y along C90.
+ *  - Type C: polar axis vertical. C rotates about z, gamma is measured from nadir.
+ *  - Type B: polar axis along y. H rotates the measuring plane about y
+ *    (H = 0 contains nadir), V is the elevation out of that plane toward +y.
+ *  - Type A: polar axis along x. V rotates the measuring plane about x
+ *    (V = 0 contains nadir), H is the elevation out of that plane toward +x.
+ */
+
+export const PHOTOMETRIC_TYPE_C = 1
+export const PHOTOMETRIC_TYPE_B = 2
+export const PHOTOMETRIC_TYPE_A = 3
+
+export interface AngleTableValidation {
+  errors: string[]
+  warnings: string[]
+}
+
+export interface TypeCDistribution {
+  horizontalAngles: number[]
+  verticalAngles: number[]
+  candela: number[][] // [horizontal][vertical]
+}
+
+/**
+ * Check LM-63 angle tables for ordering and the ranges each photometric type allows.
+ * Errors make the file unusable; warnings flag data that will be interpreted loosely.
+ */
+export function validateAngleTables(
+  photometricType: number,
+  horizontalAngles: number[],
+  verticalAngles: number[]
+): AngleTableValidation {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  const checkAscending = (angles: number[], name: string) => {
+    for (let i = 1; i < angles.length; i++) {
+      if (angles[i] <= angles[i - 1]) {
+        errors.push(`${name} angles must be strictly ascending (found ${angles[i - 1]} then ${angles[i]})`)
+        return
+      }
+    }
+  }
+  checkAscending(horizontalAngles, 'Horizontal')
+  checkAscending(verticalAngles, 'Vertical')
+
+  if (horizontalAngles.length === 0 || verticalAngles.length === 0) {
+    errors.push('Angle tables must contain at least one horizontal and one vertical angle')
+    return { errors, warnings }
+  }
+
+  const firstH = horizontalAngles[0]
+  const lastH = horizontalAngles[horizontalAngles.length - 1]
+  const firstV = verticalAngles[0]
+  const lastV = verticalAngles[verticalAngles.length - 1]
+
+  if (photometricType === PHOTOMETRIC_TYPE_C) {
+    if (firstV < 0 || lastV > 180) {
+      errors.push(`Type C vertical angles must lie within 0-180° (found ${firstV}-${lastV})`)
+    } else if (![0, 90].includes(firstV) || ![90, 180].includes(lastV)) {
+      warnings.push(`Type C vertical angles ${firstV}-${lastV}° do not start at 0/90° and end at 90/180°; missing zones are treated as dark`)
+    }
+    if (firstH < 0 || lastH > 360) {
+      errors.push(`Type C horizontal angles must lie within 0-360° (found ${firstH}-${lastH})`)
+    } else if (horizontalAngles.length > 1) {
+      const standard = (firstH === 0 && [90, 180, 360].includes(lastH)) || (firstH === 90 && lastH === 270)
+      if (!standard) {
+        warnings.push(`Type C horizontal range ${firstH}-${lastH}° is not a standard LM-63 symmetry; unmeasured planes are interpolated`)
+      }
+    }
+  } else if (photometricType === PHOTOMETRIC_TYPE_B || photometricType === PHOTOMETRIC_TYPE_A) {
+    const label = photometricType === PHOTOMETRIC_TYPE_B ? 'Type B' : 'Type A'
+    if (firstV < -90 || lastV > 90) {
+      errors.push(`${label} vertical angles must lie within -90-90° (found ${firstV}-${lastV})`)
+    }
+    if (firstH < -90 || lastH > 90) {
+      errors.push(`${label} horizontal angles must lie within -90-90° (found ${firstH}-${lastH})`)
+    } else if (firstH !== -90 && firstH !== 0) {
+      warnings.push(`${label} horizontal angles start at ${firstH}° instead of -90° or 0°`)
+    }
+  } else {
+    errors.push(`Unknown photometric type ${photometricType} (expected 1 = C, 2 = B, 3 = A)`)
+  }
+
+  return { errors, warnings }
+}
+
+/**
+ * Resample a Type A or Type B candela table onto a full Type C web
+ */
+export function convertToTypeC(
+  photometricType: number,
+  horizontalAngles: number[],
+  verticalAngles: number[],
+  candela: number[][],
+  resolution: { cStep?: number; gammaStep?: number } = {}
+): TypeCDistribution {
+  if (photometricType === PHOTOMETRIC_TYPE_C) {
+    return { horizontalAngles, verticalAngles, candela }
+  }
+
+  const cStep = resolution.cStep ?? 5
+  const gammaStep = resolution.gammaStep ?? 2.5
+  const sourceAt = createBilinearLookup(horizontalAngles, verticalAngles, candela)
+  // Tables measured over 0-90° only describe one half of a symmetric luminaire
+  const mirrorH = horizontalAngles[0] >= 0
+  const mirrorV = verticalAngles[0] >= 0
+
+  const cAngles: number[] = []
+  for (let c = 0; c <= 360 + 1e-9; c += cStep) cAngles.push(roundAngle(c))
+  const gammaAngles: number[] = []
+  for (let g = 0; g <= 180 + 1e-9; g += gammaStep) gammaAngles.push(roundAngle(g))
+
+  const converted = cAngles.map(c => gammaAngles.map(gamma => {
+    const [x, y, z] = typeCDirection(c, gamma)
+    let h: number
+    let v: number
+    if (photometricType === PHOTOMETRIC_TYPE_B) {
+      v = toDegrees(Math.asin(clamp(y, -1, 1)))
+      h = toDegrees(Math.atan2(x, -z))
+    } else {
+      h = toDegrees(Math.asin(clamp(x, -1, 1)))
+      v = toDegrees(Math.atan2(y, -z))
+    }
+    if (mirrorH) h = Math.abs(h)
+    if (mirrorV) v = Math.abs(v)
+    return sourceAt(h, v)
+  }))
+
+  return { horizontalAngles: cAngles, verticalAngles: gammaAngles, candela: converted }
+}
+
+/**
+ * Unit direction vector for a Type C angle pair
+ */
+export function typeCDirection(c: number, gamma: number): [number, number, number] {
+  const cRad = toRadians(c)
+  const gRad = toRadians(gamma)
+  return [Math.sin(gRad) * Math.cos(cRad), Math.sin(gRad) * Math.sin(cRad), -Math.cos(gRad)]
+}
+
+/**
+ * Build an interpolating I(C, gamma) lookup over Type C data laid out with
+ * any of the LM-63 horizontal symmetry conventions
+ */
+export function createTypeCLookup(
+  horizontalAngles: number[],
+  verticalAngles: number[],
+  candela: number[][]
+): (c: number, gamma: number) => number {
+  const first = horizontalAngles[0]
+  const last = horizontalAngles[horizontalAngles.length - 1]
+
+  const fold = (c: number): number => {
+    c = ((c % 360) + 360) % 360
+    if (horizontalAngles.length === 1) return first
+    if (first === 0 && last === 90) {
+      const half = c > 180 ? 360 - c : c
+      return half > 90 ? 180 - half : half
+    }
+    if (first === 0 && last === 180) return c > 180 ? 360 - c : c
+    if (first === 90 && last === 270) return c < 90 ? 180 - c : c > 270 ? 540 - c : c
+    return c
+  }
+
+  const interpolateGamma = (plane: number[], gamma: number): number => {
+    if (gamma < verticalAngles[0]) return 0
+    if (gamma === verticalAngles[0]) return plane[0] ?? 0
+    for (let v = 1; v < verticalAngles.length; v++) {
+      if (gamma <= verticalAngles[v]) {
+        const t = (gamma - verticalAngles[v - 1]) / (verticalAngles[v] - verticalAngles[v - 1] || 1)
+        return (plane[v - 1] ?? 0) + t * ((plane[v] ?? 0) - (plane[v - 1] ?? 0))
+      }
+    }
+    // Outside the measured range the luminaire emits nothing
+    return 0
+  }
+
+  return (c: number, gamma: number) => {
+    const folded = fold(c)
+    if (horizontalAngles.length === 1) return interpolateGamma(candela[0], gamma)
+    for (let h = 0; h < horizontalAngles.length; h++) {
+      if (Math.abs(horizontalAngles[h] - folded) < 1e-6) return interpolateGamma(candela[h], gamma)
+      if (h > 0 && folded < horizontalAngles[h]) {
+        const t = (folded - horizontalAngles[h - 1]) / (horizontalAngles[h] - horizontalAngles[h - 1])
+        const lower = interpolateGamma(candela[h - 1], gamma)
+        return lower + t * (interpolateGamma(candela[h], gamma) - lower)
+      }
+    }
+    return interpolateGamma(candela[candela.length - 1], gamma)
+  }
+}
+
+/**
+ * Zonal-lumen integration of I(C, gamma) over the given gamma angles (lm)
+ */
+export function integrateTypeCFlux(
+  candelaAt: (c: number, gamma: number) => number,
+  gammaAngles: number[]
+): number {
+  const cStep = 5
+  let flux = 0
+  for (let c = 0; c < 360; c += cStep) {
+    for (let v = 1; v < gammaAngles.length; v++) {
+      const g1 = gammaAngles[v - 1]
+      const g2 = gammaAngles[v]
+      const average = (candelaAt(c + cStep / 2, g1) + candelaAt(c + cStep / 2, g2)) / 2
+      flux += average * (Math.cos(toRadians(g1)) - Math.cos(toRadians(g2))) * toRadians(cStep)
+    }
+  }
+  return flux
+}
+
+// Bilinear lookup over a rectangular [horizontal][vertical] table; zero outside it
+function createBilinearLookup(
+  horizontalAngles: number[],
+  verticalAngles: number[],
+  candela: number[][]
+): (h: number, v: number) => number {
+  const bracket = (angles: number[], value: number): [number, number, number] | null => {
+    if (angles.length === 1) return Math.abs(value - angles[0]) < 1e-6 ? [0, 0, 0] : null
+    if (value < angles[0] - 1e-9 || value > angles[angles.length - 1] + 1e-9) return null
+    for (let i = 1; i < angles.length; i++) {
+      if (value <= angles[i] + 1e-9) {
+        const t = (value - angles[i - 1]) / (angles[i] - angles[i - 1])
+        return [i - 1, i, clamp(t, 0, 1)]
+      }
+    }
+    return null
+  }
+
+  return (h: number, v: number) => {
+    const hb = bracket(horizontalAngles, h)
+    const vb = bracket(verticalAngles, v)
+    if (!hb || !vb) return 0
+    const [h0, h1, th] = hb
+    const [v0, v1, tv] = vb
+    const at = (hi: number, vi: number) => candela[hi]?.[vi] ?? 0
+    const lower = at(h0, v0) + tv * (at(h0, v1) - at(h0, v0))
+    const upper = at(h1, v0) + tv * (at(h1, v1) - at(h1, v0))
+    return lower + th * (upper - lower)
+  }
+}
+
+function roundAngle(angle: number): number {
+  return Math.round(angle * 10000) / 10000
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI
+}
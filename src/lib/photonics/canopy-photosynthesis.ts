@@ -0,0 +1,349 @@
+/**
+ * Canopy Photosynthesis from Traced Light
+ *
+ * Couples the multi-layer canopy ray tracer to the Farquhar-von Caemmerer-Berry
+ * leaf model so rack layouts can be compared by predicted assimilation rather
+ * than PPFD alone:
+ * - Each traced layer is split into sunlit and shaded leaf area
+ *   (de Pury & Farquhar 1997) using its LAI and leaf angle distribution
+ * - The layer's absorbed PAR is partitioned between the two leaf classes
+ * - FvCB photosynthesis is evaluated per class with the layer's spectrum,
+ *   leaf temperature and CO2
+ * - Canopy carbon gain is integrated over the photoperiod, less night respiration
+ *
+ * Units and Conventions:
+ * - PPFD and assimilation: μmol/m²/s, per ground area unless noted as per leaf area
+ * - Daily carbon: mol CO2/m²/day per ground area
+ * - Traced PPFD is the per-point average over the tracing grid
+ */
+
+import {
+  EnvironmentalConditions,
+  FarquharPhotosynthesisModel,
+  PhotosynthesisParameters,
+  SpectrumQuality
+} from '../plant-science/farquhar-photosynthesis-model';
+import type { CanopyLayer, MultiLayerCanopyRayTracer, TracingResult } from './multi-layer-canopy-raytracer';
+
+// The parts of a tracer the coupling reads: its layers and their leaf projection
+export type TracedCanopy = Pick<MultiLayerCanopyRayTracer, 'getLayers' | 'calculateLeafProjectionFunction'>;
+
+export interface CanopyEnvironment {
+  airTemperature: number; // °C during the photoperiod
+  nightTemperature?: number; // °C, defaults to airTemperature
+  leafTemperature?: number; // °C, defaults to airTemperature
+  co2Concentration: number; // ppm
+  relativeHumidity: number; // %
+  vaporPressureDeficit: number; // kPa
+}
+
+export interface CanopyAssimilationOptions {
+  environment: CanopyEnvironment;
+  layerEnvironment?: Record<string, Partial<Pick<CanopyEnvironment, 'leafTemperature' | 'co2Concentration'>>>;
+  parameters?: PhotosynthesisParameters; // defaults to each layer's species
+  photoperiod?: number; // hours, default 16
+  dimming?: number[]; // relative fixture output for each hour of the photoperiod
+  beamFraction?: number; // share of a layer's incident light arriving direct from fixtures, default 0.8
+  beamZenith?: number; // degrees from vertical of the direct light, default 0
+  sunlitLeafWarming?: number; // °C sunlit leaves run above the layer leaf temperature
+  ppfdScale?: number; // calibrates traced PPFD to fixture output, default 1
+}
+
+export interface LeafClassAssimilation {
+  leafArea: number; // m² leaf/m² ground
+  absorbedPPFD: number; // μmol/m²/s per leaf area
+  leafTemperature: number; // °C
+  netPhotosynthesis: number; // μmol CO2/m²/s per leaf area
+  limitingFactor: 'rubisco' | 'light' | 'tpu';
+}
+
+export interface LayerAssimilation {
+  layerId: string;
+  lai: number;
+  incidentPPFD: number; // μmol/m²/s at the top of the layer
+  absorbedPPFD: number; // μmol/m²/s per ground area
+  sunlit: LeafClassAssimilation;
+  shaded: LeafClassAssimilation;
+  assimilation: number; // μmol CO2/m²/s per ground area
+  nightRespiration: number; // μmol CO2/m²/s per ground area
+}
+
+export interface CanopyAssimilation {
+  layers: LayerAssimilation[];
+  lai: number;
+  absorbedPPFD: number; // μmol/m²/s
+  assimilation: number; // μmol CO2/m²/s at full fixture output
+  photoperiod: number; // hours
+  daily: {
+    absorbedPhotons: number; // mol/m²/day
+    lightPeriodAssimilation: number; // mol CO2/m²/day
+    nightRespiration: number; // mol CO2/m²/day
+    carbonGain: number; // mol CO2/m²/day, net
+    carbohydrate: number; // g CH2O/m²/day
+    quantumEfficiency: number; // mol CO2 per mol absorbed photons
+  };
+}
+
+export interface CanopyLayoutRanking {
+  id: string;
+  assimilation: CanopyAssimilation;
+  rank: number;
+  relativeCarbonGain: number; // % of the best layout
+}
+
+const CH2O_MOLAR_MASS = 30.03; // g/mol
+
+// Placeholder band mix so the leaf model stays finite with the lights off
+const DARK_SPECTRUM: SpectrumQuality = {
+  redPPFD: 0.6,
+  bluePPFD: 0.2,
+  greenPPFD: 0.2,
+  farRedPPFD: 0,
+  redFarRedRatio: 10,
+  blueRedRatio: 0.33
+};
+
+interface LayerLight {
+  layer: CanopyLayer;
+  incident: number;
+  absorbed: number;
+  absorptance: number;
+  extinction: number;
+  spectrum: Omit<SpectrumQuality, 'redFarRedRatio' | 'blueRedRatio'>; // fractions of PAR photons
+}
+
+function bandPhotons(irradiance: Float32Array, from: number, to: number): number {
+  // Photon flux is proportional to energy × wavelength
+  let photons = 0;
+  for (let wavelength = from; wavelength < to; wavelength++) {
+    photons += (irradiance[wavelength - 380] || 0) * wavelength;
+  }
+  return photons;
+}
+
+function spectrumQuality(spectrum: LayerLight['spectrum'], ppfd: number): SpectrumQuality {
+  const red = spectrum.redPPFD * ppfd;
+  const blue = spectrum.bluePPFD * ppfd;
+  const farRed = spectrum.farRedPPFD * ppfd;
+  return {
+    redPPFD: red,
+    bluePPFD: blue,
+    greenPPFD: spectrum.greenPPFD * ppfd,
+    farRedPPFD: farRed,
+    redFarRedRatio: farRed > 0 ? red / farRed : 10,
+    blueRedRatio: red > 0 ? blue / red : 0
+  };
+}
+
+/**
+ * Read each layer's incident and absorbed PAR from a tracing result
+ */
+function layerLight(tracer: TracedCanopy, result: TracingResult, scale: number): LayerLight[] {
+  return tracer.getLayers().map(layer => {
+    const uniformity = result.uniformityByLayer.get(layer.id);
+    const irradiance = result.spectralIrradianceByLayer.get(layer.id) || new Float32Array(401);
+    const absorption = result.absorptionByLayer.get(layer.id);
+
+    let incidentEnergy = 0;
+    for (let i = 20; i <= 320; i++) incidentEnergy += irradiance[i];
+    const fraction = incidentEnergy > 0 && absorption ? Math.min(1, absorption.par / incidentEnergy) : 0;
+    const incident = (uniformity?.avg || 0) * scale;
+
+    const par = bandPhotons(irradiance, 400, 700);
+    const share = (from: number, to: number) => (par > 0 ? bandPhotons(irradiance, from, to) / par : 0);
+
+    const absorptance = layer.leafOpticalProperties.absorptance.slice(20, 321);
+    return {
+      layer,
+      incident,
+      absorbed: incident * fraction,
+      absorptance: absorptance.reduce((sum, value) => sum + value, 0) / absorptance.length,
+      extinction: tracer.calculateLeafProjectionFunction(layer.leafAngleDistribution),
+      spectrum: {
+        bluePPFD: share(400, 500),
+        greenPPFD: share(500, 600),
+        redPPFD: share(600, 700),
+        farRedPPFD: share(700, 781)
+      }
+    };
+  });
+}
+
+export class CanopyPhotosynthesisModel {
+  private light: LayerLight[];
+  private options: CanopyAssimilationOptions;
+  private models = new Map<string, FarquharPhotosynthesisModel>();
+
+  constructor(tracer: TracedCanopy, result: TracingResult, options: CanopyAssimilationOptions) {
+    this.options = options;
+    this.light = layerLight(tracer, result, options.ppfdScale ?? 1);
+  }
+
+  /**
+   * Instantaneous assimilation with fixtures at a relative output
+   */
+  calculateLayers(output = 1): LayerAssimilation[] {
+    const beamFraction = this.options.beamFraction ?? 0.8;
+    const cosZenith = Math.cos((this.options.beamZenith ?? 0) * Math.PI / 180);
+
+    return this.light.map(({ layer, incident, absorbed, absorptance, extinction, spectrum }) => {
+      const lai = layer.lai;
+      const kb = extinction / Math.max(cosZenith, 0.05);
+      const sunlitArea = lai > 0 ? (1 - Math.exp(-kb * lai)) / kb : 0;
+      const shadedArea = lai - sunlitArea;
+
+      // Direct light reaching sunlit leaves, the rest spread over all leaves
+      const beam = incident * output * beamFraction;
+      const total = absorbed * output;
+      const beamAbsorbed = Math.min(total, absorptance * beam * (1 - Math.exp(-kb * lai)));
+      const diffuse = lai > 0 ? (total - beamAbsorbed) / lai : 0;
+
+      const environment = { ...this.options.environment, ...this.options.layerEnvironment?.[layer.id] };
+      const leafTemperature = environment.leafTemperature ?? environment.airTemperature;
+      const model = this.model(layer);
+
+      const leaf = (leafArea: number, leafAbsorbed: number, temperature: number): LeafClassAssimilation => {
+        if (leafArea <= 0 || leafAbsorbed <= 0) {
+          return { leafArea, absorbedPPFD: 0, leafTemperature: temperature, netPhotosynthesis: 0, limitingFactor: 'light' };
+        }
+        // The leaf model's quantum efficiency is on an incident-light basis
+        const ppfd = leafAbsorbed / absorptance;
+        const result = model.calculatePhotosynthesis(
+          this.conditions(ppfd, temperature, environment.co2Concentration, spectrumQuality(spectrum, ppfd))
+        );
+        return {
+          leafArea,
+          absorbedPPFD: leafAbsorbed,
+          leafTemperature: temperature,
+          netPhotosynthesis: result.netPhotosynthesis,
+          limitingFactor: result.limitingFactor
+        };
+      };
+
+      const sunlit = leaf(sunlitArea, diffuse + (sunlitArea > 0 ? beamAbsorbed / sunlitArea : 0), leafTemperature + (this.options.sunlitLeafWarming ?? 0));
+      const shaded = leaf(shadedArea, diffuse, leafTemperature);
+
+      return {
+        layerId: layer.id,
+        lai,
+        incidentPPFD: incident * output,
+        absorbedPPFD: total,
+        sunlit,
+        shaded,
+        assimilation: sunlit.leafArea * sunlit.netPhotosynthesis + shaded.leafArea * shaded.netPhotosynthesis,
+        nightRespiration: lai * this.darkRespiration(layer)
+      };
+    });
+  }
+
+  /**
+   * Canopy assimilation at full output and its daily integral
+   */
+  calculate(): CanopyAssimilation {
+    const photoperiod = this.options.photoperiod ?? 16;
+    const layers = this.calculateLayers();
+    const lai = layers.reduce((sum, layer) => sum + layer.lai, 0);
+    const absorbedPPFD = layers.reduce((sum, layer) => sum + layer.absorbedPPFD, 0);
+
+    // Hourly steps through the photoperiod, following any dimming schedule
+    let lightPeriod = 0;
+    let photons = 0;
+    for (let hour = 0; hour < photoperiod; hour++) {
+      const duration = Math.min(1, photoperiod - hour) * 3600;
+      const output = this.options.dimming?.[hour] ?? 1;
+      const hourly = output === 1 ? layers : this.calculateLayers(output);
+      lightPeriod += hourly.reduce((sum, layer) => sum + layer.assimilation, 0) * duration;
+      photons += absorbedPPFD * output * duration;
+    }
+    const night = layers.reduce((sum, layer) => sum + layer.nightRespiration, 0) * (24 - photoperiod) * 3600;
+
+    const carbonGain = (lightPeriod - night) * 1e-6;
+    return {
+      layers,
+      lai,
+      absorbedPPFD,
+      assimilation: layers.reduce((sum, layer) => sum + layer.assimilation, 0),
+      photoperiod,
+      daily: {
+        absorbedPhotons: photons * 1e-6,
+        lightPeriodAssimilation: lightPeriod * 1e-6,
+        nightRespiration: night * 1e-6,
+        carbonGain,
+        carbohydrate: carbonGain * CH2O_MOLAR_MASS,
+        quantumEfficiency: photons > 0 ? lightPeriod / photons : 0
+      }
+    };
+  }
+
+  private model(layer: CanopyLayer): FarquharPhotosynthesisModel {
+    const key = this.options.parameters ? 'custom' : layer.species.toLowerCase();
+    let model = this.models.get(key);
+    if (!model) {
+      model = new FarquharPhotosynthesisModel(
+        this.options.parameters ?? FarquharPhotosynthesisModel.getSpeciesParameters(layer.species)
+      );
+      this.models.set(key, model);
+    }
+    return model;
+  }
+
+  private darkRespiration(layer: CanopyLayer): number {
+    const { environment } = this.options;
+    const temperature = environment.nightTemperature ?? environment.airTemperature;
+    return this.model(layer).calculatePhotosynthesis(
+      this.conditions(0, temperature, environment.co2Concentration, DARK_SPECTRUM)
+    ).darkRespiration;
+  }
+
+  private conditions(
+    ppfd: number,
+    leafTemperature: number,
+    co2Concentration: number,
+    spectrum: SpectrumQuality
+  ): EnvironmentalConditions {
+    const { environment } = this.options;
+    return {
+      ppfd,
+      spectrumQuality: spectrum,
+      leafTemperature,
+      airTemperature: environment.airTemperature,
+      co2Concentration,
+      o2Concentration: 210,
+      relativeHumidity: environment.relativeHumidity,
+      vaporPressureDeficit: environment.vaporPressureDeficit,
+      leafWaterPotential: -0.5,
+      atmosphericPressure: 101.325,
+      windSpeed: 0.5
+    };
+  }
+}
+
+/**
+ * Canopy assimilation for one traced layout
+ */
+export function calculateCanopyAssimilation(
+  tracer: TracedCanopy,
+  result: TracingResult,
+  options: CanopyAssimilationOptions
+): CanopyAssimilation {
+  return new CanopyPhotosynthesisModel(tracer, result, options).calculate();
+}
+
+/**
+ * Rank traced rack layouts by predicted daily carbon gain
+ */
+export function rankCanopyLayouts(
+  layouts: Array<{ id: string; tracer: TracedCanopy; result: TracingResult }>,
+  options: CanopyAssimilationOptions
+): CanopyLayoutRanking[] {
+  const assessed = layouts
+    .map(layout => ({ id: layout.id, assimilation: calculateCanopyAssimilation(layout.tracer, layout.result, options) }))
+    .sort((a, b) => b.assimilation.daily.carbonGain - a.assimilation.daily.carbonGain);
+  const best = assessed[0]?.assimilation.daily.carbonGain || 0;
+
+  return assessed.map((layout, index) => ({
+    ...layout,
+    rank: index + 1,
+    relativeCarbonGain: best > 0 ? layout.assimilation.daily.carbonGain / best * 100 : 0
+  }));
+}
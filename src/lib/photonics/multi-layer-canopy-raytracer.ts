@@ -149,6 +149,10 @@ export class MultiLayerCanopyRayTracer {
     this.lightSources.push(light);
   }
 
+  getLayers(): CanopyLayer[] {
+    return [...this.layers];
+  }
+
   /**
    * Main ray tracing function
    */
@@ -486,7 +490,7 @@ export class MultiLayerCanopyRayTracer {
   /**
    * Calculate leaf projection function G for different leaf angle distributions
    */
-  private calculateLeafProjectionFunction(distribution: LeafAngleDistribution): number {
+  calculateLeafProjectionFunction(distribution: LeafAngleDistribution): number {
     switch (distribution.type) {
       case 'spherical':
         return 0.5;
@@ -0,0 +1,584 @@
+/**
+ * Looped Pipe Network Solver
+ * Steady-state heads and flows for looped drip irrigation mains and
+ * hydronic heating loops using the Todini-Pilati global gradient algorithm,
+ * the method EPANET uses. Pipes with fittings, pressure-dependent emitters
+ * and pumps from the pump database are solved together.
+ */
+
+import { Fitting, HydraulicCalculator, PipeSegment, PumpCurve } from './hydraulic-calculations';
+import { calculateDistributionUniformity } from './hydraulic-engineering';
+import { PumpSelector, PumpSpecification } from './pump-selection';
+
+export type NetworkNodeType = 'junction' | 'reservoir' | 'tank';
+
+export interface NetworkNode {
+  id: string;
+  type?: NetworkNodeType; // Defaults to junction
+  elevation: number; // feet
+  demand?: number; // GPM withdrawn at a junction
+  head?: number; // feet, fixed total head of a reservoir
+  level?: number; // feet of water above a tank's elevation
+}
+
+export interface NetworkPipe {
+  id: string;
+  from: string;
+  to: string;
+  diameter: number; // inches, inside diameter
+  length: number; // feet
+  material: PipeSegment['material'];
+  cFactor?: number; // Hazen-Williams C; defaults by material
+  fittings?: Fitting[];
+  minorLoss?: number; // Additional loss coefficient K
+  status?: 'open' | 'closed' | 'cv'; // cv: check valve, flow only from -> to
+}
+
+export interface NetworkPump {
+  id: string;
+  from: string; // Suction node
+  to: string; // Discharge node
+  pump: PumpSpecification | PumpCurve;
+  speed?: number; // Relative speed, 1 = curve speed
+  status?: 'open' | 'closed';
+}
+
+/**
+ * Emitters at a junction. Conventional emitters follow q = K·p^x;
+ * pressure-compensating emitters deliver their nominal flow once the
+ * regulating pressure is reached.
+ */
+export interface NetworkEmitter {
+  id: string;
+  node: string;
+  coefficient?: number; // K, GPM/psi^x, conventional emitters
+  exponent?: number; // x, 0.5 for turbulent orifices
+  compensation?: { nominalFlow: number; regulatingPressure: number }; // GPM, psi
+  count?: number; // Identical emitters lumped at the node
+  manufacturerCv?: number; // Manufacturing coefficient of variation, 0-1
+}
+
+export interface PipeNetwork {
+  title?: string;
+  nodes: NetworkNode[];
+  pipes: NetworkPipe[];
+  pumps?: NetworkPump[];
+  emitters?: NetworkEmitter[];
+}
+
+export interface NetworkSolverOptions {
+  headLoss?: 'hazen-williams' | 'darcy-weisbach';
+  temperature?: number; // °F, water viscosity for Darcy-Weisbach
+  accuracy?: number; // Relative flow change that counts as converged
+  maxIterations?: number;
+  emittersPerPlant?: number; // For emission uniformity
+}
+
+export interface NodeResult {
+  id: string;
+  head: number; // feet
+  pressure: number; // psi
+  demand: number; // GPM, including emitter outflow
+}
+
+export interface LinkResult {
+  id: string;
+  type: 'pipe' | 'pump';
+  flow: number; // GPM, positive from -> to
+  velocity: number; // fps, zero for pumps
+  headLoss: number; // feet, negative across a pump
+  status: 'open' | 'closed';
+}
+
+export interface EmitterResult {
+  id: string;
+  node: string;
+  pressure: number; // psi
+  flow: number; // GPM per emitter
+  totalFlow: number; // GPM for all emitters at the node
+}
+
+export interface PumpOperatingPoint {
+  id: string;
+  flow: number; // GPM
+  head: number; // feet
+  efficiency: number; // %
+  power: number; // HP
+  npshRequired: number; // feet
+}
+
+export interface NetworkUniformity {
+  distributionUniformity: number; // %, low-quarter DU
+  emissionUniformity: number; // %, Keller-Karmeli design EU
+  coefficientOfVariation: number; // %, hydraulic variation in emitter flow
+  minimumFlow: number; // GPM per emitter
+  averageFlow: number; // GPM per emitter
+  emitterCount: number;
+}
+
+export interface NetworkSolution {
+  converged: boolean;
+  iterations: number;
+  relativeFlowChange: number;
+  nodes: NodeResult[];
+  links: LinkResult[];
+  emitters: EmitterResult[];
+  pumps: PumpOperatingPoint[];
+  uniformity: NetworkUniformity | null;
+}
+
+const FEET_PER_PSI = 2.31;
+const MIN_GRADIENT = 1e-6; // ft/GPM, keeps zero-flow links solvable
+const CLOSED_RESISTANCE = 1e8; // ft/GPM
+const COMPENSATION_SLOPE = 1000; // psi per unit of relative flow above nominal
+const INITIAL_PRESSURE = 20; // psi, for initial emitter flows
+
+interface SolverNode {
+  id: string;
+  elevation: number;
+  demand: number;
+  fixedHead: number | null;
+  index: number; // Position among unknown heads, -1 when fixed
+}
+
+interface SolverLink {
+  id: string;
+  kind: 'pipe' | 'pump' | 'emitter';
+  from: number;
+  to: number;
+  flow: number;
+  closed: boolean;
+  locked: boolean; // Closed by the network definition, not by a check valve
+  pipe?: NetworkPipe;
+  curve?: PumpCurve;
+  emitter?: NetworkEmitter;
+}
+
+export class PipeNetworkSolver {
+  private network: PipeNetwork;
+  private options: Required<NetworkSolverOptions>;
+  private nodes: SolverNode[] = [];
+  private links: SolverLink[] = [];
+  private unknowns = 0;
+
+  constructor(network: PipeNetwork, options: NetworkSolverOptions = {}) {
+    this.network = network;
+    this.options = {
+      headLoss: options.headLoss || 'hazen-williams',
+      temperature: options.temperature ?? 68,
+      accuracy: options.accuracy ?? 1e-6,
+      maxIterations: options.maxIterations ?? 200,
+      emittersPerPlant: options.emittersPerPlant ?? 1
+    };
+    this.compile();
+  }
+
+  solve(): NetworkSolution {
+    const heads = this.nodes.map(node => node.fixedHead ?? node.elevation);
+    let converged = false;
+    let iterations = 0;
+    let relativeFlowChange = Infinity;
+
+    while (iterations < this.options.maxIterations) {
+      iterations++;
+      const { matrix, rhs, gradients, constants } = this.assemble(heads);
+      const solution = choleskySolve(matrix, rhs, this.unknowns);
+      this.nodes.forEach((node, i) => {
+        if (node.index >= 0) heads[i] = solution[node.index];
+      });
+
+      let change = 0;
+      let total = 0;
+      this.links.forEach((link, i) => {
+        const flow = constants[i] + (heads[link.from] - heads[link.to]) / gradients[i];
+        change += Math.abs(flow - link.flow);
+        total += Math.abs(flow);
+        link.flow = flow;
+      });
+      relativeFlowChange = total > 0 ? change / total : change;
+
+      const statusChanged = this.updateStatus(heads);
+      if (relativeFlowChange < this.options.accuracy && !statusChanged) {
+        converged = true;
+        break;
+      }
+    }
+
+    return this.results(heads, converged, iterations, relativeFlowChange);
+  }
+
+  private compile(): void {
+    const byId = new Map<string, number>();
+    for (const node of this.network.nodes) {
+      if (byId.has(node.id)) throw new Error(`Duplicate network node ${node.id}`);
+      const type = node.type || 'junction';
+      let fixedHead: number | null = null;
+      if (type === 'reservoir') fixedHead = node.head ?? node.elevation;
+      if (type === 'tank') fixedHead = node.elevation + (node.level ?? 0);
+
+      byId.set(node.id, this.nodes.length);
+      this.nodes.push({
+        id: node.id,
+        elevation: node.elevation,
+        demand: type === 'junction' ? node.demand || 0 : 0,
+        fixedHead,
+        index: fixedHead === null ? this.unknowns++ : -1
+      });
+    }
+
+    const lookup = (id: string, owner: string) => {
+      const index = byId.get(id);
+      if (index === undefined) throw new Error(`${owner} references unknown node ${id}`);
+      return index;
+    };
+
+    for (const pipe of this.network.pipes) {
+      const area = Math.PI * Math.pow(pipe.diameter / 24, 2);
+      this.links.push({
+        id: pipe.id,
+        kind: 'pipe',
+        from: lookup(pipe.from, `Pipe ${pipe.id}`),
+        to: lookup(pipe.to, `Pipe ${pipe.id}`),
+        flow: area * 449, // 1 fps
+        closed: pipe.status === 'closed',
+        locked: pipe.status === 'closed',
+        pipe
+      });
+    }
+
+    for (const pump of this.network.pumps || []) {
+      const rated = 'curve' in pump.pump ? pump.pump.curve : pump.pump;
+      const curve = pump.speed && pump.speed !== 1 ? PumpSelector.affinityLaws(rated, 1, pump.speed) : rated;
+      const best = curve.efficiency.indexOf(Math.max(...curve.efficiency));
+      this.links.push({
+        id: pump.id,
+        kind: 'pump',
+        from: lookup(pump.from, `Pump ${pump.id}`),
+        to: lookup(pump.to, `Pump ${pump.id}`),
+        flow: curve.flowPoints[best] || curve.flowPoints[Math.floor(curve.flowPoints.length / 2)],
+        closed: pump.status === 'closed',
+        locked: pump.status === 'closed',
+        curve
+      });
+    }
+
+    for (const emitter of this.network.emitters || []) {
+      const node = lookup(emitter.node, `Emitter ${emitter.id}`);
+      if (this.nodes[node].fixedHead !== null) {
+        throw new Error(`Emitter ${emitter.id} must be at a junction`);
+      }
+      if (!emitter.compensation && !(emitter.coefficient && emitter.coefficient > 0)) {
+        throw new Error(`Emitter ${emitter.id} needs a flow coefficient or compensation settings`);
+      }
+
+      // Emitters discharge to atmosphere: a fixed head at the junction elevation
+      const outlet = this.nodes.length;
+      this.nodes.push({ id: `${emitter.id}:outlet`, elevation: this.nodes[node].elevation, demand: 0, fixedHead: this.nodes[node].elevation, index: -1 });
+      this.links.push({
+        id: emitter.id,
+        kind: 'emitter',
+        from: node,
+        to: outlet,
+        flow: (emitter.count ?? 1) * emitterFlow(emitter, INITIAL_PRESSURE),
+        closed: false,
+        locked: false,
+        emitter
+      });
+    }
+
+    this.checkConnectivity();
+  }
+
+  /**
+   * Every junction needs a path to a fixed head or the system is singular
+   */
+  private checkConnectivity(): void {
+    const reached = new Set<number>();
+    const queue = this.nodes.map((node, i) => (node.fixedHead !== null ? i : -1)).filter(i => i >= 0);
+    queue.forEach(i => reached.add(i));
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const link of this.links) {
+        const next = link.from === current ? link.to : link.to === current ? link.from : -1;
+        if (next >= 0 && !reached.has(next)) {
+          reached.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    const isolated = this.nodes.find((node, i) => !reached.has(i));
+    if (isolated) {
+      throw new Error(`Junction ${isolated.id} is not connected to a reservoir, tank or emitter`);
+    }
+  }
+
+  /**
+   * Linearised system A·H = F. Each link contributes p = 1/g to the node
+   * matrix and carries Q = c + p·(H_from − H_to), c = Q − p·h(Q).
+   */
+  private assemble(heads: number[]) {
+    const n = this.unknowns;
+    const matrix = new Float64Array(n * n);
+    const rhs = new Float64Array(n);
+    const gradients: number[] = [];
+    const constants: number[] = [];
+
+    this.nodes.forEach(node => {
+      if (node.index >= 0) rhs[node.index] -= node.demand;
+    });
+
+    for (const link of this.links) {
+      const { loss, gradient } = this.linkLoss(link, link.flow);
+      const p = 1 / gradient;
+      const c = link.flow - p * loss;
+      gradients.push(gradient);
+      constants.push(c);
+
+      const from = this.nodes[link.from];
+      const to = this.nodes[link.to];
+      if (from.index >= 0) {
+        matrix[from.index * n + from.index] += p;
+        rhs[from.index] -= c;
+        if (to.index >= 0) matrix[from.index * n + to.index] -= p;
+        else rhs[from.index] += p * heads[link.to];
+      }
+      if (to.index >= 0) {
+        matrix[to.index * n + to.index] += p;
+        rhs[to.index] += c;
+        if (from.index >= 0) matrix[to.index * n + from.index] -= p;
+        else rhs[to.index] += p * heads[link.from];
+      }
+    }
+
+    return { matrix, rhs, gradients, constants };
+  }
+
+  /**
+   * Head loss from -> to (ft) and its derivative with respect to flow
+   */
+  private linkLoss(link: SolverLink, flow: number): { loss: number; gradient: number } {
+    if (link.closed) return { loss: CLOSED_RESISTANCE * flow, gradient: CLOSED_RESISTANCE };
+    const magnitude = Math.abs(flow);
+    const sign = flow < 0 ? -1 : 1;
+
+    if (link.kind === 'pump') {
+      const curve = link.curve!;
+      const delta = Math.max(1e-3, magnitude * 1e-3);
+      const gain = HydraulicCalculator.interpolatePumpCurve(curve, flow).head;
+      const slope = (HydraulicCalculator.interpolatePumpCurve(curve, flow + delta).head
+        - HydraulicCalculator.interpolatePumpCurve(curve, flow - delta).head) / (2 * delta);
+      return { loss: -gain, gradient: Math.max(MIN_GRADIENT, -slope) };
+    }
+
+    if (link.kind === 'emitter') {
+      const emitter = link.emitter!;
+      const count = emitter.count ?? 1;
+      const perEmitter = magnitude / count;
+      const x = emitter.exponent ?? 0.5;
+      let pressure: number;
+      let gradient: number;
+      if (emitter.compensation && perEmitter > emitter.compensation.nominalFlow) {
+        const { nominalFlow, regulatingPressure } = emitter.compensation;
+        pressure = regulatingPressure + (perEmitter / nominalFlow - 1) * COMPENSATION_SLOPE;
+        gradient = FEET_PER_PSI * COMPENSATION_SLOPE / (nominalFlow * count);
+      } else {
+        pressure = emitter.compensation
+          ? emitter.compensation.regulatingPressure * Math.pow(perEmitter / emitter.compensation.nominalFlow, 1 / x)
+          : Math.pow(perEmitter / emitter.coefficient!, 1 / x);
+        gradient = magnitude > 0 ? FEET_PER_PSI * pressure / (x * magnitude) : 0;
+      }
+      return { loss: sign * FEET_PER_PSI * pressure, gradient: Math.max(MIN_GRADIENT, gradient) };
+    }
+
+    const pipe = link.pipe!;
+    if (magnitude < 1e-9) return { loss: 0, gradient: MIN_GRADIENT };
+
+    let friction: number;
+    let frictionGradient: number;
+    if (this.options.headLoss === 'darcy-weisbach') {
+      const loss = (q: number) => HydraulicCalculator.alternativePressureLoss(q, pipe.diameter, pipe.length, pipe.material, this.options.temperature);
+      friction = loss(magnitude);
+      frictionGradient = (loss(magnitude * 1.001) - loss(magnitude * 0.999)) / (0.002 * magnitude);
+    } else {
+      friction = HydraulicCalculator.calculatePressureLoss(magnitude, pipe.diameter, pipe.length, pipe.material, pipe.cFactor);
+      frictionGradient = 1.852 * friction / magnitude;
+    }
+
+    const velocity = HydraulicCalculator.velocity(magnitude, pipe.diameter);
+    let minor = (pipe.minorLoss || 0) * velocity * velocity / (2 * 32.174);
+    for (const fitting of pipe.fittings || []) minor += HydraulicCalculator.fittingLoss(fitting, velocity);
+
+    return {
+      loss: sign * (friction + minor),
+      gradient: Math.max(MIN_GRADIENT, frictionGradient + 2 * minor / magnitude)
+    };
+  }
+
+  /**
+   * Check valves and pump check valves close on reverse flow and reopen
+   * once the head difference would drive flow forward
+   */
+  private updateStatus(heads: number[]): boolean {
+    let changed = false;
+    for (const link of this.links) {
+      if (link.locked) continue;
+      const rise = heads[link.to] - heads[link.from];
+      let closed = link.closed;
+      if (link.kind === 'pipe' && link.pipe!.status === 'cv') {
+        closed = link.closed ? rise >= 0 : link.flow < 0;
+      } else if (link.kind === 'pump') {
+        const shutoff = HydraulicCalculator.interpolatePumpCurve(link.curve!, 0).head;
+        closed = link.closed ? rise > shutoff : link.flow < 0;
+      }
+      if (closed !== link.closed) {
+        link.closed = closed;
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  private results(heads: number[], converged: boolean, iterations: number, relativeFlowChange: number): NetworkSolution {
+    const outflow = new Map<number, number>();
+    const emitters: EmitterResult[] = [];
+    const links: LinkResult[] = [];
+    const pumps: PumpOperatingPoint[] = [];
+
+    for (const link of this.links) {
+      if (link.kind === 'emitter') {
+        const count = link.emitter!.count ?? 1;
+        const pressure = (heads[link.from] - this.nodes[link.from].elevation) / FEET_PER_PSI;
+        const totalFlow = Math.max(0, link.flow);
+        outflow.set(link.from, (outflow.get(link.from) || 0) + totalFlow);
+        emitters.push({ id: link.id, node: this.nodes[link.from].id, pressure, flow: totalFlow / count, totalFlow });
+        continue;
+      }
+
+      const flow = link.closed ? 0 : link.flow;
+      links.push({
+        id: link.id,
+        type: link.kind,
+        flow,
+        velocity: link.kind === 'pipe' ? HydraulicCalculator.velocity(Math.abs(flow), link.pipe!.diameter) : 0,
+        headLoss: heads[link.from] - heads[link.to],
+        status: link.closed ? 'closed' : 'open'
+      });
+
+      if (link.kind === 'pump') {
+        const point = HydraulicCalculator.interpolatePumpCurve(link.curve!, flow);
+        pumps.push({
+          id: link.id,
+          flow,
+          head: heads[link.to] - heads[link.from],
+          efficiency: point.efficiency,
+          power: point.power,
+          npshRequired: point.npsh
+        });
+      }
+    }
+
+    // Emitter outlets follow the network's own nodes
+    const nodes: NodeResult[] = this.nodes
+      .slice(0, this.network.nodes.length)
+      .map((node, i) => ({
+        id: node.id,
+        head: heads[i],
+        pressure: (heads[i] - node.elevation) * 0.433,
+        demand: node.demand + (outflow.get(i) || 0)
+      }));
+
+    return {
+      converged,
+      iterations,
+      relativeFlowChange,
+      nodes,
+      links,
+      emitters,
+      pumps,
+      uniformity: this.uniformity(emitters)
+    };
+  }
+
+  private uniformity(emitters: EmitterResult[]): NetworkUniformity | null {
+    const definitions = this.network.emitters || [];
+    if (emitters.length === 0) return null;
+
+    const flows: number[] = [];
+    let cvTotal = 0;
+    emitters.forEach((result, i) => {
+      const count = definitions[i].count ?? 1;
+      for (let k = 0; k < count; k++) flows.push(result.flow);
+      cvTotal += (definitions[i].manufacturerCv || 0) * count;
+    });
+
+    const { distributionUniformity, coefficientOfVariation } = calculateDistributionUniformity(flows);
+    const averageFlow = flows.reduce((sum, flow) => sum + flow, 0) / flows.length;
+    const minimumFlow = Math.min(...flows);
+    const manufacturerCv = cvTotal / flows.length;
+    const emissionUniformity = averageFlow > 0
+      ? 100 * (1 - 1.27 * manufacturerCv / Math.sqrt(this.options.emittersPerPlant)) * (minimumFlow / averageFlow)
+      : 0;
+
+    return {
+      distributionUniformity,
+      emissionUniformity,
+      coefficientOfVariation,
+      minimumFlow,
+      averageFlow,
+      emitterCount: flows.length
+    };
+  }
+}
+
+/**
+ * Flow of one emitter at a pressure (psi)
+ */
+export function emitterFlow(emitter: NetworkEmitter, pressure: number): number {
+  if (pressure <= 0) return 0;
+  const x = emitter.exponent ?? 0.5;
+  if (emitter.compensation) {
+    const { nominalFlow, regulatingPressure } = emitter.compensation;
+    return pressure >= regulatingPressure
+      ? nominalFlow * (1 + (pressure - regulatingPressure) / COMPENSATION_SLOPE)
+      : nominalFlow * Math.pow(pressure / regulatingPressure, x);
+  }
+  return emitter.coefficient! * Math.pow(pressure, x);
+}
+
+export function solvePipeNetwork(network: PipeNetwork, options: NetworkSolverOptions = {}): NetworkSolution {
+  return new PipeNetworkSolver(network, options).solve();
+}
+
+/**
+ * Cholesky factorisation of the symmetric positive-definite head matrix
+ */
+function choleskySolve(matrix: Float64Array, rhs: Float64Array, n: number): Float64Array {
+  const lower = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i * n + j];
+      for (let k = 0; k < j; k++) sum -= lower[i * n + k] * lower[j * n + k];
+      if (i === j) {
+        if (sum <= 0) throw new Error('Pipe network matrix is singular; check for junctions without a supply path');
+        lower[i * n + i] = Math.sqrt(sum);
+      } else {
+        lower[i * n + j] = sum / lower[j * n + j];
+      }
+    }
+  }
+
+  const y = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = rhs[i];
+    for (let k = 0; k < i; k++) sum -= lower[i * n + k] * y[k];
+    y[i] = sum / lower[i * n + i];
+  }
+  const x = new Float64Array(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= lower[k * n + i] * x[k];
+    x[i] = sum / lower[i * n + i];
+  }
+  return x;
+}
@@ -271,9 +271,9 @@ export class FarquharPhotosynthesisModel {
 
   // CO2 compensation point calculation
   private calculateCO2CompensationPoint(leafTemp: number): number {
-    // Γ* = 0.5 * O2 / (2600 * exp(-1750 / (T - 10)))
+    // Γ* = 42.75 * exp(37830 * (T - 298) / (298 * R * T)) (Bernacchi et al. 2001)
     const tempK = leafTemp + this.kelvinOffset;
-    return 0.5 * 210000 / (2600 * Math.exp(-1750 / (tempK - 10)));
+    return 42.75 * Math.exp(37830 * (tempK - 298.15) / (298.15 * this.gasConstant * tempK));
   }
 
   // Electron transport rate calculation
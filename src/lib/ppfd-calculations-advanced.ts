@@ -4,6 +4,7 @@
  */
 
 import type { ParsedIESFile } from './ies-parser';
+import { calculatePPFD } from './ppfd-calculations';
 
 export interface AdvancedFixtureData {
   x: number; // position in meters
@@ -39,6 +40,9 @@ function calculatePPFDFromDistributedFixture(
   canopyHeight: number
 ): number {
   if (!fixture.enabled) return 0;
+  if (fixture.iesData) {
+    return calculatePPFD(toPhotometricFixture(fixture, fixture.iesData), pointX, pointY, canopyHeight);
+  }
 
   // For linear fixtures, sample along the length
   const samples = fixture.length && fixture.length > 0.5 ? Math.ceil(fixture.length * 10) : 1;
@@ -67,21 +71,13 @@ function calculatePPFDFromDistributedFixture(
     
     // Apply beam angle falloff
     let intensityFactor = 1;
-    
-    if (fixture.iesData) {
-      // Use IES photometric data if available
-      const maxCandela = fixture.iesData.photometry?.maxCandela || 1;
-      intensityFactor = getIESIntensity(fixture.iesData, angle, 0) / maxCandela;
-    } else {
-      // Use simple beam angle model
-      const halfBeamAngle = fixture.beamAngle / 2;
-      if (angle > halfBeamAngle) {
-        const falloffAngle = halfBeamAngle * 1.5;
-        if (angle < falloffAngle) {
-          intensityFactor = 1 - (angle - halfBeamAngle) / (falloffAngle - halfBeamAngle);
-        } else {
-          intensityFactor = 0;
-        }
+    const halfBeamAngle = fixture.beamAngle / 2;
+    if (angle > halfBeamAngle) {
+      const falloffAngle = halfBeamAngle * 1.5;
+      if (angle < falloffAngle) {
+        intensityFactor = 1 - (angle - halfBeamAngle) / (falloffAngle - halfBeamAngle);
+      } else {
+        intensityFactor = 0;
       }
     }
     
@@ -100,69 +96,21 @@ function calculatePPFDFromDistributedFixture(
 }
 
 /**
- * Get intensity from IES data at specific angles
+ * Measured photometry describes the whole luminaire, so it is evaluated as one
+ * Type C source. The distribution is normalised by its own flux, which would
+ * cancel the lamp tilt loss, so the applied TILT multiplier scales the PPF instead.
  */
-function getIESIntensity(iesData: ParsedIESFile, verticalAngle: number, horizontalAngle: number): number {
-  const photometry = iesData.photometry;
-
-  const vAngles = photometry.verticalAngles;
-  const hAngles = photometry.horizontalAngles;
-
-  // Clamp vertical angle to range
-  const vMin = vAngles[0];
-  const vMax = vAngles[vAngles.length - 1];
-  const v = Math.max(vMin, Math.min(vMax, verticalAngle));
-
-  // Wrap horizontal angle to [0, 360]
-  let h = horizontalAngle;
-  while (h < 0) h += 360;
-  while (h > 360) h -= 360;
-
-  // Find bracketing indices for vertical
-  let vLow = 0;
-  let vHigh = vAngles.length - 1;
-  for (let i = 0; i < vAngles.length - 1; i++) {
-    if (vAngles[i] <= v && v <= vAngles[i + 1]) {
-      vLow = i;
-      vHigh = i + 1;
-      break;
-    }
-  }
-  const vRange = vAngles[vHigh] - vAngles[vLow] || 1;
-  const vT = (v - vAngles[vLow]) / vRange;
-
-  // Find bracketing indices for horizontal (account for wrap at 360)
-  let hLow = 0;
-  let hHigh = 0;
-  for (let i = 0; i < hAngles.length - 1; i++) {
-    if (hAngles[i] <= h && h <= hAngles[i + 1]) {
-      hLow = i;
-      hHigh = i + 1;
-      break;
-    }
-  }
-  // If not found (e.g., near 360), wrap to 0
-  if (hHigh === 0 && h >= hAngles[hAngles.length - 1]) {
-    hLow = hAngles.length - 1;
-    hHigh = 0; // wrap to 0 degrees
-  }
-  const hLowAngle = hAngles[hLow];
-  const hHighAngle = hHigh === 0 && hLow === hAngles.length - 1 ? 360 : hAngles[hHigh];
-  const hRange = (hHighAngle - hLowAngle) || 1;
-  const hT = (h - hLowAngle) / hRange;
-
-  // Sample four surrounding candela values with wrapping
-  const c00 = photometry.candela[hLow][vLow];
-  const c01 = photometry.candela[hLow][vHigh];
-  const c10 = photometry.candela[hHigh === photometry.candela.length ? 0 : hHigh][vLow];
-  const c11 = photometry.candela[hHigh === photometry.candela.length ? 0 : hHigh][vHigh];
-
-  // Bilinear interpolation
-  const c0 = c00 + (c01 - c00) * vT;
-  const c1 = c10 + (c11 - c10) * vT;
-  const c = c0 + (c1 - c0) * hT;
-
-  return c;
+function toPhotometricFixture(fixture: AdvancedFixtureData, iesData: ParsedIESFile) {
+  return {
+    x: fixture.x,
+    y: fixture.y,
+    z: fixture.z,
+    ppf: fixture.ppf * (iesData.metadata.tilt?.appliedMultiplier ?? 1),
+    beamAngle: fixture.beamAngle,
+    enabled: fixture.enabled,
+    rotation: fixture.rotation,
+    photometry: iesData.photometry
+  };
 }
 
 /**
@@ -3,6 +3,8 @@
  * Based on inverse square law and fixture specifications
  */
 
+import { createTypeCLookup, integrateTypeCFlux } from './photometric/photometric-geometry';
+
 export interface PPFDPoint {
   x: number;
   y: number;
@@ -21,8 +23,23 @@ export interface FixtureData {
     wavelengths: number[]; // nm
     intensities: number[]; // relative intensity 0-1
   };
+  // Optional Type C candela distribution (e.g. ParsedIESFile.photometry); replaces the beam-angle model
+  photometry?: FixturePhotometry;
+  rotation?: number; // degrees between the C0 plane and the room x axis
+}
+
+export interface FixturePhotometry {
+  horizontalAngles: number[];
+  verticalAngles: number[];
+  candela: number[][]; // [horizontal][vertical], Type C
 }
 
+// Lookups and integrated flux are reused across grid points for the same photometry object
+const photometryCache = new WeakMap<FixturePhotometry, {
+  candelaAt: (c: number, gamma: number) => number;
+  flux: number;
+}>();
+
 /**
  * Calculate PPFD at a specific point from a single fixture
  * Using inverse square law with beam angle consideration
@@ -54,6 +71,9 @@ function calculatePPFDFromFixture(
   canopyHeight: number
 ): number {
   if (!fixture.enabled) return 0;
+  if (fixture.photometry) {
+    return calculatePhotometricPPFD(fixture, fixture.photometry, pointX, pointY, canopyHeight);
+  }
 
   // Calculate distance from fixture to point
   const dx = fixture.x - pointX;
@@ -101,6 +121,41 @@ function calculatePPFDFromFixture(
   return Math.max(0, ppfd);
 }
 
+/**
+ * PPFD from a measured Type C distribution: the fixture PPF is spread in
+ * proportion to candela, then projected onto the horizontal canopy plane
+ */
+function calculatePhotometricPPFD(
+  fixture: FixtureData,
+  photometry: FixturePhotometry,
+  pointX: number,
+  pointY: number,
+  canopyHeight: number
+): number {
+  const dx = pointX - fixture.x;
+  const dy = pointY - fixture.y;
+  const dz = fixture.z - canopyHeight;
+  if (dz <= 0) return 0;
+
+  let cached = photometryCache.get(photometry);
+  if (!cached) {
+    const candelaAt = createTypeCLookup(photometry.horizontalAngles, photometry.verticalAngles, photometry.candela);
+    cached = { candelaAt, flux: integrateTypeCFlux(candelaAt, photometry.verticalAngles) };
+    photometryCache.set(photometry, cached);
+  }
+  if (cached.flux <= 0) return 0;
+
+  const horizontalDistance = Math.sqrt(dx * dx + dy * dy);
+  const distanceSquared = horizontalDistance * horizontalDistance + dz * dz;
+  const gamma = Math.atan2(horizontalDistance, dz) * (180 / Math.PI);
+  const c = Math.atan2(dy, dx) * (180 / Math.PI) - (fixture.rotation ?? 0);
+
+  // Photon intensity (μmol/s/sr) × cos(incidence) / d²
+  const photonIntensity = fixture.ppf * cached.candelaAt(c, gamma) / cached.flux;
+  const cosIncidence = dz / Math.sqrt(distanceSquared);
+  return Math.max(0, photonIntensity * cosIncidence / distanceSquared);
+}
+
 /**
  * Calculate PPFD grid for a room with multiple fixtures
  */
@@ -0,0 +1,654 @@
+/**
+ * DALI-2 Controller
+ * Commissions and drives the control gear on one DALI line behind a
+ * gateway: random address search, groups and scenes, arc power, status
+ * and failure polling, and part 252/253 energy and diagnostics data.
+ * Devices are kept in the same lighting device registry as HLP fixtures.
+ */
+
+import { EventEmitter } from 'events';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logging/production-logger';
+import {
+  arcPowerFrame,
+  commandFrame,
+  decodeStatus,
+  percentToArcPower,
+  requiresSendTwice,
+  shortAddress,
+  shortAddressData,
+  specialFrame
+} from './frames';
+import {
+  CONTROL_GEAR_DIAGNOSTIC_FIELDS,
+  DALIDiagnostics,
+  DALIEnergyReport,
+  ENERGY_FIELDS,
+  IDENTITY_FIELDS,
+  LIGHT_SOURCE_DIAGNOSTIC_FIELDS,
+  MEMORY_BANK,
+  MemoryField,
+  decodeMemoryField,
+  decodeMemoryString,
+  lastLocation
+} from './memory-banks';
+import {
+  DALI_DEVICE_TYPE,
+  DALI_MASK,
+  DALI_MAX_GROUP,
+  DALI_MAX_SCENE,
+  DALI_MAX_SHORT_ADDRESS,
+  DALICommand,
+  DALIControllerConfig,
+  DALIDevice,
+  DALIGateway,
+  DALIReply,
+  DALISpecialCommand,
+  DALIStatus,
+  DALITarget,
+  DEFAULT_DALI_CONTROLLER_CONFIG
+} from './types';
+
+export type DALICommissioningMode = 'unaddressed' | 'all';
+
+export class DALIController extends EventEmitter {
+  private gateway: DALIGateway;
+  private config: DALIControllerConfig;
+  private devices: Map<number, DALIDevice> = new Map();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private searchAddress: number[] | null = null; // Last H/M/L bytes sent
+
+  constructor(gateway: DALIGateway, config: Partial<DALIControllerConfig> = {}) {
+    super();
+    this.gateway = gateway;
+    this.config = { ...DEFAULT_DALI_CONTROLLER_CONFIG, ...config };
+  }
+
+  /**
+   * Connect, scan the line and start status polling
+   */
+  async start(): Promise<DALIDevice[]> {
+    await this.gateway.connect?.();
+    const devices = await this.scan();
+
+    if (this.config.pollInterval > 0 && !this.pollTimer) {
+      this.pollTimer = setInterval(() => {
+        this.pollStatus().catch(error => logger.error('DALI status poll failed:', error));
+      }, this.config.pollInterval);
+    }
+    return devices;
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    await this.gateway.close?.();
+  }
+
+  getDevices(): DALIDevice[] {
+    return Array.from(this.devices.values()).sort((a, b) => a.shortAddress - b.shortAddress);
+  }
+
+  getDevice(address: number): DALIDevice | undefined {
+    return this.devices.get(address);
+  }
+
+  /**
+   * Random address search. 'unaddressed' only picks up new gear and keeps
+   * existing short addresses; 'all' re-addresses the whole line from 0.
+   */
+  async commission(mode: DALICommissioningMode = 'unaddressed'): Promise<DALIDevice[]> {
+    const used = new Set<number>();
+    if (mode === 'all') {
+      this.devices.clear();
+    } else {
+      for (let address = 0; address <= DALI_MAX_SHORT_ADDRESS; address++) {
+        if (await this.isPresent(address)) used.add(address);
+      }
+    }
+
+    const assigned: number[] = [];
+    await this.special(DALISpecialCommand.TERMINATE);
+    await this.special(DALISpecialCommand.INITIALISE, mode === 'all' ? 0x00 : 0xff, true);
+    await this.special(DALISpecialCommand.RANDOMISE, 0, true);
+    if (this.config.randomiseDelay > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.config.randomiseDelay));
+    }
+    this.searchAddress = null;
+
+    try {
+      while (await this.compare(0xffffff)) {
+        const randomAddress = await this.findLowestRandomAddress();
+
+        let address = 0;
+        while (used.has(address)) address++;
+        if (address > DALI_MAX_SHORT_ADDRESS) {
+          throw new Error(`DALI line ${this.config.line} already has 64 addressed control gear`);
+        }
+
+        await this.setSearchAddress(randomAddress);
+        await this.special(DALISpecialCommand.PROGRAM_SHORT_ADDRESS, shortAddressData(address));
+        const verify = await this.special(DALISpecialCommand.VERIFY_SHORT_ADDRESS, shortAddressData(address), false, true);
+        if (verify.kind === 'none') {
+          throw new Error(`DALI gear at random address 0x${randomAddress.toString(16)} did not accept short address ${address}`);
+        }
+
+        await this.special(DALISpecialCommand.WITHDRAW);
+        used.add(address);
+        assigned.push(address);
+        logger.info('api', `DALI gear 0x${randomAddress.toString(16).padStart(6, '0')} assigned short address ${address}`);
+      }
+    } finally {
+      await this.special(DALISpecialCommand.TERMINATE);
+    }
+
+    const devices: DALIDevice[] = [];
+    for (const address of assigned) {
+      const device = await this.identify(address);
+      if (device) {
+        devices.push(device);
+        this.emit('deviceCommissioned', device);
+      }
+    }
+    await this.syncRegistry();
+    return devices;
+  }
+
+  /**
+   * Find every addressed control gear on the line and read its identity
+   */
+  async scan(): Promise<DALIDevice[]> {
+    const found = new Set<number>();
+    for (let address = 0; address <= DALI_MAX_SHORT_ADDRESS; address++) {
+      if (!(await this.isPresent(address))) continue;
+      found.add(address);
+      await this.identify(address);
+    }
+
+    for (const address of Array.from(this.devices.keys())) {
+      if (!found.has(address)) this.devices.delete(address);
+    }
+    await this.syncRegistry();
+    return this.getDevices();
+  }
+
+  // Arc power and recall commands
+
+  /**
+   * Direct arc power, 0-254 on the gear's dimming curve
+   */
+  async setArcPower(target: DALITarget, level: number): Promise<void> {
+    await this.gateway.send(arcPowerFrame(target, level));
+  }
+
+  /**
+   * Light output in percent, converted on the standard logarithmic curve
+   */
+  async setLevel(target: DALITarget, percent: number): Promise<void> {
+    await this.setArcPower(target, percentToArcPower(percent));
+  }
+
+  async switchOff(target: DALITarget): Promise<void> {
+    await this.command(target, DALICommand.OFF);
+  }
+
+  async recallMax(target: DALITarget): Promise<void> {
+    await this.command(target, DALICommand.RECALL_MAX_LEVEL);
+  }
+
+  async recallMin(target: DALITarget): Promise<void> {
+    await this.command(target, DALICommand.RECALL_MIN_LEVEL);
+  }
+
+  async goToScene(target: DALITarget, scene: number): Promise<void> {
+    await this.command(target, DALICommand.GO_TO_SCENE + this.checkScene(scene));
+  }
+
+  // Groups and scenes
+
+  async addToGroup(target: DALITarget, group: number): Promise<void> {
+    await this.command(target, DALICommand.ADD_TO_GROUP + this.checkGroup(group));
+    this.updateGroups(target, group, true);
+  }
+
+  async removeFromGroup(target: DALITarget, group: number): Promise<void> {
+    await this.command(target, DALICommand.REMOVE_FROM_GROUP + this.checkGroup(group));
+    this.updateGroups(target, group, false);
+  }
+
+  async queryGroups(address: number): Promise<number[] | null> {
+    const low = await this.query(address, DALICommand.QUERY_GROUPS_0_7);
+    const high = await this.query(address, DALICommand.QUERY_GROUPS_8_15);
+    if (low === null || high === null) return null;
+
+    const mask = (high << 8) | low;
+    const groups: number[] = [];
+    for (let group = 0; group <= DALI_MAX_GROUP; group++) {
+      if (mask & (1 << group)) groups.push(group);
+    }
+    return groups;
+  }
+
+  /**
+   * Store an arc power level (0-254) as a scene
+   */
+  async setSceneLevel(target: DALITarget, scene: number, level: number): Promise<void> {
+    await this.configure(target, DALICommand.SET_SCENE + this.checkScene(scene), level);
+  }
+
+  async removeFromScene(target: DALITarget, scene: number): Promise<void> {
+    await this.command(target, DALICommand.REMOVE_FROM_SCENE + this.checkScene(scene));
+  }
+
+  /**
+   * Stored scene level, or null when the gear is not part of the scene
+   */
+  async querySceneLevel(address: number, scene: number): Promise<number | null> {
+    const level = await this.query(address, DALICommand.QUERY_SCENE_LEVEL + this.checkScene(scene));
+    return level === null || level === DALI_MASK ? null : level;
+  }
+
+  async setFadeTime(target: DALITarget, fadeTime: number): Promise<void> {
+    await this.configure(target, DALICommand.SET_FADE_TIME, Math.max(0, Math.min(15, Math.round(fadeTime))));
+  }
+
+  async setMinLevel(target: DALITarget, level: number): Promise<void> {
+    await this.configure(target, DALICommand.SET_MIN_LEVEL, level);
+  }
+
+  async setMaxLevel(target: DALITarget, level: number): Promise<void> {
+    await this.configure(target, DALICommand.SET_MAX_LEVEL, level);
+  }
+
+  async setPowerOnLevel(target: DALITarget, level: number): Promise<void> {
+    await this.configure(target, DALICommand.SET_POWER_ON_LEVEL, level);
+  }
+
+  /**
+   * Level the gear goes to when the DALI bus loses power
+   */
+  async setSystemFailureLevel(target: DALITarget, level: number): Promise<void> {
+    await this.configure(target, DALICommand.SET_SYSTEM_FAILURE_LEVEL, level);
+  }
+
+  // Status and failures
+
+  async queryStatus(address: number): Promise<DALIStatus | null> {
+    const value = await this.query(address, DALICommand.QUERY_STATUS);
+    return value === null ? null : decodeStatus(value);
+  }
+
+  async queryActualLevel(address: number): Promise<number | null> {
+    const level = await this.query(address, DALICommand.QUERY_ACTUAL_LEVEL);
+    return level === DALI_MASK ? null : level;
+  }
+
+  /**
+   * Poll every known device, raising failure, recovery and offline events
+   * on transitions and keeping the registry status current
+   */
+  async pollStatus(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const device of this.getDevices()) {
+        const status = await this.queryStatus(device.shortAddress);
+        const previous = device.status;
+
+        if (!status) {
+          device.status = 'offline';
+          if (previous !== 'offline') this.emit('deviceOffline', device);
+        } else {
+          const wasFailing = device.lastStatus ? this.failures(device.lastStatus).length > 0 : false;
+          const failures = this.failures(status);
+          device.lastStatus = status;
+          device.actualLevel = (await this.queryActualLevel(device.shortAddress)) ?? undefined;
+          device.lastSeen = new Date();
+          device.status = failures.length > 0 ? 'error' : 'online';
+
+          if (failures.length > 0 && !wasFailing) {
+            this.emit('deviceFailure', { device, failures });
+          } else if (failures.length === 0 && (wasFailing || previous === 'offline')) {
+            this.emit('deviceRecovered', device);
+          }
+        }
+
+        this.emit('deviceStatus', device);
+        await this.updateRegistryStatus(device);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Memory banks: identity, part 252 energy, part 253 diagnostics
+
+  /**
+   * Read a memory bank from location 0 up to `upTo` (or the bank's last
+   * accessible location). Returns null when the bank is not implemented.
+   */
+  async readMemoryBank(address: number, bank: number, upTo?: number): Promise<Array<number | null> | null> {
+    await this.special(DALISpecialCommand.DTR1, bank);
+    await this.special(DALISpecialCommand.DTR0, 0);
+
+    const last = await this.query(address, DALICommand.READ_MEMORY_LOCATION);
+    if (last === null) return null;
+
+    const end = Math.min(last, upTo ?? last);
+    const bytes: Array<number | null> = [last];
+    for (let location = 1; location <= end; location++) {
+      const value = await this.query(address, DALICommand.READ_MEMORY_LOCATION);
+      bytes.push(value);
+      // DTR0 only advances on readable locations
+      if (value === null) await this.special(DALISpecialCommand.DTR0, location + 1);
+    }
+    return bytes;
+  }
+
+  /**
+   * Part 252 energy reporting. Null when the gear does not support it.
+   */
+  async readEnergy(address: number): Promise<DALIEnergyReport | null> {
+    const device = this.devices.get(address);
+    if (device && !device.energyReporting) return null;
+
+    const read = async (bank: number) => {
+      const bytes = await this.readMemoryBank(address, bank, lastLocation(ENERGY_FIELDS));
+      return {
+        energy: bytes ? decodeMemoryField(bytes, ENERGY_FIELDS.energy) : null,
+        power: bytes ? decodeMemoryField(bytes, ENERGY_FIELDS.power) : null
+      };
+    };
+
+    const active = await read(MEMORY_BANK.ACTIVE_ENERGY);
+    const apparent = await read(MEMORY_BANK.APPARENT_ENERGY);
+    const loadside = await read(MEMORY_BANK.LOADSIDE_ENERGY);
+    if (active.energy === null && active.power === null) return null;
+
+    return {
+      activeEnergy: active.energy === null ? null : active.energy / 1000,
+      activePower: active.power,
+      apparentEnergy: apparent.energy === null ? null : apparent.energy / 1000,
+      apparentPower: apparent.power,
+      loadsideEnergy: loadside.energy === null ? null : loadside.energy / 1000,
+      loadsidePower: loadside.power
+    };
+  }
+
+  /**
+   * Part 253 diagnostics & maintenance. Null when the gear does not support it.
+   */
+  async readDiagnostics(address: number): Promise<DALIDiagnostics | null> {
+    const device = this.devices.get(address);
+    if (device && !device.diagnostics) return null;
+
+    const decode = (bytes: Array<number | null> | null, fields: Record<string, MemoryField>) =>
+      Object.fromEntries(Object.entries(fields).map(([name, field]) => [name, bytes ? decodeMemoryField(bytes, field) : null]));
+
+    const controlGear = await this.readMemoryBank(address, MEMORY_BANK.CONTROL_GEAR_DIAGNOSTICS, lastLocation(CONTROL_GEAR_DIAGNOSTIC_FIELDS));
+    const lightSource = await this.readMemoryBank(address, MEMORY_BANK.LIGHT_SOURCE_DIAGNOSTICS, lastLocation(LIGHT_SOURCE_DIAGNOSTIC_FIELDS));
+    if (!controlGear && !lightSource) return null;
+
+    return {
+      controlGear: decode(controlGear, CONTROL_GEAR_DIAGNOSTIC_FIELDS),
+      lightSource: decode(lightSource, LIGHT_SOURCE_DIAGNOSTIC_FIELDS)
+    };
+  }
+
+  /**
+   * Write the line's devices to the lighting device registry
+   */
+  async syncRegistry(): Promise<void> {
+    if (!this.config.persistToRegistry) return;
+
+    for (const device of this.getDevices()) {
+      const data = {
+        zoneId: this.config.zoneId,
+        facilityId: this.config.facilityId,
+        protocol: 'DALI',
+        manufacturer: 'Unknown',
+        model: device.gtin ? `GTIN ${device.gtin}` : 'DALI control gear',
+        serialNumber: device.identificationNumber,
+        ipAddress: this.config.ipAddress,
+        port: this.config.port,
+        status: device.status,
+        lastSeen: device.lastSeen,
+        capabilities: {
+          deviceTypes: device.deviceTypes,
+          supportsDimming: true,
+          supportsGrouping: true,
+          maxGroups: DALI_MAX_GROUP + 1,
+          maxScenes: DALI_MAX_SCENE + 1,
+          energyReporting: device.energyReporting,
+          diagnostics: device.diagnostics
+        },
+        metadata: this.registryMetadata(device)
+      };
+
+      try {
+        await prisma.lightingDevice.upsert({
+          where: { deviceId: device.id },
+          create: { deviceId: device.id, ...data },
+          update: data
+        });
+      } catch (error) {
+        logger.error(`Error registering DALI device ${device.id}:`, error);
+      }
+    }
+  }
+
+  private async updateRegistryStatus(device: DALIDevice): Promise<void> {
+    if (!this.config.persistToRegistry) return;
+
+    try {
+      await prisma.lightingDevice.update({
+        where: { deviceId: device.id },
+        data: {
+          status: device.status,
+          ...(device.lastSeen && { lastSeen: device.lastSeen }),
+          metadata: this.registryMetadata(device)
+        }
+      });
+    } catch (error) {
+      logger.error(`Error updating DALI device ${device.id}:`, error);
+    }
+  }
+
+  private registryMetadata(device: DALIDevice): Record<string, unknown> {
+    return {
+      gatewayId: this.config.gatewayId,
+      line: this.config.line,
+      shortAddress: device.shortAddress,
+      randomAddress: device.randomAddress,
+      groups: device.groups,
+      firmwareVersion: device.firmwareVersion,
+      actualLevel: device.actualLevel,
+      failures: device.lastStatus ? this.failures(device.lastStatus) : []
+    };
+  }
+
+  /**
+   * Read identity data for one address and record the device
+   */
+  private async identify(address: number): Promise<DALIDevice | null> {
+    const status = await this.queryStatus(address);
+    if (!status) return null;
+
+    const deviceTypes = await this.queryDeviceTypes(address);
+    const randomBytes = [
+      await this.query(address, DALICommand.QUERY_RANDOM_ADDRESS_H),
+      await this.query(address, DALICommand.QUERY_RANDOM_ADDRESS_M),
+      await this.query(address, DALICommand.QUERY_RANDOM_ADDRESS_L)
+    ];
+    const identity = await this.readMemoryBank(address, MEMORY_BANK.IDENTITY, lastLocation(IDENTITY_FIELDS));
+    const gtin = identity ? decodeMemoryField(identity, IDENTITY_FIELDS.gtin) : null;
+    const firmware = identity ? [identity[IDENTITY_FIELDS.firmwareVersion.offset], identity[IDENTITY_FIELDS.firmwareVersion.offset + 1]] : [];
+    const identificationNumber = identity ? decodeMemoryString(identity, IDENTITY_FIELDS.identificationNumber) : undefined;
+    const failures = this.failures(status);
+
+    const device: DALIDevice = {
+      id: gtin !== null && identificationNumber
+        ? `dali-${gtin}-${identificationNumber}`
+        : `dali-${this.config.gatewayId}-${this.config.line}-${address}`,
+      shortAddress: address,
+      randomAddress: randomBytes.every(byte => byte !== null)
+        ? ((randomBytes[0]! << 16) | (randomBytes[1]! << 8) | randomBytes[2]!)
+        : undefined,
+      deviceTypes,
+      version: (await this.query(address, DALICommand.QUERY_VERSION_NUMBER)) ?? undefined,
+      gtin: gtin !== null ? String(gtin) : undefined,
+      identificationNumber,
+      firmwareVersion: firmware.every(byte => typeof byte === 'number' && byte !== DALI_MASK)
+        ? `${firmware[0]}.${firmware[1]}`
+        : undefined,
+      groups: (await this.queryGroups(address)) || [],
+      physicalMinimum: (await this.query(address, DALICommand.QUERY_PHYSICAL_MINIMUM)) ?? undefined,
+      energyReporting: deviceTypes.includes(DALI_DEVICE_TYPE.ENERGY_REPORTING),
+      diagnostics: deviceTypes.includes(DALI_DEVICE_TYPE.DIAGNOSTICS),
+      status: failures.length > 0 ? 'error' : 'online',
+      lastStatus: status,
+      actualLevel: (await this.queryActualLevel(address)) ?? undefined,
+      lastSeen: new Date()
+    };
+
+    this.devices.set(address, device);
+    return device;
+  }
+
+  /**
+   * Gear with several device types answers MASK and lists them through
+   * QUERY NEXT DEVICE TYPE, terminated by 254
+   */
+  private async queryDeviceTypes(address: number): Promise<number[]> {
+    const first = await this.query(address, DALICommand.QUERY_DEVICE_TYPE);
+    if (first === null) return [];
+    if (first !== DALI_MASK) return [first];
+
+    const types: number[] = [];
+    for (let i = 0; i < 32; i++) {
+      const next = await this.query(address, DALICommand.QUERY_NEXT_DEVICE_TYPE);
+      if (next === null || next === 254) break;
+      types.push(next);
+    }
+    return types;
+  }
+
+  private failures(status: DALIStatus): string[] {
+    const failures: string[] = [];
+    if (status.controlGearFailure) failures.push('controlGearFailure');
+    if (status.lampFailure) failures.push('lampFailure');
+    if (status.limitError) failures.push('limitError');
+    return failures;
+  }
+
+  private async isPresent(address: number): Promise<boolean> {
+    const reply = await this.gateway.send(
+      commandFrame(shortAddress(address), DALICommand.QUERY_CONTROL_GEAR_PRESENT),
+      { expectReply: true }
+    );
+    if (reply.kind === 'collision') {
+      logger.warn('api', `DALI short address ${address} is used by more than one control gear`);
+    }
+    return reply.kind !== 'none';
+  }
+
+  /**
+   * Binary search for the lowest random address still taking part
+   */
+  private async findLowestRandomAddress(): Promise<number> {
+    let low = 0;
+    let high = 0xffffff;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (await this.compare(middle)) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return low;
+  }
+
+  private async compare(searchAddress: number): Promise<boolean> {
+    await this.setSearchAddress(searchAddress);
+    const reply = await this.special(DALISpecialCommand.COMPARE, 0, false, true);
+    return reply.kind !== 'none';
+  }
+
+  private async setSearchAddress(searchAddress: number): Promise<void> {
+    const bytes = [(searchAddress >> 16) & 0xff, (searchAddress >> 8) & 0xff, searchAddress & 0xff];
+    const commands = [DALISpecialCommand.SEARCHADDRH, DALISpecialCommand.SEARCHADDRM, DALISpecialCommand.SEARCHADDRL];
+    for (let i = 0; i < 3; i++) {
+      if (this.searchAddress && this.searchAddress[i] === bytes[i]) continue;
+      await this.special(commands[i], bytes[i]);
+    }
+    this.searchAddress = bytes;
+  }
+
+  private async special(
+    command: DALISpecialCommand,
+    data: number = 0,
+    sendTwice: boolean = false,
+    expectReply: boolean = false
+  ): Promise<DALIReply> {
+    return this.gateway.send(specialFrame(command, data), { sendTwice, expectReply });
+  }
+
+  private async command(target: DALITarget, command: number): Promise<void> {
+    await this.gateway.send(commandFrame(target, command), { sendTwice: requiresSendTwice(command) });
+  }
+
+  /**
+   * Configuration command taking its value from DTR0
+   */
+  private async configure(target: DALITarget, command: number, value: number): Promise<void> {
+    await this.special(DALISpecialCommand.DTR0, value);
+    await this.command(target, command);
+  }
+
+  /**
+   * Query one short address. Collisions mean a duplicate address and are
+   * reported as no answer.
+   */
+  private async query(address: number, command: number): Promise<number | null> {
+    const reply = await this.gateway.send(commandFrame(shortAddress(address), command), { expectReply: true });
+    if (reply.kind === 'answer') return reply.value;
+    if (reply.kind === 'collision') {
+      logger.warn('api', `DALI collision answering 0x${command.toString(16)} at short address ${address}`);
+    }
+    return null;
+  }
+
+  private updateGroups(target: DALITarget, group: number, member: boolean): void {
+    const affected = target.type === 'short'
+      ? [this.devices.get(target.address)]
+      : target.type === 'group'
+        ? this.getDevices().filter(device => device.groups.includes(target.group))
+        : target.type === 'broadcast' ? this.getDevices() : [];
+
+    affected.forEach(device => {
+      if (!device) return;
+      device.groups = member
+        ? Array.from(new Set([...device.groups, group])).sort((a, b) => a - b)
+        : device.groups.filter(existing => existing !== group);
+    });
+  }
+
+  private checkGroup(group: number): number {
+    if (!Number.isInteger(group) || group < 0 || group > DALI_MAX_GROUP) {
+      throw new Error(`DALI group ${group} is outside 0-${DALI_MAX_GROUP}`);
+    }
+    return group;
+  }
+
+  private checkScene(scene: number): number {
+    if (!Number.isInteger(scene) || scene < 0 || scene > DALI_MAX_SCENE) {
+      throw new Error(`DALI scene ${scene} is outside 0-${DALI_MAX_SCENE}`);
+    }
+    return scene;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * DALI Frame Encoding
+ * Address bytes, the IEC 62386-102 logarithmic dimming curve and status
+ * byte decoding
+ */
+
+import {
+  DALI_MAX_GROUP,
+  DALI_MAX_SHORT_ADDRESS,
+  DALICommand,
+  DALIForwardFrame,
+  DALISpecialCommand,
+  DALIStatus,
+  DALITarget
+} from './types';
+
+export function shortAddress(address: number): DALITarget {
+  return { type: 'short', address };
+}
+
+export function groupAddress(group: number): DALITarget {
+  return { type: 'group', group };
+}
+
+export const BROADCAST: DALITarget = { type: 'broadcast' };
+
+/**
+ * Address byte for a target. The selector bit (LSB) is clear for direct arc
+ * power control and set for commands.
+ */
+export function addressByte(target: DALITarget, command: boolean): number {
+  const selector = command ? 1 : 0;
+  switch (target.type) {
+    case 'short':
+      if (!Number.isInteger(target.address) || target.address < 0 || target.address > DALI_MAX_SHORT_ADDRESS) {
+        throw new Error(`DALI short address ${target.address} is outside 0-${DALI_MAX_SHORT_ADDRESS}`);
+      }
+      return (target.address << 1) | selector;
+    case 'group':
+      if (!Number.isInteger(target.group) || target.group < 0 || target.group > DALI_MAX_GROUP) {
+        throw new Error(`DALI group ${target.group} is outside 0-${DALI_MAX_GROUP}`);
+      }
+      return 0x80 | (target.group << 1) | selector;
+    case 'broadcast':
+      return 0xfe | selector;
+    case 'broadcastUnaddressed':
+      return 0xfc | selector;
+  }
+}
+
+export function arcPowerFrame(target: DALITarget, level: number): DALIForwardFrame {
+  return { address: addressByte(target, false), opcode: Math.max(0, Math.min(254, Math.round(level))) };
+}
+
+export function commandFrame(target: DALITarget, command: DALICommand | number): DALIForwardFrame {
+  return { address: addressByte(target, true), opcode: command };
+}
+
+export function specialFrame(command: DALISpecialCommand, data: number = 0): DALIForwardFrame {
+  return { address: command, opcode: data & 0xff };
+}
+
+/**
+ * Data byte that selects gear by short address in INITIALISE and
+ * PROGRAM SHORT ADDRESS
+ */
+export function shortAddressData(address: number): number {
+  return (address << 1) | 1;
+}
+
+/**
+ * Light output in percent for an arc power level on the standard
+ * logarithmic curve: 1 is 0.1 %, 254 is 100 %, 0 is off
+ */
+export function arcPowerToPercent(level: number): number {
+  if (level <= 0) return 0;
+  return Math.pow(10, (Math.min(254, level) - 1) / (253 / 3) - 1);
+}
+
+export function percentToArcPower(percent: number): number {
+  if (percent <= 0) return 0;
+  const level = Math.round(1 + (253 / 3) * (Math.log10(Math.min(100, percent)) + 1));
+  return Math.max(1, Math.min(254, level));
+}
+
+export function decodeStatus(value: number): DALIStatus {
+  return {
+    controlGearFailure: (value & 0x01) !== 0,
+    lampFailure: (value & 0x02) !== 0,
+    lampOn: (value & 0x04) !== 0,
+    limitError: (value & 0x08) !== 0,
+    fadeRunning: (value & 0x10) !== 0,
+    resetState: (value & 0x20) !== 0,
+    shortAddressMissing: (value & 0x40) !== 0,
+    powerCycleSeen: (value & 0x80) !== 0
+  };
+}
+
+/**
+ * Configuration commands (RESET through SET SHORT ADDRESS) only take effect
+ * when received twice
+ */
+export function requiresSendTwice(command: number): boolean {
+  return command >= DALICommand.RESET && command <= 0x81;
+}
@@ -0,0 +1,13 @@
+/**
+ * DALI-2 Module
+ * Control gear commissioning and control through DALI-to-Modbus/TCP and IP gateways
+ */
+
+export * from './types';
+export * from './frames';
+export * from './memory-banks';
+export * from './modbus-gateway';
+export * from './controller';
+export * from './simulator';
+
+export { DALIController as default } from './controller';
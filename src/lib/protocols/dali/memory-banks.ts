@@ -0,0 +1,131 @@
+/**
+ * DALI Memory Bank Layouts
+ * Bank 0 identity data (IEC 62386-102) plus the DALI-2 part 252 energy
+ * reporting and part 253 diagnostics & maintenance banks. Multi-byte values
+ * are big-endian; a value of all 0xFF bytes means "not available".
+ */
+
+export interface MemoryField {
+  offset: number;
+  length: number;
+  scale?: number; // Multiplier applied to the raw value
+  scaleOffset?: number; // Location of a signed power-of-ten exponent (part 252)
+  valueOffset?: number; // Added after scaling, e.g. -60 for temperatures
+  unit?: string;
+}
+
+export const MEMORY_BANK = {
+  IDENTITY: 0,
+  ACTIVE_ENERGY: 202,
+  APPARENT_ENERGY: 203,
+  LOADSIDE_ENERGY: 204,
+  CONTROL_GEAR_DIAGNOSTICS: 205,
+  LIGHT_SOURCE_DIAGNOSTICS: 206
+} as const;
+
+export const IDENTITY_FIELDS = {
+  gtin: { offset: 0x03, length: 6 },
+  firmwareVersion: { offset: 0x09, length: 2 },
+  identificationNumber: { offset: 0x0b, length: 8 }
+};
+
+export const ENERGY_FIELDS = {
+  energy: { offset: 0x04, length: 6, scaleOffset: 0x0a, unit: 'Wh' },
+  power: { offset: 0x0b, length: 4, scaleOffset: 0x0f, unit: 'W' }
+};
+
+export const CONTROL_GEAR_DIAGNOSTIC_FIELDS: Record<string, MemoryField> = {
+  operatingTime: { offset: 0x04, length: 4, unit: 's' },
+  startCounter: { offset: 0x08, length: 3 },
+  supplyVoltage: { offset: 0x0b, length: 2, scale: 0.1, unit: 'V' },
+  supplyFrequency: { offset: 0x0d, length: 1, unit: 'Hz' },
+  powerFactor: { offset: 0x0e, length: 1, scale: 0.01 },
+  overallFailure: { offset: 0x0f, length: 1 },
+  overallFailureCounter: { offset: 0x10, length: 1 },
+  supplyUndervoltage: { offset: 0x11, length: 1 },
+  supplyUndervoltageCounter: { offset: 0x12, length: 1 },
+  supplyOvervoltage: { offset: 0x13, length: 1 },
+  supplyOvervoltageCounter: { offset: 0x14, length: 1 },
+  outputPowerLimitation: { offset: 0x15, length: 1 },
+  outputPowerLimitationCounter: { offset: 0x16, length: 1 },
+  thermalDerating: { offset: 0x17, length: 1 },
+  thermalDeratingCounter: { offset: 0x18, length: 1 },
+  thermalShutdown: { offset: 0x19, length: 1 },
+  thermalShutdownCounter: { offset: 0x1a, length: 1 },
+  temperature: { offset: 0x1b, length: 1, valueOffset: -60, unit: '°C' },
+  outputCurrentPercent: { offset: 0x1c, length: 1, unit: '%' }
+};
+
+export const LIGHT_SOURCE_DIAGNOSTIC_FIELDS: Record<string, MemoryField> = {
+  startCounterResettable: { offset: 0x04, length: 3 },
+  startCounter: { offset: 0x07, length: 3 },
+  onTimeResettable: { offset: 0x0a, length: 4, unit: 's' },
+  onTime: { offset: 0x0e, length: 4, unit: 's' },
+  voltage: { offset: 0x12, length: 2, scale: 0.1, unit: 'V' },
+  current: { offset: 0x14, length: 2, scale: 0.001, unit: 'A' },
+  overallFailure: { offset: 0x16, length: 1 },
+  overallFailureCounter: { offset: 0x17, length: 1 },
+  shortCircuit: { offset: 0x18, length: 1 },
+  shortCircuitCounter: { offset: 0x19, length: 1 },
+  openCircuit: { offset: 0x1a, length: 1 },
+  openCircuitCounter: { offset: 0x1b, length: 1 },
+  thermalDerating: { offset: 0x1c, length: 1 },
+  thermalDeratingCounter: { offset: 0x1d, length: 1 },
+  thermalShutdown: { offset: 0x1e, length: 1 },
+  thermalShutdownCounter: { offset: 0x1f, length: 1 },
+  temperature: { offset: 0x20, length: 1, valueOffset: -60, unit: '°C' }
+};
+
+export interface DALIEnergyReport {
+  activeEnergy: number | null; // kWh
+  activePower: number | null; // W
+  apparentEnergy: number | null; // kVAh
+  apparentPower: number | null; // VA
+  loadsideEnergy: number | null; // kWh delivered to the light source
+  loadsidePower: number | null; // W
+}
+
+export interface DALIDiagnostics {
+  controlGear: Record<string, number | null>;
+  lightSource: Record<string, number | null>;
+}
+
+/**
+ * Last memory location a set of fields reaches
+ */
+export function lastLocation(fields: Record<string, MemoryField>): number {
+  return Math.max(...Object.values(fields).map(field =>
+    Math.max(field.offset + field.length - 1, field.scaleOffset ?? 0)
+  ));
+}
+
+/**
+ * Decode one field from bank bytes read from location 0. Missing bytes and
+ * the all-0xFF mask both yield null.
+ */
+export function decodeMemoryField(bytes: Array<number | null>, field: MemoryField): number | null {
+  let raw = 0;
+  let masked = true;
+  for (let i = 0; i < field.length; i++) {
+    const byte = bytes[field.offset + i];
+    if (byte === null || byte === undefined) return null;
+    if (byte !== 0xff) masked = false;
+    raw = raw * 256 + byte;
+  }
+  if (masked) return null;
+
+  let value = raw * (field.scale ?? 1);
+  if (field.scaleOffset !== undefined) {
+    const exponent = bytes[field.scaleOffset];
+    if (exponent === null || exponent === undefined) return null;
+    value *= Math.pow(10, exponent > 127 ? exponent - 256 : exponent);
+  }
+  return value + (field.valueOffset ?? 0);
+}
+
+export function decodeMemoryString(bytes: Array<number | null>, field: MemoryField): string | undefined {
+  const slice = bytes.slice(field.offset, field.offset + field.length);
+  if (slice.length < field.length || slice.some(byte => byte === null || byte === undefined)) return undefined;
+  if (slice.every(byte => byte === 0xff)) return undefined;
+  return (slice as number[]).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,132 @@
+/**
+ * DALI-to-Modbus/TCP Gateway
+ * Most DALI Modbus gateways expose each line as a small block of holding
+ * registers: the forward frame, a control word that starts transmission,
+ * a status word and the backward frame. Register numbers differ between
+ * vendors, so the map is configurable per gateway model.
+ */
+
+import { ModbusClient, ModbusDeviceConfig, ModbusRegister } from '../modbus-client';
+import { DALIForwardFrame, DALIGateway, DALIReply, DALISendOptions } from './types';
+
+export interface DALIModbusRegisterMap {
+  forwardFrame: number; // High byte address, low byte opcode
+  control: number; // Writing starts transmission
+  status: number;
+  backwardFrame: number;
+  lineStride: number; // Register offset between DALI lines
+}
+
+// Control word bits
+export const DALI_MODBUS_SEND = 0x01;
+export const DALI_MODBUS_SEND_TWICE = 0x02;
+export const DALI_MODBUS_EXPECT_REPLY = 0x04;
+
+export enum DALIModbusStatus {
+  IDLE = 0,
+  BUSY = 1,
+  NO_REPLY = 2,
+  REPLY = 3,
+  COLLISION = 4,
+  BUS_POWER_FAILURE = 5
+}
+
+export const DALI_MODBUS_GATEWAY_MAPS: Record<string, DALIModbusRegisterMap> = {
+  generic: { forwardFrame: 0, control: 1, status: 2, backwardFrame: 3, lineStride: 16 }
+};
+
+/**
+ * The part of ModbusClient the gateway needs
+ */
+export type DALIModbusTransport = Pick<ModbusClient, 'readRegister' | 'writeRegister' | 'isConnected' | 'connect' | 'disconnect'>;
+
+export interface DALIModbusGatewayOptions {
+  line?: number;
+  registers?: DALIModbusRegisterMap;
+  responseTimeout?: number; // ms to wait for the gateway to finish a frame
+  pollDelay?: number; // ms between status reads
+}
+
+export class ModbusDALIGateway implements DALIGateway {
+  private transport: DALIModbusTransport;
+  private registers: DALIModbusRegisterMap;
+  private line: number;
+  private responseTimeout: number;
+  private pollDelay: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(transport: DALIModbusTransport, options: DALIModbusGatewayOptions = {}) {
+    this.transport = transport;
+    this.registers = options.registers || DALI_MODBUS_GATEWAY_MAPS.generic;
+    this.line = options.line ?? 0;
+    this.responseTimeout = options.responseTimeout ?? 500;
+    this.pollDelay = options.pollDelay ?? 10;
+  }
+
+  static fromConfig(config: ModbusDeviceConfig, options: DALIModbusGatewayOptions = {}): ModbusDALIGateway {
+    return new ModbusDALIGateway(new ModbusClient(config), options);
+  }
+
+  async connect(): Promise<void> {
+    if (this.transport.isConnected()) return;
+    if (!(await this.transport.connect())) {
+      throw new Error('Could not connect to DALI Modbus gateway');
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.transport.disconnect();
+  }
+
+  /**
+   * Frames are serialised: the gateway holds one frame per line at a time
+   */
+  send(frame: DALIForwardFrame, options: DALISendOptions = {}): Promise<DALIReply> {
+    const result = this.queue.then(() => this.transmit(frame, options));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async transmit(frame: DALIForwardFrame, options: DALISendOptions): Promise<DALIReply> {
+    await this.transport.writeRegister(this.register('forwardFrame'), ((frame.address & 0xff) << 8) | (frame.opcode & 0xff));
+    const control = DALI_MODBUS_SEND
+      | (options.sendTwice ? DALI_MODBUS_SEND_TWICE : 0)
+      | (options.expectReply ? DALI_MODBUS_EXPECT_REPLY : 0);
+    await this.transport.writeRegister(this.register('control'), control);
+
+    const deadline = Date.now() + this.responseTimeout;
+    for (;;) {
+      const status = await this.transport.readRegister(this.register('status'));
+      switch (status) {
+        case DALIModbusStatus.IDLE:
+          // Frames without a reply window go straight back to idle
+          if (!options.expectReply) return { kind: 'none' };
+          break;
+        case DALIModbusStatus.NO_REPLY:
+          return { kind: 'none' };
+        case DALIModbusStatus.REPLY: {
+          const value = await this.transport.readRegister(this.register('backwardFrame'));
+          return { kind: 'answer', value: value & 0xff };
+        }
+        case DALIModbusStatus.COLLISION:
+          return { kind: 'collision' };
+        case DALIModbusStatus.BUS_POWER_FAILURE:
+          throw new Error(`DALI line ${this.line} has no bus power`);
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`DALI gateway did not complete frame 0x${frame.address.toString(16)}${frame.opcode.toString(16).padStart(2, '0')} within ${this.responseTimeout} ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.pollDelay));
+    }
+  }
+
+  private register(name: Exclude<keyof DALIModbusRegisterMap, 'lineStride'>): ModbusRegister {
+    return {
+      address: this.registers[name] + this.line * this.registers.lineStride,
+      type: 'holding',
+      format: 'uint16',
+      name: `dali_line${this.line}_${name}`
+    };
+  }
+}
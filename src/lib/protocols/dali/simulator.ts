@@ -0,0 +1,305 @@
+/**
+ * DALI Bus Simulator
+ * Simulates a DALI line of control gear behind a gateway for testing:
+ * addressing, initialisation and random address search, groups, scenes,
+ * status flags and memory banks
+ */
+
+import { DALIForwardFrame, DALIGateway, DALIReply, DALISendOptions, DALICommand, DALISpecialCommand, DALI_MASK } from './types';
+import { requiresSendTwice } from './frames';
+
+export interface SimulatedGearConfig {
+  shortAddress?: number | null;
+  deviceTypes?: number[];
+  physicalMinimum?: number;
+  memoryBanks?: Record<number, number[]>; // Bank contents from location 0
+}
+
+export interface SimulatedControlGear {
+  shortAddress: number | null;
+  randomAddress: number;
+  deviceTypes: number[];
+  groups: number; // Bitmask
+  scenes: number[];
+  actualLevel: number;
+  lastActiveLevel: number;
+  minLevel: number;
+  maxLevel: number;
+  physicalMinimum: number;
+  powerOnLevel: number;
+  systemFailureLevel: number;
+  fadeTime: number;
+  lampFailure: boolean;
+  controlGearFailure: boolean;
+  powerCycleSeen: boolean;
+  present: boolean; // False simulates a disconnected or dead driver
+  memoryBanks: Map<number, number[]>;
+}
+
+interface GearRuntime {
+  gear: SimulatedControlGear;
+  initialised: boolean;
+  withdrawn: boolean;
+  nextDeviceType: number;
+}
+
+export class DALIBusSimulator implements DALIGateway {
+  private gear: GearRuntime[] = [];
+  private random: () => number;
+  private searchAddress = 0xffffff;
+  private dtr0 = 0;
+  private dtr1 = 0;
+  private frameCount = 0;
+
+  constructor(random: () => number = Math.random) {
+    this.random = random;
+  }
+
+  addGear(config: SimulatedGearConfig = {}): SimulatedControlGear {
+    const gear: SimulatedControlGear = {
+      shortAddress: config.shortAddress ?? null,
+      randomAddress: 0xffffff,
+      deviceTypes: config.deviceTypes || [6],
+      groups: 0,
+      scenes: new Array(16).fill(DALI_MASK),
+      actualLevel: 254,
+      lastActiveLevel: 254,
+      minLevel: config.physicalMinimum ?? 1,
+      maxLevel: 254,
+      physicalMinimum: config.physicalMinimum ?? 1,
+      powerOnLevel: 254,
+      systemFailureLevel: 254,
+      fadeTime: 0,
+      lampFailure: false,
+      controlGearFailure: false,
+      powerCycleSeen: true,
+      present: true,
+      memoryBanks: new Map(Object.entries(config.memoryBanks || {}).map(([bank, bytes]) => [Number(bank), bytes]))
+    };
+    this.gear.push({ gear, initialised: false, withdrawn: false, nextDeviceType: 0 });
+    return gear;
+  }
+
+  getGear(): SimulatedControlGear[] {
+    return this.gear.map(runtime => runtime.gear);
+  }
+
+  getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  async send(frame: DALIForwardFrame, options: DALISendOptions = {}): Promise<DALIReply> {
+    this.frameCount += options.sendTwice ? 2 : 1;
+    const answers = frame.address >= 0xa0 && frame.address <= 0xcb
+      ? this.special(frame.address, frame.opcode, options)
+      : this.addressed(frame.address, frame.opcode, options);
+
+    const replies = answers.filter((value): value is number => value !== null);
+    if (!options.expectReply || replies.length === 0) return { kind: 'none' };
+    if (replies.length > 1) return { kind: 'collision' };
+    return { kind: 'answer', value: replies[0] };
+  }
+
+  private special(command: number, data: number, options: DALISendOptions): Array<number | null> {
+    const live = this.gear.filter(runtime => runtime.gear.present);
+    const searching = live.filter(runtime => runtime.initialised && !runtime.withdrawn);
+
+    switch (command) {
+      case DALISpecialCommand.TERMINATE:
+        live.forEach(runtime => {
+          runtime.initialised = false;
+          runtime.withdrawn = false;
+        });
+        return [];
+      case DALISpecialCommand.DTR0:
+        this.dtr0 = data;
+        return [];
+      case DALISpecialCommand.DTR1:
+        this.dtr1 = data;
+        return [];
+      case DALISpecialCommand.INITIALISE:
+        if (!options.sendTwice) return [];
+        live.forEach(runtime => {
+          const selected = data === 0x00
+            || (data === 0xff && runtime.gear.shortAddress === null)
+            || (data !== 0xff && (data & 1) === 1 && runtime.gear.shortAddress === data >> 1);
+          if (selected) {
+            runtime.initialised = true;
+            runtime.withdrawn = false;
+          }
+        });
+        return [];
+      case DALISpecialCommand.RANDOMISE:
+        if (!options.sendTwice) return [];
+        live.filter(runtime => runtime.initialised).forEach(runtime => {
+          runtime.gear.randomAddress = Math.floor(this.random() * 0x1000000);
+        });
+        return [];
+      case DALISpecialCommand.SEARCHADDRH:
+        this.searchAddress = (this.searchAddress & 0x00ffff) | (data << 16);
+        return [];
+      case DALISpecialCommand.SEARCHADDRM:
+        this.searchAddress = (this.searchAddress & 0xff00ff) | (data << 8);
+        return [];
+      case DALISpecialCommand.SEARCHADDRL:
+        this.searchAddress = (this.searchAddress & 0xffff00) | data;
+        return [];
+      case DALISpecialCommand.COMPARE:
+        return searching.map(runtime => (runtime.gear.randomAddress <= this.searchAddress ? 0xff : null));
+      case DALISpecialCommand.WITHDRAW:
+        searching.filter(runtime => runtime.gear.randomAddress === this.searchAddress).forEach(runtime => {
+          runtime.withdrawn = true;
+        });
+        return [];
+      case DALISpecialCommand.PROGRAM_SHORT_ADDRESS:
+        live.filter(runtime => runtime.initialised && runtime.gear.randomAddress === this.searchAddress).forEach(runtime => {
+          runtime.gear.shortAddress = data === 0xff ? null : data >> 1;
+        });
+        return [];
+      case DALISpecialCommand.VERIFY_SHORT_ADDRESS:
+        return live
+          .filter(runtime => runtime.initialised)
+          .map(runtime => (runtime.gear.shortAddress !== null && (runtime.gear.shortAddress << 1 | 1) === data ? 0xff : null));
+      case DALISpecialCommand.QUERY_SHORT_ADDRESS:
+        return live
+          .filter(runtime => runtime.initialised && runtime.gear.randomAddress === this.searchAddress)
+          .map(runtime => (runtime.gear.shortAddress === null ? 0xff : (runtime.gear.shortAddress << 1) | 1));
+      default:
+        return [];
+    }
+  }
+
+  private addressed(address: number, opcode: number, options: DALISendOptions): Array<number | null> {
+    const targets = this.gear.filter(runtime => runtime.gear.present && this.matches(runtime.gear, address));
+
+    // Direct arc power control
+    if ((address & 1) === 0) {
+      targets.forEach(runtime => this.setLevel(runtime.gear, opcode));
+      return [];
+    }
+
+    if (requiresSendTwice(opcode) && !options.sendTwice) return [];
+    return targets.map(runtime => this.command(runtime, opcode));
+  }
+
+  private matches(gear: SimulatedControlGear, address: number): boolean {
+    if (address >= 0xfe) return true;
+    if (address >= 0xfc) return gear.shortAddress === null;
+    if (address < 0x80) return gear.shortAddress === address >> 1;
+    if (address < 0xa0) return (gear.groups & (1 << ((address >> 1) & 0x0f))) !== 0;
+    return false;
+  }
+
+  private setLevel(gear: SimulatedControlGear, level: number): void {
+    if (level === DALI_MASK) return;
+    gear.actualLevel = level === 0 ? 0 : Math.max(gear.minLevel, Math.min(gear.maxLevel, level));
+    if (gear.actualLevel > 0) gear.lastActiveLevel = gear.actualLevel;
+  }
+
+  private command(runtime: GearRuntime, opcode: number): number | null {
+    const gear = runtime.gear;
+    if (opcode >= DALICommand.GO_TO_SCENE && opcode < DALICommand.GO_TO_SCENE + 16) {
+      const level = gear.scenes[opcode - DALICommand.GO_TO_SCENE];
+      if (level !== DALI_MASK) this.setLevel(gear, level);
+      return null;
+    }
+    if (opcode >= DALICommand.SET_SCENE && opcode < DALICommand.SET_SCENE + 16) {
+      gear.scenes[opcode - DALICommand.SET_SCENE] = this.dtr0;
+      return null;
+    }
+    if (opcode >= DALICommand.REMOVE_FROM_SCENE && opcode < DALICommand.REMOVE_FROM_SCENE + 16) {
+      gear.scenes[opcode - DALICommand.REMOVE_FROM_SCENE] = DALI_MASK;
+      return null;
+    }
+    if (opcode >= DALICommand.ADD_TO_GROUP && opcode < DALICommand.ADD_TO_GROUP + 16) {
+      gear.groups |= 1 << (opcode - DALICommand.ADD_TO_GROUP);
+      return null;
+    }
+    if (opcode >= DALICommand.REMOVE_FROM_GROUP && opcode < DALICommand.REMOVE_FROM_GROUP + 16) {
+      gear.groups &= ~(1 << (opcode - DALICommand.REMOVE_FROM_GROUP));
+      return null;
+    }
+    if (opcode >= DALICommand.QUERY_SCENE_LEVEL && opcode < DALICommand.QUERY_SCENE_LEVEL + 16) {
+      return gear.scenes[opcode - DALICommand.QUERY_SCENE_LEVEL];
+    }
+
+    switch (opcode) {
+      case DALICommand.OFF:
+        gear.actualLevel = 0;
+        return null;
+      case DALICommand.RECALL_MAX_LEVEL:
+        this.setLevel(gear, gear.maxLevel);
+        return null;
+      case DALICommand.RECALL_MIN_LEVEL:
+        this.setLevel(gear, gear.minLevel);
+        return null;
+      case DALICommand.GO_TO_LAST_ACTIVE_LEVEL:
+        this.setLevel(gear, gear.lastActiveLevel);
+        return null;
+      case DALICommand.SET_MAX_LEVEL:
+        gear.maxLevel = Math.max(gear.minLevel, Math.min(254, this.dtr0));
+        return null;
+      case DALICommand.SET_MIN_LEVEL:
+        gear.minLevel = Math.max(gear.physicalMinimum, Math.min(gear.maxLevel, this.dtr0));
+        return null;
+      case DALICommand.SET_SYSTEM_FAILURE_LEVEL:
+        gear.systemFailureLevel = this.dtr0;
+        return null;
+      case DALICommand.SET_POWER_ON_LEVEL:
+        gear.powerOnLevel = this.dtr0;
+        return null;
+      case DALICommand.SET_FADE_TIME:
+        gear.fadeTime = Math.min(15, this.dtr0);
+        return null;
+      case DALICommand.SET_SHORT_ADDRESS:
+        gear.shortAddress = this.dtr0 === 0xff ? null : this.dtr0 >> 1;
+        return null;
+      case DALICommand.QUERY_STATUS:
+        return (gear.controlGearFailure ? 0x01 : 0)
+          | (gear.lampFailure ? 0x02 : 0)
+          | (gear.actualLevel > 0 ? 0x04 : 0)
+          | (gear.shortAddress === null ? 0x40 : 0)
+          | (gear.powerCycleSeen ? 0x80 : 0);
+      case DALICommand.QUERY_CONTROL_GEAR_PRESENT:
+        return 0xff;
+      case DALICommand.QUERY_LAMP_FAILURE:
+        return gear.lampFailure ? 0xff : null;
+      case DALICommand.QUERY_CONTROL_GEAR_FAILURE:
+        return gear.controlGearFailure ? 0xff : null;
+      case DALICommand.QUERY_VERSION_NUMBER:
+        return 2 << 2; // IEC 62386-102 edition 2
+      case DALICommand.QUERY_DEVICE_TYPE:
+        runtime.nextDeviceType = 0;
+        return gear.deviceTypes.length === 1 ? gear.deviceTypes[0] : 0xff;
+      case DALICommand.QUERY_NEXT_DEVICE_TYPE:
+        return runtime.nextDeviceType < gear.deviceTypes.length ? gear.deviceTypes[runtime.nextDeviceType++] : 254;
+      case DALICommand.QUERY_PHYSICAL_MINIMUM:
+        return gear.physicalMinimum;
+      case DALICommand.QUERY_ACTUAL_LEVEL:
+        return gear.actualLevel;
+      case DALICommand.QUERY_MAX_LEVEL:
+        return gear.maxLevel;
+      case DALICommand.QUERY_MIN_LEVEL:
+        return gear.minLevel;
+      case DALICommand.QUERY_GROUPS_0_7:
+        return gear.groups & 0xff;
+      case DALICommand.QUERY_GROUPS_8_15:
+        return (gear.groups >> 8) & 0xff;
+      case DALICommand.QUERY_RANDOM_ADDRESS_H:
+        return (gear.randomAddress >> 16) & 0xff;
+      case DALICommand.QUERY_RANDOM_ADDRESS_M:
+        return (gear.randomAddress >> 8) & 0xff;
+      case DALICommand.QUERY_RANDOM_ADDRESS_L:
+        return gear.randomAddress & 0xff;
+      case DALICommand.READ_MEMORY_LOCATION: {
+        const bank = gear.memoryBanks.get(this.dtr1);
+        if (!bank || this.dtr0 > bank[0]) return null;
+        const value = bank[this.dtr0];
+        this.dtr0 = (this.dtr0 + 1) & 0xff;
+        return value ?? null;
+      }
+      default:
+        return null;
+    }
+  }
+}
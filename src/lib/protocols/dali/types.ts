@@ -0,0 +1,178 @@
+/**
+ * DALI-2 Type Definitions
+ * IEC 62386-101/102 forward and backward frames, control gear addressing,
+ * and the gateway abstraction DALI-to-Modbus/TCP and IP gateways implement
+ */
+
+export const DALI_MAX_SHORT_ADDRESS = 63;
+export const DALI_MAX_GROUP = 15;
+export const DALI_MAX_SCENE = 15;
+export const DALI_MASK = 0xff; // Unknown/not-implemented value in queries and memory banks
+
+export type DALITarget =
+  | { type: 'short'; address: number } // 0-63
+  | { type: 'group'; group: number } // 0-15
+  | { type: 'broadcast' }
+  | { type: 'broadcastUnaddressed' };
+
+/**
+ * 16-bit forward frame: address byte followed by opcode (or data byte for
+ * direct arc power and special commands)
+ */
+export interface DALIForwardFrame {
+  address: number;
+  opcode: number;
+}
+
+/**
+ * 8-bit backward frame. Several gear answering at once shows up as a
+ * collision, which still counts as "yes" for COMPARE and presence queries.
+ */
+export type DALIReply =
+  | { kind: 'none' }
+  | { kind: 'answer'; value: number }
+  | { kind: 'collision' };
+
+export interface DALISendOptions {
+  expectReply?: boolean;
+  sendTwice?: boolean; // Configuration commands must repeat within 100 ms
+}
+
+/**
+ * Transport to a DALI line. Gateways queue frames and handle bus timing;
+ * callers only see the backward frame.
+ */
+export interface DALIGateway {
+  send(frame: DALIForwardFrame, options?: DALISendOptions): Promise<DALIReply>;
+  connect?(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+// IEC 62386-102 commands, sent with the selector bit set
+export enum DALICommand {
+  OFF = 0x00,
+  UP = 0x01,
+  DOWN = 0x02,
+  STEP_UP = 0x03,
+  STEP_DOWN = 0x04,
+  RECALL_MAX_LEVEL = 0x05,
+  RECALL_MIN_LEVEL = 0x06,
+  STEP_DOWN_AND_OFF = 0x07,
+  ON_AND_STEP_UP = 0x08,
+  GO_TO_LAST_ACTIVE_LEVEL = 0x0a,
+  GO_TO_SCENE = 0x10, // + scene
+  RESET = 0x20,
+  STORE_ACTUAL_LEVEL_IN_DTR0 = 0x21,
+  SET_MAX_LEVEL = 0x2a,
+  SET_MIN_LEVEL = 0x2b,
+  SET_SYSTEM_FAILURE_LEVEL = 0x2c,
+  SET_POWER_ON_LEVEL = 0x2d,
+  SET_FADE_TIME = 0x2e,
+  SET_FADE_RATE = 0x2f,
+  SET_SCENE = 0x40, // + scene
+  REMOVE_FROM_SCENE = 0x50, // + scene
+  ADD_TO_GROUP = 0x60, // + group
+  REMOVE_FROM_GROUP = 0x70, // + group
+  SET_SHORT_ADDRESS = 0x80,
+  QUERY_STATUS = 0x90,
+  QUERY_CONTROL_GEAR_PRESENT = 0x91,
+  QUERY_LAMP_FAILURE = 0x92,
+  QUERY_VERSION_NUMBER = 0x97,
+  QUERY_DEVICE_TYPE = 0x99,
+  QUERY_PHYSICAL_MINIMUM = 0x9a,
+  QUERY_ACTUAL_LEVEL = 0xa0,
+  QUERY_MAX_LEVEL = 0xa1,
+  QUERY_MIN_LEVEL = 0xa2,
+  QUERY_NEXT_DEVICE_TYPE = 0xa7,
+  QUERY_CONTROL_GEAR_FAILURE = 0xaa,
+  QUERY_SCENE_LEVEL = 0xb0, // + scene
+  QUERY_GROUPS_0_7 = 0xc0,
+  QUERY_GROUPS_8_15 = 0xc1,
+  QUERY_RANDOM_ADDRESS_H = 0xc2,
+  QUERY_RANDOM_ADDRESS_M = 0xc3,
+  QUERY_RANDOM_ADDRESS_L = 0xc4,
+  READ_MEMORY_LOCATION = 0xc5
+}
+
+// Special commands: the address byte selects the command, the second byte is data
+export enum DALISpecialCommand {
+  TERMINATE = 0xa1,
+  DTR0 = 0xa3,
+  INITIALISE = 0xa5,
+  RANDOMISE = 0xa7,
+  COMPARE = 0xa9,
+  WITHDRAW = 0xab,
+  PING = 0xad,
+  SEARCHADDRH = 0xb1,
+  SEARCHADDRM = 0xb3,
+  SEARCHADDRL = 0xb5,
+  PROGRAM_SHORT_ADDRESS = 0xb7,
+  VERIFY_SHORT_ADDRESS = 0xb9,
+  QUERY_SHORT_ADDRESS = 0xbb,
+  ENABLE_DEVICE_TYPE = 0xc1,
+  DTR1 = 0xc3,
+  DTR2 = 0xc5,
+  WRITE_MEMORY_LOCATION = 0xc7
+}
+
+// Device types relevant to horticulture luminaires
+export const DALI_DEVICE_TYPE = {
+  LED: 6,
+  COLOUR: 8,
+  MEMORY_BANK_1_EXTENSION: 50, // Part 251
+  ENERGY_REPORTING: 51, // Part 252
+  DIAGNOSTICS: 52 // Part 253
+} as const;
+
+/**
+ * QUERY STATUS answer, IEC 62386-102 Table 15
+ */
+export interface DALIStatus {
+  controlGearFailure: boolean;
+  lampFailure: boolean;
+  lampOn: boolean;
+  limitError: boolean;
+  fadeRunning: boolean;
+  resetState: boolean;
+  shortAddressMissing: boolean;
+  powerCycleSeen: boolean;
+}
+
+export interface DALIDevice {
+  id: string; // Registry device id
+  shortAddress: number;
+  randomAddress?: number;
+  deviceTypes: number[];
+  version?: number;
+  gtin?: string;
+  identificationNumber?: string;
+  firmwareVersion?: string;
+  groups: number[];
+  physicalMinimum?: number;
+  energyReporting: boolean;
+  diagnostics: boolean;
+  status: 'online' | 'offline' | 'error';
+  lastStatus?: DALIStatus;
+  actualLevel?: number; // Arc power 0-254
+  lastSeen?: Date;
+}
+
+export interface DALIControllerConfig {
+  gatewayId: string; // Registry prefix, e.g. the gateway serial or hostname
+  line: number; // DALI line on multi-line gateways
+  facilityId?: string;
+  zoneId?: string;
+  ipAddress?: string; // Recorded in the lighting device registry
+  port?: number;
+  pollInterval: number; // ms between status polls, 0 disables
+  randomiseDelay: number; // ms gear needs after RANDOMISE
+  persistToRegistry: boolean;
+}
+
+export const DEFAULT_DALI_CONTROLLER_CONFIG: DALIControllerConfig = {
+  gatewayId: 'dali-gateway',
+  line: 0,
+  pollInterval: 60000,
+  randomiseDelay: 100,
+  persistToRegistry: true
+};
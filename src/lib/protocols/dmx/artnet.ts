@@ -0,0 +1,57 @@
+/**
+ * Art-Net 4 Packet Codec
+ * ArtDmx only. Multi-byte fields are little-endian except the protocol
+ * version and data length, which Art-Net sends big-endian.
+ */
+
+export const ARTNET_PORT = 6454;
+export const ARTNET_PROTOCOL_VERSION = 14;
+
+const ARTNET_ID = 'Art-Net\0';
+const OP_DMX = 0x5000;
+const HEADER_LENGTH = 18;
+
+export interface ArtDmxPacket {
+  sequence: number; // 1-255, 0 disables reordering at the receiver
+  physical: number;
+  portAddress: number; // 15-bit Net:Sub-Net:Universe
+  data: Uint8Array;
+}
+
+export function encodeArtDmx(packet: ArtDmxPacket): Buffer {
+  if (packet.portAddress < 0 || packet.portAddress > 0x7fff) {
+    throw new Error(`Art-Net port-address ${packet.portAddress} is outside 0-32767`);
+  }
+
+  // Data length must be even, 2-512
+  const length = Math.max(2, packet.data.length + (packet.data.length % 2));
+  const buffer = Buffer.alloc(HEADER_LENGTH + length);
+
+  buffer.write(ARTNET_ID, 0, 'ascii');
+  buffer.writeUInt16LE(OP_DMX, 8);
+  buffer.writeUInt16BE(ARTNET_PROTOCOL_VERSION, 10);
+  buffer.writeUInt8(packet.sequence & 0xff, 12);
+  buffer.writeUInt8(packet.physical & 0xff, 13);
+  buffer.writeUInt8(packet.portAddress & 0xff, 14); // SubUni
+  buffer.writeUInt8((packet.portAddress >> 8) & 0x7f, 15); // Net
+  buffer.writeUInt16BE(length, 16);
+  buffer.set(packet.data, HEADER_LENGTH);
+
+  return buffer;
+}
+
+export function decodeArtDmx(buffer: Buffer): ArtDmxPacket | null {
+  if (buffer.length < HEADER_LENGTH) return null;
+  if (buffer.toString('ascii', 0, 8) !== ARTNET_ID) return null;
+  if (buffer.readUInt16LE(8) !== OP_DMX) return null;
+
+  const length = buffer.readUInt16BE(16);
+  if (buffer.length < HEADER_LENGTH + length) return null;
+
+  return {
+    sequence: buffer.readUInt8(12),
+    physical: buffer.readUInt8(13),
+    portAddress: (buffer.readUInt8(15) << 8) | buffer.readUInt8(14),
+    data: new Uint8Array(buffer.subarray(HEADER_LENGTH, HEADER_LENGTH + length))
+  };
+}
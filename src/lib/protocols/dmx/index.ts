@@ -0,0 +1,13 @@
+/**
+ * DMX over IP Module
+ * sACN (E1.31) and Art-Net output for spectrum-tunable fixtures
+ */
+
+export * from './types';
+export * from './sacn';
+export * from './artnet';
+export * from './spectrum-mapping';
+export * from './output-driver';
+export * from './receiver';
+
+export { DMXOutputDriver as default } from './output-driver';
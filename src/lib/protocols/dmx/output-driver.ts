@@ -0,0 +1,440 @@
+/**
+ * DMX Output Driver
+ * Drives patched multichannel fixtures over sACN and Art-Net. Several
+ * control sources can hold a fixture at once; the highest priority wins,
+ * changes fade at the refresh rate, and fixtures fall back to a configured
+ * look when their sources release or stop refreshing.
+ */
+
+import * as dgram from 'dgram';
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { logger } from '@/lib/logging/production-logger';
+import type { SpectralRecipe } from '@/lib/spectral/spectral-recipe-engine';
+import { HLPSetSpectrumPayload } from '../hlp/types';
+import { ARTNET_PORT, encodeArtDmx } from './artnet';
+import {
+  SACN_DEFAULT_PRIORITY,
+  SACN_OPTION_STREAM_TERMINATED,
+  SACN_PORT,
+  encodeSACNPacket,
+  sacnMulticastAddress
+} from './sacn';
+import { RecipeChannelMapping, mapRecipeToChannels } from './spectrum-mapping';
+import {
+  DEFAULT_DMX_DRIVER_CONFIG,
+  DMX_UNIVERSE_SIZE,
+  DMXDriverConfig,
+  DMXFixturePatch,
+  DMXLevelOptions,
+  DMXUniverseConfig
+} from './types';
+
+interface ControlLayer {
+  source: string;
+  priority: number;
+  levels: Record<string, number>;
+  fadeMs: number;
+  expiresAt: number | null;
+  updatedAt: number;
+  applied: boolean; // Its fade has been started
+}
+
+interface FixtureRuntime {
+  patch: DMXFixturePatch;
+  layers: Map<string, ControlLayer>;
+  output: Record<string, number>;
+  target: Record<string, number>;
+  fade: { from: Record<string, number>; start: number; duration: number } | null;
+  releaseFadeMs: number | null; // Fade for the next change caused by a release or timeout
+  activeSource: string | null;
+}
+
+interface UniverseRuntime {
+  config: DMXUniverseConfig;
+  data: Uint8Array;
+  sequence: number;
+  lastSent: number;
+  dirty: boolean;
+}
+
+const TERMINATION_PACKETS = 3; // E1.31 6.2.6: send stream-terminated three times
+
+export class DMXOutputDriver extends EventEmitter {
+  private config: DMXDriverConfig;
+  private cid: string;
+  private now: () => number;
+  private socket: dgram.Socket | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private universes: Map<number, UniverseRuntime> = new Map();
+  private fixtures: Map<string, FixtureRuntime> = new Map();
+
+  constructor(config: Partial<DMXDriverConfig> = {}, now: () => number = Date.now) {
+    super();
+    this.config = { ...DEFAULT_DMX_DRIVER_CONFIG, ...config };
+    this.cid = this.config.cid || randomUUID();
+    this.now = now;
+  }
+
+  addUniverse(config: DMXUniverseConfig): void {
+    if (config.protocol === 'sacn' && (config.universe < 1 || config.universe > 63999)) {
+      throw new Error(`sACN universe ${config.universe} is outside 1-63999`);
+    }
+    if (config.protocol === 'artnet' && (config.universe < 0 || config.universe > 0x7fff)) {
+      throw new Error(`Art-Net port-address ${config.universe} is outside 0-32767`);
+    }
+    if (this.universes.has(config.universe)) {
+      throw new Error(`Universe ${config.universe} is already configured`);
+    }
+
+    this.universes.set(config.universe, {
+      config: { priority: SACN_DEFAULT_PRIORITY, ...config },
+      data: new Uint8Array(DMX_UNIVERSE_SIZE),
+      sequence: 0,
+      lastSent: -Infinity,
+      dirty: true
+    });
+  }
+
+  /**
+   * Patch a fixture at its start address. Footprints may not leave the
+   * universe or overlap another fixture.
+   */
+  patchFixture(patch: DMXFixturePatch): void {
+    if (!this.universes.has(patch.universe)) {
+      throw new Error(`Universe ${patch.universe} is not configured`);
+    }
+    if (this.fixtures.has(patch.id)) {
+      throw new Error(`Fixture ${patch.id} is already patched`);
+    }
+    const names = new Set(patch.channels.map(channel => channel.name));
+    if (names.size !== patch.channels.length) {
+      throw new Error(`Fixture ${patch.id} has duplicate channel names`);
+    }
+
+    const [first, last] = this.footprint(patch);
+    if (first < 1 || last > DMX_UNIVERSE_SIZE) {
+      throw new Error(`Fixture ${patch.id} occupies slots ${first}-${last}, outside 1-${DMX_UNIVERSE_SIZE}`);
+    }
+    for (const other of this.fixtures.values()) {
+      if (other.patch.universe !== patch.universe) continue;
+      const [otherFirst, otherLast] = this.footprint(other.patch);
+      if (first <= otherLast && otherFirst <= last) {
+        throw new Error(`Fixture ${patch.id} overlaps ${other.patch.id} on universe ${patch.universe}`);
+      }
+    }
+
+    const levels = this.completeLevels(patch, {}, 0);
+    this.fixtures.set(patch.id, {
+      patch,
+      layers: new Map(),
+      output: { ...levels },
+      target: levels,
+      fade: null,
+      releaseFadeMs: null,
+      activeSource: null
+    });
+    this.writeFixture(this.fixtures.get(patch.id)!);
+  }
+
+  unpatchFixture(fixtureId: string): void {
+    const fixture = this.getFixture(fixtureId);
+    fixture.output = Object.fromEntries(Object.keys(fixture.output).map(name => [name, 0]));
+    this.writeFixture(fixture);
+    this.fixtures.delete(fixtureId);
+  }
+
+  /**
+   * Set channel levels (0-1) for a control source. Channels left out are
+   * off, except dimmer channels which default to full.
+   */
+  setLevels(fixtureId: string, levels: Record<string, number>, options: DMXLevelOptions = {}): void {
+    const fixture = this.getFixture(fixtureId);
+    for (const name of Object.keys(levels)) {
+      if (!fixture.patch.channels.some(channel => channel.name === name)) {
+        throw new Error(`Fixture ${fixtureId} has no channel ${name}`);
+      }
+    }
+
+    const now = this.now();
+    const source = options.source || 'default';
+    fixture.layers.set(source, {
+      source,
+      priority: options.priority ?? 100,
+      levels: this.completeLevels(fixture.patch, levels),
+      fadeMs: options.fadeMs ?? 0,
+      expiresAt: options.timeoutMs ? now + options.timeoutMs : null,
+      updatedAt: now,
+      applied: false
+    });
+  }
+
+  /**
+   * Drive channels tagged with an HLP channel type from an HLP spectrum
+   * payload (0-100 % per channel type)
+   */
+  setSpectrum(fixtureId: string, payload: HLPSetSpectrumPayload, options: DMXLevelOptions = {}): void {
+    const fixture = this.getFixture(fixtureId);
+    const levels: Record<string, number> = {};
+    for (const channel of fixture.patch.channels) {
+      const percent = channel.channelType ? payload.spectrum[channel.channelType] : undefined;
+      if (percent !== undefined) levels[channel.name] = percent / 100;
+    }
+    this.setLevels(fixtureId, levels, { fadeMs: payload.rampTime !== undefined ? payload.rampTime * 1000 : undefined, ...options });
+  }
+
+  /**
+   * Solve emitter levels for a spectral recipe and hold them for a source
+   */
+  applyRecipe(
+    fixtureId: string,
+    recipe: SpectralRecipe,
+    options: DMXLevelOptions & { scale?: number } = {}
+  ): RecipeChannelMapping {
+    const fixture = this.getFixture(fixtureId);
+    const mapping = mapRecipeToChannels(recipe, fixture.patch.channels, { scale: options.scale });
+    this.setLevels(fixtureId, mapping.levels, options);
+    logger.info('api', `Applied recipe ${recipe.id} to fixture ${fixtureId}: match ${mapping.matchScore.toFixed(1)}%`);
+    return mapping;
+  }
+
+  /**
+   * Drop a control source; the fixture fades to the next source or its fallback
+   */
+  release(fixtureId: string, source: string = 'default', fadeMs: number = 0): void {
+    const fixture = this.getFixture(fixtureId);
+    if (fixture.layers.delete(source)) {
+      fixture.releaseFadeMs = fadeMs;
+    }
+  }
+
+  getFixtureOutput(fixtureId: string): Record<string, number> {
+    return { ...this.getFixture(fixtureId).output };
+  }
+
+  getActiveSource(fixtureId: string): string | null {
+    return this.getFixture(fixtureId).activeSource;
+  }
+
+  getUniverseData(universe: number): Uint8Array {
+    const runtime = this.universes.get(universe);
+    if (!runtime) {
+      throw new Error(`Universe ${universe} is not configured`);
+    }
+    return new Uint8Array(runtime.data);
+  }
+
+  /**
+   * Open the output socket and start refreshing universes
+   */
+  async start(): Promise<void> {
+    if (this.socket) return;
+
+    const socket = dgram.createSocket('udp4');
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject);
+      socket.bind(0, () => {
+        socket.off('error', reject);
+        resolve();
+      });
+    });
+    socket.setBroadcast(true);
+    socket.on('error', error => {
+      logger.error('DMX output socket error:', error);
+      this.emit('error', error);
+    });
+
+    this.socket = socket;
+    this.refreshTimer = setInterval(() => this.tick(), 1000 / this.config.refreshRate);
+    logger.info('api', `DMX output started for ${this.universes.size} universes`);
+    this.emit('started');
+  }
+
+  /**
+   * Stop refreshing. sACN universes are sent stream-terminated so receivers
+   * fall back immediately instead of waiting out the data-loss timeout.
+   */
+  async stop(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (!this.socket) return;
+
+    for (const universe of this.universes.values()) {
+      if (universe.config.protocol !== 'sacn') continue;
+      for (let i = 0; i < TERMINATION_PACKETS; i++) {
+        await this.send(universe, SACN_OPTION_STREAM_TERMINATED);
+      }
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    await new Promise<void>(resolve => socket.close(() => resolve()));
+    this.emit('stopped');
+  }
+
+  /**
+   * Resolve every fixture, advance fades and send universes that changed
+   * or are due a keep-alive
+   */
+  async tick(now: number = this.now()): Promise<void> {
+    for (const fixture of this.fixtures.values()) {
+      this.resolveFixture(fixture, now);
+      this.advanceFade(fixture, now);
+      this.writeFixture(fixture);
+    }
+
+    if (!this.socket) return;
+    const sends: Promise<void>[] = [];
+    for (const universe of this.universes.values()) {
+      if (universe.dirty || now - universe.lastSent >= this.config.keepAliveInterval) {
+        universe.dirty = false;
+        universe.lastSent = now;
+        sends.push(this.send(universe));
+      }
+    }
+    await Promise.all(sends);
+  }
+
+  private resolveFixture(fixture: FixtureRuntime, now: number): void {
+    for (const layer of Array.from(fixture.layers.values())) {
+      if (layer.expiresAt !== null && layer.expiresAt <= now) {
+        fixture.layers.delete(layer.source);
+        this.emit('sourceTimeout', { fixtureId: fixture.patch.id, source: layer.source });
+        logger.warn('api', `DMX control source ${layer.source} timed out on fixture ${fixture.patch.id}`);
+      }
+    }
+
+    let winner: ControlLayer | null = null;
+    for (const layer of fixture.layers.values()) {
+      if (!winner || layer.priority > winner.priority || (layer.priority === winner.priority && layer.updatedAt > winner.updatedAt)) {
+        winner = layer;
+      }
+    }
+
+    let target: Record<string, number>;
+    let fadeMs: number;
+    if (winner) {
+      target = winner.levels;
+      fadeMs = winner.applied ? fixture.releaseFadeMs ?? 0 : winner.fadeMs;
+    } else {
+      const fallback = fixture.patch.fallback ?? 'hold';
+      if (fallback === 'hold') {
+        target = fixture.activeSource === null ? fixture.target : { ...fixture.output };
+      } else if (fallback === 'off') {
+        target = this.completeLevels(fixture.patch, {}, 0);
+      } else {
+        target = this.completeLevels(fixture.patch, fallback.levels);
+      }
+      fadeMs = fixture.releaseFadeMs ?? (typeof fallback === 'object' ? fallback.fadeMs ?? 0 : 0);
+    }
+
+    const source = winner ? winner.source : null;
+    if (source !== fixture.activeSource) {
+      this.emit('sourceChanged', { fixtureId: fixture.patch.id, source, previous: fixture.activeSource });
+      fixture.activeSource = source;
+    }
+
+    // A source's own fade only applies when it takes over with fresh levels
+    fixture.layers.forEach(layer => { layer.applied = true; });
+    fixture.releaseFadeMs = null;
+
+    const changed = Object.keys(target).some(name => Math.abs(target[name] - fixture.target[name]) > 1e-9);
+    if (changed) {
+      fixture.fade = { from: { ...fixture.output }, start: now, duration: fadeMs };
+      fixture.target = { ...target };
+    }
+  }
+
+  private advanceFade(fixture: FixtureRuntime, now: number): void {
+    if (!fixture.fade) return;
+
+    const { from, start, duration } = fixture.fade;
+    const progress = duration > 0 ? Math.min(1, Math.max(0, (now - start) / duration)) : 1;
+    for (const name of Object.keys(fixture.target)) {
+      fixture.output[name] = from[name] + (fixture.target[name] - from[name]) * progress;
+    }
+    if (progress >= 1) {
+      fixture.fade = null;
+    }
+  }
+
+  private writeFixture(fixture: FixtureRuntime): void {
+    const universe = this.universes.get(fixture.patch.universe)!;
+    for (const channel of fixture.patch.channels) {
+      const slot = fixture.patch.address - 1 + channel.offset;
+      const level = Math.max(0, Math.min(1, fixture.output[channel.name] ?? 0));
+      const values = channel.resolution === 16
+        ? [Math.round(level * 65535) >> 8, Math.round(level * 65535) & 0xff]
+        : [Math.round(level * 255)];
+      values.forEach((value, i) => {
+        if (universe.data[slot + i] !== value) {
+          universe.data[slot + i] = value;
+          universe.dirty = true;
+        }
+      });
+    }
+  }
+
+  private async send(universe: UniverseRuntime, options: number = 0): Promise<void> {
+    if (!this.socket) return;
+
+    const { config } = universe;
+    let packet: Buffer;
+    let host: string;
+    let port: number;
+    if (config.protocol === 'sacn') {
+      universe.sequence = (universe.sequence + 1) & 0xff;
+      packet = encodeSACNPacket({
+        cid: this.cid,
+        sourceName: this.config.sourceName,
+        priority: config.priority ?? SACN_DEFAULT_PRIORITY,
+        sequence: universe.sequence,
+        universe: config.universe,
+        options,
+        data: universe.data
+      });
+      host = config.host || sacnMulticastAddress(config.universe);
+      port = config.port || SACN_PORT;
+    } else {
+      universe.sequence = (universe.sequence % 255) + 1; // 0 disables sequencing in Art-Net
+      packet = encodeArtDmx({ sequence: universe.sequence, physical: 0, portAddress: config.universe, data: universe.data });
+      host = config.host || '255.255.255.255';
+      port = config.port || ARTNET_PORT;
+    }
+
+    const socket = this.socket;
+    await new Promise<void>(resolve => {
+      socket.send(new Uint8Array(packet.buffer, packet.byteOffset, packet.length), port, host, error => {
+        if (error) {
+          logger.error(`DMX send to ${host}:${port} failed:`, error);
+          this.emit('error', error);
+        }
+        resolve();
+      });
+    });
+  }
+
+  private footprint(patch: DMXFixturePatch): [number, number] {
+    const width = Math.max(...patch.channels.map(channel => channel.offset + (channel.resolution === 16 ? 2 : 1)));
+    return [patch.address, patch.address + width - 1];
+  }
+
+  private completeLevels(patch: DMXFixturePatch, levels: Record<string, number>, dimmerDefault: number = 1): Record<string, number> {
+    const complete: Record<string, number> = {};
+    for (const channel of patch.channels) {
+      const level = levels[channel.name] ?? (channel.type === 'dimmer' ? dimmerDefault : 0);
+      complete[channel.name] = Math.max(0, Math.min(1, level));
+    }
+    return complete;
+  }
+
+  private getFixture(fixtureId: string): FixtureRuntime {
+    const fixture = this.fixtures.get(fixtureId);
+    if (!fixture) {
+      throw new Error(`Fixture ${fixtureId} is not patched`);
+    }
+    return fixture;
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Software DMX Receiver
+ * Listens for sACN and Art-Net on one UDP socket and behaves like a DMX
+ * node: per-source tracking, sACN priority with HTP merge between sources of
+ * equal priority, and a loss-of-signal behaviour once every source is gone.
+ * Used to check output drivers without hardware.
+ */
+
+import * as dgram from 'dgram';
+import { EventEmitter } from 'events';
+import { decodeArtDmx } from './artnet';
+import {
+  SACN_DEFAULT_PRIORITY,
+  SACN_OPTION_PREVIEW,
+  SACN_OPTION_STREAM_TERMINATED,
+  decodeSACNPacket,
+  isSACNSequenceStale
+} from './sacn';
+import { DEFAULT_DMX_RECEIVER_CONFIG, DMX_UNIVERSE_SIZE, DMXProtocol, DMXReceiverConfig } from './types';
+
+export interface DMXReceivedSource {
+  id: string; // sACN CID, or sender address for Art-Net
+  name: string;
+  priority: number;
+  sequence: number;
+  lastSeen: number;
+  data: Uint8Array;
+}
+
+interface ReceivedUniverse {
+  sources: Map<string, DMXReceivedSource>;
+  output: Uint8Array;
+  packets: number;
+}
+
+export class DMXReceiver extends EventEmitter {
+  private config: DMXReceiverConfig;
+  private now: () => number;
+  private socket: dgram.Socket | null = null;
+  private timeoutTimer: NodeJS.Timeout | null = null;
+  private universes: Map<string, ReceivedUniverse> = new Map();
+
+  constructor(config: Partial<DMXReceiverConfig> = {}, now: () => number = Date.now) {
+    super();
+    this.config = { ...DEFAULT_DMX_RECEIVER_CONFIG, ...config };
+    this.now = now;
+  }
+
+  /**
+   * Bind and start listening; returns the bound port
+   */
+  async start(port: number = 0, address: string = '127.0.0.1'): Promise<number> {
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    socket.on('message', (message, rinfo) => this.receive(message, `${rinfo.address}:${rinfo.port}`));
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject);
+      socket.bind(port, address, () => {
+        socket.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.socket = socket;
+    this.timeoutTimer = setInterval(() => this.checkTimeouts(), Math.min(250, this.config.sourceTimeout / 4));
+    return socket.address().port;
+  }
+
+  async stop(): Promise<void> {
+    if (this.timeoutTimer) {
+      clearInterval(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
+    if (!this.socket) return;
+
+    const socket = this.socket;
+    this.socket = null;
+    await new Promise<void>(resolve => socket.close(() => resolve()));
+  }
+
+  /**
+   * Handle one datagram. Non-DMX traffic, preview data and alternate start
+   * codes are ignored.
+   */
+  receive(buffer: Buffer, from: string): void {
+    const now = this.now();
+
+    const sacn = decodeSACNPacket(buffer);
+    if (sacn) {
+      if (sacn.options & SACN_OPTION_PREVIEW || sacn.startCode !== 0) return;
+      const universe = this.getOrCreate('sacn', sacn.universe);
+
+      if (sacn.options & SACN_OPTION_STREAM_TERMINATED) {
+        this.dropSource('sacn', sacn.universe, sacn.cid, 'terminated');
+        return;
+      }
+
+      const existing = universe.sources.get(sacn.cid);
+      if (existing && isSACNSequenceStale(existing.sequence, sacn.sequence)) return;
+
+      universe.sources.set(sacn.cid, {
+        id: sacn.cid,
+        name: sacn.sourceName,
+        priority: sacn.priority,
+        sequence: sacn.sequence,
+        lastSeen: now,
+        data: sacn.data
+      });
+      this.merge('sacn', sacn.universe);
+      return;
+    }
+
+    const artnet = decodeArtDmx(buffer);
+    if (artnet) {
+      const universe = this.getOrCreate('artnet', artnet.portAddress);
+      // Art-Net carries no priority; every source merges HTP
+      universe.sources.set(from, {
+        id: from,
+        name: from,
+        priority: SACN_DEFAULT_PRIORITY,
+        sequence: artnet.sequence,
+        lastSeen: now,
+        data: artnet.data
+      });
+      this.merge('artnet', artnet.portAddress);
+    }
+  }
+
+  /**
+   * Drop sources that have gone quiet for longer than the source timeout
+   */
+  checkTimeouts(now: number = this.now()): void {
+    for (const [key, universe] of this.universes) {
+      const [protocol, number] = key.split(':');
+      for (const source of Array.from(universe.sources.values())) {
+        if (now - source.lastSeen > this.config.sourceTimeout) {
+          this.dropSource(protocol as DMXProtocol, Number(number), source.id, 'timeout');
+        }
+      }
+    }
+  }
+
+  getUniverse(protocol: DMXProtocol, universe: number): Uint8Array | undefined {
+    const received = this.universes.get(`${protocol}:${universe}`);
+    return received ? new Uint8Array(received.output) : undefined;
+  }
+
+  getSources(protocol: DMXProtocol, universe: number): DMXReceivedSource[] {
+    return Array.from(this.universes.get(`${protocol}:${universe}`)?.sources.values() || []);
+  }
+
+  getPacketCount(protocol: DMXProtocol, universe: number): number {
+    return this.universes.get(`${protocol}:${universe}`)?.packets ?? 0;
+  }
+
+  private getOrCreate(protocol: DMXProtocol, universe: number): ReceivedUniverse {
+    const key = `${protocol}:${universe}`;
+    let received = this.universes.get(key);
+    if (!received) {
+      received = { sources: new Map(), output: new Uint8Array(DMX_UNIVERSE_SIZE), packets: 0 };
+      this.universes.set(key, received);
+    }
+    received.packets++;
+    return received;
+  }
+
+  private dropSource(protocol: DMXProtocol, universe: number, sourceId: string, reason: 'timeout' | 'terminated'): void {
+    const received = this.universes.get(`${protocol}:${universe}`);
+    if (!received || !received.sources.delete(sourceId)) return;
+
+    this.emit('sourceLost', { protocol, universe, source: sourceId, reason });
+    if (received.sources.size > 0) {
+      this.merge(protocol, universe);
+      return;
+    }
+
+    if (this.config.lossBehavior === 'blackout') {
+      received.output = new Uint8Array(DMX_UNIVERSE_SIZE);
+    }
+    this.emit('signalLost', { protocol, universe, data: new Uint8Array(received.output) });
+  }
+
+  /**
+   * Highest priority wins; sources sharing it are merged highest-takes-precedence
+   */
+  private merge(protocol: DMXProtocol, universe: number): void {
+    const received = this.universes.get(`${protocol}:${universe}`)!;
+    const sources = Array.from(received.sources.values());
+    const top = Math.max(...sources.map(source => source.priority));
+    const winners = sources.filter(source => source.priority === top);
+
+    const output = new Uint8Array(DMX_UNIVERSE_SIZE);
+    for (const source of winners) {
+      source.data.forEach((value, slot) => {
+        if (slot < DMX_UNIVERSE_SIZE && value > output[slot]) output[slot] = value;
+      });
+    }
+    received.output = output;
+    this.emit('frame', { protocol, universe, data: new Uint8Array(output), sources: winners.map(source => source.id) });
+  }
+}
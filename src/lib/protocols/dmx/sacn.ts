@@ -0,0 +1,115 @@
+/**
+ * sACN (ANSI E1.31) Packet Codec
+ * Data packets only: root, framing and DMP layers around one universe of
+ * slots. Layer offsets follow E1.31-2018 Table 4-1.
+ */
+
+export const SACN_PORT = 5568;
+export const SACN_DEFAULT_PRIORITY = 100;
+export const SACN_MAX_PRIORITY = 200;
+
+const ACN_PACKET_IDENTIFIER = '4153432d45312e3137000000'; // "ASC-E1.17" padded to 12 bytes
+const VECTOR_ROOT_E131_DATA = 0x00000004;
+const VECTOR_E131_DATA_PACKET = 0x00000002;
+const VECTOR_DMP_SET_PROPERTY = 0x02;
+const HEADER_LENGTH = 126;
+
+export const SACN_OPTION_PREVIEW = 0x80;
+export const SACN_OPTION_STREAM_TERMINATED = 0x40;
+
+export interface SACNPacket {
+  cid: string; // UUID of the sending component
+  sourceName: string;
+  priority: number;
+  sequence: number;
+  universe: number;
+  options: number;
+  startCode: number;
+  data: Uint8Array;
+}
+
+export function sacnMulticastAddress(universe: number): string {
+  return `239.255.${(universe >> 8) & 0xff}.${universe & 0xff}`;
+}
+
+export function encodeSACNPacket(packet: Omit<SACNPacket, 'startCode'> & { startCode?: number }): Buffer {
+  if (packet.universe < 1 || packet.universe > 63999) {
+    throw new Error(`sACN universe ${packet.universe} is outside 1-63999`);
+  }
+  if (packet.priority < 0 || packet.priority > SACN_MAX_PRIORITY) {
+    throw new Error(`sACN priority ${packet.priority} is outside 0-${SACN_MAX_PRIORITY}`);
+  }
+
+  const slots = packet.data.length;
+  const buffer = Buffer.alloc(HEADER_LENGTH + slots);
+
+  // Root layer
+  buffer.writeUInt16BE(0x0010, 0);
+  buffer.writeUInt16BE(0x0000, 2);
+  buffer.write(ACN_PACKET_IDENTIFIER, 4, 'hex');
+  buffer.writeUInt16BE(0x7000 | (buffer.length - 16), 16);
+  buffer.writeUInt32BE(VECTOR_ROOT_E131_DATA, 18);
+  buffer.write(packet.cid.replace(/-/g, '').slice(0, 32), 22, 'hex');
+
+  // Framing layer
+  buffer.writeUInt16BE(0x7000 | (buffer.length - 38), 38);
+  buffer.writeUInt32BE(VECTOR_E131_DATA_PACKET, 40);
+  buffer.write(packet.sourceName, 44, 63, 'utf8'); // At most 63 bytes, whole characters only; byte 107 stays null
+  buffer.writeUInt8(packet.priority, 108);
+  buffer.writeUInt16BE(0, 109); // Synchronization address, unused
+  buffer.writeUInt8(packet.sequence & 0xff, 111);
+  buffer.writeUInt8(packet.options, 112);
+  buffer.writeUInt16BE(packet.universe, 113);
+
+  // DMP layer
+  buffer.writeUInt16BE(0x7000 | (buffer.length - 115), 115);
+  buffer.writeUInt8(VECTOR_DMP_SET_PROPERTY, 117);
+  buffer.writeUInt8(0xa1, 118); // Address and data type
+  buffer.writeUInt16BE(0x0000, 119); // First property address
+  buffer.writeUInt16BE(0x0001, 121); // Address increment
+  buffer.writeUInt16BE(slots + 1, 123);
+  buffer.writeUInt8(packet.startCode ?? 0x00, 125);
+  buffer.set(packet.data, HEADER_LENGTH);
+
+  return buffer;
+}
+
+/**
+ * Decode an E1.31 data packet; returns null for anything else (including
+ * universe discovery and synchronization packets)
+ */
+export function decodeSACNPacket(buffer: Buffer): SACNPacket | null {
+  if (buffer.length < HEADER_LENGTH) return null;
+  if (buffer.toString('hex', 4, 16) !== ACN_PACKET_IDENTIFIER) return null;
+  if (buffer.readUInt32BE(18) !== VECTOR_ROOT_E131_DATA) return null;
+  if (buffer.readUInt32BE(40) !== VECTOR_E131_DATA_PACKET) return null;
+  if (buffer.readUInt8(117) !== VECTOR_DMP_SET_PROPERTY) return null;
+
+  const slots = buffer.readUInt16BE(123) - 1;
+  if (slots < 0 || buffer.length < HEADER_LENGTH + slots) return null;
+
+  const cid = buffer.subarray(22, 38).toString('hex');
+  const nameBytes = buffer.subarray(44, 108);
+  const nameEnd = nameBytes.indexOf(0);
+
+  return {
+    cid: `${cid.slice(0, 8)}-${cid.slice(8, 12)}-${cid.slice(12, 16)}-${cid.slice(16, 20)}-${cid.slice(20)}`,
+    sourceName: nameBytes.subarray(0, nameEnd === -1 ? 64 : nameEnd).toString('utf8'),
+    priority: buffer.readUInt8(108),
+    sequence: buffer.readUInt8(111),
+    options: buffer.readUInt8(112),
+    universe: buffer.readUInt16BE(113),
+    startCode: buffer.readUInt8(125),
+    data: new Uint8Array(buffer.subarray(HEADER_LENGTH, HEADER_LENGTH + slots))
+  };
+}
+
+/**
+ * E1.31 6.7.2: a packet whose sequence number repeats or trails the last one
+ * from the same source by up to 19 arrived out of order and is discarded
+ */
+export function isSACNSequenceStale(last: number, next: number): boolean {
+  let delta = (next - last) & 0xff;
+  if (delta > 127) delta -= 256;
+  return delta <= 0 && delta > -20;
+}
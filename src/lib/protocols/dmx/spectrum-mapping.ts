@@ -0,0 +1,129 @@
+/**
+ * DMX Channel-to-Spectrum Mapping
+ * Solves emitter channel levels for a multichannel fixture so its combined
+ * output matches the 10 nm bands of a SpectralRecipe as closely as the
+ * emitters allow.
+ */
+
+import type { SpectralRecipe } from '@/lib/spectral/spectral-recipe-engine';
+import { DMXChannelDefinition } from './types';
+
+export interface RecipeChannelMapping {
+  levels: Record<string, number>; // 0-1 per emitter channel
+  bands: Array<{ centerWavelength: number; target: number; predicted: number }>;
+  matchScore: number; // 0-100, scored like SpectralRecipeEngine recipe matches
+  ppfd: number; // Predicted 400-700 nm photon flux, μmol/m²/s
+}
+
+// Same band weights SpectralRecipeEngine uses for match scores
+const PRIORITY_WEIGHTS = {
+  critical: 1.0,
+  important: 0.7,
+  beneficial: 0.4,
+  optional: 0.1
+};
+
+const DEFAULT_FWHM = 20;
+
+/**
+ * Photon flux per nm of an emitter channel at full output. Measured spectra
+ * are used as given; otherwise a Gaussian around the peak wavelength is
+ * scaled so it integrates to maxPPFD.
+ */
+export function emitterSpectrum(channel: DMXChannelDefinition): Map<number, number> {
+  if (channel.spectrum) return channel.spectrum;
+  if (channel.peakWavelength === undefined || channel.maxPPFD === undefined) {
+    throw new Error(`Emitter channel ${channel.name} needs a spectrum or a peak wavelength and maxPPFD`);
+  }
+
+  const sigma = (channel.fwhm ?? DEFAULT_FWHM) / 2.3548;
+  const from = Math.floor(channel.peakWavelength - 4 * sigma);
+  const to = Math.ceil(channel.peakWavelength + 4 * sigma);
+  const shape = new Map<number, number>();
+  let total = 0;
+  for (let wavelength = from; wavelength <= to; wavelength++) {
+    const value = Math.exp(-((wavelength - channel.peakWavelength) ** 2) / (2 * sigma * sigma));
+    shape.set(wavelength, value);
+    total += value;
+  }
+
+  const spectrum = new Map<number, number>();
+  shape.forEach((value, wavelength) => spectrum.set(wavelength, (value / total) * channel.maxPPFD!));
+  return spectrum;
+}
+
+function bandIntensity(spectrum: Map<number, number>, startWavelength: number, endWavelength: number): number {
+  let total = 0;
+  for (let wavelength = startWavelength; wavelength <= endWavelength; wavelength++) {
+    total += spectrum.get(wavelength) || 0;
+  }
+  return total;
+}
+
+/**
+ * Weighted least squares on relative band error with every level held in
+ * 0-1, solved by projected coordinate descent. scale dims (or boosts) the
+ * recipe's band targets before solving.
+ */
+export function mapRecipeToChannels(
+  recipe: SpectralRecipe,
+  channels: DMXChannelDefinition[],
+  options: { scale?: number; iterations?: number } = {}
+): RecipeChannelMapping {
+  const scale = options.scale ?? 1;
+  const emitters = channels.filter(channel => channel.type === 'emitter');
+  if (emitters.length === 0) {
+    throw new Error('Fixture has no emitter channels to map a recipe onto');
+  }
+
+  const spectra = emitters.map(emitterSpectrum);
+  const bands = recipe.bands.filter(band => band.targetIntensity > 0);
+  const targets = bands.map(band => band.targetIntensity * scale);
+  const weights = bands.map((band, i) => PRIORITY_WEIGHTS[band.priority] / (targets[i] * targets[i]));
+  // response[b][c]: band b photon flux from channel c at full output
+  const response = bands.map(band => spectra.map(spectrum => bandIntensity(spectrum, band.startWavelength, band.endWavelength)));
+
+  const levels = emitters.map(() => 0);
+  const predicted = bands.map(() => 0);
+  for (let iteration = 0; iteration < (options.iterations ?? 500); iteration++) {
+    let change = 0;
+    for (let c = 0; c < emitters.length; c++) {
+      let numerator = 0;
+      let denominator = 0;
+      for (let b = 0; b < bands.length; b++) {
+        const others = predicted[b] - response[b][c] * levels[c];
+        numerator += weights[b] * response[b][c] * (targets[b] - others);
+        denominator += weights[b] * response[b][c] * response[b][c];
+      }
+      if (denominator === 0) continue;
+
+      const level = Math.max(0, Math.min(1, numerator / denominator));
+      const delta = level - levels[c];
+      if (delta === 0) continue;
+      for (let b = 0; b < bands.length; b++) predicted[b] += response[b][c] * delta;
+      levels[c] = level;
+      change = Math.max(change, Math.abs(delta));
+    }
+    if (change < 1e-6) break;
+  }
+
+  let score = 0;
+  let totalWeight = 0;
+  bands.forEach((band, b) => {
+    const weight = PRIORITY_WEIGHTS[band.priority];
+    score += Math.max(0, 1 - Math.abs(predicted[b] - targets[b]) / targets[b]) * weight;
+    totalWeight += weight;
+  });
+
+  let ppfd = 0;
+  spectra.forEach((spectrum, c) => {
+    ppfd += bandIntensity(spectrum, 400, 700) * levels[c];
+  });
+
+  return {
+    levels: Object.fromEntries(emitters.map((channel, c) => [channel.name, levels[c]])),
+    bands: bands.map((band, b) => ({ centerWavelength: band.centerWavelength, target: targets[b], predicted: predicted[b] })),
+    matchScore: totalWeight > 0 ? (score / totalWeight) * 100 : 0,
+    ppfd
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * DMX over IP Type Definitions
+ * Universe and fixture patching for sACN (ANSI E1.31) and Art-Net 4 output
+ */
+
+import { HLPChannelType } from '../hlp/types';
+
+export type DMXProtocol = 'sacn' | 'artnet';
+
+export interface DMXUniverseConfig {
+  universe: number; // sACN 1-63999; Art-Net 15-bit port-address
+  protocol: DMXProtocol;
+  host?: string; // Unicast destination; sACN multicast group or Art-Net broadcast otherwise
+  port?: number; // 5568 for sACN, 6454 for Art-Net
+  priority?: number; // sACN source priority 0-200, default 100
+}
+
+export interface DMXChannelDefinition {
+  name: string; // e.g. 'red', 'far_red', 'dimmer'
+  offset: number; // Slot offset from the fixture start address, 0-based
+  resolution?: 8 | 16; // 16-bit channels use offset (coarse) and offset + 1 (fine)
+  type: 'emitter' | 'dimmer';
+  channelType?: HLPChannelType; // Lets HLP-style spectrum payloads drive the channel
+  peakWavelength?: number; // nm, emitter channels
+  fwhm?: number; // nm, default 20
+  maxPPFD?: number; // μmol/m²/s at the reference plane with the channel at full output
+  spectrum?: Map<number, number>; // Measured photon flux per nm at full output; overrides peak/fwhm/maxPPFD
+}
+
+/**
+ * What a fixture does once every control source has released it or timed
+ * out: keep its last look, go dark, or fade to fixed levels
+ */
+export type DMXFallback = 'hold' | 'off' | { levels: Record<string, number>; fadeMs?: number };
+
+export interface DMXFixturePatch {
+  id: string;
+  name?: string;
+  universe: number;
+  address: number; // DMX start address, 1-512
+  channels: DMXChannelDefinition[];
+  fallback?: DMXFallback;
+}
+
+export interface DMXLevelOptions {
+  source?: string; // Control source, e.g. 'schedule', 'manual', 'demand-response'
+  priority?: number; // Highest priority source wins the fixture; default 100
+  fadeMs?: number; // Fade from the current output to the new levels
+  timeoutMs?: number; // Source is dropped unless refreshed within this time
+}
+
+export interface DMXDriverConfig {
+  refreshRate: number; // Frames per second while output is changing
+  keepAliveInterval: number; // ms between repeats of unchanged universes
+  sourceName: string;
+  cid?: string; // sACN component identifier (UUID); generated when omitted
+}
+
+export const DEFAULT_DMX_DRIVER_CONFIG: DMXDriverConfig = {
+  refreshRate: 40,
+  keepAliveInterval: 1000,
+  sourceName: 'VibeLux DMX'
+};
+
+export interface DMXReceiverConfig {
+  sourceTimeout: number; // ms without packets before a source is dropped; E1.31 network data loss is 2.5 s
+  lossBehavior: 'hold' | 'blackout'; // Output once the last source of a universe is gone
+}
+
+export const DEFAULT_DMX_RECEIVER_CONFIG: DMXReceiverConfig = {
+  sourceTimeout: 2500,
+  lossBehavior: 'hold'
+};
+
+export const DMX_UNIVERSE_SIZE = 512;
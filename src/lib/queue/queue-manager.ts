@@ -83,6 +83,16 @@ export const queues = {
         delay: 5000
       }
     }
+  }),
+  
+  // Attempts and backoff are set per job by the webhook service
+  webhookQueue: new Bull('webhooks', {
+    createClient: () => createRedisClient(),
+    defaultJobOptions: {
+      removeOnComplete: 500,
+      removeOnFail: 1000,
+      timeout: 30000
+    }
   })
 };
 
@@ -119,6 +129,10 @@ export interface SensorDataJobData {
   batchId?: string;
 }
 
+export interface WebhookJobData {
+  deliveryId: string;
+}
+
 export interface DataProcessingJobData {
   type: 'aggregation' | 'ml-training' | 'data-cleanup' | 'export';
   targetId: string;
@@ -177,6 +191,11 @@ export class QueueManager {
       });
     });
     
+    // Webhook queue events
+    queues.webhookQueue.on('failed', (job, err) => {
+      logger.warn(`Webhook delivery ${job.data.deliveryId} attempt ${job.attemptsMade} failed`, err);
+    });
+    
     // Sensor data queue events
     queues.sensorDataQueue.on('completed', (job) => {
       logger.debug('queue', `Sensor data batch ${job.data.batchId} processed`);
@@ -215,6 +234,10 @@ export class QueueManager {
     return await queues.dataProcessingQueue.add(jobName, data, options);
   }
   
+  async addWebhookJob(data: WebhookJobData, options?: Bull.JobOptions) {
+    return await queues.webhookQueue.add('deliver-webhook', data, options);
+  }
+  
   async addScheduledJob(name: string, data: any, cronPattern: string) {
     return await queues.scheduledJobsQueue.add(name, data, {
       repeat: {
@@ -5,6 +5,7 @@ import { db } from '../../prisma';
 import { influxDB } from '../../influxdb-client';
 import { Point } from '@influxdata/influxdb-client';
 import { getWebSocketServer } from '../../websocket/scalable-websocket-server';
+import { emitWebhookEvent } from '../../webhooks/webhook-service';
 
 // Process sensor data in batches
 queues.sensorDataQueue.process('process-sensor-data', 10, async (job: Job<SensorDataJobData>) => {
@@ -104,6 +105,17 @@ queues.sensorDataQueue.process('process-sensor-data', 10, async (job: Job<Sensor
       // Queue alert notifications
       for (const alert of alerts) {
         await queues.notificationQueue.add('send-alert', alert);
+        emitWebhookEvent('environmental.threshold_exceeded', {
+          sensorId,
+          ruleId: alert.ruleId,
+          metric: sensor.type,
+          zone: sensor.location || null,
+          severity: alert.severity,
+          value: alert.value,
+          unit: latestReading.unit,
+          message: alert.message,
+          timestamp: alert.timestamp
+        }, { facilityId: sensor.facilityId });
       }
     }
     
@@ -0,0 +1,24 @@
+import { Job } from 'bull';
+import { queues, WebhookJobData } from '../queue-manager';
+import { logger } from '../../logging/production-logger';
+import { getWebhookService } from '../../webhooks/webhook-service';
+
+// Deliver one webhook; throwing hands the retry and its backoff back to Bull
+queues.webhookQueue.process('deliver-webhook', 5, async (job: Job<WebhookJobData>) => {
+  const result = await getWebhookService().deliver(job.data.deliveryId, {
+    attempt: job.attemptsMade + 1,
+    maxAttempts: job.opts.attempts || 1
+  });
+
+  if (result.status === 'retrying') {
+    throw new Error(result.error || 'Webhook delivery failed');
+  }
+
+  if (result.status === 'delivered') {
+    logger.debug(`Webhook delivery ${job.data.deliveryId} delivered`, { attempt: result.attempt });
+  }
+
+  return result;
+});
+
+export default queues.webhookQueue;
@@ -1,4 +1,5 @@
 import { Experiment, Treatment, Block } from '@prisma/client';
+import { CovarianceStructure, MixedModelSpec } from './mixed-models';
 
 export interface ExperimentDesign {
   type: 'CRD' | 'RCBD' | 'Factorial' | 'SplitPlot' | 'LatinSquare';
@@ -41,6 +42,8 @@ export interface ExperimentalUnit {
   row?: number;
   column?: number;
   position?: { x: number; y: number };
+  wholePlot?: number; // Split-plot main plot the unit belongs to
+  factors?: Record<string, string>; // Factor levels for factorial and split-plot treatments
 }
 
 export interface SampleSizeParams {
@@ -295,6 +298,74 @@ export class ExperimentDesigner {
     };
   }
 
+  // Split-Plot Design: whole-plot levels randomized within blocks, sub-plot levels within whole plots
+  static createSplitPlot(
+    wholePlotFactor: { name: string; levels: string[] },
+    subPlotFactor: { name: string; levels: string[] },
+    numBlocks: number,
+    seed?: number
+  ): ExperimentDesign {
+    const treatments = this.generateFactorialTreatments([wholePlotFactor, subPlotFactor]);
+    const blocks: BlockDesign[] = [];
+    const assignments: RandomizationScheme['assignments'] = [];
+    const layout: ExperimentalUnit[][] = [];
+    const rng = this.createRNG(seed);
+
+    let unitId = 0;
+    let wholePlot = 0;
+    for (let b = 0; b < numBlocks; b++) {
+      blocks.push({
+        name: `Block ${b + 1}`,
+        size: treatments.length,
+      });
+
+      const blockUnits: ExperimentalUnit[] = [];
+      const mainLevels = this.fisherYatesShuffle(wholePlotFactor.levels, rng());
+      for (const mainLevel of mainLevels) {
+        const subLevels = this.fisherYatesShuffle(subPlotFactor.levels, rng());
+        for (const subLevel of subLevels) {
+          const treatment = treatments.find(t =>
+            t.levels![0].level === mainLevel && t.levels![1].level === subLevel
+          )!.name;
+          const unit: ExperimentalUnit = {
+            id: unitId,
+            treatment,
+            block: blocks[b].name,
+            row: b,
+            column: blockUnits.length,
+            wholePlot,
+            factors: { [wholePlotFactor.name]: mainLevel, [subPlotFactor.name]: subLevel },
+          };
+          blockUnits.push(unit);
+          assignments.push({
+            unit: unitId,
+            treatment,
+            block: blocks[b].name,
+            row: b,
+            column: unit.column,
+          });
+          unitId++;
+        }
+        wholePlot++;
+      }
+      layout.push(blockUnits);
+    }
+
+    return {
+      type: 'SplitPlot',
+      treatments,
+      blocks,
+      replications: numBlocks,
+      totalUnits: unitId,
+      randomization: {
+        method: 'Split-Plot (whole plots within blocks, sub-plots within whole plots)',
+        seed,
+        assignments,
+      },
+      layout,
+    };
+  }
+
   // Sample size calculation
   static calculateSampleSize(params: SampleSizeParams): {
     sampleSize: number;
@@ -456,6 +527,81 @@ ${metadata.personnel.map((person, i) => `${i + 1}. ${person}`).join('\n')}
     return protocol;
   }
 
+  // One record per experimental unit, with factor levels as columns, ready for LinearMixedModel.fit
+  static unitRecords(design: ExperimentDesign): Record<string, string | number>[] {
+    const levelsByTreatment = new Map(design.treatments.map(t => [
+      t.name,
+      Object.fromEntries((t.levels || []).map(l => [l.factor, l.level])),
+    ]));
+
+    return design.layout.flat().map(unit => ({
+      unit: unit.id,
+      treatment: unit.treatment,
+      ...(unit.block !== undefined ? { block: unit.block } : {}),
+      ...(unit.row !== undefined ? { row: unit.row } : {}),
+      ...(unit.column !== undefined ? { column: unit.column } : {}),
+      ...levelsByTreatment.get(unit.treatment),
+      ...unit.factors,
+    }));
+  }
+
+  // Mixed model matching the design's randomization, e.g. random blocks for RCBD
+  // and a block × whole-plot error term for split plots
+  static analysisModel(
+    design: ExperimentDesign,
+    options: {
+      response?: string;
+      repeated?: { time: string; structure: CovarianceStructure };
+    } = {}
+  ): MixedModelSpec {
+    const factorNames = design.treatments[0]?.levels?.map(l => l.factor) || [];
+    let fixed: string[];
+    let random: string[] = [];
+
+    switch (design.type) {
+      case 'CRD':
+        fixed = ['treatment'];
+        break;
+      case 'RCBD':
+        fixed = ['treatment'];
+        random = ['block'];
+        break;
+      case 'LatinSquare':
+        fixed = ['treatment'];
+        random = ['row', 'column'];
+        break;
+      case 'Factorial':
+        // All main effects and interactions
+        fixed = factorNames
+          .reduce<string[][]>((subsets, factor) => [...subsets, ...subsets.map(subset => [...subset, factor])], [[]])
+          .filter(subset => subset.length > 0)
+          .sort((a, b) => a.length - b.length)
+          .map(subset => subset.join(':'));
+        break;
+      case 'SplitPlot': {
+        const [main, sub] = factorNames;
+        fixed = [main, sub, `${main}:${sub}`];
+        random = ['block', `block:${main}`];
+        break;
+      }
+      default:
+        throw new Error(`Unsupported design type: ${design.type}`);
+    }
+
+    if (options.repeated) {
+      // Repeated measurements add a time factor crossed with every treatment term
+      const time = options.repeated.time;
+      fixed = [...fixed, time, ...fixed.map(term => `${term}:${time}`)];
+    }
+
+    return {
+      response: options.response || 'value',
+      fixed,
+      random,
+      ...(options.repeated ? { repeated: { subject: 'unit', ...options.repeated } } : {}),
+    };
+  }
+
   // Helper functions
   private static fisherYatesShuffle<T>(array: T[], seed?: number): T[] {
     const result = [...array];
@@ -0,0 +1,802 @@
+/**
+ * Linear Mixed Models - REML estimation for blocked and repeated-measures trials
+ *
+ * y = Xβ + Σ Z_k u_k + e with independent random effects u_k ~ N(0, σ²_k I) for
+ * blocks, rooms or split-plot whole plots, and residuals that are independent,
+ * compound-symmetric or AR(1) within each repeated-measures subject. Variance
+ * parameters are estimated by REML with Fisher scoring; fixed effects are tested
+ * with Type III F tests using Satterthwaite (Fai-Cornelius) denominator degrees
+ * of freedom, which reproduce the classical error strata for balanced designs.
+ */
+
+import { DataPoint } from './statistical-analysis';
+
+type Matrix = number[][];
+
+export type CovarianceStructure = 'independent' | 'compound-symmetry' | 'ar1';
+
+export interface MixedModelSpec {
+  response: string;
+  fixed: string[]; // Factor or covariate terms; interactions as 'light:week'
+  covariates?: string[]; // Columns in `fixed` that are numeric slopes rather than factors
+  random?: string[]; // Random intercept terms, e.g. 'block' or 'block:light' for whole plots
+  repeated?: {
+    subject: string; // Factor (or interaction) identifying the repeatedly measured unit
+    time: string; // Ordering column; AR(1) lags count distinct time points
+    structure: CovarianceStructure;
+  };
+  maxIterations?: number;
+  tolerance?: number; // Change in REML log-likelihood treated as converged
+}
+
+export interface FixedEffectEstimate {
+  name: string;
+  estimate: number;
+  standardError: number;
+  df: number;
+  tValue: number;
+  pValue: number;
+}
+
+export interface VarianceComponent {
+  term: string;
+  variance: number;
+  standardDeviation: number;
+}
+
+export interface CovarianceParameterEstimate {
+  name: string;
+  estimate: number;
+  standardError: number; // From the inverse expected information; 0 on the boundary
+}
+
+export interface TypeIIITest {
+  term: string;
+  numDf: number;
+  denDf: number;
+  fValue: number;
+  pValue: number;
+  significant: boolean;
+}
+
+export interface MarginalMean {
+  label: string;
+  levels: Record<string, string>;
+  estimate: number;
+  standardError: number;
+  df: number;
+  confidenceInterval: [number, number];
+  coefficients: number[]; // Row of L so that the mean is L·β
+}
+
+export interface ContrastSpec {
+  name: string;
+  coefficients: Record<string, number>; // Weights by marginal mean label
+}
+
+export interface ContrastResult {
+  contrast: string;
+  estimate: number;
+  standardError: number;
+  df: number;
+  tValue: number;
+  pValue: number;
+  adjustedPValue: number;
+  confidenceInterval: [number, number];
+  significant: boolean;
+}
+
+interface FactorColumn {
+  levels: string[];
+  index: number[];
+}
+
+interface FixedTerm {
+  name: string;
+  factors: string[];
+  covariate: boolean;
+  columns: number[];
+}
+
+interface RandomTerm {
+  name: string;
+  levels: string[];
+  index: number[];
+  indicator: Matrix;
+}
+
+interface CovarianceParameter {
+  name: string;
+  kind: 'variance' | 'correlation';
+}
+
+const SIGNIFICANCE = 0.05;
+
+export class LinearMixedModel {
+  readonly n: number;
+  readonly converged: boolean;
+  readonly iterations: number;
+  readonly logLikelihood: number; // REML
+  readonly aic: number;
+  readonly bic: number;
+  readonly fixedEffects: FixedEffectEstimate[];
+  readonly varianceComponents: VarianceComponent[];
+  readonly covarianceParameters: CovarianceParameterEstimate[];
+  readonly anova: TypeIIITest[];
+  readonly randomEffects: Record<string, Record<string, number>>; // BLUPs by term and level
+  readonly fitted: number[]; // Conditional on the predicted random effects
+  readonly residuals: number[];
+  readonly warnings: string[] = [];
+
+  private beta: number[] = [];
+  private covBeta: Matrix = [];
+  private vInvX: Matrix = [];
+  private derivatives: Matrix[] = [];
+  private thetaCovariance: Matrix = [];
+  private residualDf: number;
+
+  private constructor(
+    readonly spec: MixedModelSpec,
+    private readonly factors: Map<string, FactorColumn>,
+    private readonly covariateMeans: Map<string, number>,
+    private readonly terms: FixedTerm[],
+    private readonly columnNames: string[],
+    private readonly X: Matrix,
+    private readonly y: number[],
+    private readonly randomTerms: RandomTerm[],
+    private readonly parameters: CovarianceParameter[],
+    private readonly covariance: (theta: number[]) => { V: Matrix; derivatives: Matrix[] }
+  ) {
+    this.n = y.length;
+    this.residualDf = this.n - columnNames.length;
+
+    const fit = this.estimate();
+    this.converged = fit.converged;
+    this.iterations = fit.iterations;
+    this.logLikelihood = fit.logLikelihood;
+    const m = parameters.length;
+    this.aic = -2 * fit.logLikelihood + 2 * m;
+    this.bic = -2 * fit.logLikelihood + m * Math.log(this.residualDf);
+    if (!fit.converged) this.warnings.push(`REML did not converge in ${fit.iterations} iterations`);
+
+    this.covarianceParameters = parameters.map((parameter, i) => ({
+      name: parameter.name,
+      estimate: fit.theta[i],
+      standardError: Math.sqrt(Math.max(0, this.thetaCovariance[i][i]))
+    }));
+    this.varianceComponents = parameters
+      .map((parameter, i) => ({ parameter, value: fit.theta[i] }))
+      .filter(({ parameter }) => parameter.kind === 'variance')
+      .map(({ parameter, value }) => ({ term: parameter.name, variance: value, standardDeviation: Math.sqrt(value) }));
+    this.varianceComponents
+      .filter(component => component.term !== 'Residual' && component.variance === 0)
+      .forEach(component => this.warnings.push(`Variance of ${component.term} is estimated at zero (boundary fit)`));
+
+    this.fixedEffects = columnNames.map((name, j) => {
+      const l = columnNames.map((_, k) => (k === j ? 1 : 0));
+      const { variance, df } = this.satterthwaite(l);
+      const standardError = Math.sqrt(variance);
+      const tValue = this.beta[j] / standardError;
+      return { name, estimate: this.beta[j], standardError, df, tValue, pValue: tTwoSidedPValue(tValue, df) };
+    });
+
+    this.anova = terms.map(term => {
+      const L = term.columns.map(column => columnNames.map((_, k) => (k === column ? 1 : 0)));
+      const test = this.testRows(L);
+      return { term: term.name, ...test, significant: test.pValue < SIGNIFICANCE };
+    });
+
+    const py = fit.py;
+    const blups: Record<string, Record<string, number>> = {};
+    const conditional = X.map(row => dot(row, this.beta));
+    randomTerms.forEach((term, k) => {
+      const sums = new Array(term.levels.length).fill(0);
+      term.index.forEach((level, i) => { sums[level] += py[i]; });
+      const effects = sums.map(sum => fit.theta[k] * sum);
+      blups[term.name] = Object.fromEntries(term.levels.map((level, j) => [level, effects[j]]));
+      term.index.forEach((level, i) => { conditional[i] += effects[level]; });
+    });
+    this.randomEffects = blups;
+    this.fitted = conditional;
+    this.residuals = y.map((value, i) => value - conditional[i]);
+  }
+
+  /**
+   * Fit a linear mixed model by REML
+   */
+  static fit(data: DataPoint[], spec: MixedModelSpec): LinearMixedModel {
+    const covariates = new Set(spec.covariates ?? []);
+    const rows = data.filter(row => row[spec.response] !== null && row[spec.response] !== undefined &&
+      Number.isFinite(Number(row[spec.response])));
+    if (rows.length === 0) {
+      throw new Error(`No observations with a numeric ${spec.response}`);
+    }
+    const y = rows.map(row => Number(row[spec.response]));
+    const n = y.length;
+
+    const factors = new Map<string, FactorColumn>();
+    const factor = (name: string): FactorColumn => {
+      if (!factors.has(name)) {
+        const values = rows.map(row => {
+          if (row[name] === undefined || row[name] === null) {
+            throw new Error(`Missing value for factor ${name}`);
+          }
+          return String(row[name]);
+        });
+        const levels = Array.from(new Set(values)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+        factors.set(name, { levels, index: values.map(value => levels.indexOf(value)) });
+      }
+      return factors.get(name)!;
+    };
+
+    // Fixed effects with sum-to-zero coding so Type III tests and marginal means average over other factors
+    const columns: number[][] = [new Array(n).fill(1)];
+    const columnNames = ['(Intercept)'];
+    const covariateMeans = new Map<string, number>();
+    const terms: FixedTerm[] = spec.fixed.map(termName => {
+      const parts = termName.split(':');
+      if (parts.some(part => covariates.has(part))) {
+        if (parts.length > 1) {
+          throw new Error(`Covariate interactions are not supported (${termName})`);
+        }
+        const values = rows.map(row => Number(row[termName]));
+        if (values.some(value => !Number.isFinite(value))) {
+          throw new Error(`Covariate ${termName} must be numeric`);
+        }
+        covariateMeans.set(termName, values.reduce((sum, value) => sum + value, 0) / n);
+        columns.push(values);
+        columnNames.push(termName);
+        return { name: termName, factors: parts, covariate: true, columns: [columns.length - 1] };
+      }
+
+      const infos = parts.map(part => {
+        const info = factor(part);
+        if (info.levels.length < 2) {
+          throw new Error(`Factor ${part} needs at least two levels`);
+        }
+        return { name: part, info };
+      });
+      const termColumns: number[] = [];
+      const combinations = infos.reduce<{ label: string[]; code: (i: number) => number }[]>(
+        (acc, { name, info }) => acc.flatMap(prefix =>
+          info.levels.slice(0, -1).map((level, j) => ({
+            label: [...prefix.label, `${name}[${level}]`],
+            code: (i: number) => prefix.code(i) * effectCode(info.index[i], j, info.levels.length)
+          }))),
+        [{ label: [], code: () => 1 }]
+      );
+      for (const combination of combinations) {
+        columns.push(rows.map((_, i) => combination.code(i)));
+        columnNames.push(combination.label.join(':'));
+        termColumns.push(columns.length - 1);
+      }
+      return { name: termName, factors: parts, covariate: false, columns: termColumns };
+    });
+    const X = rows.map((_, i) => columns.map(column => column[i]));
+    if (n <= columnNames.length) {
+      throw new Error('Not enough observations for the fixed effects');
+    }
+
+    const sameLevel = (index: number[]) => index.map(a => index.map(b => (a === b ? 1 : 0)));
+    const combined = (termName: string): FactorColumn => {
+      const parts = termName.split(':').map(factor);
+      const keys = rows.map((_, i) => parts.map(part => part.levels[part.index[i]]).join(':'));
+      const levels = Array.from(new Set(keys)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+      return { levels, index: keys.map(key => levels.indexOf(key)) };
+    };
+
+    const randomTerms: RandomTerm[] = (spec.random ?? []).map(name => {
+      const { levels, index } = combined(name);
+      return { name, levels, index, indicator: sameLevel(index) };
+    });
+
+    const parameters: CovarianceParameter[] = randomTerms.map(term => ({ name: term.name, kind: 'variance' }));
+    const identity = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+    const structure = spec.repeated?.structure ?? 'independent';
+    let subject: Matrix = identity;
+    let lag: Matrix = [];
+
+    if (spec.repeated) {
+      const subjects = combined(spec.repeated.subject);
+      const times = rows.map(row => row[spec.repeated!.time]);
+      const numeric = times.every(time => Number.isFinite(Number(time)));
+      const distinct = Array.from(new Set(times.map(String))).sort((a, b) =>
+        numeric ? Number(a) - Number(b) : a.localeCompare(b, undefined, { numeric: true }));
+      const rank = times.map(time => distinct.indexOf(String(time)));
+      const seen = new Set(subjects.index.map((s, i) => `${s}@${rank[i]}`));
+      if (seen.size !== n) {
+        throw new Error(`Each ${spec.repeated.subject} must be measured at most once per ${spec.repeated.time}`);
+      }
+      subject = sameLevel(subjects.index);
+      lag = subjects.index.map((a, i) => subjects.index.map((b, j) => (a === b ? Math.abs(rank[i] - rank[j]) : -1)));
+      if (structure === 'compound-symmetry') {
+        parameters.push({ name: `${spec.repeated.subject} covariance`, kind: 'variance' });
+      }
+    }
+    parameters.push({ name: 'Residual', kind: 'variance' });
+    if (structure === 'ar1') {
+      parameters.push({ name: 'AR1 rho', kind: 'correlation' });
+    }
+
+    const randomCount = randomTerms.length;
+    const covariance = (theta: number[]) => {
+      const derivatives: Matrix[] = randomTerms.map(term => term.indicator);
+      let V: Matrix;
+      if (structure === 'ar1') {
+        const sigma2 = theta[randomCount];
+        const rho = theta[randomCount + 1];
+        const A = lag.map(row => row.map(d => (d < 0 ? 0 : d === 0 ? 1 : Math.pow(rho, d))));
+        const dA = lag.map(row => row.map(d => (d < 1 ? 0 : d * Math.pow(rho, d - 1) * sigma2)));
+        derivatives.push(A, dA);
+        V = A.map(row => row.map(value => value * sigma2));
+      } else if (structure === 'compound-symmetry') {
+        derivatives.push(subject, identity);
+        V = subject.map((row, i) => row.map((value, j) => value * theta[randomCount] + identity[i][j] * theta[randomCount + 1]));
+      } else {
+        derivatives.push(identity);
+        V = identity.map(row => row.map(value => value * theta[randomCount]));
+      }
+      randomTerms.forEach((term, k) => {
+        for (let i = 0; i < n; i++) {
+          for (let j = 0; j < n; j++) V[i][j] += theta[k] * term.indicator[i][j];
+        }
+      });
+      return { V, derivatives };
+    };
+
+    return new LinearMixedModel(
+      spec, factors, covariateMeans, terms, columnNames, X, y, randomTerms, parameters, covariance
+    );
+  }
+
+  /**
+   * Estimated marginal (least-squares) means over equally weighted levels of the other factors
+   */
+  estimatedMarginalMeans(factorNames: string | string[], confidenceLevel: number = 0.95): MarginalMean[] {
+    const names = Array.isArray(factorNames) ? factorNames : [factorNames];
+    for (const name of names) {
+      if (!this.terms.some(term => !term.covariate && term.factors.includes(name))) {
+        throw new Error(`${name} is not a fixed factor in the model`);
+      }
+    }
+    const grid = names.reduce<Record<string, string>[]>(
+      (acc, name) => acc.flatMap(prefix => this.factors.get(name)!.levels.map(level => ({ ...prefix, [name]: level }))),
+      [{}]
+    );
+
+    return grid.map(levels => {
+      const l = new Array(this.columnNames.length).fill(0);
+      l[0] = 1;
+      for (const term of this.terms) {
+        if (term.covariate) {
+          l[term.columns[0]] = this.covariateMeans.get(term.name)!;
+          continue;
+        }
+        if (!term.factors.every(name => name in levels)) continue;
+        const codes = term.factors.reduce<number[]>((acc, name) => {
+          const info = this.factors.get(name)!;
+          const index = info.levels.indexOf(levels[name]);
+          const code = info.levels.slice(0, -1).map((_, j) => effectCode(index, j, info.levels.length));
+          return acc.flatMap(prefix => code.map(value => prefix * value));
+        }, [1]);
+        term.columns.forEach((column, k) => { l[column] = codes[k]; });
+      }
+
+      const estimate = dot(l, this.beta);
+      const { variance, df } = this.satterthwaite(l);
+      const standardError = Math.sqrt(variance);
+      const margin = tQuantile(confidenceLevel, df) * standardError;
+      return {
+        label: names.map(name => levels[name]).join(':'),
+        levels,
+        estimate,
+        standardError,
+        df,
+        confidenceInterval: [estimate - margin, estimate + margin],
+        coefficients: l
+      };
+    });
+  }
+
+  /**
+   * Pairwise or custom contrasts among marginal means, each with its own Satterthwaite df
+   */
+  contrasts(
+    means: MarginalMean[],
+    contrasts: 'pairwise' | ContrastSpec[] = 'pairwise',
+    options: { adjust?: 'none' | 'bonferroni' | 'holm'; confidenceLevel?: number } = {}
+  ): ContrastResult[] {
+    const adjust = options.adjust ?? 'none';
+    const confidenceLevel = options.confidenceLevel ?? 0.95;
+    const specs: ContrastSpec[] = contrasts === 'pairwise'
+      ? means.flatMap((a, i) => means.slice(i + 1).map(b => ({
+        name: `${a.label} - ${b.label}`,
+        coefficients: { [a.label]: 1, [b.label]: -1 }
+      })))
+      : contrasts;
+
+    const results = specs.map(spec => {
+      const l = new Array(this.columnNames.length).fill(0);
+      for (const [label, weight] of Object.entries(spec.coefficients)) {
+        const mean = means.find(candidate => candidate.label === label);
+        if (!mean) {
+          throw new Error(`Unknown marginal mean ${label} in contrast ${spec.name}`);
+        }
+        mean.coefficients.forEach((value, k) => { l[k] += weight * value; });
+      }
+      const estimate = dot(l, this.beta);
+      const { variance, df } = this.satterthwaite(l);
+      const standardError = Math.sqrt(variance);
+      const tValue = estimate / standardError;
+      const margin = tQuantile(confidenceLevel, df) * standardError;
+      return {
+        contrast: spec.name,
+        estimate,
+        standardError,
+        df,
+        tValue,
+        pValue: tTwoSidedPValue(tValue, df),
+        adjustedPValue: 0,
+        confidenceInterval: [estimate - margin, estimate + margin] as [number, number],
+        significant: false
+      };
+    });
+
+    const m = results.length;
+    if (adjust === 'holm') {
+      const order = results.map((_, i) => i).sort((a, b) => results[a].pValue - results[b].pValue);
+      let running = 0;
+      order.forEach((index, rank) => {
+        running = Math.max(running, Math.min(1, (m - rank) * results[index].pValue));
+        results[index].adjustedPValue = running;
+      });
+    } else {
+      results.forEach(result => {
+        result.adjustedPValue = adjust === 'bonferroni' ? Math.min(1, m * result.pValue) : result.pValue;
+      });
+    }
+    results.forEach(result => { result.significant = result.adjustedPValue < SIGNIFICANCE; });
+    return results;
+  }
+
+  /**
+   * F test of L·β = 0 with Fai-Cornelius denominator degrees of freedom
+   */
+  testRows(L: Matrix): { numDf: number; denDf: number; fValue: number; pValue: number } {
+    const q = L.length;
+    const M = L.map(a => L.map(b => dot(a, this.covBeta.map(row => dot(row, b)))));
+    const { values, vectors } = symmetricEigen(M);
+    const scale = Math.max(...values.map(Math.abs));
+    const Lb = L.map(row => dot(row, this.beta));
+
+    let f = 0;
+    let rank = 0;
+    const nus: number[] = [];
+    values.forEach((value, m) => {
+      if (value <= 1e-12 * scale) return;
+      const direction = L[0].map((_, k) => L.reduce((sum, row, r) => sum + vectors[r][m] * row[k], 0));
+      const projected = vectors.reduce((sum, row, r) => sum + row[m] * Lb[r], 0);
+      f += projected * projected / value;
+      nus.push(this.satterthwaite(direction).df);
+      rank++;
+    });
+    if (rank < q) this.warnings.push(`Contrast matrix has rank ${rank} < ${q}`);
+
+    let denDf: number;
+    if (rank === 1) {
+      denDf = nus[0];
+    } else {
+      const E = nus.filter(nu => nu > 2).reduce((sum, nu) => sum + nu / (nu - 2), 0);
+      denDf = E > rank ? 2 * E / (E - rank) : Math.min(...nus);
+    }
+    const fValue = f / rank;
+    return { numDf: rank, denDf, fValue, pValue: fUpperTail(fValue, rank, denDf) };
+  }
+
+  private satterthwaite(l: number[]): { variance: number; df: number } {
+    const Cl = this.covBeta.map(row => dot(row, l));
+    const variance = dot(l, Cl);
+    const u = this.vInvX.map(row => dot(row, Cl));
+    const gradient = this.derivatives.map(D => quadraticForm(D, u));
+    const denominator = dot(gradient, this.thetaCovariance.map(row => dot(row, gradient)));
+    const df = denominator > 1e-300 ? 2 * variance * variance / denominator : this.residualDf;
+    return { variance, df: Math.max(1, df) };
+  }
+
+  private estimate(): { theta: number[]; logLikelihood: number; py: number[]; converged: boolean; iterations: number } {
+    const { X, y, parameters } = this;
+    const p = X[0].length;
+    const maxIterations = this.spec.maxIterations ?? 200;
+    const tolerance = this.spec.tolerance ?? 1e-10;
+
+    // Start from the OLS residual variance split evenly across variance parameters
+    const XtX = matMul(transpose(X), X);
+    const olsInverse = invertSymmetric(XtX);
+    if (!olsInverse) {
+      throw new Error('Fixed-effects design is rank deficient');
+    }
+    const olsBeta = olsInverse.inverse.map(row => dot(row, transpose(X).map(column => dot(column, y))));
+    const rss = y.reduce((sum, value, i) => sum + (value - dot(X[i], olsBeta)) ** 2, 0);
+    const s2 = Math.max(rss / this.residualDf, 1e-12);
+    const varianceCount = parameters.filter(parameter => parameter.kind === 'variance').length;
+    let theta = parameters.map(parameter => (parameter.kind === 'variance' ? s2 / varianceCount : 0.3));
+    const residualIndex = parameters.findIndex(parameter => parameter.name === 'Residual');
+    const project = (values: number[]) => values.map((value, i) => {
+      if (parameters[i].kind === 'correlation') return Math.max(-0.999, Math.min(0.999, value));
+      return i === residualIndex ? Math.max(value, 1e-10 * s2) : Math.max(value, 0);
+    });
+
+    let state = this.evaluate(theta, p);
+    let converged = false;
+    let iterations = 0;
+    for (; iterations < maxIterations && !converged; iterations++) {
+      const step = solveSymmetric(state.information, state.score) ?? state.score.map(() => 0);
+      let lambda = 1;
+      let next = state;
+      let nextTheta = theta;
+      for (let halving = 0; halving < 30; halving++) {
+        nextTheta = project(theta.map((value, i) => value + lambda * step[i]));
+        next = this.evaluate(nextTheta, p);
+        if (Number.isFinite(next.logLikelihood) && next.logLikelihood >= state.logLikelihood - 1e-12) break;
+        lambda /= 2;
+      }
+      converged = Math.abs(next.logLikelihood - state.logLikelihood) < tolerance;
+      theta = nextTheta;
+      state = next;
+    }
+
+    // Boundary estimates are held fixed when inverting the information
+    const active = theta.map((value, i) => parameters[i].kind === 'correlation' || i === residualIndex || value > 1e-8 * s2);
+    const activeIndex = active.map((flag, i) => (flag ? i : -1)).filter(i => i >= 0);
+    const subInformation = activeIndex.map(i => activeIndex.map(j => state.information[i][j]));
+    const subInverse = invertSymmetric(subInformation)?.inverse ?? subInformation.map(row => row.map(() => 0));
+    this.thetaCovariance = theta.map(() => theta.map(() => 0));
+    activeIndex.forEach((i, a) => activeIndex.forEach((j, b) => { this.thetaCovariance[i][j] = subInverse[a][b]; }));
+    theta = theta.map((value, i) => (active[i] ? value : 0));
+
+    this.beta = state.beta;
+    this.covBeta = state.covBeta;
+    this.vInvX = state.vInvX;
+    this.derivatives = state.derivatives;
+    return { theta, logLikelihood: state.logLikelihood, py: state.py, converged, iterations };
+  }
+
+  private evaluate(theta: number[], p: number) {
+    const { X, y } = this;
+    const n = y.length;
+    const { V, derivatives } = this.covariance(theta);
+    const vInverse = invertSymmetric(V);
+    if (!vInverse) {
+      return { logLikelihood: -Infinity, score: theta.map(() => 0), information: theta.map(() => theta.map(() => 0)),
+        beta: [], covBeta: [], vInvX: [], derivatives, py: [] };
+    }
+    const Vi = vInverse.inverse;
+    const vInvX = matMul(Vi, X);
+    const xvx = invertSymmetric(matMul(transpose(X), vInvX));
+    if (!xvx) {
+      throw new Error('Fixed-effects design is rank deficient');
+    }
+    const covBeta = xvx.inverse;
+    const beta = covBeta.map(row => dot(row, transpose(vInvX).map(column => dot(column, y))));
+    const vInvXC = matMul(vInvX, covBeta);
+    const P = Vi.map((row, i) => row.map((value, j) => value - dot(vInvXC[i], vInvX[j])));
+    const py = P.map(row => dot(row, y));
+
+    const logLikelihood = -0.5 * ((n - p) * Math.log(2 * Math.PI) + vInverse.logDet + xvx.logDet + dot(y, py));
+    const PD = derivatives.map(D => matMul(P, D));
+    const score = derivatives.map((D, i) => -0.5 * trace(PD[i]) + 0.5 * quadraticForm(D, py));
+    const information = PD.map(a => PD.map(b => 0.5 * traceProduct(a, b)));
+    return { logLikelihood, score, information, beta, covBeta, vInvX, derivatives, py };
+  }
+}
+
+// Sum-to-zero code of level `index` for the j-th contrast column of a k-level factor
+function effectCode(index: number, j: number, k: number): number {
+  if (index === k - 1) return -1;
+  return index === j ? 1 : 0;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function transpose(matrix: Matrix): Matrix {
+  return matrix[0].map((_, j) => matrix.map(row => row[j]));
+}
+
+function matMul(a: Matrix, b: Matrix): Matrix {
+  const columns = b[0].length;
+  return a.map(row => {
+    const result = new Array(columns).fill(0);
+    row.forEach((value, k) => {
+      if (value === 0) return;
+      const other = b[k];
+      for (let j = 0; j < columns; j++) result[j] += value * other[j];
+    });
+    return result;
+  });
+}
+
+function trace(matrix: Matrix): number {
+  return matrix.reduce((sum, row, i) => sum + row[i], 0);
+}
+
+function traceProduct(a: Matrix, b: Matrix): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < a.length; j++) sum += a[i][j] * b[j][i];
+  }
+  return sum;
+}
+
+function quadraticForm(matrix: Matrix, v: number[]): number {
+  return matrix.reduce((sum, row, i) => (v[i] === 0 ? sum : sum + v[i] * dot(row, v)), 0);
+}
+
+/**
+ * Inverse and log-determinant of a symmetric positive-definite matrix by Cholesky
+ */
+function invertSymmetric(matrix: Matrix): { inverse: Matrix; logDet: number } | null {
+  const n = matrix.length;
+  const L: Matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+  let logDet = 0;
+  for (let j = 0; j < n; j++) {
+    let diagonal = matrix[j][j];
+    for (let k = 0; k < j; k++) diagonal -= L[j][k] * L[j][k];
+    if (!(diagonal > 1e-12 * Math.max(1, Math.abs(matrix[j][j])))) return null;
+    L[j][j] = Math.sqrt(diagonal);
+    logDet += 2 * Math.log(L[j][j]);
+    for (let i = j + 1; i < n; i++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      L[i][j] = sum / L[j][j];
+    }
+  }
+
+  // L⁻¹ by forward substitution, then A⁻¹ = L⁻ᵀL⁻¹
+  const Linv: Matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    Linv[i][i] = 1 / L[i][i];
+    for (let j = 0; j < i; j++) {
+      let sum = 0;
+      for (let k = j; k < i; k++) sum -= L[i][k] * Linv[k][j];
+      Linv[i][j] = sum / L[i][i];
+    }
+  }
+  const inverse: Matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = 0;
+      for (let k = i; k < n; k++) sum += Linv[k][i] * Linv[k][j];
+      inverse[i][j] = sum;
+      inverse[j][i] = sum;
+    }
+  }
+  return { inverse, logDet };
+}
+
+function solveSymmetric(matrix: Matrix, b: number[]): number[] | null {
+  const result = invertSymmetric(matrix);
+  return result ? result.inverse.map(row => dot(row, b)) : null;
+}
+
+/**
+ * Cyclic Jacobi eigen-decomposition; eigenvectors are the columns of `vectors`
+ */
+function symmetricEigen(matrix: Matrix): { values: number[]; vectors: Matrix } {
+  const n = matrix.length;
+  const a = matrix.map(row => [...row]);
+  const vectors: Matrix = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let i = 0; i < n; i++) for (let j = i + 1; j < n; j++) off += a[i][j] * a[i][j];
+    if (off < 1e-30) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        const phi = 0.5 * Math.atan2(2 * a[p][q], a[q][q] - a[p][p]);
+        const c = Math.cos(phi);
+        const s = Math.sin(phi);
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = vectors[k][p];
+          const vkq = vectors[k][q];
+          vectors[k][p] = c * vkp - s * vkq;
+          vectors[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { values: a.map((row, i) => row[i]), vectors };
+}
+
+// Distribution functions: Lanczos log-gamma and the continued-fraction incomplete beta
+
+function logGamma(x: number): number {
+  const g = 7;
+  const c = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = c[0];
+  for (let i = 1; i < g + 2; i++) sum += c[i] / (z + i);
+  const t = z + g + 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 500; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return h;
+}
+
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+}
+
+export function tTwoSidedPValue(t: number, df: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+export function fUpperTail(f: number, df1: number, df2: number): number {
+  if (!(f > 0)) return 1;
+  return regularizedIncompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+}
+
+/**
+ * Two-sided t critical value for a confidence level, by bisection on the CDF
+ */
+export function tQuantile(confidenceLevel: number, df: number): number {
+  const alpha = 1 - confidenceLevel;
+  let low = 0;
+  let high = 1;
+  while (tTwoSidedPValue(high, df) > alpha) high *= 2;
+  for (let i = 0; i < 200 && high - low > 1e-12 * high; i++) {
+    const mid = (low + high) / 2;
+    if (tTwoSidedPValue(mid, df) > alpha) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
@@ -3,6 +3,8 @@
  * Production-ready statistical calculations for research applications
  */
 
+import { LinearMixedModel, MixedModelSpec } from './mixed-models';
+
 export interface DataPoint {
   value: number;
   group?: string;
@@ -544,6 +546,13 @@ export class StatisticalAnalysisService {
     return results;
   }
 
+  /**
+   * REML linear mixed model for blocked, split-plot and repeated-measures trials
+   */
+  mixedModel(data: DataPoint[], spec: MixedModelSpec): LinearMixedModel {
+    return LinearMixedModel.fit(data, spec);
+  }
+
   /**
    * Power analysis for one-way ANOVA
    */
@@ -2,6 +2,7 @@
 // This module handles baseline metrics capture, verification, and savings calculation
 
 import { prisma } from './prisma';
+import type { OptionCReport } from './energy/baseline-regression';
 
 export interface BaselineMetrics {
   // Energy Metrics - Detailed
@@ -299,6 +300,8 @@ export interface SavingsCalculation {
     amount: number;
     status: 'pending' | 'invoiced' | 'paid';
   };
+  // Weather-adjusted IPMVP Option C evidence behind the energy savings claim
+  measurementVerification?: OptionCReport;
 }
 
 export class BaselineManager {
@@ -364,7 +367,8 @@ export class BaselineManager {
     currentMetrics: BaselineMetrics,
     periodStart: Date,
     periodEnd: Date,
-    revenueSharePercentage: number = 0.20 // Default 20%
+    revenueSharePercentage: number = 0.20, // Default 20%
+    optionCReport?: OptionCReport
   ): Promise<SavingsCalculation> {
     const baseline = await this.getBaseline(baselineId);
     
@@ -374,9 +378,12 @@ export class BaselineManager {
 
     const baselineMetrics = baseline.metrics;
     
-    // Energy Savings
+    // Energy Savings. A G14-compliant Option C report replaces the raw
+    // before/after difference with weather-adjusted avoided energy use.
     const energy = {
-      kwhReduction: baselineMetrics.energy.totalKwh - currentMetrics.energy.totalKwh,
+      kwhReduction: optionCReport?.acceptance.passed
+        ? optionCReport.savings.energySavings
+        : baselineMetrics.energy.totalKwh - currentMetrics.energy.totalKwh,
       demandReduction: baselineMetrics.energy.peakDemandKw - currentMetrics.energy.peakDemandKw,
       costSavings: 0,
       demandChargeSavings: 0,
@@ -523,7 +530,8 @@ export class BaselineManager {
         percentage: revenueSharePercentage * 100,
         amount: totalSavings * revenueSharePercentage,
         status: 'pending'
-      }
+      },
+      measurementVerification: optionCReport
     };
 
     return savingsCalc;
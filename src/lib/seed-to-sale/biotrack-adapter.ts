@@ -0,0 +1,249 @@
+// BioTrack State Adapter
+// Maps seed-to-sale operations onto the BioTrackTHC JSON API (serverjson.asp)
+
+import { logger } from '@/lib/logging/production-logger';
+import {
+  Harvest,
+  MovementRecord,
+  Package,
+  Plant,
+  PlantBatch,
+  ProductType,
+  StateSystemConfig,
+  Transfer,
+  WasteLog
+} from './tracking-types';
+import type { StateLabResult, StateTraceabilityAdapter } from './state-adapter';
+
+const BIOTRACK_ENDPOINTS: Record<string, string> = {
+  WA: 'https://wa.biotrackthc.net/serverjson.asp',
+  NM: 'https://nm.biotrackthc.net/serverjson.asp',
+  IL: 'https://il.biotrackthc.net/serverjson.asp'
+};
+
+// BioTrack inventory type codes
+const INVENTORY_TYPES: Partial<Record<ProductType, number>> = {
+  [ProductType.Flower]: 28,
+  [ProductType.Trim]: 9,
+  [ProductType.Shake]: 9,
+  [ProductType.PreRoll]: 28,
+  [ProductType.Concentrate]: 24,
+  [ProductType.Edible]: 22,
+  [ProductType.Topical]: 25,
+  [ProductType.Tincture]: 23,
+  [ProductType.Clone]: 7
+};
+const WET_FLOWER = 6;
+const WASTE = 27;
+
+const API_VERSION = '4.0';
+
+type FetchLike = (url: string, init: { method: string; headers: Record<string, string>; body: string }) => Promise<{
+  ok: boolean;
+  status: number;
+  json(): Promise<any>;
+}>;
+
+/**
+ * Session-authenticated BioTrackTHC client; every call is an action posted to one endpoint
+ */
+export class BioTrackClient {
+  private sessionId: string | null = null;
+
+  constructor(
+    private endpoint: string,
+    private credentials: { username: string; password: string; licenseNumber: string },
+    private fetchImpl: FetchLike = (url, init) => fetch(url, init)
+  ) {}
+
+  async login(): Promise<string> {
+    const response = await this.post({
+      action: 'login',
+      username: this.credentials.username,
+      password: this.credentials.password,
+      license_number: this.credentials.licenseNumber
+    });
+    if (!response.sessionid) throw new Error('BioTrack login failed: no session returned');
+    this.sessionId = response.sessionid;
+    return response.sessionid;
+  }
+
+  async call(action: string, params: Record<string, any> = {}): Promise<any> {
+    if (!this.sessionId) await this.login();
+    try {
+      return await this.post({ action, sessionid: this.sessionId, ...params });
+    } catch (error) {
+      // Sessions expire after inactivity; log in again once
+      if (!/session/i.test((error as Error).message)) throw error;
+      await this.login();
+      return this.post({ action, sessionid: this.sessionId, ...params });
+    }
+  }
+
+  private async post(body: Record<string, any>): Promise<any> {
+    const response = await this.fetchImpl(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ API: API_VERSION, ...body })
+    });
+    if (!response.ok) {
+      throw new Error(`BioTrack ${body.action} failed with HTTP ${response.status}`);
+    }
+
+    const result = await response.json();
+    if (Number(result.success) !== 1) {
+      logger.error(`BioTrack ${body.action} rejected`, { error: result.error, errorcode: result.errorcode });
+      throw new Error(`BioTrack ${body.action} failed: ${result.error ?? 'unknown error'}`);
+    }
+    return result;
+  }
+}
+
+export class BioTrackStateAdapter implements StateTraceabilityAdapter {
+  readonly system = 'BioTrack' as const;
+  private client: BioTrackClient;
+
+  constructor(config: StateSystemConfig, client?: BioTrackClient) {
+    const endpoint = config.endpoint || BIOTRACK_ENDPOINTS[config.state?.toUpperCase() ?? ''];
+    if (!client && !endpoint) {
+      throw new Error('BioTrack requires a state code or endpoint');
+    }
+    this.client = client ?? new BioTrackClient(endpoint, {
+      username: config.apiKey,
+      password: config.userKey,
+      licenseNumber: config.licenseNumber
+    });
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.client.login();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async reportPlantBatch(batch: PlantBatch, plants: Plant[]): Promise<void> {
+    await this.client.call('plant_new', {
+      source: batch.sourceBatchId,
+      strain: batch.strain,
+      quantity: plants.length,
+      location: batch.room,
+      barcodeid: plants.map(plant => plant.tagId)
+    });
+  }
+
+  async reportPlantMovement(plants: Plant[], movement: MovementRecord): Promise<void> {
+    await this.client.call('plant_move', {
+      data: plants.map(plant => ({ barcodeid: plant.tagId, location: movement.toLocation }))
+    });
+  }
+
+  async reportPlantStageChange(): Promise<void> {
+    // BioTrack infers growth stage from the plant's room; stage changes arrive as plant_move
+  }
+
+  async reportHarvest(harvest: Harvest, plants: Plant[]): Promise<void> {
+    const share = 1 / Math.max(plants.length, 1);
+    for (const plant of plants) {
+      await this.client.call('plant_harvest', {
+        barcodeid: plant.tagId,
+        new_room: harvest.dryingLocation,
+        collectadditional: 0,
+        weights: [
+          { amount: round(harvest.wetWeight * share), invtype: WET_FLOWER, uom: 'g' },
+          { amount: round(harvest.wasteWeight * share), invtype: WASTE, uom: 'g' }
+        ]
+      });
+    }
+  }
+
+  async reportDryingComplete(harvest: Harvest): Promise<void> {
+    await this.client.call('plant_cure', {
+      barcodeid: harvest.plantIds,
+      location: harvest.dryingLocation,
+      collectadditional: 0,
+      weights: [{ amount: round(harvest.dryWeight ?? 0), invtype: WET_FLOWER, uom: 'g' }]
+    });
+  }
+
+  async reportPackages(harvest: Harvest, packages: Package[]): Promise<void> {
+    await this.client.call('inventory_new', {
+      data: packages.map(pkg => ({
+        barcodeid: pkg.tagId,
+        invtype: INVENTORY_TYPES[pkg.productType] ?? 28,
+        quantity: pkg.weight,
+        uom: pkg.unitOfMeasure,
+        strain: pkg.strain,
+        source_id: harvest.harvestBatchId
+      }))
+    });
+  }
+
+  async reportSale(pkg: Package): Promise<void> {
+    await this.client.call('sale_dispense', {
+      data: [{ barcodeid: pkg.tagId, quantity: pkg.weight, price: pkg.price ?? 0 }]
+    });
+  }
+
+  async reportTransfer(transfer: Transfer): Promise<void> {
+    await this.client.call('inventory_manifest', {
+      vendor_license: transfer.destinationLicense,
+      stop_number: 1,
+      approximate_departure: unixTime(transfer.departureDate),
+      approximate_arrival: unixTime(transfer.estimatedArrival),
+      approximate_route: transfer.route,
+      driver_name: transfer.driver,
+      vehicle: `${transfer.vehicleMake} ${transfer.vehicleModel} ${transfer.vehiclePlate}`.trim(),
+      data: transfer.packages.map(pkg => ({ barcodeid: pkg.tagId }))
+    });
+  }
+
+  async reportTransferReceived(): Promise<void> {
+    // The receiving licensee accepts the manifest in BioTrack
+  }
+
+  async getLabResults(packageTag: string): Promise<StateLabResult[]> {
+    const response = await this.client.call('sync_inventory_qa_sample');
+    const samples: any[] = response.inventory_qa_sample ?? [];
+    return samples
+      .filter(sample => sample.parentid === packageTag || sample.inventoryid === packageTag)
+      .map(sample => ({
+        packageTag,
+        testType: String(sample.type ?? 'qa'),
+        passed: Number(sample.result) === 1,
+        thcPercent: numberOrUndefined(sample.thc),
+        cbdPercent: numberOrUndefined(sample.cbd),
+        moisturePercent: numberOrUndefined(sample.moisture),
+        testedAt: sample.sessiontime ? new Date(Number(sample.sessiontime) * 1000) : undefined
+      }));
+  }
+
+  async reportWaste(waste: WasteLog, destroyed: { plants: Plant[]; packages: Package[] }): Promise<void> {
+    // BioTrack holds scheduled destructions for 72 hours before they can be confirmed
+    const reason = `${waste.reason}: ${waste.notes || waste.method}`;
+    if (destroyed.plants.length > 0) {
+      await this.client.call('plant_destroy_schedule', {
+        barcodeid: destroyed.plants.map(plant => plant.tagId),
+        reason
+      });
+    }
+    for (const pkg of destroyed.packages) {
+      await this.client.call('inventory_destroy_schedule', { barcodeid: pkg.tagId, reason });
+    }
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function unixTime(date: Date): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
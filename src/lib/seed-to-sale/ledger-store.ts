@@ -0,0 +1,399 @@
+// Seed-to-Sale Ledger Storage
+// Current tag state with optimistic concurrency plus an append-only event history
+
+import { prisma } from '@/lib/prisma';
+
+export type LedgerEntityType = 'plant' | 'plant_batch' | 'harvest' | 'package' | 'transfer' | 'waste';
+
+export type LedgerEventType =
+  | 'created'
+  | 'moved'
+  | 'stage_changed'
+  | 'harvested'
+  | 'drying_finished'
+  | 'packaged'
+  | 'transferred'
+  | 'received'
+  | 'delivered'
+  | 'sold'
+  | 'destroyed';
+
+export interface LedgerTagRecord<T = unknown> {
+  id: string;
+  facilityId: string;
+  tag: string;
+  entityType: LedgerEntityType;
+  status: string;
+  state: T;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LedgerEventRecord<T = unknown> {
+  id: string;
+  facilityId: string;
+  tag: string;
+  entityType: LedgerEntityType;
+  sequence: number;
+  type: LedgerEventType;
+  payload: Record<string, unknown>;
+  state: T;
+  actor?: string;
+  occurredAt: Date;
+  recordedAt: Date;
+}
+
+export interface LedgerWrite {
+  tag: string;
+  entityType: LedgerEntityType;
+  status: string;
+  state: unknown;
+  // Version the caller read; 0 creates the tag
+  expectedVersion: number;
+  event: {
+    type: LedgerEventType;
+    payload?: Record<string, unknown>;
+    actor?: string;
+    occurredAt: Date;
+  };
+}
+
+export interface LedgerTagFilter {
+  entityType?: LedgerEntityType;
+  status?: string | string[];
+}
+
+export interface LedgerEventFilter {
+  tag?: string;
+  entityType?: LedgerEntityType;
+  types?: LedgerEventType[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface SeedToSaleLedgerStore {
+  getTag(facilityId: string, tag: string): Promise<LedgerTagRecord | null>;
+  listTags(facilityId: string, filter?: LedgerTagFilter): Promise<LedgerTagRecord[]>;
+  // Applies every write or none of them
+  append(facilityId: string, writes: LedgerWrite[]): Promise<LedgerTagRecord[]>;
+  // Events ordered by occurrence, then by tag sequence
+  listEvents(facilityId: string, filter?: LedgerEventFilter): Promise<LedgerEventRecord[]>;
+}
+
+/**
+ * Raised when a tag changed (or was created) since the caller read it
+ */
+export class LedgerConcurrencyError extends Error {
+  constructor(public tag: string, public expectedVersion: number) {
+    super(
+      expectedVersion === 0
+        ? `Tag ${tag} already exists`
+        : `Tag ${tag} was modified concurrently (expected version ${expectedVersion})`
+    );
+    this.name = 'LedgerConcurrencyError';
+  }
+}
+
+// Rows of the SeedToSaleTag and SeedToSaleEvent models
+interface TagRow {
+  id: string;
+  facilityId: string;
+  tag: string;
+  entityType: string;
+  status: string;
+  state: unknown;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface EventRow {
+  id: string;
+  facilityId: string;
+  sequence: number;
+  type: string;
+  payload: unknown;
+  state: unknown;
+  actor: string | null;
+  occurredAt: Date;
+  recordedAt: Date;
+  tag: { tag: string; entityType: string };
+}
+
+type TagKey = { facilityId_tag: { facilityId: string; tag: string } };
+
+/**
+ * The part of the Prisma client the ledger uses; the generated client satisfies it
+ */
+export interface LedgerTransactionClient {
+  seedToSaleTag: {
+    findUnique(args: { where: TagKey }): Promise<TagRow | null>;
+    findMany(args: {
+      where: { facilityId: string; entityType?: string; status?: string | { in: string[] } };
+      orderBy: { createdAt: 'asc' | 'desc' };
+    }): Promise<TagRow[]>;
+    create(args: {
+      data: Pick<TagRow, 'facilityId' | 'tag' | 'entityType' | 'status' | 'state' | 'version'>;
+    }): Promise<TagRow>;
+    updateMany(args: {
+      where: { facilityId: string; tag: string; version: number };
+      data: { status: string; state: unknown; version: { increment: number } };
+    }): Promise<{ count: number }>;
+  };
+  seedToSaleEvent: {
+    create(args: {
+      data: {
+        facilityId: string;
+        tagId: string;
+        sequence: number;
+        type: LedgerEventType;
+        payload: Record<string, unknown>;
+        state: unknown;
+        actor?: string;
+        occurredAt: Date;
+      };
+    }): Promise<unknown>;
+    findMany(args: {
+      where: {
+        facilityId: string;
+        type?: { in: LedgerEventType[] };
+        occurredAt?: { gte?: Date; lte?: Date };
+        tag?: { tag?: string; entityType?: LedgerEntityType };
+      };
+      include: { tag: { select: { tag: true; entityType: true } } };
+      orderBy: Array<{ occurredAt: 'asc' } | { sequence: 'asc' }>;
+    }): Promise<EventRow[]>;
+  };
+}
+
+export interface LedgerDatabase extends LedgerTransactionClient {
+  $transaction<T>(fn: (tx: LedgerTransactionClient) => Promise<T>): Promise<T>;
+}
+
+export class PrismaLedgerStore implements SeedToSaleLedgerStore {
+  constructor(private db: LedgerDatabase = prisma) {}
+
+  async getTag(facilityId: string, tag: string): Promise<LedgerTagRecord | null> {
+    const record = await this.db.seedToSaleTag.findUnique({
+      where: { facilityId_tag: { facilityId, tag } }
+    });
+    return record ? toTagRecord(record) : null;
+  }
+
+  async listTags(facilityId: string, filter: LedgerTagFilter = {}): Promise<LedgerTagRecord[]> {
+    const records = await this.db.seedToSaleTag.findMany({
+      where: {
+        facilityId,
+        ...(filter.entityType && { entityType: filter.entityType }),
+        ...(filter.status && { status: Array.isArray(filter.status) ? { in: filter.status } : filter.status })
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+    return records.map(toTagRecord);
+  }
+
+  async append(facilityId: string, writes: LedgerWrite[]): Promise<LedgerTagRecord[]> {
+    try {
+      return await this.db.$transaction(async (tx) => {
+        const results: LedgerTagRecord[] = [];
+
+        for (const write of writes) {
+          let record: TagRow | null;
+          if (write.expectedVersion === 0) {
+            record = await tx.seedToSaleTag.create({
+              data: {
+                facilityId,
+                tag: write.tag,
+                entityType: write.entityType,
+                status: write.status,
+                state: write.state,
+                version: 1
+              }
+            });
+          } else {
+            // Compare-and-swap on the version column
+            const updated = await tx.seedToSaleTag.updateMany({
+              where: { facilityId, tag: write.tag, version: write.expectedVersion },
+              data: { status: write.status, state: write.state, version: { increment: 1 } }
+            });
+            if (updated.count === 0) {
+              throw new LedgerConcurrencyError(write.tag, write.expectedVersion);
+            }
+            record = await tx.seedToSaleTag.findUnique({
+              where: { facilityId_tag: { facilityId, tag: write.tag } }
+            });
+            if (!record) {
+              throw new LedgerConcurrencyError(write.tag, write.expectedVersion);
+            }
+          }
+
+          await tx.seedToSaleEvent.create({
+            data: {
+              facilityId,
+              tagId: record.id,
+              sequence: record.version,
+              type: write.event.type,
+              payload: write.event.payload ?? {},
+              state: write.state,
+              actor: write.event.actor,
+              occurredAt: write.event.occurredAt
+            }
+          });
+
+          results.push(toTagRecord(record));
+        }
+
+        return results;
+      });
+    } catch (error) {
+      // Unique violation: another writer created the tag or event sequence first
+      if ((error as { code?: string })?.code === 'P2002') {
+        const write = writes.find(w => w.expectedVersion === 0) ?? writes[0];
+        throw new LedgerConcurrencyError(write.tag, write.expectedVersion);
+      }
+      throw error;
+    }
+  }
+
+  async listEvents(facilityId: string, filter: LedgerEventFilter = {}): Promise<LedgerEventRecord[]> {
+    const occurredAt: { gte?: Date; lte?: Date } = {};
+    if (filter.from) occurredAt.gte = filter.from;
+    if (filter.to) occurredAt.lte = filter.to;
+
+    const records = await this.db.seedToSaleEvent.findMany({
+      where: {
+        facilityId,
+        ...(filter.types && { type: { in: filter.types } }),
+        ...((filter.from || filter.to) && { occurredAt }),
+        ...((filter.tag || filter.entityType) && {
+          tag: {
+            ...(filter.tag && { tag: filter.tag }),
+            ...(filter.entityType && { entityType: filter.entityType })
+          }
+        })
+      },
+      include: { tag: { select: { tag: true, entityType: true } } },
+      orderBy: [{ occurredAt: 'asc' }, { sequence: 'asc' }]
+    });
+
+    return records.map(record => ({
+      id: record.id,
+      facilityId: record.facilityId,
+      tag: record.tag.tag,
+      entityType: record.tag.entityType as LedgerEntityType,
+      sequence: record.sequence,
+      type: record.type as LedgerEventType,
+      payload: record.payload as Record<string, unknown>,
+      state: record.state,
+      actor: record.actor ?? undefined,
+      occurredAt: record.occurredAt,
+      recordedAt: record.recordedAt
+    }));
+  }
+}
+
+/**
+ * Process-local store with the same semantics as the database, for tests and offline tooling.
+ * State is JSON round-tripped so callers see what the database would return.
+ */
+export class InMemoryLedgerStore implements SeedToSaleLedgerStore {
+  private tags: Map<string, LedgerTagRecord> = new Map();
+  private events: LedgerEventRecord[] = [];
+  private nextId = 1;
+
+  async getTag(facilityId: string, tag: string): Promise<LedgerTagRecord | null> {
+    const record = this.tags.get(this.key(facilityId, tag));
+    return record ? { ...record, state: toJson(record.state) } : null;
+  }
+
+  async listTags(facilityId: string, filter: LedgerTagFilter = {}): Promise<LedgerTagRecord[]> {
+    const statuses = filter.status === undefined ? null : ([] as string[]).concat(filter.status);
+    return Array.from(this.tags.values())
+      .filter(record => record.facilityId === facilityId)
+      .filter(record => !filter.entityType || record.entityType === filter.entityType)
+      .filter(record => !statuses || statuses.includes(record.status))
+      .map(record => ({ ...record, state: toJson(record.state) }));
+  }
+
+  async append(facilityId: string, writes: LedgerWrite[]): Promise<LedgerTagRecord[]> {
+    // Validate everything up front so a failed batch leaves no trace
+    const pending = new Map<string, number>();
+    writes.forEach(write => {
+      const key = this.key(facilityId, write.tag);
+      const current = pending.get(key) ?? this.tags.get(key)?.version ?? 0;
+      if (current !== write.expectedVersion) {
+        throw new LedgerConcurrencyError(write.tag, write.expectedVersion);
+      }
+      pending.set(key, current + 1);
+    });
+
+    const now = new Date();
+    return writes.map(write => {
+      const key = this.key(facilityId, write.tag);
+      const existing = this.tags.get(key);
+      const record: LedgerTagRecord = {
+        id: existing?.id ?? `tag_${this.nextId++}`,
+        facilityId,
+        tag: write.tag,
+        entityType: write.entityType,
+        status: write.status,
+        state: toJson(write.state),
+        version: write.expectedVersion + 1,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+      };
+      this.tags.set(key, record);
+
+      this.events.push({
+        id: `evt_${this.nextId++}`,
+        facilityId,
+        tag: write.tag,
+        entityType: write.entityType,
+        sequence: record.version,
+        type: write.event.type,
+        payload: toJson(write.event.payload ?? {}),
+        state: record.state,
+        actor: write.event.actor,
+        occurredAt: write.event.occurredAt,
+        recordedAt: now
+      });
+
+      return { ...record };
+    });
+  }
+
+  async listEvents(facilityId: string, filter: LedgerEventFilter = {}): Promise<LedgerEventRecord[]> {
+    return this.events
+      .filter(event => event.facilityId === facilityId)
+      .filter(event => !filter.tag || event.tag === filter.tag)
+      .filter(event => !filter.entityType || event.entityType === filter.entityType)
+      .filter(event => !filter.types || filter.types.includes(event.type))
+      .filter(event => !filter.from || event.occurredAt >= filter.from)
+      .filter(event => !filter.to || event.occurredAt <= filter.to)
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime() || a.sequence - b.sequence)
+      .map(event => ({ ...event, payload: toJson(event.payload), state: toJson(event.state) }));
+  }
+
+  private key(facilityId: string, tag: string): string {
+    return `${facilityId}:${tag}`;
+  }
+}
+
+function toTagRecord(record: TagRow): LedgerTagRecord {
+  return {
+    id: record.id,
+    facilityId: record.facilityId,
+    tag: record.tag,
+    entityType: record.entityType as LedgerEntityType,
+    status: record.status,
+    state: record.state,
+    version: record.version,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt
+  };
+}
+
+function toJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
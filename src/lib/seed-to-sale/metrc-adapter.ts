@@ -0,0 +1,203 @@
+// METRC State Adapter
+// Maps seed-to-sale operations onto the METRC v1 API
+
+import { METRCClient } from '@/lib/compliance/metrc-client';
+import {
+  Harvest,
+  MovementRecord,
+  Package,
+  Plant,
+  PlantBatch,
+  PlantStage,
+  StateSystemConfig,
+  Transfer,
+  UnitOfMeasure,
+  WasteLog
+} from './tracking-types';
+import type { StateLabResult, StateTraceabilityAdapter } from './state-adapter';
+
+const GROWTH_PHASES: Partial<Record<PlantStage, string>> = {
+  [PlantStage.Vegetative]: 'Vegetative',
+  [PlantStage.Flowering]: 'Flowering'
+};
+
+const UNIT_NAMES: Record<string, string> = {
+  [UnitOfMeasure.Grams]: 'Grams',
+  [UnitOfMeasure.Ounces]: 'Ounces',
+  [UnitOfMeasure.Pounds]: 'Pounds',
+  [UnitOfMeasure.Each]: 'Each'
+};
+
+export class MetrcStateAdapter implements StateTraceabilityAdapter {
+  readonly system = 'METRC' as const;
+  private client: METRCClient;
+
+  constructor(private config: StateSystemConfig, client?: METRCClient) {
+    if (!client && !config.state && !config.endpoint) {
+      throw new Error('METRC requires a state code or endpoint');
+    }
+    this.client = client ?? new METRCClient({
+      apiKey: config.apiKey,
+      userKey: config.userKey,
+      facilityLicense: config.licenseNumber,
+      environment: 'production',
+      state: config.state ?? '',
+      baseUrl: config.endpoint || undefined
+    });
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const facilities = await this.client.getFacilities();
+      return facilities.some(f => f.License?.Number === this.config.licenseNumber);
+    } catch {
+      return false;
+    }
+  }
+
+  async reportPlantBatch(batch: PlantBatch, plants: Plant[]): Promise<void> {
+    // Immature plants are tracked as a batch; individual tags are assigned on growth phase change
+    await this.client.send('POST', '/plantbatches/v1/createplantings', [{
+      Name: batch.name,
+      Type: batch.type === 'Seed' ? 'Seed' : 'Clone',
+      Count: plants.length,
+      Strain: batch.strain,
+      Location: batch.room,
+      ActualDate: isoDate(batch.plantedDate)
+    }]);
+  }
+
+  async reportPlantMovement(plants: Plant[], movement: MovementRecord): Promise<void> {
+    await this.client.send('PUT', '/plants/v1/moveplants', plants.map(plant => ({
+      Label: plant.tagId,
+      Location: movement.toLocation,
+      ActualDate: isoDate(movement.date)
+    })));
+  }
+
+  async reportPlantStageChange(plants: Plant[], stage: PlantStage): Promise<void> {
+    const phase = GROWTH_PHASES[stage];
+    if (!phase) return;
+    await this.client.send('POST', '/plants/v1/changegrowthphases', plants.map(plant => ({
+      Label: plant.tagId,
+      GrowthPhase: phase,
+      NewLocation: plant.location,
+      GrowthDate: isoDate(stage === PlantStage.Flowering ? plant.floweringDate : plant.vegetativeDate)
+    })));
+  }
+
+  async reportHarvest(harvest: Harvest, plants: Plant[]): Promise<void> {
+    // METRC records wet weight per plant; split the harvest evenly
+    const weight = harvest.wetWeight / Math.max(plants.length, 1);
+    await this.client.send('POST', '/plants/v1/harvestplants', plants.map(plant => ({
+      Plant: plant.tagId,
+      Weight: Math.round(weight * 1000) / 1000,
+      UnitOfWeight: 'Grams',
+      DryingLocation: harvest.dryingLocation,
+      HarvestName: harvest.harvestBatchId,
+      ActualDate: isoDate(harvest.harvestDate)
+    })));
+  }
+
+  async reportDryingComplete(): Promise<void> {
+    // METRC has no drying step; dry weight is reported when packages are created
+  }
+
+  async reportPackages(harvest: Harvest, packages: Package[]): Promise<void> {
+    await this.client.send('POST', '/harvests/v1/create/packages', packages.map(pkg => ({
+      Tag: pkg.tagId,
+      Location: pkg.location,
+      Item: `${pkg.strain} ${pkg.productType}`,
+      UnitOfWeight: UNIT_NAMES[pkg.unitOfMeasure] ?? 'Grams',
+      IsProductionBatch: false,
+      ActualDate: isoDate(pkg.packagedDate),
+      Ingredients: [{
+        HarvestName: harvest.harvestBatchId,
+        Weight: pkg.weight,
+        UnitOfWeight: UNIT_NAMES[pkg.unitOfMeasure] ?? 'Grams'
+      }]
+    })));
+  }
+
+  async reportSale(pkg: Package): Promise<void> {
+    await this.client.send('POST', '/sales/v1/receipts', [{
+      SalesDateTime: (pkg.soldDate ?? new Date()).toISOString(),
+      SalesCustomerType: 'Consumer',
+      Transactions: [{
+        PackageLabel: pkg.tagId,
+        Quantity: pkg.weight,
+        UnitOfMeasure: UNIT_NAMES[pkg.unitOfMeasure] ?? 'Grams',
+        TotalAmount: pkg.price ?? 0
+      }]
+    }]);
+  }
+
+  async reportTransfer(transfer: Transfer): Promise<void> {
+    await this.client.send('POST', '/transfers/v1/external/outgoing', [{
+      ShipperLicenseNumber: transfer.originLicense,
+      Destinations: [{
+        RecipientLicenseNumber: transfer.destinationLicense,
+        TransferTypeName: transfer.type,
+        PlannedRoute: transfer.route,
+        EstimatedDepartureDateTime: transfer.departureDate.toISOString(),
+        EstimatedArrivalDateTime: transfer.estimatedArrival.toISOString(),
+        Transporters: [{
+          DriverName: transfer.driver,
+          DriverLicenseNumber: transfer.driverLicense,
+          VehicleMake: transfer.vehicleMake,
+          VehicleModel: transfer.vehicleModel,
+          VehicleLicensePlateNumber: transfer.vehiclePlate
+        }],
+        Packages: transfer.packages.map(pkg => ({
+          PackageLabel: pkg.tagId,
+          WholesalePrice: pkg.unitPrice * pkg.weight
+        }))
+      }]
+    }]);
+  }
+
+  async reportTransferReceived(): Promise<void> {
+    // Receipt is recorded in METRC by the destination licensee
+  }
+
+  async getLabResults(packageTag: string): Promise<StateLabResult[]> {
+    const packages = await this.client.getPackages();
+    const pkg = packages.find(p => p.Label === packageTag);
+    if (!pkg) return [];
+
+    const tests = await this.client.getLabTests(pkg.Id);
+    return tests.map(test => ({
+      packageTag,
+      testType: test.TestTypeName,
+      passed: test.TestPassed,
+      thcPercent: test.ThcPercent,
+      cbdPercent: test.CbdPercent,
+      moisturePercent: test.MoisturePercent,
+      testedAt: test.TestPerformedDate ? new Date(test.TestPerformedDate) : undefined
+    }));
+  }
+
+  async reportWaste(waste: WasteLog, destroyed: { plants: Plant[]; packages: Package[] }): Promise<void> {
+    if (destroyed.plants.length > 0) {
+      await this.client.send('PUT', '/plants/v1/destroyplants', destroyed.plants.map(plant => ({
+        Label: plant.tagId,
+        ReasonNote: `${waste.reason}: ${waste.notes || waste.method}`,
+        ActualDate: isoDate(waste.date)
+      })));
+    }
+    if (destroyed.packages.length > 0) {
+      await this.client.send('POST', '/packages/v1/adjust', destroyed.packages.map(pkg => ({
+        Label: pkg.tagId,
+        Quantity: -pkg.weight,
+        UnitOfMeasure: UNIT_NAMES[pkg.unitOfMeasure] ?? 'Grams',
+        AdjustmentReason: 'Waste',
+        AdjustmentDate: isoDate(waste.date),
+        ReasonNote: `${waste.reason}: ${waste.method}`
+      })));
+    }
+  }
+}
+
+function isoDate(value?: Date): string {
+  return (value ?? new Date()).toISOString().split('T')[0];
+}
@@ -0,0 +1,114 @@
+// State Traceability Adapters
+// The operations SeedToSaleManager reports to a state track-and-trace system,
+// independent of which vendor the state contracts with
+
+import {
+  Harvest,
+  MovementRecord,
+  Package,
+  Plant,
+  PlantBatch,
+  PlantStage,
+  StateSystemConfig,
+  Transfer,
+  WasteLog
+} from './tracking-types';
+import { MetrcStateAdapter } from './metrc-adapter';
+import { BioTrackStateAdapter } from './biotrack-adapter';
+
+export type StateSystem = StateSystemConfig['system'];
+
+export interface StateLabResult {
+  packageTag: string;
+  testType: string;
+  passed: boolean;
+  thcPercent?: number;
+  cbdPercent?: number;
+  moisturePercent?: number;
+  testedAt?: Date;
+}
+
+export interface StateTraceabilityAdapter {
+  readonly system: StateSystem;
+
+  testConnection(): Promise<boolean>;
+
+  // Plants
+  reportPlantBatch(batch: PlantBatch, plants: Plant[]): Promise<void>;
+  reportPlantMovement(plants: Plant[], movement: MovementRecord): Promise<void>;
+  reportPlantStageChange(plants: Plant[], stage: PlantStage): Promise<void>;
+
+  // Harvests
+  reportHarvest(harvest: Harvest, plants: Plant[]): Promise<void>;
+  reportDryingComplete(harvest: Harvest): Promise<void>;
+
+  // Packages
+  reportPackages(harvest: Harvest, packages: Package[]): Promise<void>;
+  reportSale(pkg: Package): Promise<void>;
+
+  // Transfers
+  reportTransfer(transfer: Transfer): Promise<void>;
+  reportTransferReceived(transfer: Transfer): Promise<void>;
+
+  // Lab results
+  getLabResults(packageTag: string): Promise<StateLabResult[]>;
+
+  // Waste
+  reportWaste(waste: WasteLog, destroyed: { plants: Plant[]; packages: Package[] }): Promise<void>;
+}
+
+// Track-and-trace vendor contracted by each state
+export const STATE_TRACEABILITY_SYSTEMS: Record<string, StateSystem> = {
+  AK: 'METRC',
+  AZ: 'METRC',
+  CA: 'METRC',
+  CO: 'METRC',
+  DC: 'METRC',
+  IL: 'BioTrack',
+  LA: 'METRC',
+  MA: 'METRC',
+  MD: 'METRC',
+  ME: 'METRC',
+  MI: 'METRC',
+  MO: 'METRC',
+  MT: 'METRC',
+  NJ: 'METRC',
+  NM: 'BioTrack',
+  NV: 'METRC',
+  OH: 'METRC',
+  OK: 'METRC',
+  OR: 'METRC',
+  SD: 'METRC',
+  WA: 'BioTrack',
+  WV: 'METRC'
+};
+
+export function resolveStateSystem(state: string): StateSystem {
+  const system = STATE_TRACEABILITY_SYSTEMS[state.toUpperCase()];
+  if (!system) throw new Error(`No state traceability system configured for ${state}`);
+  return system;
+}
+
+/**
+ * Build the adapter for a facility's state system configuration
+ */
+export function createStateAdapter(config: StateSystemConfig): StateTraceabilityAdapter {
+  switch (config.system) {
+    case 'METRC':
+      return new MetrcStateAdapter(config);
+    case 'BioTrack':
+      return new BioTrackStateAdapter(config);
+    default:
+      throw new Error(`State system ${config.system} is not supported`);
+  }
+}
+
+/**
+ * Build the adapter for whichever system the facility's state uses
+ */
+export function createStateAdapterForState(
+  state: string,
+  config: Omit<StateSystemConfig, 'system' | 'state'>
+): StateTraceabilityAdapter {
+  return createStateAdapter({ ...config, state, system: resolveStateSystem(state) });
+}
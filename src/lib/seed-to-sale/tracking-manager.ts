@@ -8,39 +8,77 @@ import {
   WasteLog,
   StateSystemConfig,
   PlantStage,
-  BatchStatus,
   HarvestStatus,
   PackageStatus,
   TransferStatus,
   ReportType,
   UnitOfMeasure
 } from './tracking-types';
+import {
+  LedgerEntityType,
+  LedgerEventRecord,
+  LedgerEventType,
+  LedgerTagRecord,
+  LedgerWrite,
+  PrismaLedgerStore,
+  SeedToSaleLedgerStore
+} from './ledger-store';
+import { createStateAdapter, StateTraceabilityAdapter } from './state-adapter';
+import { logger } from '@/lib/logging/production-logger';
+
+export interface LedgerWriteOptions {
+  actor?: string;
+  occurredAt?: Date;
+  // Versions the caller last read, keyed by tag; defaults to the version read inside the call
+  expectedVersions?: Record<string, number>;
+}
+
+export interface StateSyncError {
+  operation: string;
+  system: StateSystemConfig['system'];
+  message: string;
+  occurredAt: Date;
+}
 
+type InventorySnapshot = ReturnType<typeof summarizeInventory>;
+
+/**
+ * Seed-to-sale tracking backed by the ledger store. Every change appends an
+ * immutable event to the affected tags and swaps their state only if nobody
+ * else changed them first.
+ *
+ * Plants and packages are keyed by their state tag (plant.id === plant.tagId);
+ * batches, harvests, transfers and waste logs by their generated id.
+ */
 export class SeedToSaleManager {
-  private plants: Map<string, Plant> = new Map();
-  private batches: Map<string, PlantBatch> = new Map();
-  private harvests: Map<string, Harvest> = new Map();
-  private packages: Map<string, Package> = new Map();
-  private transfers: Map<string, Transfer> = new Map();
-  private wasteLogs: Map<string, WasteLog> = new Map();
   private stateConfig: StateSystemConfig | null = null;
-  
+  private stateAdapter: StateTraceabilityAdapter | null = null;
+  private syncErrors: StateSyncError[] = [];
+
+  constructor(
+    private facilityId: string,
+    private store: SeedToSaleLedgerStore = new PrismaLedgerStore()
+  ) {}
+
   // Plant Management
-  createPlantBatch(batch: Omit<PlantBatch, 'id' | 'createdAt' | 'updatedAt'>): PlantBatch {
+  async createPlantBatch(
+    batch: Omit<PlantBatch, 'id' | 'createdAt' | 'updatedAt'>,
+    options: LedgerWriteOptions = {}
+  ): Promise<PlantBatch> {
+    const now = new Date();
     const newBatch: PlantBatch = {
       ...batch,
-      id: `BATCH-${Date.now()}`,
-      createdAt: new Date(),
-      updatedAt: new Date()
+      id: generateId('BATCH'),
+      createdAt: now,
+      updatedAt: now
     };
-    
-    this.batches.set(newBatch.id, newBatch);
-    
-    // Create individual plants with tags
+
+    const plants: Plant[] = [];
     for (let i = 0; i < batch.count; i++) {
-      const plant: Plant = {
-        id: `PLANT-${Date.now()}-${i}`,
-        tagId: batch.trackingTags[i] || `TAG-${Date.now()}-${i}`,
+      const tagId = batch.trackingTags[i] || `${newBatch.id}-${i + 1}`;
+      plants.push({
+        id: tagId,
+        tagId,
         strain: batch.strain,
         plantBatchId: newBatch.id,
         stage: PlantStage.Clone,
@@ -48,61 +86,80 @@ export class SeedToSaleManager {
         room: batch.room,
         plantedDate: batch.plantedDate,
         height: 0,
-        health: 'Healthy',
+        health: 'Healthy' as Plant['health'],
         notes: '',
         waterings: [],
         feedings: [],
         pestApplications: [],
         movements: [],
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      this.plants.set(plant.id, plant);
+        createdAt: now,
+        updatedAt: now
+      });
     }
-    
+
+    const occurredAt = options.occurredAt ?? batch.plantedDate ?? now;
+    await this.store.append(this.facilityId, [
+      this.createWrite('plant_batch', newBatch.id, newBatch.status, newBatch, 'created', { count: batch.count }, occurredAt, options),
+      ...plants.map(plant =>
+        this.createWrite('plant', plant.tagId, plant.stage, plant, 'created', { plantBatchId: newBatch.id }, occurredAt, options)
+      )
+    ]);
+
     // Sync with state system
-    if (this.stateConfig?.syncEnabled) {
-      this.syncBatchToState(newBatch);
-    }
-    
+    await this.syncToState('reportPlantBatch', adapter => adapter.reportPlantBatch(newBatch, plants));
+
     return newBatch;
   }
 
-  movePlants(plantIds: string[], toLocation: string, reason: string, movedBy: string): void {
-    plantIds.forEach(plantId => {
-      const plant = this.plants.get(plantId);
-      if (!plant) return;
-      
+  async movePlants(
+    plantIds: string[],
+    toLocation: string,
+    reason: string,
+    movedBy: string,
+    options: LedgerWriteOptions = {}
+  ): Promise<Plant[]> {
+    const occurredAt = options.occurredAt ?? new Date();
+    const loaded = await this.loadAll<Plant>(plantIds, 'plant', 'Plant');
+
+    const writes = loaded.map(({ record, state: plant }) => {
       const movement = {
-        date: new Date(),
+        date: occurredAt,
         fromLocation: plant.location,
         toLocation,
         reason,
         movedBy
       };
-      
+
       plant.movements.push(movement);
       plant.location = toLocation;
       plant.room = toLocation.split('-')[0]; // Assuming format "Room-Section"
-      plant.updatedAt = new Date();
-      
-      // Update state tracking
-      if (this.stateConfig?.syncEnabled) {
-        this.syncPlantMovement(plant, movement);
-      }
+      plant.updatedAt = occurredAt;
+
+      return this.updateWrite(record, plant.stage, plant, 'moved', movement, occurredAt, { actor: movedBy, ...options });
     });
+    await this.store.append(this.facilityId, writes);
+
+    const plants = loaded.map(({ state }) => state);
+    // Update state tracking
+    if (plants.length > 0) {
+      const movement = plants[0].movements[plants[0].movements.length - 1];
+      await this.syncToState('reportPlantMovement', adapter => adapter.reportPlantMovement(plants, movement));
+    }
+    return plants;
   }
 
-  updatePlantStage(plantIds: string[], newStage: PlantStage): void {
-    const stageDate = new Date();
-    
-    plantIds.forEach(plantId => {
-      const plant = this.plants.get(plantId);
-      if (!plant) return;
-      
+  async updatePlantStage(
+    plantIds: string[],
+    newStage: PlantStage,
+    options: LedgerWriteOptions = {}
+  ): Promise<Plant[]> {
+    const stageDate = options.occurredAt ?? new Date();
+    const loaded = await this.loadAll<Plant>(plantIds, 'plant', 'Plant');
+
+    const writes = loaded.map(({ record, state: plant }) => {
+      const fromStage = plant.stage;
       plant.stage = newStage;
-      
+
       switch (newStage) {
         case PlantStage.Vegetative:
           plant.vegetativeDate = stageDate;
@@ -111,430 +168,588 @@ export class SeedToSaleManager {
           plant.floweringDate = stageDate;
           break;
       }
-      
-      plant.updatedAt = new Date();
+
+      plant.updatedAt = stageDate;
+      return this.updateWrite(record, newStage, plant, 'stage_changed', { fromStage, toStage: newStage }, stageDate, options);
     });
-    
+    await this.store.append(this.facilityId, writes);
+
+    const plants = loaded.map(({ state }) => state);
     // Sync stage changes
-    if (this.stateConfig?.syncEnabled) {
-      this.syncPlantStageChange(plantIds, newStage);
-    }
+    await this.syncToState('reportPlantStageChange', adapter => adapter.reportPlantStageChange(plants, newStage));
+    return plants;
   }
 
   // Harvest Management
-  createHarvest(harvest: Omit<Harvest, 'id' | 'createdAt' | 'updatedAt'>): Harvest {
+  async createHarvest(
+    harvest: Omit<Harvest, 'id' | 'createdAt' | 'updatedAt'>,
+    options: LedgerWriteOptions = {}
+  ): Promise<Harvest> {
+    const now = new Date();
+    const id = generateId('HARVEST');
     const newHarvest: Harvest = {
       ...harvest,
-      id: `HARVEST-${Date.now()}`,
-      harvestBatchId: `HB-${Date.now()}`,
+      id,
+      harvestBatchId: harvest.harvestBatchId || id.replace('HARVEST', 'HB'),
       status: HarvestStatus.Drying,
-      createdAt: new Date(),
-      updatedAt: new Date()
+      createdAt: now,
+      updatedAt: now
     };
-    
-    this.harvests.set(newHarvest.id, newHarvest);
-    
-    // Update plant status
-    harvest.plantIds.forEach(plantId => {
-      const plant = this.plants.get(plantId);
-      if (plant) {
-        plant.stage = PlantStage.Harvested;
-        plant.harvestDate = harvest.harvestDate;
-        plant.updatedAt = new Date();
-      }
+
+    const occurredAt = options.occurredAt ?? harvest.harvestDate ?? now;
+    const loaded = await this.loadAll<Plant>(harvest.plantIds, 'plant', 'Plant');
+    const plantWrites = loaded.map(({ record, state: plant }) => {
+      plant.stage = PlantStage.Harvested;
+      plant.harvestDate = harvest.harvestDate;
+      plant.updatedAt = occurredAt;
+      return this.updateWrite(record, plant.stage, plant, 'harvested', { harvestId: id }, occurredAt, options);
     });
-    
+
+    await this.store.append(this.facilityId, [
+      this.createWrite('harvest', id, newHarvest.status, newHarvest, 'created', { plantIds: harvest.plantIds, wetWeight: harvest.wetWeight }, occurredAt, options),
+      ...plantWrites
+    ]);
+
     // State system sync
-    if (this.stateConfig?.syncEnabled) {
-      this.syncHarvestToState(newHarvest);
-    }
-    
+    const plants = loaded.map(({ state }) => state);
+    await this.syncToState('reportHarvest', adapter => adapter.reportHarvest(newHarvest, plants));
+
     return newHarvest;
   }
 
-  finishDrying(harvestId: string, dryWeight: number): void {
-    const harvest = this.harvests.get(harvestId);
-    if (!harvest) throw new Error('Harvest not found');
-    
-    harvest.dryingEndDate = new Date();
+  async finishDrying(harvestId: string, dryWeight: number, options: LedgerWriteOptions = {}): Promise<Harvest> {
+    const { record, state: harvest } = await this.load<Harvest>(harvestId, 'harvest', 'Harvest');
+    const occurredAt = options.occurredAt ?? new Date();
+
+    harvest.dryingEndDate = occurredAt;
     harvest.dryWeight = dryWeight;
     harvest.status = HarvestStatus.Curing;
-    harvest.updatedAt = new Date();
-    
-    // Calculate moisture loss
-    const moistureLoss = ((harvest.wetWeight - dryWeight) / harvest.wetWeight) * 100;
-    
+    harvest.updatedAt = occurredAt;
+
+    const moistureLoss = harvest.wetWeight > 0 ? ((harvest.wetWeight - dryWeight) / harvest.wetWeight) * 100 : 0;
+
+    await this.store.append(this.facilityId, [
+      this.updateWrite(record, harvest.status, harvest, 'drying_finished', { dryWeight, moistureLoss }, occurredAt, options)
+    ]);
+
     // Update state system
-    if (this.stateConfig?.syncEnabled) {
-      this.syncDryingComplete(harvest);
-    }
+    await this.syncToState('reportDryingComplete', adapter => adapter.reportDryingComplete(harvest));
+    return harvest;
   }
 
   // Package Management
-  createPackages(
+  async createPackages(
     harvestId: string,
     packageSpecs: Array<{
       weight: number;
       productType: string;
       tagId: string;
-    }>
-  ): Package[] {
-    const harvest = this.harvests.get(harvestId);
-    if (!harvest) throw new Error('Harvest not found');
-    
-    const packages: Package[] = [];
-    let totalPackagedWeight = 0;
-    
-    packageSpecs.forEach(spec => {
-      const pkg: Package = {
-        id: `PKG-${Date.now()}-${packages.length}`,
-        tagId: spec.tagId,
-        productType: spec.productType as any,
-        strain: harvest.strain,
-        harvestBatchId: harvest.harvestBatchId,
-        weight: spec.weight,
-        unitOfMeasure: UnitOfMeasure.Grams,
-        packagedDate: new Date(),
-        status: PackageStatus.Active,
-        location: 'Vault',
-        childPackages: [],
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      this.packages.set(pkg.id, pkg);
-      packages.push(pkg);
-      totalPackagedWeight += spec.weight;
-    });
-    
+    }>,
+    options: LedgerWriteOptions = {}
+  ): Promise<Package[]> {
+    const { record, state: harvest } = await this.load<Harvest>(harvestId, 'harvest', 'Harvest');
+    const occurredAt = options.occurredAt ?? new Date();
+
+    const packages: Package[] = packageSpecs.map(spec => ({
+      id: spec.tagId,
+      tagId: spec.tagId,
+      productType: spec.productType as Package['productType'],
+      strain: harvest.strain,
+      harvestBatchId: harvest.harvestBatchId,
+      weight: spec.weight,
+      unitOfMeasure: UnitOfMeasure.Grams,
+      packagedDate: occurredAt,
+      status: PackageStatus.Active,
+      location: 'Vault',
+      childPackages: [],
+      createdAt: occurredAt,
+      updatedAt: occurredAt
+    }));
+    const totalPackagedWeight = packages.reduce((sum, pkg) => sum + pkg.weight, 0);
+
     // Update harvest with packaged weight
-    harvest.packagedWeight = totalPackagedWeight;
+    harvest.packagedWeight = (harvest.packagedWeight ?? 0) + totalPackagedWeight;
     harvest.status = HarvestStatus.Complete;
-    harvest.updatedAt = new Date();
-    
+    harvest.updatedAt = occurredAt;
+
+    await this.store.append(this.facilityId, [
+      this.updateWrite(
+        record,
+        harvest.status,
+        harvest,
+        'packaged',
+        { packageTags: packages.map(pkg => pkg.tagId), weight: totalPackagedWeight },
+        occurredAt,
+        options
+      ),
+      ...packages.map(pkg =>
+        this.createWrite('package', pkg.tagId, pkg.status, pkg, 'created', { harvestId, weight: pkg.weight }, occurredAt, options)
+      )
+    ]);
+
     // Sync packages
-    if (this.stateConfig?.syncEnabled) {
-      this.syncPackagesToState(packages);
-    }
-    
+    await this.syncToState('reportPackages', adapter => adapter.reportPackages(harvest, packages));
+
     return packages;
   }
 
-  sellPackage(packageId: string, soldTo: string, price: number): void {
-    const pkg = this.packages.get(packageId);
-    if (!pkg) throw new Error('Package not found');
-    
+  async sellPackage(packageId: string, soldTo: string, price: number, options: LedgerWriteOptions = {}): Promise<Package> {
+    const { record, state: pkg } = await this.load<Package>(packageId, 'package', 'Package');
+    if (pkg.status !== PackageStatus.Active) {
+      throw new Error(`Package ${packageId} is ${pkg.status} and cannot be sold`);
+    }
+    const occurredAt = options.occurredAt ?? new Date();
+
     pkg.status = PackageStatus.Sold;
-    pkg.soldDate = new Date();
+    pkg.soldDate = occurredAt;
     pkg.soldTo = soldTo;
     pkg.price = price;
-    pkg.updatedAt = new Date();
-    
-    // Create sales report entry
-    this.createSalesReportEntry(pkg);
-    
+    pkg.updatedAt = occurredAt;
+
+    await this.store.append(this.facilityId, [
+      this.updateWrite(record, pkg.status, pkg, 'sold', { soldTo, price }, occurredAt, options)
+    ]);
+
     // Sync sale
-    if (this.stateConfig?.syncEnabled) {
-      this.syncPackageSale(pkg);
-    }
+    await this.syncToState('reportSale', adapter => adapter.reportSale(pkg));
+    return pkg;
   }
 
   // Transfer Management
-  createTransfer(transfer: Omit<Transfer, 'id' | 'createdAt' | 'updatedAt'>): Transfer {
+  async createTransfer(
+    transfer: Omit<Transfer, 'id' | 'createdAt' | 'updatedAt'>,
+    options: LedgerWriteOptions = {}
+  ): Promise<Transfer> {
+    const now = new Date();
     const newTransfer: Transfer = {
       ...transfer,
-      id: `XFER-${Date.now()}`,
+      id: generateId('XFER'),
       manifestNumber: this.generateManifestNumber(),
       status: TransferStatus.Pending,
-      createdAt: new Date(),
-      updatedAt: new Date()
+      createdAt: now,
+      updatedAt: now
     };
-    
-    this.transfers.set(newTransfer.id, newTransfer);
-    
-    // Update package status
-    transfer.packages.forEach(pkg => {
-      const packageItem = this.packages.get(pkg.packageId);
-      if (packageItem) {
-        packageItem.status = PackageStatus.InTransit;
-        packageItem.manifestId = newTransfer.manifestNumber;
-        packageItem.updatedAt = new Date();
-      }
+
+    const occurredAt = options.occurredAt ?? now;
+    const loaded = await this.loadAll<Package>(transfer.packages.map(pkg => pkg.packageId), 'package', 'Package');
+    const packageWrites = loaded.map(({ record, state: pkg }) => {
+      pkg.status = PackageStatus.InTransit;
+      pkg.manifestId = newTransfer.manifestNumber;
+      pkg.updatedAt = occurredAt;
+      return this.updateWrite(
+        record,
+        pkg.status,
+        pkg,
+        'transferred',
+        { transferId: newTransfer.id, manifestNumber: newTransfer.manifestNumber, destinationLicense: transfer.destinationLicense },
+        occurredAt,
+        options
+      );
     });
-    
+
+    await this.store.append(this.facilityId, [
+      this.createWrite('transfer', newTransfer.id, newTransfer.status, newTransfer, 'created', { manifestNumber: newTransfer.manifestNumber }, occurredAt, options),
+      ...packageWrites
+    ]);
+
     // Generate manifest and sync
-    if (this.stateConfig?.syncEnabled) {
-      this.syncTransferToState(newTransfer);
-    }
-    
+    await this.syncToState('reportTransfer', adapter => adapter.reportTransfer(newTransfer));
+
     return newTransfer;
   }
 
-  completeTransfer(transferId: string): void {
-    const transfer = this.transfers.get(transferId);
-    if (!transfer) throw new Error('Transfer not found');
-    
+  async completeTransfer(transferId: string, options: LedgerWriteOptions = {}): Promise<Transfer> {
+    const { record, state: transfer } = await this.load<Transfer>(transferId, 'transfer', 'Transfer');
+    const occurredAt = options.occurredAt ?? new Date();
+
     transfer.status = TransferStatus.Delivered;
-    transfer.actualArrival = new Date();
-    transfer.updatedAt = new Date();
-    
+    transfer.actualArrival = occurredAt;
+    transfer.updatedAt = occurredAt;
+
     // Update package status and location
-    transfer.packages.forEach(pkg => {
-      const packageItem = this.packages.get(pkg.packageId);
-      if (packageItem) {
-        packageItem.status = PackageStatus.Active;
-        packageItem.location = transfer.destinationFacility;
-        packageItem.updatedAt = new Date();
-      }
+    const loaded = await this.loadAll<Package>(transfer.packages.map(pkg => pkg.packageId), 'package', 'Package');
+    const packageWrites = loaded.map(({ record: packageRecord, state: pkg }) => {
+      pkg.status = PackageStatus.Active;
+      pkg.location = transfer.destinationFacility;
+      pkg.updatedAt = occurredAt;
+      return this.updateWrite(packageRecord, pkg.status, pkg, 'received', { transferId, location: pkg.location }, occurredAt, options);
     });
-    
+
+    await this.store.append(this.facilityId, [
+      this.updateWrite(record, transfer.status, transfer, 'delivered', { actualArrival: occurredAt }, occurredAt, options),
+      ...packageWrites
+    ]);
+
     // Sync completion
-    if (this.stateConfig?.syncEnabled) {
-      this.syncTransferComplete(transfer);
-    }
+    await this.syncToState('reportTransferReceived', adapter => adapter.reportTransferReceived(transfer));
+    return transfer;
   }
 
   // Waste Management
-  recordWaste(waste: Omit<WasteLog, 'id' | 'createdAt'>): WasteLog {
+  async recordWaste(waste: Omit<WasteLog, 'id' | 'createdAt'>, options: LedgerWriteOptions = {}): Promise<WasteLog> {
     const newWaste: WasteLog = {
       ...waste,
-      id: `WASTE-${Date.now()}`,
+      id: generateId('WASTE'),
       createdAt: new Date()
     };
-    
-    this.wasteLogs.set(newWaste.id, newWaste);
-    
-    // Update plant/package status
-    waste.plantIds.forEach(plantId => {
-      const plant = this.plants.get(plantId);
-      if (plant) {
-        plant.stage = PlantStage.Destroyed;
-        plant.destroyDate = waste.date;
-        plant.updatedAt = new Date();
-      }
+
+    const occurredAt = options.occurredAt ?? waste.date;
+    const plants = await this.loadAll<Plant>(waste.plantIds, 'plant', 'Plant');
+    const packages = await this.loadAll<Package>(waste.packageIds, 'package', 'Package');
+
+    const plantWrites = plants.map(({ record, state: plant }) => {
+      plant.stage = PlantStage.Destroyed;
+      plant.destroyDate = waste.date;
+      plant.updatedAt = occurredAt;
+      return this.updateWrite(record, plant.stage, plant, 'destroyed', { wasteId: newWaste.id, reason: waste.reason }, occurredAt, options);
     });
-    
-    waste.packageIds.forEach(packageId => {
-      const pkg = this.packages.get(packageId);
-      if (pkg) {
-        pkg.status = PackageStatus.Destroyed;
-        pkg.updatedAt = new Date();
-      }
+    const packageWrites = packages.map(({ record, state: pkg }) => {
+      pkg.status = PackageStatus.Destroyed;
+      pkg.updatedAt = occurredAt;
+      return this.updateWrite(record, pkg.status, pkg, 'destroyed', { wasteId: newWaste.id, reason: waste.reason }, occurredAt, options);
     });
-    
+
+    await this.store.append(this.facilityId, [
+      this.createWrite('waste', newWaste.id, waste.type, newWaste, 'created', { weight: waste.weight, method: waste.method }, occurredAt, {
+        actor: waste.witnessName,
+        ...options
+      }),
+      ...plantWrites,
+      ...packageWrites
+    ]);
+
     // Report to state
-    if (this.stateConfig?.syncEnabled) {
-      this.syncWasteToState(newWaste);
-    }
-    
+    await this.syncToState('reportWaste', adapter =>
+      adapter.reportWaste(newWaste, {
+        plants: plants.map(({ state }) => state),
+        packages: packages.map(({ state }) => state)
+      })
+    );
+
     return newWaste;
   }
 
+  // Ledger queries
+  async getTag<T = unknown>(tag: string): Promise<LedgerTagRecord<T> | null> {
+    const record = await this.store.getTag(this.facilityId, tag);
+    return record ? { ...record, state: reviveDates(record.state) as T } : null;
+  }
+
+  async getHistory(tag: string): Promise<LedgerEventRecord<Record<string, unknown>>[]> {
+    const events = await this.store.listEvents(this.facilityId, { tag });
+    return events.map(event => ({ ...event, state: reviveDates(event.state) as Record<string, unknown> }));
+  }
+
   // Compliance & Reporting
-  generateComplianceReport(type: ReportType, startDate: Date, endDate: Date): ComplianceReport {
-    const reportData = this.collectReportData(type, startDate, endDate);
-    
+  async generateComplianceReport(type: ReportType, startDate: Date, endDate: Date): Promise<ComplianceReport> {
+    const reportData = await this.collectReportData(type, startDate, endDate);
+
     const report: ComplianceReport = {
-      id: `RPT-${Date.now()}`,
+      id: generateId('RPT'),
       type,
       period: `${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`,
       submittedDate: new Date(),
-      status: 'Draft',
+      status: 'Draft' as ComplianceReport['status'],
       data: reportData,
       errors: [],
       warnings: [],
       createdAt: new Date()
     };
-    
+
     // Validate report data
     const validation = this.validateReportData(type, reportData);
     report.errors = validation.errors;
     report.warnings = validation.warnings;
-    
+
     // Submit if no critical errors
     if (validation.errors.filter(e => e.severity === 'Critical').length === 0) {
       if (this.stateConfig?.syncEnabled) {
         this.submitReportToState(report);
       }
     }
-    
+
     return report;
   }
 
   // Inventory Tracking
-  getCurrentInventory() {
-    const inventory = {
-      plants: {
-        clone: 0,
-        vegetative: 0,
-        flowering: 0,
-        total: 0
-      },
-      packages: {
-        flower: { count: 0, weight: 0 },
-        trim: { count: 0, weight: 0 },
-        concentrate: { count: 0, weight: 0 },
-        edible: { count: 0, weight: 0 },
-        total: { count: 0, weight: 0 }
-      },
-      harvests: {
-        drying: 0,
-        curing: 0,
-        processing: 0
-      }
-    };
-    
-    // Count plants by stage
-    this.plants.forEach(plant => {
-      if (plant.stage === PlantStage.Harvested || plant.stage === PlantStage.Destroyed) return;
-      
-      inventory.plants.total++;
-      switch (plant.stage) {
-        case PlantStage.Clone:
-          inventory.plants.clone++;
-          break;
-        case PlantStage.Vegetative:
-          inventory.plants.vegetative++;
-          break;
-        case PlantStage.Flowering:
-          inventory.plants.flowering++;
-          break;
-      }
-    });
-    
-    // Count packages by type
-    this.packages.forEach(pkg => {
-      if (pkg.status !== PackageStatus.Active) return;
-      
-      const type = pkg.productType.toLowerCase();
-      if (type in inventory.packages) {
-        inventory.packages[type as keyof typeof inventory.packages].count++;
-        inventory.packages[type as keyof typeof inventory.packages].weight += pkg.weight;
-      }
-      inventory.packages.total.count++;
-      inventory.packages.total.weight += pkg.weight;
-    });
-    
-    // Count active harvests
-    this.harvests.forEach(harvest => {
-      switch (harvest.status) {
-        case HarvestStatus.Drying:
-          inventory.harvests.drying++;
-          break;
-        case HarvestStatus.Curing:
-          inventory.harvests.curing++;
-          break;
-        case HarvestStatus.Processing:
-          inventory.harvests.processing++;
-          break;
-      }
+  async getCurrentInventory(): Promise<InventorySnapshot> {
+    const [plants, packages, harvests] = await Promise.all([
+      this.store.listTags(this.facilityId, { entityType: 'plant' }),
+      this.store.listTags(this.facilityId, { entityType: 'package' }),
+      this.store.listTags(this.facilityId, { entityType: 'harvest' })
+    ]);
+    return summarizeInventory(
+      plants.map(record => record.state as Plant),
+      packages.map(record => record.state as Package),
+      harvests.map(record => record.state as Harvest)
+    );
+  }
+
+  /**
+   * Inventory as it stood at the given instant, replayed from the event history
+   */
+  async getInventoryAsOf(asOf: Date): Promise<InventorySnapshot> {
+    const events = await this.store.listEvents(this.facilityId, { to: asOf });
+    // Each event holds the tag's full state after its write, so the newest write wins;
+    // a backdated write sorts earlier by occurredAt but carries the higher sequence
+    const latest = new Map<string, LedgerEventRecord>();
+    events.forEach(event => {
+      const current = latest.get(event.tag);
+      if (!current || event.sequence > current.sequence) latest.set(event.tag, event);
     });
-    
-    return inventory;
+
+    const statesOf = <T>(entityType: LedgerEntityType) =>
+      Array.from(latest.values())
+        .filter(event => event.entityType === entityType)
+        .map(event => event.state as T);
+    return summarizeInventory(statesOf<Plant>('plant'), statesOf<Package>('package'), statesOf<Harvest>('harvest'));
   }
 
   // State System Integration
-  configureStateSystem(config: StateSystemConfig): void {
+  /**
+   * Point tracking at the facility's state system and test the connection.
+   * The adapter defaults to the one for config.system.
+   */
+  async configureStateSystem(
+    config: StateSystemConfig,
+    adapter: StateTraceabilityAdapter = createStateAdapter(config)
+  ): Promise<boolean> {
     this.stateConfig = config;
-    
-    // Test connection
-    this.testStateConnection();
-    
-    // Initial sync if enabled
-    if (config.syncEnabled) {
-      this.performFullSync();
-    }
+    this.stateAdapter = adapter;
+    return adapter.testConnection();
   }
 
-  private testStateConnection(): boolean {
-    // Implementation would test actual API connection
-    return true;
+  async getLabResults(packageTag: string) {
+    if (!this.stateAdapter) throw new Error('No state system configured');
+    return this.stateAdapter.getLabResults(packageTag);
   }
 
-  private performFullSync(): void {
-    // Sync all active plants, packages, etc.
+  /**
+   * State calls that failed since configuration. The ledger write has already
+   * succeeded by then, so these need re-reporting rather than a retry of the change.
+   */
+  getSyncErrors(): StateSyncError[] {
+    return [...this.syncErrors];
   }
 
   // Helper methods
+  private async load<T>(tag: string, entityType: LedgerEntityType, label: string): Promise<{ record: LedgerTagRecord; state: T }> {
+    const record = await this.store.getTag(this.facilityId, tag);
+    if (!record || record.entityType !== entityType) throw new Error(`${label} not found: ${tag}`);
+    return { record, state: reviveDates(record.state) as T };
+  }
+
+  private async loadAll<T>(tags: string[], entityType: LedgerEntityType, label: string) {
+    const loaded: Array<{ record: LedgerTagRecord; state: T }> = [];
+    for (const tag of Array.from(new Set(tags))) {
+      loaded.push(await this.load<T>(tag, entityType, label));
+    }
+    return loaded;
+  }
+
+  private createWrite(
+    entityType: LedgerEntityType,
+    tag: string,
+    status: string,
+    state: unknown,
+    type: LedgerEventType,
+    payload: Record<string, unknown>,
+    occurredAt: Date,
+    options: LedgerWriteOptions
+  ): LedgerWrite {
+    return {
+      tag,
+      entityType,
+      status,
+      state,
+      expectedVersion: 0,
+      event: { type, payload, actor: options.actor, occurredAt }
+    };
+  }
+
+  private updateWrite(
+    record: LedgerTagRecord,
+    status: string,
+    state: unknown,
+    type: LedgerEventType,
+    payload: Record<string, unknown>,
+    occurredAt: Date,
+    options: LedgerWriteOptions
+  ): LedgerWrite {
+    return {
+      tag: record.tag,
+      entityType: record.entityType,
+      status,
+      state,
+      expectedVersion: options.expectedVersions?.[record.tag] ?? record.version,
+      event: { type, payload, actor: options.actor, occurredAt }
+    };
+  }
+
   private generateManifestNumber(): string {
     const date = new Date();
     const random = Math.floor(crypto.getRandomValues(new Uint32Array(1))[0] / 0xFFFFFFFF * 10000).toString().padStart(4, '0');
     return `MAN-${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}${date.getDate().toString().padStart(2, '0')}-${random}`;
   }
 
-  private collectReportData(type: ReportType, startDate: Date, endDate: Date): any {
-    // Collect relevant data based on report type
+  private async collectReportData(type: ReportType, startDate: Date, endDate: Date): Promise<any> {
+    // Collect relevant data from the stored history
     const data: any = {};
-    
+
     switch (type) {
       case ReportType.Inventory:
-        data.snapshot = this.getCurrentInventory();
+        data.asOf = endDate;
+        data.snapshot = await this.getInventoryAsOf(endDate);
         break;
-      case ReportType.Sales:
-        data.sales = Array.from(this.packages.values())
-          .filter(pkg => pkg.soldDate && pkg.soldDate >= startDate && pkg.soldDate <= endDate)
-          .map(pkg => ({
-            packageId: pkg.tagId,
-            strain: pkg.strain,
-            weight: pkg.weight,
-            price: pkg.price,
-            soldTo: pkg.soldTo,
-            soldDate: pkg.soldDate
-          }));
+      case ReportType.Sales: {
+        const sales = await this.store.listEvents(this.facilityId, {
+          entityType: 'package',
+          types: ['sold'],
+          from: startDate,
+          to: endDate
+        });
+        data.sales = sales.map(event => ({
+          packageId: event.tag,
+          strain: (event.state as Package).strain,
+          weight: (event.state as Package).weight,
+          price: event.payload.price,
+          soldTo: event.payload.soldTo,
+          soldDate: event.occurredAt
+        }));
         break;
-      case ReportType.Waste:
-        data.waste = Array.from(this.wasteLogs.values())
-          .filter(w => w.date >= startDate && w.date <= endDate);
+      }
+      case ReportType.Waste: {
+        const waste = await this.store.listEvents(this.facilityId, {
+          entityType: 'waste',
+          types: ['created'],
+          from: startDate,
+          to: endDate
+        });
+        data.waste = waste.map(event => reviveDates(event.state) as WasteLog);
         break;
+      }
     }
-    
+
     return data;
   }
 
   private validateReportData(type: ReportType, data: any): { errors: any[], warnings: any[] } {
     const errors: any[] = [];
     const warnings: any[] = [];
-    
+
     // Validation logic based on report type and state requirements
-    
+
     return { errors, warnings };
   }
 
-  // State system sync methods (implementations would vary by system)
-  private syncBatchToState(batch: PlantBatch): void {
-  }
+  // State system sync; the ledger stays the source of truth when the state call fails
+  private async syncToState(
+    operation: string,
+    report: (adapter: StateTraceabilityAdapter) => Promise<void>
+  ): Promise<void> {
+    if (!this.stateConfig?.syncEnabled || !this.stateAdapter) return;
 
-  private syncPlantMovement(plant: Plant, movement: any): void {
+    try {
+      await report(this.stateAdapter);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`State sync ${operation} failed`, { facilityId: this.facilityId, system: this.stateAdapter.system, message });
+      this.syncErrors.push({ operation, system: this.stateAdapter.system, message, occurredAt: new Date() });
+    }
   }
 
-  private syncPlantStageChange(plantIds: string[], stage: PlantStage): void {
+  private submitReportToState(report: ComplianceReport): void {
   }
+}
 
-  private syncHarvestToState(harvest: Harvest): void {
-  }
+function summarizeInventory(plants: Plant[], packages: Package[], harvests: Harvest[]) {
+  const inventory = {
+    plants: {
+      clone: 0,
+      vegetative: 0,
+      flowering: 0,
+      total: 0
+    },
+    packages: {
+      flower: { count: 0, weight: 0 },
+      trim: { count: 0, weight: 0 },
+      concentrate: { count: 0, weight: 0 },
+      edible: { count: 0, weight: 0 },
+      total: { count: 0, weight: 0 }
+    },
+    harvests: {
+      drying: 0,
+      curing: 0,
+      processing: 0
+    }
+  };
 
-  private syncDryingComplete(harvest: Harvest): void {
-  }
+  // Count plants by stage
+  plants.forEach(plant => {
+    if (plant.stage === PlantStage.Harvested || plant.stage === PlantStage.Destroyed) return;
 
-  private syncPackagesToState(packages: Package[]): void {
-  }
+    inventory.plants.total++;
+    switch (plant.stage) {
+      case PlantStage.Clone:
+        inventory.plants.clone++;
+        break;
+      case PlantStage.Vegetative:
+        inventory.plants.vegetative++;
+        break;
+      case PlantStage.Flowering:
+        inventory.plants.flowering++;
+        break;
+    }
+  });
 
-  private syncPackageSale(pkg: Package): void {
-  }
+  // Count packages by type
+  packages.forEach(pkg => {
+    if (pkg.status !== PackageStatus.Active) return;
 
-  private syncTransferToState(transfer: Transfer): void {
-  }
+    const type = pkg.productType.toLowerCase();
+    if (type in inventory.packages) {
+      inventory.packages[type as keyof typeof inventory.packages].count++;
+      inventory.packages[type as keyof typeof inventory.packages].weight += pkg.weight;
+    }
+    inventory.packages.total.count++;
+    inventory.packages.total.weight += pkg.weight;
+  });
 
-  private syncTransferComplete(transfer: Transfer): void {
-  }
+  // Count active harvests
+  harvests.forEach(harvest => {
+    switch (harvest.status) {
+      case HarvestStatus.Drying:
+        inventory.harvests.drying++;
+        break;
+      case HarvestStatus.Curing:
+        inventory.harvests.curing++;
+        break;
+      case HarvestStatus.Processing:
+        inventory.harvests.processing++;
+        break;
+    }
+  });
 
-  private syncWasteToState(waste: WasteLog): void {
-  }
+  return inventory;
+}
 
-  private submitReportToState(report: ComplianceReport): void {
-  }
+function generateId(prefix: string): string {
+  const random = crypto.getRandomValues(new Uint32Array(1))[0].toString(36).padStart(7, '0');
+  return `${prefix}-${Date.now()}-${random}`;
+}
 
-  private createSalesReportEntry(pkg: Package): void {
-    // Create internal sales tracking
-  }
-}
\ No newline at end of file
+// Ledger state is stored as JSON; restore the Date fields the tracking types declare
+const DATE_KEY = /(Date|At|Arrival)$|^date$/;
+
+function reviveDates<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(item => reviveDates(item)) as unknown as T;
+  if (!value || typeof value !== 'object' || value instanceof Date) return value;
+
+  const revived: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, field]) => {
+    revived[key] = DATE_KEY.test(key) && typeof field === 'string' && !Number.isNaN(Date.parse(field))
+      ? new Date(field)
+      : reviveDates(field);
+  });
+  return revived as T;
+}
@@ -148,6 +148,7 @@ export interface WasteLog {
 // State System Integration
 export interface StateSystemConfig {
   system: 'METRC' | 'BioTrack' | 'Leaf';
+  state?: string; // Two-letter state code; picks the state's API host when no endpoint is set
   apiKey: string;
   userKey: string;
   licenseNumber: string;
@@ -4,6 +4,14 @@
  * Includes arc flash hazard analysis and protective device coordination
  */
 
+import {
+  ArcFlashEquipmentClass,
+  EQUIPMENT_DEFAULTS,
+  ElectrodeConfiguration,
+  EnclosureDimensions,
+  IEEE1584Calculator
+} from './electrical/ieee1584';
+
 export interface ElectricalBus {
   id: string;
   name: string;
@@ -12,6 +20,34 @@ export interface ElectricalBus {
   frequency: number; // Hz
   xrRatio: number; // X/R ratio
   components: ElectricalComponent[];
+  equipment?: BusEquipment;
+  protectiveDevice?: ProtectiveDeviceSettings; // Device that clears a fault on this bus
+}
+
+export interface BusEquipment {
+  class?: ArcFlashEquipmentClass; // Defaults by voltage
+  electrodeConfiguration?: ElectrodeConfiguration; // Default VCB
+  gap?: number; // mm, Table 8 default for the class
+  workingDistance?: number; // inches, Table 10 default for the class
+  enclosure?: EnclosureDimensions; // mm
+}
+
+export interface ResolvedBusEquipment {
+  class: ArcFlashEquipmentClass;
+  electrodeConfiguration: ElectrodeConfiguration;
+  gap: number; // mm
+  workingDistance: number; // inches
+  enclosure?: EnclosureDimensions; // mm, omitted for open air
+}
+
+export interface ProtectiveDeviceSettings {
+  name: string;
+  rating: number; // A
+  setting?: number; // Long-time pickup as a multiple of rating, default 1
+  timeDial?: number;
+  instantaneous?: number; // A, instantaneous pickup
+  openingTime?: number; // s, breaker interrupting time added to relay trip time
+  clearingTime?: number; // s, fixed total clearing time overriding the curve
 }
 
 export interface ElectricalComponent {
@@ -67,6 +103,12 @@ export interface ArcFlashResult {
   workingDistance: number; // inches
   arcDuration: number; // seconds
   ppeRequired: string;
+  arcingCurrent: number; // A, case that governs incident energy
+  reducedArcingCurrent: number; // A, after the arcing current variation correction
+  electrodeConfiguration: ElectrodeConfiguration;
+  gap: number; // mm
+  enclosureCorrectionFactor: number;
+  warnings: string[];
 }
 
 export interface ProtectiveDeviceResult {
@@ -126,28 +168,86 @@ export class ShortCircuitAnalyzer {
   ): ShortCircuitResult {
     // Build impedance network
     const network = this.buildNetwork(system);
-    
+    return this.analyzeBus(network, system, studyPoint);
+  }
+
+  /**
+   * Short circuit and arc flash study of every bus, source first down the one-line
+   */
+  static analyzeAll(system: ElectricalBus[]): ShortCircuitResult[] {
+    const network = this.buildNetwork(system);
+    return this.busOrder(network).map(id => this.analyzeBus(network, system, id));
+  }
+
+  /**
+   * Buses in one-line order: each source bus followed depth-first by its loads
+   */
+  static busOrder(network: any): string[] {
+    const order: string[] = [];
+    const visit = (id: string) => {
+      if (order.includes(id)) return;
+      order.push(id);
+      for (const connection of network.buses.get(id)?.connections || []) {
+        visit(connection.to);
+      }
+    };
+    for (const id of network.buses.keys()) {
+      if (!network.parents.has(id)) visit(id);
+    }
+    return order;
+  }
+
+  /**
+   * Path of bus IDs from the source down to the given bus
+   */
+  static pathToSource(network: any, busId: string): string[] {
+    const path = [busId];
+    let parent = network.parents.get(busId);
+    while (parent && !path.includes(parent.from)) {
+      path.unshift(parent.from);
+      parent = network.parents.get(parent.from);
+    }
+    return path;
+  }
+
+  private static analyzeBus(network: any, system: ElectricalBus[], studyPoint: string): ShortCircuitResult {
+    const bus = system.find(b => b.id === studyPoint);
+    if (!bus) {
+      throw new Error(`Bus ${studyPoint} not found`);
+    }
+
     // Calculate Thevenin equivalent at study point
     const thevenin = this.calculateThevenin(network, studyPoint);
-    
-    // Calculate fault currents
-    const symmetrical = this.calculateSymmetricalFault(thevenin);
+
+    // Calculate fault currents, including induction motors on the bus
+    const motors = bus.components
+      .filter(c => c.type === 'motor' && c.rating)
+      .map(c => c.rating as ComponentRating);
+    const symmetrical = this.calculateSymmetricalFault(thevenin, this.motorContribution(motors, bus.voltage));
     const asymmetrical = this.calculateAsymmetricalFault(symmetrical);
-    
-    // Arc flash analysis
+
+    // IEEE 1584 uses the symmetrical bolted fault current; the arc lasts until the
+    // device protecting the bus clears it at the arcing current
+    const device = bus.protectiveDevice;
+    const equipment = this.resolveEquipment(bus.voltage, bus.equipment);
     const arcFlash = this.calculateArcFlash(
-      asymmetrical.threePhaseFault,
-      thevenin.voltage,
-      18, // 18" working distance typical
-      0.5 // 0.5s clearing time assumption
+      symmetrical.threePhaseFault,
+      bus.voltage,
+      equipment.workingDistance,
+      device ? (current: number) => this.deviceClearingTime(device, current) : 2,
+      equipment
     );
-    
+    if (!device) {
+      arcFlash.warnings.push('No protective device specified; 2 s maximum arc duration assumed');
+    }
+
     // Protective device coordination
     const protectiveDevice = this.analyzeProtection(
-      asymmetrical.threePhaseFault,
-      studyPoint
+      arcFlash.arcingCurrent,
+      studyPoint,
+      device
     );
-    
+
     return {
       bus: studyPoint,
       symmetrical,
@@ -157,13 +257,50 @@ export class ShortCircuitAnalyzer {
     };
   }
 
+  /**
+   * Fill equipment gap, working distance and enclosure from Tables 8 and 10
+   */
+  static resolveEquipment(voltage: number, equipment: BusEquipment = {}): ResolvedBusEquipment {
+    const equipmentClass = equipment.class ||
+      (voltage <= 600 ? 'lv-panelboard' : voltage <= 5000 ? '5kv-switchgear' : '15kv-switchgear');
+    const defaults = EQUIPMENT_DEFAULTS[equipmentClass];
+    const electrodeConfiguration = equipment.electrodeConfiguration || 'VCB';
+    const openAir = electrodeConfiguration === 'VOA' || electrodeConfiguration === 'HOA';
+
+    return {
+      class: equipmentClass,
+      electrodeConfiguration,
+      gap: equipment.gap || defaults.gap,
+      workingDistance: equipment.workingDistance || defaults.workingDistance / 25.4,
+      enclosure: openAir ? undefined : equipment.enclosure || defaults.enclosure
+    };
+  }
+
+  /**
+   * Total clearing time of a protective device at the given current
+   */
+  static deviceClearingTime(device: ProtectiveDeviceSettings, current: number): number {
+    if (device.clearingTime !== undefined) return device.clearingTime;
+
+    const tripTime = this.deviceTripTime({
+      rating: device.rating,
+      setting: device.setting || 1,
+      timeDial: device.timeDial,
+      instantaneous: device.instantaneous ?? Infinity
+    }, current);
+
+    return tripTime + (device.openingTime || 0);
+  }
+
   /**
    * Build network impedance matrix
    */
   static buildNetwork(system: ElectricalBus[]): any {
     const network = {
       buses: new Map<string, any>(),
-      impedances: new Map<string, ComplexImpedance>()
+      impedances: new Map<string, ComplexImpedance>(),
+      parents: new Map<string, { from: string; through: string }>(),
+      sources: new Map<string, string[]>()
     };
     
     // Process each bus
@@ -190,6 +327,9 @@ export class ShortCircuitAnalyzer {
             to: component.downstream,
             through: component.id
           });
+          network.parents.set(component.downstream, { from: bus.id, through: component.id });
+        } else if (component.type === 'utility' || component.type === 'generator') {
+          network.sources.set(bus.id, [...(network.sources.get(bus.id) || []), component.id]);
         }
       }
     }
@@ -225,17 +365,12 @@ export class ShortCircuitAnalyzer {
    * Calculate Thevenin equivalent impedance
    */
   static calculateThevenin(network: any, point: string): any {
-    // Simplified - would use Ybus matrix reduction in full implementation
-    let totalR = 0;
-    let totalX = 0;
     const bus = network.buses.get(point);
-    
-    // Sum series impedances to source
-    // This is simplified - real implementation would trace all paths
-    for (const [id, impedance] of network.impedances) {
-      totalR += impedance.resistance;
-      totalX += impedance.reactance;
+    if (!bus) {
+      throw new Error(`Bus ${point} not found`);
     }
+
+    const { resistance: totalR, reactance: totalX } = this.theveninImpedance(network, point, new Set());
     
     const totalZ = Math.sqrt(Math.pow(totalR, 2) + Math.pow(totalX, 2));
     const xrRatio = totalX / totalR;
@@ -248,14 +383,56 @@ export class ShortCircuitAnalyzer {
     };
   }
 
+  /**
+   * Radial tree: sources on the bus in parallel with the upstream path, where the
+   * upstream path is the parent's Thevenin impedance plus the feeder or transformer,
+   * referred to this bus voltage by the square of the voltage ratio
+   */
+  private static theveninImpedance(network: any, point: string, visited: Set<string>): { resistance: number; reactance: number } {
+    if (visited.has(point)) {
+      throw new Error(`Loop in one-line at bus ${point}`);
+    }
+    visited.add(point);
+
+    const bus = network.buses.get(point);
+    const branches: Array<{ resistance: number; reactance: number }> = (network.sources.get(point) || [])
+      .map((id: string) => network.impedances.get(id));
+
+    const parent = network.parents.get(point);
+    if (parent && network.buses.has(parent.from)) {
+      const upstream = this.theveninImpedance(network, parent.from, visited);
+      const feeder = network.impedances.get(parent.through);
+      const ratio = Math.pow(bus.voltage / network.buses.get(parent.from).voltage, 2);
+      branches.push({
+        resistance: (upstream.resistance + feeder.resistance) * ratio,
+        reactance: (upstream.reactance + feeder.reactance) * ratio
+      });
+    }
+
+    if (branches.length === 0) {
+      throw new Error(`Bus ${point} is not connected to a utility or generator source`);
+    }
+
+    // Parallel combination of complex impedances
+    let g = 0;
+    let b = 0;
+    for (const z of branches) {
+      const magnitude2 = z.resistance * z.resistance + z.reactance * z.reactance;
+      g += z.resistance / magnitude2;
+      b -= z.reactance / magnitude2;
+    }
+    const y2 = g * g + b * b;
+    return { resistance: g / y2, reactance: -b / y2 };
+  }
+
   /**
    * Calculate symmetrical fault currents
    */
-  static calculateSymmetricalFault(thevenin: any): FaultCurrent {
+  static calculateSymmetricalFault(thevenin: any, motorContribution: number = 0): FaultCurrent {
     const { voltage, magnitude, xrRatio } = thevenin;
     
     // Three-phase fault
-    const i3ph = voltage / (Math.sqrt(3) * magnitude);
+    const i3ph = voltage / (Math.sqrt(3) * magnitude) + motorContribution;
     
     // Line-to-line fault (87% of 3-phase)
     const iLL = 0.87 * i3ph;
@@ -297,75 +474,58 @@ export class ShortCircuitAnalyzer {
    * Calculate arc flash hazard per IEEE 1584-2018
    */
   static calculateArcFlash(
-    faultCurrent: number, // A
+    faultCurrent: number, // A, symmetrical bolted fault
     voltage: number, // V
     workingDistance: number, // inches
-    arcDuration: number // seconds
+    arcDuration: number | ((arcingCurrent: number) => number), // seconds
+    equipment: BusEquipment = {}
   ): ArcFlashResult {
-    // Configuration factor (typical for switchgear)
-    const cf = voltage > 1000 ? 1.0 : 1.5;
-    
-    // Electrode gap (typical values)
-    const gap = voltage > 1000 ? 153 : 32; // mm
-    
-    // Calculate arcing current (simplified IEEE 1584)
-    const k = voltage > 1000 ? 0 : -0.153;
-    const Iarc = Math.pow(10, k + 0.662 * Math.log10(faultCurrent) + 
-                 0.0966 * voltage / 1000 + 
-                 0.000526 * gap +
-                 0.5588 * voltage / 1000 * Math.log10(faultCurrent) -
-                 0.00304 * gap * Math.log10(faultCurrent));
-    
-    // Calculate incident energy
-    // E = 4.184 * Cf * En * (t/0.2) * (610^x / D^x)
-    const En = voltage > 1000 ? 
-      Math.pow(10, -0.555 + 0.959 * Math.log10(Iarc) + 0.0011 * gap) :
-      Math.pow(10, -0.792 + 1.081 * Math.log10(Iarc) + 0.0011 * gap);
-    
-    const x = voltage > 1000 ? 2 : 1.473;
-    const D = workingDistance * 25.4; // convert to mm
-    
-    const incidentEnergy = 4.184 * cf * En * (arcDuration / 0.2) * 
-                          Math.pow(610 / D, x);
-    
-    // Calculate arc flash boundary (1.2 cal/cm² limit)
-    const arcFlashBoundary = Math.pow(
-      4.184 * cf * En * (arcDuration / 0.2) * Math.pow(610, x) / 1.2,
-      1 / x
-    ) / 25.4; // convert to inches
-    
-    // Determine hazard category
-    let hazardCategory: 0 | 1 | 2 | 3 | 4;
-    let ppeRequired: string;
+    const { electrodeConfiguration, gap, enclosure } = this.resolveEquipment(voltage, equipment);
+
+    const result = IEEE1584Calculator.calculate({
+      voltage,
+      boltedFaultCurrent: faultCurrent,
+      electrodeConfiguration,
+      gap,
+      workingDistance: workingDistance * 25.4,
+      enclosure,
+      arcDuration
+    });
+
+    const { hazardCategory, ppeRequired } = this.ppeCategory(result.incidentEnergy);
     
+    return {
+      incidentEnergy: result.incidentEnergy,
+      arcFlashBoundary: result.arcFlashBoundary / 25.4, // convert to inches
+      hazardCategory,
+      workingDistance,
+      arcDuration: result.arcDuration,
+      ppeRequired,
+      arcingCurrent: result.arcingCurrent,
+      reducedArcingCurrent: result.reduced.arcingCurrent,
+      electrodeConfiguration,
+      gap,
+      enclosureCorrectionFactor: result.enclosureCorrectionFactor,
+      warnings: result.warnings
+    };
+  }
+
+  /**
+   * NFPA 70E arc flash PPE category for an incident energy
+   */
+  static ppeCategory(incidentEnergy: number): { hazardCategory: 0 | 1 | 2 | 3 | 4; ppeRequired: string } {
     if (incidentEnergy < 1.2) {
-      hazardCategory = 0;
-      ppeRequired = 'None (below 1.2 cal/cm²)';
+      return { hazardCategory: 0, ppeRequired: 'None (below 1.2 cal/cm²)' };
     } else if (incidentEnergy <= 4) {
-      hazardCategory = 1;
-      ppeRequired = 'Category 1 PPE (4 cal/cm²)';
+      return { hazardCategory: 1, ppeRequired: 'Category 1 PPE (4 cal/cm²)' };
     } else if (incidentEnergy <= 8) {
-      hazardCategory = 2;
-      ppeRequired = 'Category 2 PPE (8 cal/cm²)';
+      return { hazardCategory: 2, ppeRequired: 'Category 2 PPE (8 cal/cm²)' };
     } else if (incidentEnergy <= 25) {
-      hazardCategory = 3;
-      ppeRequired = 'Category 3 PPE (25 cal/cm²)';
+      return { hazardCategory: 3, ppeRequired: 'Category 3 PPE (25 cal/cm²)' };
     } else if (incidentEnergy <= 40) {
-      hazardCategory = 4;
-      ppeRequired = 'Category 4 PPE (40 cal/cm²)';
-    } else {
-      hazardCategory = 4;
-      ppeRequired = 'DANGER - Exceeds Category 4 (>40 cal/cm²)';
+      return { hazardCategory: 4, ppeRequired: 'Category 4 PPE (40 cal/cm²)' };
     }
-    
-    return {
-      incidentEnergy,
-      arcFlashBoundary,
-      hazardCategory,
-      workingDistance,
-      arcDuration,
-      ppeRequired
-    };
+    return { hazardCategory: 4, ppeRequired: 'DANGER - Exceeds Category 4 (>40 cal/cm²)' };
   }
 
   /**
@@ -373,8 +533,20 @@ export class ShortCircuitAnalyzer {
    */
   static analyzeProtection(
     faultCurrent: number,
-    location: string
+    location: string,
+    device?: ProtectiveDeviceSettings
   ): ProtectiveDeviceResult {
+    if (device) {
+      const instantaneous = device.instantaneous !== undefined && faultCurrent >= device.instantaneous;
+      return {
+        device: device.name,
+        tripTime: this.deviceClearingTime(device, faultCurrent),
+        instantaneous,
+        coordinated: true, // Would check upstream/downstream
+        selectivity: true // Would verify discrimination
+      };
+    }
+
     // Simplified - would integrate with actual device curves
     const instantTrip = faultCurrent > 10000; // 10kA instantaneous
     const tripTime = instantTrip ? 0.05 : 0.5; // 50ms or 500ms
@@ -0,0 +1,284 @@
+/**
+ * Green Button Connect My Data (ESPI) Connector
+ * Implements the NAESB REQ.21 ESPI third-party flow against any Data Custodian:
+ * OAuth 2.0 authorization, Batch/Subscription retrieval and BatchList notifications
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { UtilityConnector, UsageData, BillingData, AuthorizationResult, UtilityAPIError } from '../types';
+import { GreenButtonFeed, GreenButtonParser } from '../parsers/green-button-parser';
+import { logger } from '@/lib/logging/production-logger';
+
+export interface GreenButtonCMDConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  dataCustodianUrl: string; // Base URL of the Data Custodian, e.g. https://utility.example.com/DataCustodian
+  authorizationUrl?: string; // Defaults to {dataCustodianUrl}/oauth/authorize
+  tokenUrl?: string; // Defaults to {dataCustodianUrl}/oauth/token
+  scope?: string;
+}
+
+export interface GreenButtonCMDToken {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  token_type: string;
+  scope?: string;
+  resourceURI?: string; // Batch/Subscription URI the token grants access to
+  authorizationURI?: string; // Authorization resource, used to check status or revoke
+}
+
+export interface GreenButtonCMDAuthorization extends AuthorizationResult {
+  resourceUri?: string;
+  authorizationUri?: string;
+}
+
+export interface ESPIWindow {
+  publishedMin?: Date;
+  publishedMax?: Date;
+}
+
+// Interval data and billing summaries, hourly intervals, daily blocks, 13 months of history
+export const DEFAULT_ESPI_SCOPE = 'FB=1_3_4_5_13_14_39;IntervalDuration=3600;BlockDuration=daily;HistoryLength=34128000';
+
+export class GreenButtonCMDConnector implements UtilityConnector {
+  private config: GreenButtonCMDConfig;
+  private parser = new GreenButtonParser();
+  private xmlParser: XMLParser;
+
+  constructor(config: GreenButtonCMDConfig) {
+    const base = config.dataCustodianUrl.replace(/\/$/, '');
+    this.config = {
+      ...config,
+      dataCustodianUrl: base,
+      authorizationUrl: config.authorizationUrl || `${base}/oauth/authorize`,
+      tokenUrl: config.tokenUrl || `${base}/oauth/token`,
+      scope: config.scope || DEFAULT_ESPI_SCOPE
+    };
+
+    this.xmlParser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      removeNSPrefix: true
+    });
+  }
+
+  /**
+   * Get authorization URL the retail customer is sent to for consent
+   */
+  getAuthorizationUrl(state: string): string {
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: this.config.scope!,
+      state
+    });
+
+    return `${this.config.authorizationUrl}?${params.toString()}`;
+  }
+
+  /**
+   * Exchange authorization code for tokens and the subscription resource URI
+   */
+  async exchangeCodeForToken(code: string): Promise<GreenButtonCMDAuthorization> {
+    return this.requestToken(
+      { grant_type: 'authorization_code', code, redirect_uri: this.config.redirectUri },
+      'TOKEN_EXCHANGE_ERROR'
+    );
+  }
+
+  /**
+   * Refresh access token
+   */
+  async refreshAccessToken(refreshToken: string): Promise<GreenButtonCMDAuthorization> {
+    return this.requestToken(
+      { grant_type: 'refresh_token', refresh_token: refreshToken },
+      'TOKEN_REFRESH_ERROR'
+    );
+  }
+
+  /**
+   * Fetch a Batch/Subscription feed, optionally limited to a published window
+   */
+  async fetchSubscriptionFeed(
+    accessToken: string,
+    resourceUri: string,
+    window: ESPIWindow = {}
+  ): Promise<GreenButtonFeed> {
+    const url = new URL(resourceUri);
+    if (window.publishedMin) url.searchParams.set('published-min', this.formatTimestamp(window.publishedMin));
+    if (window.publishedMax) url.searchParams.set('published-max', this.formatTimestamp(window.publishedMax));
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Accept': 'application/atom+xml'
+      }
+    });
+
+    if (!response.ok) {
+      throw new UtilityAPIError(
+        `Failed to fetch ESPI resource: ${response.status}`,
+        response.status === 401 || response.status === 403 ? 'ESPI_UNAUTHORIZED' : 'ESPI_FETCH_ERROR',
+        response.status
+      );
+    }
+
+    const feed = this.parser.parseXML(await response.text());
+    if (!feed?.feed) {
+      return { feed: { entry: [] } };
+    }
+    return feed;
+  }
+
+  /**
+   * Fetch interval usage for a subscription. accountId is the subscription resource URI.
+   */
+  async fetchUsageData(
+    accessToken: string,
+    startDate: Date,
+    endDate: Date,
+    accountId?: string
+  ): Promise<UsageData[]> {
+    if (!accountId) {
+      throw new UtilityAPIError('ESPI subscription resource URI is required', 'ESPI_NO_SUBSCRIPTION');
+    }
+
+    const feed = await this.fetchSubscriptionFeed(accessToken, accountId, {
+      publishedMin: startDate,
+      publishedMax: endDate
+    });
+
+    // Data Custodians filter on block publication; trim to the requested interval window
+    return this.parser.extractUsageData(feed).filter(reading =>
+      reading.timestamp >= startDate && reading.timestamp < endDate
+    );
+  }
+
+  /**
+   * Fetch billing summaries for a subscription. accountId is the subscription resource URI.
+   */
+  async fetchBillingData(
+    accessToken: string,
+    startDate: Date,
+    endDate: Date,
+    accountId?: string
+  ): Promise<BillingData[]> {
+    if (!accountId) {
+      throw new UtilityAPIError('ESPI subscription resource URI is required', 'ESPI_NO_SUBSCRIPTION');
+    }
+
+    const feed = await this.fetchSubscriptionFeed(accessToken, accountId, {
+      publishedMin: startDate,
+      publishedMax: endDate
+    });
+
+    return this.parser.extractBillingData(feed).filter(bill =>
+      bill.endDate >= startDate && bill.startDate <= endDate
+    );
+  }
+
+  /**
+   * Resource URIs from a Data Custodian BatchList notification
+   */
+  parseNotification(xml: string): string[] {
+    let parsed: { BatchList?: { resources?: unknown } } | undefined;
+    try {
+      parsed = this.xmlParser.parse(xml);
+    } catch {
+      throw new UtilityAPIError('Invalid ESPI notification', 'ESPI_INVALID_NOTIFICATION');
+    }
+
+    const resources = parsed?.BatchList?.resources;
+    if (resources === undefined) {
+      throw new UtilityAPIError('ESPI notification has no BatchList', 'ESPI_INVALID_NOTIFICATION');
+    }
+
+    return (Array.isArray(resources) ? resources : [resources])
+      .map((resource: unknown) => String(resource).trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Validate that the subscription is readable with the token
+   */
+  async validateAccount(
+    accessToken: string,
+    accountNumber: string
+  ): Promise<{ valid: boolean; message?: string }> {
+    try {
+      const feed = await this.fetchSubscriptionFeed(accessToken, accountNumber, {
+        publishedMin: new Date()
+      });
+      const entries = Array.isArray(feed.feed.entry) ? feed.feed.entry : [feed.feed.entry].filter(Boolean);
+
+      return {
+        valid: true,
+        message: `Subscription returned ${entries.length} entries`
+      };
+
+    } catch (error) {
+      return {
+        valid: false,
+        message: error instanceof Error ? error.message : 'Subscription validation failed'
+      };
+    }
+  }
+
+  private async requestToken(
+    params: Record<string, string>,
+    errorCode: string
+  ): Promise<GreenButtonCMDAuthorization> {
+    try {
+      const response = await fetch(this.config.tokenUrl!, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json',
+          'Authorization': `Basic ${Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64')}`
+        },
+        body: new URLSearchParams(params).toString()
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new UtilityAPIError(
+          error.error_description || `Token request failed: ${response.status}`,
+          error.error || errorCode,
+          response.status
+        );
+      }
+
+      const token: GreenButtonCMDToken = await response.json();
+
+      return {
+        success: true,
+        accessToken: token.access_token,
+        refreshToken: token.refresh_token,
+        expiresIn: token.expires_in,
+        scope: token.scope,
+        resourceUri: token.resourceURI,
+        authorizationUri: token.authorizationURI,
+        raw: token
+      };
+
+    } catch (error) {
+      logger.error('Green Button CMD token request error:', error as Error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Token request failed'
+      };
+    }
+  }
+
+  /**
+   * ESPI query parameters use xs:dateTime without milliseconds
+   */
+  private formatTimestamp(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+}
+
+export default GreenButtonCMDConnector;
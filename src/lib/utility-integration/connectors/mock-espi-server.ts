@@ -0,0 +1,259 @@
+/**
+ * Mock ESPI Data Custodian
+ * In-process HTTP server implementing the Green Button Connect My Data subset
+ * used by GreenButtonCMDConnector: OAuth authorize/token, Batch/Subscription
+ * feeds filtered by published-min/max, and BatchList notifications. Interval
+ * data is mutable so tests can publish late data and notify again.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+
+export interface MockESPIServerOptions {
+  clientId: string;
+  clientSecret: string;
+  accessTokenTtl?: number; // seconds
+}
+
+export interface MockESPIInterval {
+  start: number; // Unix seconds
+  duration: number; // seconds
+  value: number; // Wh
+}
+
+export interface MockESPIRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+}
+
+const SUBSCRIPTION_ID = '1';
+const DAY_SECONDS = 86400;
+
+export class MockESPIServer {
+  intervals = new Map<number, MockESPIInterval>();
+  requests: MockESPIRequest[] = [];
+
+  private server: http.Server | null = null;
+  private baseUrl = '';
+  private codes = new Set<string>();
+  private accessTokens = new Map<string, number>(); // token -> expiry (ms)
+  private refreshTokens = new Set<string>();
+  private revoked = false;
+
+  constructor(private options: MockESPIServerOptions) {}
+
+  /**
+   * Start listening on an ephemeral port and return the base URL
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => this.send(res, 500, 'application/json', JSON.stringify({ error: String(error) })));
+    });
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) => this.server!.close(error => (error ? reject(error) : resolve())));
+    this.server = null;
+  }
+
+  get subscriptionUri(): string {
+    return `${this.baseUrl}/espi/1_1/resource/Batch/Subscription/${SUBSCRIPTION_ID}`;
+  }
+
+  /**
+   * Publish hourly intervals starting at `start`
+   */
+  addHourlyUsage(start: Date, hours: number, valueWh: (hour: number) => number): void {
+    const first = Math.floor(start.getTime() / 1000);
+    for (let h = 0; h < hours; h++) {
+      const intervalStart = first + h * 3600;
+      this.intervals.set(intervalStart, { start: intervalStart, duration: 3600, value: valueWh(h) });
+    }
+  }
+
+  expireAccessTokens(): void {
+    this.accessTokens.forEach((_, token) => this.accessTokens.set(token, 0));
+  }
+
+  revoke(): void {
+    this.revoked = true;
+  }
+
+  /**
+   * BatchList body the Data Custodian POSTs when new data is available
+   */
+  notificationXml(): string {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<BatchList xmlns="http://naesb.org/espi">',
+      `  <resources>${this.subscriptionUri}</resources>`,
+      '</BatchList>'
+    ].join('\n');
+  }
+
+  async notify(notifyUrl: string): Promise<number> {
+    const response = await fetch(notifyUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/xml' },
+      body: this.notificationXml()
+    });
+    return response.status;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.baseUrl);
+    this.requests.push({ method: req.method || 'GET', path: url.pathname, query: Object.fromEntries(url.searchParams) });
+
+    if (req.method === 'GET' && url.pathname === '/oauth/authorize') {
+      return this.authorize(url, res);
+    }
+    if (req.method === 'POST' && url.pathname === '/oauth/token') {
+      return this.token(req, res);
+    }
+    if (req.method === 'GET' && url.pathname === `/espi/1_1/resource/Batch/Subscription/${SUBSCRIPTION_ID}`) {
+      const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+      const expiry = this.accessTokens.get(token);
+      if (this.revoked || expiry === undefined || expiry < Date.now()) {
+        return this.send(res, 401, 'application/json', JSON.stringify({ error: 'invalid_token' }));
+      }
+      return this.send(res, 200, 'application/atom+xml', this.subscriptionFeed(url.searchParams));
+    }
+
+    this.send(res, 404, 'application/json', JSON.stringify({ error: 'not_found' }));
+  }
+
+  /**
+   * The retail customer approves straight away
+   */
+  private authorize(url: URL, res: http.ServerResponse): void {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (url.searchParams.get('client_id') !== this.options.clientId || !redirectUri) {
+      return this.send(res, 400, 'application/json', JSON.stringify({ error: 'invalid_request' }));
+    }
+
+    const code = crypto.randomBytes(8).toString('hex');
+    this.codes.add(code);
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    location.searchParams.set('state', url.searchParams.get('state') || '');
+    res.writeHead(302, { Location: location.toString() });
+    res.end();
+  }
+
+  private async token(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const expected = `Basic ${Buffer.from(`${this.options.clientId}:${this.options.clientSecret}`).toString('base64')}`;
+    if (req.headers.authorization !== expected) {
+      return this.send(res, 401, 'application/json', JSON.stringify({ error: 'invalid_client' }));
+    }
+
+    const params = new URLSearchParams(await this.readBody(req));
+    const grant = params.get('grant_type');
+    const valid = grant === 'authorization_code'
+      ? this.codes.delete(params.get('code') || '')
+      : grant === 'refresh_token' && !this.revoked && this.refreshTokens.delete(params.get('refresh_token') || '');
+    if (!valid) {
+      return this.send(res, 400, 'application/json', JSON.stringify({ error: 'invalid_grant' }));
+    }
+
+    const ttl = this.options.accessTokenTtl ?? 3600;
+    const accessToken = crypto.randomBytes(16).toString('hex');
+    const refreshToken = crypto.randomBytes(16).toString('hex');
+    this.accessTokens.set(accessToken, Date.now() + ttl * 1000);
+    this.refreshTokens.add(refreshToken);
+
+    this.send(res, 200, 'application/json', JSON.stringify({
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_in: ttl,
+      token_type: 'Bearer',
+      scope: 'FB=1_3_4_5_13_14_39;IntervalDuration=3600;BlockDuration=daily',
+      resourceURI: this.subscriptionUri,
+      authorizationURI: `${this.baseUrl}/espi/1_1/resource/Authorization/${SUBSCRIPTION_ID}`
+    }));
+  }
+
+  /**
+   * One IntervalBlock per day; a block is published when any of its
+   * intervals falls inside [published-min, published-max)
+   */
+  private subscriptionFeed(query: URLSearchParams): string {
+    const min = query.get('published-min') ? Date.parse(query.get('published-min')!) / 1000 : -Infinity;
+    const max = query.get('published-max') ? Date.parse(query.get('published-max')!) / 1000 : Infinity;
+
+    const blocks = new Map<number, MockESPIInterval[]>();
+    Array.from(this.intervals.values())
+      .filter(interval => interval.start + interval.duration > min && interval.start < max)
+      .sort((a, b) => a.start - b.start)
+      .forEach(interval => {
+        const day = interval.start - (interval.start % DAY_SECONDS);
+        blocks.set(day, [...(blocks.get(day) || []), interval]);
+      });
+
+    const resource = `${this.baseUrl}/espi/1_1/resource`;
+    const usagePoint = `${resource}/Subscription/${SUBSCRIPTION_ID}/UsagePoint/1`;
+    const meterReading = `${usagePoint}/MeterReading/1`;
+    const entry = (id: string, links: string[], content: string) => [
+      '  <entry>',
+      `    <id>urn:uuid:${id}</id>`,
+      ...links.map(link => `    ${link}`),
+      `    <content>${content}</content>`,
+      '  </entry>'
+    ].join('\n');
+
+    const entries = [
+      entry('usage-point-1', [`<link rel="self" href="${usagePoint}"/>`],
+        '<UsagePoint xmlns="http://naesb.org/espi"><ServiceCategory><kind>0</kind></ServiceCategory></UsagePoint>'),
+      entry('meter-reading-1', [
+        `<link rel="self" href="${meterReading}"/>`,
+        `<link rel="related" href="${resource}/ReadingType/1"/>`
+      ], '<MeterReading xmlns="http://naesb.org/espi"/>'),
+      entry('reading-type-1', [`<link rel="self" href="${resource}/ReadingType/1"/>`],
+        '<ReadingType xmlns="http://naesb.org/espi"><accumulationBehaviour>4</accumulationBehaviour>' +
+        '<commodity>1</commodity><flowDirection>1</flowDirection><intervalLength>3600</intervalLength>' +
+        '<kind>12</kind><powerOfTenMultiplier>0</powerOfTenMultiplier><uom>72</uom></ReadingType>'),
+      ...Array.from(blocks.entries()).map(([day, intervals]) => entry(`interval-block-${day}`, [
+        `<link rel="self" href="${meterReading}/IntervalBlock/${day}"/>`,
+        `<link rel="up" href="${meterReading}/IntervalBlock"/>`
+      ], [
+        '<IntervalBlock xmlns="http://naesb.org/espi">',
+        `<interval><duration>${DAY_SECONDS}</duration><start>${day}</start></interval>`,
+        ...intervals.map(interval =>
+          `<IntervalReading><timePeriod><duration>${interval.duration}</duration><start>${interval.start}</start></timePeriod>` +
+          `<value>${interval.value}</value></IntervalReading>`
+        ),
+        '</IntervalBlock>'
+      ].join('')))
+    ];
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `  <id>urn:uuid:subscription-${SUBSCRIPTION_ID}</id>`,
+      '  <title>Green Button Subscription Feed</title>',
+      `  <updated>${new Date().toISOString()}</updated>`,
+      ...entries,
+      '</feed>'
+    ].join('\n');
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: http.ServerResponse, status: number, contentType: string, body: string): void {
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(body);
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * Green Button Connect My Data Sync
+ * Keeps one ESPI subscription per authorization, pulls new interval data
+ * incrementally into EnergyReading and power_readings, and tracks holes in the
+ * interval record so they are re-requested on later syncs and notifications.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { encrypt, decrypt, secureCompare } from '@/lib/security/encryption';
+import { logger } from '@/lib/logging/production-logger';
+import { UsageData, UtilityAPIError } from './types';
+import { GreenButtonCMDConnector } from './connectors/green-button-cmd-connector';
+
+export interface IntervalGap {
+  start: Date;
+  end: Date;
+}
+
+export interface GreenButtonSyncResult {
+  subscriptionId: string;
+  facilityId: string;
+  imported: number;
+  backfilled: number;
+  lastIntervalEnd: Date | null;
+  gaps: IntervalGap[];
+}
+
+export interface GreenButtonSyncOptions {
+  stateSecret: string; // Signs the OAuth state so the callback can be handled statelessly
+  stateTtlMs?: number;
+  initialHistoryDays?: number; // How far back the first sync reaches
+  maxGapAgeDays?: number; // Older gaps are given up on instead of re-requested
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Find holes in an interval series. Readings cover [timestamp, timestamp + duration);
+ * with `from`/`to` the series is also checked against the ends of that window.
+ */
+export function detectIntervalGaps(readings: UsageData[], from?: Date, to?: Date): IntervalGap[] {
+  const sorted = readings.slice().sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const gaps: IntervalGap[] = [];
+  let cursor = from ? from.getTime() : sorted[0]?.timestamp.getTime();
+  if (cursor === undefined) {
+    return from && to && to > from ? [{ start: from, end: to }] : [];
+  }
+
+  for (const reading of sorted) {
+    const start = reading.timestamp.getTime();
+    if (start > cursor) {
+      gaps.push({ start: new Date(cursor), end: new Date(start) });
+    }
+    cursor = Math.max(cursor, start + (reading.intervalDuration ?? 3600) * 1000);
+  }
+
+  if (to && to.getTime() > cursor) {
+    gaps.push({ start: new Date(cursor), end: to });
+  }
+
+  return gaps;
+}
+
+export class GreenButtonSyncService {
+  private options: Required<GreenButtonSyncOptions>;
+
+  constructor(
+    private connector: GreenButtonCMDConnector,
+    private dataCustodianUrl: string,
+    options: GreenButtonSyncOptions
+  ) {
+    this.options = {
+      stateTtlMs: 10 * 60 * 1000,
+      initialHistoryDays: 395,
+      maxGapAgeDays: 395,
+      ...options
+    };
+  }
+
+  /**
+   * Start the ESPI authorization for a facility. The state is bound to the user
+   * who started it; callers check that the user belongs to the facility.
+   */
+  beginAuthorization(facilityId: string, userId: string): { authUrl: string; state: string } {
+    const payload = Buffer.from(JSON.stringify({
+      facilityId,
+      userId,
+      issuedAt: Date.now(),
+      nonce: crypto.randomBytes(8).toString('hex')
+    })).toString('base64url');
+    const state = `${payload}.${this.sign(payload)}`;
+
+    return { authUrl: this.connector.getAuthorizationUrl(state), state };
+  }
+
+  /**
+   * Handle the Data Custodian redirect: store the subscription and run the first sync.
+   * Only the user who started the authorization can complete it.
+   */
+  async completeAuthorization(code: string, state: string, userId: string): Promise<GreenButtonSyncResult> {
+    const { facilityId, userId: startedBy } = this.verifyState(state);
+    if (startedBy !== userId) {
+      throw new UtilityAPIError('OAuth state was issued to another user', 'INVALID_STATE', 403);
+    }
+
+    const token = await this.connector.exchangeCodeForToken(code);
+    if (!token.success || !token.accessToken) {
+      throw new UtilityAPIError(token.error || 'Token exchange failed', 'TOKEN_EXCHANGE_ERROR');
+    }
+    if (!token.resourceUri) {
+      throw new UtilityAPIError('Token response did not include a subscription resourceURI', 'ESPI_NO_SUBSCRIPTION');
+    }
+
+    const tokens = {
+      accessToken: encrypt(token.accessToken),
+      refreshToken: token.refreshToken ? encrypt(token.refreshToken) : null,
+      tokenExpiresAt: token.expiresIn ? new Date(Date.now() + token.expiresIn * 1000) : null,
+      authorizationUri: token.authorizationUri ?? null,
+      scope: token.scope ?? null,
+      status: 'active',
+      lastError: null
+    };
+
+    const subscription = await prisma.greenButtonSubscription.upsert({
+      where: { resourceUri: token.resourceUri },
+      create: {
+        facilityId,
+        dataCustodianUrl: this.dataCustodianUrl,
+        resourceUri: token.resourceUri,
+        ...tokens
+      },
+      update: tokens
+    });
+
+    logger.info('Green Button subscription authorized', { facilityId, resourceUri: token.resourceUri });
+
+    return this.syncSubscription(subscription.id);
+  }
+
+  /**
+   * Pull intervals published since the last sync and retry open gaps
+   */
+  async syncSubscription(subscriptionId: string, now: Date = new Date()): Promise<GreenButtonSyncResult> {
+    const subscription = await prisma.greenButtonSubscription.findUnique({ where: { id: subscriptionId } });
+    if (!subscription) {
+      throw new Error(`Green Button subscription ${subscriptionId} not found`);
+    }
+
+    try {
+      const accessToken = await this.getAccessToken(subscription, now);
+      const previousEnd: Date | null = subscription.lastIntervalEnd ? new Date(subscription.lastIntervalEnd) : null;
+      const windowStart = previousEnd ?? new Date(now.getTime() - this.options.initialHistoryDays * DAY_MS);
+
+      const fresh = (await this.connector.fetchUsageData(accessToken, windowStart, now, subscription.resourceUri))
+        .filter(reading => reading.timestamp >= windowStart);
+
+      // Re-request each open gap; whatever is still missing stays open
+      const oldestGap = now.getTime() - this.options.maxGapAgeDays * DAY_MS;
+      const openGaps = this.readGaps(subscription.gaps).filter(gap => gap.end.getTime() > oldestGap);
+      const backfill: UsageData[] = [];
+      const remainingGaps: IntervalGap[] = [];
+      for (const gap of openGaps) {
+        const readings = (await this.connector.fetchUsageData(accessToken, gap.start, gap.end, subscription.resourceUri))
+          .filter(reading => reading.timestamp >= gap.start && reading.timestamp < gap.end);
+        backfill.push(...readings);
+        remainingGaps.push(...detectIntervalGaps(readings, gap.start, gap.end));
+      }
+
+      const newGaps = detectIntervalGaps(fresh, previousEnd ?? undefined);
+      const gaps = [...remainingGaps, ...newGaps].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+      await this.storeReadings(subscription.facilityId, [...fresh, ...backfill]);
+
+      const freshEnd = fresh.reduce(
+        (latest, reading) => Math.max(latest, reading.timestamp.getTime() + (reading.intervalDuration ?? 3600) * 1000),
+        previousEnd?.getTime() ?? 0
+      );
+      const lastIntervalEnd = freshEnd > 0 ? new Date(freshEnd) : null;
+
+      await prisma.greenButtonSubscription.update({
+        where: { id: subscription.id },
+        data: {
+          lastIntervalEnd,
+          lastSyncAt: now,
+          gaps: gaps.map(gap => ({ start: gap.start.toISOString(), end: gap.end.toISOString() })),
+          status: 'active',
+          lastError: null
+        }
+      });
+
+      if (newGaps.length > 0) {
+        logger.warn('Gaps in Green Button interval data', { subscriptionId, gaps: newGaps.length });
+      }
+
+      return {
+        subscriptionId: subscription.id,
+        facilityId: subscription.facilityId,
+        imported: fresh.length,
+        backfilled: backfill.length,
+        lastIntervalEnd,
+        gaps
+      };
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Green Button sync failed';
+      const revoked = error instanceof UtilityAPIError && error.code === 'ESPI_UNAUTHORIZED';
+
+      await prisma.greenButtonSubscription.update({
+        where: { id: subscription.id },
+        data: { status: revoked ? 'revoked' : 'error', lastError: message }
+      });
+
+      logger.error(`Green Button sync failed for subscription ${subscription.id}:`, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync every active subscription for a facility
+   */
+  async syncFacility(facilityId: string): Promise<GreenButtonSyncResult[]> {
+    const subscriptions = await prisma.greenButtonSubscription.findMany({
+      where: { facilityId, status: { in: ['active', 'error'] } }
+    });
+
+    const results: GreenButtonSyncResult[] = [];
+    for (const subscription of subscriptions) {
+      try {
+        results.push(await this.syncSubscription(subscription.id));
+      } catch {
+        // Recorded on the subscription; keep going with the others
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Handle a BatchList notification POSTed by the Data Custodian
+   */
+  async handleNotification(xml: string): Promise<GreenButtonSyncResult[]> {
+    const resourceUris = Array.from(new Set(
+      this.connector.parseNotification(xml)
+        .map(uri => uri.match(/^(.*\/Batch\/Subscription\/[^/?#]+)/)?.[1])
+        .filter((uri): uri is string => !!uri)
+    ));
+
+    if (resourceUris.length === 0) {
+      return [];
+    }
+
+    const subscriptions = await prisma.greenButtonSubscription.findMany({
+      where: { resourceUri: { in: resourceUris }, status: { not: 'revoked' } }
+    });
+
+    const unknown = resourceUris.filter(uri => !subscriptions.some((s: any) => s.resourceUri === uri));
+    if (unknown.length > 0) {
+      logger.warn('Green Button notification for unknown subscriptions', { unknown });
+    }
+
+    const results: GreenButtonSyncResult[] = [];
+    for (const subscription of subscriptions) {
+      results.push(await this.syncSubscription(subscription.id));
+    }
+    return results;
+  }
+
+  private async getAccessToken(subscription: any, now: Date): Promise<string> {
+    const expiresAt = subscription.tokenExpiresAt ? new Date(subscription.tokenExpiresAt).getTime() : Infinity;
+    if (expiresAt - now.getTime() > TOKEN_REFRESH_MARGIN_MS) {
+      return decrypt(subscription.accessToken);
+    }
+
+    if (!subscription.refreshToken) {
+      throw new UtilityAPIError('Green Button access token expired and no refresh token is held', 'ESPI_UNAUTHORIZED', 401);
+    }
+
+    const refreshed = await this.connector.refreshAccessToken(decrypt(subscription.refreshToken));
+    if (!refreshed.success || !refreshed.accessToken) {
+      throw new UtilityAPIError(refreshed.error || 'Token refresh failed', 'TOKEN_REFRESH_ERROR');
+    }
+
+    await prisma.greenButtonSubscription.update({
+      where: { id: subscription.id },
+      data: {
+        accessToken: encrypt(refreshed.accessToken),
+        refreshToken: refreshed.refreshToken ? encrypt(refreshed.refreshToken) : subscription.refreshToken,
+        tokenExpiresAt: refreshed.expiresIn ? new Date(now.getTime() + refreshed.expiresIn * 1000) : null
+      }
+    });
+
+    return refreshed.accessToken;
+  }
+
+  private async storeReadings(facilityId: string, readings: UsageData[]): Promise<void> {
+    if (readings.length === 0) return;
+
+    // A reading can arrive through both the incremental window and a gap retry
+    const unique = Array.from(new Map(readings.map(reading => [reading.timestamp.getTime(), reading])).values());
+
+    await prisma.energyReading.createMany({
+      data: unique.map(reading => ({
+        facilityId,
+        readingType: reading.unit === 'therm' ? 'gas' : 'electricity',
+        value: reading.usage,
+        unit: reading.unit,
+        timestamp: reading.timestamp
+      }))
+    });
+
+    const electric = unique.filter(reading => reading.unit === 'kWh');
+    if (electric.length > 0) {
+      await prisma.power_readings.createMany({
+        data: electric.map(reading => ({
+          facility_id: facilityId,
+          timestamp: reading.timestamp,
+          power_kw: reading.usage / ((reading.intervalDuration ?? 3600) / 3600),
+          energy_kwh: reading.usage,
+          source: 'green_button'
+        }))
+      });
+    }
+  }
+
+  private readGaps(gaps: any): IntervalGap[] {
+    if (!Array.isArray(gaps)) return [];
+    return gaps.map(gap => ({ start: new Date(gap.start), end: new Date(gap.end) }));
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.options.stateSecret).update(payload).digest('base64url');
+  }
+
+  private verifyState(state: string): { facilityId: string; userId: string } {
+    const [payload, signature] = state.split('.');
+    if (!payload || !signature || !secureCompare(signature, this.sign(payload))) {
+      throw new UtilityAPIError('Invalid OAuth state', 'INVALID_STATE', 400);
+    }
+
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (Date.now() - data.issuedAt > this.options.stateTtlMs) {
+      throw new UtilityAPIError('OAuth session expired', 'INVALID_STATE', 400);
+    }
+    return { facilityId: data.facilityId, userId: data.userId };
+  }
+}
+
+/**
+ * Service configured from GREEN_BUTTON_* environment variables
+ */
+export function createGreenButtonSyncService(): GreenButtonSyncService {
+  const dataCustodianUrl = process.env.GREEN_BUTTON_DATA_CUSTODIAN_URL;
+  const clientId = process.env.GREEN_BUTTON_CLIENT_ID;
+  const clientSecret = process.env.GREEN_BUTTON_CLIENT_SECRET;
+  if (!dataCustodianUrl || !clientId || !clientSecret) {
+    throw new Error('Green Button Connect My Data is not configured');
+  }
+
+  const connector = new GreenButtonCMDConnector({
+    clientId,
+    clientSecret,
+    dataCustodianUrl,
+    redirectUri: process.env.GREEN_BUTTON_REDIRECT_URI || `${process.env.NEXT_PUBLIC_APP_URL}/api/utility/green-button/callback`,
+    scope: process.env.GREEN_BUTTON_SCOPE
+  });
+
+  return new GreenButtonSyncService(connector, dataCustodianUrl, {
+    stateSecret: process.env.GREEN_BUTTON_STATE_SECRET || clientSecret
+  });
+}
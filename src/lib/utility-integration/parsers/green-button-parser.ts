@@ -214,11 +214,22 @@ export class GreenButtonParser {
     
     // First, extract reading types
     const readingTypes = new Map<string, ReadingType>();
+    const readingTypesByHref = new Map<string, ReadingType>();
+    const meterReadingTypeHrefs = new Map<string, string>();
     entries.forEach(entry => {
+      const links = this.normalizeLinks(entry.link);
+      const self = links.find(link => link['@_rel'] === 'self')?.['@_href'];
       if (entry.content?.ReadingType) {
         readingTypes.set(entry.id, entry.content.ReadingType);
+        if (self) readingTypesByHref.set(self, entry.content.ReadingType);
+      }
+      // ESPI links MeterReading -> ReadingType with a "related" link
+      if (entry.content?.MeterReading !== undefined && self) {
+        const related = links.find(link => link['@_rel'] === 'related' && link['@_href'].includes('/ReadingType/'));
+        if (related) meterReadingTypeHrefs.set(self, related['@_href']);
       }
     });
+    const soleReadingType = readingTypes.size === 1 ? Array.from(readingTypes.values())[0] : undefined;
 
     // Then extract interval data
     entries.forEach(entry => {
@@ -228,12 +239,16 @@ export class GreenButtonParser {
         
         // Find associated reading type
         let readingType: ReadingType | undefined;
-        const links = Array.isArray(entry.link) ? entry.link : [entry.link].filter(Boolean);
+        const links = this.normalizeLinks(entry.link);
         const readingTypeLink = links.find(link => link['@_rel'] === 'up');
         if (readingTypeLink) {
           const readingTypeId = readingTypeLink['@_href'].split('/').pop();
-          readingType = readingTypes.get(readingTypeId || '');
+          // The "up" link of an ESPI IntervalBlock is its MeterReading's IntervalBlock collection
+          const meterReadingHref = readingTypeLink['@_href'].replace(/\/IntervalBlock\/?$/, '');
+          readingType = readingTypes.get(readingTypeId || '') ??
+            readingTypesByHref.get(meterReadingTypeHrefs.get(meterReadingHref) || '');
         }
+        readingType = readingType ?? soleReadingType;
 
         // Process each interval
         intervals.forEach(interval => {
@@ -444,6 +459,14 @@ export class GreenButtonParser {
     return Array.isArray(entry) ? entry : [entry].filter(Boolean);
   }
 
+  /**
+   * Normalize links to array
+   */
+  private normalizeLinks(link?: GreenButtonLink | GreenButtonLink[]): GreenButtonLink[] {
+    if (!link) return [];
+    return Array.isArray(link) ? link : [link];
+  }
+
   /**
    * Normalize intervals to array
    */
@@ -0,0 +1,424 @@
+/**
+ * Outbound Webhook Delivery
+ * Events from the sensor, lighting and compliance subsystems are fanned out to
+ * matching WebhookSubscriptions as one WebhookDelivery each, then sent through
+ * the webhook queue. Failed sends are retried with exponential backoff; when
+ * the attempts run out the delivery is dead-lettered (status "dead") until it
+ * is redelivered by hand. Every attempt is written to WebhookDeliveryAttempt.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { encrypt, decrypt } from '@/lib/security/encryption';
+import { logger } from '@/lib/logging/production-logger';
+import { WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER, signWebhookPayload } from './webhook-signature';
+
+export const WEBHOOK_EVENTS = [
+  'lighting.status_change',
+  'lighting.fixture_offline',
+  'environmental.threshold_exceeded',
+  'environmental.sensor_error',
+  'biology.growth_stage_change',
+  'biology.stress_detected',
+  'biology.harvest_ready',
+  'compliance.audit_reminder',
+  'compliance.certificate_expiring',
+  'system.maintenance_required',
+  'system.alert'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+export const WEBHOOK_BACKOFF_DELAY_MS = 30000; // 30 s, doubling: the last retry is ~64 min after the first failure
+const MAX_CONSECUTIVE_FAILURES = 10; // Dead letters in a row before a subscription is switched off
+const RESPONSE_BODY_LIMIT = 1000;
+
+export interface WebhookFilters {
+  zones?: string[];
+  severity?: string[];
+  metrics?: string[];
+}
+
+export interface WebhookEventScope {
+  facilityId?: string;
+  userId?: string; // Events that belong to one user rather than a facility
+}
+
+export interface WebhookPayload {
+  id: string;
+  type: string;
+  createdAt: string;
+  facilityId: string | null;
+  data: Record<string, any>;
+  version: string;
+}
+
+export interface WebhookDeliveryResult {
+  deliveryId: string;
+  status: 'delivered' | 'retrying' | 'dead' | 'skipped';
+  attempt: number;
+  statusCode?: number;
+  error?: string;
+  nextAttemptAt?: Date;
+}
+
+export interface WebhookPingResult {
+  success: boolean;
+  statusCode?: number;
+  message: string;
+}
+
+export interface WebhookServiceOptions {
+  // Queue a delivery; the default adds a job to the Bull webhook queue
+  enqueue?: (deliveryId: string, jobId: string) => Promise<void>;
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  now?: () => Date;
+}
+
+export function isWebhookEventType(event: string): event is WebhookEventType {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(event);
+}
+
+/**
+ * Delay before retry `attempt + 1`, matching Bull's exponential backoff
+ */
+export function webhookRetryDelay(attempt: number): number {
+  return WEBHOOK_BACKOFF_DELAY_MS * Math.pow(2, attempt - 1);
+}
+
+export class WebhookService {
+  private options: Required<WebhookServiceOptions>;
+
+  constructor(options: WebhookServiceOptions = {}) {
+    this.options = {
+      enqueue: enqueueWebhookJob,
+      fetch: (...args) => fetch(...args),
+      timeoutMs: 10000,
+      now: () => new Date(),
+      ...options
+    };
+  }
+
+  /**
+   * Store a subscription for an API key; the secret is kept encrypted
+   */
+  async subscribe(input: {
+    apiKeyId: string;
+    userId: string;
+    facilityId?: string | null;
+    url: string;
+    events: string[];
+    filters?: WebhookFilters;
+    secret?: string;
+  }) {
+    const secret = input.secret || crypto.randomBytes(32).toString('hex');
+    const subscription = await prisma.webhookSubscription.create({
+      data: {
+        apiKeyId: input.apiKeyId,
+        userId: input.userId,
+        facilityId: input.facilityId || null,
+        url: input.url,
+        secret: encrypt(secret),
+        events: input.events,
+        filters: input.filters as any
+      }
+    });
+
+    return { subscription, secret };
+  }
+
+  /**
+   * Record one delivery per matching subscription and queue them
+   */
+  async emit(type: WebhookEventType, data: Record<string, any>, scope: WebhookEventScope = {}): Promise<string[]> {
+    const subscriptions = await this.matchSubscriptions(type, data, scope);
+    if (subscriptions.length === 0) return [];
+
+    const payload: WebhookPayload = {
+      id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+      type,
+      createdAt: this.options.now().toISOString(),
+      facilityId: scope.facilityId || null,
+      data,
+      version: '1.0'
+    };
+
+    const deliveryIds: string[] = [];
+    for (const subscription of subscriptions) {
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          subscriptionId: subscription.id,
+          eventId: payload.id,
+          eventType: type,
+          payload: payload as any,
+          status: 'pending'
+        }
+      });
+      await this.options.enqueue(delivery.id, delivery.id);
+      deliveryIds.push(delivery.id);
+    }
+
+    logger.info(`Webhook event ${type} queued`, { eventId: payload.id, deliveries: deliveryIds.length });
+    return deliveryIds;
+  }
+
+  /**
+   * Send one delivery attempt. `attempt` and `maxAttempts` count within the
+   * current queue job so a manual redelivery gets a fresh set of retries.
+   */
+  async deliver(deliveryId: string, job: { attempt: number; maxAttempts: number } = { attempt: 1, maxAttempts: 1 }): Promise<WebhookDeliveryResult> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { subscription: true }
+    });
+
+    if (!delivery) {
+      return { deliveryId, status: 'skipped', attempt: job.attempt, error: 'Delivery not found' };
+    }
+    if (delivery.status === 'delivered') {
+      return { deliveryId, status: 'delivered', attempt: job.attempt };
+    }
+    if (!delivery.subscription.active) {
+      return this.deadLetter(delivery, job.attempt, undefined, 'Subscription is inactive', false);
+    }
+
+    const attemptNumber = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(this.options.now().getTime() / 1000);
+    const started = Date.now();
+    let statusCode: number | undefined;
+    let responseBody: string | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await this.options.fetch(delivery.subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Vibelux-Webhooks/1.0',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.eventType,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(decrypt(delivery.subscription.secret), body, timestamp)
+        },
+        body,
+        signal: AbortSignal.timeout(this.options.timeoutMs)
+      });
+      statusCode = response.status;
+      responseBody = (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT);
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    await prisma.webhookDeliveryAttempt.create({
+      data: {
+        deliveryId: delivery.id,
+        attempt: attemptNumber,
+        statusCode: statusCode ?? null,
+        durationMs: Date.now() - started,
+        error: error ?? null,
+        responseBody: responseBody ?? null
+      }
+    });
+
+    const now = this.options.now();
+
+    if (!error) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'delivered', attempts: attemptNumber, lastStatusCode: statusCode, lastError: null, nextAttemptAt: null, deliveredAt: now }
+      });
+      await prisma.webhookSubscription.update({
+        where: { id: delivery.subscriptionId },
+        data: { failureCount: 0, lastDeliveryAt: now }
+      });
+      return { deliveryId, status: 'delivered', attempt: job.attempt, statusCode };
+    }
+
+    // 410 Gone is the receiver asking us to stop
+    if (statusCode === 410) {
+      await prisma.webhookSubscription.update({ where: { id: delivery.subscriptionId }, data: { active: false } });
+      return this.deadLetter({ ...delivery, attempts: attemptNumber }, job.attempt, statusCode, error, false);
+    }
+
+    if (job.attempt >= job.maxAttempts) {
+      return this.deadLetter({ ...delivery, attempts: attemptNumber }, job.attempt, statusCode, error, true);
+    }
+
+    const nextAttemptAt = new Date(now.getTime() + webhookRetryDelay(job.attempt));
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'retrying', attempts: attemptNumber, lastStatusCode: statusCode ?? null, lastError: error, nextAttemptAt }
+    });
+    return { deliveryId, status: 'retrying', attempt: job.attempt, statusCode, error, nextAttemptAt };
+  }
+
+  /**
+   * Take a dead-lettered delivery out of the dead-letter store and queue it again
+   */
+  async redeliver(deliveryId: string): Promise<void> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { subscription: true }
+    });
+    if (!delivery) {
+      throw new Error('Delivery not found');
+    }
+    if (delivery.status !== 'dead') {
+      throw new Error(`Only dead-lettered deliveries can be redelivered (status is ${delivery.status})`);
+    }
+    if (!delivery.subscription.active) {
+      throw new Error('Subscription is inactive');
+    }
+
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'pending', nextAttemptAt: null, deadLetteredAt: null }
+    });
+    await this.options.enqueue(deliveryId, `${deliveryId}:${delivery.attempts}`);
+    logger.info('api', `Webhook delivery ${deliveryId} requeued from dead letter`);
+  }
+
+  /**
+   * Signed `webhook.test` event sent when a subscription is created
+   */
+  async ping(url: string, secret: string): Promise<WebhookPingResult> {
+    const body = JSON.stringify({
+      id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+      type: 'webhook.test',
+      createdAt: this.options.now().toISOString(),
+      facilityId: null,
+      data: { message: 'Webhook endpoint test' },
+      version: '1.0'
+    });
+    const timestamp = Math.floor(this.options.now().getTime() / 1000);
+
+    try {
+      const response = await this.options.fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Vibelux-Webhooks/1.0',
+          'X-Webhook-Event': 'webhook.test',
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, body, timestamp)
+        },
+        body,
+        signal: AbortSignal.timeout(this.options.timeoutMs)
+      });
+
+      return {
+        success: response.ok,
+        statusCode: response.status,
+        message: response.ok ? 'Webhook test successful' : 'Webhook test failed'
+      };
+    } catch {
+      return { success: false, message: 'Failed to reach webhook endpoint' };
+    }
+  }
+
+  private async deadLetter(
+    delivery: { id: string; subscriptionId: string; attempts: number },
+    attempt: number,
+    statusCode: number | undefined,
+    error: string | undefined,
+    countFailure: boolean
+  ): Promise<WebhookDeliveryResult> {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'dead',
+        attempts: delivery.attempts,
+        lastStatusCode: statusCode ?? null,
+        lastError: error ?? null,
+        nextAttemptAt: null,
+        deadLetteredAt: this.options.now()
+      }
+    });
+
+    if (countFailure) {
+      const subscription = await prisma.webhookSubscription.update({
+        where: { id: delivery.subscriptionId },
+        data: { failureCount: { increment: 1 } }
+      });
+      if (subscription.failureCount >= MAX_CONSECUTIVE_FAILURES) {
+        await prisma.webhookSubscription.update({ where: { id: delivery.subscriptionId }, data: { active: false } });
+        logger.warn('api', `Webhook subscription ${delivery.subscriptionId} disabled after ${subscription.failureCount} dead-lettered deliveries`);
+      }
+    }
+
+    logger.warn(`Webhook delivery ${delivery.id} dead-lettered`, { statusCode, error });
+    return { deliveryId: delivery.id, status: 'dead', attempt, statusCode, error };
+  }
+
+  /**
+   * Active subscriptions to the event whose API key reaches the facility (or
+   * user) and whose filters accept the data
+   */
+  private async matchSubscriptions(type: WebhookEventType, data: Record<string, any>, scope: WebhookEventScope) {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { active: true, events: { has: type } }
+    });
+    if (subscriptions.length === 0) return [];
+
+    let members: Set<string> | null = null;
+    if (scope.facilityId) {
+      const facility = await prisma.facility.findUnique({
+        where: { id: scope.facilityId },
+        select: { ownerId: true, users: { select: { userId: true } } }
+      });
+      members = new Set([
+        ...(facility?.ownerId ? [facility.ownerId] : []),
+        ...(facility?.users || []).map(user => user.userId)
+      ]);
+    }
+
+    return subscriptions.filter(subscription => {
+      if (scope.facilityId) {
+        const inScope = subscription.facilityId
+          ? subscription.facilityId === scope.facilityId
+          : members!.has(subscription.userId);
+        if (!inScope) return false;
+      } else if (scope.userId && subscription.userId !== scope.userId) {
+        return false;
+      }
+
+      const filters = (subscription.filters || {}) as WebhookFilters;
+      if (filters.zones?.length && !filters.zones.includes(data.zoneId ?? data.zone)) return false;
+      if (filters.severity?.length && !filters.severity.includes(data.severity)) return false;
+      if (filters.metrics?.length && !filters.metrics.includes(data.metric)) return false;
+      return true;
+    });
+  }
+}
+
+async function enqueueWebhookJob(deliveryId: string, jobId: string): Promise<void> {
+  // Loaded on first use so emitting modules don't open Redis connections at import
+  const { queueManager } = await import('@/lib/queue/queue-manager');
+  await queueManager.addWebhookJob({ deliveryId }, {
+    jobId,
+    attempts: WEBHOOK_MAX_ATTEMPTS,
+    backoff: { type: 'exponential', delay: WEBHOOK_BACKOFF_DELAY_MS }
+  });
+}
+
+let defaultService: WebhookService | null = null;
+
+export function getWebhookService(): WebhookService {
+  if (!defaultService) {
+    defaultService = new WebhookService();
+  }
+  return defaultService;
+}
+
+/**
+ * Fire-and-forget emit for subsystems; webhook failures never reach the caller
+ */
+export function emitWebhookEvent(type: WebhookEventType, data: Record<string, any>, scope: WebhookEventScope = {}): void {
+  getWebhookService().emit(type, data, scope).catch(error => {
+    logger.error(`Failed to emit webhook event ${type}`, error as Error);
+  });
+}
@@ -0,0 +1,44 @@
+/**
+ * Webhook Signatures
+ * Deliveries carry `X-Webhook-Signature: t=<unix seconds>,v1=<hex>` where v1 is
+ * HMAC-SHA256 over `${t}.${body}` with the subscription secret. Signing the
+ * timestamp lets receivers reject replayed deliveries.
+ */
+
+import crypto from 'crypto';
+import { secureCompare } from '@/lib/security/encryption';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${computeWebhookSignature(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a signature header against the raw request body. Any v1 entry may
+ * match, so receivers keep working while a secret is being rotated.
+ */
+export function verifyWebhookSignature(
+  header: string | null | undefined,
+  body: string,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Date.now()
+): boolean {
+  if (!header) return false;
+
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+  if (!Number.isFinite(timestamp) || signatures.length === 0) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = computeWebhookSignature(secret, timestamp, body);
+  return signatures.some(signature => secureCompare((signature || '').toLowerCase(), expected));
+}
@@ -24,6 +24,26 @@ export function getCronRunner() {
       } catch {}
     }, { scheduled: true }))
 
+    // HMI automation rules every minute
+    tasks.push(cron.schedule('* * * * *', async () => {
+      try {
+        await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || ''}/api/hmi/automation/run`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${process.env.CRON_SECRET_TOKEN || ''}` }
+        }).catch(() => null)
+      } catch {}
+    }))
+
+    // Compliance reminder webhooks daily at 07:00 UTC
+    tasks.push(cron.schedule('0 7 * * *', async () => {
+      try {
+        await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || ''}/api/compliance/reminders/run`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${process.env.CRON_SECRET_TOKEN || ''}` }
+        }).catch(() => null)
+      } catch {}
+    }))
+
     // Accounting sync every day at 03:00 UTC (if facility known via server session route)
     tasks.push(cron.schedule('0 3 * * *', async () => {
       try {
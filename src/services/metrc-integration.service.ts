@@ -6,6 +6,8 @@
 import { logger } from '@/lib/logging/production-logger';
 import { redis } from '@/lib/redis';
 import { METRCClient, METRCConfig, METRCPlant, METRCPackage, METRCHarvest, METRCTransfer, METRCLabTest } from '@/lib/compliance/metrc-client';
+import { METRCReconciliationEngine, ReconciliationOptions, ReconciliationReport } from '@/lib/compliance/metrc-reconciliation';
+import { PrismaLedgerStore } from '@/lib/seed-to-sale/ledger-store';
 
 export interface METRCIntegrationConfig {
   facilityId: string;
@@ -359,6 +361,27 @@ export class METRCIntegrationService {
     }
   }
 
+  /**
+   * Diff METRC against the facility's seed-to-sale ledger
+   */
+  async reconcile(facilityId: string, options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+    const config = await this.getConfiguration(facilityId);
+    if (!config) {
+      throw new Error(`No METRC configuration found for facility ${facilityId}`);
+    }
+
+    if (!this.metrcClient) {
+      await this.initializeIntegration(config);
+    }
+
+    const engine = new METRCReconciliationEngine(this.metrcClient!, new PrismaLedgerStore(), options);
+    const report = await engine.reconcile(facilityId, config.licenseNumber);
+
+    const key = `${this.cachePrefix}reconciliation:${facilityId}`;
+    await redis.setex(key, this.cacheTTL * 24, JSON.stringify(report));
+    return report;
+  }
+
   // Helper Methods
 
   private async syncPlants(config: METRCIntegrationConfig): Promise<any> {
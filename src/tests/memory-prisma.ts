@@ -0,0 +1,182 @@
+/**
+ * In-memory Prisma model delegates for service tests
+ *
+ * Suites that run services against `@/lib/prisma` install tables with
+ * `Object.assign(prisma, { webhookSubscription: memoryTable('sub') })` and read
+ * `table.rows` to check what was written. Where clauses understand equality,
+ * `in`, `notIn`, `not`, `gt`/`gte`/`lt`/`lte`, `has` on scalar lists, `OR`,
+ * relation filters and compound unique keys; updates understand `increment`
+ * and `decrement`. Reads return copies, like the real client.
+ */
+
+import { jest } from '@jest/globals';
+
+export type MemoryRow = Record<string, unknown>;
+export type MemoryWhere = Record<string, unknown>;
+
+type SortOrder = 'asc' | 'desc';
+export type MemoryOrderBy = Record<string, SortOrder> | Array<Record<string, SortOrder>>;
+
+export interface MemoryQuery {
+  where?: MemoryWhere;
+  orderBy?: MemoryOrderBy;
+  take?: number;
+}
+
+const OPERATORS = new Set(['equals', 'in', 'notIn', 'not', 'gt', 'gte', 'lt', 'lte', 'has']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isOperatorObject(value: Record<string, unknown>): boolean {
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => OPERATORS.has(key));
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return a === b;
+}
+
+function compare(a: unknown, b: unknown): number {
+  const x = a instanceof Date ? a.getTime() : (a as number | string);
+  const y = b instanceof Date ? b.getTime() : (b as number | string);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function matchesOperators(value: unknown, condition: Record<string, unknown>): boolean {
+  return Object.entries(condition).every(([operator, operand]) => {
+    if (operand === undefined) return true;
+    switch (operator) {
+      case 'equals':
+        return equals(value, operand);
+      case 'in':
+        return (operand as unknown[]).some(item => equals(value, item));
+      case 'notIn':
+        return !(operand as unknown[]).some(item => equals(value, item));
+      case 'not':
+        return !matchesCondition(value, operand);
+      case 'has':
+        return Array.isArray(value) && value.some(item => equals(item, operand));
+      case 'gt':
+        return value != null && compare(value, operand) > 0;
+      case 'gte':
+        return value != null && compare(value, operand) >= 0;
+      case 'lt':
+        return value != null && compare(value, operand) < 0;
+      default:
+        return value != null && compare(value, operand) <= 0;
+    }
+  });
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (condition === undefined) return true;
+  if (!isPlainObject(condition)) return equals(value, condition);
+  if (isOperatorObject(condition)) return matchesOperators(value, condition);
+  // Relation filter on an included or embedded record
+  return isPlainObject(value) && matchesWhere(value, condition);
+}
+
+export function matchesWhere(row: MemoryRow, where: MemoryWhere = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') return (condition as MemoryWhere[]).some(branch => matchesWhere(row, branch));
+    if (key === 'AND') return (condition as MemoryWhere[]).every(branch => matchesWhere(row, branch));
+    // Compound unique keys such as facilityId_tag hold the fields they combine
+    if (!(key in row) && isPlainObject(condition) && !isOperatorObject(condition)) {
+      return matchesWhere(row, condition);
+    }
+    return matchesCondition(row[key], condition);
+  });
+}
+
+function applyData<T extends MemoryRow>(row: T, data: MemoryRow): T {
+  const target: MemoryRow = row;
+  Object.entries(data).forEach(([key, value]) => {
+    if (value === undefined) return;
+    if (isPlainObject(value) && typeof value.increment === 'number') {
+      target[key] = (target[key] as number) + value.increment;
+    } else if (isPlainObject(value) && typeof value.decrement === 'number') {
+      target[key] = (target[key] as number) - value.decrement;
+    } else {
+      target[key] = value;
+    }
+  });
+  return row;
+}
+
+function sortRows<T extends MemoryRow>(rows: T[], orderBy?: MemoryOrderBy): T[] {
+  if (!orderBy) return rows;
+  const keys = ([] as Array<Record<string, SortOrder>>).concat(orderBy).flatMap(entry => Object.entries(entry));
+  return [...rows].sort((a, b) => {
+    for (const [key, order] of keys) {
+      const result = compare(a[key], b[key]);
+      if (result !== 0) return order === 'desc' ? -result : result;
+    }
+    return 0;
+  });
+}
+
+/**
+ * A model delegate backed by an array. New rows get `${prefix}-n` ids and the
+ * fields from `defaults`, which runs once per row so it can stamp timestamps.
+ */
+export function memoryTable<T extends MemoryRow = MemoryRow>(prefix: string, defaults: () => Partial<T> = () => ({})) {
+  const rows: T[] = [];
+  let counter = 0;
+
+  const select = (where?: MemoryWhere) => rows.filter(row => matchesWhere(row, where));
+  const copy = (row: T | undefined): T | null => (row ? { ...row } : null);
+  const insert = (data: MemoryRow): T => {
+    const row = { id: `${prefix}-${++counter}`, ...defaults(), ...data } as unknown as T;
+    rows.push(row);
+    return row;
+  };
+  const single = (where: MemoryWhere): T => {
+    const row = select(where)[0];
+    if (!row) throw new Error(`No ${prefix} row matches ${JSON.stringify(where)}`);
+    return row;
+  };
+
+  return {
+    rows,
+    create: jest.fn(async ({ data }: { data: MemoryRow }) => ({ ...insert(data) })),
+    createMany: jest.fn(async ({ data }: { data: MemoryRow[] }) => {
+      data.forEach(insert);
+      return { count: data.length };
+    }),
+    findUnique: jest.fn(async ({ where }: { where: MemoryWhere }) => copy(select(where)[0])),
+    findFirst: jest.fn(async ({ where, orderBy }: MemoryQuery = {}) => copy(sortRows(select(where), orderBy)[0])),
+    findMany: jest.fn(async ({ where, orderBy, take }: MemoryQuery = {}) =>
+      sortRows(select(where), orderBy).slice(0, take).map(row => ({ ...row }))),
+    count: jest.fn(async ({ where }: MemoryQuery = {}) => select(where).length),
+    update: jest.fn(async ({ where, data }: { where: MemoryWhere; data: MemoryRow }) => ({ ...applyData(single(where), data) })),
+    updateMany: jest.fn(async ({ where, data }: { where?: MemoryWhere; data: MemoryRow }) => {
+      const matched = select(where);
+      matched.forEach(row => applyData(row, data));
+      return { count: matched.length };
+    }),
+    upsert: jest.fn(async ({ where, create, update }: { where: MemoryWhere; create: MemoryRow; update: MemoryRow }) => {
+      const existing = select(where)[0];
+      return { ...(existing ? applyData(existing, update) : insert(create)) };
+    }),
+    delete: jest.fn(async ({ where }: { where: MemoryWhere }) => {
+      const row = single(where);
+      rows.splice(rows.indexOf(row), 1);
+      return { ...row };
+    }),
+    deleteMany: jest.fn(async ({ where }: MemoryQuery = {}) => {
+      const matched = select(where);
+      matched.forEach(row => rows.splice(rows.indexOf(row), 1));
+      return { count: matched.length };
+    }),
+    /** Drop every row and restart the id counter */
+    clear() {
+      rows.length = 0;
+      counter = 0;
+    }
+  };
+}
+
+export type MemoryTable<T extends MemoryRow = MemoryRow> = ReturnType<typeof memoryTable<T>>;
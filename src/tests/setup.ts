@@ -557,9 +557,12 @@ jest.mock('events', () => ({
   EventEmitter: jest.fn(() => mockEventEmitter),
 }));
 
+// Suites that declare `@jest-environment node` have no DOM; the browser mocks below are skipped for them
+const hasDOM = typeof document !== 'undefined';
+
 // Mock WebGL context for THREE.js
 const mockWebGLContext = {
-  canvas: document.createElement('canvas'),
+  canvas: hasDOM ? document.createElement('canvas') : undefined,
   drawingBufferWidth: 1024,
   drawingBufferHeight: 768,
   getExtension: jest.fn(),
@@ -586,14 +589,16 @@ const mockWebGLContext = {
 };
 
 // Mock WebGL context creation
-Object.defineProperty(HTMLCanvasElement.prototype, 'getContext', {
-  value: jest.fn((contextType) => {
-    if (contextType === 'webgl' || contextType === 'experimental-webgl') {
-      return mockWebGLContext;
-    }
-    return null;
-  }),
-});
+if (hasDOM) {
+  Object.defineProperty(HTMLCanvasElement.prototype, 'getContext', {
+    value: jest.fn((contextType) => {
+      if (contextType === 'webgl' || contextType === 'experimental-webgl') {
+        return mockWebGLContext;
+      }
+      return null;
+    }),
+  });
+}
 
 // Mock ResizeObserver
 global.ResizeObserver = jest.fn(() => ({
@@ -665,16 +670,18 @@ if (typeof URLSearchParams === 'undefined') {
   } as any;
 }
 
-// Mock fetch
-global.fetch = jest.fn(() =>
-  Promise.resolve({
-    ok: true,
-    json: () => Promise.resolve({}),
-    text: () => Promise.resolve(''),
-    blob: () => Promise.resolve(new Blob()),
-    arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
-  })
-) as any;
+// Mock fetch; node-environment suites keep the runtime's fetch for their in-process servers
+if (hasDOM) {
+  global.fetch = jest.fn(() =>
+    Promise.resolve({
+      ok: true,
+      json: () => Promise.resolve({}),
+      text: () => Promise.resolve(''),
+      blob: () => Promise.resolve(new Blob()),
+      arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+    })
+  ) as any;
+}
 
 // Mock localStorage
 const mockLocalStorage = {
@@ -686,14 +693,16 @@ const mockLocalStorage = {
   key: jest.fn(),
 };
 
-Object.defineProperty(window, 'localStorage', {
-  value: mockLocalStorage,
-});
+if (hasDOM) {
+  Object.defineProperty(window, 'localStorage', {
+    value: mockLocalStorage,
+  });
 
-// Mock sessionStorage
-Object.defineProperty(window, 'sessionStorage', {
-  value: mockLocalStorage,
-});
+  // Mock sessionStorage
+  Object.defineProperty(window, 'sessionStorage', {
+    value: mockLocalStorage,
+  });
+}
 
 // Clean up after each test
 afterEach(() => {
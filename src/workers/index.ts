@@ -10,6 +10,7 @@ import '../lib/queue/workers/sensor-data-worker';
 import '../lib/queue/workers/data-processing-worker';
 import '../lib/queue/workers/scheduled-jobs-worker';
 import '../lib/queue/workers/notification-worker';
+import '../lib/queue/workers/webhook-worker';
 
 // Worker configuration
 const WORKER_NAME = process.env.WORKER_NAME || 'vibelux-worker';